@@ -0,0 +1,39 @@
+/**
+ * Push Service Worker
+ * Shows notifications the server pushes (services/webPush.ts) and opens the app on click
+ *
+ * Registered by NotificationContext.subscribeToPush. Payloads are JSON:
+ * { id, title, body, url, severity }.
+ */
+
+self.addEventListener('push', event => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'Equity Insight', {
+      body: payload.body || '',
+      icon: '/favicon.ico',
+      badge: '/favicon.ico',
+      tag: payload.id,
+      data: { url: payload.url || '/' },
+      requireInteraction: payload.severity === 'critical'
+    })
+  );
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const open = windows.find(client => client.url === url);
+      return open ? open.focus() : self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,219 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for Twilio's WhatsApp Messages API, for development and tests.
+ *
+ * Point the app at it with TWILIO_API_URL=http://localhost:4010 (any TWILIO_ACCOUNT_SID,
+ * TWILIO_AUTH_TOKEN and TWILIO_WHATSAPP_NUMBER will do). Messages it accepts move through
+ * queued -> sent -> delivered -> read, and each change is posted to the message's
+ * StatusCallback with a valid X-Twilio-Signature, just like Twilio. Recipients ending in
+ * 0001 fail as outside the 24-hour session window unless a content template is used; ones
+ * ending in 0002 are undelivered.
+ *
+ *   GET    /messages   everything received, newest first
+ *   DELETE /messages   forget everything
+ *
+ * Usage: node scripts/twilio-mock-server.js  (TWILIO_MOCK_PORT, TWILIO_MOCK_STEP_MS)
+ * Tests start it with createMockServer({ stepMs }); see src/services/__tests__/whatsappDelivery.test.ts.
+ */
+const http = require('http');
+const crypto = require('crypto');
+
+const DEFAULT_PORT = 4010;
+const DEFAULT_STEP_MS = 500;
+const MESSAGE_PATH = /^\/2010-04-01\/Accounts\/([^/]+)\/Messages(?:\/([^/]+))?\.json$/;
+const WHATSAPP_ADDRESS = /^whatsapp:\+[1-9]\d{6,14}$/;
+
+function signature(authToken, url, params) {
+  const data = Object.keys(params).sort().reduce((signed, key) => signed + key + params[key], url);
+  return crypto.createHmac('sha1', authToken).update(data, 'utf8').digest('base64');
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function twilioError(res, status, code, message) {
+  send(res, status, { code, message, more_info: `https://www.twilio.com/docs/errors/${code}`, status });
+}
+
+function credentials(req) {
+  const header = req.headers.authorization || '';
+  if (!header.startsWith('Basic ')) return null;
+  const [user, ...rest] = Buffer.from(header.slice(6), 'base64').toString('utf8').split(':');
+  const password = rest.join(':');
+  return user && password ? { user, password } : null;
+}
+
+function createMockServer(options = {}) {
+  const stepMs = options.stepMs ?? Number(process.env.TWILIO_MOCK_STEP_MS || DEFAULT_STEP_MS);
+  const log = options.log ?? (message => console.log(message));
+  const messages = new Map();
+  const timers = new Set();
+
+  const resource = message => ({
+    sid: message.sid,
+    account_sid: message.accountSid,
+    from: message.from,
+    to: message.to,
+    body: message.body,
+    status: message.status,
+    error_code: message.errorCode,
+    error_message: message.errorMessage,
+    date_created: message.dateCreated,
+    date_updated: message.dateUpdated,
+    uri: `/2010-04-01/Accounts/${message.accountSid}/Messages/${message.sid}.json`
+  });
+
+  async function notify(message) {
+    if (!message.statusCallback) return;
+    const params = {
+      AccountSid: message.accountSid,
+      ApiVersion: '2010-04-01',
+      ChannelPrefix: 'whatsapp',
+      From: message.from,
+      MessageSid: message.sid,
+      MessageStatus: message.status,
+      SmsSid: message.sid,
+      SmsStatus: message.status,
+      To: message.to
+    };
+    if (message.errorCode) params.ErrorCode = String(message.errorCode);
+
+    try {
+      const response = await fetch(message.statusCallback, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'X-Twilio-Signature': signature(message.authToken, message.statusCallback, params)
+        },
+        body: new URLSearchParams(params)
+      });
+      log(`${message.sid} ${message.status} -> ${message.statusCallback} (${response.status})`);
+    } catch (error) {
+      log(`${message.sid} ${message.status} -> ${message.statusCallback} failed: ${error.message}`);
+    }
+  }
+
+  function progress(message, steps) {
+    const [next, ...rest] = steps;
+    if (!next) return;
+    const timer = setTimeout(async () => {
+      timers.delete(timer);
+      Object.assign(message, next, { dateUpdated: new Date().toUTCString() });
+      await notify(message);
+      progress(message, rest);
+    }, stepMs);
+    timers.add(timer);
+  }
+
+  async function create(req, res, accountSid, auth) {
+    const params = Object.fromEntries(new URLSearchParams(await readBody(req)));
+    if (!WHATSAPP_ADDRESS.test(params.To || '')) {
+      return twilioError(res, 400, 21211, `Invalid 'To' Phone Number: ${params.To || ''}`);
+    }
+    if (!WHATSAPP_ADDRESS.test(params.From || '')) {
+      return twilioError(res, 400, 21212, `Invalid 'From' Phone Number: ${params.From || ''}`);
+    }
+    if (!params.Body && !params.ContentSid) {
+      return twilioError(res, 400, 21619, 'A text message body or media urls must be specified.');
+    }
+    let variables = {};
+    if (params.ContentSid) {
+      try {
+        variables = JSON.parse(params.ContentVariables || '{}');
+      } catch {
+        return twilioError(res, 400, 21656, 'The ContentVariables Parameter is invalid.');
+      }
+    }
+
+    const now = new Date().toUTCString();
+    const message = {
+      sid: `SM${crypto.randomBytes(16).toString('hex')}`,
+      accountSid,
+      authToken: auth.password,
+      from: params.From,
+      to: params.To,
+      body: params.Body || `[${params.ContentSid}] ${JSON.stringify(variables)}`,
+      contentSid: params.ContentSid || null,
+      statusCallback: params.StatusCallback || null,
+      status: 'queued',
+      errorCode: null,
+      errorMessage: null,
+      dateCreated: now,
+      dateUpdated: now
+    };
+    messages.set(message.sid, message);
+    log(`${message.sid} queued for ${message.to}`);
+
+    if (message.to.endsWith('0001') && !message.contentSid) {
+      progress(message, [{ status: 'failed', errorCode: 63016, errorMessage: 'Outside the allowed window; use a template' }]);
+    } else if (message.to.endsWith('0002')) {
+      progress(message, [{ status: 'sent' }, { status: 'undelivered', errorCode: 63024, errorMessage: 'Invalid message recipient' }]);
+    } else {
+      progress(message, [{ status: 'sent' }, { status: 'delivered' }, { status: 'read' }]);
+    }
+    send(res, 201, resource(message));
+  }
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url, 'http://localhost');
+
+      if (url.pathname === '/messages') {
+        if (req.method === 'GET') {
+          return send(res, 200, Array.from(messages.values()).reverse().map(message => ({ ...resource(message), content_sid: message.contentSid })));
+        }
+        if (req.method === 'DELETE') {
+          messages.clear();
+          return send(res, 204);
+        }
+      }
+
+      const match = url.pathname.match(MESSAGE_PATH);
+      if (!match) return twilioError(res, 404, 20404, 'The requested resource was not found');
+
+      const [, accountSid, messageSid] = match;
+      const auth = credentials(req);
+      if (!auth || auth.user !== accountSid) return twilioError(res, 401, 20003, 'Authentication Error - invalid username');
+
+      if (req.method === 'POST' && !messageSid) return await create(req, res, accountSid, auth);
+      if (req.method === 'GET' && messageSid) {
+        const message = messages.get(messageSid);
+        if (!message || message.accountSid !== accountSid) {
+          return twilioError(res, 404, 20404, `The requested resource ${url.pathname} was not found`);
+        }
+        return send(res, 200, resource(message));
+      }
+      return twilioError(res, 405, 20004, 'Method not allowed');
+    } catch (error) {
+      twilioError(res, 500, 20500, error.message);
+    }
+  });
+
+  server.on('close', () => {
+    timers.forEach(timer => clearTimeout(timer));
+    timers.clear();
+  });
+  server.messages = messages;
+  return server;
+}
+
+module.exports = { createMockServer, signature };
+
+if (require.main === module) {
+  const port = Number(process.env.TWILIO_MOCK_PORT || DEFAULT_PORT);
+  createMockServer().listen(port, () => {
+    console.log(`Twilio mock server listening on http://localhost:${port}`);
+    console.log(`Set TWILIO_API_URL=http://localhost:${port} to send WhatsApp messages through it`);
+  });
+}
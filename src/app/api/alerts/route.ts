@@ -0,0 +1,215 @@
+/**
+ * API Routes for the Alert Engine
+ * /api/alerts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AlertError, parseAlertPolicy } from '@/services/alertEngine';
+import { AlertChanges, alertEngineService } from '@/services/alertEngineService';
+import { AlertCondition, AlertDirection, AlertRepeat, AlertSource } from '@/types';
+
+const SYMBOL_PATTERN = /^[A-Z0-9.-]{1,10}$/;
+const SOURCES: AlertSource[] = ['stock', 'price', 'position'];
+const REPEATS: AlertRepeat[] = ['once', 'rearm'];
+const CONDITION_TYPES: AlertCondition['type'][] = ['above', 'below', 'rule', 'trailingStop', 'move', 'gap', 'yearRange'];
+
+/**
+ * Conditions from the request body, or the reason they are invalid; prices, percentages,
+ * directions and rules are checked by the engine
+ */
+function parseConditions(value: unknown): AlertCondition[] | string {
+  if (!Array.isArray(value) || value.length === 0) return 'conditions must be a non-empty list';
+
+  const conditions: AlertCondition[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') return 'Each condition must be an object';
+    const condition = entry as Record<string, unknown>;
+    const direction = typeof condition.direction === 'string' ? { direction: condition.direction as AlertDirection } : {};
+
+    if (condition.type === 'above' || condition.type === 'below') {
+      if (typeof condition.price !== 'number') return `An ${condition.type} condition needs a price`;
+      conditions.push({ type: condition.type, price: condition.price });
+    } else if (condition.type === 'rule') {
+      if (typeof condition.rule !== 'string' || !condition.rule.trim()) return 'A rule condition needs a rule';
+      conditions.push({ type: 'rule', rule: condition.rule.trim() });
+    } else if (condition.type === 'trailingStop') {
+      const { percent, atrMultiple } = condition;
+      if ((percent !== undefined && typeof percent !== 'number') || (atrMultiple !== undefined && typeof atrMultiple !== 'number')) {
+        return 'A trailingStop condition needs a numeric percent or atrMultiple';
+      }
+      conditions.push({
+        type: 'trailingStop',
+        ...(typeof percent === 'number' ? { percent } : {}),
+        ...(typeof atrMultiple === 'number' ? { atrMultiple } : {})
+      });
+    } else if (condition.type === 'move' || condition.type === 'gap') {
+      if (typeof condition.percent !== 'number') return `A ${condition.type} condition needs a percent`;
+      conditions.push({ type: condition.type, percent: condition.percent, ...direction });
+    } else if (condition.type === 'yearRange') {
+      conditions.push({ type: 'yearRange', ...direction });
+    } else {
+      return `Condition type must be one of ${CONDITION_TYPES.map(type => `'${type}'`).join(', ')}`;
+    }
+  }
+  return conditions;
+}
+
+function alertErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof SyntaxError) {
+    return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+  }
+  if (error instanceof AlertError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+  }
+  return null;
+}
+
+/**
+ * GET /api/alerts?userId=xxx[&source=stock|price|position]
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+
+    const source = searchParams.get('source') as AlertSource | null;
+    if (source && !SOURCES.includes(source)) {
+      return NextResponse.json({ success: false, error: `source must be one of ${SOURCES.join(', ')}` }, { status: 400 });
+    }
+
+    const alerts = await alertEngineService.listAlerts(userId, source ?? undefined);
+    return NextResponse.json({ success: true, data: alerts, count: alerts.length });
+  } catch (error) {
+    console.error('Error fetching alerts:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load alerts' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/alerts
+ * Create an alert: { userId, ticker, conditions: [{ type: 'above', price }, ...], repeat?, policy?, isActive? }
+ * where a condition is one of { type: 'above' | 'below', price }, { type: 'rule', rule },
+ * { type: 'trailingStop', percent | atrMultiple }, { type: 'move' | 'gap', percent, direction? }
+ * or { type: 'yearRange', direction? }, and policy is { rearmPercent?, cooldownMinutes?, dailyCap?, marketHoursOnly? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.userId || typeof body.userId !== 'string') {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+
+    const ticker = typeof body.ticker === 'string' ? body.ticker.trim().toUpperCase() : '';
+    if (!SYMBOL_PATTERN.test(ticker)) {
+      return NextResponse.json({ success: false, error: 'Invalid ticker' }, { status: 400 });
+    }
+
+    const conditions = parseConditions(body.conditions);
+    if (typeof conditions === 'string') {
+      return NextResponse.json({ success: false, error: conditions }, { status: 400 });
+    }
+
+    const repeat: AlertRepeat = body.repeat ?? 'once';
+    if (!REPEATS.includes(repeat)) {
+      return NextResponse.json({ success: false, error: `repeat must be one of ${REPEATS.join(', ')}` }, { status: 400 });
+    }
+
+    const policy = body.policy === undefined ? undefined : parseAlertPolicy(body.policy);
+    if (typeof policy === 'string') {
+      return NextResponse.json({ success: false, error: policy }, { status: 400 });
+    }
+
+    const alert = await alertEngineService.createAlert(body.userId, {
+      ticker,
+      conditions,
+      source: 'stock',
+      repeat,
+      ...(policy ? { policy } : {}),
+      isActive: body.isActive !== false
+    });
+    return NextResponse.json({ success: true, data: alert }, { status: 201 });
+  } catch (error) {
+    const response = alertErrorResponse(error);
+    if (response) return response;
+    console.error('Error creating alert:', error);
+    return NextResponse.json({ success: false, error: 'Failed to create alert' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/alerts
+ * Change an alert: { userId, alertId, isActive?, conditions?, repeat?, policy? }; the policy replaces the current one
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.userId || typeof body.userId !== 'string' || !body.alertId || typeof body.alertId !== 'string') {
+      return NextResponse.json({ success: false, error: 'User ID and alert ID are required' }, { status: 400 });
+    }
+
+    const changes: AlertChanges = {};
+    if (body.isActive !== undefined) {
+      if (typeof body.isActive !== 'boolean') {
+        return NextResponse.json({ success: false, error: 'isActive must be a boolean' }, { status: 400 });
+      }
+      changes.isActive = body.isActive;
+    }
+    if (body.conditions !== undefined) {
+      const conditions = parseConditions(body.conditions);
+      if (typeof conditions === 'string') {
+        return NextResponse.json({ success: false, error: conditions }, { status: 400 });
+      }
+      changes.conditions = conditions;
+    }
+    if (body.repeat !== undefined) {
+      if (!REPEATS.includes(body.repeat)) {
+        return NextResponse.json({ success: false, error: `repeat must be one of ${REPEATS.join(', ')}` }, { status: 400 });
+      }
+      changes.repeat = body.repeat;
+    }
+    if (body.policy !== undefined) {
+      const policy = parseAlertPolicy(body.policy);
+      if (typeof policy === 'string') {
+        return NextResponse.json({ success: false, error: policy }, { status: 400 });
+      }
+      changes.policy = policy;
+    }
+
+    const alert = await alertEngineService.updateAlert(body.userId, body.alertId, changes);
+    if (!alert) {
+      return NextResponse.json({ success: false, error: 'Alert not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, data: alert });
+  } catch (error) {
+    const response = alertErrorResponse(error);
+    if (response) return response;
+    console.error('Error updating alert:', error);
+    return NextResponse.json({ success: false, error: 'Failed to update alert' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/alerts?userId=xxx&alertId=alert_...
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const alertId = searchParams.get('alertId');
+    if (!userId || !alertId) {
+      return NextResponse.json({ success: false, error: 'User ID and alert ID are required' }, { status: 400 });
+    }
+
+    const removed = await alertEngineService.removeAlert(userId, alertId);
+    if (!removed) {
+      return NextResponse.json({ success: false, error: 'Alert not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing alert:', error);
+    return NextResponse.json({ success: false, error: 'Failed to remove alert' }, { status: 500 });
+  }
+}
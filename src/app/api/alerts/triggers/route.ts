@@ -0,0 +1,77 @@
+/**
+ * API Routes for the Alert Trigger History
+ * /api/alerts/triggers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { alertEngineService } from '@/services/alertEngineService';
+import { AlertSource } from '@/types';
+
+const SOURCES: AlertSource[] = ['stock', 'price', 'position'];
+const MAX_LIMIT = 500;
+
+/**
+ * GET /api/alerts/triggers?userId=xxx[&since=ISO timestamp][&source=...][&limit=50]
+ * Triggers newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+
+    const since = searchParams.get('since');
+    if (since && Number.isNaN(Date.parse(since))) {
+      return NextResponse.json({ success: false, error: 'since must be an ISO timestamp' }, { status: 400 });
+    }
+
+    const source = searchParams.get('source') as AlertSource | null;
+    if (source && !SOURCES.includes(source)) {
+      return NextResponse.json({ success: false, error: `source must be one of ${SOURCES.join(', ')}` }, { status: 400 });
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), MAX_LIMIT);
+    const triggers = await alertEngineService.getTriggers(userId, {
+      since: since ? new Date(since).toISOString() : undefined,
+      source: source ?? undefined,
+      limit
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: triggers,
+      count: triggers.length,
+      unreadCount: triggers.filter(trigger => !trigger.isRead).length
+    });
+  } catch (error) {
+    console.error('Error fetching alert triggers:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load alert triggers' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/alerts/triggers
+ * Mark triggers as read: { userId, triggerIds? } (all of the user's when triggerIds is omitted)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.userId || typeof body.userId !== 'string') {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+    if (body.triggerIds !== undefined && (!Array.isArray(body.triggerIds) || body.triggerIds.some((id: unknown) => typeof id !== 'string'))) {
+      return NextResponse.json({ success: false, error: 'triggerIds must be a list of trigger IDs' }, { status: 400 });
+    }
+
+    const updated = await alertEngineService.markTriggersRead(body.userId, body.triggerIds);
+    return NextResponse.json({ success: true, data: { updated } });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    console.error('Error marking alert triggers as read:', error);
+    return NextResponse.json({ success: false, error: 'Failed to update alert triggers' }, { status: 500 });
+  }
+}
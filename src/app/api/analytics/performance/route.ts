@@ -0,0 +1,152 @@
+/**
+ * API Routes for Portfolio Performance
+ * /api/analytics/performance
+ *
+ * POST { transactions: [{ ticker, type: 'buy' | 'sell', date, quantity, price, fees? }],
+ * period = 'ALL', benchmarks = ['SPY'], format = 'json' | 'csv' } returns daily portfolio
+ * values, time-weighted and money-weighted returns and the comparison with each benchmark.
+ * The csv format downloads the daily series.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { versionedJson } from '@/services/apiEnvelope';
+import { portfolioPerformanceSchema } from '@/services/marketSchema';
+import { isMarketDataProviderError } from '@/services/marketDataProvider';
+import { getMarketDataProvider } from '@/services/marketDataProviderConfig';
+import {
+  MAX_BENCHMARKS,
+  MAX_TRANSACTIONS,
+  PERFORMANCE_PERIODS,
+  PortfolioPerformanceError,
+  portfolioPerformanceService
+} from '@/services/portfolioPerformanceService';
+import { PerformancePeriod, PortfolioPerformance, PortfolioTransaction } from '@/types';
+
+const SYMBOL_PATTERN = /^[A-Z0-9.-]{1,10}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Generate CSV content from the daily series, one return column per benchmark
+ */
+function generateCSV(performance: PortfolioPerformance): string {
+  const symbols = performance.benchmarks.map(benchmark => benchmark.symbol);
+  const headers = ['Date', 'Value', 'Net Flow', 'Portfolio Return %', ...symbols.map(symbol => `${symbol} Return %`)];
+
+  const csvRows = [headers.join(',')];
+  performance.points.forEach(point => {
+    csvRows.push([
+      point.date,
+      point.value.toFixed(2),
+      point.netFlow.toFixed(2),
+      point.cumulativeReturn.toFixed(2),
+      ...symbols.map(symbol => {
+        const value = point.benchmarks[symbol];
+        return value === null || value === undefined ? '' : value.toFixed(2);
+      })
+    ].join(','));
+  });
+
+  return csvRows.join('\n');
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!Array.isArray(body.transactions) || body.transactions.length === 0) {
+      return NextResponse.json({ success: false, error: 'transactions must be a non-empty array' }, { status: 400 });
+    }
+    if (body.transactions.length > MAX_TRANSACTIONS) {
+      return NextResponse.json({ success: false, error: `At most ${MAX_TRANSACTIONS} transactions are allowed` }, { status: 400 });
+    }
+
+    const transactions: PortfolioTransaction[] = [];
+    for (const entry of body.transactions) {
+      const ticker = typeof entry?.ticker === 'string' ? entry.ticker.trim().toUpperCase() : '';
+      const quantity = Number(entry?.quantity);
+      const price = Number(entry?.price);
+      const fees = entry?.fees === undefined || entry?.fees === null ? undefined : Number(entry.fees);
+      const date = typeof entry?.date === 'string' ? entry.date : '';
+
+      if (!SYMBOL_PATTERN.test(ticker) || (entry.type !== 'buy' && entry.type !== 'sell')
+        || !DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))
+        || !(Number.isFinite(quantity) && quantity > 0) || !(Number.isFinite(price) && price > 0)
+        || (fees !== undefined && !(Number.isFinite(fees) && fees >= 0))) {
+        return NextResponse.json({
+          success: false,
+          error: 'Each transaction needs a ticker, a type of buy or sell, a YYYY-MM-DD date, a positive quantity and price and optional non-negative fees'
+        }, { status: 400 });
+      }
+      transactions.push({ ticker, type: entry.type, date, quantity, price, ...(fees !== undefined ? { fees } : {}) });
+    }
+
+    const period = (body.period ?? 'ALL') as PerformancePeriod;
+    if (!PERFORMANCE_PERIODS.includes(period)) {
+      return NextResponse.json(
+        { success: false, error: `period must be one of ${PERFORMANCE_PERIODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let benchmarks: string[] | undefined;
+    if (body.benchmarks !== undefined) {
+      if (!Array.isArray(body.benchmarks) || body.benchmarks.length > MAX_BENCHMARKS) {
+        return NextResponse.json(
+          { success: false, error: `benchmarks must be an array of at most ${MAX_BENCHMARKS} symbols` },
+          { status: 400 }
+        );
+      }
+      benchmarks = body.benchmarks.map((symbol: unknown) => (typeof symbol === 'string' ? symbol.trim().toUpperCase() : ''));
+      if (benchmarks!.some(symbol => !SYMBOL_PATTERN.test(symbol))) {
+        return NextResponse.json({ success: false, error: 'Invalid benchmark symbol' }, { status: 400 });
+      }
+    }
+
+    const format = body.format ?? 'json';
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json({ success: false, error: 'Invalid format. Use json or csv.' }, { status: 400 });
+    }
+
+    const performance = await portfolioPerformanceService.analyze(transactions, {
+      period,
+      benchmarks,
+      provider: getMarketDataProvider('interactive', 'portfolio-performance')
+    });
+
+    if (format === 'csv') {
+      return new NextResponse(generateCSV(performance), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="portfolio-performance-${period}-${performance.to}.csv"`
+        }
+      });
+    }
+
+    return versionedJson('analytics.performance', {
+      success: true,
+      data: performance,
+      timestamp: new Date().toISOString()
+    }, {
+      validate: { validator: portfolioPerformanceSchema, select: body => body.data }
+    });
+
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    if (error instanceof PortfolioPerformanceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    if (isMarketDataProviderError(error)) {
+      console.error(`${error.provider} API error during performance analysis: ${error.status}`);
+      return NextResponse.json({
+        success: false,
+        error: error.status === 429 ? 'API quota exceeded. Please try again later.' : 'Price history temporarily unavailable'
+      }, { status: error.status === 429 ? 429 : 503 });
+    }
+
+    console.error('Portfolio performance error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to analyse portfolio performance' }, { status: 500 });
+  }
+}
@@ -1,11 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { MarketApiSchema, versionedJson } from '@/services/apiEnvelope';
+import { arrayOf, priceChartPointSchema, SchemaValidator, technicalSeriesPointSchema } from '@/services/marketSchema';
+import { IndicatorRequest, PriceChartPoint, TechnicalSeriesPoint } from '@/types';
+import { TechnicalAnalysisService } from '@/services/technicalAnalysisService';
+import { indicatorWarmup } from '@/services/indicatorEngine';
+
+// Oscillators served by format=technicals, computed from the price history
+const TECHNICAL_SERIES: IndicatorRequest[] = [
+  { id: 'rsi' },
+  { id: 'macd' },
+  { id: 'stochastic' },
+  { id: 'atr' },
+  { id: 'adx' },
+  { id: 'cci' },
+  { id: 'williamsR' },
+  { id: 'mfi' },
+  { id: 'obv' },
+];
+const TECHNICAL_POINTS = 30;
+
+// Overlays drawn by PriceChart (format=chart)
+const CHART_OVERLAYS: IndicatorRequest[] = [
+  { id: 'sma', params: { period: 20 } },
+  { id: 'sma', params: { period: 50 } },
+  { id: 'sma', params: { period: 200 } },
+  { id: 'ema', params: { period: 12 } },
+  { id: 'ema', params: { period: 26 } },
+  { id: 'rsi' },
+  { id: 'macd' },
+  { id: 'bollinger' },
+];
+const CHART_POINTS = 31;
 
 // Mock data generator for demo purposes
-function generateMockChartData() {
-  const data = [];
+function generateMockChartData(days: number = 30): PriceChartPoint[] {
+  const data: PriceChartPoint[] = [];
   const basePrice = Math.random() * 100 + 50;
   
-  for (let i = 30; i >= 0; i--) {
+  for (let i = days; i >= 0; i--) {
     const date = new Date();
     date.setDate(date.getDate() - i);
     
@@ -20,18 +52,37 @@ function generateMockChartData() {
       low: price - Math.random() * 3,
       close: price,
       volume: Math.floor(Math.random() * 10000000),
-      sma20: price + (Math.random() - 0.5) * 5,
-      sma50: price + (Math.random() - 0.5) * 8,
-      sma200: price + (Math.random() - 0.5) * 15,
-      rsi: Math.random() * 100,
-      macd: (Math.random() - 0.5) * 2,
-      signal: (Math.random() - 0.5) * 1.5,
     });
   }
   
   return data;
 }
 
+// Mock chart with its overlays computed from the (longer) mock price history
+function generateMockChartWithOverlays(): PriceChartPoint[] {
+  const history = generateMockChartData(CHART_POINTS - 1 + indicatorWarmup(CHART_OVERLAYS));
+  const [sma20, sma50, sma200, ema12, ema26, rsi, macd, bands] =
+    new TechnicalAnalysisService().calculateIndicatorSeries(history, CHART_OVERLAYS).map(result => result.series);
+  const valueAt = (series: (number | null)[], index: number) => series[index] ?? undefined;
+
+  return history.slice(-CHART_POINTS).map((point, offset) => {
+    const i = history.length - CHART_POINTS + offset;
+    return {
+      ...point,
+      sma20: valueAt(sma20.value, i),
+      sma50: valueAt(sma50.value, i),
+      sma200: valueAt(sma200.value, i),
+      ema12: valueAt(ema12.value, i),
+      ema26: valueAt(ema26.value, i),
+      rsi: valueAt(rsi.value, i),
+      macd: valueAt(macd.line, i),
+      signal: valueAt(macd.signal, i),
+      upperBand: valueAt(bands.upper, i),
+      lowerBand: valueAt(bands.lower, i),
+    };
+  });
+}
+
 /**
  * Price Analytics API
  * GET /api/analytics/prices/[ticker]
@@ -58,8 +109,8 @@ export async function GET(
     }
 
     // Validate format
-    const validFormats = ['simple', 'chart', 'technicals', 'detailed'];
-    if (!validFormats.includes(format)) {
+    const validFormats = ['simple', 'chart', 'technicals', 'detailed'] as const;
+    if (!validFormats.includes(format as typeof validFormats[number])) {
       return NextResponse.json({
         success: false,
         message: `Invalid format. Must be one of: ${validFormats.join(', ')}`,
@@ -80,7 +131,7 @@ export async function GET(
       volume: Math.floor(Math.random() * 50000000),
       marketCap: Math.floor(basePrice * Math.random() * 1000000000),
       sector: 'Technology',
-      chartData: generateMockChartData(),
+      chartData: generateMockChartWithOverlays(),
       technicals: {
         rsi: Math.random() * 100,
         macd: (Math.random() - 0.5) * 2,
@@ -146,24 +197,34 @@ export async function GET(
         break;
 
       case 'technicals':
-        // Return technicals as an array of data points for charting
-        const technicalDataPoints = [];
-        for (let i = 0; i < 30; i++) {
-          const date = new Date();
-          date.setDate(date.getDate() - (29 - i));
-          
-          technicalDataPoints.push({
-            date: date.toISOString().split('T')[0],
-            rsi: Math.random() * 100,
-            macd: (Math.random() - 0.5) * 2,
-            signal: (Math.random() - 0.5) * 1.5,
-            histogram: (Math.random() - 0.5) * 1,
-            stochK: Math.random() * 100,
-            stochD: Math.random() * 100,
-            atr: Math.random() * 5,
-            volume: Math.floor(Math.random() * 10000000),
-          });
-        }
+        // Return technicals as an array of data points for charting, computed over enough
+        // extra history that every series is complete from the first point
+        const history = generateMockChartData(TECHNICAL_POINTS - 1 + indicatorWarmup(TECHNICAL_SERIES));
+        const [rsiSeries, macdSeries, stochSeries, atrSeries, adxSeries, cciSeries, williamsSeries, mfiSeries, obvSeries] =
+          new TechnicalAnalysisService().calculateIndicatorSeries(history, TECHNICAL_SERIES).map(result => result.series);
+        const valueAt = (series: (number | null)[], index: number) => series[index] ?? undefined;
+
+        const technicalDataPoints: TechnicalSeriesPoint[] = history.slice(-TECHNICAL_POINTS).map((point, offset) => {
+          const i = history.length - TECHNICAL_POINTS + offset;
+          return {
+            date: point.date,
+            rsi: valueAt(rsiSeries.value, i),
+            macd: valueAt(macdSeries.line, i),
+            signal: valueAt(macdSeries.signal, i),
+            histogram: valueAt(macdSeries.histogram, i),
+            stochK: valueAt(stochSeries.k, i),
+            stochD: valueAt(stochSeries.d, i),
+            atr: valueAt(atrSeries.value, i),
+            adx: valueAt(adxSeries.adx, i),
+            plusDI: valueAt(adxSeries.plusDI, i),
+            minusDI: valueAt(adxSeries.minusDI, i),
+            cci: valueAt(cciSeries.value, i),
+            williamsR: valueAt(williamsSeries.value, i),
+            mfi: valueAt(mfiSeries.value, i),
+            obv: valueAt(obvSeries.value, i),
+            volume: point.volume,
+          };
+        });
         
         responseData.data = {
           technicals: technicalDataPoints,
@@ -208,11 +269,18 @@ export async function GET(
 
     responseData.note = 'Demo data - using mock financial data for testing';
 
-    return NextResponse.json(responseData, {
+    // Chart and technicals payloads feed charts directly, so their series are validated
+    const seriesValidators: Record<string, { validator: SchemaValidator<unknown>; select: (body: any) => unknown }> = {
+      chart: { validator: arrayOf(priceChartPointSchema), select: body => body.data.chartData },
+      technicals: { validator: arrayOf(technicalSeriesPointSchema), select: body => body.data.technicals },
+    };
+
+    return versionedJson(`analytics.price.${format}` as MarketApiSchema, responseData, {
       status: 200,
       headers: {
         'Cache-Control': 'public, max-age=60', // 1 minute cache for demo
       },
+      validate: seriesValidators[format],
     });
 
   } catch (error) {
@@ -238,7 +306,7 @@ export async function POST(
     const body = await request.json();
 
     if (body.action === 'refresh') {
-      return NextResponse.json({
+      return versionedJson('analytics.price.refresh', {
         success: true,
         message: 'Mock data refreshed successfully',
         ticker,
@@ -1,5 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
 import MarketDataRiskService from '@/services/marketDataRiskService';
+import { versionedJson } from '@/services/apiEnvelope';
+import {
+  arrayOf,
+  isNumber,
+  isString,
+  objectOf,
+  SchemaValidator,
+  technicalIndicatorsSchema,
+  tradingSignalSchema
+} from '@/services/marketSchema';
+import { TechnicalIndicators, TradingSignal } from '@/types';
+
+// Every format carries ticker and price; 'detailed' also carries the full indicator set
+const batchEntrySchema = objectOf<{ ticker: string; currentPrice: number }>({
+  ticker: isString,
+  currentPrice: isNumber
+});
+
+const detailedBatchEntrySchema = objectOf<{
+  ticker: string;
+  currentPrice: number;
+  technicals: TechnicalIndicators;
+  signals: TradingSignal[];
+}>({
+  ticker: isString,
+  currentPrice: isNumber,
+  technicals: technicalIndicatorsSchema,
+  signals: arrayOf(tradingSignalSchema)
+});
 
 /**
  * Batch Price Analytics API
@@ -139,9 +168,13 @@ export async function GET(request: NextRequest) {
       'ETag': `"batch-${tickers.join(',')}-${Date.now()}"`
     };
 
-    return NextResponse.json(responseData, {
+    const isDetailed = format !== 'simple' && format !== 'technicals';
+    const entrySchema: SchemaValidator<unknown> = isDetailed ? detailedBatchEntrySchema : batchEntrySchema;
+
+    return versionedJson('analytics.prices.batch', responseData, {
       status: 200,
-      headers: cacheHeaders
+      headers: cacheHeaders,
+      validate: { validator: arrayOf(entrySchema), select: body => body.data }
     });
 
   } catch (error) {
@@ -256,7 +289,7 @@ export async function POST(request: NextRequest) {
         averageRSI: metrics.rsi.reduce((sum, rsi) => sum + rsi, 0) / metrics.rsi.length
       };
 
-      return NextResponse.json({
+      return versionedJson('analytics.prices.compare', {
         success: true,
         comparison: {
           tickers: tickers.map(t => t.toUpperCase()),
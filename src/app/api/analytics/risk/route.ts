@@ -0,0 +1,111 @@
+/**
+ * API Routes for Portfolio Risk
+ * /api/analytics/risk
+ *
+ * POST { holdings: [{ ticker, quantity, price? }], lookbackDays = 252, benchmark = 'SPY',
+ * marketMovePercent = -3, horizonDays = 1 } returns beta, historical and parametric VaR/CVaR,
+ * volatility, max drawdown, the clustered correlation matrix and each position's share of
+ * the risk, computed from stored daily candles.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { versionedJson } from '@/services/apiEnvelope';
+import { portfolioRiskSchema } from '@/services/marketSchema';
+import { isMarketDataProviderError } from '@/services/marketDataProvider';
+import { getMarketDataProvider } from '@/services/marketDataProviderConfig';
+import {
+  MAX_LOOKBACK_DAYS,
+  MIN_LOOKBACK_DAYS,
+  PortfolioRiskError,
+  portfolioRiskService
+} from '@/services/portfolioRiskService';
+import { PortfolioHolding } from '@/types';
+
+const SYMBOL_PATTERN = /^[A-Z0-9.-]{1,10}$/;
+const MAX_HORIZON_DAYS = 20;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!Array.isArray(body.holdings) || body.holdings.length === 0) {
+      return NextResponse.json({ success: false, error: 'holdings must be a non-empty array' }, { status: 400 });
+    }
+
+    const holdings: PortfolioHolding[] = [];
+    for (const entry of body.holdings) {
+      const ticker = typeof entry?.ticker === 'string' ? entry.ticker.trim().toUpperCase() : '';
+      const quantity = Number(entry?.quantity);
+      const price = entry?.price === undefined || entry?.price === null ? undefined : Number(entry.price);
+
+      if (!SYMBOL_PATTERN.test(ticker) || !Number.isFinite(quantity) || quantity < 0
+        || (price !== undefined && !(Number.isFinite(price) && price > 0))) {
+        return NextResponse.json(
+          { success: false, error: 'Each holding needs a ticker, a non-negative quantity and an optional positive price' },
+          { status: 400 }
+        );
+      }
+      holdings.push({ ticker, quantity, ...(price !== undefined ? { price } : {}) });
+    }
+
+    const lookbackDays = body.lookbackDays === undefined ? undefined : Number(body.lookbackDays);
+    if (lookbackDays !== undefined && !(Number.isInteger(lookbackDays) && lookbackDays >= MIN_LOOKBACK_DAYS && lookbackDays <= MAX_LOOKBACK_DAYS)) {
+      return NextResponse.json(
+        { success: false, error: `lookbackDays must be a whole number between ${MIN_LOOKBACK_DAYS} and ${MAX_LOOKBACK_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const horizonDays = body.horizonDays === undefined ? undefined : Number(body.horizonDays);
+    if (horizonDays !== undefined && !(Number.isInteger(horizonDays) && horizonDays >= 1 && horizonDays <= MAX_HORIZON_DAYS)) {
+      return NextResponse.json(
+        { success: false, error: `horizonDays must be a whole number between 1 and ${MAX_HORIZON_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const marketMovePercent = body.marketMovePercent === undefined ? undefined : Number(body.marketMovePercent);
+    if (marketMovePercent !== undefined && !(Number.isFinite(marketMovePercent) && Math.abs(marketMovePercent) <= 50)) {
+      return NextResponse.json({ success: false, error: 'marketMovePercent must be between -50 and 50' }, { status: 400 });
+    }
+
+    const benchmark = typeof body.benchmark === 'string' ? body.benchmark.trim().toUpperCase() : undefined;
+    if (benchmark !== undefined && !SYMBOL_PATTERN.test(benchmark)) {
+      return NextResponse.json({ success: false, error: 'Invalid benchmark symbol' }, { status: 400 });
+    }
+
+    const risk = await portfolioRiskService.analyze(holdings, {
+      lookbackDays,
+      horizonDays,
+      marketMovePercent,
+      benchmark,
+      provider: getMarketDataProvider('interactive', 'portfolio-risk')
+    });
+
+    return versionedJson('analytics.risk', {
+      success: true,
+      data: risk,
+      timestamp: new Date().toISOString()
+    }, {
+      validate: { validator: portfolioRiskSchema, select: body => body.data }
+    });
+
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    if (error instanceof PortfolioRiskError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    if (isMarketDataProviderError(error)) {
+      console.error(`${error.provider} API error during risk analysis: ${error.status}`);
+      return NextResponse.json({
+        success: false,
+        error: error.status === 429 ? 'API quota exceeded. Please try again later.' : 'Price history temporarily unavailable'
+      }, { status: error.status === 429 ? 429 : 503 });
+    }
+
+    console.error('Portfolio risk error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to analyse portfolio risk' }, { status: 500 });
+  }
+}
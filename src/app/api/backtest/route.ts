@@ -0,0 +1,100 @@
+/**
+ * API Routes for Strategy Backtesting
+ * /api/backtest
+ *
+ * GET lists the preset strategies. POST runs one over historical candles:
+ * { symbol, resolution = 'D', days = 730 | from, to, strategy: presetId | BacktestStrategy, config? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { versionedJson } from '@/services/apiEnvelope';
+import { arrayOf, backtestResultSchema, backtestStrategySchema } from '@/services/marketSchema';
+import { BacktestError, backtestService, DEFAULT_BACKTEST_CONFIG } from '@/services/backtestService';
+import { getMarketDataProvider } from '@/services/marketDataProviderConfig';
+import { isMarketDataProviderError } from '@/services/marketDataProvider';
+import { replayClock } from '@/services/replayClock';
+import { BacktestStrategy } from '@/types';
+
+const DEFAULT_DAYS = 730;
+const MAX_DAYS = 3650;
+const DAY_SECONDS = 24 * 60 * 60;
+
+export async function GET() {
+  return versionedJson('backtest.strategies', {
+    success: true,
+    data: {
+      strategies: backtestService.getStrategies(),
+      defaultConfig: DEFAULT_BACKTEST_CONFIG
+    }
+  }, {
+    validate: { validator: arrayOf(backtestStrategySchema), select: body => body.data.strategies }
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const symbol = typeof body.symbol === 'string' ? body.symbol.trim().toUpperCase() : '';
+    const resolution = typeof body.resolution === 'string' ? body.resolution : 'D';
+
+    if (!symbol || symbol.length > 10) {
+      return NextResponse.json({ success: false, error: 'Invalid symbol' }, { status: 400 });
+    }
+
+    const strategy: BacktestStrategy | undefined = typeof body.strategy === 'string'
+      ? backtestService.getStrategy(body.strategy)
+      : body.strategy;
+    if (!strategy) {
+      return NextResponse.json({
+        success: false,
+        error: `Unknown strategy. Use one of: ${backtestService.getStrategies().map(preset => preset.id).join(', ')}, or pass a strategy object`
+      }, { status: 400 });
+    }
+
+    // Explicit range, or the last `days` (replay mode counts back from the replay clock)
+    let from = Number(body.from);
+    let to = Number(body.to);
+    if (body.from === undefined || body.to === undefined) {
+      const days = Math.min(MAX_DAYS, Math.max(1, parseInt(body.days ?? DEFAULT_DAYS, 10) || DEFAULT_DAYS));
+      to = getMarketDataProvider().name === 'replay' ? replayClock.nowSeconds() : Math.floor(Date.now() / 1000);
+      from = to - days * DAY_SECONDS;
+    }
+    if (isNaN(from) || isNaN(to) || from >= to) {
+      return NextResponse.json({ success: false, error: 'Invalid timestamp range' }, { status: 400 });
+    }
+
+    const result = await backtestService.backtest(symbol, {
+      resolution,
+      from,
+      to,
+      strategy,
+      config: typeof body.config === 'object' && body.config !== null ? body.config : undefined
+    });
+
+    return versionedJson('backtest.result', {
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    }, {
+      validate: { validator: backtestResultSchema, select: body => body.data }
+    });
+
+  } catch (error) {
+    if (error instanceof BacktestError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    if (isMarketDataProviderError(error)) {
+      console.error(`${error.provider} candle API error during backtest: ${error.status}`);
+      return NextResponse.json({
+        success: false,
+        error: error.status === 429 ? 'API quota exceeded. Please try again later.' : 'Historical data temporarily unavailable'
+      }, { status: error.status === 429 ? 429 : 503 });
+    }
+
+    console.error('Backtest error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to run backtest' }, { status: 500 });
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { marketCalendar } from '@/services/marketCalendar';
 
 // Enhanced data collection service that combines multiple data sources
 export async function GET(request: NextRequest) {
@@ -88,7 +89,7 @@ async function fetchStockQuote(ticker: string) {
       previousClose: data.pc,
       volume: data.volume,
       timestamp: data.t,
-      marketStatus: getMarketStatus()
+      marketStatus: getMarketStatus(ticker)
     };
   } catch (error) {
     console.error(`Error fetching stock quote for ${ticker}:`, error);
@@ -165,23 +166,18 @@ async function fetchTechnicalData(ticker: string) {
   }
 }
 
-// Determine market status
-function getMarketStatus() {
-  const now = new Date();
-  const hour = now.getHours();
-  const day = now.getDay();
-  
-  // Basic market hours check (9:30 AM - 4:00 PM EST, Mon-Fri)
-  if (day === 0 || day === 6) {
-    return 'CLOSED'; // Weekend
-  }
-  
-  if (hour >= 9 && hour < 16) {
-    return 'OPEN';
-  } else if (hour >= 4 && hour < 9) {
-    return 'PRE_MARKET';
-  } else {
-    return 'AFTER_HOURS';
+// Determine market status from the ticker's exchange calendar
+function getMarketStatus(ticker: string) {
+  const exchange = marketCalendar.exchangeForSymbol(ticker);
+  switch (marketCalendar.getSession(new Date(), exchange)) {
+    case 'regular':
+      return 'OPEN';
+    case 'pre':
+      return 'PRE_MARKET';
+    case 'post':
+      return 'AFTER_HOURS';
+    default:
+      return 'CLOSED'; // Overnight, weekend or holiday
   }
 }
 
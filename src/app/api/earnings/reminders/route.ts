@@ -0,0 +1,63 @@
+/**
+ * API Routes for Earnings Reminder Tickers
+ * /api/earnings/reminders
+ *
+ * The server sends pre-earnings reminders for these tickers and the user's monitored
+ * positions; see services/earningsReminderService.ts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { earningsReminderService, MAX_REMINDER_TICKERS } from '@/services/earningsReminderService';
+
+const SYMBOL_PATTERN = /^[A-Z0-9.-]{1,10}$/;
+
+/**
+ * GET /api/earnings/reminders?userId=xxx
+ * The tickers the user is reminded about
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = new URL(request.url).searchParams.get('userId');
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, data: { tickers: await earningsReminderService.getTickers(userId) } });
+  } catch (error) {
+    console.error('Error fetching earnings reminder tickers:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load earnings reminder tickers' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/earnings/reminders
+ * Replace the tickers the user is reminded about: { userId, tickers }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.userId || typeof body.userId !== 'string') {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+    if (!Array.isArray(body.tickers) || body.tickers.some((ticker: unknown) => typeof ticker !== 'string')) {
+      return NextResponse.json({ success: false, error: 'tickers must be a list of symbols' }, { status: 400 });
+    }
+
+    const tickers = (body.tickers as string[]).map(ticker => ticker.trim().toUpperCase()).filter(Boolean);
+    const invalid = tickers.filter(ticker => !SYMBOL_PATTERN.test(ticker));
+    if (invalid.length > 0) {
+      return NextResponse.json({ success: false, error: `Invalid symbols: ${invalid.join(', ')}` }, { status: 400 });
+    }
+    if (new Set(tickers).size > MAX_REMINDER_TICKERS) {
+      return NextResponse.json({ success: false, error: `At most ${MAX_REMINDER_TICKERS} tickers` }, { status: 400 });
+    }
+
+    const saved = await earningsReminderService.setTickers(body.userId, tickers);
+    return NextResponse.json({ success: true, data: { tickers: saved } });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    console.error('Error saving earnings reminder tickers:', error);
+    return NextResponse.json({ success: false, error: 'Failed to save earnings reminder tickers' }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * API Routes for the Earnings Calendar
+ * /api/earnings
+ *
+ * GET ?symbol=AAPL returns the ticker's next report, EPS/revenue surprise history and its
+ * earnings risk flag. GET ?symbols=AAPL,MSFT&userId=xxx&days=30 returns the upcoming reports
+ * of the listed tickers plus the user's monitored positions, soonest first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { versionedJson } from '@/services/apiEnvelope';
+import { earningsCalendarService } from '@/services/earningsCalendarService';
+import { historicalPriceService } from '@/services/historicalPriceService';
+import { earningsCalendarSchema, tickerEarningsSchema } from '@/services/marketSchema';
+import { isMarketDataProviderError } from '@/services/marketDataProvider';
+import { getMarketDataProvider } from '@/services/marketDataProviderConfig';
+
+const MAX_DAYS = 120;
+const MAX_SYMBOLS = 50;
+const SYMBOL_PATTERN = /^[A-Z0-9.-]{1,10}$/;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const symbol = searchParams.get('symbol')?.trim().toUpperCase();
+  const userId = searchParams.get('userId');
+  const days = Number(searchParams.get('days') ?? 30);
+  const provider = getMarketDataProvider('interactive', 'earnings');
+
+  try {
+    if (symbol) {
+      if (!SYMBOL_PATTERN.test(symbol)) {
+        return NextResponse.json({ success: false, error: 'A valid symbol is required' }, { status: 400 });
+      }
+
+      const earnings = await earningsCalendarService.getTickerEarnings(symbol, { provider });
+      return versionedJson('earnings.ticker', {
+        success: true,
+        data: earnings,
+        riskFlag: earningsCalendarService.toRiskFlag(earnings, { provider }),
+        timestamp: new Date().toISOString()
+      }, {
+        validate: { validator: tickerEarningsSchema, select: body => body.data }
+      });
+    }
+
+    if (!Number.isInteger(days) || days < 0 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { success: false, error: `days must be a whole number between 0 and ${MAX_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const symbols = (searchParams.get('symbols') ?? '')
+      .split(',')
+      .map(value => value.trim().toUpperCase())
+      .filter(Boolean);
+    if (userId) {
+      // Positions monitored through /api/positions count as held even when not listed
+      historicalPriceService.getUserPositions(userId).forEach(position => symbols.push(position.ticker.toUpperCase()));
+    }
+
+    const unique = Array.from(new Set(symbols));
+    const invalid = unique.filter(value => !SYMBOL_PATTERN.test(value));
+    if (invalid.length > 0) {
+      return NextResponse.json({ success: false, error: `Invalid symbols: ${invalid.join(', ')}` }, { status: 400 });
+    }
+    if (unique.length === 0) {
+      return NextResponse.json({ success: false, error: 'symbol, symbols or userId is required' }, { status: 400 });
+    }
+    if (unique.length > MAX_SYMBOLS) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_SYMBOLS} symbols per request` },
+        { status: 400 }
+      );
+    }
+
+    const calendar = await earningsCalendarService.getCalendar(unique, { days, provider });
+    return versionedJson('earnings.calendar', {
+      success: true,
+      data: calendar,
+      timestamp: new Date().toISOString()
+    }, {
+      validate: { validator: earningsCalendarSchema, select: body => body.data }
+    });
+
+  } catch (error) {
+    if (isMarketDataProviderError(error)) {
+      console.error(`${error.provider} API error during earnings lookup: ${error.status}`);
+      return NextResponse.json({
+        success: false,
+        error: error.status === 429 ? 'API quota exceeded. Please try again later.' : 'Earnings data temporarily unavailable'
+      }, { status: error.status === 429 ? 429 : 503 });
+    }
+
+    console.error('Earnings calendar error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load earnings calendar' }, { status: 500 });
+  }
+}
@@ -1,10 +1,17 @@
 /**
  * API Routes for Price Alerts Management
  * /api/finnhub/alerts
+ *
+ * Price alerts are alert engine alerts with the 'price' source. They stay active after firing
+ * and follow the engine's default re-arm policy unless the request gives a `policy`.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { finnhubService } from '@/services/finnhubService';
+import { alertEngineService } from '@/services/alertEngineService';
+import { AlertError, parseAlertPolicy, priceAlertConditions, toPriceAlert } from '@/services/alertEngine';
+import { versionedJson } from '@/services/apiEnvelope';
+import { arrayOf, priceAlertSchema } from '@/services/marketSchema';
+import { compileSignalRule, SignalRuleError } from '@/services/signalRules';
 
 /**
  * GET /api/finnhub/alerts?userId=xxx
@@ -22,12 +29,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const alerts = finnhubService.getUserAlerts(userId);
+    const alerts = (await alertEngineService.listAlerts(userId, 'price')).map(toPriceAlert);
 
-    return NextResponse.json({
+    return versionedJson('finnhub.alerts', {
       success: true,
       data: alerts,
       count: alerts.length
+    }, {
+      validate: { validator: arrayOf(priceAlertSchema), select: body => body.data }
     });
 
   } catch (error) {
@@ -41,12 +50,14 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/finnhub/alerts
- * Create a new price alert
+ * Create a new price alert; `condition` takes a signal rule such as "rsi(14) < 30" and
+ * `policy` the re-arm policy, e.g. { "rearmPercent": 1, "cooldownMinutes": 30, "dailyCap": 3 }
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { userId, ticker, upperThreshold, lowerThreshold } = body;
+    const condition = typeof body.condition === 'string' && body.condition.trim() ? body.condition.trim() : undefined;
 
     if (!userId || !ticker) {
       return NextResponse.json(
@@ -55,13 +66,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!upperThreshold && !lowerThreshold) {
+    if (!upperThreshold && !lowerThreshold && !condition) {
       return NextResponse.json(
-        { error: 'At least one threshold (upper or lower) is required' },
+        { error: 'At least one threshold (upper or lower) or a condition is required' },
         { status: 400 }
       );
     }
 
+    if (condition) {
+      try {
+        compileSignalRule(condition);
+      } catch (ruleError) {
+        if (!(ruleError instanceof SignalRuleError)) throw ruleError;
+        return NextResponse.json(
+          { error: `Invalid condition: ${ruleError.message}`, diagnostics: ruleError.diagnostics },
+          { status: 400 }
+        );
+      }
+    }
+
     if (upperThreshold && upperThreshold <= 0) {
       return NextResponse.json(
         { error: 'Upper threshold must be positive' },
@@ -83,28 +106,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const alertId = finnhubService.addPriceAlert({
-      userId,
+    const policy = body.policy === undefined ? undefined : parseAlertPolicy(body.policy);
+    if (typeof policy === 'string') {
+      return NextResponse.json({ error: policy }, { status: 400 });
+    }
+
+    const alert = await alertEngineService.createAlert(userId, {
       ticker: ticker.toUpperCase(),
-      upperThreshold,
-      lowerThreshold,
-      isActive: true
+      conditions: priceAlertConditions({ upperThreshold, lowerThreshold, condition }),
+      source: 'price',
+      repeat: 'rearm',
+      ...(policy ? { policy } : {})
     });
+    const { id, ...created } = toPriceAlert(alert);
 
-    return NextResponse.json({
+    return versionedJson('finnhub.alert', {
       success: true,
-      data: {
-        alertId,
-        userId,
-        ticker: ticker.toUpperCase(),
-        upperThreshold,
-        lowerThreshold,
-        isActive: true,
-        createdAt: new Date()
-      }
+      data: { alertId: id, ...created }
     });
 
   } catch (error) {
+    if (error instanceof AlertError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('Error creating price alert:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -130,7 +154,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const removed = finnhubService.removePriceAlert(userId, alertId);
+    const removed = await alertEngineService.removeAlert(userId, alertId);
 
     if (!removed) {
       return NextResponse.json(
@@ -139,7 +163,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({
+    return versionedJson('finnhub.alert', {
       success: true,
       message: 'Alert removed successfully'
     });
@@ -1,39 +1,82 @@
 /**
  * Historical Candle Data API Endpoint
  * Provides OHLC (Open, High, Low, Close) data for charts
+ *
+ * Candles are raw (as traded) by default; pass `adjusted: true` (or `?adjusted=true`) to get
+ * prices and volume restated for splits and dividends. Corporate actions inside the range are
+ * returned either way so charts can mark them.
+ *
+ * Pass `indicators` (a spec such as "sma:50,bollinger:20:2,ichimoku", or an array of
+ * { id, params }) to get full indicator series aligned with the returned candles. Enough
+ * extra history is read before `from` that the series are complete from the first bar
+ * where the store has it.
+ *
+ * Any resolution, including "4h" and chart names such as "1h" or "1W", is built from the
+ * finest stored candles that cover the range (`sourceResolution` in the response), so
+ * switching timeframes does not go back to the provider.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { isMarketDataProviderError, ProviderCandles, RESOLUTION_SECONDS } from '@/services/marketDataProvider';
+import { getMarketDataProvider } from '@/services/marketDataProviderConfig';
+import { replayClock } from '@/services/replayClock';
+import { candleStore, ResampledCandleResult } from '@/services/candleStore';
+import { normalizeResolution } from '@/services/candleResampler';
+import { adjustCandles, corporateActionService, exDateSeconds } from '@/services/corporateActionService';
+import { versionedJson } from '@/services/apiEnvelope';
+import { providerCandlesSchema } from '@/services/marketSchema';
+import {
+  candlesToIndicatorInput,
+  computeIndicators,
+  indicatorWarmup,
+  IndicatorSpecError,
+  parseIndicatorRequests,
+  resolveIndicatorParams,
+  sliceIndicatorResults
+} from '@/services/indicatorEngine';
+import { IndicatorRequest } from '@/types';
 
-interface FinnhubCandleResponse {
-  c: number[]; // Close prices
-  h: number[]; // High prices
-  l: number[]; // Low prices
-  o: number[]; // Open prices
-  s: string;   // Status
-  t: number[]; // Timestamps
-  v: number[]; // Volumes
-}
+const SYMBOL_PATTERN = /^[A-Z0-9.-]{1,10}$/;
 
-// Cache for candle data
-const candleCache = new Map<string, { data: any; timestamp: number }>();
-const CACHE_DURATION = 2 * 60 * 1000; // 2 minutes for real-time data
+// Calendar seconds per bar of warm-up: daily bars skip weekends and holidays
+const WARMUP_CALENDAR_FACTOR = 1.5;
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { symbol, resolution, from, to } = body;
+    const { from, to } = body;
+    const symbol = typeof body.symbol === 'string' ? body.symbol.trim().toUpperCase() : '';
+    const adjusted = body.adjusted === true;
+
+    let indicatorRequests: IndicatorRequest[] = [];
+    try {
+      indicatorRequests = parseIndicatorRequests(body.indicators);
+      indicatorRequests.forEach(resolveIndicatorParams);
+    } catch (specError) {
+      if (specError instanceof IndicatorSpecError) {
+        return NextResponse.json({ error: specError.message }, { status: 400 });
+      }
+      throw specError;
+    }
 
     // Validate required parameters
-    if (!symbol || !resolution || !from || !to) {
+    if (!symbol || !body.resolution || !from || !to) {
       return NextResponse.json(
         { error: 'Missing required parameters: symbol, resolution, from, to' },
         { status: 400 }
       );
     }
 
+    const resolution = normalizeResolution(String(body.resolution));
+    if (!resolution) {
+      return NextResponse.json(
+        { error: `Unsupported resolution "${body.resolution}". Use 1, 5, 15, 30, 60, 240, D, W or M (or 1m, 5m, 15m, 30m, 1h, 4h, 1D, 1W, 1M)` },
+        { status: 400 }
+      );
+    }
+
     // Validate symbol format
-    if (typeof symbol !== 'string' || symbol.length > 10) {
+    if (!SYMBOL_PATTERN.test(symbol)) {
       return NextResponse.json(
         { error: 'Invalid symbol format' },
         { status: 400 }
@@ -48,42 +91,46 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check cache
-    const cacheKey = `${symbol}-${resolution}-${from}-${to}`;
-    const cached = candleCache.get(cacheKey);
-    
-    if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-      return NextResponse.json(cached.data);
-    }
-
-    // Get Finnhub API key
-    const apiKey = process.env.FINNHUB_API_KEY;
-    if (!apiKey) {
+    // Resolve the configured market data provider (Finnhub or replay fixtures)
+    const provider = getMarketDataProvider('interactive', 'charts');
+    if (!provider.isConfigured()) {
       return NextResponse.json(
-        { error: 'API key not configured' },
+        { error: `Market data provider "${provider.name}" not configured` },
         { status: 500 }
       );
     }
 
-    // Make request to Finnhub candle endpoint
-    const finnhubUrl = `https://finnhub.io/api/v1/stock/candle?symbol=${encodeURIComponent(symbol)}&resolution=${resolution}&from=${from}&to=${to}&token=${apiKey}`;
-    
-    const response = await fetch(finnhubUrl, {
-      headers: {
-        'X-Finnhub-Token': apiKey,
-      },
-    });
+    // Indicators need history before the first bar shown
+    const warmupSeconds = indicatorRequests.length > 0
+      ? Math.ceil(indicatorWarmup(indicatorRequests) * (RESOLUTION_SECONDS[resolution] || RESOLUTION_SECONDS.D) * WARMUP_CALENDAR_FACTOR)
+      : 0;
+
+    // Corporate actions adjust the stored bars before they are combined into coarser ones
+    const actions = await corporateActionService.getActions(symbol, provider);
+    const adjust = adjusted
+      ? (candles: ProviderCandles) => adjustCandles(candles, actions, {
+        asOf: provider.name === 'replay' ? replayClock.nowSeconds() : undefined
+      })
+      : undefined;
 
-    if (!response.ok) {
-      if (response.status === 429) {
+    // Served from the on-disk candle store; only ranges it has not seen are fetched
+    let stored: ResampledCandleResult;
+    try {
+      stored = await candleStore.getResampledCandles(symbol, resolution, from - warmupSeconds, to, provider, adjust);
+    } catch (providerError) {
+      if (!isMarketDataProviderError(providerError)) {
+        throw providerError;
+      }
+
+      if (providerError.status === 429) {
         return NextResponse.json(
           { error: 'API quota exceeded. Please try again later.' },
           { status: 429 }
         );
       }
       
-      if (response.status === 403) {
-        console.error(`Finnhub candle API error: 403 - Access denied for symbol ${symbol}`);
+      if (providerError.status === 403) {
+        console.error(`${providerError.provider} candle API error: 403 - Access denied for symbol ${symbol}`);
         return NextResponse.json(
           { 
             error: 'Historical data access restricted',
@@ -95,18 +142,41 @@ export async function POST(request: NextRequest) {
         );
       }
       
-      console.error(`Finnhub candle API error: ${response.status}`);
+      console.error(`${providerError.provider} candle API error: ${providerError.status}`);
       return NextResponse.json(
         { error: 'Historical data temporarily unavailable' },
         { status: 503 }
       );
     }
 
-    const data: FinnhubCandleResponse = await response.json();
+    const corporateActions = actions.filter(action => {
+      const start = exDateSeconds(action.exDate);
+      return start >= from && start <= to;
+    });
+    const series = stored.candles;
+
+    // Indicators run over the warm-up history too; both are then trimmed to the range
+    const times = series.t || [];
+    const firstInRange = times.findIndex(time => time >= from);
+    const start = firstInRange === -1 ? times.length : firstInRange;
+    const indicators = indicatorRequests.length > 0
+      ? sliceIndicatorResults(computeIndicators(candlesToIndicatorInput(series), indicatorRequests), start)
+      : undefined;
+    const data = start > 0
+      ? {
+        s: series.s,
+        c: series.c.slice(start),
+        h: series.h.slice(start),
+        l: series.l.slice(start),
+        o: series.o.slice(start),
+        t: series.t.slice(start),
+        v: series.v.slice(start)
+      }
+      : series;
 
     // Check if data is valid
-    if (data.s === 'no_data') {
-      return NextResponse.json({
+    if (data.s === 'no_data' || (data.s === 'ok' && times.length === start)) {
+      return versionedJson('finnhub.candles', {
         s: 'no_data',
         message: 'No historical data available for this symbol and time range',
         symbol,
@@ -157,26 +227,17 @@ export async function POST(request: NextRequest) {
       from,
       to,
       count: dataLength,
+      source: stored.source,
+      sourceResolution: stored.sourceResolution,
+      adjusted,
+      corporateActions,
+      ...(indicators ? { indicators } : {}),
       timestamp: new Date().toISOString(),
     };
 
-    // Cache successful results
-    if (data.s === 'ok' && dataLength > 0) {
-      candleCache.set(cacheKey, { data: result, timestamp: Date.now() });
-
-      // Clean up old cache entries
-      if (candleCache.size > 100) {
-        const entries = Array.from(candleCache.entries())
-          .sort(([,a], [,b]) => a.timestamp - b.timestamp);
-        
-        // Remove oldest 25 entries
-        for (let i = 0; i < 25; i++) {
-          candleCache.delete(entries[i][0]);
-        }
-      }
-    }
-
-    return NextResponse.json(result);
+    return versionedJson('finnhub.candles', result, {
+      validate: { validator: providerCandlesSchema, select: body => body }
+    });
 
   } catch (error) {
     console.error('Candle data error:', error);
@@ -201,6 +262,8 @@ export async function GET(request: NextRequest) {
   const symbol = searchParams.get('symbol');
   const resolution = searchParams.get('resolution') || 'D';
   const days = parseInt(searchParams.get('days') || '30');
+  const adjusted = searchParams.get('adjusted') === 'true';
+  const indicators = searchParams.get('indicators') || undefined;
 
   if (!symbol) {
     return NextResponse.json(
@@ -209,14 +272,16 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  // Calculate timestamps
-  const to = Math.floor(Date.now() / 1000);
+  // Calculate timestamps (replay mode counts back from the replay clock)
+  const to = getMarketDataProvider().name === 'replay'
+    ? replayClock.nowSeconds()
+    : Math.floor(Date.now() / 1000);
   const from = to - (days * 24 * 60 * 60);
 
   // Forward to POST handler
   return POST(new NextRequest(request.url, {
     method: 'POST',
     headers: request.headers,
-    body: JSON.stringify({ symbol, resolution, from, to }),
+    body: JSON.stringify({ symbol, resolution, from, to, adjusted, indicators }),
   }));
 }
@@ -4,51 +4,60 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { finnhubService } from '@/services/finnhubService';
+import { versionedJson } from '@/services/apiEnvelope';
 import { generatePDFReport } from '@/services/pdfReportService';
+import { finnhubGovernor } from '@/services/rateLimitGovernor';
+import { usageLedger } from '@/services/usageLedger';
+import { QuotaHistoryRecord, UsageAggregate, UsageDimension, UsageGranularity } from '@/types';
 
-// Mock historical data for demonstration - in production this would come from a database
-interface QuotaHistoryRecord {
-  timestamp: string;
-  quotaUsed: number;
-  quotaLimit: number;
-  quotaRemaining: number;
-  isLimitReached: boolean;
-  apiCalls: number;
-  service: string;
-}
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BUCKET_MINUTES: Record<UsageGranularity, number> = { minute: 1, hour: 60, day: 24 * 60 };
+const MAX_DAYS: Record<UsageGranularity, number> = { minute: 2, hour: 90, day: 365 };
+const GROUP_DIMENSIONS: UsageDimension[] = ['service', 'feature', 'endpoint', 'ticker', 'priority'];
 
 /**
- * Generate mock historical quota data
+ * Quota usage recorded in the usage ledger, most recent first. The limit of a bucket is
+ * the per-minute rate sustained for its whole length. Ungrouped daily reports include
+ * days without calls so the period has no holes.
  */
-function generateMockHistoricalData(days: number): QuotaHistoryRecord[] {
-  const records: QuotaHistoryRecord[] = [];
-  const now = new Date();
-  const currentStatus = finnhubService.getApiStatus();
-  
-  for (let i = days; i >= 0; i--) {
-    const date = new Date(now.getTime() - (i * 24 * 60 * 60 * 1000));
-    
-    // Simulate realistic usage patterns
-    const baseUsage = Math.floor(Math.random() * 800) + 100; // 100-900 calls per day
-    const isWeekend = date.getDay() === 0 || date.getDay() === 6;
-    const weekendMultiplier = isWeekend ? 0.3 : 1; // Lower usage on weekends
-    
-    const dailyUsage = Math.floor(baseUsage * weekendMultiplier);
-    const quotaLimit = currentStatus.quotaLimit;
-    
-    records.push({
-      timestamp: date.toISOString(),
-      quotaUsed: dailyUsage,
-      quotaLimit: quotaLimit,
-      quotaRemaining: quotaLimit - dailyUsage,
-      isLimitReached: dailyUsage >= quotaLimit,
-      apiCalls: dailyUsage,
-      service: 'Finnhub'
-    });
+async function getMeasuredHistoricalData(
+  days: number,
+  granularity: UsageGranularity,
+  groupBy?: UsageDimension
+): Promise<QuotaHistoryRecord[]> {
+  const { ratePerMinute } = finnhubGovernor.getOptions();
+  const bucketLimit = ratePerMinute * BUCKET_MINUTES[granularity];
+  const to = new Date();
+  const from = new Date(Math.floor(to.getTime() / DAY_MS) * DAY_MS - (days - 1) * DAY_MS);
+
+  let aggregates = await usageLedger.aggregate({ from, to, granularity, groupBy });
+  if (granularity === 'day' && !groupBy) {
+    const byDay = new Map(aggregates.map(aggregate => [aggregate.bucket, aggregate]));
+    aggregates = [];
+    for (let day = from.getTime(); day <= to.getTime(); day += DAY_MS) {
+      const bucket = new Date(day).toISOString();
+      aggregates.push(byDay.get(bucket) ?? {
+        bucket, calls: 0, cacheHits: 0, errors: 0, rateLimited: 0, avgLatencyMs: 0, maxLatencyMs: 0
+      });
+    }
   }
-  
-  return records.reverse(); // Most recent first
+
+  return aggregates
+    .map((aggregate: UsageAggregate) => ({
+      timestamp: aggregate.bucket,
+      quotaUsed: aggregate.calls,
+      quotaLimit: bucketLimit,
+      quotaRemaining: Math.max(0, bucketLimit - aggregate.calls),
+      isLimitReached: aggregate.rateLimited > 0,
+      apiCalls: aggregate.calls,
+      service: 'Finnhub',
+      group: aggregate.key,
+      cacheHits: aggregate.cacheHits,
+      errors: aggregate.errors,
+      rateLimited: aggregate.rateLimited,
+      avgLatencyMs: aggregate.avgLatencyMs
+    }))
+    .reverse();
 }
 
 /**
@@ -64,7 +73,12 @@ function generateCSV(records: QuotaHistoryRecord[]): string {
     'Quota Remaining',
     'Usage %',
     'Limit Reached',
-    'API Calls'
+    'API Calls',
+    'Group',
+    'Cache Hits',
+    'Errors',
+    'Rate Limited',
+    'Avg Latency (ms)'
   ];
   
   const csvRows = [headers.join(',')];
@@ -82,7 +96,12 @@ function generateCSV(records: QuotaHistoryRecord[]): string {
       record.quotaRemaining.toString(),
       `${usagePercent}%`,
       record.isLimitReached ? 'Yes' : 'No',
-      record.apiCalls.toString()
+      record.apiCalls.toString(),
+      record.group ? `"${record.group.replace(/"/g, '""')}"` : '',
+      (record.cacheHits ?? 0).toString(),
+      (record.errors ?? 0).toString(),
+      (record.rateLimited ?? 0).toString(),
+      (record.avgLatencyMs ?? 0).toString()
     ];
     
     csvRows.push(row.join(','));
@@ -196,32 +215,62 @@ function generatePDFHTML(records: QuotaHistoryRecord[], days: number): string {
 
 /**
  * GET /api/finnhub/export
- * Export quota usage data as CSV or PDF
+ * Export quota usage data as CSV, JSON or PDF
+ *
+ * Query: format=csv|json|pdf, days, granularity=minute|hour|day (default day) and
+ * groupBy=service|feature|endpoint|ticker|priority to split each bucket.
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const format = searchParams.get('format') || 'csv';
     const days = parseInt(searchParams.get('days') || '30');
+    const granularity = (searchParams.get('granularity') || 'day') as UsageGranularity;
+    const groupBy = (searchParams.get('groupBy') || undefined) as UsageDimension | undefined;
     
-    if (!['csv', 'pdf'].includes(format)) {
+    if (!['csv', 'json', 'pdf'].includes(format)) {
+      return NextResponse.json(
+        { error: 'Invalid format. Use csv, json or pdf.' },
+        { status: 400 }
+      );
+    }
+
+    if (!(granularity in MAX_DAYS)) {
       return NextResponse.json(
-        { error: 'Invalid format. Use csv or pdf.' },
+        { error: 'Invalid granularity. Use minute, hour or day.' },
+        { status: 400 }
+      );
+    }
+
+    if (groupBy && !GROUP_DIMENSIONS.includes(groupBy)) {
+      return NextResponse.json(
+        { error: `Invalid groupBy. Use ${GROUP_DIMENSIONS.join(', ')}.` },
         { status: 400 }
       );
     }
     
-    if (days < 1 || days > 365) {
+    if (!(days >= 1 && days <= MAX_DAYS[granularity])) {
       return NextResponse.json(
-        { error: 'Days must be between 1 and 365.' },
+        { error: `Days must be between 1 and ${MAX_DAYS[granularity]} for ${granularity} granularity.` },
         { status: 400 }
       );
     }
     
-    // Generate historical data (in production, fetch from database)
-    const historicalData = generateMockHistoricalData(days);
+    const historicalData = await getMeasuredHistoricalData(days, granularity, groupBy);
+    const periodStart = new Date(Date.now() - days * DAY_MS);
     
-    if (format === 'csv') {
+    if (format === 'json') {
+      return versionedJson('finnhub.usage', {
+        success: true,
+        data: {
+          days,
+          granularity,
+          groupBy: groupBy ?? null,
+          records: historicalData,
+          summary: await usageLedger.summarize(periodStart, new Date())
+        }
+      });
+    } else if (format === 'csv') {
       const csvContent = generateCSV(historicalData);
       
       return new NextResponse(csvContent, {
@@ -232,7 +281,8 @@ export async function GET(request: NextRequest) {
         }
       });
     } else if (format === 'pdf') {
-      const htmlContent = generatePDFReport(historicalData, days);
+      const { breakdown } = await usageLedger.summarize(periodStart, new Date());
+      const htmlContent = generatePDFReport(historicalData, days, breakdown);
       
       // Return HTML that can be printed as PDF by the browser
       return new NextResponse(htmlContent, {
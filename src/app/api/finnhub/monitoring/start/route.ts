@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { finnhubService } from '@/services/finnhubService';
+import { versionedJson } from '@/services/apiEnvelope';
 
 /**
  * POST /api/finnhub/monitoring/start
@@ -33,7 +34,7 @@ export async function POST(request: NextRequest) {
     
     await finnhubService.startMonitoring(userId, normalizedTickers);
 
-    return NextResponse.json({
+    return versionedJson('finnhub.monitoring', {
       success: true,
       message: 'Real-time monitoring started',
       data: {
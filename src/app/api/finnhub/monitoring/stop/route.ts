@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { finnhubService } from '@/services/finnhubService';
+import { versionedJson } from '@/services/apiEnvelope';
 
 /**
  * POST /api/finnhub/monitoring/stop
@@ -24,7 +25,7 @@ export async function POST(request: NextRequest) {
 
     finnhubService.stopMonitoring(userId);
 
-    return NextResponse.json({
+    return versionedJson('finnhub.monitoring', {
       success: true,
       message: 'Real-time monitoring stopped',
       data: {
@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { stockPriceScheduler } from '@/services/stockPriceScheduler';
+import { versionedJson } from '@/services/apiEnvelope';
 
 /**
  * POST /api/finnhub/portfolio
@@ -38,7 +39,7 @@ export async function POST(request: NextRequest) {
         stockPriceScheduler.updateUserPortfolio(userId, normalizedTickers);
       }
 
-      return NextResponse.json({
+      return versionedJson('finnhub.portfolio', {
         success: true,
         message: `Portfolio ${action}ed for monitoring`,
         data: {
@@ -81,7 +82,7 @@ export async function DELETE(request: NextRequest) {
 
     stockPriceScheduler.removeUserPortfolio(userId);
 
-    return NextResponse.json({
+    return versionedJson('finnhub.portfolio', {
       success: true,
       message: 'Portfolio removed from monitoring',
       data: { userId }
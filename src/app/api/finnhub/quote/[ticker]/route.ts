@@ -5,6 +5,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { finnhubService } from '@/services/finnhubService';
+import { versionedJson } from '@/services/apiEnvelope';
+import { realtimePriceSchema } from '@/services/marketSchema';
 
 /**
  * GET /api/finnhub/quote/[ticker]
@@ -35,10 +37,12 @@ export async function GET(
       );
     }
 
-    return NextResponse.json({
+    return versionedJson('finnhub.quote', {
       success: true,
       data: quote,
       apiStatus: finnhubService.getApiStatus()
+    }, {
+      validate: { validator: realtimePriceSchema, select: body => body.data }
     });
 
   } catch (error) {
@@ -5,6 +5,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { finnhubService } from '@/services/finnhubService';
+import { versionedJson } from '@/services/apiEnvelope';
+import { realtimePriceSchema, recordOf } from '@/services/marketSchema';
+import { RealtimePrice } from '@/types';
 
 /**
  * POST /api/finnhub/quotes
@@ -42,7 +45,7 @@ export async function POST(request: NextRequest) {
     const quotes = await finnhubService.getBatchQuotes(normalizedTickers);
     
     // Convert Map to object for JSON response
-    const quotesObject: Record<string, any> = {};
+    const quotesObject: Record<string, RealtimePrice> = {};
     quotes.forEach((quote, ticker) => {
       quotesObject[ticker] = quote;
     });
@@ -52,12 +55,14 @@ export async function POST(request: NextRequest) {
       await finnhubService.startMonitoring(userId, normalizedTickers);
     }
 
-    return NextResponse.json({
+    return versionedJson('finnhub.quotes', {
       success: true,
       data: quotesObject,
       apiStatus: finnhubService.getApiStatus(),
       requestedTickers: normalizedTickers,
       retrievedCount: quotes.size
+    }, {
+      validate: { validator: recordOf(realtimePriceSchema), select: body => body.data }
     });
 
   } catch (error) {
@@ -0,0 +1,87 @@
+/**
+ * API Routes for Replay Clock Control
+ * /api/finnhub/replay
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMarketDataProvider } from '@/services/marketDataProviderConfig';
+import { replayClock } from '@/services/replayClock';
+import { versionedJson } from '@/services/apiEnvelope';
+
+/**
+ * GET /api/finnhub/replay
+ * Get the replay clock state and active provider
+ */
+export async function GET() {
+  return versionedJson('finnhub.replay', {
+    success: true,
+    data: {
+      provider: getMarketDataProvider().name,
+      clock: replayClock.getState()
+    }
+  });
+}
+
+/**
+ * POST /api/finnhub/replay
+ * Control the replay clock: { action: 'pause' | 'resume' | 'seek' | 'speed' | 'reset', to?, speed? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action, to, speed } = body;
+
+    switch (action) {
+      case 'pause':
+        replayClock.pause();
+        break;
+      case 'resume':
+        replayClock.resume();
+        break;
+      case 'seek': {
+        const target = typeof to === 'number' ? to * 1000 : new Date(to).getTime();
+        if (to === undefined || Number.isNaN(target)) {
+          return NextResponse.json(
+            { error: 'Seek requires "to" as an ISO date or unix seconds' },
+            { status: 400 }
+          );
+        }
+        replayClock.seek(target);
+        break;
+      }
+      case 'speed':
+        if (typeof speed !== 'number' || !(speed > 0)) {
+          return NextResponse.json(
+            { error: 'Speed must be a positive number' },
+            { status: 400 }
+          );
+        }
+        replayClock.setSpeed(speed);
+        break;
+      case 'reset':
+        replayClock.reset();
+        break;
+      default:
+        return NextResponse.json(
+          { error: 'Invalid action. Use pause, resume, seek, speed or reset' },
+          { status: 400 }
+        );
+    }
+
+    return versionedJson('finnhub.replay', {
+      success: true,
+      message: `Replay clock ${action} applied`,
+      data: {
+        provider: getMarketDataProvider().name,
+        clock: replayClock.getState()
+      }
+    });
+
+  } catch (error) {
+    console.error('Error controlling replay clock:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
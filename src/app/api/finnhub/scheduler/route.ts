@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { stockPriceScheduler } from '@/services/stockPriceScheduler';
+import { versionedJson } from '@/services/apiEnvelope';
 
 /**
  * GET /api/finnhub/scheduler
@@ -15,7 +16,7 @@ export async function GET(request: NextRequest) {
     const status = stockPriceScheduler.getStatus();
     const stats = stockPriceScheduler.getStats();
 
-    return NextResponse.json({
+    return versionedJson('finnhub.scheduler', {
       success: true,
       data: {
         status,
@@ -40,7 +41,7 @@ export async function POST(request: NextRequest) {
   try {
     stockPriceScheduler.start();
 
-    return NextResponse.json({
+    return versionedJson('finnhub.scheduler', {
       success: true,
       message: 'Stock price scheduler started',
       data: stockPriceScheduler.getStatus()
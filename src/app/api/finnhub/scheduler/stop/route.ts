@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { stockPriceScheduler } from '@/services/stockPriceScheduler';
+import { versionedJson } from '@/services/apiEnvelope';
 
 /**
  * POST /api/finnhub/scheduler/stop
@@ -14,7 +15,7 @@ export async function POST(request: NextRequest) {
   try {
     stockPriceScheduler.stop();
 
-    return NextResponse.json({
+    return versionedJson('finnhub.scheduler', {
       success: true,
       message: 'Stock price scheduler stopped',
       data: stockPriceScheduler.getStatus()
@@ -4,16 +4,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-
-interface FinnhubSearchResponse {
-  count: number;
-  result: Array<{
-    description: string;
-    displaySymbol: string;
-    symbol: string;
-    type: string;
-  }>;
-}
+import { isMarketDataProviderError, ProviderSearchResult } from '@/services/marketDataProvider';
+import { getMarketDataProvider } from '@/services/marketDataProviderConfig';
+import { nlpTickerService } from '@/services/nlpTickerService';
+import { usageLedger } from '@/services/usageLedger';
+import { versionedJson } from '@/services/apiEnvelope';
+import { arrayOf, searchResultSchema } from '@/services/marketSchema';
 
 // Rate limiting
 const searchCache = new Map<string, { data: any; timestamp: number }>();
@@ -138,15 +134,15 @@ export async function GET(request: NextRequest) {
     // Check cache
     const cached = searchCache.get(normalizedQuery);
     if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-      return NextResponse.json(cached.data);
+      usageLedger.recordCacheHit(getMarketDataProvider('interactive', 'search'), '/search');
+      return versionedJson('finnhub.search', cached.data);
     }
 
-    // Get Finnhub API key
-    const apiKey = process.env.FINNHUB_API_KEY;
-    if (!apiKey || apiKey === 'your_finnhub_api_key_here') {
-      // Return demo data when API key is not configured
+    const provider = getMarketDataProvider('interactive', 'search');
+    if (!provider.isConfigured()) {
+      // Return demo data when the provider is not configured
       const demoResults = getDemoSearchResults(query);
-      return NextResponse.json({
+      return versionedJson('finnhub.search', {
         count: demoResults.length,
         result: demoResults,
         query: query,
@@ -156,34 +152,30 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Make request to Finnhub
-    const finnhubUrl = `https://finnhub.io/api/v1/search?q=${encodeURIComponent(query)}&token=${apiKey}`;
-    
-    const response = await fetch(finnhubUrl, {
-      headers: {
-        'X-Finnhub-Token': apiKey,
-      },
-    });
+    let searchResults: ProviderSearchResult[];
+    try {
+      searchResults = await provider.searchSymbols(query);
+    } catch (providerError) {
+      if (!isMarketDataProviderError(providerError)) {
+        throw providerError;
+      }
 
-    if (!response.ok) {
-      if (response.status === 429) {
+      if (providerError.status === 429) {
         return NextResponse.json(
           { error: 'API quota exceeded. Please try again later.' },
           { status: 429 }
         );
       }
       
-      console.error(`Finnhub search API error: ${response.status}`);
+      console.error(`${providerError.provider} search API error: ${providerError.status}`);
       return NextResponse.json(
         { error: 'Stock search temporarily unavailable' },
         { status: 503 }
       );
     }
-
-    const data: FinnhubSearchResponse = await response.json();
     
     // Filter and format results
-    const filteredResults = (data.result || [])
+    const filteredResults = searchResults
       .filter(stock => {
         // Filter for common stocks and valid symbols
         const isStock = stock.type === 'Common Stock' || !stock.type;
@@ -221,6 +213,9 @@ export async function GET(request: NextRequest) {
         label: `${stock.symbol.replace('.US', '')} - ${stock.description}`
       }));
 
+    // Names seen in search feed news ticker linking
+    nlpTickerService.indexCompanies(filteredResults);
+
     const result = {
       count: filteredResults.length,
       result: filteredResults,
@@ -242,7 +237,9 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    return NextResponse.json(result);
+    return versionedJson('finnhub.search', result, {
+      validate: { validator: arrayOf(searchResultSchema), select: body => body.result }
+    });
 
   } catch (error) {
     console.error('Stock search error:', error);
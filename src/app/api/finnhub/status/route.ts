@@ -5,6 +5,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { finnhubService } from '@/services/finnhubService';
+import { versionedJson } from '@/services/apiEnvelope';
+import { finnhubGovernor } from '@/services/rateLimitGovernor';
+import { usageLedger } from '@/services/usageLedger';
+
+const USAGE_WINDOW_MS = 60 * 60 * 1000; // Banner shows the last hour
 
 /**
  * GET /api/finnhub/status
@@ -14,6 +19,7 @@ export async function GET(request: NextRequest) {
   try {
     const healthCheck = await finnhubService.healthCheck();
     const apiStatus = finnhubService.getApiStatus();
+    const usage = await usageLedger.summarize(new Date(Date.now() - USAGE_WINDOW_MS), new Date(), ['feature', 'endpoint'], 5);
     
     // Test API key if requested
     const url = new URL(request.url);
@@ -24,7 +30,7 @@ export async function GET(request: NextRequest) {
       apiKeyTest = await finnhubService.testApiKey();
     }
 
-    return NextResponse.json({
+    return versionedJson('finnhub.status', {
       success: true,
       data: {
         health: healthCheck,
@@ -36,6 +42,8 @@ export async function GET(request: NextRequest) {
           isLimitReached: apiStatus.isLimitReached,
           lastUpdated: apiStatus.lastUpdated.toISOString()
         },
+        governor: finnhubGovernor.getStatus(),
+        usage,
         apiKeyTest,
         message: healthCheck.status === 'unhealthy' 
           ? 'Live updates temporarily paused: API usage limit reached, will resume after reset'
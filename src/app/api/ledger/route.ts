@@ -0,0 +1,230 @@
+/**
+ * API Routes for the Transaction Ledger
+ * /api/ledger
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { LedgerError } from '@/services/transactionLedger';
+import { LedgerTransactionInput, transactionLedgerService } from '@/services/transactionLedgerService';
+import { LedgerTransactionType, LotMethod } from '@/types';
+
+const SYMBOL_PATTERN = /^[A-Z0-9.-]{1,10}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TRANSACTION_TYPES: LedgerTransactionType[] = ['buy', 'sell', 'dividend', 'split', 'fee', 'transfer'];
+const LOT_METHODS: LotMethod[] = ['FIFO', 'LIFO', 'SPECIFIC'];
+const MAX_BATCH = 500;
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+const isNonNegative = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * A transaction from the request body, or the reason it is invalid
+ */
+function parseTransaction(value: unknown): LedgerTransactionInput | string {
+  if (!value || typeof value !== 'object') return 'Each transaction must be an object';
+  const entry = value as Record<string, unknown>;
+
+  const type = entry.type as LedgerTransactionType;
+  if (!TRANSACTION_TYPES.includes(type)) return `type must be one of ${TRANSACTION_TYPES.join(', ')}`;
+
+  const date = typeof entry.date === 'string' ? entry.date : '';
+  if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) return 'date must be YYYY-MM-DD';
+
+  const ticker = typeof entry.ticker === 'string' ? entry.ticker.trim().toUpperCase() : undefined;
+  if (ticker !== undefined && !SYMBOL_PATTERN.test(ticker)) return 'Invalid ticker';
+  if (!ticker && type !== 'fee') return `A ${type} needs a ticker`;
+
+  const transaction: LedgerTransactionInput = { type, date, ...(ticker ? { ticker } : {}) };
+  if (typeof entry.note === 'string' && entry.note.trim()) transaction.note = entry.note.trim().slice(0, 200);
+  if (typeof entry.externalId === 'string' && entry.externalId.trim()) transaction.externalId = entry.externalId.trim().slice(0, 100);
+
+  switch (type) {
+    case 'buy':
+    case 'sell':
+    case 'transfer':
+      if (!isPositive(entry.quantity) || !isPositive(entry.price)) {
+        return `A ${type} needs a positive quantity and price`;
+      }
+      transaction.quantity = entry.quantity;
+      transaction.price = entry.price;
+      if (entry.fees !== undefined) {
+        if (!isNonNegative(entry.fees)) return 'fees must be a non-negative number';
+        transaction.fees = entry.fees;
+      }
+      if (type === 'transfer') {
+        if (entry.direction !== 'in' && entry.direction !== 'out') return "A transfer needs a direction of 'in' or 'out'";
+        transaction.direction = entry.direction;
+      }
+      if (type === 'sell' || (type === 'transfer' && entry.direction === 'out')) {
+        if (entry.lotMethod !== undefined) {
+          if (!LOT_METHODS.includes(entry.lotMethod as LotMethod)) return `lotMethod must be one of ${LOT_METHODS.join(', ')}`;
+          transaction.lotMethod = entry.lotMethod as LotMethod;
+        }
+        if (entry.lots !== undefined) {
+          if (!Array.isArray(entry.lots) || entry.lots.some(lot => typeof lot?.lotId !== 'string' || !isPositive(lot?.quantity))) {
+            return 'lots must be a list of { lotId, quantity }';
+          }
+          if (new Set(entry.lots.map(lot => lot.lotId)).size !== entry.lots.length) {
+            return 'lots must not name the same lot more than once';
+          }
+          transaction.lots = entry.lots.map(lot => ({ lotId: lot.lotId, quantity: lot.quantity }));
+        }
+      }
+      break;
+
+    case 'dividend':
+    case 'fee':
+      if (!isPositive(entry.amount)) return `A ${type} needs a positive amount`;
+      transaction.amount = entry.amount;
+      break;
+
+    case 'split':
+      if (!isPositive(entry.ratio)) return 'A split needs a positive ratio';
+      transaction.ratio = entry.ratio;
+      break;
+  }
+
+  return transaction;
+}
+
+/**
+ * Latest prices from a query such as prices=AAPL:190.5,MSFT:410
+ */
+function parsePrices(value: string | null): Record<string, number> | undefined {
+  if (!value) return undefined;
+  const prices: Record<string, number> = {};
+  for (const pair of value.split(',')) {
+    const [symbol, price] = pair.split(':');
+    const parsed = Number(price);
+    if (symbol && Number.isFinite(parsed) && parsed > 0) prices[symbol.trim().toUpperCase()] = parsed;
+  }
+  return prices;
+}
+
+function ledgerErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof SyntaxError) {
+    return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+  }
+  if (error instanceof LedgerError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+  }
+  return null;
+}
+
+/**
+ * GET /api/ledger?userId=xxx[&prices=AAPL:190.5,...]
+ * The user's transactions with the derived holdings, lots and P&L
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+
+    const ledger = await transactionLedgerService.getLedger(userId);
+    const summary = await transactionLedgerService.getSummary(userId, parsePrices(searchParams.get('prices')));
+
+    return NextResponse.json({
+      success: true,
+      data: { lotMethod: ledger.lotMethod, transactions: ledger.transactions, summary }
+    });
+  } catch (error) {
+    console.error('Error fetching ledger:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load ledger' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/ledger
+ * Record one transaction or a batch: { userId, transaction } or { userId, transactions: [...] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.userId || typeof body.userId !== 'string') {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+
+    const entries: unknown[] = Array.isArray(body.transactions) ? body.transactions : body.transaction ? [body.transaction] : [];
+    if (entries.length === 0 || entries.length > MAX_BATCH) {
+      return NextResponse.json(
+        { success: false, error: `Provide a transaction or between 1 and ${MAX_BATCH} transactions` },
+        { status: 400 }
+      );
+    }
+
+    const inputs: LedgerTransactionInput[] = [];
+    for (const [index, entry] of entries.entries()) {
+      const parsed = parseTransaction(entry);
+      if (typeof parsed === 'string') {
+        return NextResponse.json(
+          { success: false, error: entries.length > 1 ? `Transaction ${index + 1}: ${parsed}` : parsed },
+          { status: 400 }
+        );
+      }
+      inputs.push(parsed);
+    }
+
+    const added = await transactionLedgerService.addTransactions(body.userId, inputs);
+    return NextResponse.json({ success: true, data: added, count: added.length }, { status: 201 });
+  } catch (error) {
+    const response = ledgerErrorResponse(error);
+    if (response) return response;
+    console.error('Error recording transactions:', error);
+    return NextResponse.json({ success: false, error: 'Failed to record transactions' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/ledger
+ * Change the default lot method: { userId, lotMethod }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.userId || typeof body.userId !== 'string') {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+    if (!LOT_METHODS.includes(body.lotMethod)) {
+      return NextResponse.json(
+        { success: false, error: `lotMethod must be one of ${LOT_METHODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await transactionLedgerService.setLotMethod(body.userId, body.lotMethod);
+    return NextResponse.json({ success: true, data: { lotMethod: body.lotMethod } });
+  } catch (error) {
+    const response = ledgerErrorResponse(error);
+    if (response) return response;
+    console.error('Error updating lot method:', error);
+    return NextResponse.json({ success: false, error: 'Failed to update lot method' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/ledger?userId=xxx&id=txn_...
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const id = searchParams.get('id');
+    if (!userId || !id) {
+      return NextResponse.json({ success: false, error: 'User ID and transaction ID are required' }, { status: 400 });
+    }
+
+    const removed = await transactionLedgerService.removeTransaction(userId, id);
+    if (!removed) {
+      return NextResponse.json({ success: false, error: 'Transaction not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const response = ledgerErrorResponse(error);
+    if (response) return response;
+    console.error('Error removing transaction:', error);
+    return NextResponse.json({ success: false, error: 'Failed to remove transaction' }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * API Routes for News Sentiment
+ * /api/news/sentiment
+ *
+ * GET ?symbol=AAPL&days=7&seriesDays=30 returns the ticker's aggregated news sentiment, its
+ * daily series and the scored articles. POST { headline, summary? } scores a piece of text
+ * and lists the tickers it mentions.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { versionedJson } from '@/services/apiEnvelope';
+import { tickerSentimentSchema } from '@/services/marketSchema';
+import { isMarketDataProviderError } from '@/services/marketDataProvider';
+import { getMarketDataProvider } from '@/services/marketDataProviderConfig';
+import { analyzeArticleSentiment } from '@/services/newsSentiment';
+import { newsSentimentService } from '@/services/newsSentimentService';
+import { nlpTickerService } from '@/services/nlpTickerService';
+
+const MAX_DAYS = 90;
+const MAX_TEXT_LENGTH = 10000;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const symbol = searchParams.get('symbol')?.trim().toUpperCase();
+  const days = Number(searchParams.get('days') ?? 7);
+  const seriesDays = Number(searchParams.get('seriesDays') ?? 30);
+
+  if (!symbol || !/^[A-Z0-9.-]{1,10}$/.test(symbol)) {
+    return NextResponse.json({ success: false, error: 'A valid symbol is required' }, { status: 400 });
+  }
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS || !Number.isInteger(seriesDays) || seriesDays < 1 || seriesDays > MAX_DAYS) {
+    return NextResponse.json(
+      { success: false, error: `days and seriesDays must be whole numbers between 1 and ${MAX_DAYS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const sentiment = await newsSentimentService.getTickerSentiment(symbol, {
+      days,
+      seriesDays,
+      provider: getMarketDataProvider('interactive', 'news-sentiment')
+    });
+
+    return versionedJson('news.sentiment', {
+      success: true,
+      data: sentiment,
+      riskFlag: newsSentimentService.toRiskFlag(sentiment),
+      timestamp: new Date().toISOString()
+    }, {
+      validate: { validator: tickerSentimentSchema, select: body => body.data }
+    });
+
+  } catch (error) {
+    if (isMarketDataProviderError(error)) {
+      console.error(`${error.provider} API error during news sentiment: ${error.status}`);
+      return NextResponse.json({
+        success: false,
+        error: error.status === 429 ? 'API quota exceeded. Please try again later.' : 'News temporarily unavailable'
+      }, { status: error.status === 429 ? 429 : 503 });
+    }
+
+    console.error('News sentiment error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to score news sentiment' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const headline = typeof body.headline === 'string' ? body.headline : typeof body.text === 'string' ? body.text : '';
+    const summary = typeof body.summary === 'string' ? body.summary : '';
+
+    if (!headline.trim()) {
+      return NextResponse.json({ success: false, error: 'headline is required' }, { status: 400 });
+    }
+    if (headline.length + summary.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Text must be at most ${MAX_TEXT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        sentiment: analyzeArticleSentiment(headline, summary),
+        mentions: nlpTickerService.linkEntities(`${headline}. ${summary}`)
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    console.error('Text sentiment error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to score text' }, { status: 500 });
+  }
+}
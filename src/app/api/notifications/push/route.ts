@@ -0,0 +1,79 @@
+/**
+ * API Routes for Browser Push Subscriptions
+ * /api/notifications/push
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { notificationDispatcher } from '@/services/notificationDispatcher';
+import { vapidKeysFromEnv } from '@/services/webPush';
+
+/**
+ * GET /api/notifications/push
+ * The VAPID public key browsers subscribe with; null when push is not configured
+ */
+export async function GET() {
+  return NextResponse.json({ success: true, data: { publicKey: vapidKeysFromEnv()?.publicKey ?? null } });
+}
+
+/**
+ * POST /api/notifications/push
+ * Add a subscription: { userId, subscription: PushSubscription.toJSON() }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.userId || typeof body.userId !== 'string') {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+
+    const subscription = body.subscription;
+    let endpoint: URL | null = null;
+    try {
+      endpoint = typeof subscription?.endpoint === 'string' ? new URL(subscription.endpoint) : null;
+    } catch {
+      endpoint = null;
+    }
+    if (!endpoint || endpoint.protocol !== 'https:' ||
+      typeof subscription.keys?.p256dh !== 'string' || typeof subscription.keys?.auth !== 'string') {
+      return NextResponse.json({ success: false, error: 'subscription needs an https endpoint and p256dh and auth keys' }, { status: 400 });
+    }
+    if (!vapidKeysFromEnv()) {
+      return NextResponse.json({ success: false, error: 'Push notifications are not configured on this server' }, { status: 400 });
+    }
+
+    await notificationDispatcher.addPushSubscription(body.userId, {
+      endpoint: subscription.endpoint,
+      keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth }
+    });
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    console.error('Error saving push subscription:', error);
+    return NextResponse.json({ success: false, error: 'Failed to save push subscription' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/notifications/push?userId=xxx&endpoint=yyy
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const endpoint = searchParams.get('endpoint');
+    if (!userId || !endpoint) {
+      return NextResponse.json({ success: false, error: 'User ID and endpoint are required' }, { status: 400 });
+    }
+
+    const removed = await notificationDispatcher.removePushSubscription(userId, endpoint);
+    if (!removed) {
+      return NextResponse.json({ success: false, error: 'Subscription not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing push subscription:', error);
+    return NextResponse.json({ success: false, error: 'Failed to remove push subscription' }, { status: 500 });
+  }
+}
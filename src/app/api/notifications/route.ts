@@ -0,0 +1,123 @@
+/**
+ * API Routes for Dispatched Notifications
+ * /api/notifications
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { notificationDispatcher } from '@/services/notificationDispatcher';
+import { NOTIFICATION_SEVERITIES } from '@/services/notificationRouting';
+import { NotificationEventType, NotificationSeverity } from '@/types';
+
+// Events the dashboard raises itself; alerts, stories and service notices come from the server
+const CLIENT_EVENT_TYPES: NotificationEventType[] = ['portfolio', 'test'];
+const MAX_LIMIT = 200;
+const MAX_TITLE_LENGTH = 200;
+const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * GET /api/notifications?userId=xxx[&since=ISO timestamp][&limit=50]
+ * The user's in-app notifications, newest first, with the state of each channel's delivery
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+
+    const since = searchParams.get('since');
+    if (since && Number.isNaN(Date.parse(since))) {
+      return NextResponse.json({ success: false, error: 'since must be an ISO timestamp' }, { status: 400 });
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), MAX_LIMIT);
+    const notifications = await notificationDispatcher.getNotifications(userId, {
+      since: since ? new Date(since).toISOString() : undefined,
+      limit
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: notifications,
+      count: notifications.length,
+      unreadCount: notifications.filter(notification => !notification.isRead).length
+    });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load notifications' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/notifications
+ * Dispatch an event over the user's channels:
+ * { userId, type: 'portfolio' | 'test', severity?, title, message, ticker?, url? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.userId || typeof body.userId !== 'string') {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+    if (!CLIENT_EVENT_TYPES.includes(body.type)) {
+      return NextResponse.json({ success: false, error: `type must be one of ${CLIENT_EVENT_TYPES.join(', ')}` }, { status: 400 });
+    }
+    if (body.severity !== undefined && !NOTIFICATION_SEVERITIES.includes(body.severity)) {
+      return NextResponse.json({ success: false, error: `severity must be one of ${NOTIFICATION_SEVERITIES.join(', ')}` }, { status: 400 });
+    }
+    if (typeof body.title !== 'string' || !body.title.trim() || body.title.length > MAX_TITLE_LENGTH) {
+      return NextResponse.json({ success: false, error: `title is required (at most ${MAX_TITLE_LENGTH} characters)` }, { status: 400 });
+    }
+    if (typeof body.message !== 'string' || !body.message.trim() || body.message.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json({ success: false, error: `message is required (at most ${MAX_MESSAGE_LENGTH} characters)` }, { status: 400 });
+    }
+    if (body.url !== undefined && (typeof body.url !== 'string' || !body.url.startsWith('/'))) {
+      return NextResponse.json({ success: false, error: 'url must be a path within the app' }, { status: 400 });
+    }
+
+    const notification = await notificationDispatcher.dispatch({
+      userId: body.userId,
+      type: body.type,
+      severity: body.severity as NotificationSeverity | undefined,
+      title: body.title.trim(),
+      message: body.message.trim(),
+      ticker: typeof body.ticker === 'string' ? body.ticker.toUpperCase() : undefined,
+      url: body.url
+    });
+
+    return NextResponse.json({ success: true, data: notification }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    console.error('Error dispatching notification:', error);
+    return NextResponse.json({ success: false, error: 'Failed to dispatch notification' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/notifications
+ * Mark notifications as read: { userId, notificationIds? } (all of the user's when omitted)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.userId || typeof body.userId !== 'string') {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+    if (body.notificationIds !== undefined &&
+      (!Array.isArray(body.notificationIds) || body.notificationIds.some((id: unknown) => typeof id !== 'string'))) {
+      return NextResponse.json({ success: false, error: 'notificationIds must be a list of notification IDs' }, { status: 400 });
+    }
+
+    const updated = await notificationDispatcher.markRead(body.userId, body.notificationIds);
+    return NextResponse.json({ success: true, data: { updated } });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    console.error('Error marking notifications as read:', error);
+    return NextResponse.json({ success: false, error: 'Failed to update notifications' }, { status: 500 });
+  }
+}
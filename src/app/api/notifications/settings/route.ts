@@ -0,0 +1,91 @@
+/**
+ * API Routes for Notification Settings
+ * /api/notifications/settings
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { notificationDispatcher } from '@/services/notificationDispatcher';
+import { NotificationSettingsError } from '@/services/notificationRouting';
+import { NotificationSettings } from '@/types';
+
+/**
+ * The reason the settings from the request body are malformed, or null; the values are
+ * checked by validateNotificationSettings
+ */
+function settingsShapeError(settings: unknown): string | null {
+  if (!settings || typeof settings !== 'object') return 'settings must be an object';
+  const { routing, quietHours } = settings as Record<string, unknown>;
+
+  if (routing !== undefined) {
+    if (!Array.isArray(routing)) return 'routing must be a list of routes';
+    for (const route of routing) {
+      if (!route || typeof route !== 'object') return 'Each route must be an object';
+      const { eventTypes, channels } = route as Record<string, unknown>;
+      if (!Array.isArray(channels)) return 'Each route needs a list of channels';
+      if (eventTypes !== undefined && !Array.isArray(eventTypes)) return 'Route eventTypes must be a list';
+    }
+  }
+  if (quietHours !== undefined) {
+    if (!quietHours || typeof quietHours !== 'object') return 'quietHours must be an object';
+    const { start, end, timeZone } = quietHours as Record<string, unknown>;
+    if (typeof start !== 'string' || typeof end !== 'string' || typeof timeZone !== 'string') {
+      return 'quietHours needs start, end and timeZone';
+    }
+  }
+  return null;
+}
+
+/**
+ * GET /api/notifications/settings?userId=xxx
+ * The user's settings (null until saved) and the channels the server can deliver on
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        settings: await notificationDispatcher.getSettings(userId),
+        configuredChannels: notificationDispatcher.getConfiguredChannels()
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching notification settings:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load notification settings' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/notifications/settings
+ * Replace the user's settings: { userId, settings }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.userId || typeof body.userId !== 'string') {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+
+    const shapeError = settingsShapeError(body.settings);
+    if (shapeError) {
+      return NextResponse.json({ success: false, error: shapeError }, { status: 400 });
+    }
+
+    const settings = await notificationDispatcher.saveSettings(body.userId, body.settings as NotificationSettings);
+    return NextResponse.json({ success: true, data: settings });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    if (error instanceof NotificationSettingsError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error('Error saving notification settings:', error);
+    return NextResponse.json({ success: false, error: 'Failed to save notification settings' }, { status: 500 });
+  }
+}
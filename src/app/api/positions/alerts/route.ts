@@ -22,7 +22,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const alerts = historicalPriceService.getUserAlerts(userId);
+    const alerts = await historicalPriceService.getUserAlerts(userId);
 
     return NextResponse.json({
       success: true,
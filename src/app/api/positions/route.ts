@@ -4,7 +4,41 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { historicalPriceService } from '@/services/historicalPriceService';
+import { historicalPriceService, PositionAlertSettings } from '@/services/historicalPriceService';
+import { AlertError, positionAlertConditions, validateAlertConditions } from '@/services/alertEngine';
+
+const PERCENT_SETTINGS = ['trailingStopPercent', 'trailingStopAtr', 'moveAlertPercent', 'gapAlertPercent'] as const;
+
+/**
+ * Alert settings from the request body, or the reason they are invalid; together with the
+ * thresholds they must make a valid alert
+ */
+function parseAlertSettings(body: Record<string, unknown>, upperThreshold?: number, lowerThreshold?: number): PositionAlertSettings | string {
+  const settings: PositionAlertSettings = {};
+  for (const key of PERCENT_SETTINGS) {
+    if (body[key] === undefined || body[key] === null) continue;
+    if (typeof body[key] !== 'number') return `${key} must be a number`;
+    settings[key] = body[key] as number;
+  }
+  if (settings.trailingStopPercent !== undefined && settings.trailingStopAtr !== undefined) {
+    return 'Set either trailingStopPercent or trailingStopAtr, not both';
+  }
+  if (body.yearRangeAlerts !== undefined) {
+    if (typeof body.yearRangeAlerts !== 'boolean') return 'yearRangeAlerts must be a boolean';
+    settings.yearRangeAlerts = body.yearRangeAlerts;
+  }
+
+  const conditions = positionAlertConditions({ upperThreshold, lowerThreshold, ...settings });
+  if (conditions.length > 0) {
+    try {
+      validateAlertConditions(conditions);
+    } catch (error) {
+      if (error instanceof AlertError) return error.message;
+      throw error;
+    }
+  }
+  return settings;
+}
 
 /**
  * GET /api/positions?userId=xxx
@@ -22,7 +56,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const positions = historicalPriceService.getUserPositions(userId);
+    // Positions held through a split are restated before they are shown
+    const positions = await historicalPriceService.applyCorporateActions(
+      historicalPriceService.getUserPositions(userId)
+    );
 
     return NextResponse.json({
       success: true,
@@ -55,7 +92,11 @@ export async function GET(request: NextRequest) {
  *     "totalValue": 15025.00
  *   },
  *   "upperThreshold": 160.00,
- *   "lowerThreshold": 140.00
+ *   "lowerThreshold": 140.00,
+ *   "trailingStopPercent": 8,      // or "trailingStopAtr": 3 (multiples of daily ATR(14))
+ *   "moveAlertPercent": 5,         // Move either way from the previous close
+ *   "gapAlertPercent": 3,          // Open against the previous close
+ *   "yearRangeAlerts": true        // New 52-week high or low
  * }
  */
 export async function POST(request: NextRequest) {
@@ -92,11 +133,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const alertSettings = parseAlertSettings(body, upperThreshold, lowerThreshold);
+    if (typeof alertSettings === 'string') {
+      return NextResponse.json(
+        { error: alertSettings },
+        { status: 400 }
+      );
+    }
+
     const position = await historicalPriceService.createStockPosition(
       userId,
       historicalData,
       upperThreshold,
-      lowerThreshold
+      lowerThreshold,
+      alertSettings
     );
 
     return NextResponse.json({
@@ -116,13 +166,14 @@ export async function POST(request: NextRequest) {
 
 /**
  * PUT /api/positions
- * Update position thresholds
+ * Update position thresholds and alert settings; the body replaces all of them
  * 
  * Request Body:
  * {
  *   "positionId": "pos_xxx",
  *   "upperThreshold": 165.00,
- *   "lowerThreshold": 135.00
+ *   "lowerThreshold": 135.00,
+ *   "trailingStopPercent": 10
  * }
  */
 export async function PUT(request: NextRequest) {
@@ -137,16 +188,24 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    if (!upperThreshold && !lowerThreshold) {
+    if (upperThreshold && lowerThreshold && upperThreshold <= lowerThreshold) {
       return NextResponse.json(
-        { error: 'At least one threshold is required' },
+        { error: 'Upper threshold must be greater than lower threshold' },
         { status: 400 }
       );
     }
 
-    if (upperThreshold && lowerThreshold && upperThreshold <= lowerThreshold) {
+    const alertSettings = parseAlertSettings(body, upperThreshold, lowerThreshold);
+    if (typeof alertSettings === 'string') {
       return NextResponse.json(
-        { error: 'Upper threshold must be greater than lower threshold' },
+        { error: alertSettings },
+        { status: 400 }
+      );
+    }
+
+    if (positionAlertConditions({ upperThreshold, lowerThreshold, ...alertSettings }).length === 0) {
+      return NextResponse.json(
+        { error: 'At least one threshold or alert setting is required' },
         { status: 400 }
       );
     }
@@ -154,7 +213,8 @@ export async function PUT(request: NextRequest) {
     const success = await historicalPriceService.updatePositionThresholds(
       positionId,
       upperThreshold,
-      lowerThreshold
+      lowerThreshold,
+      alertSettings
     );
 
     if (!success) {
@@ -166,7 +226,7 @@ export async function PUT(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: 'Position thresholds updated successfully'
+      message: 'Position alerts updated successfully'
     });
 
   } catch (error) {
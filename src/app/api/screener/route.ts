@@ -0,0 +1,103 @@
+/**
+ * API Routes for the Stock Screener
+ * /api/screener
+ *
+ * GET lists the screenable fields and the universe. POST runs a screen:
+ * { filters?: [{ field, op, value }], rule?, sort?: { field, direction }, page?, pageSize?, refresh? }
+ * PUT replaces the universe: { universe: [{ symbol, sector? }] } or { symbols: "AAPL:Technology,XOM" }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { versionedJson } from '@/services/apiEnvelope';
+import { screenerResultSchema } from '@/services/marketSchema';
+import { isMarketDataProviderError } from '@/services/marketDataProvider';
+import { parseScreenerUniverse, SCREENER_FIELDS, ScreenerError, screenerService } from '@/services/screenerService';
+import { SignalRuleError } from '@/services/signalRules';
+import { ScreenerQuery, ScreenerUniverseEntry } from '@/types';
+
+export async function GET() {
+  const universe = await screenerService.getUniverse();
+  return versionedJson('screener.fields', {
+    success: true,
+    data: {
+      fields: SCREENER_FIELDS,
+      operators: ['gt', 'gte', 'lt', 'lte', 'eq', 'neq', 'between', 'in'],
+      universe,
+      sectors: await screenerService.getSectors()
+    }
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const query: ScreenerQuery = {
+      filters: body.filters,
+      rule: typeof body.rule === 'string' ? body.rule : undefined,
+      sort: body.sort,
+      page: Number(body.page) || undefined,
+      pageSize: Number(body.pageSize) || undefined
+    };
+
+    const result = await screenerService.screen(query, { refresh: body.refresh === true });
+
+    return versionedJson('screener.result', {
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    }, {
+      validate: { validator: screenerResultSchema, select: body => body.data }
+    });
+
+  } catch (error) {
+    if (error instanceof ScreenerError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    if (error instanceof SignalRuleError) {
+      return NextResponse.json(
+        { success: false, error: `Invalid rule: ${error.message}`, diagnostics: error.diagnostics },
+        { status: 400 }
+      );
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    if (isMarketDataProviderError(error)) {
+      console.error(`${error.provider} API error during screen: ${error.status}`);
+      return NextResponse.json({
+        success: false,
+        error: error.status === 429 ? 'API quota exceeded. Please try again later.' : 'Market data temporarily unavailable'
+      }, { status: error.status === 429 ? 429 : 503 });
+    }
+
+    console.error('Screener error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to run screen' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const entries: ScreenerUniverseEntry[] = typeof body.symbols === 'string'
+      ? parseScreenerUniverse(body.symbols)
+      : Array.isArray(body.universe)
+        ? body.universe.filter((entry: unknown) => typeof (entry as ScreenerUniverseEntry)?.symbol === 'string')
+        : [];
+
+    const universe = await screenerService.setUniverse(entries);
+    return versionedJson('screener.universe', {
+      success: true,
+      data: { universe, sectors: await screenerService.getSectors() }
+    });
+
+  } catch (error) {
+    if (error instanceof ScreenerError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    console.error('Screener universe error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to update screener universe' }, { status: 500 });
+  }
+}
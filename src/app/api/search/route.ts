@@ -1,10 +1,14 @@
 /**
  * Simplified Stock Search API Endpoint
  * GET /api/search?query=AAPL
- * Returns valid ticker + name list from Finnhub
+ * Returns valid ticker + name list from the configured market data provider
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { isMarketDataProviderError } from '@/services/marketDataProvider';
+import { getMarketDataProvider } from '@/services/marketDataProviderConfig';
+import { nlpTickerService } from '@/services/nlpTickerService';
+import { usageLedger } from '@/services/usageLedger';
 
 interface StockSearchResult {
   symbol: string;
@@ -131,50 +135,24 @@ export async function GET(request: NextRequest) {
     // Check cache
     const cached = searchCache.get(normalizedQuery);
     if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+      usageLedger.recordCacheHit(getMarketDataProvider('interactive', 'search'), '/search');
       return NextResponse.json(cached.data);
     }
 
-    // Get Finnhub API key
-    const apiKey = process.env.FINNHUB_API_KEY;
+    const provider = getMarketDataProvider('interactive', 'search');
     
     let results: StockSearchResult[] = [];
 
-    if (!apiKey || apiKey === 'your_finnhub_api_key_here') {
-      // Use demo data when API key is not configured
+    if (!provider.isConfigured()) {
+      // Use demo data when the provider is not configured
       results = getDemoSearchResults(query);
     } else {
-      // Make request to Finnhub
-      const finnhubUrl = `https://finnhub.io/api/v1/search?q=${encodeURIComponent(query)}&token=${apiKey}`;
-      
-      const response = await fetch(finnhubUrl, {
-        headers: {
-          'X-Finnhub-Token': apiKey,
-        },
-      });
-
-      if (!response.ok) {
-        if (response.status === 429) {
-          return NextResponse.json(
-            { error: 'Stock data temporarily unavailable, please try again later.' },
-            { status: 429 }
-          );
-        }
-        
-        if (response.status === 422) {
-          console.log(`Finnhub search API error: 422 - Invalid query format for "${query}", using demo data`);
-          // Fallback to demo data on invalid query format
-          results = getDemoSearchResults(query);
-        } else {
-          console.error(`Finnhub search API error: ${response.status}`);
-          // Fallback to demo data on other API errors
-          results = getDemoSearchResults(query);
-        }
-      } else {
-        const data = await response.json();
+      try {
+        const searchResults = await provider.searchSymbols(query);
         
-        // Format Finnhub results to our simplified format
-        results = (data.result || [])
-          .filter((stock: any) => {
+        // Format provider results to our simplified format
+        results = searchResults
+          .filter(stock => {
             const isStock = stock.type === 'Common Stock' || !stock.type;
             const hasValidSymbol = stock.symbol && stock.symbol.length <= 5;
             const hasDescription = stock.description && stock.description.trim().length > 0;
@@ -183,10 +161,32 @@ export async function GET(request: NextRequest) {
             return isStock && hasValidSymbol && hasDescription && isUSStock;
           })
           .slice(0, 10)
-          .map((stock: any) => ({
+          .map(stock => ({
             symbol: stock.symbol.replace('.US', ''),
             name: stock.description
           }));
+        nlpTickerService.indexCompanies(results.map(stock => ({ symbol: stock.symbol, description: stock.name })));
+      } catch (providerError) {
+        if (!isMarketDataProviderError(providerError)) {
+          throw providerError;
+        }
+
+        if (providerError.status === 429) {
+          return NextResponse.json(
+            { error: 'Stock data temporarily unavailable, please try again later.' },
+            { status: 429 }
+          );
+        }
+        
+        if (providerError.status === 422) {
+          console.log(`${providerError.provider} search API error: 422 - Invalid query format for "${query}", using demo data`);
+          // Fallback to demo data on invalid query format
+          results = getDemoSearchResults(query);
+        } else {
+          console.error(`${providerError.provider} search API error: ${providerError.status}`);
+          // Fallback to demo data on other API errors
+          results = getDemoSearchResults(query);
+        }
       }
     }
 
@@ -0,0 +1,94 @@
+/**
+ * API Routes for Signal Rules
+ * /api/signals
+ *
+ * GET lists the fields and functions a rule can use. POST { rule } checks a rule and
+ * reports every problem with its character range; POST { rule, symbols, resolution? }
+ * also evaluates it at the latest bar of each symbol, using live quotes for daily rules.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { versionedJson } from '@/services/apiEnvelope';
+import { arrayOf, signalRuleEvaluationSchema } from '@/services/marketSchema';
+import { finnhubService } from '@/services/finnhubService';
+import { signalRuleService } from '@/services/signalRuleService';
+import { compileSignalRule, SIGNAL_RULE_VOCABULARY, SignalRuleError } from '@/services/signalRules';
+
+const MAX_SYMBOLS = 25;
+
+export async function GET() {
+  return versionedJson('signals.vocabulary', {
+    success: true,
+    data: {
+      ...SIGNAL_RULE_VOCABULARY,
+      examples: [
+        'rsi(14) < 30 and close > sma(200)',
+        'volume > 2 * avg_volume(20)',
+        'sma(50) crosses above sma(200)',
+        'close < bb_lower(20, 2) and stoch_k(14, 3, 3) < 20',
+        'change(5) <= -10'
+      ]
+    }
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const rule = typeof body.rule === 'string' ? body.rule : '';
+    const resolution = typeof body.resolution === 'string' ? body.resolution : 'D';
+    const symbols: string[] = Array.isArray(body.symbols)
+      ? [...new Set<string>(body.symbols.filter((symbol: unknown) => typeof symbol === 'string').map((symbol: string) => symbol.toUpperCase()))]
+      : [];
+
+    if (symbols.length > MAX_SYMBOLS) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_SYMBOLS} symbols can be evaluated per request` },
+        { status: 400 }
+      );
+    }
+
+    let compiled;
+    try {
+      compiled = compileSignalRule(rule);
+    } catch (ruleError) {
+      if (!(ruleError instanceof SignalRuleError)) throw ruleError;
+      return versionedJson('signals.check', {
+        success: false,
+        error: ruleError.message,
+        data: { valid: false, diagnostics: ruleError.diagnostics }
+      }, { status: 400 });
+    }
+
+    if (symbols.length === 0) {
+      return versionedJson('signals.check', {
+        success: true,
+        data: { valid: true, diagnostics: [], warmup: compiled.warmup, terms: compiled.terms }
+      });
+    }
+
+    const quotes = resolution === 'D' ? await finnhubService.getBatchQuotes(symbols) : undefined;
+    const evaluations = await signalRuleService.evaluateMany(symbols, compiled, {
+      resolution,
+      quotes,
+      priority: 'interactive',
+      feature: 'signals'
+    });
+
+    return versionedJson('signals.evaluation', {
+      success: true,
+      data: evaluations,
+      matched: evaluations.filter(evaluation => evaluation.matched).map(evaluation => evaluation.symbol),
+      timestamp: new Date().toISOString()
+    }, {
+      validate: { validator: arrayOf(signalRuleEvaluationSchema), select: body => body.data }
+    });
+
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    console.error('Signal rule error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to evaluate signal rule' }, { status: 500 });
+  }
+}
@@ -4,6 +4,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { finnhubGovernor } from '@/services/rateLimitGovernor';
+import { usageLedger } from '@/services/usageLedger';
 
 export async function GET(request: NextRequest) {
   try {
@@ -22,9 +24,26 @@ export async function GET(request: NextRequest) {
       });
     }
     
-    // Test the API call
+    // Test the API call (counted against the shared quota like every other Finnhub call)
     console.log('📡 Making test call to Finnhub...');
-    const response = await fetch(`https://finnhub.io/api/v1/quote?symbol=AAPL&token=${apiKey}`);
+    const startedAt = Date.now();
+    const response = await finnhubGovernor.schedule(
+      () => fetch(`https://finnhub.io/api/v1/quote?symbol=AAPL&token=${apiKey}`),
+      'interactive'
+    );
+    usageLedger.record({
+      service: 'finnhub',
+      feature: 'status',
+      priority: 'interactive',
+      endpoint: '/quote',
+      ticker: 'AAPL',
+      latencyMs: Date.now() - startedAt,
+      status: response.status,
+      cacheHit: false
+    });
+    if (response.status === 429) {
+      finnhubGovernor.reportRateLimited();
+    }
     
     console.log('📈 Finnhub Response Status:', response.status);
     console.log('📈 Finnhub Response OK:', response.ok);
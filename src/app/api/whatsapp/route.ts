@@ -0,0 +1,105 @@
+/**
+ * API Routes for WhatsApp Messages
+ * /api/whatsapp
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { TwilioError } from '@/services/twilioClient';
+import { whatsAppDeliveryService, WhatsAppError } from '@/services/whatsappDeliveryService';
+import { isWhatsAppTemplate, WHATSAPP_TEMPLATES, WhatsAppTemplateError } from '@/services/whatsappTemplates';
+import { WhatsAppMessage } from '@/types';
+
+const RECOMMENDATIONS: WhatsAppMessage['recommendation'][] = ['BUY', 'HOLD', 'SELL'];
+const MAX_LIMIT = 200;
+
+/**
+ * GET /api/whatsapp?userId=xxx[&limit=50]
+ * The user's messages, newest first, and whether the server can send
+ *
+ * GET /api/whatsapp?userId=xxx&messageId=yyy[&refresh=true]
+ * One message; refresh asks Twilio for the status of a message still SENT
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+
+    const messageId = searchParams.get('messageId');
+    if (messageId) {
+      const message = searchParams.get('refresh') === 'true'
+        ? await whatsAppDeliveryService.refreshStatus(userId, messageId)
+        : await whatsAppDeliveryService.getMessage(userId, messageId);
+      if (!message) {
+        return NextResponse.json({ success: false, error: 'Message not found' }, { status: 404 });
+      }
+      return NextResponse.json({ success: true, data: message });
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), MAX_LIMIT);
+    const messages = await whatsAppDeliveryService.getMessages(userId, limit);
+    return NextResponse.json({
+      success: true,
+      data: messages,
+      configured: whatsAppDeliveryService.isConfigured(),
+      apiUrl: whatsAppDeliveryService.getApiUrl()
+    });
+  } catch (error) {
+    if (error instanceof TwilioError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 502 });
+    }
+    console.error('Error fetching WhatsApp messages:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load WhatsApp messages' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/whatsapp
+ * Send a templated message: { userId, to, template: 'alert' | 'notification', variables,
+ * ticker?, recommendation? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.userId || typeof body.userId !== 'string') {
+      return NextResponse.json({ success: false, error: 'User ID is required' }, { status: 400 });
+    }
+    if (typeof body.to !== 'string') {
+      return NextResponse.json({ success: false, error: 'to is required' }, { status: 400 });
+    }
+    if (!isWhatsAppTemplate(body.template)) {
+      return NextResponse.json({ success: false, error: `template must be one of ${Object.keys(WHATSAPP_TEMPLATES).join(', ')}` }, { status: 400 });
+    }
+    if (!body.variables || typeof body.variables !== 'object' ||
+      Object.values(body.variables).some(value => typeof value !== 'string')) {
+      return NextResponse.json({ success: false, error: 'variables must map names to strings' }, { status: 400 });
+    }
+    if (body.recommendation !== undefined && !RECOMMENDATIONS.includes(body.recommendation)) {
+      return NextResponse.json({ success: false, error: `recommendation must be one of ${RECOMMENDATIONS.join(', ')}` }, { status: 400 });
+    }
+
+    const message = await whatsAppDeliveryService.send({
+      userId: body.userId,
+      to: body.to.replace(/[^\d+]/g, ''),
+      template: body.template,
+      variables: body.variables,
+      ticker: typeof body.ticker === 'string' ? body.ticker : undefined,
+      recommendation: body.recommendation
+    });
+    return NextResponse.json({ success: true, data: message }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+    if (error instanceof WhatsAppError || error instanceof WhatsAppTemplateError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    if (error instanceof TwilioError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.permanent ? 400 : 502 });
+    }
+    console.error('Error sending WhatsApp message:', error);
+    return NextResponse.json({ success: false, error: 'Failed to send WhatsApp message' }, { status: 500 });
+  }
+}
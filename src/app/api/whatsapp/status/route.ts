@@ -0,0 +1,43 @@
+/**
+ * Twilio Status Callback for WhatsApp Messages
+ * /api/whatsapp/status
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { twilioConfigFromEnv, verifyTwilioSignature } from '@/services/twilioClient';
+import { whatsAppDeliveryService } from '@/services/whatsappDeliveryService';
+
+/**
+ * POST /api/whatsapp/status
+ * Twilio's form-encoded status callback (MessageSid, MessageStatus, ErrorCode), signed with
+ * the account's auth token in X-Twilio-Signature
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const config = twilioConfigFromEnv();
+    if (!config) {
+      return NextResponse.json({ success: false, error: 'WhatsApp is not configured' }, { status: 404 });
+    }
+
+    const form = await request.formData();
+    const params: Record<string, string> = {};
+    form.forEach((value, key) => {
+      if (typeof value === 'string') params[key] = value;
+    });
+
+    // Twilio signs the URL it was given, which behind a proxy differs from request.url
+    const signature = request.headers.get('x-twilio-signature') ?? '';
+    if (!verifyTwilioSignature(config.authToken, config.statusCallbackUrl ?? request.url, params, signature)) {
+      return NextResponse.json({ success: false, error: 'Invalid signature' }, { status: 403 });
+    }
+
+    const message = await whatsAppDeliveryService.handleStatusCallback(params);
+    if (!message) {
+      console.warn(`Status callback for unknown WhatsApp message ${params.MessageSid}`);
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error handling WhatsApp status callback:', error);
+    return NextResponse.json({ success: false, error: 'Failed to handle status callback' }, { status: 500 });
+  }
+}
@@ -31,6 +31,8 @@ import {
   ArrowUp
 } from 'lucide-react';
 import finnhubService from '@/services/finnhubService';
+import { nlpTickerService } from '@/services/nlpTickerService';
+import { TickerIntent, TickerQuery } from '@/types';
 
 // Enhanced custom styles for premium UI
 const scrollbarStyles = `
@@ -652,6 +654,8 @@ ${validatedQuote.change >= 0 ? '📈' : '📉'} **Change:** ${validatedQuote.cha
 
 💡 **Try these commands:**
 • "AAPL stock" or "What's Tesla price?"
+• "How's Microsoft doing?" or "News on Google"
+• "Alert me when TSLA drops below 200"
 • "How to add stocks" or "Show me reports"
 • "Market trends" or "Investment tips"
 • "Help" for this menu
@@ -779,41 +783,93 @@ This is a comprehensive stock market analysis platform featuring:
 Try asking about specific features or stock symbols!`;
   };
 
-  const processMessage = async (message: string): Promise<string> => {
-    const lowerMessage = message.toLowerCase();
+  const processNewsQuery = async (ticker: string): Promise<string> => {
+    try {
+      const response = await fetch(`/api/news/sentiment?symbol=${encodeURIComponent(ticker)}&days=7`);
+      if (!response.ok) {
+        return response.status === 429
+          ? `❌ Sorry, we've hit the API rate limit for "${ticker}" news. Please wait a moment and try again.`
+          : `❌ Sorry, I couldn't load news for "${ticker}". Please try again later.`;
+      }
 
-    // Check for stock ticker patterns (common stock symbols)
-    const stockPattern = /\b[A-Z]{1,5}\b/g;
-    const potentialTickers = message.match(stockPattern);
+      const { data } = await response.json();
+      if (!data || data.articleCount === 0) {
+        return `📰 I found no news for **${ticker}** in the last 7 days.`;
+      }
 
-    if (potentialTickers) {
-      // Filter for likely stock tickers (2-5 characters, all caps)
-      const validTickers = potentialTickers.filter(ticker =>
-        ticker.length >= 2 && ticker.length <= 5 && ticker === ticker.toUpperCase()
-      );
+      const icon = (label: string) => label === 'positive' ? '🟢' : label === 'negative' ? '🔴' : '⚪';
+      const headlines = data.articles
+        .slice(0, 3)
+        .map((article: { headline: string; sentiment: { label: string } }) => `${icon(article.sentiment.label)} ${article.headline}`)
+        .join('\n');
 
-      if (validTickers.length > 0) {
-        const ticker = validTickers[0];
-        return await processStockQuery(ticker);
-      }
+      return `📰 **${ticker}** News Sentiment (7 days):
+
+${icon(data.label)} **Overall:** ${data.label} (${data.score >= 0 ? '+' : ''}${data.score.toFixed(2)}, ${Math.round(data.confidence * 100)}% confidence)
+🗞️ **Articles:** ${data.articleCount}
+
+${headlines}`;
+    } catch (error) {
+      console.error('News query error:', error);
+      return `❌ Sorry, I encountered an error while fetching news for "${ticker}". Please try again later.`;
     }
+  };
 
-    // Check for stock-related keywords
-    if (lowerMessage.includes('stock') || lowerMessage.includes('price') ||
-        lowerMessage.includes('quote') || lowerMessage.includes('market')) {
-      // Extract potential ticker from common patterns
-      const tickerPatterns = [
-        /what.?s (?:the )?(?:price|stock|quote) (?:of|for) ([A-Z]{1,5})/i,
-        /([A-Z]{1,5}) (?:stock|price|quote)/i,
-        /(?:tell me about|show me) ([A-Z]{1,5})/i
-      ];
-
-      for (const pattern of tickerPatterns) {
-        const match = message.match(pattern);
-        if (match && match[1]) {
-          return await processStockQuery(match[1]);
-        }
-      }
+  const describeAlert = (ticker: string, intent: TickerIntent): string => {
+    const condition = intent.condition;
+    const target = condition
+      ? `${condition.direction === 'below' ? 'drops below' : condition.direction === 'above' ? 'rises above' : 'reaches'} **$${condition.price.toFixed(2)}**`
+      : 'reaches your target price';
+
+    return `🔔 **Alert for ${ticker}:**
+
+To get notified when **${ticker}** ${target}:
+1. **Open Alerts** in the sidebar
+2. **Create an alert** for ${ticker}
+3. **Set the ${condition?.direction === 'below' ? 'lower' : 'upper'} threshold**${condition ? ` to ${condition.price}` : ''}
+
+📱 Alerts are delivered in the app, by email or on WhatsApp.`;
+  };
+
+  const processTickerQuery = async ({ tickers, intents }: TickerQuery): Promise<string> => {
+    const symbols = tickers.slice(0, 3).map(mention => mention.symbol);
+    const [ticker] = symbols;
+    // Action intents ("alert me", "should I buy") take precedence over plain price questions
+    const intent = intents.find(candidate => candidate.type !== 'price' && candidate.type !== 'performance') ?? intents[0];
+
+    switch (intent?.type) {
+      case 'alert':
+        return describeAlert(ticker, intent);
+      case 'news':
+        return await processNewsQuery(ticker);
+      case 'watchlist':
+        return `➕ **Adding ${ticker} to Your Watchlist:**
+
+1. **Open the Watchlist** in the dashboard
+2. **Search for ${ticker}** by ticker or company name
+3. **Click Add** to start tracking it`;
+      case 'buy':
+      case 'sell':
+        return `${await processStockQuery(ticker)}
+
+⚠️ I can't tell you whether to ${intent.type} **${ticker}**. Check the analytics, news sentiment and your own risk tolerance before trading.`;
+      default:
+        return (await Promise.all(symbols.map(symbol => processStockQuery(symbol)))).join('\n\n');
+    }
+  };
+
+  const processMessage = async (message: string): Promise<string> => {
+    const lowerMessage = message.toLowerCase();
+
+    // Tickers and what is asked about them ("how's Microsoft doing?", "alert me when TSLA drops below 200")
+    const query = nlpTickerService.parse(message);
+    if (query.tickers.length > 0) {
+      return await processTickerQuery(query);
+    }
+
+    // A stock question without a recognisable stock
+    if (query.intents.some(intent => ['price', 'performance', 'buy', 'sell', 'news'].includes(intent.type))) {
+      return `🔎 Which stock do you mean? Try a ticker like **AAPL** or a company name, e.g. "How's Microsoft doing?"`;
     }
 
     // Website information queries
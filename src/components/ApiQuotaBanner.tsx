@@ -1,6 +1,6 @@
 /**
  * API Quota Status Banner Component
- * Shows quota usage and displays warnings when limits are reached
+ * Shows quota usage, the features consuming it and warnings when limits are reached
  */
 
 'use client';
@@ -18,6 +18,7 @@ import {
   Download,
   FileText
 } from 'lucide-react';
+import { UsageBreakdownRow } from '@/types';
 
 interface QuotaStatus {
   quotaUsed: number;
@@ -28,6 +29,16 @@ interface QuotaStatus {
   lastUpdated: string;
 }
 
+// Last hour of the usage ledger, as reported by /api/finnhub/status
+interface UsageSummary {
+  calls: number;
+  cacheHits: number;
+  cacheHitRate: number;
+  breakdown: {
+    feature?: UsageBreakdownRow[];
+  };
+}
+
 interface ApiQuotaBannerProps {
   className?: string;
   showAlways?: boolean; // If true, always show the banner, otherwise only show when there are issues
@@ -35,6 +46,7 @@ interface ApiQuotaBannerProps {
 
 export default function ApiQuotaBanner({ className = '', showAlways = false }: ApiQuotaBannerProps) {
   const [quotaStatus, setQuotaStatus] = useState<QuotaStatus | null>(null);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
   const [isVisible, setIsVisible] = useState(false);
   const [isDismissed, setIsDismissed] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -60,6 +72,7 @@ export default function ApiQuotaBanner({ className = '', showAlways = false }: A
             isLimitReached: data.data.quota.isLimitReached,
             lastUpdated: data.data.quota.lastUpdated
           });
+          setUsage(data.data.usage || null);
         } else {
           console.warn('Invalid API response structure:', data);
           setHasError(true);
@@ -79,13 +92,15 @@ export default function ApiQuotaBanner({ className = '', showAlways = false }: A
   };
 
   // Export quota usage reports
-  const exportReport = async (format: 'csv' | 'pdf', days: number = 30) => {
+  const exportReport = async (format: 'csv' | 'json' | 'pdf', days: number = 30) => {
     setIsExporting(true);
     try {
-      const response = await fetch(`/api/finnhub/export?format=${format}&days=${days}`, {
+      // JSON exports are split per feature so the file shows who spent the quota
+      const groupBy = format === 'json' ? '&groupBy=feature' : '';
+      const response = await fetch(`/api/finnhub/export?format=${format}&days=${days}${groupBy}`, {
         method: 'GET',
         headers: {
-          'Accept': format === 'csv' ? 'text/csv' : 'application/pdf'
+          'Accept': format === 'csv' ? 'text/csv' : format === 'json' ? 'application/json' : 'application/pdf'
         }
       });
 
@@ -314,6 +329,15 @@ export default function ApiQuotaBanner({ className = '', showAlways = false }: A
                   </div>
                 </div>
               )}
+
+              {usage && usage.calls + usage.cacheHits > 0 && (
+                <p className={`text-xs ${style.textColor} mt-2 opacity-80`}>
+                  Last hour: {(usage.breakdown.feature || []).slice(0, 3)
+                    .map(row => `${row.key} ${row.calls} (${Math.round(row.share * 100)}%)`)
+                    .join(' · ') || 'no upstream calls'}
+                  {' · '}cache hit rate {Math.round(usage.cacheHitRate * 100)}%
+                </p>
+              )}
             </div>
           </div>
 
@@ -363,6 +387,15 @@ export default function ApiQuotaBanner({ className = '', showAlways = false }: A
                     <FileText className="h-4 w-4" />
                     <span>CSV - Last 30 days</span>
                   </button>
+
+                  <button
+                    onClick={() => exportReport('json', 30)}
+                    disabled={isExporting}
+                    className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center space-x-2"
+                  >
+                    <FileText className="h-4 w-4" />
+                    <span>JSON - Last 30 days by feature</span>
+                  </button>
                   
                   <button
                     onClick={() => exportReport('pdf', 7)}
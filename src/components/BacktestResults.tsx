@@ -0,0 +1,316 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { BacktestResult, BacktestStrategy } from '@/types';
+
+interface BacktestResultsProps {
+  ticker: string;
+  days?: number;
+  defaultStrategy?: string;
+}
+
+// Fewer closed trades than this is too small a sample to judge a strategy
+const MIN_VALIDATING_TRADES = 5;
+
+const BacktestResults: React.FC<BacktestResultsProps> = ({
+  ticker,
+  days = 730,
+  defaultStrategy = 'signal-consensus',
+}) => {
+  const [strategies, setStrategies] = useState<BacktestStrategy[]>([]);
+  const [strategyId, setStrategyId] = useState(defaultStrategy);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showTrades, setShowTrades] = useState(false);
+
+  // Load preset strategies once
+  useEffect(() => {
+    fetch('/api/backtest')
+      .then(response => response.json())
+      .then(body => {
+        if (body.success) setStrategies(body.data.strategies);
+      })
+      .catch(err => console.error('Error loading backtest strategies:', err));
+  }, []);
+
+  const runBacktest = useCallback(async () => {
+    if (!ticker || ticker.trim() === '') {
+      setError('Invalid ticker symbol');
+      setResult(null);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/backtest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ symbol: ticker, days, strategy: strategyId }),
+      });
+      const body = await response.json();
+
+      if (!response.ok || !body.success) {
+        throw new Error(body.error || `Backtest failed: ${response.statusText}`);
+      }
+      setResult(body.data);
+    } catch (err) {
+      console.error('Error running backtest:', err);
+      setError(err instanceof Error ? err.message : 'Failed to run backtest');
+      setResult(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ticker, days, strategyId]);
+
+  useEffect(() => {
+    runBacktest();
+  }, [runBacktest]);
+
+  // Format percentage with color
+  const formatPercentage = (value: number, showSign: boolean = true) => {
+    const formatted = `${showSign && value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+    const colorClass = value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : 'text-gray-600';
+    return { formatted, colorClass };
+  };
+
+  const formatCurrency = (value: number) =>
+    `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const formatDate = (timestamp: string) => new Date(timestamp).toLocaleDateString();
+
+  // Whether the strategy earned its place next to the live signals
+  const getVerdict = (backtest: BacktestResult) => {
+    const { metrics } = backtest;
+    if (metrics.trades < MIN_VALIDATING_TRADES) {
+      return {
+        label: 'Not validated',
+        detail: `Only ${metrics.trades} trade${metrics.trades === 1 ? '' : 's'} in the test period; too few to judge these signals.`,
+        className: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300',
+      };
+    }
+    if (metrics.totalReturn > metrics.buyAndHoldReturn && metrics.sharpeRatio > 0) {
+      return {
+        label: 'Validated',
+        detail: 'The signals beat buying and holding over the test period after costs.',
+        className: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200',
+      };
+    }
+    return {
+      label: 'Underperformed',
+      detail: 'Buying and holding did better than following these signals over the test period.',
+      className: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200',
+    };
+  };
+
+  const header = (
+    <div className="flex items-center justify-between mb-6">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+        Signal Backtest - {ticker}
+      </h3>
+      <select
+        value={strategyId}
+        onChange={(event) => setStrategyId(event.target.value)}
+        className="px-3 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+      >
+        {(strategies.length > 0 ? strategies : [{ id: strategyId, name: strategyId } as BacktestStrategy]).map(strategy => (
+          <option key={strategy.id} value={strategy.id}>{strategy.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6">
+        {header}
+        <div className="h-96 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mr-3"></div>
+          <div className="text-gray-500 dark:text-gray-400">Replaying signals...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !result) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6">
+        {header}
+        <div className="h-96 flex flex-col items-center justify-center">
+          <div className="text-red-500 dark:text-red-400 text-center mb-3">
+            <p className="mb-2">Failed to run backtest</p>
+            {error && <p className="text-sm">{error}</p>}
+          </div>
+          <button
+            onClick={runBacktest}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { metrics } = result;
+  const verdict = getVerdict(result);
+  const equityData = result.equityCurve.map(point => ({
+    date: formatDate(point.timestamp),
+    equity: point.equity,
+    drawdown: point.drawdown,
+  }));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6">
+      {header}
+
+      {/* Verdict */}
+      <div className={`p-3 rounded-lg mb-6 text-sm ${verdict.className}`}>
+        <span className="font-semibold mr-2">{verdict.label}</span>
+        {verdict.detail}
+        {result.strategy.description && (
+          <div className="mt-1 text-xs opacity-80">{result.strategy.description}</div>
+        )}
+      </div>
+
+      {/* Key Stats Row */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <div className="text-sm text-gray-600 dark:text-gray-400">Total Return</div>
+          <div className={`text-lg font-semibold ${formatPercentage(metrics.totalReturn).colorClass}`}>
+            {formatPercentage(metrics.totalReturn).formatted}
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Buy & hold {formatPercentage(metrics.buyAndHoldReturn).formatted}
+          </div>
+        </div>
+
+        <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <div className="text-sm text-gray-600 dark:text-gray-400">CAGR</div>
+          <div className={`text-lg font-semibold ${formatPercentage(metrics.cagr).colorClass}`}>
+            {formatPercentage(metrics.cagr).formatted}
+          </div>
+        </div>
+
+        <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <div className="text-sm text-gray-600 dark:text-gray-400">Max Drawdown</div>
+          <div className="text-lg font-semibold text-red-600">
+            {metrics.maxDrawdown.toFixed(2)}%
+          </div>
+        </div>
+
+        <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <div className="text-sm text-gray-600 dark:text-gray-400">Sharpe Ratio</div>
+          <div className="text-lg font-semibold text-gray-900 dark:text-white">
+            {metrics.sharpeRatio.toFixed(2)}
+          </div>
+        </div>
+      </div>
+
+      {/* Equity Curve */}
+      <div className="h-64 mb-6">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={equityData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+            <XAxis dataKey="date" stroke="#666" tick={{ fontSize: 12 }} minTickGap={40} />
+            <YAxis stroke="#666" tick={{ fontSize: 12 }} domain={['auto', 'auto']} />
+            <Tooltip
+              formatter={(value: number, name: string) => name === 'equity'
+                ? [formatCurrency(value), 'Equity']
+                : [`${value.toFixed(2)}%`, 'Drawdown']}
+            />
+            <Area type="monotone" dataKey="equity" stroke="#2563eb" fill="#2563eb" fillOpacity={0.15} />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Detailed Metrics */}
+      <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm mb-4">
+          <div>
+            <span className="text-gray-600 dark:text-gray-400">Trades: </span>
+            <span className="font-medium">{metrics.trades}</span>
+          </div>
+          <div>
+            <span className="text-gray-600 dark:text-gray-400">Win Rate: </span>
+            <span className="font-medium">{metrics.winRate.toFixed(1)}%</span>
+          </div>
+          <div>
+            <span className="text-gray-600 dark:text-gray-400">Profit Factor: </span>
+            <span className="font-medium">{metrics.profitFactor !== null ? metrics.profitFactor.toFixed(2) : '—'}</span>
+          </div>
+          <div>
+            <span className="text-gray-600 dark:text-gray-400">Exposure: </span>
+            <span className="font-medium">{metrics.exposure.toFixed(1)}%</span>
+          </div>
+          <div>
+            <span className="text-gray-600 dark:text-gray-400">Period: </span>
+            <span className="font-medium">{formatDate(result.from)} – {formatDate(result.to)}</span>
+          </div>
+          <div>
+            <span className="text-gray-600 dark:text-gray-400">Costs: </span>
+            <span className="font-medium">
+              {formatCurrency(result.config.commissionPerTrade)} + {result.config.commissionPercent}% / fill, {result.config.slippageBps} bps slippage
+            </span>
+          </div>
+        </div>
+
+        <button
+          onClick={() => setShowTrades(!showTrades)}
+          className="px-3 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+        >
+          {showTrades ? 'Hide trades' : `Show ${result.trades.length} trades`}
+        </button>
+
+        {showTrades && (
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-600 dark:text-gray-400">
+                  <th className="py-1 pr-3">Entry</th>
+                  <th className="py-1 pr-3">Exit</th>
+                  <th className="py-1 pr-3 text-right">Shares</th>
+                  <th className="py-1 pr-3 text-right">Entry $</th>
+                  <th className="py-1 pr-3 text-right">Exit $</th>
+                  <th className="py-1 pr-3 text-right">P&L</th>
+                  <th className="py-1 pr-3 text-right">Return</th>
+                  <th className="py-1">Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.trades.map((trade, index) => (
+                  <tr key={index} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="py-1 pr-3">{formatDate(trade.entryTime)}</td>
+                    <td className="py-1 pr-3">{formatDate(trade.exitTime)}</td>
+                    <td className="py-1 pr-3 text-right">{trade.shares}</td>
+                    <td className="py-1 pr-3 text-right">{trade.entryPrice.toFixed(2)}</td>
+                    <td className="py-1 pr-3 text-right">{trade.exitPrice.toFixed(2)}</td>
+                    <td className={`py-1 pr-3 text-right ${formatPercentage(trade.pnl).colorClass}`}>{formatCurrency(trade.pnl)}</td>
+                    <td className={`py-1 pr-3 text-right ${formatPercentage(trade.returnPercent).colorClass}`}>
+                      {formatPercentage(trade.returnPercent).formatted}
+                    </td>
+                    <td className="py-1 text-gray-600 dark:text-gray-400">{trade.entryReason} → {trade.exitReason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BacktestResults;
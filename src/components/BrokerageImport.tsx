@@ -0,0 +1,408 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FileUp, Loader2, X } from 'lucide-react';
+import { useTheme } from '@/contexts/ThemeContext';
+import {
+  applyResolvedTickers,
+  BUILT_IN_IMPORT_PROFILES,
+  csvHeaders,
+  DEFAULT_IMPORT_ACTIONS,
+  detectImportProfile,
+  isOfx,
+  parseCsvStatement,
+  parseOfxStatement,
+  previewImport,
+  tickerLookupKey
+} from '@/services/brokerageImport';
+import { safeStorage } from '@/services/safeStorage';
+import { stockSearchService } from '@/services/stockSearchService';
+import {
+  BrokerageImportProfile,
+  ImportDateFormat,
+  ImportedTransaction,
+  ImportField,
+  ImportPreview,
+  ImportRowStatus,
+  LedgerTransaction,
+  LotMethod,
+  ParsedStatement
+} from '@/types';
+
+interface BrokerageImportProps {
+  userId: string;
+  transactions: LedgerTransaction[]; // The ledger the statement is matched against
+  lotMethod: LotMethod;
+  onImport: (transactions: ImportedTransaction[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+// Matches the ledger API's batch limit
+const IMPORT_BATCH = 500;
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  date: 'Date',
+  action: 'Action',
+  symbol: 'Symbol',
+  description: 'Description',
+  quantity: 'Quantity',
+  price: 'Price',
+  amount: 'Amount',
+  fees: 'Fees',
+  costBasis: 'Cost basis',
+  externalId: 'Transaction ID',
+};
+
+const KIND_FIELDS: Record<BrokerageImportProfile['kind'], ImportField[]> = {
+  transactions: ['date', 'action', 'symbol', 'description', 'quantity', 'price', 'amount', 'fees', 'externalId'],
+  positions: ['symbol', 'description', 'quantity', 'costBasis'],
+};
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: 'New',
+  duplicate: 'Already recorded',
+  skipped: 'Skipped',
+};
+
+const describe = (transaction: ImportedTransaction) => {
+  switch (transaction.type) {
+    case 'buy':
+    case 'sell':
+      return `${transaction.type === 'buy' ? 'Buy' : 'Sell'} ${transaction.quantity} @ $${transaction.price?.toFixed(2)}`;
+    case 'transfer':
+      return `Transfer ${transaction.direction} ${transaction.quantity} @ $${transaction.price?.toFixed(2)}`;
+    case 'split':
+      return `Split ${transaction.ratio}-for-1`;
+    default:
+      return `${transaction.type === 'dividend' ? 'Dividend' : 'Fee'} $${transaction.amount?.toFixed(2)}`;
+  }
+};
+
+const BrokerageImport: React.FC<BrokerageImportProps> = ({ userId, transactions, lotMethod, onImport, onClose }) => {
+  const { theme } = useTheme();
+  const profilesKey = `import_profiles_${userId}`;
+  const [customProfiles, setCustomProfiles] = useState<BrokerageImportProfile[]>(() => safeStorage.getJSON(profilesKey, []));
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [profileId, setProfileId] = useState<string>('');
+  const [asOf, setAsOf] = useState(new Date().toISOString().slice(0, 10));
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ImportRowStatus | 'all'>('all');
+  const [editor, setEditor] = useState<BrokerageImportProfile | null>(null);
+  const resolvedTickers = useRef(new Map<string, string | null>());
+
+  const profiles = useMemo(() => [...customProfiles, ...BUILT_IN_IMPORT_PROFILES], [customProfiles]);
+  const profile = profiles.find(candidate => candidate.id === profileId) ?? null;
+  const ofx = file ? isOfx(file.text) : false;
+
+  const panelClass = theme === 'dark' ? 'bg-slate-900 border border-slate-700' : 'bg-white border border-slate-200';
+  const mutedText = theme === 'dark' ? 'text-slate-400' : 'text-slate-500';
+  const strongText = theme === 'dark' ? 'text-white' : 'text-slate-900';
+  const rowBorder = theme === 'dark' ? 'border-slate-800' : 'border-slate-100';
+  const inputClass = `px-3 py-2 rounded-lg text-sm ${theme === 'dark' ? 'bg-slate-800 border border-slate-700 text-white' : 'bg-white border border-slate-300 text-slate-900'}`;
+
+  const saveProfiles = (next: BrokerageImportProfile[]) => {
+    setCustomProfiles(next);
+    safeStorage.setJSON(profilesKey, next);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    const text = await selected.text();
+    setFile({ name: selected.name, text });
+    setMessage(null);
+    setEditor(null);
+    if (!isOfx(text)) {
+      setProfileId(detectImportProfile(text, profiles)?.id ?? '');
+    }
+  };
+
+  // Parse the statement, then look up every symbol once so tickers match the rest of the app
+  useEffect(() => {
+    setStatement(null);
+    setError(null);
+    if (!file || (!ofx && !profile)) return;
+
+    let parsed: ParsedStatement;
+    try {
+      parsed = ofx ? parseOfxStatement(file.text) : parseCsvStatement(file.text, profile!, { asOf });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the statement');
+      return;
+    }
+
+    let cancelled = false;
+    const resolve = async () => {
+      setIsResolving(true);
+      for (const row of parsed.rows) {
+        const key = tickerLookupKey(row);
+        if (!row.transaction || !key || resolvedTickers.current.has(key)) continue;
+        resolvedTickers.current.set(key, await stockSearchService.resolveTicker(row.symbol ?? '', row.description));
+        if (cancelled) return;
+      }
+      if (!cancelled) {
+        setStatement(applyResolvedTickers(parsed, resolvedTickers.current));
+        setIsResolving(false);
+      }
+    };
+    resolve();
+
+    return () => {
+      cancelled = true;
+      setIsResolving(false);
+    };
+  }, [file, ofx, profile, asOf]);
+
+  const preview: ImportPreview | null = useMemo(
+    () => (statement ? previewImport(statement, transactions, lotMethod) : null),
+    [statement, transactions, lotMethod]
+  );
+
+  const counts = useMemo(() => {
+    const totals: Record<ImportRowStatus, number> = { new: 0, duplicate: 0, skipped: 0 };
+    preview?.rows.forEach(row => { totals[row.status] += 1; });
+    return totals;
+  }, [preview]);
+
+  const handleImport = async () => {
+    if (!preview || preview.transactions.length === 0 || preview.error) return;
+    setIsImporting(true);
+    setMessage(null);
+
+    // Batches go in date order, so every batch only sells what earlier ones bought
+    let recorded = 0;
+    for (let start = 0; start < preview.transactions.length; start += IMPORT_BATCH) {
+      const batch = preview.transactions.slice(start, start + IMPORT_BATCH);
+      if (!(await onImport(batch))) break;
+      recorded += batch.length;
+    }
+
+    setIsImporting(false);
+    setMessage(recorded === preview.transactions.length
+      ? `Recorded ${recorded} transaction${recorded === 1 ? '' : 's'} from ${file?.name}.`
+      : `Recorded ${recorded} of ${preview.transactions.length} transactions; importing the file again picks up the rest.`);
+  };
+
+  const startProfile = () => {
+    setEditor({
+      id: `custom_${Date.now()}`,
+      name: file ? file.name.replace(/\.[^.]+$/, '') : 'My brokerage',
+      kind: profile?.kind ?? 'transactions',
+      dateFormat: profile?.dateFormat ?? 'MM/DD/YYYY',
+      columns: profile ? { ...profile.columns } : {},
+      actions: DEFAULT_IMPORT_ACTIONS,
+    });
+  };
+
+  const saveEditor = () => {
+    if (!editor) return;
+    const saved = { ...editor, builtIn: false };
+    saveProfiles([saved, ...customProfiles.filter(existing => existing.id !== saved.id)]);
+    setProfileId(saved.id);
+    setEditor(null);
+  };
+
+  const headers = useMemo(() => {
+    if (!file || ofx) return [];
+    const mapped = profile ? csvHeaders(file.text, profile) : [];
+    return mapped.length > 0 ? mapped : csvHeaders(file.text);
+  }, [file, ofx, profile]);
+  const visibleRows = preview ? preview.rows.filter(row => statusFilter === 'all' || row.status === statusFilter) : [];
+
+  return (
+    <div className={`rounded-lg p-6 space-y-4 ${panelClass}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <FileUp className="w-5 h-5 text-blue-500" />
+          <h3 className={`text-lg font-semibold ${strongText}`}>Import Brokerage Statement</h3>
+        </div>
+        <button type="button" onClick={onClose} className={`p-1 ${mutedText} hover:text-red-500`} aria-label="Close import">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* File and profile */}
+      <div className="flex flex-wrap items-center gap-3">
+        <input type="file" accept=".csv,.txt,.ofx,.qfx" onChange={handleFile} className={`text-sm ${mutedText}`} />
+        {file && !ofx && (
+          <>
+            <select value={profileId} onChange={(event) => setProfileId(event.target.value)} className={inputClass}>
+              <option value="">Choose a format…</option>
+              {profiles.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+            {profile?.kind === 'positions' && (
+              <label className={`flex items-center space-x-2 text-sm ${mutedText}`}>
+                <span>Positions as of</span>
+                <input type="date" value={asOf} onChange={(event) => setAsOf(event.target.value)} className={inputClass} />
+              </label>
+            )}
+            <button type="button" onClick={startProfile} className="text-sm text-blue-500 hover:underline">
+              Map columns…
+            </button>
+            {profile && !profile.builtIn && (
+              <button
+                type="button"
+                onClick={() => {
+                  saveProfiles(customProfiles.filter(existing => existing.id !== profile.id));
+                  setProfileId('');
+                }}
+                className="text-sm text-red-500 hover:underline"
+              >
+                Delete format
+              </button>
+            )}
+          </>
+        )}
+        {file && ofx && <span className={`text-sm ${mutedText}`}>OFX statement</span>}
+      </div>
+
+      {/* Column mapping */}
+      {editor && (
+        <div className={`rounded-lg p-4 border space-y-3 ${theme === 'dark' ? 'border-slate-700' : 'border-slate-200'}`}>
+          <div className="flex flex-wrap gap-3">
+            <input
+              value={editor.name}
+              onChange={(event) => setEditor({ ...editor, name: event.target.value })}
+              placeholder="Format name"
+              className={inputClass}
+            />
+            <select
+              value={editor.kind}
+              onChange={(event) => setEditor({ ...editor, kind: event.target.value as BrokerageImportProfile['kind'] })}
+              className={inputClass}
+            >
+              <option value="transactions">Transaction history</option>
+              <option value="positions">Positions</option>
+            </select>
+            {editor.kind === 'transactions' && (
+              <select
+                value={editor.dateFormat}
+                onChange={(event) => setEditor({ ...editor, dateFormat: event.target.value as ImportDateFormat })}
+                className={inputClass}
+              >
+                <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+              </select>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {KIND_FIELDS[editor.kind].map(field => (
+              <label key={field} className={`flex items-center justify-between space-x-2 text-sm ${mutedText}`}>
+                <span>{FIELD_LABELS[field]}</span>
+                <select
+                  value={editor.columns[field]?.find(column => headers.includes(column)) ?? ''}
+                  onChange={(event) => setEditor({
+                    ...editor,
+                    columns: { ...editor.columns, [field]: event.target.value ? [event.target.value] : [] },
+                  })}
+                  className={`${inputClass} w-44`}
+                >
+                  <option value="">—</option>
+                  {headers.map(header => (
+                    <option key={header} value={header}>{header}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={saveEditor}
+              disabled={!editor.name.trim()}
+              className="px-4 py-2 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save format
+            </button>
+            <button type="button" onClick={() => setEditor(null)} className={`px-4 py-2 rounded-lg text-sm ${mutedText}`}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+      {file && !ofx && !profile && !editor && (
+        <div className={`text-sm ${mutedText}`}>The file&apos;s columns were not recognised. Choose a format or map the columns.</div>
+      )}
+      {isResolving && (
+        <div className={`flex items-center space-x-2 text-sm ${mutedText}`}>
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Matching symbols…</span>
+        </div>
+      )}
+
+      {/* Preview */}
+      {preview && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {(['all', 'new', 'duplicate', 'skipped'] as const).map(status => (
+              <button
+                key={status}
+                type="button"
+                onClick={() => setStatusFilter(status)}
+                className={`px-3 py-1 rounded-full ${statusFilter === status ? 'bg-blue-600 text-white' : theme === 'dark' ? 'bg-slate-800 text-slate-300' : 'bg-slate-100 text-slate-700'}`}
+              >
+                {status === 'all' ? `All ${preview.rows.length}` : `${STATUS_LABELS[status]} ${counts[status]}`}
+              </button>
+            ))}
+          </div>
+
+          {preview.changes.length > 0 && (
+            <div className="flex flex-wrap gap-2 text-sm">
+              {preview.changes.map(change => (
+                <span key={change.ticker} className={`px-2 py-1 rounded ${theme === 'dark' ? 'bg-slate-800 text-slate-200' : 'bg-slate-100 text-slate-800'}`}>
+                  <span className="font-semibold">{change.ticker}</span> {change.before} → {change.after} shares
+                </span>
+              ))}
+            </div>
+          )}
+
+          {preview.error && (
+            <div className="text-sm text-red-500">
+              {preview.error}. Import the statement that covers the earlier purchases first.
+            </div>
+          )}
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <tbody className={theme === 'dark' ? 'text-slate-200' : 'text-slate-800'}>
+                {visibleRows.map((row, index) => (
+                  <tr key={`${row.line}-${index}`} className={`border-b ${rowBorder}`}>
+                    <td className={`py-2 pr-4 ${mutedText}`}>{row.line}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">{row.transaction?.date ?? ''}</td>
+                    <td className="py-2 pr-4 font-semibold">{row.transaction?.ticker ?? row.symbol ?? ''}</td>
+                    <td className="py-2 pr-4">{row.transaction ? describe(row.transaction) : row.reason}</td>
+                    <td className={`py-2 text-right ${row.status === 'new' ? 'text-green-500' : mutedText}`}>{STATUS_LABELS[row.status]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className={`text-sm ${mutedText}`}>{message}</span>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isImporting || !!preview.error || preview.transactions.length === 0}
+              className="px-4 py-2 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isImporting ? 'Importing…' : `Import ${preview.transactions.length} transaction${preview.transactions.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      )}
+      {!preview && message && <div className={`text-sm ${mutedText}`}>{message}</div>}
+    </div>
+  );
+};
+
+export default BrokerageImport;
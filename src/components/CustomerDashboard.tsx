@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   TrendingUp, 
@@ -46,6 +46,9 @@ import Recommendations from './Recommendations';
 import Reports from './Reports';
 import NotificationSettingsPanel from './NotificationSettingsPanel';
 import StockAlertManager from './StockAlertManager';
+import StockScreener from './StockScreener';
+import EarningsCalendar from './EarningsCalendar';
+import TransactionLedger from './TransactionLedger';
 import WhatsAppHistory from './WhatsAppHistory';
 import RealtimePriceDisplay from './RealtimePriceDisplay';
 import CustomerLearningHub from './CustomerLearningHub';
@@ -65,6 +68,8 @@ import AIChatbot from './AIChatbot';
 // Import hooks and contexts
 import { useNotifications } from '@/contexts/NotificationContext';
 import { useRealtimePrices } from '@/hooks/useRealtimePrices';
+import { useTransactionLedger } from '@/hooks/useTransactionLedger';
+import { valueLedger } from '@/services/transactionLedger';
 import { useTheme } from '@/contexts/ThemeContext';
 
 // Import types
@@ -115,7 +120,7 @@ interface CustomerDashboardProps {
   className?: string;
 }
 
-type ActiveSection = 'dashboard' | 'insights' | 'historical' | 'recommendations' | 'reports' | 'notifications' | 'whatsapp' | 'ai-stories' | 'personality-match' | 'alerts' | 'watchlist' | 'realtime' | 'settings' | 'help' | 'learning' | 'news' | 'quiz';
+type ActiveSection = 'dashboard' | 'insights' | 'historical' | 'recommendations' | 'reports' | 'notifications' | 'whatsapp' | 'ai-stories' | 'personality-match' | 'alerts' | 'watchlist' | 'realtime' | 'settings' | 'help' | 'learning' | 'news' | 'quiz' | 'screener' | 'earnings' | 'transactions';
 
 // Generate mock notifications
 const generateMockNotifications = (): NotificationItem[] => {
@@ -187,9 +192,9 @@ export const CustomerDashboard: React.FC<CustomerDashboardProps> = ({
   const { theme, colors, toggleTheme, isTransitioning } = useTheme();
   
   // Existing Dashboard state
-  const { checkPriceAlerts, checkStockRecommendations } = useNotifications();
+  const { checkPriceAlerts, checkStockRecommendations, setEarningsReminderTickers } = useNotifications();
   const [activeSection, setActiveSection] = useState<ActiveSection>('dashboard');
-  const [stocks, setStocks] = useState<Stock[]>([]);
+  const [watchlist, setWatchlist] = useState<Stock[]>([]);
   const [portfolio, setPortfolio] = useState<Portfolio>({
     stocks: [],
     totalInvestment: 0,
@@ -210,6 +215,35 @@ export const CustomerDashboard: React.FC<CustomerDashboardProps> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [notifications, setNotifications] = useState<NotificationItem[]>(generateMockNotifications());
   const [refreshing, setRefreshing] = useState(false);
+  const [alertDraft, setAlertDraft] = useState<{ ticker: string; condition?: string } | null>(null);
+
+  // Positions come from the transaction ledger; the watchlist adds tickers that are not held
+  const {
+    transactions: ledgerTransactions,
+    lotMethod,
+    summary: ledgerBaseSummary,
+    isLoaded: ledgerLoaded,
+    error: ledgerError,
+    addTransactions,
+    removeTransaction,
+    setLotMethod
+  } = useTransactionLedger({ userId: user.id });
+
+  const stocks = useMemo<Stock[]>(() => {
+    const held: Stock[] = ledgerBaseSummary.holdings.map(holding => ({
+      id: `ledger_${holding.ticker}`,
+      userId: user.id,
+      ticker: holding.ticker,
+      buyDate: new Date(holding.firstAcquired),
+      buyPrice: holding.averageCost,
+      quantity: holding.quantity
+    }));
+    const heldTickers = new Set(held.map(stock => stock.ticker));
+    const watched = watchlist
+      .filter(stock => !heldTickers.has(stock.ticker))
+      .map(stock => ({ ...stock, quantity: 0 }));
+    return [...held, ...watched];
+  }, [ledgerBaseSummary, watchlist, user.id]);
 
   // Real-time prices hook
   const stockTickers = Array.from(new Set(stocks.map(stock => stock.ticker).filter(ticker => ticker && ticker.trim() !== '')));
@@ -222,6 +256,32 @@ export const CustomerDashboard: React.FC<CustomerDashboardProps> = ({
     autoConnect: stockTickers.length > 0 
   });
 
+  const ledgerSummary = useMemo(() => {
+    const latest = new Map<string, number>();
+    realtimePrices.forEach((data, ticker) => latest.set(ticker, data.price));
+    return valueLedger(ledgerBaseSummary, latest);
+  }, [ledgerBaseSummary, realtimePrices]);
+
+  // One-time import of positions recorded with a single buy price before the ledger existed
+  useEffect(() => {
+    if (!ledgerLoaded || ledgerTransactions.length > 0) return;
+    const importedKey = `ledger_imported_${user.id}`;
+    if (localStorage.getItem(importedKey)) return;
+    localStorage.setItem(importedKey, 'true');
+
+    const positions = watchlist.filter(stock => stock.buyPrice > 0 && stock.quantity > 0);
+    if (positions.length > 0) {
+      addTransactions(positions.map(stock => ({
+        type: 'buy',
+        ticker: stock.ticker,
+        date: new Date(stock.buyDate).toISOString().slice(0, 10),
+        quantity: stock.quantity,
+        price: stock.buyPrice,
+        note: 'Imported from watchlist'
+      })));
+    }
+  }, [ledgerLoaded, ledgerTransactions.length, watchlist, user.id, addTransactions]);
+
   // Load user data on mount
   useEffect(() => {
     loadUserStocks();
@@ -340,10 +400,16 @@ export const CustomerDashboard: React.FC<CustomerDashboardProps> = ({
     return () => clearInterval(interval);
   }, [stocks, checkPriceAlerts]);
 
+  // Pre-earnings reminders for held stocks are sent by the server; tell it what is held
+  const earningsTickers = stockTickers.join(',');
+  useEffect(() => {
+    setEarningsReminderTickers(earningsTickers ? earningsTickers.split(',') : []);
+  }, [earningsTickers, setEarningsReminderTickers]);
+
   const loadUserStocks = () => {
     if (typeof window === 'undefined') return; // SSR guard
     const userStocks = JSON.parse(localStorage.getItem(`stocks_${user.id}`) || '[]');
-    setStocks(userStocks);
+    setWatchlist(userStocks);
   };
 
   const calculatePortfolio = async () => {
@@ -423,8 +489,8 @@ export const CustomerDashboard: React.FC<CustomerDashboardProps> = ({
       quantity: 1
     };
 
-    const updatedStocks = [...stocks, stock];
-    setStocks(updatedStocks);
+    const updatedStocks = [...watchlist, stock];
+    setWatchlist(updatedStocks);
     localStorage.setItem(`stocks_${user.id}`, JSON.stringify(updatedStocks));
     setIsAddModalOpen(false); // Close the modal after adding
 
@@ -433,9 +499,9 @@ export const CustomerDashboard: React.FC<CustomerDashboardProps> = ({
   };
 
   const handleRemoveStock = async (stockId: string) => {
-    const stockToRemove = stocks.find(s => s.id === stockId);
-    const updatedStocks = stocks.filter(stock => stock.id !== stockId);
-    setStocks(updatedStocks);
+    const stockToRemove = watchlist.find(s => s.id === stockId);
+    const updatedStocks = watchlist.filter(stock => stock.id !== stockId);
+    setWatchlist(updatedStocks);
     localStorage.setItem(`stocks_${user.id}`, JSON.stringify(updatedStocks));
 
     // Log activity
@@ -465,6 +531,12 @@ export const CustomerDashboard: React.FC<CustomerDashboardProps> = ({
     }
   };
 
+  // Screener results open the alert builder prefilled with the stock and the screen's rule
+  const handleCreateAlertFromScreener = (ticker: string, condition?: string) => {
+    setAlertDraft({ ticker, condition });
+    handleSectionChange('alerts');
+  };
+
   const handleWatchToggle = (ticker: string) => {
     // This could be extended to manage a separate watchlist
     console.log('Toggle watch for:', ticker);
@@ -693,6 +765,7 @@ export const CustomerDashboard: React.FC<CustomerDashboardProps> = ({
         return (
           <StockInsights 
             stocks={stocks} 
+            holdings={ledgerSummary.holdings}
             onClose={() => handleSectionChange('dashboard')} 
           />
         );
@@ -714,6 +787,7 @@ export const CustomerDashboard: React.FC<CustomerDashboardProps> = ({
         return (
           <Reports 
             portfolio={portfolio}
+            ledger={{ transactions: ledgerTransactions, summary: ledgerSummary }}
           />
         );
 
@@ -747,6 +821,38 @@ export const CustomerDashboard: React.FC<CustomerDashboardProps> = ({
         return (
           <StockAlertManager 
             availableTickers={stocks.map(s => s.ticker)}
+            draft={alertDraft}
+          />
+        );
+
+      case 'screener':
+        return (
+          <StockScreener
+            watchlist={stocks.map(s => s.ticker)}
+            onAddToWatchlist={handleAddStock}
+            onCreateAlert={handleCreateAlertFromScreener}
+          />
+        );
+
+      case 'transactions':
+        return (
+          <TransactionLedger
+            userId={user.id}
+            transactions={ledgerTransactions}
+            summary={ledgerSummary}
+            lotMethod={lotMethod}
+            error={ledgerError}
+            onAddTransactions={addTransactions}
+            onRemoveTransaction={removeTransaction}
+            onLotMethodChange={setLotMethod}
+          />
+        );
+
+      case 'earnings':
+        return (
+          <EarningsCalendar
+            userId={user.id}
+            tickers={stockTickers}
           />
         );
 
@@ -932,7 +1038,7 @@ export const CustomerDashboard: React.FC<CustomerDashboardProps> = ({
                   ✕
                 </button>
               </div>
-              <StockInsights stocks={[selectedStock]} onClose={() => setSelectedStock(null)} />
+              <StockInsights stocks={[selectedStock]} holdings={ledgerSummary.holdings} onClose={() => setSelectedStock(null)} />
             </motion.div>
           </motion.div>
         )}
@@ -454,6 +454,9 @@ const CustomerNews: React.FC<CustomerNewsProps> = ({ currentUser, className = ''
                   <div className="flex items-center gap-3">
                     <span className={`px-3 py-1 rounded-full text-sm font-medium ${getSentimentColor(selectedArticle.sentiment)}`}>
                       {selectedArticle.sentiment}
+                      {selectedArticle.sentimentConfidence !== undefined && selectedArticle.sentimentConfidence > 0 && (
+                        <span className="ml-1 opacity-75">({Math.round(selectedArticle.sentimentConfidence * 100)}% confidence)</span>
+                      )}
                     </span>
                     <span className="text-sm text-slate-500">{selectedArticle.source}</span>
                   </div>
@@ -18,6 +18,7 @@ import {
   Plus
 } from 'lucide-react';
 import { User as UserType } from '@/types';
+import { marketCalendar } from '@/services/marketCalendar';
 
 interface DashboardHeaderProps {
   user: UserType;
@@ -55,13 +56,24 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({
     return () => clearInterval(timer);
   }, []);
 
-  const isMarketOpen = () => {
-    const now = new Date();
-    const hour = now.getHours();
-    const day = now.getDay();
-    // Simple market hours check (9:30 AM - 4:00 PM EST, Monday-Friday)
-    return day >= 1 && day <= 5 && hour >= 9 && hour < 16;
-  };
+  // US market session from the exchange calendar (holidays, early closes, extended hours)
+  const marketStatus = marketCalendar.getStatus(currentTime);
+  const formatMarketTime = (date: Date) => date.toLocaleString('en-US', {
+    timeZone: marketStatus.timeZone,
+    weekday: date.getTime() - currentTime.getTime() > 24 * 60 * 60 * 1000 ? 'short' : undefined,
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
+  const marketStatusLabel = {
+    regular: 'Open',
+    pre: 'Pre-market',
+    post: 'After hours',
+    closed: 'Closed'
+  }[marketStatus.session];
+  const marketStatusDetail = marketStatus.isOpen && marketStatus.nextClose
+    ? `${marketStatus.earlyClose ? 'Early close' : 'Closes'} ${formatMarketTime(marketStatus.nextClose)}`
+    : `${marketStatus.holiday ? `${marketStatus.holiday} · ` : ''}Opens ${formatMarketTime(marketStatus.nextOpen)}`;
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -100,7 +112,9 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({
     }
   };
 
-  const marketStatusColor = isMarketOpen() ? 'text-emerald-500' : 'text-orange-500';
+  const marketStatusColor = marketStatus.isOpen
+    ? 'text-emerald-500'
+    : marketStatus.session === 'closed' ? 'text-orange-500' : 'text-amber-500';
   const portfolioChangeColor = portfolioChange >= 0 ? 'text-emerald-500' : 'text-red-500';
 
   return (
@@ -161,10 +175,10 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({
                   <span className="text-xs text-slate-600 dark:text-slate-400">Market</span>
                 </div>
                 <div className={`font-medium ${marketStatusColor}`}>
-                  {isMarketOpen() ? 'Open' : 'Closed'}
+                  {marketStatusLabel}
                 </div>
                 <div className="text-xs text-slate-600 dark:text-slate-400">
-                  {isMarketOpen() ? 'Trading Now' : 'Opens 9:30 AM EST'}
+                  {marketStatusDetail}
                 </div>
               </div>
             </motion.div>
@@ -0,0 +1,255 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { CalendarDays, RefreshCw, X } from 'lucide-react';
+import { useTheme } from '@/contexts/ThemeContext';
+import { DEFAULT_EARNINGS_REMINDER_DAYS, useNotifications } from '@/contexts/NotificationContext';
+import { EarningsCalendar as EarningsCalendarData, EarningsCalendarEntry, EarningsHour, TickerEarnings } from '@/types';
+
+interface EarningsCalendarProps {
+  userId: string;
+  tickers: string[]; // Held and watched tickers; the user's monitored positions are added server-side
+}
+
+const WINDOWS = [7, 14, 30, 60, 90];
+
+const HOUR_LABELS: Record<EarningsHour, string> = {
+  bmo: 'Before open',
+  amc: 'After close',
+  dmh: 'During market',
+  unknown: 'Time TBA',
+};
+
+const formatEps = (value: number | null) => (value === null ? '—' : `$${value.toFixed(2)}`);
+
+const formatRevenue = (value: number | null) => {
+  if (value === null) return '—';
+  if (Math.abs(value) >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
+  if (Math.abs(value) >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
+  return `$${value.toLocaleString()}`;
+};
+
+const formatSurprise = (value: number | null) =>
+  value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const surpriseClass = (value: number | null) =>
+  value === null ? '' : value > 0 ? 'text-green-500' : value < 0 ? 'text-red-500' : '';
+
+const formatDay = (date: string) =>
+  new Date(`${date}T12:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const EarningsCalendar: React.FC<EarningsCalendarProps> = ({ userId, tickers }) => {
+  const { theme } = useTheme();
+  const { settings } = useNotifications();
+  const [days, setDays] = useState(30);
+  const [calendar, setCalendar] = useState<EarningsCalendarData | null>(null);
+  const [selected, setSelected] = useState<TickerEarnings | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const leadDays = settings?.earningsReminderDays ?? DEFAULT_EARNINGS_REMINDER_DAYS;
+  const tickerList = Array.from(new Set(tickers.map(ticker => ticker.toUpperCase()))).join(',');
+
+  const loadCalendar = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ userId, days: String(days) });
+      if (tickerList) params.set('symbols', tickerList);
+
+      const response = await fetch(`/api/earnings?${params}`);
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw new Error(body.error || `Failed to load earnings: ${response.statusText}`);
+      }
+      setCalendar(body.data);
+    } catch (err) {
+      console.error('Error loading earnings calendar:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load earnings calendar');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, days, tickerList]);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  const showHistory = async (symbol: string) => {
+    try {
+      const response = await fetch(`/api/earnings?symbol=${encodeURIComponent(symbol)}`);
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw new Error(body.error || `Failed to load ${symbol} earnings`);
+      }
+      setSelected(body.data);
+    } catch (err) {
+      console.error(`Error loading ${symbol} earnings history:`, err);
+      setError(err instanceof Error ? err.message : 'Failed to load earnings history');
+    }
+  };
+
+  const panelClass = theme === 'dark' ? 'bg-slate-900 border border-slate-700' : 'bg-white border border-slate-200';
+  const mutedText = theme === 'dark' ? 'text-slate-400' : 'text-slate-500';
+  const rowBorder = theme === 'dark' ? 'border-slate-800' : 'border-slate-100';
+
+  // Reports grouped by date, soonest first (entries arrive sorted)
+  const byDate = (calendar?.entries ?? []).reduce<Map<string, EarningsCalendarEntry[]>>((groups, entry) => {
+    groups.set(entry.date, [...(groups.get(entry.date) ?? []), entry]);
+    return groups;
+  }, new Map());
+
+  return (
+    <div className={`rounded-lg p-6 space-y-6 ${panelClass}`}>
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <CalendarDays className="w-5 h-5 text-blue-500" />
+          <h2 className={`text-xl font-bold ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>Earnings Calendar</h2>
+        </div>
+        <div className="flex items-center space-x-2">
+          {WINDOWS.map(window => (
+            <button
+              key={window}
+              type="button"
+              onClick={() => setDays(window)}
+              className={`px-3 py-1 rounded-full text-xs ${
+                days === window
+                  ? 'bg-blue-600 text-white'
+                  : theme === 'dark' ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+              }`}
+            >
+              {window}d
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={loadCalendar}
+            disabled={isLoading}
+            className={`p-2 rounded-lg ${mutedText} disabled:opacity-50`}
+            aria-label="Refresh earnings calendar"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      <p className={`text-sm ${mutedText}`}>
+        Upcoming reports for your stocks and monitored positions.
+        {settings?.enableEarningsReminders === false
+          ? ' Earnings reminders are off in notification settings.'
+          : ` You are reminded ${leadDays} trading day${leadDays === 1 ? '' : 's'} ahead.`}
+      </p>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+
+      {calendar && calendar.failed.length > 0 && (
+        <div className="text-xs text-amber-500">Could not load: {calendar.failed.join(', ')}</div>
+      )}
+
+      {/* Upcoming reports */}
+      {calendar && calendar.entries.length === 0 && !isLoading ? (
+        <div className={`text-center py-8 ${mutedText}`}>
+          {tickerList ? `None of your stocks report in the next ${days} days.` : 'Add stocks to see their upcoming earnings.'}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {Array.from(byDate.entries()).map(([date, entries]) => (
+            <div key={date}>
+              <div className={`text-sm font-semibold mb-2 ${theme === 'dark' ? 'text-slate-200' : 'text-slate-800'}`}>
+                {formatDay(date)}
+                <span className={`ml-2 font-normal ${mutedText}`}>
+                  {entries[0].daysUntil === 0 ? 'today' : entries[0].daysUntil === 1 ? 'tomorrow' : `in ${entries[0].daysUntil} days`}
+                </span>
+              </div>
+              <table className="w-full text-sm">
+                <tbody className={theme === 'dark' ? 'text-slate-200' : 'text-slate-800'}>
+                  {entries.map(entry => (
+                    <tr
+                      key={entry.symbol}
+                      onClick={() => showHistory(entry.symbol)}
+                      className={`border-b cursor-pointer ${rowBorder} ${theme === 'dark' ? 'hover:bg-slate-800' : 'hover:bg-slate-50'}`}
+                    >
+                      <td className="py-2 pr-4 font-semibold w-24">
+                        {entry.symbol}
+                        {entry.tradingDaysUntil <= leadDays && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] bg-amber-500/20 text-amber-500">Soon</span>
+                        )}
+                      </td>
+                      <td className={`py-2 pr-4 ${mutedText}`}>
+                        {HOUR_LABELS[entry.hour]}
+                        {entry.quarter && entry.year ? ` · Q${entry.quarter} ${entry.year}` : ''}
+                      </td>
+                      <td className="py-2 pr-4 whitespace-nowrap">EPS est. {formatEps(entry.epsEstimate)}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">Rev. est. {formatRevenue(entry.revenueEstimate)}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        Last surprise <span className={surpriseClass(entry.lastSurprisePercent)}>{formatSurprise(entry.lastSurprisePercent)}</span>
+                      </td>
+                      <td className={`py-2 text-right whitespace-nowrap ${mutedText}`}>
+                        {entry.beatRate === null ? '' : `Beat ${Math.round(entry.beatRate * 100)}% of quarters`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Surprise history of the selected ticker */}
+      {selected && (
+        <div className={`rounded-lg p-4 border ${theme === 'dark' ? 'border-slate-700' : 'border-slate-200'}`}>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className={`font-semibold ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>
+              {selected.symbol} earnings history
+              {selected.averageSurprisePercent !== null && (
+                <span className={`ml-2 text-sm font-normal ${mutedText}`}>
+                  average surprise ±{selected.averageSurprisePercent.toFixed(1)}%
+                </span>
+              )}
+            </h3>
+            <button type="button" onClick={() => setSelected(null)} className={`p-1 ${mutedText}`} aria-label="Close history">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {selected.history.length === 0 ? (
+            <div className={`text-sm ${mutedText}`}>No reported quarters on record.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className={`text-left border-b ${theme === 'dark' ? 'border-slate-700 text-slate-400' : 'border-slate-200 text-slate-500'}`}>
+                    <th className="py-2 pr-4 font-medium">Date</th>
+                    <th className="py-2 pr-4 font-medium">Quarter</th>
+                    <th className="py-2 pr-4 font-medium">EPS est.</th>
+                    <th className="py-2 pr-4 font-medium">EPS actual</th>
+                    <th className="py-2 pr-4 font-medium">Surprise</th>
+                    <th className="py-2 pr-4 font-medium">Revenue</th>
+                    <th className="py-2 font-medium">Rev. surprise</th>
+                  </tr>
+                </thead>
+                <tbody className={theme === 'dark' ? 'text-slate-200' : 'text-slate-800'}>
+                  {selected.history.map(event => (
+                    <tr key={event.date} className={`border-b ${rowBorder}`}>
+                      <td className="py-2 pr-4 whitespace-nowrap">{event.date}</td>
+                      <td className="py-2 pr-4">{event.quarter && event.year ? `Q${event.quarter} ${event.year}` : '—'}</td>
+                      <td className="py-2 pr-4">{formatEps(event.epsEstimate)}</td>
+                      <td className="py-2 pr-4">{formatEps(event.epsActual)}</td>
+                      <td className={`py-2 pr-4 ${surpriseClass(event.epsSurprisePercent)}`}>{formatSurprise(event.epsSurprisePercent)}</td>
+                      <td className="py-2 pr-4">{formatRevenue(event.revenueActual)}</td>
+                      <td className={`py-2 ${surpriseClass(event.revenueSurprisePercent)}`}>{formatSurprise(event.revenueSurprisePercent)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EarningsCalendar;
@@ -5,7 +5,7 @@
 
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   TrendingUp, 
@@ -23,6 +23,8 @@ import {
 import StockAutocomplete from './StockAutocomplete';
 import { FinnhubSearchResult } from '@/services/stockSearchService';
 import { useNotifications } from '@/contexts/NotificationContext';
+import { alignToBucket, resampleCandles } from '@/services/candleResampler';
+import { CorporateAction, IndicatorResult, PriceAdjustment } from '@/types';
 
 interface CandleData {
   timestamp: number;
@@ -40,8 +42,74 @@ interface HistoricalChartProps {
 }
 
 type TimeRange = '1D' | '1W' | '1M' | '6M' | '1Y' | '5Y';
+
+// Price-pane indicators that can be overlaid (specs as accepted by /api/finnhub/candle)
+const OVERLAY_OPTIONS: { spec: string; label: string }[] = [
+  { spec: 'sma:50', label: 'SMA 50' },
+  { spec: 'ema:20', label: 'EMA 20' },
+  { spec: 'bollinger', label: 'Bollinger' },
+  { spec: 'keltner', label: 'Keltner' },
+  { spec: 'donchian', label: 'Donchian' },
+  { spec: 'ichimoku', label: 'Ichimoku' },
+  { spec: 'vwap', label: 'VWAP' },
+];
 type ChartType = 'line' | 'candlestick';
 
+// Candle response from /api/finnhub/candle
+interface ChartSeries {
+  s: string;
+  t: number[];
+  o: number[];
+  h: number[];
+  l: number[];
+  c: number[];
+  v: number[];
+  corporateActions?: CorporateAction[];
+  indicators?: IndicatorResult[];
+}
+
+interface BaseSeries extends ChartSeries {
+  resolution: string;
+  fetchedAt: number;
+}
+
+// Displayed resolution per range and the base series it is cut from. One intraday and one
+// daily fetch cover every range, so switching ranges is resampled locally instead of
+// costing another request
+const RANGE_SERIES: Record<TimeRange, { resolution: string; base: string; baseDays: number }> = {
+  '1D': { resolution: '1', base: '1', baseDays: 1 },
+  '1W': { resolution: '5', base: '5', baseDays: 30 },
+  '1M': { resolution: '15', base: '5', baseDays: 30 },
+  '6M': { resolution: 'D', base: 'D', baseDays: 1825 },
+  '1Y': { resolution: 'W', base: 'D', baseDays: 1825 },
+  '5Y': { resolution: 'W', base: 'D', baseDays: 1825 },
+};
+const BASE_SERIES_TTL_MS = 5 * 60 * 1000;
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * The part of a base series inside [from, to], resampled to the displayed resolution
+ */
+function viewOfBase(base: BaseSeries, resolution: string, from: number, to: number): ChartSeries {
+  const start = alignToBucket(from, base.resolution, resolution);
+  const indices = base.t.map((_, i) => i).filter(i => base.t[i] >= start && base.t[i] <= to);
+  const pick = (values: number[]) => indices.map(i => values[i]);
+  const sliced = resampleCandles(
+    { s: 'ok', t: pick(base.t), o: pick(base.o), h: pick(base.h), l: pick(base.l), c: pick(base.c), v: pick(base.v) },
+    base.resolution,
+    resolution
+  );
+
+  return {
+    ...sliced,
+    // Ex-dates are whole days, so compare against the start of the first day shown
+    corporateActions: (base.corporateActions ?? []).filter(action => {
+      const time = Date.parse(`${action.exDate}T00:00:00Z`) / 1000;
+      return time >= start - (start % DAY_SECONDS) && time <= to;
+    })
+  };
+}
+
 interface ErrorState {
   message: string;
   type: 'network' | 'quota' | 'no-data' | 'api-error' | 'authentication' | 'unknown';
@@ -59,12 +127,17 @@ export default function HistoricalChart({ className = '', userId }: HistoricalCh
   });
   const [timeRange, setTimeRange] = useState<TimeRange>('1M');
   const [chartType, setChartType] = useState<ChartType>('line');
+  const [priceView, setPriceView] = useState<PriceAdjustment>('adjusted');
   const [candleData, setCandleData] = useState<CandleData[]>([]);
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([]);
+  const [overlays, setOverlays] = useState<string[]>([]);
+  const [indicatorResults, setIndicatorResults] = useState<IndicatorResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<ErrorState | null>(null);
   const [hoveredCandle, setHoveredCandle] = useState<CandleData | null>(null);
   const [retryCount, setRetryCount] = useState(0);
   const [lastFetchTime, setLastFetchTime] = useState<number | null>(null);
+  const baseSeries = useRef(new Map<string, BaseSeries>());
 
   const timeRanges: { key: TimeRange; label: string; days: number }[] = [
     { key: '1D', label: '1 Day', days: 1 },
@@ -83,7 +156,7 @@ export default function HistoricalChart({ className = '', userId }: HistoricalCh
     }
 
     fetchHistoricalData();
-  }, [selectedStock, timeRange]);
+  }, [selectedStock, timeRange, priceView, overlays]);
 
   const fetchHistoricalData = async () => {
     if (!selectedStock) return;
@@ -94,151 +167,176 @@ export default function HistoricalChart({ className = '', userId }: HistoricalCh
     try {
       const days = timeRanges.find(r => r.key === timeRange)?.days || 30;
       const toTimestamp = Math.floor(Date.now() / 1000);
-      const fromTimestamp = toTimestamp - (days * 24 * 60 * 60);
-
-      // Determine resolution based on time range
-      let resolution = 'D'; // Daily
-      if (days <= 1) resolution = '1';    // 1 minute
-      else if (days <= 7) resolution = '5';    // 5 minutes
-      else if (days <= 30) resolution = '15';   // 15 minutes
-      else if (days <= 180) resolution = 'D';   // Daily
-      else resolution = 'W'; // Weekly
-
-      const response = await fetch(`/api/finnhub/candle`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          symbol: selectedStock.symbol,
-          resolution,
-          from: fromTimestamp,
-          to: toTimestamp,
-        }),
-      });
-
-      if (!response.ok) {
-        if (response.status === 429) {
+      const fromTimestamp = toTimestamp - (days * DAY_SECONDS);
+
+      const range = RANGE_SERIES[timeRange];
+      // Overlays are computed server-side for the exact range; plain prices come from the
+      // cached base series and are resampled here
+      const useBase = overlays.length === 0;
+      const cacheKey = `${selectedStock.symbol}|${priceView}|${range.base}`;
+      const cached = useBase ? baseSeries.current.get(cacheKey) : undefined;
+
+      let data: ChartSeries | null = cached && Date.now() - cached.fetchedAt < BASE_SERIES_TTL_MS
+        ? viewOfBase(cached, range.resolution, fromTimestamp, toTimestamp)
+        : null;
+
+      if (!data) {
+        const response = await fetch(`/api/finnhub/candle`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            symbol: selectedStock.symbol,
+            resolution: useBase ? range.base : range.resolution,
+            from: useBase ? toTimestamp - range.baseDays * DAY_SECONDS : fromTimestamp,
+            to: toTimestamp,
+            adjusted: priceView === 'adjusted',
+            ...(overlays.length > 0 ? { indicators: overlays.join(',') } : {}),
+          }),
+        });
+
+        if (!response.ok) {
+          if (response.status === 429) {
+            const errorState: ErrorState = {
+              message: 'API quota exceeded. Please try again later.',
+              type: 'quota',
+              canRetry: true
+            };
+            setError(errorState);
+            
+            // Send notification for quota exceeded
+            if (userId) {
+              await addNotification({
+                userId,
+                title: 'API Quota Exceeded',
+                message: `Historical data request for ${selectedStock.symbol} failed due to API limits. Please wait before retrying.`,
+                type: 'WARNING'
+              });
+            }
+            return;
+          }
+          
+          if (response.status === 403) {
+            const errorData = await response.json().catch(() => ({}));
+            const errorState: ErrorState = {
+              message: errorData.message || 'Historical data access is restricted. Your API plan may not include candle data access.',
+              type: 'quota',
+              canRetry: false,
+              details: errorData.suggestion || 'Consider upgrading your Finnhub subscription for historical chart data.'
+            };
+            setError(errorState);
+            
+            // Send notification for forbidden access
+            if (userId) {
+              await addNotification({
+                userId,
+                title: 'Historical Data Access Restricted',
+                message: `${errorData.message || `Access to historical candle data for ${selectedStock.symbol} is not available with your current API plan.`} ${errorData.suggestion || 'Consider upgrading your Finnhub subscription for historical chart data.'}`,
+                type: 'WARNING'
+              });
+            }
+            return;
+          }
+          
+          if (response.status === 401) {
+            const errorState: ErrorState = {
+              message: 'API authentication failed. Please check your API configuration.',
+              type: 'authentication',
+              canRetry: false
+            };
+            setError(errorState);
+            
+            if (userId) {
+              await addNotification({
+                userId,
+                title: 'API Authentication Failed',
+                message: 'Unable to fetch historical data due to authentication issues.',
+                type: 'ERROR'
+              });
+            }
+            return;
+          }
+          
+          if (response.status >= 500) {
+            const errorState: ErrorState = {
+              message: 'Server error occurred. Please try again later.',
+              type: 'api-error',
+              canRetry: true
+            };
+            setError(errorState);
+            return;
+          }
+          
           const errorState: ErrorState = {
-            message: 'API quota exceeded. Please try again later.',
-            type: 'quota',
+            message: `Failed to fetch historical data (${response.status})`,
+            type: 'api-error',
             canRetry: true
           };
           setError(errorState);
-          
-          // Send notification for quota exceeded
-          if (userId) {
-            await addNotification({
-              userId,
-              title: 'API Quota Exceeded',
-              message: `Historical data request for ${selectedStock.symbol} failed due to API limits. Please wait before retrying.`,
-              type: 'WARNING'
-            });
-          }
           return;
         }
-        
-        if (response.status === 403) {
-          const errorData = await response.json().catch(() => ({}));
+
+        const payload = await response.json();
+
+        if (payload.s === 'no_data') {
           const errorState: ErrorState = {
-            message: errorData.message || 'Historical data access is restricted. Your API plan may not include candle data access.',
-            type: 'quota',
-            canRetry: false,
-            details: errorData.suggestion || 'Consider upgrading your Finnhub subscription for historical chart data.'
+            message: `No historical data available for ${selectedStock.symbol} in the selected time range.`,
+            type: 'no-data',
+            canRetry: false
           };
           setError(errorState);
           
-          // Send notification for forbidden access
           if (userId) {
             await addNotification({
               userId,
-              title: 'Historical Data Access Restricted',
-              message: `${errorData.message || `Access to historical candle data for ${selectedStock.symbol} is not available with your current API plan.`} ${errorData.suggestion || 'Consider upgrading your Finnhub subscription for historical chart data.'}`,
-              type: 'WARNING'
+              title: 'No Data Available',
+              message: `Historical data for ${selectedStock.symbol} is not available for the selected time period.`,
+              type: 'INFO'
             });
           }
           return;
         }
-        
-        if (response.status === 401) {
+
+        if (payload.s === 'error') {
           const errorState: ErrorState = {
-            message: 'API authentication failed. Please check your API configuration.',
-            type: 'authentication',
-            canRetry: false
+            message: 'Error occurred while fetching data from the API.',
+            type: 'api-error',
+            canRetry: true
           };
           setError(errorState);
-          
-          if (userId) {
-            await addNotification({
-              userId,
-              title: 'API Authentication Failed',
-              message: 'Unable to fetch historical data due to authentication issues.',
-              type: 'ERROR'
-            });
-          }
           return;
         }
-        
-        if (response.status >= 500) {
+
+        // Validate data structure
+        if (!payload.t || !Array.isArray(payload.t) || payload.t.length === 0) {
           const errorState: ErrorState = {
-            message: 'Server error occurred. Please try again later.',
+            message: 'Invalid data format received from API.',
             type: 'api-error',
             canRetry: true
           };
           setError(errorState);
           return;
         }
-        
-        const errorState: ErrorState = {
-          message: `Failed to fetch historical data (${response.status})`,
-          type: 'api-error',
-          canRetry: true
-        };
-        setError(errorState);
-        return;
-      }
 
-      const data = await response.json();
+        if (useBase) {
+          const base: BaseSeries = { ...payload, resolution: range.base, fetchedAt: Date.now() };
+          baseSeries.current.set(cacheKey, base);
+          data = viewOfBase(base, range.resolution, fromTimestamp, toTimestamp);
+        } else {
+          data = payload as ChartSeries;
+        }
+      }
 
-      if (data.s === 'no_data') {
-        const errorState: ErrorState = {
+      if (data.t.length === 0) {
+        setError({
           message: `No historical data available for ${selectedStock.symbol} in the selected time range.`,
           type: 'no-data',
           canRetry: false
-        };
-        setError(errorState);
-        
-        if (userId) {
-          await addNotification({
-            userId,
-            title: 'No Data Available',
-            message: `Historical data for ${selectedStock.symbol} is not available for the selected time period.`,
-            type: 'INFO'
-          });
-        }
+        });
         return;
       }
 
-      if (data.s === 'error') {
-        const errorState: ErrorState = {
-          message: 'Error occurred while fetching data from the API.',
-          type: 'api-error',
-          canRetry: true
-        };
-        setError(errorState);
-        return;
-      }
-
-      // Validate data structure
-      if (!data.t || !Array.isArray(data.t) || data.t.length === 0) {
-        const errorState: ErrorState = {
-          message: 'Invalid data format received from API.',
-          type: 'api-error',
-          canRetry: true
-        };
-        setError(errorState);
-        return;
-      }
 
       // Transform data
       const candles: CandleData[] = data.t.map((timestamp: number, index: number) => ({
@@ -252,6 +350,8 @@ export default function HistoricalChart({ className = '', userId }: HistoricalCh
       }));
 
       setCandleData(candles);
+      setCorporateActions(Array.isArray(data.corporateActions) ? data.corporateActions : []);
+      setIndicatorResults(Array.isArray(data.indicators) ? data.indicators : []);
       setRetryCount(0); // Reset retry count on success
       setLastFetchTime(Date.now());
 
@@ -315,6 +415,18 @@ export default function HistoricalChart({ className = '', userId }: HistoricalCh
     setLastFetchTime(null);
   };
 
+  const toggleOverlay = (spec: string) => {
+    setOverlays(current => current.includes(spec) ? current.filter(item => item !== spec) : [...current, spec]);
+  };
+
+  // One table column per indicator output, e.g. "bollinger(20,2) upper"
+  const overlayColumns = indicatorResults.flatMap(result =>
+    Object.keys(result.series).map(output => ({
+      label: output === 'value' ? result.key : `${result.key} ${output}`,
+      values: result.series[output],
+    }))
+  );
+
   const handleRetry = async () => {
     if (error && error.canRetry && retryCount < 3) {
       setRetryCount(prev => prev + 1);
@@ -367,6 +479,13 @@ export default function HistoricalChart({ className = '', userId }: HistoricalCh
     }).format(price);
   };
 
+  const describeAction = (action: CorporateAction) => {
+    const date = new Date(`${action.exDate}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC' });
+    return action.type === 'split'
+      ? `${action.ratio >= 1 ? `${action.ratio}-for-1` : `1-for-${Math.round(1 / action.ratio)}`} split on ${date}`
+      : `${formatPrice(action.amount)} dividend on ${date}`;
+  };
+
   const formatVolume = (volume: number) => {
     if (volume >= 1e9) return `${(volume / 1e9).toFixed(1)}B`;
     if (volume >= 1e6) return `${(volume / 1e6).toFixed(1)}M`;
@@ -460,6 +579,21 @@ export default function HistoricalChart({ className = '', userId }: HistoricalCh
 
             {/* Chart Type Selector */}
             <div className="flex gap-2">
+              <div className="flex rounded-md bg-gray-100 p-0.5" title="Raw prices are as traded; adjusted prices are restated for splits and dividends">
+                {(['raw', 'adjusted'] as PriceAdjustment[]).map((view) => (
+                  <button
+                    key={view}
+                    onClick={() => setPriceView(view)}
+                    className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                      priceView === view
+                        ? 'bg-black text-white'
+                        : 'text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {view === 'raw' ? 'Raw' : 'Adjusted'}
+                  </button>
+                ))}
+              </div>
               <button
                 onClick={() => setChartType('line')}
                 className={`p-2 rounded-md transition-colors ${
@@ -491,6 +625,24 @@ export default function HistoricalChart({ className = '', userId }: HistoricalCh
                 <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
               </button>
             </div>
+
+            {/* Indicator overlays */}
+            <div className="flex flex-wrap gap-2 items-center w-full">
+              <span className="text-sm text-gray-600">Overlays:</span>
+              {OVERLAY_OPTIONS.map((option) => (
+                <button
+                  key={option.spec}
+                  onClick={() => toggleOverlay(option.spec)}
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium border transition-colors ${
+                    overlays.includes(option.spec)
+                      ? 'bg-black text-white border-black'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
           </div>
         )}
       </div>
@@ -631,6 +783,19 @@ export default function HistoricalChart({ className = '', userId }: HistoricalCh
                 </div>
               )}
 
+              {/* Splits and dividends inside the selected range */}
+              {corporateActions.length > 0 && (
+                <div className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                  <span className="font-medium">Corporate actions: </span>
+                  {corporateActions.map(describeAction).join(' • ')}
+                  <span className="text-amber-700">
+                    {priceView === 'adjusted'
+                      ? ' — earlier prices are restated in today\'s share terms.'
+                      : ' — prices are shown as traded; switch to Adjusted for comparable returns.'}
+                  </span>
+                </div>
+              )}
+
               {/* Simple Chart Representation */}
               <div className="space-y-4">
                 <h3 className="font-semibold text-gray-900">
@@ -642,6 +807,7 @@ export default function HistoricalChart({ className = '', userId }: HistoricalCh
                   <p className="text-gray-600 mb-2">Interactive Chart</p>
                   <p className="text-sm text-gray-500">
                     Chart visualization with {candleData.length} data points
+                    {indicatorResults.length > 0 && ` and ${indicatorResults.map(result => result.key).join(', ')}`}
                   </p>
                   <div className="mt-4 text-xs text-gray-400">
                     Note: Full chart implementation requires a charting library like Chart.js or D3.js
@@ -661,6 +827,11 @@ export default function HistoricalChart({ className = '', userId }: HistoricalCh
                           <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Low</th>
                           <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Close</th>
                           <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Volume</th>
+                          {overlayColumns.map(column => (
+                            <th key={column.label} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase whitespace-nowrap">
+                              {column.label}
+                            </th>
+                          ))}
                         </tr>
                       </thead>
                       <tbody className="bg-white divide-y divide-gray-200">
@@ -672,6 +843,14 @@ export default function HistoricalChart({ className = '', userId }: HistoricalCh
                             <td className="px-4 py-2 text-sm text-red-600">{formatPrice(candle.low)}</td>
                             <td className="px-4 py-2 text-sm text-gray-900 font-medium">{formatPrice(candle.close)}</td>
                             <td className="px-4 py-2 text-sm text-gray-600">{formatVolume(candle.volume)}</td>
+                            {overlayColumns.map(column => {
+                              const value = column.values[candleData.length - 1 - index];
+                              return (
+                                <td key={column.label} className="px-4 py-2 text-sm text-blue-700">
+                                  {typeof value === 'number' ? formatPrice(value) : '—'}
+                                </td>
+                              );
+                            })}
                           </tr>
                         ))}
                       </tbody>
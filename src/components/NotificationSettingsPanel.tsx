@@ -3,18 +3,75 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { useTheme } from '@/contexts/ThemeContext';
-import { useNotifications } from '@/contexts/NotificationContext';
-import { NotificationSettings } from '@/types';
+import { DEFAULT_EARNINGS_REMINDER_DAYS, useNotifications } from '@/contexts/NotificationContext';
+import { defaultRoutes, NOTIFICATION_CHANNELS, NOTIFICATION_EVENT_TYPES, NOTIFICATION_SEVERITIES } from '@/services/notificationRouting';
+import { NotificationChannel, NotificationEventType, NotificationRoute, NotificationSettings, QuietHours } from '@/types';
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  inApp: 'In-app',
+  push: 'Browser push',
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+  webhook: 'Webhook',
+};
+
+const EVENT_LABELS: Record<NotificationEventType, string> = {
+  alert: 'Alerts',
+  earnings: 'Earnings',
+  stories: 'AI stories',
+  portfolio: 'Portfolio',
+  service: 'Service',
+  test: 'Tests',
+};
+
+interface DeliveryDraft {
+  email: string;
+  whatsAppNumber: string;
+  webhookUrl: string;
+  webhookSecret: string;
+  routing: NotificationRoute[] | undefined; // Unset: the defaults from the switches above
+  quietHours: QuietHours;
+}
+
+const toDraft = (settings: NotificationSettings): DeliveryDraft => ({
+  email: settings.email ?? '',
+  whatsAppNumber: settings.whatsAppNumber ?? '',
+  webhookUrl: settings.webhookUrl ?? '',
+  webhookSecret: settings.webhookSecret ?? '',
+  routing: settings.routing,
+  quietHours: settings.quietHours ?? {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    allowCritical: true,
+  },
+});
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(existing => existing !== value) : [...values, value];
 
 const NotificationSettingsPanel: React.FC = () => {
   const { theme } = useTheme();
-  const { settings, updateSettings, requestNotificationPermission } = useNotifications();
+  const {
+    settings,
+    configuredChannels,
+    updateSettings,
+    requestNotificationPermission,
+    subscribeToPush,
+    unsubscribeFromPush,
+    sendTestNotification,
+  } = useNotifications();
   const [localSettings, setLocalSettings] = useState<NotificationSettings | null>(null);
+  const [draft, setDraft] = useState<DeliveryDraft | null>(null);
   const [hasPermission, setHasPermission] = useState(false);
+  const [status, setStatus] = useState<{ success: boolean; message: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
 
   useEffect(() => {
     if (settings) {
       setLocalSettings(settings);
+      setDraft(toDraft(settings));
     }
     checkPermission();
   }, [settings]);
@@ -40,10 +97,88 @@ const NotificationSettingsPanel: React.FC = () => {
 
     const newSettings = { ...localSettings, [key]: value };
     setLocalSettings(newSettings);
-    await updateSettings(newSettings);
+    const result = await updateSettings(newSettings);
+    if (!result.success) setStatus({ success: false, message: result.error || 'Failed to save settings' });
+  };
+
+  const handlePushToggle = async () => {
+    if (!localSettings) return;
+    setStatus(null);
+
+    if (localSettings.enablePushNotifications) {
+      await unsubscribeFromPush();
+      return;
+    }
+    const result = await subscribeToPush();
+    if (!result.success) setStatus({ success: false, message: result.error || 'Failed to enable push notifications' });
+    checkPermission();
+  };
+
+  const handleSaveDelivery = async () => {
+    if (!localSettings || !draft) return;
+    setIsSaving(true);
+    setStatus(null);
+
+    const newSettings: NotificationSettings = {
+      ...localSettings,
+      email: draft.email.trim() || undefined,
+      whatsAppNumber: draft.whatsAppNumber.replace(/[\s()-]/g, '') || undefined,
+      webhookUrl: draft.webhookUrl.trim() || undefined,
+      webhookSecret: draft.webhookSecret || undefined,
+      routing: draft.routing,
+      quietHours: draft.quietHours,
+    };
+    const result = await updateSettings(newSettings);
+    setStatus(result.success
+      ? { success: true, message: 'Delivery settings saved' }
+      : { success: false, message: result.error || 'Failed to save delivery settings' });
+    setIsSaving(false);
+  };
+
+  const handleSendTest = async () => {
+    setStatus(null);
+    const result = await sendTestNotification();
+    setStatus(result.success
+      ? { success: true, message: 'Test notification sent on every routed channel' }
+      : { success: false, message: result.error || 'Failed to send test notification' });
+  };
+
+  const updateRoute = (index: number, route: NotificationRoute) => {
+    if (!draft || !localSettings) return;
+    const routes = [...(draft.routing ?? defaultRoutes(localSettings))];
+    routes[index] = route;
+    setDraft({ ...draft, routing: routes });
+  };
+
+  const removeRoute = (index: number) => {
+    if (!draft || !localSettings) return;
+    setDraft({ ...draft, routing: (draft.routing ?? defaultRoutes(localSettings)).filter((_, i) => i !== index) });
   };
 
-  if (!localSettings) {
+  const addRoute = () => {
+    if (!draft || !localSettings) return;
+    setDraft({ ...draft, routing: [...(draft.routing ?? defaultRoutes(localSettings)), { channels: ['inApp'] }] });
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border text-sm transition-colors ${
+    theme === 'dark'
+      ? 'bg-slate-800 border-slate-600 text-white placeholder-slate-400 focus:border-blue-500'
+      : 'bg-white border-slate-300 text-slate-900 placeholder-slate-500 focus:border-blue-500'
+  } focus:outline-none focus:ring-1 focus:ring-blue-500`;
+
+  const labelClass = `block text-sm font-medium mb-1 ${
+    theme === 'dark' ? 'text-slate-300' : 'text-slate-700'
+  }`;
+
+  const chipClass = (selected: boolean) => `px-2 py-1 rounded text-xs font-medium border transition-colors ${
+    selected
+      ? 'bg-blue-600 border-blue-600 text-white'
+      : theme === 'dark'
+      ? 'bg-slate-800 border-slate-600 text-slate-300'
+      : 'bg-white border-slate-300 text-slate-700'
+  }`;
+
+  if (!localSettings || !draft) {
     return (
       <div className={`animate-pulse rounded-lg p-6 ${
         theme === 'dark'
@@ -60,6 +195,11 @@ const NotificationSettingsPanel: React.FC = () => {
     );
   }
 
+  const earningsRemindersEnabled = localSettings.enableEarningsReminders !== false;
+  const earningsReminderDays = localSettings.earningsReminderDays ?? DEFAULT_EARNINGS_REMINDER_DAYS;
+  const routes = draft.routing ?? defaultRoutes(localSettings);
+  const pushAvailable = configuredChannels.includes('push');
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -181,6 +321,44 @@ const NotificationSettingsPanel: React.FC = () => {
           </motion.button>
         </div>
 
+        {/* Browser Push */}
+        <div className="flex items-center justify-between">
+          <div>
+            <p className={`font-medium ${
+              theme === 'dark' ? 'text-white' : 'text-slate-900'
+            }`}>
+              Browser Push
+            </p>
+            <p className={`text-sm ${
+              theme === 'dark' ? 'text-slate-400' : 'text-slate-600'
+            }`}>
+              {pushAvailable
+                ? 'Receive alerts on this device even when the app is closed'
+                : 'Push notifications are not configured on this server'}
+            </p>
+          </div>
+          <motion.button
+            onClick={handlePushToggle}
+            disabled={!pushAvailable && !localSettings.enablePushNotifications}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+              localSettings.enablePushNotifications
+                ? 'bg-blue-600'
+                : theme === 'dark'
+                ? 'bg-slate-600'
+                : 'bg-slate-300'
+            } disabled:opacity-50`}
+            whileTap={{ scale: 0.95 }}
+          >
+            <motion.span
+              animate={{
+                x: localSettings.enablePushNotifications ? 20 : 2
+              }}
+              transition={{ type: "spring", stiffness: 500, damping: 30 }}
+              className="inline-block h-4 w-4 transform rounded-full bg-white shadow"
+            />
+          </motion.button>
+        </div>
+
         {/* WhatsApp Notifications */}
         <div className="flex items-center justify-between">
           <div>
@@ -216,6 +394,65 @@ const NotificationSettingsPanel: React.FC = () => {
           </motion.button>
         </div>
 
+        {/* Earnings Reminders */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className={`font-medium ${
+                theme === 'dark' ? 'text-white' : 'text-slate-900'
+              }`}>
+                Earnings Reminders
+              </p>
+              <p className={`text-sm ${
+                theme === 'dark' ? 'text-slate-400' : 'text-slate-600'
+              }`}>
+                Get notified before stocks you hold or watch report earnings
+              </p>
+            </div>
+            <motion.button
+              onClick={() => handleSettingChange('enableEarningsReminders', !earningsRemindersEnabled)}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                earningsRemindersEnabled
+                  ? 'bg-blue-600'
+                  : theme === 'dark'
+                  ? 'bg-slate-600'
+                  : 'bg-slate-300'
+              }`}
+              whileTap={{ scale: 0.95 }}
+            >
+              <motion.span
+                animate={{
+                  x: earningsRemindersEnabled ? 20 : 2
+                }}
+                transition={{ type: "spring", stiffness: 500, damping: 30 }}
+                className="inline-block h-4 w-4 transform rounded-full bg-white shadow"
+              />
+            </motion.button>
+          </div>
+
+          {earningsRemindersEnabled && (
+            <div>
+              <label className={`block text-sm font-medium mb-2 ${
+                theme === 'dark' ? 'text-slate-300' : 'text-slate-700'
+              }`}>
+                Remind me {earningsReminderDays} trading day{earningsReminderDays === 1 ? '' : 's'} before a report
+              </label>
+              <input
+                type="range"
+                min="1"
+                max="10"
+                value={earningsReminderDays}
+                onChange={(e) => handleSettingChange('earningsReminderDays', Number(e.target.value))}
+                className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer"
+              />
+              <div className="flex justify-between text-xs text-slate-500 mt-1">
+                <span>1 day</span>
+                <span>10 days</span>
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Price Change Threshold */}
         <div className="space-y-3">
           <h3 className={`font-semibold ${
@@ -287,27 +524,267 @@ const NotificationSettingsPanel: React.FC = () => {
           </div>
         </div>
 
+        {/* Delivery */}
+        <div className="space-y-4">
+          <h3 className={`font-semibold ${
+            theme === 'dark' ? 'text-white' : 'text-slate-900'
+          }`}>
+            Delivery
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Email</label>
+              <input
+                type="email"
+                value={draft.email}
+                onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                placeholder="you@example.com"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>WhatsApp number</label>
+              <input
+                type="tel"
+                value={draft.whatsAppNumber}
+                onChange={(e) => setDraft({ ...draft, whatsAppNumber: e.target.value })}
+                placeholder="+15551234567"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Webhook URL</label>
+              <input
+                type="url"
+                value={draft.webhookUrl}
+                onChange={(e) => setDraft({ ...draft, webhookUrl: e.target.value })}
+                placeholder="https://example.com/hooks/alerts"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Webhook secret</label>
+              <input
+                type="password"
+                value={draft.webhookSecret}
+                onChange={(e) => setDraft({ ...draft, webhookSecret: e.target.value })}
+                placeholder="Signs the X-Signature-256 header"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* Quiet Hours */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className={`font-medium ${
+                  theme === 'dark' ? 'text-white' : 'text-slate-900'
+                }`}>
+                  Quiet Hours
+                </p>
+                <p className={`text-sm ${
+                  theme === 'dark' ? 'text-slate-400' : 'text-slate-600'
+                }`}>
+                  Hold everything but in-app notifications until quiet hours end
+                </p>
+              </div>
+              <motion.button
+                onClick={() => setDraft({ ...draft, quietHours: { ...draft.quietHours, enabled: !draft.quietHours.enabled } })}
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  draft.quietHours.enabled
+                    ? 'bg-blue-600'
+                    : theme === 'dark'
+                    ? 'bg-slate-600'
+                    : 'bg-slate-300'
+                }`}
+                whileTap={{ scale: 0.95 }}
+              >
+                <motion.span
+                  animate={{
+                    x: draft.quietHours.enabled ? 20 : 2
+                  }}
+                  transition={{ type: "spring", stiffness: 500, damping: 30 }}
+                  className="inline-block h-4 w-4 transform rounded-full bg-white shadow"
+                />
+              </motion.button>
+            </div>
+
+            {draft.quietHours.enabled && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className={labelClass}>From</label>
+                  <input
+                    type="time"
+                    value={draft.quietHours.start}
+                    onChange={(e) => setDraft({ ...draft, quietHours: { ...draft.quietHours, start: e.target.value } })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Until</label>
+                  <input
+                    type="time"
+                    value={draft.quietHours.end}
+                    onChange={(e) => setDraft({ ...draft, quietHours: { ...draft.quietHours, end: e.target.value } })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Time zone</label>
+                  <input
+                    type="text"
+                    value={draft.quietHours.timeZone}
+                    onChange={(e) => setDraft({ ...draft, quietHours: { ...draft.quietHours, timeZone: e.target.value } })}
+                    placeholder="America/New_York"
+                    className={inputClass}
+                  />
+                </div>
+                <label className={`md:col-span-3 flex items-center space-x-2 text-sm ${
+                  theme === 'dark' ? 'text-slate-300' : 'text-slate-700'
+                }`}>
+                  <input
+                    type="checkbox"
+                    checked={draft.quietHours.allowCritical !== false}
+                    onChange={(e) => setDraft({ ...draft, quietHours: { ...draft.quietHours, allowCritical: e.target.checked } })}
+                  />
+                  <span>Let critical notifications (trailing stops) through</span>
+                </label>
+              </div>
+            )}
+          </div>
+
+          {/* Routing Rules */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className={`font-medium ${
+                  theme === 'dark' ? 'text-white' : 'text-slate-900'
+                }`}>
+                  Routing Rules
+                </p>
+                <p className={`text-sm ${
+                  theme === 'dark' ? 'text-slate-400' : 'text-slate-600'
+                }`}>
+                  {draft.routing
+                    ? 'Each matching rule adds its channels'
+                    : 'Using the defaults from the switches above; edit a rule to customize'}
+                </p>
+              </div>
+              {draft.routing && (
+                <button
+                  onClick={() => setDraft({ ...draft, routing: undefined })}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  Reset to defaults
+                </button>
+              )}
+            </div>
+
+            {routes.map((route, index) => (
+              <div
+                key={index}
+                className={`p-3 rounded-lg border space-y-2 ${
+                  theme === 'dark' ? 'border-slate-700 bg-slate-800/50' : 'border-slate-200 bg-slate-50'
+                }`}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`text-xs w-16 ${theme === 'dark' ? 'text-slate-400' : 'text-slate-600'}`}>Events</span>
+                  {NOTIFICATION_EVENT_TYPES.map(type => (
+                    <button
+                      key={type}
+                      onClick={() => updateRoute(index, { ...route, eventTypes: toggle(route.eventTypes ?? [], type) })}
+                      className={chipClass(!!route.eventTypes?.includes(type))}
+                    >
+                      {EVENT_LABELS[type]}
+                    </button>
+                  ))}
+                  {!route.eventTypes?.length && (
+                    <span className="text-xs text-slate-500">(all)</span>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`text-xs w-16 ${theme === 'dark' ? 'text-slate-400' : 'text-slate-600'}`}>Channels</span>
+                  {NOTIFICATION_CHANNELS.map(channel => (
+                    <button
+                      key={channel}
+                      onClick={() => updateRoute(index, { ...route, channels: toggle(route.channels, channel) })}
+                      className={chipClass(route.channels.includes(channel))}
+                      title={configuredChannels.includes(channel) ? undefined : 'Not configured on this server'}
+                    >
+                      {CHANNEL_LABELS[channel]}{configuredChannels.includes(channel) ? '' : ' *'}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className={`text-xs w-16 ${theme === 'dark' ? 'text-slate-400' : 'text-slate-600'}`}>At least</span>
+                    <select
+                      value={route.minSeverity ?? 'info'}
+                      onChange={(e) => updateRoute(index, { ...route, minSeverity: e.target.value as NotificationRoute['minSeverity'] })}
+                      className={`px-2 py-1 rounded border text-xs ${
+                        theme === 'dark'
+                          ? 'bg-slate-800 border-slate-600 text-white'
+                          : 'bg-white border-slate-300 text-slate-900'
+                      }`}
+                    >
+                      {NOTIFICATION_SEVERITIES.map(severity => (
+                        <option key={severity} value={severity}>{severity}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    onClick={() => removeRoute(index)}
+                    className="text-xs text-red-600 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between">
+              <button
+                onClick={addRoute}
+                className="text-sm text-blue-600 hover:underline"
+              >
+                + Add rule
+              </button>
+              {configuredChannels.length < NOTIFICATION_CHANNELS.length && (
+                <span className="text-xs text-slate-500">* not configured on this server</span>
+              )}
+            </div>
+          </div>
+
+          <motion.button
+            onClick={handleSaveDelivery}
+            disabled={isSaving}
+            className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg font-medium transition-colors"
+            whileHover={{ scale: isSaving ? 1 : 1.02 }}
+            whileTap={{ scale: isSaving ? 1 : 0.98 }}
+          >
+            {isSaving ? 'Saving...' : 'Save Delivery Settings'}
+          </motion.button>
+        </div>
+
+        {status && (
+          <div className={`p-3 rounded-lg text-sm ${
+            status.success
+              ? theme === 'dark' ? 'bg-green-900/20 text-green-300' : 'bg-green-50 text-green-800'
+              : theme === 'dark' ? 'bg-red-900/20 text-red-300' : 'bg-red-50 text-red-800'
+          }`}>
+            {status.message}
+          </div>
+        )}
+
         {/* Test Notification */}
         <div className="pt-4 border-t border-slate-200 dark:border-slate-700">
           <motion.button
-            onClick={() => {
-              if (hasPermission && localSettings.enableBrowserNotifications) {
-                new Notification('Test Notification', {
-                  body: 'Your notification settings are working correctly!',
-                  icon: '/favicon.ico',
-                });
-              }
-            }}
-            className={`w-full px-4 py-2 rounded-lg font-medium transition-colors ${
-              hasPermission && localSettings.enableBrowserNotifications
-                ? 'bg-blue-600 hover:bg-blue-700 text-white'
-                : theme === 'dark'
-                ? 'bg-slate-700 text-slate-400 cursor-not-allowed'
-                : 'bg-slate-200 text-slate-500 cursor-not-allowed'
-            }`}
-            disabled={!hasPermission || !localSettings.enableBrowserNotifications}
-            whileHover={{ scale: hasPermission && localSettings.enableBrowserNotifications ? 1.02 : 1 }}
-            whileTap={{ scale: hasPermission && localSettings.enableBrowserNotifications ? 0.98 : 1 }}
+            onClick={handleSendTest}
+            className="w-full px-4 py-2 rounded-lg font-medium transition-colors bg-blue-600 hover:bg-blue-700 text-white"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
           >
             Send Test Notification
           </motion.button>
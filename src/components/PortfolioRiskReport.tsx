@@ -0,0 +1,305 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Activity, AlertTriangle, RefreshCw, ShieldAlert } from 'lucide-react';
+import { PortfolioHolding, PortfolioRisk } from '@/types';
+
+interface PortfolioRiskReportProps {
+  holdings: PortfolioHolding[];
+}
+
+const LOOKBACKS = [
+  { label: '3M', days: 63 },
+  { label: '6M', days: 126 },
+  { label: '1Y', days: 252 },
+  { label: '2Y', days: 504 },
+];
+
+const cardClass = 'bg-white/80 dark:bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-slate-200/50 dark:border-white/20 shadow-sm dark:shadow-none transition-all duration-300';
+
+const formatMoney = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatSigned = (value: number, digits = 2) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}%`;
+
+// Blue for positive correlation, red for negative, stronger with magnitude
+const correlationColor = (value: number) =>
+  value >= 0 ? `rgba(59, 130, 246, ${Math.abs(value) * 0.8})` : `rgba(239, 68, 68, ${Math.abs(value) * 0.8})`;
+
+export default function PortfolioRiskReport({ holdings }: PortfolioRiskReportProps) {
+  const [lookbackDays, setLookbackDays] = useState(252);
+  const [marketMovePercent, setMarketMovePercent] = useState(-3);
+  const [risk, setRisk] = useState<PortfolioRisk | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const holdingsKey = JSON.stringify(holdings);
+
+  const loadRisk = useCallback(async () => {
+    const payload: PortfolioHolding[] = JSON.parse(holdingsKey);
+    if (payload.length === 0) {
+      setRisk(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/analytics/risk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ holdings: payload, lookbackDays, marketMovePercent }),
+      });
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw new Error(body.error || `Failed to analyse risk: ${response.statusText}`);
+      }
+      setRisk(body.data);
+    } catch (err) {
+      console.error('Error loading portfolio risk:', err);
+      setError(err instanceof Error ? err.message : 'Failed to analyse portfolio risk');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [holdingsKey, lookbackDays, marketMovePercent]);
+
+  useEffect(() => {
+    loadRisk();
+  }, [loadRisk]);
+
+  if (holdings.length === 0) {
+    return (
+      <div className={`${cardClass} text-center text-slate-500 dark:text-gray-400`}>
+        Add stocks to your portfolio to see its risk profile.
+      </div>
+    );
+  }
+
+  const scenario = risk?.scenario;
+
+  return (
+    <div className="space-y-8">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex space-x-2">
+          {LOOKBACKS.map(({ label, days }) => (
+            <button
+              key={label}
+              onClick={() => setLookbackDays(days)}
+              className={`px-3 py-1 rounded text-sm transition-all duration-300 ${
+                lookbackDays === days
+                  ? 'bg-blue-600 dark:bg-white text-white dark:text-black shadow-md'
+                  : 'bg-slate-200/50 dark:bg-white/10 text-slate-600 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center space-x-3 text-sm text-slate-600 dark:text-gray-400">
+          {risk && <span>{risk.observations} trading days vs {risk.benchmark} through {risk.asOf}</span>}
+          <button
+            onClick={loadRisk}
+            disabled={isLoading}
+            className="p-2 rounded-lg hover:text-slate-900 dark:hover:text-white disabled:opacity-50"
+            aria-label="Refresh risk analysis"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+      {risk && risk.missing.length > 0 && (
+        <div className="flex items-center space-x-2 text-sm text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="h-4 w-4" />
+          <span>Not enough price history to include: {risk.missing.join(', ')}</span>
+        </div>
+      )}
+
+      {isLoading && !risk && (
+        <div className={`${cardClass} text-center text-slate-500 dark:text-gray-400`}>Analysing portfolio risk…</div>
+      )}
+
+      {risk && scenario && (
+        <>
+          {/* Headline metrics */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            {[
+              { label: `Beta vs ${risk.benchmark}`, value: risk.beta === null ? 'N/A' : risk.beta.toFixed(2) },
+              { label: 'Annualised Volatility', value: `${risk.volatility.toFixed(1)}%` },
+              { label: 'Max Drawdown', value: `-${risk.maxDrawdown.toFixed(1)}%` },
+              { label: 'Analysed Value', value: formatMoney(risk.totalValue) },
+            ].map((metric, index) => (
+              <motion.div
+                key={metric.label}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.1 }}
+                className={cardClass}
+              >
+                <h3 className="text-sm text-slate-500 dark:text-gray-400 mb-1">{metric.label}</h3>
+                <p className="text-xl font-bold text-slate-900 dark:text-white">{metric.value}</p>
+              </motion.div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Market scenario */}
+            <div className={cardClass}>
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center space-x-2">
+                  <ShieldAlert className="h-5 w-5 text-blue-600 dark:text-white" />
+                  <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Market Scenario</h3>
+                </div>
+                <label className="flex items-center space-x-2 text-sm text-slate-600 dark:text-gray-400">
+                  <span>{risk.benchmark} moves</span>
+                  <input
+                    type="number"
+                    step={0.5}
+                    min={-50}
+                    max={50}
+                    value={marketMovePercent}
+                    onChange={(event) => {
+                      const value = Number(event.target.value);
+                      if (Number.isFinite(value) && Math.abs(value) <= 50) setMarketMovePercent(value);
+                    }}
+                    className="w-20 px-2 py-1 rounded border border-slate-300 dark:border-white/20 bg-transparent text-slate-900 dark:text-white"
+                  />
+                  <span>%</span>
+                </label>
+              </div>
+              <p className={`text-3xl font-bold ${scenario.expectedChange < 0 ? 'text-red-600 dark:text-red-400' : 'text-emerald-600 dark:text-green-400'}`}>
+                {formatMoney(scenario.expectedChange)}
+                <span className="ml-2 text-lg">{formatSigned(scenario.expectedChangePercent)}</span>
+              </p>
+              <p className="mt-2 text-sm text-slate-600 dark:text-gray-400">
+                Expected from the portfolio&apos;s beta on a {formatSigned(scenario.marketMovePercent, 1)} {risk.benchmark} day.
+              </p>
+              <p className="mt-1 text-sm text-slate-600 dark:text-gray-400">
+                {scenario.historicalChangePercent === null
+                  ? 'No comparable market days in the lookback window.'
+                  : `On the ${scenario.historicalDays} past day${scenario.historicalDays === 1 ? '' : 's'} with a similar move, the portfolio averaged ${formatSigned(scenario.historicalChangePercent)}.`}
+              </p>
+            </div>
+
+            {/* Value at risk */}
+            <div className={cardClass}>
+              <div className="flex items-center space-x-2 mb-4">
+                <Activity className="h-5 w-5 text-blue-600 dark:text-white" />
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Value at Risk</h3>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500 dark:text-gray-400 border-b border-slate-200 dark:border-gray-800">
+                    <th className="py-2 font-medium">Confidence</th>
+                    <th className="py-2 font-medium text-right">Historical VaR</th>
+                    <th className="py-2 font-medium text-right">Parametric VaR</th>
+                    <th className="py-2 font-medium text-right">Historical CVaR</th>
+                    <th className="py-2 font-medium text-right">Parametric CVaR</th>
+                  </tr>
+                </thead>
+                <tbody className="text-slate-900 dark:text-white">
+                  {risk.valueAtRisk.map((level) => (
+                    <tr key={level.confidence} className="border-b border-slate-100 dark:border-gray-800 last:border-b-0">
+                      <td className="py-2">{Math.round(level.confidence * 100)}% · {level.horizonDays}d</td>
+                      <td className="py-2 text-right">{formatMoney(level.historical)}</td>
+                      <td className="py-2 text-right">{formatMoney(level.parametric)}</td>
+                      <td className="py-2 text-right">{formatMoney(level.historicalCVaR)}</td>
+                      <td className="py-2 text-right">{formatMoney(level.parametricCVaR)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-3 text-xs text-slate-500 dark:text-gray-400">
+                Losses not expected to be exceeded at each confidence level; CVaR is the average loss beyond it.
+              </p>
+            </div>
+          </div>
+
+          {/* Position contributions */}
+          <div className={`${cardClass} overflow-x-auto`}>
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">Risk by Position</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 dark:text-gray-400 border-b border-slate-200 dark:border-gray-800">
+                  <th className="py-2 font-medium">Ticker</th>
+                  <th className="py-2 font-medium text-right">Value</th>
+                  <th className="py-2 font-medium text-right">Weight</th>
+                  <th className="py-2 font-medium text-right">Beta</th>
+                  <th className="py-2 font-medium text-right">Volatility</th>
+                  <th className="py-2 font-medium text-right">Risk Share</th>
+                  <th className="py-2 font-medium text-right">95% VaR Share</th>
+                  <th className="py-2 font-medium text-right">Scenario</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-900 dark:text-white">
+                {risk.positions.map((position) => (
+                  <tr key={position.ticker} className="border-b border-slate-100 dark:border-gray-800 last:border-b-0">
+                    <td className="py-2 font-medium">{position.ticker}</td>
+                    <td className="py-2 text-right">{formatMoney(position.value)}</td>
+                    <td className="py-2 text-right">{(position.weight * 100).toFixed(1)}%</td>
+                    <td className="py-2 text-right">{position.beta === null ? '—' : position.beta.toFixed(2)}</td>
+                    <td className="py-2 text-right">{position.volatility.toFixed(1)}%</td>
+                    <td className={`py-2 text-right ${position.riskContribution > position.weight ? 'text-amber-600 dark:text-amber-400' : ''}`}>
+                      {(position.riskContribution * 100).toFixed(1)}%
+                    </td>
+                    <td className="py-2 text-right">{formatMoney(position.componentVaR)}</td>
+                    <td className={`py-2 text-right ${position.scenarioChange < 0 ? 'text-red-600 dark:text-red-400' : 'text-emerald-600 dark:text-green-400'}`}>
+                      {formatMoney(position.scenarioChange)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-3 text-xs text-slate-500 dark:text-gray-400">
+              Risk share is each position&apos;s contribution to portfolio volatility; highlighted when it exceeds the position&apos;s weight.
+            </p>
+          </div>
+
+          {/* Correlation matrix */}
+          {risk.correlation.tickers.length > 1 && (
+            <div className={`${cardClass} overflow-x-auto`}>
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">Correlation</h3>
+              <table className="text-xs">
+                <thead>
+                  <tr>
+                    <th />
+                    {risk.correlation.tickers.map((ticker) => (
+                      <th key={ticker} className="px-2 py-1 font-medium text-slate-500 dark:text-gray-400">{ticker}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {risk.correlation.tickers.map((ticker, i) => (
+                    <tr key={ticker}>
+                      <th className="px-2 py-1 text-left font-medium text-slate-500 dark:text-gray-400">{ticker}</th>
+                      {risk.correlation.values[i].map((value, j) => (
+                        <td
+                          key={risk.correlation.tickers[j]}
+                          className="px-2 py-1 text-center text-slate-900 dark:text-white"
+                          style={{ backgroundColor: correlationColor(value) }}
+                        >
+                          {value.toFixed(2)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="mt-4 text-sm text-slate-600 dark:text-gray-400">
+                {risk.correlation.clusters.length === 0
+                  ? `No groups of holdings move together (average correlation ≥ ${risk.correlation.threshold}).`
+                  : risk.correlation.clusters.map((cluster) => (
+                    <div key={cluster.join(',')}>Move together: {cluster.join(', ')}</div>
+                  ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
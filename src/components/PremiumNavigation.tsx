@@ -25,7 +25,8 @@ import {
   Star,
   Shield,
   Briefcase,
-  Brain
+  Brain,
+  CalendarDays
 } from 'lucide-react';
 import { useTheme } from '@/contexts/ThemeContext';
 
@@ -81,6 +82,13 @@ const PremiumNavigation: React.FC<PremiumNavigationProps> = ({
       description: 'Tracked stocks & alerts',
       shortcut: '⌘W'
     },
+    {
+      id: 'transactions',
+      label: 'Transactions',
+      icon: Briefcase,
+      description: 'Trades, tax lots & realized P&L',
+      shortcut: '⌘J'
+    },
     {
       id: 'realtime',
       label: 'Live Market',
@@ -104,6 +112,20 @@ const PremiumNavigation: React.FC<PremiumNavigationProps> = ({
       premium: true,
       shortcut: '⌘A'
     },
+    {
+      id: 'screener',
+      label: 'Screener',
+      icon: Search,
+      description: 'Filter stocks by fundamentals & signals',
+      shortcut: '⌘F'
+    },
+    {
+      id: 'earnings',
+      label: 'Earnings',
+      icon: CalendarDays,
+      description: 'Upcoming reports & surprise history',
+      shortcut: '⌘E'
+    },
     {
       id: 'recommendations',
       label: 'Trading',
@@ -12,31 +12,9 @@ import {
   ReferenceLine,
   Legend,
 } from 'recharts';
+import { PriceChartPoint } from '@/types';
 
-interface PriceData {
-  timestamp: string;
-  date: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
-
-interface TechnicalData {
-  sma20?: number;
-  sma50?: number;
-  sma200?: number;
-  ema12?: number;
-  ema26?: number;
-  rsi?: number;
-  macd?: number;
-  signal?: number;
-  upperBand?: number;
-  lowerBand?: number;
-}
-
-interface ChartDataPoint extends PriceData, TechnicalData {}
+type ChartDataPoint = PriceChartPoint;
 
 interface PriceChartProps {
   ticker: string;
@@ -2,11 +2,12 @@
 
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { ChevronLeft, ChevronRight, TrendingUp, Shield, Zap, Youtube, RefreshCw, Activity, Users, Clock, Brain, BarChart3, PieChart, LineChart } from 'lucide-react';
+import { ChevronLeft, ChevronRight, TrendingUp, Shield, Zap, Youtube, RefreshCw, Activity, Users, Clock, Brain, BarChart3, PieChart, LineChart, FlaskConical } from 'lucide-react';
 import { RecommendedStock } from '@/types';
 import PriceChart from './PriceChart';
 import TechnicalIndicators from './TechnicalIndicators';
 import PerformanceMetrics from './PerformanceMetrics';
+import BacktestResults from './BacktestResults';
 
 interface YouTubeRecommendation {
   ticker: string;
@@ -41,7 +42,7 @@ export default function Recommendations() {
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
   const [useYouTubeData, setUseYouTubeData] = useState(true);
   const [showAnalytics, setShowAnalytics] = useState(false);
-  const [activeAnalyticsTab, setActiveAnalyticsTab] = useState<'chart' | 'technicals' | 'performance'>('chart');
+  const [activeAnalyticsTab, setActiveAnalyticsTab] = useState<'chart' | 'technicals' | 'performance' | 'backtest'>('chart');
   
   // Rate limiting state
   const [lastRefreshTime, setLastRefreshTime] = useState<Date | null>(null);
@@ -449,6 +450,7 @@ export default function Recommendations() {
                             { id: 'chart', label: 'Price Chart', icon: LineChart },
                             { id: 'technicals', label: 'Technicals', icon: BarChart3 },
                             { id: 'performance', label: 'Analytics', icon: PieChart },
+                            { id: 'backtest', label: 'Backtest', icon: FlaskConical },
                           ].map(({ id, label, icon: Icon }) => (
                             <button
                               key={id}
@@ -490,6 +492,10 @@ export default function Recommendations() {
                               showDetailed={true}
                             />
                           )}
+
+                          {activeAnalyticsTab === 'backtest' && (
+                            <BacktestResults ticker={stock.ticker} />
+                          )}
                         </div>
                       </motion.div>
                     )}
@@ -1,42 +1,138 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { Portfolio } from '@/types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
+import {
+  LedgerSummary,
+  LedgerTransaction,
+  PerformancePeriod,
+  Portfolio,
+  PortfolioHolding,
+  PortfolioPerformance,
+  PortfolioTransaction
+} from '@/types';
+import { toPortfolioTransactions } from '@/services/transactionLedger';
 import { Download, Calendar, TrendingUp, TrendingDown, DollarSign } from 'lucide-react';
+import PortfolioRiskReport from './PortfolioRiskReport';
 
 interface ReportsProps {
   portfolio: Portfolio;
+  ledger?: { transactions: LedgerTransaction[]; summary: LedgerSummary }; // Trade history behind the portfolio
 }
 
-export default function Reports({ portfolio }: ReportsProps) {
-  const [selectedPeriod, setSelectedPeriod] = useState<'1M' | '3M' | '6M' | '1Y'>('3M');
+const PERIODS: PerformancePeriod[] = ['1M', '3M', 'YTD', '1Y', 'ALL'];
+const PRESET_BENCHMARKS = ['SPY', 'QQQ'];
+const MAX_BENCHMARKS = 3;
+const BENCHMARK_COLORS = ['#10B981', '#F59E0B', '#8B5CF6'];
+
+const formatReturn = (value: number | null) => (value === null ? 'N/A' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`);
+
+export default function Reports({ portfolio, ledger }: ReportsProps) {
+  const [selectedPeriod, setSelectedPeriod] = useState<PerformancePeriod>('3M');
+  const [benchmarks, setBenchmarks] = useState<string[]>(['SPY']);
+  const [customBenchmark, setCustomBenchmark] = useState('');
+  const [performance, setPerformance] = useState<PortfolioPerformance | null>(null);
+  const [isLoadingPerformance, setIsLoadingPerformance] = useState(false);
+  const [performanceError, setPerformanceError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [activeTab, setActiveTab] = useState<'overview' | 'risk'>('overview');
 
-  // Generate performance data
-  const generatePerformanceData = () => {
-    const periods = { '1M': 30, '3M': 90, '6M': 180, '1Y': 365 };
-    const days = periods[selectedPeriod];
-    
-    const data = [];
-    for (let i = 0; i < days; i += Math.floor(days / 12)) {
-      const date = new Date();
-      date.setDate(date.getDate() - (days - i));
-      
-      const baseValue = portfolio.totalInvestment;
-      const volatility = 0.02;
-      const trend = portfolio.totalReturnPercent / 100 / days;
-      const value = baseValue * (1 + trend * i + (Math.random() - 0.5) * volatility);
-      
-      data.push({
-        date: date.toLocaleDateString(),
-        value: parseFloat(value.toFixed(2)),
-        investment: baseValue,
-      });
+  // The ledger's buys and sells; without one, each holding is a purchase on its buy date
+  const transactions: PortfolioTransaction[] = ledger && ledger.transactions.length > 0
+    ? toPortfolioTransactions(ledger.transactions)
+    : portfolio.stocks
+      .filter((stock) => stock.quantity > 0 && stock.buyPrice > 0)
+      .map((stock) => ({
+        ticker: stock.ticker,
+        type: 'buy',
+        date: new Date(stock.buyDate).toISOString().slice(0, 10),
+        quantity: stock.quantity,
+        price: stock.buyPrice,
+      }));
+  const holdingsByTicker = new Map((ledger?.summary.holdings ?? []).map((holding) => [holding.ticker, holding]));
+  const transactionsKey = JSON.stringify(transactions);
+  const benchmarksKey = benchmarks.join(',');
+
+  const requestPerformance = useCallback((format: 'json' | 'csv') => fetch('/api/analytics/performance', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      transactions: JSON.parse(transactionsKey),
+      period: selectedPeriod,
+      benchmarks: benchmarksKey ? benchmarksKey.split(',') : [],
+      format,
+    }),
+  }), [transactionsKey, selectedPeriod, benchmarksKey]);
+
+  useEffect(() => {
+    if (transactions.length === 0) {
+      setPerformance(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadPerformance = async () => {
+      setIsLoadingPerformance(true);
+      setPerformanceError(null);
+      try {
+        const response = await requestPerformance('json');
+        const body = await response.json();
+        if (!response.ok || !body.success) {
+          throw new Error(body.error || `Failed to load performance: ${response.statusText}`);
+        }
+        if (!cancelled) setPerformance(body.data);
+      } catch (err) {
+        console.error('Error loading portfolio performance:', err);
+        if (!cancelled) setPerformanceError(err instanceof Error ? err.message : 'Failed to load portfolio performance');
+      } finally {
+        if (!cancelled) setIsLoadingPerformance(false);
+      }
+    };
+
+    loadPerformance();
+    return () => {
+      cancelled = true;
+    };
+  }, [requestPerformance, transactions.length]);
+
+  // Download the daily series as CSV
+  const exportReport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await requestPerformance('csv');
+      if (!response.ok) {
+        throw new Error(`Export failed: ${response.status} ${response.statusText}`);
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `portfolio-performance-${selectedPeriod}-${new Date().toISOString().split('T')[0]}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert('Export failed. Please try again.');
+    } finally {
+      setIsExporting(false);
     }
-    
-    return data;
+  };
+
+  const toggleBenchmark = (symbol: string) => {
+    setBenchmarks((current) => current.includes(symbol)
+      ? current.filter((entry) => entry !== symbol)
+      : current.length < MAX_BENCHMARKS ? [...current, symbol] : current);
+  };
+
+  const addCustomBenchmark = () => {
+    const symbol = customBenchmark.trim().toUpperCase();
+    if (/^[A-Z0-9.-]{1,10}$/.test(symbol) && !benchmarks.includes(symbol)) toggleBenchmark(symbol);
+    setCustomBenchmark('');
   };
 
   // Generate sector allocation data
@@ -51,9 +147,19 @@ export default function Reports({ portfolio }: ReportsProps) {
     return sectors;
   };
 
-  const performanceData = generatePerformanceData();
+  const performanceData = (performance?.points ?? []).map((point) => ({
+    date: point.date,
+    Portfolio: point.cumulativeReturn,
+    ...point.benchmarks,
+  }));
   const sectorData = generateSectorData();
 
+  const riskHoldings: PortfolioHolding[] = portfolio.stocks.map((stock) => ({
+    ticker: stock.ticker,
+    quantity: stock.quantity,
+    ...(stock.currentPrice ? { price: stock.currentPrice } : {}),
+  }));
+
   const metrics = [
     {
       label: 'Total Return',
@@ -100,199 +206,332 @@ export default function Reports({ portfolio }: ReportsProps) {
         <motion.button
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
-          className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 dark:bg-white text-white dark:text-black rounded-lg hover:from-blue-700 hover:to-blue-800 dark:hover:bg-gray-200 transition-all duration-300 shadow-md hover:shadow-lg"
+          onClick={exportReport}
+          disabled={isExporting || transactions.length === 0}
+          className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 dark:bg-white text-white dark:text-black rounded-lg hover:from-blue-700 hover:to-blue-800 dark:hover:bg-gray-200 transition-all duration-300 shadow-md hover:shadow-lg disabled:opacity-50"
         >
           <Download className="h-4 w-4" />
-          <span>Export Report</span>
+          <span>{isExporting ? 'Exporting…' : 'Export Report'}</span>
         </motion.button>
       </div>
 
-      {/* Metrics Overview */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        {metrics.map((metric, index) => (
+      {/* Tabs */}
+      <div className="flex space-x-2 border-b border-slate-200 dark:border-white/20">
+        {([['overview', 'Overview'], ['risk', 'Risk']] as const).map(([tab, label]) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`px-4 py-2 -mb-px text-sm font-medium border-b-2 transition-colors duration-300 ${
+              activeTab === tab
+                ? 'border-blue-600 dark:border-white text-slate-900 dark:text-white'
+                : 'border-transparent text-slate-500 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'risk' ? (
+        <PortfolioRiskReport holdings={riskHoldings} />
+      ) : (
+        <>
+          {/* Metrics Overview */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            {metrics.map((metric, index) => (
+              <motion.div
+                key={metric.label}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.1 }}
+                className="bg-white/80 dark:bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-slate-200/50 dark:border-white/20 shadow-sm hover:shadow-md dark:shadow-none transition-all duration-300"
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <metric.icon className={`h-5 w-5 ${metric.color} transition-colors duration-300`} />
+                  <span className={`text-sm ${metric.color} flex items-center transition-colors duration-300`}>
+                    {metric.change >= 0 ? '+' : ''}{metric.change.toFixed(1)}%
+                  </span>
+                </div>
+                <h3 className="text-sm text-slate-500 dark:text-gray-400 mb-1 transition-colors duration-300">{metric.label}</h3>
+                <p className={`text-xl font-bold ${metric.color} transition-colors duration-300`}>{metric.value}</p>
+              </motion.div>
+            ))}
+          </div>
+
+          {/* Performance Chart */}
           <motion.div
-            key={metric.label}
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: index * 0.1 }}
+            transition={{ delay: 0.4 }}
             className="bg-white/80 dark:bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-slate-200/50 dark:border-white/20 shadow-sm hover:shadow-md dark:shadow-none transition-all duration-300"
           >
-            <div className="flex items-center justify-between mb-2">
-              <metric.icon className={`h-5 w-5 ${metric.color} transition-colors duration-300`} />
-              <span className={`text-sm ${metric.color} flex items-center transition-colors duration-300`}>
-                {metric.change >= 0 ? '+' : ''}{metric.change.toFixed(1)}%
-              </span>
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-white transition-colors duration-300">Portfolio Performance</h3>
+              <div className="flex space-x-2">
+                {PERIODS.map((period) => (
+                  <button
+                    key={period}
+                    onClick={() => setSelectedPeriod(period)}
+                    className={`px-3 py-1 rounded text-sm transition-all duration-300 ${
+                      selectedPeriod === period
+                        ? 'bg-blue-600 dark:bg-white text-white dark:text-black shadow-md'
+                        : 'bg-slate-200/50 dark:bg-white/10 text-slate-600 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-300/70 dark:hover:bg-white/20'
+                    }`}
+                  >
+                    {period}
+                  </button>
+                ))}
+              </div>
             </div>
-            <h3 className="text-sm text-slate-500 dark:text-gray-400 mb-1 transition-colors duration-300">{metric.label}</h3>
-            <p className={`text-xl font-bold ${metric.color} transition-colors duration-300`}>{metric.value}</p>
-          </motion.div>
-        ))}
-      </div>
 
-      {/* Performance Chart */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 0.4 }}
-        className="bg-white/80 dark:bg-white/5 backdrop-blur-sm rounded-xl p-6 border border-slate-200/50 dark:border-white/20 shadow-sm hover:shadow-md dark:shadow-none transition-all duration-300"
-      >
-        <div className="flex justify-between items-center mb-6">
-          <h3 className="text-lg font-semibold text-slate-900 dark:text-white transition-colors duration-300">Portfolio Performance</h3>
-          <div className="flex space-x-2">
-            {(['1M', '3M', '6M', '1Y'] as const).map((period) => (
+            {/* Benchmarks */}
+            <div className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+              <span className="text-slate-500 dark:text-gray-400">Compare with</span>
+              {Array.from(new Set([...PRESET_BENCHMARKS, ...benchmarks])).map((symbol) => (
+                <button
+                  key={symbol}
+                  onClick={() => toggleBenchmark(symbol)}
+                  className={`px-3 py-1 rounded-full transition-all duration-300 ${
+                    benchmarks.includes(symbol)
+                      ? 'bg-blue-600 dark:bg-white text-white dark:text-black'
+                      : 'bg-slate-200/50 dark:bg-white/10 text-slate-600 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white'
+                  }`}
+                >
+                  {symbol}
+                </button>
+              ))}
+              <input
+                value={customBenchmark}
+                onChange={(event) => setCustomBenchmark(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') addCustomBenchmark();
+                }}
+                placeholder="Ticker"
+                disabled={benchmarks.length >= MAX_BENCHMARKS}
+                className="w-24 px-2 py-1 rounded border border-slate-300 dark:border-white/20 bg-transparent text-slate-900 dark:text-white disabled:opacity-50"
+              />
               <button
-                key={period}
-                onClick={() => setSelectedPeriod(period)}
-                className={`px-3 py-1 rounded text-sm transition-all duration-300 ${
-                  selectedPeriod === period
-                    ? 'bg-blue-600 dark:bg-white text-white dark:text-black shadow-md'
-                    : 'bg-slate-200/50 dark:bg-white/10 text-slate-600 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-300/70 dark:hover:bg-white/20'
-                }`}
+                onClick={addCustomBenchmark}
+                disabled={benchmarks.length >= MAX_BENCHMARKS || !customBenchmark.trim()}
+                className="px-3 py-1 rounded bg-slate-200/50 dark:bg-white/10 text-slate-600 dark:text-gray-400 hover:text-slate-900 dark:hover:text-white disabled:opacity-50"
               >
-                {period}
+                Add
               </button>
-            ))}
-          </div>
-        </div>
-        
-        <div className="h-64">
-          <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={performanceData}>
-              <CartesianGrid strokeDasharray="3 3" stroke="rgb(203, 213, 225)" className="dark:stroke-gray-600 opacity-30" />
-              <XAxis dataKey="date" stroke="rgb(71, 85, 105)" className="dark:stroke-gray-400" fontSize={12} />
-              <YAxis stroke="rgb(71, 85, 105)" className="dark:stroke-gray-400" fontSize={12} />
-              <Bar dataKey="value" fill="rgb(59, 130, 246)" className="dark:fill-white" radius={[2, 2, 0, 0]} />
-            </BarChart>
-          </ResponsiveContainer>
-        </div>
-      </motion.div>
+            </div>
 
-      {/* Two Column Layout */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-        {/* Sector Allocation */}
-        <motion.div
-          initial={{ opacity: 0, x: -20 }}
-          animate={{ opacity: 1, x: 0 }}
-          transition={{ delay: 0.6 }}
-          className="bg-white bg-opacity-5 backdrop-blur-sm rounded-lg p-6 border border-white border-opacity-20"
-        >
-          <h3 className="text-lg font-semibold text-white mb-6">Sector Allocation</h3>
-          <div className="h-48">
-            <ResponsiveContainer width="100%" height="100%">
-              <PieChart>
-                <Pie
-                  data={sectorData}
-                  cx="50%"
-                  cy="50%"
-                  innerRadius={40}
-                  outerRadius={80}
-                  paddingAngle={2}
-                  dataKey="value"
-                >
-                  {sectorData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.color} />
+            {performanceError && <div className="mb-4 text-sm text-red-600 dark:text-red-400">{performanceError}</div>}
+            {performance && performance.missing.length > 0 && (
+              <div className="mb-4 text-sm text-amber-600 dark:text-amber-400">No price history for: {performance.missing.join(', ')}</div>
+            )}
+
+            {/* Return summary */}
+            {performance && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                <div>
+                  <div className="text-sm text-slate-500 dark:text-gray-400">Time-Weighted Return</div>
+                  <div className="text-lg font-semibold text-slate-900 dark:text-white">{formatReturn(performance.timeWeightedReturn)}</div>
+                  {performance.annualizedReturn !== null && (
+                    <div className="text-xs text-slate-500 dark:text-gray-400">{formatReturn(performance.annualizedReturn)} a year</div>
+                  )}
+                </div>
+                <div>
+                  <div className="text-sm text-slate-500 dark:text-gray-400">Money-Weighted (IRR)</div>
+                  <div className="text-lg font-semibold text-slate-900 dark:text-white">{formatReturn(performance.moneyWeightedReturn)}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-slate-500 dark:text-gray-400">Gain</div>
+                  <div className={`text-lg font-semibold ${performance.gain >= 0 ? 'text-emerald-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {performance.gain >= 0 ? '+' : '-'}${Math.abs(performance.gain).toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                  </div>
+                  {performance.dividends > 0 && (
+                    <div className="text-xs text-slate-500 dark:text-gray-400">incl. ${performance.dividends.toFixed(2)} dividends</div>
+                  )}
+                </div>
+                <div>
+                  <div className="text-sm text-slate-500 dark:text-gray-400">vs Benchmarks</div>
+                  {performance.benchmarks.length === 0 && <div className="text-lg font-semibold text-slate-900 dark:text-white">N/A</div>}
+                  {performance.benchmarks.map((benchmark) => (
+                    <div key={benchmark.symbol} className={`font-semibold ${benchmark.excessReturn >= 0 ? 'text-emerald-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                      {benchmark.excessReturn >= 0 ? 'Beat' : 'Trailed'} {benchmark.symbol} by {Math.abs(benchmark.excessReturn).toFixed(2)} pts
+                    </div>
                   ))}
-                </Pie>
-              </PieChart>
-            </ResponsiveContainer>
-          </div>
-          <div className="space-y-2 mt-4">
-            {sectorData.map((sector) => (
-              <div key={sector.name} className="flex items-center justify-between">
-                <div className="flex items-center space-x-2">
-                  <div 
-                    className="w-3 h-3 rounded-full"
-                    style={{ backgroundColor: sector.color }}
-                  />
-                  <span className="text-gray-300 text-sm">{sector.name}</span>
                 </div>
-                <span className="text-white text-sm font-medium">{sector.value}%</span>
               </div>
-            ))}
-          </div>
-        </motion.div>
+            )}
 
-        {/* Holdings Table */}
-        <motion.div
-          initial={{ opacity: 0, x: 20 }}
-          animate={{ opacity: 1, x: 0 }}
-          transition={{ delay: 0.8 }}
-          className="bg-white bg-opacity-5 backdrop-blur-sm rounded-lg p-6 border border-white border-opacity-20"
-        >
-          <div className="flex justify-between items-center mb-6">
-            <h3 className="text-lg font-semibold text-white">Holdings Summary</h3>
-            <button
-              onClick={() => setIsExpanded(!isExpanded)}
-              className="text-gray-400 hover:text-white transition-colors text-sm"
-            >
-              {isExpanded ? 'Collapse' : 'Expand'}
-            </button>
-          </div>
-          
-          <motion.div
-            animate={{ height: isExpanded ? 'auto' : '200px' }}
-            className="overflow-hidden"
-          >
-            <div className="space-y-3">
-              {portfolio.stocks.map((stock) => {
-                const currentValue = (stock.currentPrice || 0) * stock.quantity;
-                const totalReturn = currentValue - (stock.buyPrice * stock.quantity);
-                const returnPercent = ((stock.currentPrice || 0) - stock.buyPrice) / stock.buyPrice * 100;
+            <div className="h-64">
+              {performanceData.length === 0 ? (
+                <div className="h-full flex items-center justify-center text-slate-500 dark:text-gray-400">
+                  {isLoadingPerformance ? 'Loading performance…' : transactions.length === 0 ? 'Add stocks to track performance.' : 'No performance data for this period.'}
+                </div>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={performanceData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgb(203, 213, 225)" className="dark:stroke-gray-600 opacity-30" />
+                    <XAxis dataKey="date" stroke="rgb(71, 85, 105)" className="dark:stroke-gray-400" fontSize={12} />
+                    <YAxis stroke="rgb(71, 85, 105)" className="dark:stroke-gray-400" fontSize={12} tickFormatter={(value: number) => `${value}%`} />
+                    <Tooltip formatter={(value: number) => `${value.toFixed(2)}%`} />
+                    <Legend />
+                    <Line type="monotone" dataKey="Portfolio" stroke="rgb(59, 130, 246)" dot={false} strokeWidth={2} />
+                    {(performance?.benchmarks ?? []).map((benchmark, index) => (
+                      <Line
+                        key={benchmark.symbol}
+                        type="monotone"
+                        dataKey={benchmark.symbol}
+                        stroke={BENCHMARK_COLORS[index % BENCHMARK_COLORS.length]}
+                        dot={false}
+                        strokeDasharray="4 2"
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+          </motion.div>
 
-                return (
-                  <div key={stock.id} className="flex justify-between items-center py-2 border-b border-gray-800 last:border-b-0">
-                    <div>
-                      <div className="font-medium text-white">{stock.ticker}</div>
-                      <div className="text-sm text-gray-400">{stock.quantity} shares</div>
-                    </div>
-                    <div className="text-right">
-                      <div className="text-white">${currentValue.toFixed(2)}</div>
-                      <div className={`text-sm ${returnPercent >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                        {returnPercent >= 0 ? '+' : ''}{returnPercent.toFixed(1)}%
-                      </div>
+          {/* Two Column Layout */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Sector Allocation */}
+            <motion.div
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.6 }}
+              className="bg-white bg-opacity-5 backdrop-blur-sm rounded-lg p-6 border border-white border-opacity-20"
+            >
+              <h3 className="text-lg font-semibold text-white mb-6">Sector Allocation</h3>
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie
+                      data={sectorData}
+                      cx="50%"
+                      cy="50%"
+                      innerRadius={40}
+                      outerRadius={80}
+                      paddingAngle={2}
+                      dataKey="value"
+                    >
+                      {sectorData.map((entry, index) => (
+                        <Cell key={`cell-${index}`} fill={entry.color} />
+                      ))}
+                    </Pie>
+                  </PieChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="space-y-2 mt-4">
+                {sectorData.map((sector) => (
+                  <div key={sector.name} className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <div 
+                        className="w-3 h-3 rounded-full"
+                        style={{ backgroundColor: sector.color }}
+                      />
+                      <span className="text-gray-300 text-sm">{sector.name}</span>
                     </div>
+                    <span className="text-white text-sm font-medium">{sector.value}%</span>
                   </div>
-                );
-              })}
-            </div>
-          </motion.div>
-        </motion.div>
-      </div>
+                ))}
+              </div>
+            </motion.div>
 
-      {/* Notifications Section */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 1 }}
-        className="bg-white bg-opacity-5 backdrop-blur-sm rounded-lg p-6 border border-white border-opacity-20"
-      >
-        <h3 className="text-lg font-semibold text-white mb-4">Recent Alerts</h3>
-        <div className="space-y-3">
-          <div className="flex items-center space-x-3 p-3 bg-green-400 bg-opacity-10 rounded-lg border border-green-400 border-opacity-20">
-            <div className="text-green-400">✅</div>
-            <div>
-              <div className="text-white font-medium">AAPL +12% - Hold Recommendation</div>
-              <div className="text-gray-400 text-sm">Strong performance continues</div>
-            </div>
-          </div>
+            {/* Holdings Table */}
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: 0.8 }}
+              className="bg-white bg-opacity-5 backdrop-blur-sm rounded-lg p-6 border border-white border-opacity-20"
+            >
+              <div className="flex justify-between items-center mb-6">
+                <div>
+                  <h3 className="text-lg font-semibold text-white">Holdings Summary</h3>
+                  {ledger && (
+                    <div className="text-sm text-gray-400">
+                      Realized{' '}
+                      <span className={ledger.summary.totals.realizedGain >= 0 ? 'text-green-400' : 'text-red-400'}>
+                        {ledger.summary.totals.realizedGain >= 0 ? '+' : '-'}${Math.abs(ledger.summary.totals.realizedGain).toFixed(2)}
+                      </span>
+                      {' • '}Dividends ${ledger.summary.totals.dividends.toFixed(2)}
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => setIsExpanded(!isExpanded)}
+                  className="text-gray-400 hover:text-white transition-colors text-sm"
+                >
+                  {isExpanded ? 'Collapse' : 'Expand'}
+                </button>
+              </div>
           
-          <div className="flex items-center space-x-3 p-3 bg-red-400 bg-opacity-10 rounded-lg border border-red-400 border-opacity-20">
-            <div className="text-red-400">❌</div>
-            <div>
-              <div className="text-white font-medium">TSLA -8% - Consider Selling</div>
-              <div className="text-gray-400 text-sm">Momentum weakening</div>
-            </div>
+              <motion.div
+                animate={{ height: isExpanded ? 'auto' : '200px' }}
+                className="overflow-hidden"
+              >
+                <div className="space-y-3">
+                  {portfolio.stocks.filter((stock) => stock.quantity > 0).map((stock) => {
+                    const holding = holdingsByTicker.get(stock.ticker);
+                    const currentValue = (stock.currentPrice || 0) * stock.quantity;
+                    const costBasis = holding ? holding.costBasis : stock.buyPrice * stock.quantity;
+                    const returnPercent = costBasis > 0 ? (currentValue - costBasis) / costBasis * 100 : 0;
+
+                    return (
+                      <div key={stock.id} className="flex justify-between items-center py-2 border-b border-gray-800 last:border-b-0">
+                        <div>
+                          <div className="font-medium text-white">{stock.ticker}</div>
+                          <div className="text-sm text-gray-400">
+                            {stock.quantity} shares{holding && holding.lots.length > 1 ? ` • ${holding.lots.length} lots` : ''}
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <div className="text-white">${currentValue.toFixed(2)}</div>
+                          <div className={`text-sm ${returnPercent >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {returnPercent >= 0 ? '+' : ''}{returnPercent.toFixed(1)}%
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </motion.div>
+            </motion.div>
           </div>
+
+          {/* Notifications Section */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 1 }}
+            className="bg-white bg-opacity-5 backdrop-blur-sm rounded-lg p-6 border border-white border-opacity-20"
+          >
+            <h3 className="text-lg font-semibold text-white mb-4">Recent Alerts</h3>
+            <div className="space-y-3">
+              <div className="flex items-center space-x-3 p-3 bg-green-400 bg-opacity-10 rounded-lg border border-green-400 border-opacity-20">
+                <div className="text-green-400">✅</div>
+                <div>
+                  <div className="text-white font-medium">AAPL +12% - Hold Recommendation</div>
+                  <div className="text-gray-400 text-sm">Strong performance continues</div>
+                </div>
+              </div>
+          
+              <div className="flex items-center space-x-3 p-3 bg-red-400 bg-opacity-10 rounded-lg border border-red-400 border-opacity-20">
+                <div className="text-red-400">❌</div>
+                <div>
+                  <div className="text-white font-medium">TSLA -8% - Consider Selling</div>
+                  <div className="text-gray-400 text-sm">Momentum weakening</div>
+                </div>
+              </div>
           
-          <div className="flex items-center space-x-3 p-3 bg-yellow-400 bg-opacity-10 rounded-lg border border-yellow-400 border-opacity-20">
-            <div className="text-yellow-400">⚠️</div>
-            <div>
-              <div className="text-white font-medium">NVDA trending strong - Good time to Buy More</div>
-              <div className="text-gray-400 text-sm">AI sector momentum</div>
+              <div className="flex items-center space-x-3 p-3 bg-yellow-400 bg-opacity-10 rounded-lg border border-yellow-400 border-opacity-20">
+                <div className="text-yellow-400">⚠️</div>
+                <div>
+                  <div className="text-white font-medium">NVDA trending strong - Good time to Buy More</div>
+                  <div className="text-gray-400 text-sm">AI sector momentum</div>
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
-      </motion.div>
+          </motion.div>
+        </>
+      )}
     </motion.div>
   );
 }
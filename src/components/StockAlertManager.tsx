@@ -1,50 +1,91 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useNotifications } from '@/contexts/NotificationContext';
-import { StockAlert } from '@/types';
+import { AlertCondition, AlertDefinition, AlertPolicy } from '@/types';
+import { checkSignalRule, formatSignalRuleDiagnostic } from '@/services/signalRules';
+import { DEFAULT_ALERT_POLICY, describeCondition, describePolicy } from '@/services/alertEngine';
+
+type AlertType = 'ABOVE' | 'BELOW' | 'RULE';
+
+const EMPTY_ALERT = {
+  ticker: '',
+  type: 'ABOVE' as AlertType,
+  targetPrice: '',
+  condition: '',
+  rearm: false,
+  rearmPercent: String(DEFAULT_ALERT_POLICY.rearmPercent ?? ''), // Blank re-arms on the cooldown alone
+  cooldownMinutes: String(DEFAULT_ALERT_POLICY.cooldownMinutes),
+  dailyCap: '',
+  marketHoursOnly: false,
+};
+
+const RULE_EXAMPLES = [
+  'rsi(14) < 30',
+  'close > sma(200) and rsi(14) < 40',
+  'volume > 2 * avg_volume(20)',
+  'sma(50) crosses above sma(200)',
+];
 
 interface StockAlertManagerProps {
   availableTickers: string[];
+  // Opens the alert builder prefilled, e.g. from a screener result
+  draft?: { ticker: string; condition?: string } | null;
 }
 
-const StockAlertManager: React.FC<StockAlertManagerProps> = ({ availableTickers }) => {
+const StockAlertManager: React.FC<StockAlertManagerProps> = ({ availableTickers, draft }) => {
   const { theme } = useTheme();
-  const { stockAlerts, addStockAlert, deleteStockAlert, updateStockAlert } = useNotifications();
+  const { alerts, createAlert, deleteAlert, setAlertActive } = useNotifications();
   const [isCreating, setIsCreating] = useState(false);
-  const [newAlert, setNewAlert] = useState({
-    ticker: '',
-    type: 'ABOVE' as 'ABOVE' | 'BELOW',
-    targetPrice: '',
-  });
+  const [newAlert, setNewAlert] = useState(EMPTY_ALERT);
+
+  useEffect(() => {
+    if (!draft) return;
+    setNewAlert({
+      ...EMPTY_ALERT,
+      ticker: draft.ticker,
+      type: draft.condition ? 'RULE' : 'ABOVE',
+      condition: draft.condition ?? '',
+    });
+    setIsCreating(true);
+  }, [draft]);
+
+  // Rules are parsed and type-checked as the user types
+  const ruleDiagnostics = useMemo(
+    () => (newAlert.type === 'RULE' && newAlert.condition.trim() ? checkSignalRule(newAlert.condition) : []),
+    [newAlert.type, newAlert.condition]
+  );
 
   const handleCreateAlert = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newAlert.ticker || !newAlert.targetPrice) return;
+    if (!newAlert.ticker) return;
+    const isRule = newAlert.type === 'RULE';
+    if (isRule ? !newAlert.condition.trim() || ruleDiagnostics.length > 0 : !newAlert.targetPrice) return;
 
-    await addStockAlert({
-      userId: 'current-user', // This should come from auth context
-      ticker: newAlert.ticker,
-      type: newAlert.type,
-      targetPrice: parseFloat(newAlert.targetPrice),
-      isActive: true,
-    });
+    const condition: AlertCondition = isRule
+      ? { type: 'rule', rule: newAlert.condition.trim() }
+      : { type: newAlert.type === 'ABOVE' ? 'above' : 'below', price: parseFloat(newAlert.targetPrice) };
+    const policy: Partial<AlertPolicy> = { marketHoursOnly: newAlert.marketHoursOnly };
+    if (newAlert.rearm) {
+      policy.rearmPercent = newAlert.rearmPercent.trim() ? parseFloat(newAlert.rearmPercent) : null;
+      policy.cooldownMinutes = parseFloat(newAlert.cooldownMinutes) || 0;
+      if (newAlert.dailyCap.trim()) policy.dailyCap = parseInt(newAlert.dailyCap, 10);
+    }
+    const created = await createAlert(newAlert.ticker, [condition], { repeat: newAlert.rearm ? 'rearm' : 'once', policy });
+    if (!created) return;
 
-    setNewAlert({ ticker: '', type: 'ABOVE', targetPrice: '' });
+    setNewAlert(EMPTY_ALERT);
     setIsCreating(false);
   };
 
-  const handleToggleAlert = async (alert: StockAlert) => {
-    await updateStockAlert({
-      ...alert,
-      isActive: !alert.isActive,
-    });
+  const handleToggleAlert = async (alert: AlertDefinition) => {
+    await setAlertActive(alert.id, !alert.isActive);
   };
 
   const handleDeleteAlert = async (alertId: string) => {
-    await deleteStockAlert(alertId);
+    await deleteAlert(alertId);
   };
 
   return (
@@ -120,7 +161,7 @@ const StockAlertManager: React.FC<StockAlertManagerProps> = ({ availableTickers
                     required
                   >
                     <option value="">Select a stock</option>
-                    {[...new Set(availableTickers)].map((ticker, index) => (
+                    {[...new Set(draft ? [...availableTickers, draft.ticker] : availableTickers)].map((ticker, index) => (
                       <option key={`${ticker}-${index}`} value={ticker}>
                         {ticker}
                       </option>
@@ -141,7 +182,7 @@ const StockAlertManager: React.FC<StockAlertManagerProps> = ({ availableTickers
                         type="radio"
                         value="ABOVE"
                         checked={newAlert.type === 'ABOVE'}
-                        onChange={(e) => setNewAlert({ ...newAlert, type: e.target.value as 'ABOVE' | 'BELOW' })}
+                        onChange={(e) => setNewAlert({ ...newAlert, type: e.target.value as AlertType })}
                         className="mr-2 text-blue-600"
                       />
                       <span className={theme === 'dark' ? 'text-slate-300' : 'text-slate-700'}>
@@ -153,37 +194,155 @@ const StockAlertManager: React.FC<StockAlertManagerProps> = ({ availableTickers
                         type="radio"
                         value="BELOW"
                         checked={newAlert.type === 'BELOW'}
-                        onChange={(e) => setNewAlert({ ...newAlert, type: e.target.value as 'ABOVE' | 'BELOW' })}
+                        onChange={(e) => setNewAlert({ ...newAlert, type: e.target.value as AlertType })}
                         className="mr-2 text-blue-600"
                       />
                       <span className={theme === 'dark' ? 'text-slate-300' : 'text-slate-700'}>
                         Price goes below
                       </span>
                     </label>
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        value="RULE"
+                        checked={newAlert.type === 'RULE'}
+                        onChange={(e) => setNewAlert({ ...newAlert, type: e.target.value as AlertType })}
+                        className="mr-2 text-blue-600"
+                      />
+                      <span className={theme === 'dark' ? 'text-slate-300' : 'text-slate-700'}>
+                        Signal rule
+                      </span>
+                    </label>
                   </div>
                 </div>
 
+                {/* Signal Rule */}
+                {newAlert.type === 'RULE' && (
+                  <div>
+                    <label className={`block text-sm font-medium mb-2 ${
+                      theme === 'dark' ? 'text-slate-300' : 'text-slate-700'
+                    }`}>
+                      Condition
+                    </label>
+                    <textarea
+                      value={newAlert.condition}
+                      onChange={(e) => setNewAlert({ ...newAlert, condition: e.target.value })}
+                      rows={2}
+                      spellCheck={false}
+                      className={`w-full px-3 py-2 rounded-lg border font-mono text-sm transition-colors ${
+                        theme === 'dark' ? 'bg-slate-800 text-white' : 'bg-white text-slate-900'
+                      } ${
+                        ruleDiagnostics.length > 0
+                          ? 'border-red-500'
+                          : theme === 'dark'
+                          ? 'border-slate-600 focus:border-blue-500'
+                          : 'border-slate-300 focus:border-blue-500'
+                      }`}
+                      placeholder="rsi(14) < 30 and close > sma(200)"
+                      required
+                    />
+                    {ruleDiagnostics.length > 0 ? (
+                      <pre className="mt-2 text-xs text-red-500 whitespace-pre-wrap font-mono">
+                        {ruleDiagnostics.map(diagnostic => formatSignalRuleDiagnostic(newAlert.condition, diagnostic)).join('\n')}
+                      </pre>
+                    ) : (
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {RULE_EXAMPLES.map(example => (
+                          <button
+                            key={example}
+                            type="button"
+                            onClick={() => setNewAlert({ ...newAlert, condition: example })}
+                            className={`px-2 py-1 rounded text-xs font-mono ${
+                              theme === 'dark' ? 'bg-slate-800 text-slate-300' : 'bg-slate-100 text-slate-700'
+                            }`}
+                          >
+                            {example}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Target Price */}
-                <div>
-                  <label className={`block text-sm font-medium mb-2 ${
-                    theme === 'dark' ? 'text-slate-300' : 'text-slate-700'
-                  }`}>
-                    Target Price ($)
-                  </label>
+                {newAlert.type !== 'RULE' && (
+                  <div>
+                    <label className={`block text-sm font-medium mb-2 ${
+                      theme === 'dark' ? 'text-slate-300' : 'text-slate-700'
+                    }`}>
+                      Target Price ($)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={newAlert.targetPrice}
+                      onChange={(e) => setNewAlert({ ...newAlert, targetPrice: e.target.value })}
+                      className={`w-full px-3 py-2 rounded-lg border transition-colors ${
+                        theme === 'dark'
+                          ? 'bg-slate-800 border-slate-600 text-white focus:border-blue-500'
+                          : 'bg-white border-slate-300 text-slate-900 focus:border-blue-500'
+                      }`}
+                      placeholder="0.00"
+                      required
+                    />
+                  </div>
+                )}
+
+                {/* Repeat */}
+                <label className="flex items-center">
                   <input
-                    type="number"
-                    step="0.01"
-                    value={newAlert.targetPrice}
-                    onChange={(e) => setNewAlert({ ...newAlert, targetPrice: e.target.value })}
-                    className={`w-full px-3 py-2 rounded-lg border transition-colors ${
-                      theme === 'dark'
-                        ? 'bg-slate-800 border-slate-600 text-white focus:border-blue-500'
-                        : 'bg-white border-slate-300 text-slate-900 focus:border-blue-500'
-                    }`}
-                    placeholder="0.00"
-                    required
+                    type="checkbox"
+                    checked={newAlert.rearm}
+                    onChange={(e) => setNewAlert({ ...newAlert, rearm: e.target.checked })}
+                    className="mr-2 text-blue-600"
                   />
-                </div>
+                  <span className={`text-sm ${theme === 'dark' ? 'text-slate-300' : 'text-slate-700'}`}>
+                    Keep the alert active after it fires
+                  </span>
+                </label>
+
+                {newAlert.rearm && (
+                  <div className="grid grid-cols-3 gap-3">
+                    {([
+                      ['rearmPercent', 'Re-arm after (%)', 'Cooldown only'],
+                      ['cooldownMinutes', 'Cooldown (min)', '0'],
+                      ['dailyCap', 'Max per day', 'No limit'],
+                    ] as const).map(([field, label, placeholder]) => (
+                      <div key={field}>
+                        <label className={`block text-xs font-medium mb-1 ${
+                          theme === 'dark' ? 'text-slate-400' : 'text-slate-600'
+                        }`}>
+                          {label}
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          step={field === 'rearmPercent' ? '0.1' : '1'}
+                          value={newAlert[field]}
+                          onChange={(e) => setNewAlert({ ...newAlert, [field]: e.target.value })}
+                          className={`w-full px-2 py-1 rounded border text-sm ${
+                            theme === 'dark'
+                              ? 'bg-slate-800 border-slate-600 text-white'
+                              : 'bg-white border-slate-300 text-slate-900'
+                          }`}
+                          placeholder={placeholder}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={newAlert.marketHoursOnly}
+                    onChange={(e) => setNewAlert({ ...newAlert, marketHoursOnly: e.target.checked })}
+                    className="mr-2 text-blue-600"
+                  />
+                  <span className={`text-sm ${theme === 'dark' ? 'text-slate-300' : 'text-slate-700'}`}>
+                    Only during market hours
+                  </span>
+                </label>
 
                 {/* Buttons */}
                 <div className="flex space-x-3 pt-4">
@@ -200,7 +359,8 @@ const StockAlertManager: React.FC<StockAlertManagerProps> = ({ availableTickers
                   </button>
                   <button
                     type="submit"
-                    className="flex-1 px-4 py-2 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+                    disabled={ruleDiagnostics.length > 0}
+                    className="flex-1 px-4 py-2 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors disabled:opacity-50"
                   >
                     Create Alert
                   </button>
@@ -213,7 +373,7 @@ const StockAlertManager: React.FC<StockAlertManagerProps> = ({ availableTickers
 
       {/* Alerts List */}
       <div className="space-y-3">
-        {stockAlerts.length === 0 ? (
+        {alerts.length === 0 ? (
           <div className={`text-center py-8 ${
             theme === 'dark' ? 'text-slate-400' : 'text-slate-500'
           }`}>
@@ -231,10 +391,10 @@ const StockAlertManager: React.FC<StockAlertManagerProps> = ({ availableTickers
               />
             </svg>
             <p>No price alerts set</p>
-            <p className="text-sm mt-2">Create your first alert to get notified when stocks reach your target prices</p>
+            <p className="text-sm mt-2">Create your first alert to get notified when stocks reach your target prices or match a signal rule</p>
           </div>
         ) : (
-          stockAlerts.map((alert) => (
+          alerts.map((alert) => (
             <motion.div
               key={alert.id}
               initial={{ opacity: 0, y: 20 }}
@@ -255,7 +415,7 @@ const StockAlertManager: React.FC<StockAlertManagerProps> = ({ availableTickers
                   <div className={`w-3 h-3 rounded-full ${
                     alert.isActive
                       ? 'bg-green-500'
-                      : alert.triggeredAt
+                      : alert.lastTriggeredAt
                       ? 'bg-blue-500'
                       : 'bg-slate-400'
                   }`} />
@@ -271,18 +431,35 @@ const StockAlertManager: React.FC<StockAlertManagerProps> = ({ availableTickers
                       <span className={`text-sm ${
                         theme === 'dark' ? 'text-slate-300' : 'text-slate-600'
                       }`}>
-                        {alert.type === 'ABOVE' ? '≥' : '≤'} ${alert.targetPrice.toFixed(2)}
+                        {alert.conditions.map((condition, index) => (
+                          <React.Fragment key={index}>
+                            {index > 0 && ' or '}
+                            {condition.type === 'rule'
+                              ? <code className="font-mono">{condition.rule}</code>
+                              : describeCondition(condition)}
+                          </React.Fragment>
+                        ))}
                       </span>
+                      {alert.source !== 'stock' && (
+                        <span className={`px-2 py-0.5 rounded text-xs ${
+                          theme === 'dark' ? 'bg-slate-700 text-slate-300' : 'bg-slate-200 text-slate-600'
+                        }`}>
+                          {alert.source === 'position' ? 'Position' : 'Price'}
+                        </span>
+                      )}
                     </div>
                     <p className={`text-sm ${
                       theme === 'dark' ? 'text-slate-400' : 'text-slate-500'
                     }`}>
                       {alert.isActive
-                        ? 'Active'
-                        : alert.triggeredAt
-                        ? 'Triggered'
+                        ? alert.lastTriggeredAt
+                          ? `Active · last fired ${new Date(alert.lastTriggeredAt).toLocaleString()}`
+                          : 'Active'
+                        : alert.lastTriggeredAt
+                        ? `Triggered ${new Date(alert.lastTriggeredAt).toLocaleString()}`
                         : 'Inactive'
                       }
+                      {' · '}{describePolicy(alert)}
                     </p>
                   </div>
                 </div>
@@ -303,16 +480,19 @@ const StockAlertManager: React.FC<StockAlertManagerProps> = ({ availableTickers
                   >
                     {alert.isActive ? 'Pause' : 'Resume'}
                   </button>
-                  <button
-                    onClick={() => handleDeleteAlert(alert.id)}
-                    className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
-                      theme === 'dark'
-                        ? 'bg-slate-700 hover:bg-slate-600 text-slate-300'
-                        : 'bg-slate-200 hover:bg-slate-300 text-slate-700'
-                    }`}
-                  >
-                    Delete
-                  </button>
+                  {/* Position alerts follow the position's thresholds */}
+                  {alert.source !== 'position' && (
+                    <button
+                      onClick={() => handleDeleteAlert(alert.id)}
+                      className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                        theme === 'dark'
+                          ? 'bg-slate-700 hover:bg-slate-600 text-slate-300'
+                          : 'bg-slate-200 hover:bg-slate-300 text-slate-700'
+                      }`}
+                    >
+                      Delete
+                    </button>
+                  )}
                 </div>
               </div>
             </motion.div>
@@ -3,11 +3,12 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, BarChart, Bar } from 'recharts';
-import { Stock } from '@/types';
+import { LedgerHolding, Stock } from '@/types';
 import { TrendingUp, TrendingDown, AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
 
 interface StockInsightsProps {
   stocks: Stock[];
+  holdings?: LedgerHolding[]; // Ledger positions; their cost basis replaces the stock's buy price
   onClose?: () => void;
 }
 
@@ -39,7 +40,7 @@ interface StockAnalysis {
   };
 }
 
-const StockInsights = React.memo<StockInsightsProps>(({ stocks, onClose }) => {
+const StockInsights = React.memo<StockInsightsProps>(({ stocks, holdings, onClose }) => {
   const [realTimeData, setRealTimeData] = useState<Map<string, RealTimeStockData>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -330,9 +331,12 @@ const StockInsights = React.memo<StockInsightsProps>(({ stocks, onClose }) => {
         }
 
         const analysis = getAIAnalysis(stock, stockData);
-        const currentValue = stockData.currentPrice * stock.quantity;
-        const totalReturn = currentValue - (stock.buyPrice * stock.quantity);
-        const returnPercent = ((stockData.currentPrice - stock.buyPrice) / stock.buyPrice) * 100;
+        const holding = holdings?.find(position => position.ticker === stock.ticker);
+        const quantity = holding ? holding.quantity : stock.quantity;
+        const investment = holding ? holding.costBasis : stock.buyPrice * stock.quantity;
+        const currentValue = stockData.currentPrice * quantity;
+        const totalReturn = currentValue - investment;
+        const returnPercent = investment > 0 ? (totalReturn / investment) * 100 : 0;
 
         return (
           <motion.div
@@ -349,7 +353,9 @@ const StockInsights = React.memo<StockInsightsProps>(({ stocks, onClose }) => {
                   {stock.ticker}
                 </h3>
                 <p className="text-slate-600 dark:text-slate-400 transition-colors duration-300">
-                  {stock.quantity} shares • Purchased {formatDate(stock.buyDate)}
+                  {quantity} shares • {holding && holding.lots.length > 1
+                    ? `${holding.lots.length} lots since ${formatDate(holding.firstAcquired)}`
+                    : `Purchased ${formatDate(holding ? holding.firstAcquired : stock.buyDate)}`}
                 </p>
                 <div className="flex items-center space-x-2 mt-1">
                   <span className="text-xs px-2 py-1 bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 rounded-full">
@@ -481,9 +487,9 @@ const StockInsights = React.memo<StockInsightsProps>(({ stocks, onClose }) => {
                   </div>
                   <div className="border-t border-slate-200 dark:border-slate-600 pt-3 mt-3">
                     <div className="flex justify-between">
-                      <span className="text-slate-500 dark:text-gray-400 transition-colors duration-300">Investment:</span>
+                      <span className="text-slate-500 dark:text-gray-400 transition-colors duration-300">{holding ? 'Cost Basis:' : 'Investment:'}</span>
                       <span className="text-slate-900 dark:text-white font-medium transition-colors duration-300">
-                        ${(stock.buyPrice * stock.quantity).toFixed(2)}
+                        ${investment.toFixed(2)}
                       </span>
                     </div>
                     <div className="flex justify-between">
@@ -500,11 +506,55 @@ const StockInsights = React.memo<StockInsightsProps>(({ stocks, onClose }) => {
                         {totalReturn >= 0 ? '+' : ''}${totalReturn.toFixed(2)}
                       </span>
                     </div>
+                    {holding && (
+                      <>
+                        <div className="flex justify-between">
+                          <span className="text-slate-500 dark:text-gray-400 transition-colors duration-300">Realized P&L:</span>
+                          <span className={`font-medium transition-colors duration-300 ${
+                            holding.realizedGain >= 0 ? 'text-emerald-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                          }`}>
+                            {holding.realizedGain >= 0 ? '+' : ''}${holding.realizedGain.toFixed(2)}
+                          </span>
+                        </div>
+                        {holding.dividends > 0 && (
+                          <div className="flex justify-between">
+                            <span className="text-slate-500 dark:text-gray-400 transition-colors duration-300">Dividends:</span>
+                            <span className="text-slate-900 dark:text-white font-medium transition-colors duration-300">
+                              ${holding.dividends.toFixed(2)}
+                            </span>
+                          </div>
+                        )}
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
             </div>
 
+            {/* Tax lots from the ledger */}
+            {holding && holding.lots.length > 1 && (
+              <div className="mb-6">
+                <h4 className="text-lg font-semibold text-slate-900 dark:text-white mb-4 transition-colors duration-300">
+                  Tax Lots
+                </h4>
+                <div className="bg-slate-50/80 dark:bg-black/30 rounded-xl p-4 border border-slate-200/50 dark:border-slate-700/50 transition-all duration-300 space-y-2 text-sm">
+                  {holding.lots.map(lot => {
+                    const lotGain = (stockData.currentPrice - lot.costPerShare) * lot.quantity;
+                    return (
+                      <div key={lot.id} className="flex justify-between">
+                        <span className="text-slate-600 dark:text-gray-300">
+                          {lot.quantity} @ ${lot.costPerShare.toFixed(2)} • {formatDate(lot.openDate)}
+                        </span>
+                        <span className={`font-medium ${lotGain >= 0 ? 'text-emerald-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                          {lotGain >= 0 ? '+' : ''}${lotGain.toFixed(2)}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Real-time Performance Summary */}
             <div>
               <h4 className="text-lg font-semibold text-slate-900 dark:text-white mb-4 transition-colors duration-300">
@@ -0,0 +1,403 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Bell, ChevronLeft, ChevronRight, Plus, RefreshCw, Search, X } from 'lucide-react';
+import { useTheme } from '@/contexts/ThemeContext';
+import { ScreenerField, ScreenerFilter, ScreenerOperator, ScreenerResult, ScreenerRow } from '@/types';
+import { checkSignalRule, formatSignalRuleDiagnostic } from '@/services/signalRules';
+
+interface ScreenerFieldInfo {
+  label: string;
+  kind: 'number' | 'string';
+  unit?: string;
+}
+
+// A filter as edited: the value stays text until the screen runs
+interface FilterDraft {
+  field: ScreenerField;
+  op: ScreenerOperator;
+  value: string;
+}
+
+interface StockScreenerProps {
+  watchlist: string[];
+  onAddToWatchlist: (ticker: string, name: string) => void;
+  onCreateAlert: (ticker: string, condition?: string) => void;
+}
+
+const OPERATOR_LABELS: Record<ScreenerOperator, string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '=',
+  neq: '≠',
+  between: 'between',
+  in: 'in',
+};
+
+const PRESETS: { label: string; filters: FilterDraft[]; rule?: string }[] = [
+  {
+    label: 'Large caps, P/E under 15, rising volume',
+    filters: [
+      { field: 'marketCap', op: 'gte', value: '10000' },
+      { field: 'peRatio', op: 'lt', value: '15' },
+    ],
+    rule: 'volume > avg_volume(20)',
+  },
+  { label: 'Near 52-week high', filters: [{ field: 'percentFromHigh', op: 'gte', value: '-5' }] },
+  { label: 'Dividend payers', filters: [{ field: 'dividendYield', op: 'gte', value: '3' }] },
+  { label: 'Oversold', filters: [], rule: 'rsi(14) < 30' },
+  { label: 'Golden cross', filters: [], rule: 'sma(50) crosses above sma(200)' },
+];
+
+const PAGE_SIZE = 25;
+
+const formatNumber = (value: number | null, digits = 2) =>
+  value === null ? '—' : value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+const formatMarketCap = (millions: number | null) => {
+  if (millions === null) return '—';
+  if (millions >= 1_000_000) return `$${(millions / 1_000_000).toFixed(2)}T`;
+  if (millions >= 1_000) return `$${(millions / 1_000).toFixed(1)}B`;
+  return `$${millions.toFixed(0)}M`;
+};
+
+// Convert an edited filter to the API shape; incomplete rows are left out
+const toFilter = (draft: FilterDraft, fields: Record<string, ScreenerFieldInfo>): ScreenerFilter | null => {
+  const isNumeric = fields[draft.field]?.kind !== 'string';
+  const parts = draft.value.split(',').map(part => part.trim()).filter(Boolean);
+  const values = isNumeric ? parts.map(Number) : parts;
+  if (values.length === 0 || values.some(value => typeof value === 'number' && isNaN(value))) return null;
+  if (draft.op === 'between' || draft.op === 'in') return { field: draft.field, op: draft.op, value: values };
+  return { field: draft.field, op: draft.op, value: values[0] };
+};
+
+const StockScreener: React.FC<StockScreenerProps> = ({ watchlist, onAddToWatchlist, onCreateAlert }) => {
+  const { theme } = useTheme();
+  const [fields, setFields] = useState<Record<string, ScreenerFieldInfo>>({});
+  const [filters, setFilters] = useState<FilterDraft[]>(PRESETS[0].filters);
+  const [rule, setRule] = useState(PRESETS[0].rule ?? '');
+  const [sort, setSort] = useState<{ field: ScreenerField; direction: 'asc' | 'desc' }>({ field: 'marketCap', direction: 'desc' });
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<ScreenerResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ruleDiagnostics = useMemo(() => (rule.trim() ? checkSignalRule(rule) : []), [rule]);
+  const watched = useMemo(() => new Set(watchlist.map(ticker => ticker.toUpperCase())), [watchlist]);
+
+  // Field metadata comes from the server so new fields need no client change
+  useEffect(() => {
+    fetch('/api/screener')
+      .then(response => response.json())
+      .then(body => {
+        if (body.success) setFields(body.data.fields);
+      })
+      .catch(err => console.error('Error loading screener fields:', err));
+  }, []);
+
+  const runScreen = useCallback(async (targetPage: number, refresh = false, order = sort) => {
+    if (ruleDiagnostics.length > 0) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/screener', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          filters: filters.map(draft => toFilter(draft, fields)).filter((filter): filter is ScreenerFilter => filter !== null),
+          rule: rule.trim() || undefined,
+          sort: order,
+          page: targetPage,
+          pageSize: PAGE_SIZE,
+          refresh,
+        }),
+      });
+      const body = await response.json();
+      if (!response.ok || !body.success) {
+        throw new Error(body.error || `Screen failed: ${response.statusText}`);
+      }
+      setResult(body.data);
+      setPage(targetPage);
+    } catch (err) {
+      console.error('Error running screen:', err);
+      setError(err instanceof Error ? err.message : 'Failed to run screen');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fields, filters, rule, sort, ruleDiagnostics]);
+
+  const updateFilter = (index: number, changes: Partial<FilterDraft>) => {
+    setFilters(current => current.map((filter, i) => (i === index ? { ...filter, ...changes } : filter)));
+  };
+
+  const applyPreset = (preset: typeof PRESETS[number]) => {
+    setFilters(preset.filters);
+    setRule(preset.rule ?? '');
+    setResult(null);
+  };
+
+  // Sorting re-runs the screen from the first page
+  const toggleSort = (field: ScreenerField) => {
+    const order = {
+      field,
+      direction: sort.field === field && sort.direction === 'desc' ? 'asc' as const : 'desc' as const,
+    };
+    setSort(order);
+    runScreen(1, false, order);
+  };
+
+  const panelClass = theme === 'dark' ? 'bg-slate-900 border border-slate-700' : 'bg-white border border-slate-200';
+  const inputClass = `px-3 py-2 rounded-lg border text-sm transition-colors ${
+    theme === 'dark'
+      ? 'bg-slate-800 border-slate-600 text-white focus:border-blue-500'
+      : 'bg-white border-slate-300 text-slate-900 focus:border-blue-500'
+  }`;
+  const mutedText = theme === 'dark' ? 'text-slate-400' : 'text-slate-500';
+  const fieldOptions = (Object.keys(fields).length > 0 ? Object.keys(fields) : ['marketCap', 'peRatio', 'volumeRatio']) as ScreenerField[];
+  const pages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+  const signalKeys = result?.rows[0]?.signals ? Object.keys(result.rows[0].signals) : [];
+
+  const columns: { field: ScreenerField; label: string; render: (row: ScreenerRow) => React.ReactNode }[] = [
+    { field: 'ticker', label: 'Ticker', render: row => <span className="font-semibold">{row.ticker}</span> },
+    { field: 'name', label: 'Company', render: row => <span className={mutedText}>{row.name}</span> },
+    { field: 'sector', label: 'Sector', render: row => row.sector },
+    { field: 'currentPrice', label: 'Price', render: row => `$${formatNumber(row.currentPrice)}` },
+    {
+      field: 'changePercent',
+      label: 'Change',
+      render: row => (
+        <span className={row.changePercent >= 0 ? 'text-green-500' : 'text-red-500'}>
+          {row.changePercent >= 0 ? '+' : ''}{row.changePercent.toFixed(2)}%
+        </span>
+      ),
+    },
+    { field: 'marketCap', label: 'Market cap', render: row => formatMarketCap(row.marketCap) },
+    { field: 'peRatio', label: 'P/E', render: row => formatNumber(row.peRatio, 1) },
+    { field: 'volumeRatio', label: 'Rel. volume', render: row => (row.volumeRatio === null ? '—' : `${row.volumeRatio.toFixed(2)}x`) },
+  ];
+
+  return (
+    <div className={`rounded-lg p-6 space-y-6 ${panelClass}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h2 className={`text-xl font-bold ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>Stock Screener</h2>
+        {result && (
+          <span className={`text-xs ${mutedText}`}>
+            {result.universeSize} stocks in universe
+            {result.asOf && ` · quotes as of ${new Date(result.asOf).toLocaleTimeString()}`}
+            {result.stale && ' · refreshing'}
+          </span>
+        )}
+      </div>
+
+      {/* Presets */}
+      <div className="flex flex-wrap gap-2">
+        {PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            type="button"
+            onClick={() => applyPreset(preset)}
+            className={`px-3 py-1 rounded-full text-xs ${
+              theme === 'dark' ? 'bg-slate-800 text-slate-300 hover:bg-slate-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Filters */}
+      <div className="space-y-2">
+        {filters.map((filter, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <select
+              value={filter.field}
+              onChange={(e) => updateFilter(index, { field: e.target.value as ScreenerField })}
+              className={inputClass}
+            >
+              {fieldOptions.map(field => (
+                <option key={field} value={field}>
+                  {fields[field]?.label ?? field}{fields[field]?.unit ? ` (${fields[field].unit})` : ''}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filter.op}
+              onChange={(e) => updateFilter(index, { op: e.target.value as ScreenerOperator })}
+              className={inputClass}
+            >
+              {(Object.keys(OPERATOR_LABELS) as ScreenerOperator[])
+                .filter(op => fields[filter.field]?.kind !== 'string' || ['eq', 'neq', 'in'].includes(op))
+                .map(op => (
+                  <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>
+                ))}
+            </select>
+            <input
+              value={filter.value}
+              onChange={(e) => updateFilter(index, { value: e.target.value })}
+              placeholder={filter.op === 'between' ? 'min, max' : filter.op === 'in' ? 'a, b, c' : 'value'}
+              className={`${inputClass} w-40`}
+            />
+            <button
+              type="button"
+              onClick={() => setFilters(current => current.filter((_, i) => i !== index))}
+              className={`p-2 rounded-lg ${mutedText} hover:text-red-500`}
+              aria-label="Remove filter"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setFilters(current => [...current, { field: 'marketCap', op: 'gte', value: '' }])}
+          className="flex items-center space-x-1 text-sm text-blue-500 hover:text-blue-400"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add filter</span>
+        </button>
+      </div>
+
+      {/* Technical condition */}
+      <div>
+        <label className={`block text-sm font-medium mb-2 ${theme === 'dark' ? 'text-slate-300' : 'text-slate-700'}`}>
+          Technical condition (optional)
+        </label>
+        <input
+          value={rule}
+          onChange={(e) => setRule(e.target.value)}
+          spellCheck={false}
+          placeholder="rsi(14) < 30 and close > sma(200)"
+          className={`${inputClass} w-full font-mono ${ruleDiagnostics.length > 0 ? 'border-red-500' : ''}`}
+        />
+        {ruleDiagnostics.length > 0 && (
+          <pre className="mt-2 text-xs text-red-500 whitespace-pre-wrap font-mono">
+            {ruleDiagnostics.map(diagnostic => formatSignalRuleDiagnostic(rule, diagnostic)).join('\n')}
+          </pre>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <button
+          type="button"
+          onClick={() => runScreen(1)}
+          disabled={isLoading || ruleDiagnostics.length > 0}
+          className="flex items-center space-x-2 px-4 py-2 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors disabled:opacity-50"
+        >
+          <Search className="w-4 h-4" />
+          <span>Run Screen</span>
+        </button>
+        {result && (
+          <button
+            type="button"
+            onClick={() => runScreen(page, true)}
+            disabled={isLoading}
+            className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm ${mutedText} disabled:opacity-50`}
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span>Refresh data</span>
+          </button>
+        )}
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+
+      {/* Results */}
+      {result && (
+        <div className="space-y-3">
+          <div className={`text-sm ${mutedText}`}>
+            {result.total} match{result.total === 1 ? '' : 'es'}
+            {result.rule && <> for <code className="font-mono">{result.rule}</code></>}
+          </div>
+
+          {result.rows.length === 0 ? (
+            <div className={`text-center py-8 ${mutedText}`}>No stocks match this screen. Try loosening a filter.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className={`text-left border-b ${theme === 'dark' ? 'border-slate-700 text-slate-400' : 'border-slate-200 text-slate-500'}`}>
+                    {columns.map(column => (
+                      <th key={column.field} className="py-2 pr-4 font-medium">
+                        <button type="button" onClick={() => toggleSort(column.field)} className="hover:underline">
+                          {column.label}
+                          {sort.field === column.field && (sort.direction === 'desc' ? ' ↓' : ' ↑')}
+                        </button>
+                      </th>
+                    ))}
+                    {signalKeys.map(key => (
+                      <th key={key} className="py-2 pr-4 font-mono font-medium">{key}</th>
+                    ))}
+                    <th className="py-2 font-medium text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className={theme === 'dark' ? 'text-slate-200' : 'text-slate-800'}>
+                  {result.rows.map(row => (
+                    <tr key={row.ticker} className={`border-b ${theme === 'dark' ? 'border-slate-800' : 'border-slate-100'}`}>
+                      {columns.map(column => (
+                        <td key={column.field} className="py-2 pr-4 whitespace-nowrap">{column.render(row)}</td>
+                      ))}
+                      {signalKeys.map(key => (
+                        <td key={key} className="py-2 pr-4 whitespace-nowrap">{formatNumber(row.signals?.[key] ?? null)}</td>
+                      ))}
+                      <td className="py-2 text-right whitespace-nowrap">
+                        <button
+                          type="button"
+                          onClick={() => onAddToWatchlist(row.ticker, row.name)}
+                          disabled={watched.has(row.ticker)}
+                          className="inline-flex items-center space-x-1 px-2 py-1 mr-2 rounded text-xs bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-40"
+                        >
+                          <Plus className="w-3 h-3" />
+                          <span>{watched.has(row.ticker) ? 'Watching' : 'Watchlist'}</span>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => onCreateAlert(row.ticker, result.rule)}
+                          className={`inline-flex items-center space-x-1 px-2 py-1 rounded text-xs ${
+                            theme === 'dark' ? 'bg-slate-700 hover:bg-slate-600 text-white' : 'bg-slate-200 hover:bg-slate-300 text-slate-900'
+                          }`}
+                        >
+                          <Bell className="w-3 h-3" />
+                          <span>Alert</span>
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pages > 1 && (
+            <div className="flex items-center justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => runScreen(page - 1)}
+                disabled={isLoading || page <= 1}
+                className={`p-2 rounded-lg ${mutedText} disabled:opacity-40`}
+                aria-label="Previous page"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className={`text-sm ${mutedText}`}>Page {page} of {pages}</span>
+              <button
+                type="button"
+                onClick={() => runScreen(page + 1)}
+                disabled={isLoading || page >= pages}
+                className={`p-2 rounded-lg ${mutedText} disabled:opacity-40`}
+                aria-label="Next page"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StockScreener;
@@ -13,18 +13,9 @@ import {
   BarChart,
   Bar,
 } from 'recharts';
+import { TechnicalSeriesPoint } from '@/types';
 
-interface TechnicalData {
-  date: string;
-  rsi?: number;
-  macd?: number;
-  signal?: number;
-  histogram?: number;
-  stochK?: number;
-  stochD?: number;
-  atr?: number;
-  volume?: number;
-}
+type TechnicalData = TechnicalSeriesPoint;
 
 interface TechnicalIndicatorsProps {
   ticker: string;
@@ -78,6 +69,13 @@ const TechnicalIndicators: React.FC<TechnicalIndicatorsProps> = ({
           stochK: item.stochK,
           stochD: item.stochD,
           atr: item.atr,
+          adx: item.adx,
+          plusDI: item.plusDI,
+          minusDI: item.minusDI,
+          cci: item.cci,
+          williamsR: item.williamsR,
+          mfi: item.mfi,
+          obv: item.obv,
           volume: item.volume,
         }));
         setLocalData(chartData);
@@ -230,6 +228,49 @@ const TechnicalIndicators: React.FC<TechnicalIndicatorsProps> = ({
     </ResponsiveContainer>
   );
 
+  // Generic oscillator chart for the engine-computed indicators
+  const OscillatorChart = ({
+    lines,
+    references = [],
+    domain,
+  }: {
+    lines: { dataKey: keyof TechnicalData; stroke: string; name: string }[];
+    references?: { y: number; stroke: string; label?: string }[];
+    domain?: [number, number];
+  }) => (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart data={localData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+        <XAxis dataKey="date" stroke="#666" tick={{ fontSize: 12 }} />
+        <YAxis stroke="#666" tick={{ fontSize: 12 }} domain={domain ?? ['auto', 'auto']} />
+        <Tooltip content={<CustomTooltip />} />
+
+        {references.map(reference => (
+          <ReferenceLine
+            key={reference.y}
+            y={reference.y}
+            stroke={reference.stroke}
+            strokeDasharray={reference.label ? '5 5' : '2 2'}
+            label={reference.label}
+          />
+        ))}
+
+        {lines.map(line => (
+          <Line
+            key={line.dataKey}
+            type="monotone"
+            dataKey={line.dataKey}
+            stroke={line.stroke}
+            strokeWidth={2}
+            dot={false}
+            name={line.name}
+            connectNulls
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+
   // Volume Chart Component
   const VolumeChart = () => (
     <ResponsiveContainer width="100%" height={height}>
@@ -273,6 +314,52 @@ const TechnicalIndicators: React.FC<TechnicalIndicatorsProps> = ({
           signal: crossover,
           color: crossover === 'Bullish' ? 'text-green-600' : 'text-red-600',
         };
+
+      case 'Stochastic':
+        const stochK = latestData.stochK;
+        if (stochK === undefined) return null;
+        return {
+          value: `${stochK.toFixed(2)} / ${latestData.stochD?.toFixed(2) ?? '—'}`,
+          signal: stochK > 80 ? 'Overbought' : stochK < 20 ? 'Oversold' : 'Neutral',
+          color: stochK > 80 ? 'text-red-600' : stochK < 20 ? 'text-green-600' : 'text-gray-600',
+        };
+
+      case 'ADX':
+        const adx = latestData.adx;
+        if (adx === undefined) return null;
+        const bullish = (latestData.plusDI ?? 0) >= (latestData.minusDI ?? 0);
+        return {
+          value: adx.toFixed(2),
+          signal: adx < 20 ? 'No clear trend' : `${adx > 40 ? 'Strong' : 'Trending'} ${bullish ? 'up' : 'down'}`,
+          color: adx < 20 ? 'text-gray-600' : bullish ? 'text-green-600' : 'text-red-600',
+        };
+
+      case 'CCI':
+        const cci = latestData.cci;
+        if (cci === undefined) return null;
+        return {
+          value: cci.toFixed(2),
+          signal: cci > 100 ? 'Overbought' : cci < -100 ? 'Oversold' : 'Neutral',
+          color: cci > 100 ? 'text-red-600' : cci < -100 ? 'text-green-600' : 'text-gray-600',
+        };
+
+      case 'Williams %R':
+        const williamsR = latestData.williamsR;
+        if (williamsR === undefined) return null;
+        return {
+          value: williamsR.toFixed(2),
+          signal: williamsR > -20 ? 'Overbought' : williamsR < -80 ? 'Oversold' : 'Neutral',
+          color: williamsR > -20 ? 'text-red-600' : williamsR < -80 ? 'text-green-600' : 'text-gray-600',
+        };
+
+      case 'MFI':
+        const mfi = latestData.mfi;
+        if (mfi === undefined) return null;
+        return {
+          value: mfi.toFixed(2),
+          signal: mfi > 80 ? 'Overbought' : mfi < 20 ? 'Oversold' : 'Neutral',
+          color: mfi > 80 ? 'text-red-600' : mfi < 20 ? 'text-green-600' : 'text-gray-600',
+        };
       
       default:
         return null;
@@ -287,6 +374,50 @@ const TechnicalIndicators: React.FC<TechnicalIndicatorsProps> = ({
         return <MACDChart />;
       case 'Stochastic':
         return <StochasticChart />;
+      case 'ADX':
+        return (
+          <OscillatorChart
+            lines={[
+              { dataKey: 'adx', stroke: '#2563eb', name: 'ADX' },
+              { dataKey: 'plusDI', stroke: '#10b981', name: '+DI' },
+              { dataKey: 'minusDI', stroke: '#ef4444', name: '-DI' },
+            ]}
+            references={[{ y: 25, stroke: '#6b7280', label: 'Trend' }]}
+          />
+        );
+      case 'CCI':
+        return (
+          <OscillatorChart
+            lines={[{ dataKey: 'cci', stroke: '#8b5cf6', name: 'CCI' }]}
+            references={[
+              { y: 100, stroke: '#ef4444', label: 'Overbought' },
+              { y: -100, stroke: '#10b981', label: 'Oversold' },
+              { y: 0, stroke: '#6b7280' },
+            ]}
+          />
+        );
+      case 'Williams %R':
+        return (
+          <OscillatorChart
+            lines={[{ dataKey: 'williamsR', stroke: '#f59e0b', name: 'Williams %R' }]}
+            references={[
+              { y: -20, stroke: '#ef4444', label: 'Overbought' },
+              { y: -80, stroke: '#10b981', label: 'Oversold' },
+            ]}
+            domain={[-100, 0]}
+          />
+        );
+      case 'MFI':
+        return (
+          <OscillatorChart
+            lines={[{ dataKey: 'mfi', stroke: '#0ea5e9', name: 'MFI' }]}
+            references={[
+              { y: 80, stroke: '#ef4444', label: 'Overbought' },
+              { y: 20, stroke: '#10b981', label: 'Oversold' },
+            ]}
+            domain={[0, 100]}
+          />
+        );
       case 'Volume':
         return <VolumeChart />;
       default:
@@ -310,7 +441,7 @@ const TechnicalIndicators: React.FC<TechnicalIndicatorsProps> = ({
     );
   }
 
-  const availableIndicators = ['RSI', 'MACD', 'Stochastic', 'Volume'];
+  const availableIndicators = ['RSI', 'MACD', 'Stochastic', 'ADX', 'CCI', 'Williams %R', 'MFI', 'Volume'];
   const interpretation = getIndicatorInterpretation(selectedIndicator);
 
   return (
@@ -320,7 +451,7 @@ const TechnicalIndicators: React.FC<TechnicalIndicatorsProps> = ({
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
           Technical Indicators
         </h3>
-        <div className="flex space-x-2">
+        <div className="flex flex-wrap justify-end gap-2">
           {availableIndicators.map((indicator) => (
             <button
               key={indicator}
@@ -381,6 +512,18 @@ const TechnicalIndicators: React.FC<TechnicalIndicatorsProps> = ({
         {selectedIndicator === 'Stochastic' && (
           <p>Stochastic Oscillator: Compares closing price to price range. Values above 80 suggest overbought, below 20 suggest oversold.</p>
         )}
+        {selectedIndicator === 'ADX' && (
+          <p>ADX (Average Directional Index): Measures trend strength regardless of direction. Above 25 signals a trend; +DI above -DI means buyers lead.</p>
+        )}
+        {selectedIndicator === 'CCI' && (
+          <p>CCI (Commodity Channel Index): Distance of the typical price from its average. Above +100 suggests overbought, below -100 oversold.</p>
+        )}
+        {selectedIndicator === 'Williams %R' && (
+          <p>Williams %R: Where the close sits in the recent high-low range. Above -20 suggests overbought, below -80 oversold.</p>
+        )}
+        {selectedIndicator === 'MFI' && (
+          <p>MFI (Money Flow Index): Volume-weighted RSI. Above 80 suggests overbought, below 20 oversold.</p>
+        )}
         {selectedIndicator === 'Volume' && (
           <p>Trading Volume: Number of shares traded. High volume often confirms price movements.</p>
         )}
@@ -0,0 +1,415 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Briefcase, FileUp, Plus, Trash2 } from 'lucide-react';
+import { useTheme } from '@/contexts/ThemeContext';
+import { LedgerTransactionDraft } from '@/hooks/useTransactionLedger';
+import BrokerageImport from './BrokerageImport';
+import { LedgerSummary, LedgerTransaction, LedgerTransactionType, LotMethod } from '@/types';
+
+interface TransactionLedgerProps {
+  userId: string;
+  transactions: LedgerTransaction[];
+  summary: LedgerSummary;
+  lotMethod: LotMethod;
+  error: string | null;
+  onAddTransactions: (drafts: LedgerTransactionDraft[]) => Promise<boolean>;
+  onRemoveTransaction: (transactionId: string) => Promise<boolean>;
+  onLotMethodChange: (lotMethod: LotMethod) => Promise<boolean>;
+}
+
+const TYPE_LABELS: Record<LedgerTransactionType, string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+  dividend: 'Dividend',
+  split: 'Split',
+  fee: 'Fee',
+  transfer: 'Transfer',
+};
+
+const LOT_METHOD_LABELS: Record<LotMethod, string> = {
+  FIFO: 'First in, first out',
+  LIFO: 'Last in, first out',
+  SPECIFIC: 'Specific lots',
+};
+
+const formatMoney = (value: number | null) =>
+  value === null ? '—' : `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const gainClass = (value: number | null) =>
+  value === null ? '' : value > 0 ? 'text-green-500' : value < 0 ? 'text-red-500' : '';
+
+const describe = (transaction: LedgerTransaction) => {
+  switch (transaction.type) {
+    case 'buy':
+    case 'sell':
+      return `${transaction.quantity} @ ${formatMoney(transaction.price ?? 0)}${transaction.fees ? ` + ${formatMoney(transaction.fees)} fees` : ''}`;
+    case 'transfer':
+      return `${transaction.direction === 'out' ? 'Out' : 'In'} ${transaction.quantity} @ ${formatMoney(transaction.price ?? 0)}`;
+    case 'split':
+      return `${transaction.ratio}-for-1`;
+    default:
+      return formatMoney(transaction.amount ?? 0);
+  }
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const TransactionLedger: React.FC<TransactionLedgerProps> = ({
+  userId,
+  transactions,
+  summary,
+  lotMethod,
+  error,
+  onAddTransactions,
+  onRemoveTransaction,
+  onLotMethodChange,
+}) => {
+  const { theme } = useTheme();
+  const [type, setType] = useState<LedgerTransactionType>('buy');
+  const [ticker, setTicker] = useState('');
+  const [date, setDate] = useState(today());
+  const [quantity, setQuantity] = useState('');
+  const [price, setPrice] = useState('');
+  const [fees, setFees] = useState('');
+  const [amount, setAmount] = useState('');
+  const [ratio, setRatio] = useState('');
+  const [direction, setDirection] = useState<'in' | 'out'>('in');
+  const [saleMethod, setSaleMethod] = useState<LotMethod | ''>('');
+  const [lotQuantities, setLotQuantities] = useState<Record<string, string>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+
+  const panelClass = theme === 'dark' ? 'bg-slate-900 border border-slate-700' : 'bg-white border border-slate-200';
+  const mutedText = theme === 'dark' ? 'text-slate-400' : 'text-slate-500';
+  const strongText = theme === 'dark' ? 'text-white' : 'text-slate-900';
+  const rowBorder = theme === 'dark' ? 'border-slate-800' : 'border-slate-100';
+  const inputClass = `px-3 py-2 rounded-lg text-sm ${theme === 'dark' ? 'bg-slate-800 border border-slate-700 text-white' : 'bg-white border border-slate-300 text-slate-900'}`;
+
+  const symbol = ticker.trim().toUpperCase();
+  const closesLots = type === 'sell' || (type === 'transfer' && direction === 'out');
+  const effectiveMethod = saleMethod || lotMethod;
+  const openLots = summary.holdings.find(holding => holding.ticker === symbol)?.lots ?? [];
+
+  const resetForm = () => {
+    setQuantity('');
+    setPrice('');
+    setFees('');
+    setAmount('');
+    setRatio('');
+    setLotQuantities({});
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const draft: LedgerTransactionDraft = { type, date, ...(symbol ? { ticker: symbol } : {}) };
+    if (type === 'buy' || type === 'sell' || type === 'transfer') {
+      draft.quantity = Number(quantity);
+      draft.price = Number(price);
+      if (fees) draft.fees = Number(fees);
+      if (type === 'transfer') draft.direction = direction;
+    } else if (type === 'split') {
+      draft.ratio = Number(ratio);
+    } else {
+      draft.amount = Number(amount);
+    }
+
+    if (closesLots && saleMethod) {
+      draft.lotMethod = saleMethod;
+    }
+    if (closesLots && effectiveMethod === 'SPECIFIC') {
+      draft.lots = Object.entries(lotQuantities)
+        .map(([lotId, value]) => ({ lotId, quantity: Number(value) }))
+        .filter(lot => lot.quantity > 0);
+      draft.quantity = draft.lots.reduce((total, lot) => total + lot.quantity, 0);
+    }
+
+    setIsSaving(true);
+    const saved = await onAddTransactions([draft]);
+    setIsSaving(false);
+    if (saved) resetForm();
+  };
+
+  return (
+    <div className={`rounded-lg p-6 space-y-6 ${panelClass}`}>
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <Briefcase className="w-5 h-5 text-blue-500" />
+          <h2 className={`text-xl font-bold ${strongText}`}>Transactions</h2>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            type="button"
+            onClick={() => setShowImport(!showImport)}
+            className={`flex items-center space-x-1 px-3 py-2 rounded-lg text-sm ${theme === 'dark' ? 'bg-slate-800 text-slate-200 hover:bg-slate-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+          >
+            <FileUp className="w-4 h-4" />
+            <span>Import</span>
+          </button>
+          <label className={`flex items-center space-x-2 text-sm ${mutedText}`}>
+            <span>Sell lots by</span>
+            <select
+              value={lotMethod}
+              onChange={(event) => onLotMethodChange(event.target.value as LotMethod)}
+              className={inputClass}
+            >
+              {(Object.keys(LOT_METHOD_LABELS) as LotMethod[]).map(method => (
+                <option key={method} value={method}>{LOT_METHOD_LABELS[method]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {showImport && (
+        <BrokerageImport
+          userId={userId}
+          transactions={transactions}
+          lotMethod={lotMethod}
+          onImport={onAddTransactions}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {[
+          { label: 'Cost Basis', value: summary.totals.costBasis, colored: false },
+          { label: 'Market Value', value: summary.totals.marketValue, colored: false },
+          { label: 'Unrealized P&L', value: summary.totals.unrealizedGain, colored: true },
+          { label: 'Realized P&L', value: summary.totals.realizedGain, colored: true },
+          { label: 'Dividends', value: summary.totals.dividends, colored: false },
+        ].map(total => (
+          <div key={total.label}>
+            <div className={`text-sm ${mutedText}`}>{total.label}</div>
+            <div className={`text-lg font-semibold ${total.colored ? gainClass(total.value) : strongText}`}>{formatMoney(total.value)}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* New transaction */}
+      <form onSubmit={handleSubmit} className={`rounded-lg p-4 border ${theme === 'dark' ? 'border-slate-700' : 'border-slate-200'} space-y-3`}>
+        <div className="flex flex-wrap gap-3">
+          <select value={type} onChange={(event) => setType(event.target.value as LedgerTransactionType)} className={inputClass}>
+            {(Object.keys(TYPE_LABELS) as LedgerTransactionType[]).map(option => (
+              <option key={option} value={option}>{TYPE_LABELS[option]}</option>
+            ))}
+          </select>
+          <input
+            value={ticker}
+            onChange={(event) => setTicker(event.target.value)}
+            placeholder={type === 'fee' ? 'Ticker (optional)' : 'Ticker'}
+            required={type !== 'fee'}
+            className={`${inputClass} w-32`}
+          />
+          <input type="date" value={date} max={today()} onChange={(event) => setDate(event.target.value)} required className={inputClass} />
+
+          {(type === 'buy' || type === 'sell' || type === 'transfer') && (
+            <>
+              {type === 'transfer' && (
+                <select value={direction} onChange={(event) => setDirection(event.target.value as 'in' | 'out')} className={inputClass}>
+                  <option value="in">In</option>
+                  <option value="out">Out</option>
+                </select>
+              )}
+              {!(closesLots && effectiveMethod === 'SPECIFIC') && (
+                <input type="number" min="0" step="any" value={quantity} onChange={(event) => setQuantity(event.target.value)} placeholder="Shares" required className={`${inputClass} w-28`} />
+              )}
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={price}
+                onChange={(event) => setPrice(event.target.value)}
+                placeholder={type === 'transfer' ? (direction === 'in' ? 'Cost per share' : 'Value per share') : 'Price'}
+                required
+                className={`${inputClass} w-36`}
+              />
+              {type !== 'transfer' && (
+                <input type="number" min="0" step="any" value={fees} onChange={(event) => setFees(event.target.value)} placeholder="Fees" className={`${inputClass} w-24`} />
+              )}
+            </>
+          )}
+          {(type === 'dividend' || type === 'fee') && (
+            <input type="number" min="0" step="any" value={amount} onChange={(event) => setAmount(event.target.value)} placeholder="Amount" required className={`${inputClass} w-32`} />
+          )}
+          {type === 'split' && (
+            <input type="number" min="0" step="any" value={ratio} onChange={(event) => setRatio(event.target.value)} placeholder="New shares per share" required className={`${inputClass} w-44`} />
+          )}
+          {closesLots && (
+            <select value={saleMethod} onChange={(event) => setSaleMethod(event.target.value as LotMethod | '')} className={inputClass}>
+              <option value="">Default ({lotMethod})</option>
+              {(Object.keys(LOT_METHOD_LABELS) as LotMethod[]).map(method => (
+                <option key={method} value={method}>{LOT_METHOD_LABELS[method]}</option>
+              ))}
+            </select>
+          )}
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="flex items-center space-x-1 px-4 py-2 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Record</span>
+          </button>
+        </div>
+
+        {/* Lot picker for specific-lot sales */}
+        {closesLots && effectiveMethod === 'SPECIFIC' && (
+          openLots.length === 0 ? (
+            <div className={`text-sm ${mutedText}`}>{symbol ? `No open ${symbol} lots.` : 'Enter a ticker to choose lots.'}</div>
+          ) : (
+            <div className="space-y-2">
+              {openLots.map(lot => (
+                <label key={lot.id} className={`flex items-center space-x-3 text-sm ${mutedText}`}>
+                  <input
+                    type="number"
+                    min="0"
+                    max={lot.quantity}
+                    step="any"
+                    value={lotQuantities[lot.id] ?? ''}
+                    onChange={(event) => setLotQuantities(current => ({ ...current, [lot.id]: event.target.value }))}
+                    placeholder="0"
+                    className={`${inputClass} w-24`}
+                  />
+                  <span>of {lot.quantity} bought {lot.openDate} at {formatMoney(lot.costPerShare)}</span>
+                </label>
+              ))}
+            </div>
+          )
+        )}
+      </form>
+
+      {/* Holdings and lots */}
+      <div className="overflow-x-auto">
+        <h3 className={`font-semibold mb-2 ${strongText}`}>Holdings</h3>
+        {summary.holdings.length === 0 ? (
+          <div className={`text-sm ${mutedText}`}>No open positions. Record a buy or transfer to start.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className={`text-left border-b ${theme === 'dark' ? 'border-slate-700 text-slate-400' : 'border-slate-200 text-slate-500'}`}>
+                <th className="py-2 pr-4 font-medium">Ticker</th>
+                <th className="py-2 pr-4 font-medium text-right">Shares</th>
+                <th className="py-2 pr-4 font-medium text-right">Avg. Cost</th>
+                <th className="py-2 pr-4 font-medium text-right">Cost Basis</th>
+                <th className="py-2 pr-4 font-medium text-right">Value</th>
+                <th className="py-2 pr-4 font-medium text-right">Unrealized</th>
+                <th className="py-2 pr-4 font-medium text-right">Realized</th>
+                <th className="py-2 font-medium text-right">Dividends</th>
+              </tr>
+            </thead>
+            <tbody className={theme === 'dark' ? 'text-slate-200' : 'text-slate-800'}>
+              {summary.holdings.map(holding => (
+                <React.Fragment key={holding.ticker}>
+                  <tr
+                    onClick={() => setExpanded(expanded === holding.ticker ? null : holding.ticker)}
+                    className={`border-b cursor-pointer ${rowBorder} ${theme === 'dark' ? 'hover:bg-slate-800' : 'hover:bg-slate-50'}`}
+                  >
+                    <td className="py-2 pr-4 font-semibold">{holding.ticker} <span className={`text-xs font-normal ${mutedText}`}>{holding.lots.length} lot{holding.lots.length === 1 ? '' : 's'}</span></td>
+                    <td className="py-2 pr-4 text-right">{holding.quantity}</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(holding.averageCost)}</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(holding.costBasis)}</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(holding.marketValue)}</td>
+                    <td className={`py-2 pr-4 text-right ${gainClass(holding.unrealizedGain)}`}>
+                      {formatMoney(holding.unrealizedGain)}
+                      {holding.unrealizedGainPercent !== null && ` (${holding.unrealizedGainPercent.toFixed(1)}%)`}
+                    </td>
+                    <td className={`py-2 pr-4 text-right ${gainClass(holding.realizedGain)}`}>{formatMoney(holding.realizedGain)}</td>
+                    <td className="py-2 text-right">{formatMoney(holding.dividends)}</td>
+                  </tr>
+                  {expanded === holding.ticker && holding.lots.map(lot => (
+                    <tr key={lot.id} className={`border-b text-xs ${rowBorder} ${mutedText}`}>
+                      <td className="py-1 pr-4 pl-4">Lot {lot.openDate}</td>
+                      <td className="py-1 pr-4 text-right">{lot.quantity}{lot.quantity !== lot.originalQuantity ? ` of ${lot.originalQuantity}` : ''}</td>
+                      <td className="py-1 pr-4 text-right">{formatMoney(lot.costPerShare)}</td>
+                      <td className="py-1 pr-4 text-right">{formatMoney(lot.costBasis)}</td>
+                      <td colSpan={4} />
+                    </tr>
+                  ))}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Realized lots */}
+      {summary.realized.length > 0 && (
+        <div className="overflow-x-auto">
+          <h3 className={`font-semibold mb-2 ${strongText}`}>Realized Gains</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className={`text-left border-b ${theme === 'dark' ? 'border-slate-700 text-slate-400' : 'border-slate-200 text-slate-500'}`}>
+                <th className="py-2 pr-4 font-medium">Ticker</th>
+                <th className="py-2 pr-4 font-medium">Acquired</th>
+                <th className="py-2 pr-4 font-medium">Sold</th>
+                <th className="py-2 pr-4 font-medium text-right">Shares</th>
+                <th className="py-2 pr-4 font-medium text-right">Proceeds</th>
+                <th className="py-2 pr-4 font-medium text-right">Cost</th>
+                <th className="py-2 pr-4 font-medium text-right">Gain</th>
+                <th className="py-2 font-medium">Term</th>
+              </tr>
+            </thead>
+            <tbody className={theme === 'dark' ? 'text-slate-200' : 'text-slate-800'}>
+              {[...summary.realized].reverse().map((lot, index) => (
+                <tr key={`${lot.lotId}-${lot.closeDate}-${index}`} className={`border-b ${rowBorder}`}>
+                  <td className="py-2 pr-4 font-semibold">{lot.ticker}</td>
+                  <td className="py-2 pr-4">{lot.openDate}</td>
+                  <td className="py-2 pr-4">{lot.closeDate}</td>
+                  <td className="py-2 pr-4 text-right">{lot.quantity}</td>
+                  <td className="py-2 pr-4 text-right">{formatMoney(lot.proceeds)}</td>
+                  <td className="py-2 pr-4 text-right">{formatMoney(lot.costBasis)}</td>
+                  <td className={`py-2 pr-4 text-right ${gainClass(lot.gain)}`}>{formatMoney(lot.gain)}</td>
+                  <td className={`py-2 ${mutedText}`}>{lot.term === 'long' ? 'Long' : 'Short'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* History */}
+      <div className="overflow-x-auto">
+        <h3 className={`font-semibold mb-2 ${strongText}`}>History</h3>
+        {transactions.length === 0 ? (
+          <div className={`text-sm ${mutedText}`}>No transactions recorded yet.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody className={theme === 'dark' ? 'text-slate-200' : 'text-slate-800'}>
+              {[...transactions].reverse().map(transaction => (
+                <tr key={transaction.id} className={`border-b ${rowBorder}`}>
+                  <td className="py-2 pr-4 whitespace-nowrap">{transaction.date}</td>
+                  <td className="py-2 pr-4">{TYPE_LABELS[transaction.type]}</td>
+                  <td className="py-2 pr-4 font-semibold">{transaction.ticker ?? '—'}</td>
+                  <td className="py-2 pr-4">{describe(transaction)}</td>
+                  <td className={`py-2 pr-4 ${mutedText}`}>
+                    {transaction.lotMethod ?? ''}
+                    {transaction.note ? ` ${transaction.note}` : ''}
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => onRemoveTransaction(transaction.id)}
+                      className={`p-1 ${mutedText} hover:text-red-500`}
+                      aria-label={`Delete ${TYPE_LABELS[transaction.type]} of ${transaction.ticker ?? 'account'} on ${transaction.date}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TransactionLedger;
@@ -13,37 +13,47 @@ interface TestResult {
   messageId?: string;
 }
 
+const TEST_USER_ID = 'test-user';
+
 export const WhatsAppTestCenter: React.FC = () => {
-  const { settings, addNotification } = useNotifications();
-  const [phoneNumber, setPhoneNumber] = useState('+919173611252'); // Your number as default
+  const { addNotification } = useNotifications();
+  const [phoneNumber, setPhoneNumber] = useState('');
   const [testResults, setTestResults] = useState<TestResult[]>([]);
   const [isTestingConnection, setIsTestingConnection] = useState(false);
   const [customMessage, setCustomMessage] = useState('');
   const [isSendingCustom, setIsSendingCustom] = useState(false);
+  const [server, setServer] = useState<{ configured: boolean; apiUrl: string | null } | null>(null);
+
+  useEffect(() => {
+    whatsAppService.getMessages(TEST_USER_ID).then(({ configured, apiUrl }) => setServer({ configured, apiUrl }));
+  }, []);
 
-  // Auto-update message status every 10 seconds
+  // Follow sent messages until Twilio reports them delivered, read or failed
   useEffect(() => {
     const interval = setInterval(async () => {
       for (const result of testResults) {
         if (result.messageId && result.status === 'pending') {
           try {
-            const status = await whatsAppService.getMessageStatus(result.messageId);
-            if (status !== 'queued' && status !== 'accepted') {
+            const message = await whatsAppService.getMessageStatus(TEST_USER_ID, result.messageId);
+            if (message && message.status !== 'SENT') {
               setTestResults(prev => 
                 prev.map(r => 
                   r.messageId === result.messageId 
-                    ? { ...r, status: status === 'delivered' || status === 'read' ? 'success' : 'error', message: `Message ${status}` }
+                    ? {
+                        ...r,
+                        status: message.status === 'FAILED' ? 'error' : 'success',
+                        message: message.status === 'FAILED' ? `Message failed: ${message.error || 'unknown error'}` : `Message ${message.status.toLowerCase()}`
+                      }
                     : r
                 )
               );
-              await whatsAppService.updateMessageStatus(result.messageId, status);
             }
           } catch (error) {
             console.error('Error checking message status:', error);
           }
         }
       }
-    }, 10000); // Check every 10 seconds
+    }, 5000); // Check every 5 seconds
 
     return () => clearInterval(interval);
   }, [testResults]);
@@ -60,19 +70,24 @@ export const WhatsAppTestCenter: React.FC = () => {
   };
 
   const testConnection = async () => {
+    if (!whatsAppService.validatePhoneNumber(phoneNumber)) {
+      addTestResult('Connection Test', 'error', 'Invalid phone number format');
+      return;
+    }
+
     setIsTestingConnection(true);
     addTestResult('Connection Test', 'pending', 'Testing WhatsApp connection...');
 
     try {
-      const result = await whatsAppService.testConnection('test-user');
+      const result = await whatsAppService.testConnection(TEST_USER_ID, phoneNumber);
       
       if (result.success) {
-        addTestResult('Connection Test', 'success', 'WhatsApp connection successful!');
+        addTestResult('Connection Test', 'pending', 'Test message accepted, waiting for delivery...', result.messageId);
         await addNotification({
           title: 'WhatsApp Test Successful',
           message: 'Connection to WhatsApp API is working correctly',
           type: 'SUCCESS',
-          userId: 'test-user'
+          userId: TEST_USER_ID
         });
       } else {
         addTestResult('Connection Test', 'error', result.error || 'Connection failed');
@@ -80,7 +95,7 @@ export const WhatsAppTestCenter: React.FC = () => {
           title: 'WhatsApp Test Failed',
           message: result.error || 'Failed to connect to WhatsApp API',
           type: 'ERROR',
-          userId: 'test-user'
+          userId: TEST_USER_ID
         });
       }
     } catch (error) {
@@ -106,11 +121,11 @@ export const WhatsAppTestCenter: React.FC = () => {
       buyPrice: 150,
       quantity: 10,
       currentPrice: 175,
-      userId: 'test-user'
+      userId: TEST_USER_ID
     };
 
     try {
-      const result = await whatsAppService.sendStockAlert(testStock, 'BUY', 'test-user', phoneNumber);
+      const result = await whatsAppService.sendStockAlert(testStock, 'BUY', TEST_USER_ID, phoneNumber);
       
       if (result.success) {
         addTestResult('Stock Alert', 'pending', 'Stock alert sent successfully', result.messageId);
@@ -141,7 +156,7 @@ export const WhatsAppTestCenter: React.FC = () => {
       const result = await whatsAppService.sendCustomAlert(
         'Custom Alert',
         customMessage,
-        'test-user',
+        TEST_USER_ID,
         phoneNumber
       );
       
@@ -176,7 +191,7 @@ export const WhatsAppTestCenter: React.FC = () => {
     `.trim();
 
     try {
-      const result = await whatsAppService.sendPortfolioUpdate(portfolioSummary, 'test-user', phoneNumber);
+      const result = await whatsAppService.sendPortfolioUpdate(portfolioSummary, TEST_USER_ID, phoneNumber);
       
       if (result.success) {
         addTestResult('Portfolio Update', 'pending', 'Portfolio update sent successfully', result.messageId);
@@ -216,6 +231,23 @@ export const WhatsAppTestCenter: React.FC = () => {
         <h2 className="text-xl font-semibold text-gray-900">WhatsApp Test Center</h2>
       </div>
 
+      {/* Server Status */}
+      {server && (
+        <div className={`p-3 rounded-md text-sm ${
+          !server.configured
+            ? 'bg-amber-50 text-amber-800'
+            : server.apiUrl?.startsWith('https://api.twilio.com')
+            ? 'bg-green-50 text-green-800'
+            : 'bg-blue-50 text-blue-800'
+        }`}>
+          {!server.configured
+            ? 'WhatsApp is not configured: set TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_WHATSAPP_NUMBER, or run the local mock server (npm run twilio-mock) and point TWILIO_API_URL at it.'
+            : server.apiUrl?.startsWith('https://api.twilio.com')
+            ? 'Sending through Twilio.'
+            : `Sending through the Twilio-compatible API at ${server.apiUrl}.`}
+        </div>
+      )}
+
       {/* Phone Number Input */}
       <div className="space-y-2">
         <label className="block text-sm font-medium text-gray-700">
@@ -227,7 +259,7 @@ export const WhatsAppTestCenter: React.FC = () => {
             type="tel"
             value={phoneNumber}
             onChange={(e) => setPhoneNumber(e.target.value)}
-            placeholder="+919173611252"
+            placeholder="+15551234567"
             className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
           <span className={`text-xs px-2 py-1 rounded ${
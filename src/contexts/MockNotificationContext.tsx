@@ -1,19 +1,19 @@
 'use client';
 
 import React, { createContext, useContext, useState } from 'react';
-import { type Notification, StockAlert, NotificationSettings } from '@/types';
+import { type Notification, AlertCondition, AlertDefinition, AlertPolicy, AlertRepeat, NotificationSettings } from '@/types';
 
 interface MockNotificationContextType {
   notifications: Notification[];
   unreadCount: number;
-  stockAlerts: StockAlert[];
+  alerts: AlertDefinition[];
   settings: NotificationSettings | null;
   addNotification: (notification: any) => Promise<void>;
   markAsRead: (notificationId: string) => Promise<void>;
   clearAll: () => Promise<void>;
-  addStockAlert: (alert: any) => Promise<void>;
-  updateStockAlert: (alert: StockAlert) => Promise<void>;
-  deleteStockAlert: (alertId: string) => Promise<void>;
+  createAlert: (ticker: string, conditions: AlertCondition[], options?: { repeat?: AlertRepeat; policy?: Partial<AlertPolicy> }) => Promise<boolean>;
+  setAlertActive: (alertId: string, isActive: boolean) => Promise<void>;
+  deleteAlert: (alertId: string) => Promise<void>;
   updateSettings: (settings: NotificationSettings) => Promise<void>;
   checkPriceAlerts: (stocksData: any[]) => Promise<void>;
   checkStockRecommendations: (stocks: any[], userPhoneNumber?: string) => Promise<void>;
@@ -44,7 +44,7 @@ interface MockNotificationProviderProps {
 export const MockNotificationProvider: React.FC<MockNotificationProviderProps> = ({ children, userId }) => {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
-  const [stockAlerts, setStockAlerts] = useState<StockAlert[]>([]);
+  const [alerts, setAlerts] = useState<AlertDefinition[]>([]);
   const [settings, setSettings] = useState<NotificationSettings | null>(null);
 
   const mockAsyncFunction = async () => {};
@@ -55,14 +55,14 @@ export const MockNotificationProvider: React.FC<MockNotificationProviderProps> =
   const contextValue: MockNotificationContextType = {
     notifications,
     unreadCount,
-    stockAlerts,
+    alerts,
     settings,
     addNotification: mockAsyncFunction,
     markAsRead: mockAsyncFunction,
     clearAll: mockAsyncFunction,
-    addStockAlert: mockAsyncFunction,
-    updateStockAlert: mockAsyncFunction,
-    deleteStockAlert: mockAsyncFunction,
+    createAlert: mockAsyncFunctionWithBoolean,
+    setAlertActive: mockAsyncFunction,
+    deleteAlert: mockAsyncFunction,
     updateSettings: mockAsyncFunction,
     checkPriceAlerts: mockAsyncFunction,
     checkStockRecommendations: mockAsyncFunction,
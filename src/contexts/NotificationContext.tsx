@@ -1,25 +1,32 @@
 'use client';
 
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
-import { type Notification, StockAlert, NotificationSettings, Stock, StockData, WhatsAppMessage } from '@/types';
+import { type Notification, AlertCondition, AlertDefinition, AlertPolicy, AlertRepeat, DispatchedNotification, StockAlert, NotificationChannel, NotificationSettings, Stock, StockData, WhatsAppMessage } from '@/types';
 import { notificationDB } from '@/services/notificationDatabase';
 import { whatsAppService } from '@/services/whatsappService';
+import { describeCondition } from '@/services/alertEngine';
+import { DEFAULT_EARNINGS_REMINDER_DAYS } from '@/services/notificationRouting';
 
 interface NotificationContextType {
   notifications: Notification[];
   unreadCount: number;
-  stockAlerts: StockAlert[];
+  alerts: AlertDefinition[];
   settings: NotificationSettings | null;
+  configuredChannels: NotificationChannel[];
   whatsappMessages: WhatsAppMessage[];
   addNotification: (notification: Omit<Notification, 'id' | 'timestamp' | 'isRead'>) => Promise<void>;
   markAsRead: (notificationId: string) => Promise<void>;
   clearAll: () => Promise<void>;
-  addStockAlert: (alert: Omit<StockAlert, 'id' | 'createdAt'>) => Promise<void>;
-  updateStockAlert: (alert: StockAlert) => Promise<void>;
-  deleteStockAlert: (alertId: string) => Promise<void>;
-  updateSettings: (settings: NotificationSettings) => Promise<void>;
+  createAlert: (ticker: string, conditions: AlertCondition[], options?: { repeat?: AlertRepeat; policy?: Partial<AlertPolicy> }) => Promise<boolean>;
+  setAlertActive: (alertId: string, isActive: boolean) => Promise<void>;
+  deleteAlert: (alertId: string) => Promise<void>;
+  updateSettings: (settings: NotificationSettings) => Promise<{ success: boolean; error?: string }>;
+  subscribeToPush: () => Promise<{ success: boolean; error?: string }>;
+  unsubscribeFromPush: () => Promise<void>;
+  sendTestNotification: () => Promise<{ success: boolean; error?: string }>;
   checkPriceAlerts: (stocksData: StockData[]) => Promise<void>;
   checkStockRecommendations: (stocks: Stock[], userPhoneNumber?: string) => Promise<void>;
+  setEarningsReminderTickers: (tickers: string[]) => Promise<void>;
   requestNotificationPermission: () => Promise<boolean>;
   sendBrowserNotification: (title: string, body: string, icon?: string) => void;
   sendWhatsAppAlert: (stock: Stock, recommendation: 'BUY' | 'HOLD' | 'SELL', phoneNumber: string) => Promise<{ success: boolean; error?: string }>;
@@ -29,6 +36,8 @@ interface NotificationContextType {
   validatePhoneNumber: (phoneNumber: string) => boolean;
   }
 
+  export { DEFAULT_EARNINGS_REMINDER_DAYS };
+
   const NotificationContext = createContext<NotificationContextType | null>(null);
 
   export const useNotifications = () => {
@@ -39,6 +48,12 @@ interface NotificationContextType {
   return context;
 };
 
+// VAPID public key (base64url) as the applicationServerKey push subscriptions take
+const base64UrlToBytes = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = (value + '='.repeat((4 - value.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
 interface NotificationProviderProps {
   children: React.ReactNode;
   userId: string;
@@ -47,8 +62,9 @@ interface NotificationProviderProps {
 export const NotificationProvider: React.FC<NotificationProviderProps> = ({ children, userId }) => {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
-  const [stockAlerts, setStockAlerts] = useState<StockAlert[]>([]);
+  const [alerts, setAlerts] = useState<AlertDefinition[]>([]);
   const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [configuredChannels, setConfiguredChannels] = useState<NotificationChannel[]>(['inApp']);
   const [hasPermission, setHasPermission] = useState(false);
   const [whatsappMessages, setWhatsappMessages] = useState<WhatsAppMessage[]>([]);
   const [isInitialized, setIsInitialized] = useState(false);
@@ -66,7 +82,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
         
         if (isMounted) {
           await loadNotifications();
-          await loadStockAlerts();
+          await loadAlerts();
           await loadSettings();
           await loadWhatsAppMessages();
           checkNotificationPermission();
@@ -103,19 +119,61 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     }
   };
   
-  const loadStockAlerts = async () => {
-    if (!isInitialized) return; // Only load if properly initialized
-    
+  // Alerts are kept and evaluated by the server-side alert engine; alerts still in this
+  // browser's database from before are moved there on first load
+  const loadAlerts = async () => {
     try {
-      const data = await notificationDB.getStockAlerts(userId);
-      setStockAlerts(data);
+      await migrateBrowserAlerts();
+      const response = await fetch(`/api/alerts?userId=${encodeURIComponent(userId)}`);
+      const result = await response.json();
+      if (result.success) setAlerts(result.data);
     } catch (error) {
-      console.error('Failed to load stock alerts:', error);
+      console.error('Failed to load alerts:', error);
     }
   };
 
+  const migrateBrowserAlerts = async () => {
+    const legacy: StockAlert[] = await notificationDB.getStockAlerts(userId);
+    for (const alert of legacy) {
+      const conditions: AlertCondition[] = alert.type === 'RULE'
+        ? [{ type: 'rule', rule: alert.condition || '' }]
+        : [{ type: alert.type === 'ABOVE' ? 'above' : 'below', price: alert.targetPrice }];
+      const response = await fetch('/api/alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, ticker: alert.ticker, conditions, repeat: 'once', isActive: alert.isActive }),
+      });
+      // Alerts the engine rejects (e.g. a rule that no longer compiles) are dropped as well
+      if (response.ok || response.status === 400) {
+        await notificationDB.deleteStockAlert(alert.id);
+      }
+    }
+  };
+
+  // Settings live on the server, which routes notifications with them; this browser's copy is
+  // a fallback when the server cannot be reached and is moved there when the server has none
   const loadSettings = async () => {
     try {
+      let serverSettings: NotificationSettings | null = null;
+      let reachable = false;
+      try {
+        const response = await fetch(`/api/notifications/settings?userId=${encodeURIComponent(userId)}`);
+        const result = await response.json();
+        if (result.success) {
+          reachable = true;
+          serverSettings = result.data.settings;
+          setConfiguredChannels(result.data.configuredChannels);
+        }
+      } catch (error) {
+        console.error('Failed to load notification settings from the server:', error);
+      }
+
+      if (serverSettings) {
+        await notificationDB.saveNotificationSettings(serverSettings);
+        setSettings(serverSettings);
+        return;
+      }
+
       const data = await notificationDB.getNotificationSettings(userId);
       if (!data) {
         // Create default settings
@@ -128,23 +186,37 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
           buyThreshold: 10,
           sellThreshold: 15,
           soundEnabled: true,
+          enableEarningsReminders: true,
+          earningsReminderDays: DEFAULT_EARNINGS_REMINDER_DAYS,
         };
         await notificationDB.saveNotificationSettings(defaultSettings);
         setSettings(defaultSettings);
+        if (reachable) await saveServerSettings(defaultSettings);
       } else {
         setSettings(data);
+        if (reachable) await saveServerSettings(data);
       }
     } catch (error) {
       console.error('Failed to load notification settings:', error);
     }
   };
 
+  const saveServerSettings = async (newSettings: NotificationSettings): Promise<{ success: boolean; error?: string }> => {
+    const response = await fetch('/api/notifications/settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId, settings: newSettings }),
+    });
+    const result = await response.json();
+    return result.success ? { success: true } : { success: false, error: result.error };
+  };
+
   const loadWhatsAppMessages = async () => {
     if (!isInitialized) return; // Only load if properly initialized
     
     try {
-      const data = await notificationDB.getWhatsAppMessages(userId);
-      setWhatsappMessages(data);
+      const { messages } = await whatsAppService.getMessages(userId);
+      setWhatsappMessages(messages);
     } catch (error) {
       console.error('Failed to load WhatsApp messages:', error);
     }
@@ -221,6 +293,11 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
   const clearAll = async () => {
     try {
       await notificationDB.clearAllNotifications(userId);
+      await fetch('/api/notifications', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId }),
+      });
       setNotifications([]);
       setUnreadCount(0);
     } catch (error) {
@@ -228,86 +305,124 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     }
   };
 
-  const addStockAlert = async (alertData: Omit<StockAlert, 'id' | 'createdAt'>) => {
+  const createAlert = async (
+    ticker: string,
+    conditions: AlertCondition[],
+    options: { repeat?: AlertRepeat; policy?: Partial<AlertPolicy> } = {}
+  ): Promise<boolean> => {
     try {
-      const alert: StockAlert = {
-        ...alertData,
-        id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-        userId,
-        createdAt: new Date(),
-        isActive: true,
-      };
+      const response = await fetch('/api/alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, ticker, conditions, repeat: options.repeat ?? 'once', policy: options.policy }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        console.error('Failed to create alert:', result.error);
+        return false;
+      }
 
-      await notificationDB.addStockAlert(alert);
-      setStockAlerts(prev => [...prev, alert]);
+      const alert: AlertDefinition = result.data;
+      setAlerts(prev => [...prev, alert]);
 
       // Add confirmation notification
+      const isRule = conditions.some(condition => condition.type === 'rule');
       await addNotification({
-        title: 'Price Alert Created',
-        message: `Alert set for ${alert.ticker} ${alert.type.toLowerCase()} $${alert.targetPrice}`,
+        title: isRule ? 'Signal Alert Created' : 'Price Alert Created',
+        message: `Alert set for ${alert.ticker} when ${conditions.map(describeCondition).join(' or ')}`,
         type: 'SUCCESS',
         ticker: alert.ticker,
         userId,
       });
+      return true;
     } catch (error) {
-      console.error('Failed to add stock alert:', error);
+      console.error('Failed to create alert:', error);
+      return false;
     }
   };
 
-  const updateStockAlert = async (alert: StockAlert) => {
+  const setAlertActive = async (alertId: string, isActive: boolean) => {
     try {
-      await notificationDB.updateStockAlert(alert);
-      setStockAlerts(prev => prev.map(a => a.id === alert.id ? alert : a));
+      const response = await fetch('/api/alerts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, alertId, isActive }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setAlerts(prev => prev.map(a => a.id === alertId ? result.data : a));
+      }
     } catch (error) {
-      console.error('Failed to update stock alert:', error);
+      console.error('Failed to update alert:', error);
     }
   };
 
-  const deleteStockAlert = async (alertId: string) => {
+  const deleteAlert = async (alertId: string) => {
     try {
-      await notificationDB.deleteStockAlert(alertId);
-      setStockAlerts(prev => prev.filter(a => a.id !== alertId));
+      const response = await fetch(`/api/alerts?userId=${encodeURIComponent(userId)}&alertId=${encodeURIComponent(alertId)}`, {
+        method: 'DELETE',
+      });
+      if (response.ok) {
+        setAlerts(prev => prev.filter(a => a.id !== alertId));
+      }
     } catch (error) {
-      console.error('Failed to delete stock alert:', error);
+      console.error('Failed to delete alert:', error);
     }
   };
 
-  const updateSettings = async (newSettings: NotificationSettings) => {
+  const updateSettings = async (newSettings: NotificationSettings): Promise<{ success: boolean; error?: string }> => {
     try {
+      const saved = await saveServerSettings(newSettings);
+      if (!saved.success) return saved;
+
       await notificationDB.saveNotificationSettings(newSettings);
       setSettings(newSettings);
+      return { success: true };
     } catch (error) {
       console.error('Failed to update notification settings:', error);
+      return { success: false, error: 'Failed to save notification settings' };
     }
   };
 
+  // The server dispatches alerts, stories, earnings reminders and service notices; those
+  // delivered in-app since the last one shown become notifications here
   const checkPriceAlerts = useCallback(async (stocksData: StockData[]) => {
     if (!settings) return;
 
-    for (const alert of stockAlerts.filter(a => a.isActive)) {
-      const stock = stocksData.find(s => s.symbol === alert.ticker);
-      if (!stock) continue;
-
-      const shouldTrigger = 
-        (alert.type === 'ABOVE' && stock.currentPrice >= alert.targetPrice) ||
-        (alert.type === 'BELOW' && stock.currentPrice <= alert.targetPrice);
+    const storageKey = `notifications_seen_${userId}`;
+    try {
+      const since = localStorage.getItem(storageKey);
+      if (!since) {
+        localStorage.setItem(storageKey, new Date().toISOString());
+      } else {
+        const response = await fetch(`/api/notifications?userId=${encodeURIComponent(userId)}&since=${encodeURIComponent(since)}`);
+        const result = await response.json();
+        const dispatched: DispatchedNotification[] = result.success ? result.data : [];
 
-      if (shouldTrigger) {
-        // Deactivate the alert
-        const updatedAlert = { ...alert, isActive: false, triggeredAt: new Date() };
-        await updateStockAlert(updatedAlert);
+        // Oldest first, so the newest notification ends up on top
+        for (const notification of [...dispatched].reverse()) {
+          await addNotification({
+            title: notification.title,
+            message: notification.message,
+            type: notification.type === 'alert' ? 'ALERT'
+              : notification.severity === 'critical' ? 'ERROR'
+              : notification.severity === 'warning' ? 'WARNING' : 'INFO',
+            ticker: notification.ticker,
+            currentPrice: typeof notification.data?.price === 'number' ? notification.data.price : undefined,
+            targetPrice: typeof notification.data?.level === 'number' ? notification.data.level : undefined,
+            userId,
+          });
+        }
 
-        // Send notification
-        await addNotification({
-          title: 'Price Alert Triggered!',
-          message: `${stock.symbol} has reached $${stock.currentPrice} (target: $${alert.targetPrice})`,
-          type: 'ALERT',
-          ticker: stock.symbol,
-          currentPrice: stock.currentPrice,
-          targetPrice: alert.targetPrice,
-          userId,
-        });
+        if (dispatched.length > 0) {
+          localStorage.setItem(storageKey, dispatched[0].createdAt);
+          if (dispatched.some(notification => notification.type === 'alert')) {
+            await loadAlerts(); // 'once' alerts were deactivated when they fired
+          }
+        }
       }
+    } catch (error) {
+      console.error('Failed to check notifications:', error);
     }
 
     // Check for significant price changes
@@ -325,7 +440,84 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
         });
       }
     }
-  }, [stockAlerts, settings, addNotification, updateStockAlert, userId]);
+  }, [settings, addNotification, userId]);
+
+  // Browser push through public/push-sw.js; the subscription is kept on the server, which
+  // pushes to it when the user's routing includes push
+  const subscribeToPush = async (): Promise<{ success: boolean; error?: string }> => {
+    if (!settings) return { success: false, error: 'Settings are not loaded yet' };
+    if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+      return { success: false, error: 'This browser does not support push notifications' };
+    }
+
+    try {
+      const keyResponse = await fetch('/api/notifications/push');
+      const { data } = await keyResponse.json();
+      if (!data?.publicKey) return { success: false, error: 'Push notifications are not configured on this server' };
+      if (!(await requestNotificationPermission())) return { success: false, error: 'Notification permission was denied' };
+
+      const registration = await navigator.serviceWorker.register('/push-sw.js');
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: base64UrlToBytes(data.publicKey),
+      });
+
+      const response = await fetch('/api/notifications/push', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, subscription: subscription.toJSON() }),
+      });
+      const result = await response.json();
+      if (!result.success) return { success: false, error: result.error };
+
+      return updateSettings({ ...settings, enablePushNotifications: true });
+    } catch (error) {
+      console.error('Failed to subscribe to push notifications:', error);
+      return { success: false, error: 'Failed to subscribe to push notifications' };
+    }
+  };
+
+  const unsubscribeFromPush = async () => {
+    try {
+      const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration('/push-sw.js') : undefined;
+      const subscription = await registration?.pushManager.getSubscription();
+      if (subscription) {
+        await fetch(`/api/notifications/push?userId=${encodeURIComponent(userId)}&endpoint=${encodeURIComponent(subscription.endpoint)}`, {
+          method: 'DELETE',
+        });
+        await subscription.unsubscribe();
+      }
+      if (settings) await updateSettings({ ...settings, enablePushNotifications: false });
+    } catch (error) {
+      console.error('Failed to unsubscribe from push notifications:', error);
+    }
+  };
+
+  // A test event over every channel the user's routing picks for tests
+  const sendTestNotification = async (): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId,
+          type: 'test',
+          title: 'Test Notification',
+          message: 'Your notification settings are working correctly!',
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) return { success: false, error: result.error };
+
+      const failed = (result.data as DispatchedNotification).deliveries.filter(delivery => delivery.status === 'failed' || delivery.status === 'skipped');
+      return failed.length === 0
+        ? { success: true }
+        : { success: false, error: failed.map(delivery => `${delivery.channel}: ${delivery.error}`).join('; ') };
+    } catch (error) {
+      console.error('Failed to send test notification:', error);
+      return { success: false, error: 'Failed to send test notification' };
+    }
+  };
 
   const requestNotificationPermission = async (): Promise<boolean> => {
     if (!('Notification' in window)) {
@@ -492,7 +684,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
 
   const getWhatsAppHistory = async (): Promise<WhatsAppMessage[]> => {
     try {
-      return await notificationDB.getWhatsAppMessages(userId);
+      return (await whatsAppService.getMessages(userId)).messages;
     } catch (error) {
       console.error('Error getting WhatsApp history:', error);
       return [];
@@ -558,21 +750,46 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     }
   }, [settings, addNotification, userId, sendWhatsAppAlert]);
 
+  // Pre-earnings reminders are sent by the server for the tickers registered here (and the
+  // user's monitored positions), over the user's channels, whether or not a tab is open
+  const setEarningsReminderTickers = useCallback(async (tickers: string[]) => {
+    try {
+      const response = await fetch('/api/earnings/reminders', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, tickers }),
+      });
+      if (!response.ok) {
+        console.error('Failed to register earnings reminder tickers:', (await response.json()).error);
+        return;
+      }
+      // Reminders used to be de-duplicated per browser
+      localStorage.removeItem(`earnings_reminders_${userId}`);
+    } catch (error) {
+      console.error('Failed to register earnings reminder tickers:', error);
+    }
+  }, [userId]);
+
   const value: NotificationContextType = {
     notifications,
     unreadCount,
-    stockAlerts,
+    alerts,
     settings,
+    configuredChannels,
     whatsappMessages,
     addNotification,
     markAsRead,
     clearAll,
-    addStockAlert,
-    updateStockAlert,
-    deleteStockAlert,
+    createAlert,
+    setAlertActive,
+    deleteAlert,
     updateSettings,
+    subscribeToPush,
+    unsubscribeFromPush,
+    sendTestNotification,
     checkPriceAlerts,
     checkStockRecommendations,
+    setEarningsReminderTickers,
     requestNotificationPermission,
     sendBrowserNotification,
     sendWhatsAppAlert,
@@ -6,6 +6,10 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { createSeededRandom, getReplaySeed } from '@/services/seededRandom';
+
+// In replay mode prices come from the server's fixture playback instead of the mock generator
+const REPLAY_FEED_ENABLED = process.env.NEXT_PUBLIC_MARKET_DATA_PROVIDER === 'replay';
 
 interface RealtimePriceData {
   ticker: string;
@@ -47,6 +51,7 @@ export function useRealtimePrices(options: UseRealtimePricesOptions): UseRealtim
   const pricesRef = useRef<Map<string, RealtimePriceData>>(new Map());
   const lastUpdateTime = useRef<number>(0);
   const consecutiveErrorCount = useRef<number>(0);
+  const mockTickRef = useRef<Map<string, number>>(new Map());
 
   // Keep pricesRef in sync with prices state
   useEffect(() => {
@@ -54,9 +59,14 @@ export function useRealtimePrices(options: UseRealtimePricesOptions): UseRealtim
   }, [prices]);
 
   // Mock price generation for development (stable function, no dependencies)
+  // Seeded per ticker and update count so every run produces the same price path
   const generateMockPrice = useCallback((ticker: string, currentPrice?: number): RealtimePriceData => {
-    const basePrice = currentPrice || Math.random() * 1000 + 50; // Random base price between 50-1050
-    const change = (Math.random() - 0.5) * 10; // Random change between -5 and +5
+    const tick = mockTickRef.current.get(ticker) || 0;
+    mockTickRef.current.set(ticker, tick + 1);
+    const random = createSeededRandom(`${getReplaySeed()}:${ticker}:${tick}`);
+
+    const basePrice = currentPrice || createSeededRandom(`${getReplaySeed()}:${ticker}`)() * 1000 + 50; // Base price between 50-1050
+    const change = (random() - 0.5) * 10; // Change between -5 and +5
     const changePercent = (change / basePrice) * 100;
     
     return {
@@ -65,10 +75,41 @@ export function useRealtimePrices(options: UseRealtimePricesOptions): UseRealtim
       change: Math.round(change * 100) / 100,
       changePercent: Math.round(changePercent * 100) / 100,
       timestamp: Date.now(),
-      volume: Math.floor(Math.random() * 1000000)
+      volume: Math.floor(random() * 1000000)
     };
   }, []);
 
+  // Fetch replayed quotes from the server for all subscribed tickers
+  const fetchReplayPrices = useCallback(async () => {
+    const response = await fetch('/api/finnhub/quotes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tickers: Array.from(subscribedTickersRef.current) })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Replay quotes request failed: ${response.status}`);
+    }
+
+    const result = await response.json();
+    const quotes: Record<string, any> = result.data || {};
+
+    setPrices(prev => {
+      const newPrices = new Map(prev);
+      Object.entries(quotes).forEach(([ticker, quote]) => {
+        newPrices.set(ticker, {
+          ticker,
+          price: quote.currentPrice,
+          change: quote.change,
+          changePercent: quote.changePercent,
+          timestamp: new Date(quote.timestamp).getTime(),
+          volume: quote.volume
+        });
+      });
+      return newPrices;
+    });
+  }, []);
+
   // Simulate real-time price updates with improved error handling
   const updatePrices = useCallback(() => {
     if (subscribedTickersRef.current.size === 0 || isPaused) return;
@@ -78,6 +119,20 @@ export function useRealtimePrices(options: UseRealtimePricesOptions): UseRealtim
     if (now - lastUpdateTime.current < 5000) return; // Minimum 5 seconds between updates
     lastUpdateTime.current = now;
 
+    if (REPLAY_FEED_ENABLED) {
+      fetchReplayPrices()
+        .then(() => {
+          consecutiveErrorCount.current = 0;
+          setConnectionError(null);
+        })
+        .catch(error => {
+          consecutiveErrorCount.current++;
+          console.error('Error fetching replay prices:', error);
+          setConnectionError('Replay feed unavailable');
+        });
+      return;
+    }
+
     try {
       setPrices(prev => {
         const newPrices = new Map(prev);
@@ -105,7 +160,7 @@ export function useRealtimePrices(options: UseRealtimePricesOptions): UseRealtim
         setIsConnected(false);
       }
     }
-  }, [generateMockPrice, isPaused]);
+  }, [generateMockPrice, fetchReplayPrices, isPaused]);
 
   // Subscribe to a ticker (stable function with proper cleanup)
   const subscribe = useCallback((ticker: string) => {
@@ -113,13 +168,15 @@ export function useRealtimePrices(options: UseRealtimePricesOptions): UseRealtim
     
     subscribedTickersRef.current.add(ticker);
     
-    // Generate initial price for new ticker
-    const initialPrice = generateMockPrice(ticker);
-    setPrices(prev => {
-      const newPrices = new Map(prev);
-      newPrices.set(ticker, initialPrice);
-      return newPrices;
-    });
+    // Generate initial price for new ticker (replay prices arrive with the next poll)
+    if (!REPLAY_FEED_ENABLED) {
+      const initialPrice = generateMockPrice(ticker);
+      setPrices(prev => {
+        const newPrices = new Map(prev);
+        newPrices.set(ticker, initialPrice);
+        return newPrices;
+      });
+    }
     
     console.log(`Subscribed to ${ticker}`);
   }, [generateMockPrice]);
@@ -215,12 +272,14 @@ export function useRealtimePrices(options: UseRealtimePricesOptions): UseRealtim
     // Subscribe to new tickers
     newTickers.forEach(ticker => {
       subscribedTickersRef.current.add(ticker);
-      const initialPrice = generateMockPrice(ticker);
-      setPrices(prev => {
-        const newPrices = new Map(prev);
-        newPrices.set(ticker, initialPrice);
-        return newPrices;
-      });
+      if (!REPLAY_FEED_ENABLED) {
+        const initialPrice = generateMockPrice(ticker);
+        setPrices(prev => {
+          const newPrices = new Map(prev);
+          newPrices.set(ticker, initialPrice);
+          return newPrices;
+        });
+      }
       console.log(`Subscribed to ${ticker}`);
     });
 
@@ -0,0 +1,132 @@
+/**
+ * React Hook for the Transaction Ledger
+ * Loads and edits the user's ledger and derives holdings, lots and realized P&L from it;
+ * callers with live prices add unrealized P&L with valueLedger
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { buildLedger, DEFAULT_LOT_METHOD } from '@/services/transactionLedger';
+import { LedgerSummary, LedgerTransaction, LotMethod } from '@/types';
+
+export type LedgerTransactionDraft = Omit<LedgerTransaction, 'id' | 'createdAt'>;
+
+interface UseTransactionLedgerOptions {
+  userId: string;
+}
+
+interface TransactionLedgerHookReturn {
+  transactions: LedgerTransaction[];
+  lotMethod: LotMethod;
+  summary: LedgerSummary;
+  isLoaded: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions; each resolves to false and sets `error` when the server rejects the change
+  addTransactions: (drafts: LedgerTransactionDraft[]) => Promise<boolean>;
+  removeTransaction: (transactionId: string) => Promise<boolean>;
+  setLotMethod: (lotMethod: LotMethod) => Promise<boolean>;
+  refresh: () => Promise<void>;
+}
+
+const EMPTY_SUMMARY: LedgerSummary = buildLedger([]);
+
+export function useTransactionLedger(options: UseTransactionLedgerOptions): TransactionLedgerHookReturn {
+  const { userId } = options;
+
+  const [transactions, setTransactions] = useState<LedgerTransaction[]>([]);
+  const [lotMethod, setLotMethodState] = useState<LotMethod>(DEFAULT_LOT_METHOD);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Reload the ledger from the server
+   */
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/ledger?userId=${encodeURIComponent(userId)}`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load ledger');
+      }
+      setTransactions(result.data.transactions);
+      setLotMethodState(result.data.lotMethod);
+      setError(null);
+      setIsLoaded(true);
+    } catch (err) {
+      console.error('Error loading ledger:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load ledger');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    setIsLoaded(false);
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Send a change and reload the ledger when it is accepted
+   */
+  const mutate = useCallback(async (request: Promise<Response>): Promise<boolean> => {
+    try {
+      const response = await request;
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        setError(result.error || 'Ledger update failed');
+        return false;
+      }
+      await refresh();
+      return true;
+    } catch (err) {
+      console.error('Error updating ledger:', err);
+      setError(err instanceof Error ? err.message : 'Ledger update failed');
+      return false;
+    }
+  }, [refresh]);
+
+  const addTransactions = useCallback((drafts: LedgerTransactionDraft[]) => mutate(fetch('/api/ledger', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, transactions: drafts }),
+  })), [mutate, userId]);
+
+  const removeTransaction = useCallback((transactionId: string) => mutate(fetch(
+    `/api/ledger?userId=${encodeURIComponent(userId)}&id=${encodeURIComponent(transactionId)}`,
+    { method: 'DELETE' }
+  )), [mutate, userId]);
+
+  const setLotMethod = useCallback((method: LotMethod) => mutate(fetch('/api/ledger', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, lotMethod: method }),
+  })), [mutate, userId]);
+
+  const summary = useMemo(() => {
+    try {
+      return buildLedger(transactions, { lotMethod });
+    } catch (err) {
+      // The server only stores ledgers that replay cleanly; this guards against stale state
+      console.error('Ledger does not replay:', err);
+      return EMPTY_SUMMARY;
+    }
+  }, [transactions, lotMethod]);
+
+  return {
+    transactions,
+    lotMethod,
+    summary,
+    isLoaded,
+    isLoading,
+    error,
+    addTransactions,
+    removeTransaction,
+    setLotMethod,
+    refresh,
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { AlertDefinition, AlertPolicy } from '@/types';
+import { evaluateAlerts } from '../alertEngine';
+
+// AAPL trades on the US exchange: in early March New York is UTC-5, so the regular session
+// runs 14:30-21:00 UTC
+const TUESDAY_OPEN = Date.parse('2025-03-04T15:00:00Z'); // 10:00 in New York
+const MINUTE = 60 * 1000;
+
+function alert(overrides: Partial<AlertDefinition> = {}, policy: Partial<AlertPolicy> = {}): AlertDefinition {
+  return {
+    id: 'alert_1',
+    userId: 'user_1',
+    ticker: 'AAPL',
+    conditions: [{ type: 'above', price: 200 }],
+    source: 'stock',
+    repeat: 'rearm',
+    policy: { rearmPercent: 0, cooldownMinutes: 0, ...policy },
+    isActive: true,
+    createdAt: '2025-03-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+/**
+ * Run one alert through a series of (time, price) ticks, carrying its state forward, and
+ * return whether each tick fired
+ */
+function run(initial: AlertDefinition, ticks: [number, number][]): { fired: boolean[]; alert: AlertDefinition } {
+  let current = initial;
+  const fired = ticks.map(([now, price]) => {
+    const result = evaluateAlerts([current], { prices: new Map([['AAPL', price]]), now });
+    current = result.alerts[0];
+    return result.triggers.length > 0;
+  });
+  return { fired, alert: current };
+}
+
+describe('evaluateAlerts', () => {
+  it('fires a once alert a single time and deactivates it', () => {
+    const { fired, alert: after } = run(alert({ repeat: 'once' }), [
+      [TUESDAY_OPEN, 199],
+      [TUESDAY_OPEN + MINUTE, 201],
+      [TUESDAY_OPEN + 2 * MINUTE, 190],
+      [TUESDAY_OPEN + 3 * MINUTE, 205]
+    ]);
+    expect(fired).toEqual([false, true, false, false]);
+    expect(after.isActive).toBe(false);
+  });
+
+  it('is deterministic for the same inputs', () => {
+    const input = { prices: new Map([['AAPL', 201]]), now: TUESDAY_OPEN };
+    expect(evaluateAlerts([alert()], input)).toEqual(evaluateAlerts([alert()], input));
+  });
+
+  it('re-arms only once the price is back past the hysteresis band', () => {
+    const { fired } = run(alert({}, { rearmPercent: 2 }), [
+      [TUESDAY_OPEN, 201], // Fires
+      [TUESDAY_OPEN + MINUTE, 199], // 0.5% back: still disarmed
+      [TUESDAY_OPEN + 2 * MINUTE, 202],
+      [TUESDAY_OPEN + 3 * MINUTE, 195], // 2.5% back: re-armed
+      [TUESDAY_OPEN + 4 * MINUTE, 201]
+    ]);
+    expect(fired).toEqual([true, false, false, false, true]);
+  });
+
+  it('suppresses fires inside the cooldown window', () => {
+    const { fired } = run(alert({}, { rearmPercent: null, cooldownMinutes: 30 }), [
+      [TUESDAY_OPEN, 201],
+      [TUESDAY_OPEN + 10 * MINUTE, 205],
+      [TUESDAY_OPEN + 29 * MINUTE, 205],
+      [TUESDAY_OPEN + 30 * MINUTE, 205]
+    ]);
+    expect(fired).toEqual([true, false, false, true]);
+  });
+
+  it('resets the daily cap on the next exchange day, not the next UTC day', () => {
+    const { fired, alert: after } = run(alert({}, { rearmPercent: null, dailyCap: 1 }), [
+      [TUESDAY_OPEN, 201],
+      [TUESDAY_OPEN + 60 * MINUTE, 201], // Capped
+      [Date.parse('2025-03-05T03:00:00Z'), 201], // Wednesday in UTC, still Tuesday in New York
+      [Date.parse('2025-03-05T15:00:00Z'), 201]
+    ]);
+    expect(fired).toEqual([true, false, false, true]);
+    expect(after.state).toMatchObject({ day: '2025-03-05', firedToday: 1 });
+  });
+
+  it('keeps market-hours-only alerts quiet outside the regular session', () => {
+    const closed = [
+      Date.parse('2025-03-08T16:00:00Z'), // Saturday
+      Date.parse('2025-04-18T15:00:00Z'), // Good Friday, 11:00 in New York
+      Date.parse('2025-03-04T22:00:00Z'), // Tuesday 17:00 in New York, after hours
+      Date.parse('2025-03-04T13:00:00Z') // Tuesday 08:00 in New York, pre-market
+    ];
+    for (const now of closed) {
+      const result = evaluateAlerts([alert({}, { marketHoursOnly: true })], { prices: new Map([['AAPL', 201]]), now });
+      expect(result.triggers).toHaveLength(0);
+    }
+
+    const open = evaluateAlerts([alert({}, { marketHoursOnly: true })], { prices: new Map([['AAPL', 201]]), now: TUESDAY_OPEN });
+    expect(open.triggers).toHaveLength(1);
+  });
+
+  it('fires outside market hours when the alert is not gated', () => {
+    const result = evaluateAlerts([alert()], { prices: new Map([['AAPL', 201]]), now: Date.parse('2025-03-08T16:00:00Z') });
+    expect(result.triggers).toHaveLength(1);
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest';
+import { ImportedTransaction, LedgerTransaction, ParsedStatement } from '@/types';
+import {
+  BUILT_IN_IMPORT_PROFILES,
+  parseAmount,
+  parseCsv,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseStatementDate,
+  previewImport
+} from '../brokerageImport';
+
+const fidelity = BUILT_IN_IMPORT_PROFILES.find(profile => profile.id === 'fidelity')!;
+
+function statement(transactions: ImportedTransaction[]): ParsedStatement {
+  return { format: 'csv', rows: transactions.map((transaction, index) => ({ line: index + 2, transaction })) };
+}
+
+function recorded(transaction: ImportedTransaction, index: number): LedgerTransaction {
+  return { ...transaction, id: `tx_${index}`, createdAt: `2025-03-0${index + 1}T12:00:00.000Z` };
+}
+
+describe('parseCsv', () => {
+  it('keeps delimiters, doubled quotes and newlines inside quoted cells', () => {
+    expect(parseCsv('a,"b, ""c""",d\n"multi\nline",x\r\ny,z')).toEqual([
+      ['a', 'b, "c"', 'd'],
+      ['multi\nline', 'x'],
+      ['y', 'z']
+    ]);
+  });
+
+  it('splits on another delimiter', () => {
+    expect(parseCsv('a;"b;c"\n', ';')).toEqual([['a', 'b;c']]);
+  });
+});
+
+describe('parseAmount', () => {
+  it('reads parentheses as negative and ignores currency formatting', () => {
+    expect(parseAmount('($1,234.50)')).toBe(-1234.5);
+    expect(parseAmount('(12)')).toBe(-12);
+    expect(parseAmount('-12')).toBe(-12);
+    expect(parseAmount('$ 3,000')).toBe(3000);
+  });
+
+  it('leaves empty and non-numeric cells undefined', () => {
+    expect(parseAmount('')).toBeUndefined();
+    expect(parseAmount('--')).toBeUndefined();
+    expect(parseAmount('n/a')).toBeUndefined();
+  });
+});
+
+describe('parseStatementDate', () => {
+  it('reads slashed dates in the profile order', () => {
+    expect(parseStatementDate('03/04/2025', 'MM/DD/YYYY')).toBe('2025-03-04');
+    expect(parseStatementDate('03/04/2025', 'DD/MM/YYYY')).toBe('2025-04-03');
+    expect(parseStatementDate('13/01/25', 'DD/MM/YYYY')).toBe('2025-01-13');
+  });
+
+  it('rejects dates that do not exist in the profile order', () => {
+    expect(parseStatementDate('13/01/25', 'MM/DD/YYYY')).toBeNull();
+    expect(parseStatementDate('31/02/2025', 'DD/MM/YYYY')).toBeNull();
+    expect(parseStatementDate('yesterday', 'MM/DD/YYYY')).toBeNull();
+  });
+
+  it('reads ISO and OFX dates in any profile and ignores trailing text', () => {
+    expect(parseStatementDate('2025-03-04', 'DD/MM/YYYY')).toBe('2025-03-04');
+    expect(parseStatementDate('20250304120000.000[-5:EST]', 'YYYY-MM-DD')).toBe('2025-03-04');
+    expect(parseStatementDate('03/14/2024 as of 03/14/2024', 'MM/DD/YYYY')).toBe('2024-03-14');
+  });
+});
+
+describe('parseCsvStatement', () => {
+  it('reads rows below account details, including quoted multi-line cells', () => {
+    const csv = [
+      'Brokerage Account X12345',
+      'Run Date,Action,Symbol,Security Description,Quantity,Price ($),Commission ($),Amount ($)',
+      '03/04/2025,YOU BOUGHT APPLE INC (AAPL),AAPL,"APPLE INC',
+      'COM",10,"1,000.00",0.65,"(10,000.65)"',
+      '03/05/2025,TRANSFERRED TO VS X98765,AAPL,APPLE INC COM,-5,,,"(5,000.00)"',
+      '03/06/2025,INTEREST EARNED,,CASH,,,,1.23',
+      '"The data and information in this spreadsheet is provided to you solely for your use"'
+    ].join('\n');
+
+    expect(parseCsvStatement(csv, fidelity).rows).toEqual([
+      {
+        line: 3,
+        symbol: 'AAPL',
+        description: 'APPLE INC\nCOM',
+        transaction: { ticker: 'AAPL', date: '2025-03-04', type: 'buy', quantity: 10, price: 1000, fees: 0.65 }
+      },
+      {
+        line: 4,
+        symbol: 'AAPL',
+        description: 'APPLE INC COM',
+        transaction: { ticker: 'AAPL', date: '2025-03-05', type: 'transfer', direction: 'out', quantity: 5, price: 1000 }
+      },
+      { line: 5, description: 'CASH', transaction: null, reason: 'Not a holding transaction (INTEREST EARNED)' }
+    ]);
+  });
+});
+
+describe('parseOfxStatement', () => {
+  it('reads SGML investment transactions with tickers from the security list', () => {
+    const ofx = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<INVSTMTMSGSRSV1><INVSTMTTRNRS><INVSTMTRS>
+<INVTRANLIST>
+<DTSTART>20250301
+<DTEND>20250331
+<BUYSTOCK><INVBUY>
+<INVTRAN><FITID>T1<DTTRADE>20250304</INVTRAN>
+<SECID><UNIQUEID>037833100<UNIQUEIDTYPE>CUSIP</SECID>
+<UNITS>10<UNITPRICE>100.50<COMMISSION>1.00<TOTAL>-1006.00
+</INVBUY><BUYTYPE>BUY</BUYSTOCK>
+<INCOME>
+<INVTRAN><FITID>T2<DTTRADE>20250310</INVTRAN>
+<SECID><UNIQUEID>037833100<UNIQUEIDTYPE>CUSIP</SECID>
+<INCOMETYPE>DIV<TOTAL>2.50
+</INCOME>
+</INVTRANLIST>
+</INVSTMTRS></INVSTMTTRNRS></INVSTMTMSGSRSV1>
+<SECLISTMSGSRSV1><SECLIST>
+<STOCKINFO><SECINFO><SECID><UNIQUEID>037833100<UNIQUEIDTYPE>CUSIP</SECID><SECNAME>Apple Inc<TICKER>AAPL</SECINFO></STOCKINFO>
+</SECLIST></SECLISTMSGSRSV1>
+</OFX>`;
+
+    expect(parseOfxStatement(ofx)).toEqual({
+      format: 'ofx',
+      rows: [
+        {
+          line: 1,
+          symbol: 'AAPL',
+          description: 'Apple Inc',
+          transaction: { ticker: 'AAPL', date: '2025-03-04', externalId: 'T1', type: 'buy', quantity: 10, price: 100.5, fees: 1 }
+        },
+        {
+          line: 2,
+          symbol: 'AAPL',
+          description: 'Apple Inc',
+          transaction: { ticker: 'AAPL', date: '2025-03-10', externalId: 'T2', type: 'dividend', amount: 2.5 }
+        }
+      ]
+    });
+  });
+});
+
+describe('previewImport', () => {
+  const buy: ImportedTransaction = { type: 'buy', ticker: 'AAPL', date: '2025-03-04', quantity: 10, price: 100 };
+
+  it('matches each ledger entry to one row, so a second identical trade on the same day is new', () => {
+    const preview = previewImport(statement([buy, buy]), [recorded(buy, 0)], 'FIFO');
+
+    expect(preview.rows.map(row => row.status)).toEqual(['duplicate', 'new']);
+    expect(preview.transactions).toEqual([buy]);
+    expect(preview.changes).toEqual([{ ticker: 'AAPL', before: 10, after: 20 }]);
+    expect(preview.error).toBeNull();
+  });
+
+  it('matches by brokerage transaction id when there is one', () => {
+    const existing = recorded({ ...buy, externalId: 'T1' }, 0);
+    const preview = previewImport(statement([{ ...buy, price: 101, externalId: 'T1' }, { ...buy, externalId: 'T2' }]), [existing], 'FIFO');
+
+    expect(preview.rows.map(row => row.status)).toEqual(['duplicate', 'new']);
+  });
+
+  it('matches by content when only one side has a brokerage transaction id', () => {
+    const manual = recorded(buy, 0);
+    const imported = recorded({ ...buy, externalId: 'T1' }, 1);
+
+    expect(previewImport(statement([{ ...buy, externalId: 'T9' }]), [manual], 'FIFO').rows[0].status).toBe('duplicate');
+    expect(previewImport(statement([buy, buy]), [imported], 'FIFO').rows.map(row => row.status)).toEqual(['duplicate', 'new']);
+  });
+
+  it('skips rows without a transaction', () => {
+    const parsed: ParsedStatement = { format: 'csv', rows: [{ line: 2, transaction: null, reason: 'No action' }] };
+
+    expect(previewImport(parsed, [], 'FIFO')).toEqual({
+      rows: [{ line: 2, transaction: null, reason: 'No action', status: 'skipped' }],
+      transactions: [],
+      changes: [],
+      error: null
+    });
+  });
+
+  it('reports the ledger error when the new rows sell shares that are not held', () => {
+    const sale: ImportedTransaction = { type: 'sell', ticker: 'AAPL', date: '2025-03-05', quantity: 20, price: 110 };
+    const preview = previewImport(statement([sale]), [recorded(buy, 0)], 'FIFO');
+
+    expect(preview.rows.map(row => row.status)).toEqual(['new']);
+    expect(preview.error).toBe('Sale of 20 AAPL on 2025-03-05 exceeds the 10 shares held');
+    expect(preview.changes).toEqual([]);
+  });
+});
@@ -0,0 +1,35 @@
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CandleStore } from '../candleStore';
+
+describe('CandleStore paths', () => {
+  let dir: string;
+  let store: CandleStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'candles-'));
+    mkdirSync(path.join(dir, 'finnhub', 'AAPL'), { recursive: true });
+    writeFileSync(path.join(dir, 'finnhub', 'AAPL', 'D.json'), '{}');
+    store = new CandleStore(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('drops only the invalidated symbol', async () => {
+    mkdirSync(path.join(dir, 'finnhub', 'MSFT'));
+    await store.invalidate('msft', 'finnhub');
+
+    expect(existsSync(path.join(dir, 'finnhub', 'MSFT'))).toBe(false);
+    expect(existsSync(path.join(dir, 'finnhub', 'AAPL', 'D.json'))).toBe(true);
+  });
+
+  it.each(['.', '..', '...'])('keeps %s inside the provider directory', async symbol => {
+    await store.invalidate(symbol, 'finnhub');
+
+    expect(existsSync(path.join(dir, 'finnhub', 'AAPL', 'D.json'))).toBe(true);
+  });
+});
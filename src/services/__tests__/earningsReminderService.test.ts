@@ -0,0 +1,105 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EarningsCalendar, EarningsCalendarEntry, NotificationSettings } from '@/types';
+
+const dispatcher = vi.hoisted(() => ({
+  settings: new Map<string, Partial<NotificationSettings>>(),
+  dispatch: vi.fn()
+}));
+
+vi.mock('../notificationDispatcher', () => ({
+  notificationDispatcher: {
+    getSettings: async (userId: string) => dispatcher.settings.get(userId) ?? null,
+    dispatch: dispatcher.dispatch
+  }
+}));
+
+import { EarningsReminderService } from '../earningsReminderService';
+
+function entry(symbol: string, date: string, tradingDaysUntil: number): EarningsCalendarEntry {
+  return {
+    symbol,
+    date,
+    hour: 'amc',
+    quarter: 1,
+    year: 2025,
+    epsEstimate: 1.5,
+    epsActual: null,
+    epsSurprise: null,
+    epsSurprisePercent: null,
+    revenueEstimate: null,
+    revenueActual: null,
+    revenueSurprisePercent: null,
+    daysUntil: tradingDaysUntil,
+    tradingDaysUntil,
+    lastSurprisePercent: 4.2,
+    beatRate: 0.75
+  };
+}
+
+function calendar(from: string, entries: EarningsCalendarEntry[]): EarningsCalendar {
+  return { from, to: '2025-04-30', entries, failed: [] };
+}
+
+describe('EarningsReminderService', () => {
+  let dir: string;
+  let service: EarningsReminderService;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'earnings-reminders-'));
+    service = new EarningsReminderService(dir);
+    dispatcher.settings.clear();
+    dispatcher.dispatch.mockReset();
+    dispatcher.dispatch.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reminds once per report within the lead time, across service restarts', async () => {
+    const reports = calendar('2025-04-01', [entry('AAPL', '2025-04-03', 2), entry('MSFT', '2025-04-10', 7)]);
+    const tickers = new Map([['user_1', ['aapl', 'MSFT']]]);
+
+    expect(await service.sendDue(reports, tickers)).toBe(1);
+    expect(dispatcher.dispatch).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user_1',
+      type: 'earnings',
+      ticker: 'AAPL',
+      title: 'Earnings in 2 days: AAPL',
+      message: 'AAPL reports on 2025-04-03 after the close. EPS estimate $1.50. Last quarter surprised by +4.2%.'
+    }));
+
+    expect(await service.sendDue(reports, tickers)).toBe(0);
+    expect(await new EarningsReminderService(dir).sendDue(reports, tickers)).toBe(0);
+    expect(dispatcher.dispatch).toHaveBeenCalledTimes(1);
+  });
+
+  it("follows the user's lead time and opt-out", async () => {
+    const reports = calendar('2025-04-01', [entry('MSFT', '2025-04-10', 7)]);
+    dispatcher.settings.set('user_1', { earningsReminderDays: 7 });
+    dispatcher.settings.set('user_2', { enableEarningsReminders: false });
+
+    const sent = await service.sendDue(reports, new Map([['user_1', ['MSFT']], ['user_2', ['MSFT']]]));
+    expect(sent).toBe(1);
+    expect(dispatcher.dispatch).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user_1' }));
+  });
+
+  it('tries again next time when the dispatch fails', async () => {
+    const reports = calendar('2025-04-01', [entry('AAPL', '2025-04-03', 2)]);
+    const tickers = new Map([['user_1', ['AAPL']]]);
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    dispatcher.dispatch.mockRejectedValueOnce(new Error('disk full'));
+
+    expect(await service.sendDue(reports, tickers)).toBe(0);
+    expect(await service.sendDue(reports, tickers)).toBe(1);
+    logged.mockRestore();
+  });
+
+  it('stores registered tickers upper-cased and de-duplicated', async () => {
+    await service.setTickers('user_1', ['aapl', 'AAPL', ' msft ']);
+    expect(await new EarningsReminderService(dir).getAllTickers()).toEqual(new Map([['user_1', ['AAPL', 'MSFT']]]));
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import {
+  IndicatorSpecError,
+  MAX_INDICATOR_PERIOD,
+  parseIndicatorRequests,
+  resolveIndicatorParams
+} from '../indicatorEngine';
+import { compileSignalRule, SignalRuleError } from '../signalRules';
+
+describe('resolveIndicatorParams', () => {
+  it('accepts lengths up to the maximum', () => {
+    expect(resolveIndicatorParams({ id: 'sma', params: { period: MAX_INDICATOR_PERIOD } })).toEqual({ period: MAX_INDICATOR_PERIOD });
+  });
+
+  it('rejects lengths above the maximum', () => {
+    expect(() => resolveIndicatorParams({ id: 'sma', params: { period: 100000000 } })).toThrow(IndicatorSpecError);
+    expect(() => resolveIndicatorParams({ id: 'ichimoku', params: { spanB: MAX_INDICATOR_PERIOD + 1 } })).toThrow(IndicatorSpecError);
+  });
+
+  it('does not bound multipliers by the length maximum', () => {
+    expect(resolveIndicatorParams({ id: 'bollinger', params: { deviations: 2.5 } })).toEqual({ period: 20, deviations: 2.5 });
+  });
+});
+
+describe('parseIndicatorRequests', () => {
+  it('parses spec strings and arrays', () => {
+    expect(parseIndicatorRequests('sma:50,rsi')).toEqual([{ id: 'sma', params: { period: 50 } }, { id: 'rsi' }]);
+    expect(parseIndicatorRequests([{ id: 'sma', params: { period: 50 } }, { id: 'rsi' }]))
+      .toEqual([{ id: 'sma', params: { period: 50 } }, { id: 'rsi' }]);
+    expect(parseIndicatorRequests(undefined)).toEqual([]);
+  });
+
+  it('rejects malformed array entries', () => {
+    for (const value of [[null], ['sma'], [{ id: 'nope' }], [{ id: 'sma', params: { period: '50' } }], [{ id: 'sma', params: null }], 42]) {
+      expect(() => parseIndicatorRequests(value)).toThrow(IndicatorSpecError);
+    }
+  });
+});
+
+describe('signal rule lengths', () => {
+  it('rejects indicator and function lengths above the maximum', () => {
+    expect(() => compileSignalRule('sma(100000000) > 1')).toThrow(SignalRuleError);
+    expect(() => compileSignalRule(`change(${MAX_INDICATOR_PERIOD + 1}) > 1`)).toThrow(SignalRuleError);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { DispatchedNotification, NotificationSettings } from '@/types';
+import { webhookChannel } from '../notificationChannels';
+import { isPrivateHost, NotificationSettingsError, validateNotificationSettings, webhookUrlProblem } from '../notificationRouting';
+
+function settings(webhookUrl: string): NotificationSettings {
+  return {
+    userId: 'user_1',
+    enableBrowserNotifications: true,
+    enablePushNotifications: false,
+    enableWhatsAppNotifications: false,
+    priceChangeThreshold: 5,
+    buyThreshold: 10,
+    sellThreshold: 20,
+    soundEnabled: false,
+    webhookUrl
+  };
+}
+
+describe('webhook URL validation', () => {
+  it('accepts public https URLs', () => {
+    expect(webhookUrlProblem('https://hooks.example.com/alerts')).toBeNull();
+    expect(webhookUrlProblem('https://8.8.8.8/hook')).toBeNull();
+    expect(webhookUrlProblem('https://[2606:4700::1111]/hook')).toBeNull();
+    expect(() => validateNotificationSettings(settings('https://hooks.example.com/alerts'))).not.toThrow();
+  });
+
+  it('requires https', () => {
+    expect(webhookUrlProblem('http://hooks.example.com/alerts')).toMatch(/https/);
+    expect(webhookUrlProblem('ftp://hooks.example.com/alerts')).toMatch(/https/);
+    expect(webhookUrlProblem('not a url')).toBe('Invalid webhook URL');
+  });
+
+  it.each([
+    'https://localhost/hook',
+    'https://api.localhost/hook',
+    'https://127.0.0.1:8080/hook',
+    'https://0x7f.1/hook', // 127.0.0.1 in hex shorthand
+    'https://2130706433/hook', // 127.0.0.1 as one number
+    'https://0.0.0.0/hook',
+    'https://10.1.2.3/hook',
+    'https://172.16.0.1/hook',
+    'https://172.31.255.255/hook',
+    'https://192.168.1.10/hook',
+    'https://169.254.169.254/latest/meta-data',
+    'https://100.64.0.1/hook',
+    'https://[::1]/hook',
+    'https://[::]/hook',
+    'https://[fe80::1]/hook',
+    'https://[fd12:3456::1]/hook',
+    'https://[::ffff:127.0.0.1]/hook',
+    'https://[::ffff:169.254.169.254]/hook',
+    'https://intranet/hook',
+    'https://printer.local/hook',
+    'https://metadata.google.internal/hook'
+  ])('rejects %s', url => {
+    expect(webhookUrlProblem(url)).toBe('The webhook URL must point to a public host');
+    expect(() => validateNotificationSettings(settings(url))).toThrow(NotificationSettingsError);
+  });
+
+  it('classifies resolved addresses', () => {
+    expect(isPrivateHost('172.15.255.255')).toBe(false);
+    expect(isPrivateHost('172.32.0.1')).toBe(false);
+    expect(isPrivateHost('2001:db8::1')).toBe(false);
+    expect(isPrivateHost('64:ff9b::a00:1')).toBe(true); // NAT64 of 10.0.0.1
+    expect(isPrivateHost('fe80::1%eth0')).toBe(true);
+  });
+});
+
+describe('webhookChannel', () => {
+  const notification: DispatchedNotification = {
+    id: 'notif_1',
+    userId: 'user_1',
+    type: 'test',
+    severity: 'info',
+    title: 'Test',
+    message: 'Test notification',
+    createdAt: '2025-03-04T15:00:00.000Z',
+    isRead: false,
+    deliveries: []
+  };
+
+  it('does not offer URLs saved before they were restricted', () => {
+    const recipient = { settings: settings('http://192.168.1.10/hook'), pushSubscriptions: [] };
+    expect(webhookChannel.unavailableReason(recipient)).toMatch(/https/);
+  });
+
+  it('refuses a host that resolves to a private address without calling it', async () => {
+    const recipient = { settings: settings('https://127.0.0.1/hook'), pushSubscriptions: [] };
+    await expect(webhookChannel.send(notification, recipient)).rejects.toMatchObject({
+      name: 'ChannelError',
+      permanent: true
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { QuotaHistoryRecord } from '@/types';
+import { generatePDFReport } from '../pdfReportService';
+
+function record(timestamp: string, quotaUsed: number): QuotaHistoryRecord {
+  return {
+    timestamp,
+    quotaUsed,
+    quotaLimit: 60,
+    quotaRemaining: 60 - quotaUsed,
+    isLimitReached: quotaUsed >= 60,
+    apiCalls: quotaUsed,
+    service: 'finnhub'
+  };
+}
+
+describe('generatePDFReport', () => {
+  it('reports a period without recorded calls as zeros', () => {
+    const html = generatePDFReport([], 7);
+
+    expect(html).not.toMatch(/NaN|Infinity/);
+    expect(html).toContain('No API calls were recorded in this period');
+    expect(html).toContain('→ Stable');
+  });
+
+  it('summarizes recorded usage', () => {
+    // A first week without calls used to put an infinite trend in the text
+    const records = Array.from({ length: 14 }, (_, day) =>
+      record(new Date(Date.UTC(2025, 2, 1 + day)).toISOString(), day < 7 ? 0 : 30));
+    const html = generatePDFReport(records, 14);
+
+    expect(html).not.toMatch(/NaN|Infinity/);
+    expect(html).toContain('↗️ Increasing');
+    expect(html).not.toContain('No API calls were recorded');
+  });
+
+  it('escapes breakdown keys', () => {
+    const html = generatePDFReport([], 7, {
+      ticker: [{ key: '<img src=x onerror=alert(1)>', calls: 1, share: 1, cacheHits: 0, errors: 0, rateLimited: 0, avgLatencyMs: 10 }]
+    });
+
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(html).not.toContain('<img');
+  });
+});
@@ -0,0 +1,31 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ReplayMarketDataProvider } from '../replayMarketDataProvider';
+
+describe('ReplayMarketDataProvider fixtures', () => {
+  let root: string;
+  let provider: ReplayMarketDataProvider;
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(os.tmpdir(), 'replay-'));
+    const fixtureDir = path.join(root, 'fixtures');
+    mkdirSync(fixtureDir);
+    writeFileSync(path.join(fixtureDir, 'BRK.B.json'), JSON.stringify({ profile: { ticker: 'BRK.B', name: 'Berkshire Hathaway' }, candles: {} }));
+    writeFileSync(path.join(root, 'SECRET.json'), JSON.stringify({ profile: { ticker: 'SECRET', name: 'Outside the fixture dir' }, candles: {} }));
+    provider = new ReplayMarketDataProvider(fixtureDir);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('loads fixtures by symbol', async () => {
+    expect(await provider.getCompanyProfile('brk.b')).toEqual({ ticker: 'BRK.B', name: 'Berkshire Hathaway' });
+  });
+
+  it.each(['../SECRET', '..\\SECRET', '../fixtures/../SECRET', 'BRK.B/../../SECRET'])('refuses %s', async symbol => {
+    await expect(provider.getCompanyProfile(symbol)).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,44 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ScreenerError, ScreenerService } from '../screenerService';
+
+describe('ScreenerService universe', () => {
+  let dir: string;
+  let service: ScreenerService;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'screener-'));
+    service = new ScreenerService(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores symbols upper-cased and de-duplicated', async () => {
+    const universe = await service.setUniverse([
+      { symbol: 'aapl', sector: 'Technology' },
+      { symbol: 'AAPL' },
+      { symbol: ' brk.b ' }
+    ]);
+
+    expect(universe).toEqual([{ symbol: 'AAPL', sector: 'Technology' }, { symbol: 'BRK.B' }]);
+    expect(await new ScreenerService(dir).getUniverse()).toEqual(universe);
+  });
+
+  it.each(['../etc', 'AAPL/D', 'TOOLONGSYMBOL', 'A B', 'AAPL:NYSE'])('rejects %s', async symbol => {
+    await expect(service.setUniverse([{ symbol: 'AAPL' }, { symbol }])).rejects.toThrow(ScreenerError);
+  });
+
+  it('drops invalid symbols from a stored universe', async () => {
+    writeFileSync(path.join(dir, 'universe.json'), JSON.stringify({
+      version: 1,
+      universe: [{ symbol: 'MSFT' }, { symbol: '../..' }, { symbol: 'XOM', sector: 'Energy' }],
+      updatedAt: '2025-03-04T15:00:00.000Z'
+    }));
+
+    expect(await service.getUniverse()).toEqual([{ symbol: 'MSFT' }, { symbol: 'XOM', sector: 'Energy' }]);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { IndicatorInput } from '../indicatorEngine';
+import {
+  checkSignalRule,
+  compileSignalRule,
+  evaluateSignalRule,
+  evaluateSignalRuleSeries,
+  parseSignalRule,
+  SignalRuleError
+} from '../signalRules';
+
+function bars(closes: number[]): IndicatorInput {
+  return { open: closes, high: closes, low: closes, close: closes, volume: closes.map(() => 1000) };
+}
+
+describe('parseSignalRule', () => {
+  it('binds "and" tighter than "or" and "not" looser than comparisons', () => {
+    const ast = parseSignalRule('close > 1 or close < 0 and not close > 5');
+
+    expect(ast).toMatchObject({
+      kind: 'logical',
+      operator: 'or',
+      left: { kind: 'compare', operator: '>' },
+      right: {
+        kind: 'logical',
+        operator: 'and',
+        right: { kind: 'not', operand: { kind: 'compare', operator: '>' }, start: 27, end: 40 }
+      }
+    });
+  });
+
+  it('binds * tighter than + and keeps the source range of parentheses', () => {
+    const ast = parseSignalRule('close > (1 + 2) * 3');
+
+    expect(ast).toMatchObject({
+      kind: 'compare',
+      right: {
+        kind: 'arithmetic',
+        operator: '*',
+        left: { kind: 'arithmetic', operator: '+', start: 8, end: 15 },
+        right: { kind: 'number', value: 3 }
+      }
+    });
+  });
+});
+
+describe('evaluateSignalRuleSeries', () => {
+  it('applies precedence when evaluating', () => {
+    const input = bars([1, 7]);
+
+    expect(evaluateSignalRuleSeries('close > 6 or close < 2 and close > 100', input)).toEqual([false, true]);
+    expect(evaluateSignalRuleSeries('(close > 6 or close < 2) and close > 100', input)).toEqual([false, false]);
+    expect(evaluateSignalRuleSeries('close > 1 + 2 * 3', input)).toEqual([false, false]);
+    expect(evaluateSignalRuleSeries('close >= 1 + 2 * 3', input)).toEqual([false, true]);
+    expect(evaluateSignalRuleSeries('not close > 6', input)).toEqual([true, false]);
+  });
+
+  it('leaves crosses unknown on the first bar, where there is no previous bar', () => {
+    const input = bars([1, 3, 2, 4]);
+
+    expect(evaluateSignalRuleSeries('close crosses above 2.5', input)).toEqual([null, true, false, true]);
+    expect(evaluateSignalRuleSeries('close crosses below 2.5', input)).toEqual([null, false, true, false]);
+    expect(evaluateSignalRule('close crosses above 2.5', input, 0).matched).toBe(false);
+    expect(compileSignalRule('close crosses above 2.5').warmup).toBe(1);
+  });
+
+  it('only lets a warming-up indicator decide "and" / "or" when it could change the answer', () => {
+    const input = bars([1, 2, 3, 4]);
+
+    expect(evaluateSignalRuleSeries('close > 0 and sma(3) > 0', input)).toEqual([null, null, true, true]);
+    expect(evaluateSignalRuleSeries('close > 100 and sma(3) > 0', input)).toEqual([false, false, false, false]);
+    expect(evaluateSignalRuleSeries('close > 0 or sma(3) > 100', input)).toEqual([true, true, true, true]);
+    expect(evaluateSignalRuleSeries('close > 100 or sma(3) > 0', input)).toEqual([null, null, true, true]);
+    expect(evaluateSignalRuleSeries('not sma(3) > 0', input)).toEqual([null, null, false, false]);
+  });
+
+  it('reports the latest bar with the value of every term', () => {
+    const evaluation = evaluateSignalRule('close > sma(3)', { ...bars([1, 2, 3, 6]), time: [0, 60, 120, 180] });
+
+    expect(evaluation).toEqual({
+      rule: 'close > sma(3)',
+      matched: true,
+      timestamp: '1970-01-01T00:03:00.000Z',
+      values: { close: 6, 'sma(3)': 11 / 3 }
+    });
+  });
+});
+
+describe('checkSignalRule', () => {
+  it('points at the second operator of a chained comparison', () => {
+    expect(checkSignalRule('rsi(14) > 30 < 70')).toEqual([{
+      message: 'Comparisons cannot be chained; join them with "and", e.g. "rsi(14) > 30 and rsi(14) < 70"',
+      start: 13,
+      end: 14
+    }]);
+  });
+
+  it('points at && and || and names the keyword to use', () => {
+    expect(checkSignalRule('close > 1 && close < 5')).toEqual([{ message: 'Use "and" instead of "&&"', start: 10, end: 12 }]);
+    expect(checkSignalRule('close > 1 || close < 5')).toEqual([{ message: 'Use "or" instead of "||"', start: 10, end: 12 }]);
+  });
+
+  it('points at operands of the wrong type', () => {
+    expect(checkSignalRule('close > 1 and sma(20)')).toEqual([{
+      message: '"and" needs a condition (true/false), but this is a number',
+      start: 14,
+      end: 21
+    }]);
+  });
+
+  it('suggests names close to an unknown one', () => {
+    expect(checkSignalRule('clsoe > 1')).toEqual([{ message: 'Unknown name "clsoe". Did you mean close?', start: 0, end: 5 }]);
+    expect(checkSignalRule('rsi14 < 30')[0].message).toBe('Unknown name "rsi14". Did you mean rsi(14)?');
+  });
+
+  it('reports every type-checking problem, not just the first', () => {
+    const rule = 'clsoe > 1 and foo(3) > 2';
+
+    expect(checkSignalRule(rule).map(diagnostic => [diagnostic.start, diagnostic.end])).toEqual([[0, 5], [14, 20]]);
+    expect(() => compileSignalRule(rule)).toThrow(SignalRuleError);
+  });
+});
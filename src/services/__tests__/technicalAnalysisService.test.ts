@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { ChartDataPoint, TechnicalAnalysisService } from '../technicalAnalysisService';
+
+/**
+ * Daily bars on the weekdays from `from` to `to`, rising steadily except for a drop on `dip`
+ */
+function dailyBars(from: string, to: string, dip: string): ChartDataPoint[] {
+  const bars: ChartDataPoint[] = [];
+  let close = 100;
+  for (let day = new Date(`${from}T00:00:00Z`); day.toISOString().slice(0, 10) <= to; day.setUTCDate(day.getUTCDate() + 1)) {
+    if (day.getUTCDay() === 0 || day.getUTCDay() === 6) continue;
+    const timestamp = day.toISOString().slice(0, 10);
+    close = timestamp === dip ? close - 5 : close + 5;
+    bars.push({ timestamp, open: close, high: close, low: close, close, volume: 1000 });
+  }
+  return bars;
+}
+
+describe('TechnicalAnalysisService.analyzeTrend', () => {
+  it('counts a Monday-Friday run of daily bars as five sessions', () => {
+    const bars = dailyBars('2025-02-03', '2025-03-07', '2025-02-28');
+    const trend = new TechnicalAnalysisService().analyzeTrend(bars);
+    expect(trend.direction).toBe('BULLISH');
+    expect(trend.duration).toBe('5 days');
+  });
+
+  it('skips exchange holidays inside the run', () => {
+    // Presidents' Day, Monday 2025-02-17, has a bar here but is not a session
+    const bars = dailyBars('2025-01-13', '2025-02-21', '2025-02-14');
+    expect(new TechnicalAnalysisService().analyzeTrend(bars).duration).toBe('4 days');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { LedgerTransaction } from '@/types';
+import { buildLedger, LedgerError } from '../transactionLedger';
+
+let sequence = 0;
+
+function tx(entry: Omit<LedgerTransaction, 'createdAt' | 'id'> & { id?: string }): LedgerTransaction {
+  sequence++;
+  return { id: `tx_${sequence}`, createdAt: new Date(Date.UTC(2025, 0, 1, 0, 0, sequence)).toISOString(), ...entry };
+}
+
+// Lot a: 6 @ 10, lot b: 4 @ 20
+function twoLots(): LedgerTransaction[] {
+  return [
+    tx({ id: 'a', type: 'buy', ticker: 'AAPL', date: '2024-01-02', quantity: 6, price: 10 }),
+    tx({ id: 'b', type: 'buy', ticker: 'AAPL', date: '2024-06-03', quantity: 4, price: 20 })
+  ];
+}
+
+describe('buildLedger', () => {
+  it('closes the oldest lots first under FIFO', () => {
+    const summary = buildLedger([
+      ...twoLots(),
+      tx({ type: 'sell', ticker: 'AAPL', date: '2025-03-04', quantity: 8, price: 25 })
+    ]);
+
+    expect(summary.realized.map(lot => [lot.lotId, lot.quantity, lot.costBasis, lot.term])).toEqual([
+      ['a', 6, 60, 'long'],
+      ['b', 2, 40, 'short']
+    ]);
+    expect(summary.totals.realizedGain).toBe(100);
+    expect(summary.holdings[0]).toMatchObject({ ticker: 'AAPL', quantity: 2, costBasis: 40 });
+  });
+
+  it('closes the newest lots first under LIFO', () => {
+    const summary = buildLedger([
+      ...twoLots(),
+      tx({ type: 'sell', ticker: 'AAPL', date: '2025-03-04', quantity: 8, price: 25, lotMethod: 'LIFO' })
+    ]);
+
+    expect(summary.realized.map(lot => [lot.lotId, lot.quantity, lot.costBasis])).toEqual([
+      ['b', 4, 80],
+      ['a', 4, 40]
+    ]);
+    expect(summary.holdings[0]).toMatchObject({ quantity: 2, costBasis: 20 });
+  });
+
+  it('closes the named lots of a SPECIFIC sale', () => {
+    const summary = buildLedger([
+      ...twoLots(),
+      tx({
+        type: 'sell', ticker: 'AAPL', date: '2025-03-04', quantity: 5, price: 25, fees: 5,
+        lotMethod: 'SPECIFIC', lots: [{ lotId: 'b', quantity: 3 }, { lotId: 'a', quantity: 2 }]
+      })
+    ]);
+
+    expect(summary.realized.map(lot => [lot.lotId, lot.quantity, lot.proceeds, lot.costBasis])).toEqual([
+      ['b', 3, 72, 60],
+      ['a', 2, 48, 20]
+    ]);
+    expect(summary.holdings[0].lots.map(lot => [lot.id, lot.quantity])).toEqual([['a', 4], ['b', 1]]);
+  });
+
+  it('rejects a SPECIFIC sale that names the same lot twice', () => {
+    const transactions = [
+      ...twoLots(),
+      tx({
+        type: 'sell', ticker: 'AAPL', date: '2025-03-04', quantity: 10, price: 25,
+        lotMethod: 'SPECIFIC', lots: [{ lotId: 'a', quantity: 5 }, { lotId: 'a', quantity: 5 }]
+      })
+    ];
+
+    expect(() => buildLedger(transactions)).toThrow(LedgerError);
+    expect(() => buildLedger(transactions)).toThrow(/lot a more than once/);
+  });
+
+  it('rejects a SPECIFIC sale that takes more than a lot holds or fewer shares than sold', () => {
+    const sell = (lots: LedgerTransaction['lots']) => [
+      ...twoLots(),
+      tx({ type: 'sell', ticker: 'AAPL', date: '2025-03-04', quantity: 5, price: 25, lotMethod: 'SPECIFIC', lots })
+    ];
+
+    expect(() => buildLedger(sell([{ lotId: 'b', quantity: 5 }]))).toThrow('Lot b does not hold 5 AAPL on 2025-03-04');
+    expect(() => buildLedger(sell([{ lotId: 'a', quantity: 4 }]))).toThrow(/hold 4 AAPL, not the 5/);
+    expect(() => buildLedger(sell([{ lotId: 'missing', quantity: 5 }]))).toThrow(LedgerError);
+  });
+
+  it('rejects selling more than is held', () => {
+    expect(() => buildLedger([
+      ...twoLots(),
+      tx({ type: 'sell', ticker: 'AAPL', date: '2025-03-04', quantity: 10.5, price: 25 })
+    ])).toThrow('Sale of 10.5 AAPL on 2025-03-04 exceeds the 10 shares held');
+  });
+
+  it('restates open lots for a split without changing their cost', () => {
+    const summary = buildLedger([
+      ...twoLots(),
+      tx({ type: 'split', ticker: 'AAPL', date: '2024-08-01', ratio: 4 }),
+      tx({ type: 'sell', ticker: 'AAPL', date: '2025-03-04', quantity: 30, price: 6 })
+    ]);
+
+    expect(summary.realized.map(lot => [lot.lotId, lot.quantity, lot.costBasis])).toEqual([
+      ['a', 24, 60],
+      ['b', 6, 30]
+    ]);
+    expect(summary.holdings[0]).toMatchObject({ quantity: 10, costBasis: 50, averageCost: 5 });
+    expect(summary.holdings[0].lots[0]).toMatchObject({ id: 'b', originalQuantity: 16, costPerShare: 5 });
+  });
+});
@@ -0,0 +1,83 @@
+import { mkdtempSync, promises as fs, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UserJsonStore } from '../userJsonStore';
+
+interface Counter {
+  version: 1;
+  userId: string;
+  values: number[];
+  updatedAt: number;
+}
+
+function counterStore(dir: string, onLoad?: (stored: Counter) => void): UserJsonStore<Counter> {
+  return new UserJsonStore<Counter>({
+    dir,
+    label: 'counters',
+    empty: userId => ({ version: 1, userId, values: [], updatedAt: 0 }),
+    parse: parsed => parsed.version === 1 && Array.isArray(parsed.values) ? parsed : null,
+    onLoad
+  });
+}
+
+describe('UserJsonStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'user-json-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('applies concurrent changes to one user in order', async () => {
+    const store = counterStore(dir);
+    await Promise.all([1, 2, 3, 4, 5].map(value =>
+      store.update('user/1', stored => ({ stored: { ...stored, values: [...stored.values, value] }, result: undefined }))
+    ));
+
+    expect((await store.get('user/1')).values).toEqual([1, 2, 3, 4, 5]);
+    const written = JSON.parse(await fs.readFile(path.join(dir, 'user%2F1.json'), 'utf-8')) as Counter;
+    expect(written.values).toEqual([1, 2, 3, 4, 5]);
+    expect(written.updatedAt).toBeGreaterThan(0);
+  });
+
+  it('stores nothing for a change that throws and keeps applying later ones', async () => {
+    const store = counterStore(dir);
+    const failed = store.update('user_1', () => {
+      throw new Error('invalid');
+    });
+    const added = store.update('user_1', stored => ({ stored: { ...stored, values: [7] }, result: 'added' }));
+
+    await expect(failed).rejects.toThrow('invalid');
+    await expect(added).resolves.toBe('added');
+    expect((await store.get('user_1')).values).toEqual([7]);
+  });
+
+  it('returns the result without writing when a change keeps the document', async () => {
+    const store = counterStore(dir);
+    await expect(store.update('user_1', () => ({ stored: null, result: 42 }))).resolves.toBe(42);
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it('loads every user written by an earlier instance, once each', async () => {
+    const first = counterStore(dir);
+    await first.update('a', stored => ({ stored: { ...stored, values: [1] }, result: undefined }));
+    await first.update('b', stored => ({ stored: { ...stored, values: [2] }, result: undefined }));
+    await fs.writeFile(path.join(dir, 'old.json'), JSON.stringify({ version: 0, userId: 'old' }));
+    await fs.writeFile(path.join(dir, 'broken.json'), '{');
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const loaded: string[] = [];
+    const second = counterStore(dir, stored => loaded.push(stored.userId));
+    const all = await second.loadAll();
+    await second.loadAll();
+
+    expect(all.map(stored => [stored.userId, stored.values]).sort()).toEqual([['a', [1]], ['b', [2]], ['broken', []], ['old', []]]);
+    expect(loaded.sort()).toEqual(['a', 'b', 'broken', 'old']);
+    expect(logged).toHaveBeenCalledTimes(1);
+    logged.mockRestore();
+  });
+});
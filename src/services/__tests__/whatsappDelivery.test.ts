@@ -0,0 +1,171 @@
+import { mkdtempSync, rmSync } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { TwilioConfig } from '@/types';
+import { createMockServer } from '../../../scripts/twilio-mock-server.js';
+import { sendWhatsAppMessage, twilioConfigFromEnv, twilioSignature, TwilioError } from '../twilioClient';
+import type { WhatsAppDeliveryService } from '../whatsappDeliveryService';
+import type { POST as StatusCallback } from '@/app/api/whatsapp/status/route';
+
+const AUTH_TOKEN = 'test-token';
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  });
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+async function waitFor<T>(read: () => Promise<T>, done: (value: T) => boolean, timeoutMs = 3000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = await read();
+    if (done(value) || Date.now() > deadline) return value;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+describe('WhatsApp delivery through the Twilio mock', () => {
+  const env = { ...process.env };
+  let dir: string;
+  let twilio: http.Server;
+  let app: http.Server;
+  let callbackUrl: string;
+  let service: WhatsAppDeliveryService;
+  let statusCallback: typeof StatusCallback;
+  const callbacks: number[] = [];
+
+  beforeAll(async () => {
+    // The first callback can arrive before send() has recorded the message
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    dir = mkdtempSync(path.join(os.tmpdir(), 'whatsapp-'));
+    twilio = createMockServer({ stepMs: 20, log: () => undefined });
+    const apiUrl = await listen(twilio);
+
+    // Stands in for the Next.js server: Twilio's callbacks go to the real route handler
+    app = http.createServer(async (req, res) => {
+      const request = new NextRequest(callbackUrl, {
+        method: 'POST',
+        headers: req.headers as Record<string, string>,
+        body: await readBody(req)
+      });
+      const response = await statusCallback(request);
+      callbacks.push(response.status);
+      res.writeHead(response.status);
+      res.end(await response.text());
+    });
+    callbackUrl = `${await listen(app)}/api/whatsapp/status`;
+
+    Object.assign(process.env, {
+      TWILIO_ACCOUNT_SID: 'ACtest',
+      TWILIO_AUTH_TOKEN: AUTH_TOKEN,
+      TWILIO_WHATSAPP_NUMBER: '+15550000000',
+      TWILIO_API_URL: apiUrl,
+      TWILIO_STATUS_CALLBACK_URL: callbackUrl,
+      WHATSAPP_DIR: dir
+    });
+    // The singletons read the environment when first imported
+    service = (await import('../whatsappDeliveryService')).whatsAppDeliveryService;
+    statusCallback = (await import('@/app/api/whatsapp/status/route')).POST;
+  });
+
+  afterAll(async () => {
+    await close(twilio);
+    await close(app);
+    rmSync(dir, { recursive: true, force: true });
+    process.env = env;
+    vi.restoreAllMocks();
+  });
+
+  it('follows a message to read through signed status callbacks', async () => {
+    const sent = await service.send({
+      userId: 'user_1',
+      to: '+15551230000',
+      template: 'notification',
+      variables: { title: 'Test', message: 'Hello' }
+    });
+    expect(sent.status).toBe('SENT');
+    expect(sent.twilioMessageId).toMatch(/^SM/);
+
+    const read = await waitFor(() => service.getMessage('user_1', sent.id), message => message?.status === 'READ');
+    expect(read?.status).toBe('READ');
+    expect(callbacks.length).toBeGreaterThanOrEqual(3);
+    expect(callbacks.every(status => status === 204)).toBe(true);
+  });
+
+  it('marks undelivered messages as failed with the error', async () => {
+    const sent = await service.send({
+      userId: 'user_1',
+      to: '+15551230002',
+      template: 'notification',
+      variables: { title: 'Test', message: 'Hello' }
+    });
+
+    const failed = await waitFor(() => service.getMessage('user_1', sent.id), message => message?.status === 'FAILED');
+    expect(failed?.status).toBe('FAILED');
+    expect(failed?.error).toMatch(/^63024/);
+  });
+
+  it('rejects a status callback with a bad signature', async () => {
+    const sent = await service.send({
+      userId: 'user_2',
+      to: '+15551239999',
+      template: 'notification',
+      variables: { title: 'Test', message: 'Hello' }
+    });
+    const params = { MessageSid: sent.twilioMessageId, MessageStatus: 'failed', ErrorCode: '30008' };
+
+    const forged = await fetch(callbackUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'X-Twilio-Signature': twilioSignature('wrong-token', callbackUrl, params)
+      },
+      body: new URLSearchParams(params)
+    });
+    expect(forged.status).toBe(403);
+
+    const delivered = await waitFor(() => service.getMessage('user_2', sent.id), message => message?.status === 'READ');
+    expect(delivered?.status).toBe('READ');
+  });
+
+  it('reports refused requests as permanent and throttling or outages as retryable', async () => {
+    const config = twilioConfigFromEnv() as TwilioConfig;
+    const refused = await sendWhatsAppMessage(config, { to: '12345', body: 'Hello' }).catch(error => error as TwilioError);
+    expect(refused).toBeInstanceOf(TwilioError);
+    expect(refused).toMatchObject({ status: 400, code: 21211, permanent: true });
+
+    for (const status of [429, 500, 503]) {
+      const failing = http.createServer((_req, res) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ code: 20429, message: 'Try later', status }));
+      });
+      const apiUrl = await listen(failing);
+      const error = await sendWhatsAppMessage({ ...config, apiUrl }, { to: '+15551230000', body: 'Hello' })
+        .catch(caught => caught as TwilioError);
+      await close(failing);
+
+      expect(error).toBeInstanceOf(TwilioError);
+      expect(error).toMatchObject({ status, permanent: false });
+    }
+
+    const unreachable = new TwilioError('Twilio request failed: ECONNREFUSED');
+    expect(unreachable.permanent).toBe(false);
+  });
+});
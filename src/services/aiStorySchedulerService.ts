@@ -1,5 +1,6 @@
 import { aiStoryService } from './aiStoryGenerationService';
 import { aiStoryDatabase } from './aiStoryDatabase';
+import { notificationDispatcher } from './notificationDispatcher';
 import { StoryData } from '@/types';
 
 interface SchedulerConfig {
@@ -334,38 +335,23 @@ class AIStorySchedulerService {
   }
 
   /**
-   * Send notification to user
+   * Send notification to user, over the channels their routing picks for stories
    */
   private async sendNotification(payload: NotificationPayload): Promise<void> {
     try {
       console.log(`Sending notification to user ${payload.userId}:`, payload.title);
-      
-      // In production, this would integrate with:
-      // - Push notification service (Firebase, OneSignal, etc.)
-      // - Email service (SendGrid, SES, etc.)
-      // - SMS service (Twilio, etc.)
-      // - In-app notifications
-      
-      // For now, just log the notification
-      console.log('Notification payload:', {
+
+      await notificationDispatcher.dispatch({
         userId: payload.userId,
+        type: 'stories',
+        severity: payload.type === 'daily_stories' ? 'info' : 'warning',
         title: payload.title,
         message: payload.message,
-        type: payload.type
+        ticker: payload.data?.ticker,
+        url: payload.url,
+        data: { kind: payload.type, ...payload.data }
       });
       
-      // Store notification in local storage for demo
-      if (typeof window !== 'undefined') {
-        const notifications = JSON.parse(localStorage.getItem('user_notifications') || '[]');
-        notifications.push({
-          ...payload,
-          id: `notif-${Date.now()}`,
-          timestamp: new Date().toISOString(),
-          read: false
-        });
-        localStorage.setItem('user_notifications', JSON.stringify(notifications));
-      }
-      
     } catch (error) {
       console.error('Error sending notification:', error);
     }
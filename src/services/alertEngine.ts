@@ -0,0 +1,575 @@
+/**
+ * Alert Engine
+ * Evaluation of watchlist, price and position alerts against the latest prices
+ *
+ * An alert fires when any of its conditions holds: a price at or above a level, at or below
+ * one, a signal rule, a trailing stop from the running high, a move from the previous close,
+ * a gap at the open, or a new 52-week high or low. Rules, ATR and the 52-week range need
+ * candle history, so callers work them out beforehand and pass the results; everything else
+ * here is a pure function of the alerts, the prices and the time, shared by the alert
+ * service and the API routes, so the same inputs always give the same triggers and state.
+ *
+ * A 'once' alert deactivates when it fires. A 'rearm' alert follows its policy: a fired
+ * condition stays disarmed until the price is back rearmPercent past its level (or the rule
+ * stops matching), nothing fires within the cooldown or past the daily cap, and with
+ * marketHoursOnly nothing fires outside the regular session. A trailing stop re-arms when the
+ * price sets a new running high, and moves, gaps and 52-week range conditions on the next
+ * exchange day. Re-arming and the running high are tracked on every evaluation, including
+ * ones that are gated.
+ */
+
+import {
+  AlertCondition,
+  AlertDefinition,
+  AlertDirection,
+  AlertPolicy,
+  AlertState,
+  AlertTrigger,
+  MarketSession,
+  PositionAlert,
+  PriceAlert,
+  StockPosition
+} from '@/types';
+import { compileSignalRule, SignalRuleError } from './signalRules';
+import { marketCalendar } from './marketCalendar';
+
+export class AlertError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertError';
+  }
+}
+
+export const MAX_ALERT_CONDITIONS = 8;
+
+// Daily ATR period of ATR trailing stops
+export const TRAILING_ATR_PERIOD = 14;
+
+export const DEFAULT_ALERT_POLICY: AlertPolicy = {
+  rearmPercent: 0,
+  cooldownMinutes: 60
+};
+
+const MAX_REARM_PERCENT = 50;
+const MAX_COOLDOWN_MINUTES = 7 * 24 * 60;
+const MAX_DAILY_CAP = 100;
+const MAX_ATR_MULTIPLE = 20;
+const DIRECTIONS: AlertDirection[] = ['up', 'down'];
+const MINUTE_MS = 60 * 1000;
+
+// Per-ticker data beyond the latest price; conditions whose data is missing do not hold
+export interface AlertMarketData {
+  previousClose?: number;
+  open?: number; // Today's opening price
+  atr?: number; // Daily ATR(TRAILING_ATR_PERIOD) over completed sessions
+  yearHigh?: number; // Highest high of the 52 weeks before today's session
+  yearLow?: number;
+}
+
+export interface AlertEvaluationInput {
+  prices: Map<string, number>; // Latest price per ticker
+  marketData?: Map<string, AlertMarketData>;
+  ruleResults?: Map<string, boolean>; // By ruleMatchKey(); rules not evaluated this time are absent
+  now: number;
+}
+
+export interface AlertEvaluation {
+  alerts: AlertDefinition[]; // Every alert, with fired and re-armed ones updated
+  triggers: AlertTrigger[]; // In the order of the alerts
+  changed: boolean; // Whether any alert's state changed
+}
+
+/**
+ * Key of one rule condition of an alert in AlertEvaluationInput.ruleResults
+ */
+export function ruleMatchKey(alertId: string, conditionIndex: number): string {
+  return `${alertId}:${conditionIndex}`;
+}
+
+function inRange(value: number | undefined, max: number): boolean {
+  return value !== undefined && Number.isFinite(value) && value > 0 && value <= max;
+}
+
+function validateDirection(direction: AlertDirection | undefined): void {
+  if (direction !== undefined && !DIRECTIONS.includes(direction)) {
+    throw new AlertError(`direction must be one of ${DIRECTIONS.join(', ')}`);
+  }
+}
+
+/**
+ * Throws AlertError unless the conditions are a usable set: one to MAX_ALERT_CONDITIONS of
+ * them, positive price levels with any upper level above any lower one, percentages and ATR
+ * multiples in range, and rules that compile
+ */
+export function validateAlertConditions(conditions: AlertCondition[]): void {
+  if (conditions.length === 0) throw new AlertError('An alert needs at least one condition');
+  if (conditions.length > MAX_ALERT_CONDITIONS) {
+    throw new AlertError(`An alert can have at most ${MAX_ALERT_CONDITIONS} conditions`);
+  }
+
+  for (const condition of conditions) {
+    switch (condition.type) {
+      case 'rule':
+        try {
+          compileSignalRule(condition.rule);
+        } catch (error) {
+          if (error instanceof SignalRuleError) throw new AlertError(`Invalid rule "${condition.rule}": ${error.message}`);
+          throw error;
+        }
+        break;
+      case 'above':
+      case 'below':
+        if (!Number.isFinite(condition.price) || condition.price <= 0) {
+          throw new AlertError(`The ${condition.type} price must be positive`);
+        }
+        break;
+      case 'trailingStop':
+        if ((condition.percent === undefined) === (condition.atrMultiple === undefined)) {
+          throw new AlertError('A trailing stop needs either a percent or an ATR multiple');
+        }
+        if (condition.percent !== undefined && !(inRange(condition.percent, 100) && condition.percent < 100)) {
+          throw new AlertError('The trailing stop percent must be between 0 and 100');
+        }
+        if (condition.atrMultiple !== undefined && !inRange(condition.atrMultiple, MAX_ATR_MULTIPLE)) {
+          throw new AlertError(`The trailing stop ATR multiple must be between 0 and ${MAX_ATR_MULTIPLE}`);
+        }
+        break;
+      case 'move':
+      case 'gap':
+        if (!inRange(condition.percent, 100)) throw new AlertError(`The ${condition.type} percent must be between 0 and 100`);
+        validateDirection(condition.direction);
+        break;
+      case 'yearRange':
+        validateDirection(condition.direction);
+        break;
+    }
+  }
+
+  const upper = Math.min(...conditions.map(condition => condition.type === 'above' ? condition.price : Infinity));
+  const lower = Math.max(...conditions.map(condition => condition.type === 'below' ? condition.price : -Infinity));
+  if (upper <= lower) throw new AlertError('The above price must be greater than the below price');
+}
+
+/**
+ * Throws AlertError unless every policy field that is set is in range
+ */
+export function validateAlertPolicy(policy: Partial<AlertPolicy>): void {
+  const { rearmPercent, cooldownMinutes, dailyCap } = policy;
+  if (rearmPercent !== undefined && rearmPercent !== null && !(Number.isFinite(rearmPercent) && rearmPercent >= 0 && rearmPercent <= MAX_REARM_PERCENT)) {
+    throw new AlertError(`rearmPercent must be between 0 and ${MAX_REARM_PERCENT}`);
+  }
+  if (cooldownMinutes !== undefined && !(Number.isFinite(cooldownMinutes) && cooldownMinutes >= 0 && cooldownMinutes <= MAX_COOLDOWN_MINUTES)) {
+    throw new AlertError(`cooldownMinutes must be between 0 and ${MAX_COOLDOWN_MINUTES}`);
+  }
+  if (dailyCap !== undefined && !(Number.isInteger(dailyCap) && dailyCap >= 1 && dailyCap <= MAX_DAILY_CAP)) {
+    throw new AlertError(`dailyCap must be a whole number between 1 and ${MAX_DAILY_CAP}`);
+  }
+}
+
+/**
+ * Policy fields from a request body, or the reason they are invalid; ranges are checked by
+ * validateAlertPolicy
+ */
+export function parseAlertPolicy(value: unknown): Partial<AlertPolicy> | string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return 'policy must be an object';
+  const entry = value as Record<string, unknown>;
+  const policy: Partial<AlertPolicy> = {};
+
+  if (entry.rearmPercent !== undefined) {
+    if (entry.rearmPercent !== null && typeof entry.rearmPercent !== 'number') return 'rearmPercent must be a number or null';
+    policy.rearmPercent = entry.rearmPercent;
+  }
+  if (entry.cooldownMinutes !== undefined) {
+    if (typeof entry.cooldownMinutes !== 'number') return 'cooldownMinutes must be a number';
+    policy.cooldownMinutes = entry.cooldownMinutes;
+  }
+  if (entry.dailyCap !== undefined && entry.dailyCap !== null) {
+    if (typeof entry.dailyCap !== 'number') return 'dailyCap must be a number';
+    policy.dailyCap = entry.dailyCap;
+  }
+  if (entry.marketHoursOnly !== undefined) {
+    if (typeof entry.marketHoursOnly !== 'boolean') return 'marketHoursOnly must be a boolean';
+    policy.marketHoursOnly = entry.marketHoursOnly;
+  }
+  return policy;
+}
+
+/**
+ * The alert's policy with defaults filled in
+ */
+export function alertPolicy(alert: Pick<AlertDefinition, 'policy'>): AlertPolicy {
+  return { ...DEFAULT_ALERT_POLICY, ...alert.policy };
+}
+
+export function describePolicy(alert: Pick<AlertDefinition, 'policy' | 'repeat'>): string {
+  const policy = alertPolicy(alert);
+  const parts: string[] = [];
+  if (alert.repeat === 'once') {
+    parts.push('Fires once');
+  } else {
+    if (policy.rearmPercent !== null) {
+      parts.push(policy.rearmPercent > 0 ? `Re-arms ${policy.rearmPercent}% back` : 'Re-arms on cross back');
+    }
+    if (policy.cooldownMinutes > 0) parts.push(`${policy.cooldownMinutes} min cooldown`);
+    if (policy.dailyCap) parts.push(`max ${policy.dailyCap}/day`);
+  }
+  if (policy.marketHoursOnly) parts.push('market hours only');
+  return parts.join(' · ');
+}
+
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case 'above':
+      return `≥ $${condition.price.toFixed(2)}`;
+    case 'below':
+      return `≤ $${condition.price.toFixed(2)}`;
+    case 'rule':
+      return condition.rule;
+    case 'trailingStop':
+      return condition.atrMultiple !== undefined
+        ? `falls ${condition.atrMultiple}× ATR from its high`
+        : `falls ${condition.percent}% from its high`;
+    case 'move':
+      return `${condition.direction ?? 'moves'} ${condition.percent}% on the day`;
+    case 'gap':
+      return `gaps ${condition.direction ? `${condition.direction} ` : ''}${condition.percent}% at the open`;
+    case 'yearRange':
+      return `new 52-week ${condition.direction === 'up' ? 'high' : condition.direction === 'down' ? 'low' : 'high or low'}`;
+  }
+}
+
+function percentFrom(from: number, to: number): string {
+  return `${Math.abs((to / from - 1) * 100).toFixed(1)}%`;
+}
+
+/**
+ * Trigger message; `level` is the price the condition compared against and `market` the
+ * ticker's data at the time, for the conditions that depend on them
+ */
+export function alertMessage(
+  alert: AlertDefinition,
+  condition: AlertCondition,
+  price: number,
+  detail: { level?: number; runningHigh?: number; market?: AlertMarketData } = {}
+): string {
+  const at = `$${price.toFixed(2)}`;
+  const { level, runningHigh, market = {} } = detail;
+  switch (condition.type) {
+    case 'rule':
+      return `${alert.ticker} matched your rule "${condition.rule}" at ${at}`;
+    case 'trailingStop':
+      return runningHigh
+        ? `${alert.ticker} fell to ${at}, ${percentFrom(runningHigh, price)} below its running high of $${runningHigh.toFixed(2)}` +
+          (level ? ` (trailing stop $${level.toFixed(2)})` : '')
+        : `${alert.ticker} hit its trailing stop at ${at}`;
+    case 'move':
+      return market.previousClose
+        ? `${alert.ticker} is ${price >= market.previousClose ? 'up' : 'down'} ${percentFrom(market.previousClose, price)} ` +
+          `from the previous close of $${market.previousClose.toFixed(2)} at ${at}`
+        : `${alert.ticker} moved to ${at}`;
+    case 'gap':
+      return market.previousClose && market.open
+        ? `${alert.ticker} gapped ${market.open >= market.previousClose ? 'up' : 'down'} ${percentFrom(market.previousClose, market.open)} ` +
+          `at the open: $${market.open.toFixed(2)} against the previous close of $${market.previousClose.toFixed(2)}`
+        : `${alert.ticker} gapped at the open`;
+    case 'yearRange': {
+      const side = level !== undefined && price < level ? 'low' : 'high';
+      return `${alert.ticker} hit a new 52-week ${side} at ${at}` + (level ? ` (previous ${side} $${level.toFixed(2)})` : '');
+    }
+  }
+
+  const direction = condition.type === 'above' ? 'above' : 'below';
+  if (alert.source === 'position') {
+    const reference = alert.referencePrice ? ` (reference $${alert.referencePrice.toFixed(2)})` : '';
+    const threshold = condition.type === 'above' ? 'upper' : 'lower';
+    return `${alert.ticker} is now ${direction} your ${threshold} threshold of $${condition.price.toFixed(2)} at ${at}${reference}`;
+  }
+  return `${alert.ticker} is now ${direction} your target of $${condition.price.toFixed(2)} at ${at}`;
+}
+
+interface ConditionContext {
+  price: number;
+  market: AlertMarketData;
+  runningHigh?: number; // Including the current price
+  session: MarketSession;
+}
+
+/**
+ * Whether `to` is `percent` or more from `from` in the direction (either when unset)
+ */
+function movedBy(from: number | undefined, to: number | undefined, percent: number, direction?: AlertDirection): boolean {
+  if (!from || !to) return false;
+  const change = (to / from - 1) * 100;
+  if (direction === 'up') return change >= percent;
+  if (direction === 'down') return change <= -percent;
+  return Math.abs(change) >= percent;
+}
+
+/**
+ * The price level a condition compares against, when it has one: its price, the trailing
+ * stop below the running high, the previous close moved by the percentage, or the 52-week
+ * high or low on the side the price is on
+ */
+function conditionLevel(condition: AlertCondition, context: ConditionContext): number | undefined {
+  const { price, market, runningHigh } = context;
+  switch (condition.type) {
+    case 'above':
+    case 'below':
+      return condition.price;
+    case 'rule':
+      return undefined;
+    case 'trailingStop':
+      if (runningHigh === undefined) return undefined;
+      if (condition.percent !== undefined) return runningHigh * (1 - condition.percent / 100);
+      return market.atr !== undefined ? runningHigh - (condition.atrMultiple ?? 0) * market.atr : undefined;
+    case 'move':
+    case 'gap': {
+      const moved = condition.type === 'move' ? price : market.open;
+      if (!market.previousClose || !moved) return undefined;
+      const up = condition.direction ? condition.direction === 'up' : moved >= market.previousClose;
+      return market.previousClose * (1 + (up ? condition.percent : -condition.percent) / 100);
+    }
+    case 'yearRange': {
+      const up = condition.direction ? condition.direction === 'up' : market.yearHigh !== undefined && price > market.yearHigh;
+      return up ? market.yearHigh : market.yearLow;
+    }
+  }
+}
+
+/**
+ * Whether a fired condition has re-armed: a price level once the price is back across it by
+ * more than `percent`, a rule once it was evaluated and did not match, a trailing stop on a
+ * new running high, and the daily conditions on a new exchange day
+ */
+function hasRearmed(
+  condition: AlertCondition,
+  context: ConditionContext,
+  percent: number,
+  ruleResult: boolean | undefined,
+  previousHigh: number | undefined,
+  newDay: boolean
+): boolean {
+  switch (condition.type) {
+    case 'above':
+      return context.price < condition.price * (1 - percent / 100);
+    case 'below':
+      return context.price > condition.price * (1 + percent / 100);
+    case 'rule':
+      return ruleResult === false;
+    case 'trailingStop':
+      return previousHigh !== undefined && context.price > previousHigh;
+    case 'move':
+    case 'gap':
+    case 'yearRange':
+      return newDay;
+  }
+}
+
+function conditionHolds(condition: AlertCondition, context: ConditionContext, ruleResult: boolean | undefined): boolean {
+  const { price, market } = context;
+  switch (condition.type) {
+    case 'above':
+      return price >= condition.price;
+    case 'below':
+      return price <= condition.price;
+    case 'rule':
+      return ruleResult === true;
+    case 'trailingStop': {
+      const level = conditionLevel(condition, context);
+      return level !== undefined && price <= level;
+    }
+    case 'move':
+      return movedBy(market.previousClose, price, condition.percent, condition.direction);
+    case 'gap':
+      return context.session === 'regular' && movedBy(market.previousClose, market.open, condition.percent, condition.direction);
+    case 'yearRange':
+      return (condition.direction !== 'down' && market.yearHigh !== undefined && price > market.yearHigh) ||
+        (condition.direction !== 'up' && market.yearLow !== undefined && price < market.yearLow);
+  }
+}
+
+/**
+ * Evaluate one alert: re-arm what crossed back, follow the running high, then fire the first
+ * armed condition that holds unless a policy gate is closed
+ */
+function evaluateAlert(
+  alert: AlertDefinition,
+  price: number,
+  input: AlertEvaluationInput
+): { alert: AlertDefinition; trigger: AlertTrigger | null } {
+  const policy = alertPolicy(alert);
+  const ruleResult = (index: number) => input.ruleResults?.get(ruleMatchKey(alert.id, index));
+  const previous: AlertState = alert.state ?? { disarmed: [], firedToday: 0 };
+
+  const exchange = marketCalendar.exchangeForSymbol(alert.ticker);
+  const day = marketCalendar.toExchangeDate(new Date(input.now), exchange);
+  const trailing = alert.conditions.some(condition => condition.type === 'trailingStop');
+  const runningHigh = trailing ? Math.max(previous.runningHigh ?? alert.referencePrice ?? price, price) : undefined;
+  const context: ConditionContext = {
+    price,
+    market: input.marketData?.get(alert.ticker) ?? {},
+    runningHigh,
+    session: marketCalendar.getSession(new Date(input.now), exchange)
+  };
+
+  const disarmed = previous.disarmed.filter(index => {
+    const condition = alert.conditions[index];
+    return condition && !hasRearmed(
+      condition, context, policy.rearmPercent ?? 0, ruleResult(index), previous.runningHigh, previous.day !== day
+    );
+  });
+  const firedToday = previous.day === day ? previous.firedToday : 0;
+  const state: AlertState = { disarmed, day, firedToday, ...(runningHigh !== undefined ? { runningHigh } : {}) };
+
+  const stateChanged = disarmed.length !== previous.disarmed.length || firedToday !== previous.firedToday ||
+    runningHigh !== previous.runningHigh;
+  const unchanged = { alert: stateChanged ? { ...alert, state } : alert, trigger: null };
+
+  const cooling = alert.lastTriggeredAt !== undefined &&
+    input.now - Date.parse(alert.lastTriggeredAt) < policy.cooldownMinutes * MINUTE_MS;
+  const capped = policy.dailyCap !== undefined && firedToday >= policy.dailyCap;
+  const closed = policy.marketHoursOnly === true && context.session !== 'regular';
+  if (cooling || capped || closed) return unchanged;
+
+  const index = alert.conditions.findIndex((condition, conditionIndex) =>
+    !disarmed.includes(conditionIndex) && conditionHolds(condition, context, ruleResult(conditionIndex))
+  );
+  if (index === -1) return unchanged;
+
+  const condition = alert.conditions[index];
+  const level = conditionLevel(condition, context);
+  const triggeredAt = new Date(input.now).toISOString();
+  const trigger: AlertTrigger = {
+    id: `trigger_${input.now}_${alert.id}`,
+    alertId: alert.id,
+    userId: alert.userId,
+    ticker: alert.ticker,
+    source: alert.source,
+    ...(alert.positionId ? { positionId: alert.positionId } : {}),
+    condition,
+    price,
+    ...(level !== undefined ? { level } : {}),
+    ...(alert.referencePrice ? { referencePrice: alert.referencePrice } : {}),
+    message: alertMessage(alert, condition, price, { level, runningHigh, market: context.market }),
+    triggeredAt,
+    isRead: false
+  };
+
+  return {
+    alert: {
+      ...alert,
+      lastTriggeredAt: triggeredAt,
+      isActive: alert.repeat === 'rearm',
+      state: {
+        ...state,
+        disarmed: policy.rearmPercent !== null ? [...disarmed, index].sort((a, b) => a - b) : disarmed,
+        firedToday: firedToday + 1
+      }
+    },
+    trigger
+  };
+}
+
+/**
+ * Evaluate the active alerts whose ticker has a price
+ */
+export function evaluateAlerts(alerts: AlertDefinition[], input: AlertEvaluationInput): AlertEvaluation {
+  const triggers: AlertTrigger[] = [];
+  let changed = false;
+
+  const updated = alerts.map(alert => {
+    const price = input.prices.get(alert.ticker);
+    if (!alert.isActive || price === undefined || !(price > 0)) return alert;
+
+    const result = evaluateAlert(alert, price, input);
+    if (result.trigger) triggers.push(result.trigger);
+    if (result.alert !== alert) changed = true;
+    return result.alert;
+  });
+
+  return { alerts: updated, triggers, changed };
+}
+
+/**
+ * Conditions of a price alert's upper and lower thresholds and rule
+ */
+export function priceAlertConditions(alert: Pick<PriceAlert, 'upperThreshold' | 'lowerThreshold' | 'condition'>): AlertCondition[] {
+  const conditions: AlertCondition[] = [];
+  if (alert.upperThreshold) conditions.push({ type: 'above', price: alert.upperThreshold });
+  if (alert.lowerThreshold) conditions.push({ type: 'below', price: alert.lowerThreshold });
+  if (alert.condition) conditions.push({ type: 'rule', rule: alert.condition });
+  return conditions;
+}
+
+/**
+ * An alert as served by the price alert API
+ */
+export function toPriceAlert(alert: AlertDefinition): PriceAlert {
+  const above = alert.conditions.find(condition => condition.type === 'above');
+  const below = alert.conditions.find(condition => condition.type === 'below');
+  const rule = alert.conditions.find(condition => condition.type === 'rule');
+  return {
+    id: alert.id,
+    userId: alert.userId,
+    ticker: alert.ticker,
+    ...(above?.type === 'above' ? { upperThreshold: above.price } : {}),
+    ...(below?.type === 'below' ? { lowerThreshold: below.price } : {}),
+    ...(rule?.type === 'rule' ? { condition: rule.rule } : {}),
+    isActive: alert.isActive,
+    createdAt: new Date(alert.createdAt),
+    ...(alert.lastTriggeredAt ? { lastTriggered: new Date(alert.lastTriggeredAt) } : {})
+  };
+}
+
+/**
+ * Conditions of a position's thresholds, trailing stop, move, gap and 52-week range alerts;
+ * empty when it has none
+ */
+export function positionAlertConditions(position: Pick<
+  StockPosition,
+  'upperThreshold' | 'lowerThreshold' | 'trailingStopPercent' | 'trailingStopAtr' | 'moveAlertPercent' | 'gapAlertPercent' | 'yearRangeAlerts'
+>): AlertCondition[] {
+  const conditions = priceAlertConditions({ upperThreshold: position.upperThreshold, lowerThreshold: position.lowerThreshold });
+  if (position.trailingStopPercent) conditions.push({ type: 'trailingStop', percent: position.trailingStopPercent });
+  if (position.trailingStopAtr) conditions.push({ type: 'trailingStop', atrMultiple: position.trailingStopAtr });
+  if (position.moveAlertPercent) conditions.push({ type: 'move', percent: position.moveAlertPercent });
+  if (position.gapAlertPercent) conditions.push({ type: 'gap', percent: position.gapAlertPercent });
+  if (position.yearRangeAlerts) conditions.push({ type: 'yearRange' });
+  return conditions;
+}
+
+function positionAlertType(trigger: AlertTrigger): PositionAlert['alertType'] {
+  switch (trigger.condition.type) {
+    case 'below':
+      return 'LOWER_BREACH';
+    case 'trailingStop':
+      return 'TRAILING_STOP';
+    case 'move':
+      return 'DAY_MOVE';
+    case 'gap':
+      return 'GAP';
+    case 'yearRange':
+      return trigger.level !== undefined && trigger.price < trigger.level ? 'YEAR_LOW' : 'YEAR_HIGH';
+    default:
+      return 'UPPER_BREACH';
+  }
+}
+
+/**
+ * A position alert trigger as served by the positions API
+ */
+export function toPositionAlert(trigger: AlertTrigger): PositionAlert {
+  return {
+    id: trigger.id,
+    positionId: trigger.positionId ?? trigger.alertId,
+    userId: trigger.userId,
+    ticker: trigger.ticker,
+    alertType: positionAlertType(trigger),
+    triggerPrice: trigger.price,
+    referencePrice: trigger.referencePrice ?? 0,
+    threshold: trigger.level ?? ('price' in trigger.condition ? trigger.condition.price : trigger.price),
+    triggeredAt: new Date(trigger.triggeredAt),
+    isRead: trigger.isRead,
+    notificationSent: true
+  };
+}
@@ -0,0 +1,375 @@
+/**
+ * Alert Engine Service
+ * Stored alert definitions and trigger history for every user, evaluated on each price check
+ *
+ * Each user's alerts are kept in ALERTS_DIR (default: data/alerts) as `<userId>.json` with
+ * their last MAX_TRIGGERS triggers, newest first, so alerts, their re-arm state and the
+ * history survive restarts. stockPriceScheduler polls the tickers of active alerts and hands
+ * the quotes to evaluate(); signal rules are checked at most once per RULE_CHECK_INTERVAL_MS
+ * per alert since they need candle history, and ATR trailing stops and 52-week range alerts
+ * get their daily history through signalRuleService's cache. Each trigger is handed to the
+ * notification dispatcher, which delivers it over the owner's channels. Changes to one
+ * user's alerts are applied one at a time.
+ */
+
+import path from 'path';
+import { AlertDefinition, AlertSource, AlertTrigger, RealtimePrice, StockPosition } from '@/types';
+import {
+  AlertMarketData,
+  evaluateAlerts,
+  positionAlertConditions,
+  ruleMatchKey,
+  TRAILING_ATR_PERIOD,
+  validateAlertConditions,
+  validateAlertPolicy
+} from './alertEngine';
+import { atr, lastValue, toIndicatorInput } from './indicatorEngine';
+import { marketCalendar } from './marketCalendar';
+import { notificationDispatcher } from './notificationDispatcher';
+import { signalRuleService } from './signalRuleService';
+import { UserJsonStore } from './userJsonStore';
+
+export type AlertInput = Pick<AlertDefinition, 'ticker' | 'conditions' | 'source' | 'repeat'> &
+  Partial<Pick<AlertDefinition, 'policy' | 'positionId' | 'referencePrice' | 'isActive'>>;
+
+export type AlertChanges = Partial<Pick<AlertDefinition, 'conditions' | 'repeat' | 'policy' | 'referencePrice' | 'isActive'>>;
+
+export interface StoredAlerts {
+  version: 1;
+  userId: string;
+  alerts: AlertDefinition[];
+  triggers: AlertTrigger[]; // Newest first
+  updatedAt: number;
+}
+
+export interface TriggerQuery {
+  since?: string; // Only triggers after this ISO timestamp
+  source?: AlertSource;
+  limit?: number;
+}
+
+const FILE_VERSION = 1;
+const MAX_TRIGGERS = 500;
+
+// Minimum time between evaluations of one signal-rule alert
+const RULE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Daily history for ATR trailing stops and the 52-week range: a year of sessions with margin
+const YEAR_SESSIONS = 260;
+const YEAR_MS = 364 * 24 * 60 * 60 * 1000;
+
+export class AlertEngineService {
+  private store: UserJsonStore<StoredAlerts>;
+  private ruleCheckedAt = new Map<string, number>();
+
+  constructor(baseDir?: string) {
+    this.store = new UserJsonStore<StoredAlerts>({
+      dir: path.resolve(baseDir ?? process.env.ALERTS_DIR ?? path.join(process.cwd(), 'data', 'alerts')),
+      label: 'alerts',
+      empty: userId => ({ version: FILE_VERSION, userId, alerts: [], triggers: [], updatedAt: 0 }),
+      parse: parsed => parsed.version === FILE_VERSION && Array.isArray(parsed.alerts) && Array.isArray(parsed.triggers)
+        ? parsed
+        : null
+    });
+  }
+
+  async listAlerts(userId: string, source?: AlertSource): Promise<AlertDefinition[]> {
+    const { alerts } = await this.store.get(userId);
+    return source ? alerts.filter(alert => alert.source === source) : alerts;
+  }
+
+  /**
+   * Store a new alert; throws AlertError when its conditions are unusable
+   */
+  async createAlert(userId: string, input: AlertInput): Promise<AlertDefinition> {
+    validateAlertConditions(input.conditions);
+    if (input.policy) validateAlertPolicy(input.policy);
+    return this.store.update(userId, stored => {
+      const alert: AlertDefinition = {
+        ...input,
+        id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        userId,
+        ticker: input.ticker.toUpperCase(),
+        isActive: input.isActive ?? true,
+        createdAt: new Date().toISOString()
+      };
+      return { stored: { ...stored, alerts: [...stored.alerts, alert] }, result: alert };
+    });
+  }
+
+  /**
+   * Change an alert; null when it does not exist. Resuming an alert, or changing its
+   * conditions, starts its re-arm state afresh; a new reference price (a split) restates the
+   * running high in the same share terms.
+   */
+  async updateAlert(userId: string, alertId: string, changes: AlertChanges): Promise<AlertDefinition | null> {
+    if (changes.conditions) validateAlertConditions(changes.conditions);
+    if (changes.policy) validateAlertPolicy(changes.policy);
+    return this.store.update(userId, stored => {
+      const existing = stored.alerts.find(alert => alert.id === alertId);
+      if (!existing) return { stored: null, result: null };
+
+      const updated: AlertDefinition = { ...existing, ...changes };
+      if (changes.isActive && !existing.isActive) delete updated.lastTriggeredAt;
+      if (updated.state && ((changes.isActive && !existing.isActive) || changes.conditions)) {
+        updated.state = { ...updated.state, disarmed: [] };
+      }
+      if (updated.state?.runningHigh && changes.referencePrice && existing.referencePrice) {
+        updated.state = { ...updated.state, runningHigh: updated.state.runningHigh * changes.referencePrice / existing.referencePrice };
+      }
+      return {
+        stored: { ...stored, alerts: stored.alerts.map(alert => alert.id === alertId ? updated : alert) },
+        result: updated
+      };
+    });
+  }
+
+  async removeAlert(userId: string, alertId: string): Promise<boolean> {
+    return this.store.update(userId, stored => {
+      const alerts = stored.alerts.filter(alert => alert.id !== alertId);
+      return {
+        stored: alerts.length === stored.alerts.length ? null : { ...stored, alerts },
+        result: alerts.length !== stored.alerts.length
+      };
+    });
+  }
+
+  /**
+   * Keep a position's alert in step with the position: created, updated, or removed when the
+   * position has no thresholds or alert settings, or is not monitored
+   */
+  async syncPositionAlert(position: StockPosition): Promise<void> {
+    const conditions = position.isMonitoring ? positionAlertConditions(position) : [];
+    const existing = (await this.listAlerts(position.userId, 'position'))
+      .find(alert => alert.positionId === position.id);
+
+    if (conditions.length === 0) {
+      if (existing) await this.removeAlert(position.userId, existing.id);
+      return;
+    }
+
+    if (existing) {
+      await this.updateAlert(position.userId, existing.id, { conditions, referencePrice: position.referencePrice });
+    } else {
+      await this.createAlert(position.userId, {
+        ticker: position.ticker,
+        conditions,
+        source: 'position',
+        repeat: 'rearm',
+        positionId: position.id,
+        referencePrice: position.referencePrice
+      });
+    }
+  }
+
+  async removePositionAlert(userId: string, positionId: string): Promise<void> {
+    const existing = (await this.listAlerts(userId, 'position')).find(alert => alert.positionId === positionId);
+    if (existing) await this.removeAlert(userId, existing.id);
+  }
+
+  /**
+   * Trigger history, newest first
+   */
+  async getTriggers(userId: string, query: TriggerQuery = {}): Promise<AlertTrigger[]> {
+    const { triggers } = await this.store.get(userId);
+    const matching = triggers.filter(trigger =>
+      (!query.since || trigger.triggeredAt > query.since) && (!query.source || trigger.source === query.source)
+    );
+    return query.limit ? matching.slice(0, query.limit) : matching;
+  }
+
+  /**
+   * Mark the given triggers (all when none are given) as read; returns how many changed
+   */
+  async markTriggersRead(userId: string, triggerIds?: string[]): Promise<number> {
+    return this.store.update(userId, stored => {
+      const ids = triggerIds ? new Set(triggerIds) : null;
+      let changed = 0;
+      const triggers = stored.triggers.map(trigger => {
+        if (trigger.isRead || (ids && !ids.has(trigger.id))) return trigger;
+        changed++;
+        return { ...trigger, isRead: true };
+      });
+      return { stored: changed > 0 ? { ...stored, triggers } : null, result: changed };
+    });
+  }
+
+  /**
+   * Mark one trigger as read without knowing its user; false when no stored history has it
+   */
+  async markTriggerRead(triggerId: string): Promise<boolean> {
+    for (const stored of await this.store.loadAll()) {
+      if (stored.triggers.some(trigger => trigger.id === triggerId)) {
+        await this.markTriggersRead(stored.userId, [triggerId]);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Tickers with at least one active alert; cooling-down alerts still need prices to re-arm
+   */
+  async getActiveTickers(): Promise<string[]> {
+    const tickers = new Set<string>();
+    (await this.store.loadAll()).forEach(stored => {
+      stored.alerts.forEach(alert => {
+        if (alert.isActive) tickers.add(alert.ticker);
+      });
+    });
+    return Array.from(tickers);
+  }
+
+  /**
+   * Evaluate every user's alerts against the quotes, store what fired and notify the owners
+   */
+  async evaluate(quotes: Map<string, RealtimePrice>, now = Date.now()): Promise<AlertTrigger[]> {
+    const userIds = (await this.store.loadAll()).map(stored => stored.userId);
+    const prices = new Map<string, number>();
+    quotes.forEach((quote, ticker) => prices.set(ticker.toUpperCase(), quote.currentPrice));
+
+    const fired: AlertTrigger[] = [];
+    for (const userId of userIds) {
+      try {
+        const active = (await this.store.get(userId)).alerts.filter(alert => alert.isActive && prices.has(alert.ticker));
+        if (active.length === 0) continue;
+
+        const ruleResults = await this.evaluateRules(active, quotes, now);
+        const marketData = await this.loadMarketData(active, quotes, now);
+        const triggers = await this.store.update(userId, stored => {
+          const evaluation = evaluateAlerts(stored.alerts, { prices, marketData, ruleResults, now });
+          if (!evaluation.changed) return { stored: null, result: [] as AlertTrigger[] };
+          return {
+            stored: {
+              ...stored,
+              alerts: evaluation.alerts,
+              triggers: [...[...evaluation.triggers].reverse(), ...stored.triggers].slice(0, MAX_TRIGGERS)
+            },
+            result: evaluation.triggers
+          };
+        });
+
+        if (triggers.length > 0) {
+          fired.push(...triggers);
+          await this.notify(triggers);
+        }
+      } catch (error) {
+        console.error(`Error evaluating alerts for user ${userId}:`, error);
+      }
+    }
+    return fired;
+  }
+
+  /**
+   * Hand triggers to the notification dispatcher; trailing stops are critical so they get
+   * through quiet hours
+   */
+  private async notify(triggers: AlertTrigger[]): Promise<void> {
+    for (const trigger of triggers) {
+      try {
+        await notificationDispatcher.dispatch({
+          userId: trigger.userId,
+          type: 'alert',
+          severity: trigger.condition.type === 'trailingStop' ? 'critical' : 'warning',
+          title: trigger.condition.type === 'rule' ? 'Signal Alert Triggered!'
+            : trigger.source === 'position' ? `Position Alert: ${trigger.ticker}` : 'Price Alert Triggered!',
+          message: trigger.message,
+          ticker: trigger.ticker,
+          data: {
+            triggerId: trigger.id,
+            alertId: trigger.alertId,
+            condition: trigger.condition.type,
+            price: trigger.price,
+            level: trigger.level ?? ('price' in trigger.condition ? trigger.condition.price : undefined)
+          }
+        }, new Date(trigger.triggeredAt));
+      } catch (error) {
+        console.error(`Failed to notify ${trigger.userId} of alert ${trigger.alertId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Whether each rule condition of the alerts holds on the latest bars; each alert's rules are
+   * evaluated at most once per RULE_CHECK_INTERVAL_MS rather than on every price check
+   */
+  private async evaluateRules(alerts: AlertDefinition[], quotes: Map<string, RealtimePrice>, now: number): Promise<Map<string, boolean>> {
+    const results = new Map<string, boolean>();
+    for (const alert of alerts) {
+      const rules = alert.conditions.map((condition, index) => ({ condition, index }))
+        .filter(({ condition }) => condition.type === 'rule');
+      if (rules.length === 0) continue;
+      if (now - (this.ruleCheckedAt.get(alert.id) ?? 0) < RULE_CHECK_INTERVAL_MS) continue;
+      this.ruleCheckedAt.set(alert.id, now);
+
+      for (const { condition, index } of rules) {
+        if (condition.type !== 'rule') continue;
+        try {
+          const evaluation = await signalRuleService.evaluate(alert.ticker, condition.rule, { quote: quotes.get(alert.ticker) });
+          results.set(ruleMatchKey(alert.id, index), evaluation.matched);
+        } catch (error) {
+          console.error(`Failed to evaluate rule alert ${alert.id} (${condition.rule}):`, error);
+        }
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Previous close and open of each alert's ticker from its quote, with the daily ATR and the
+   * 52-week range before today for tickers whose conditions need them
+   */
+  private async loadMarketData(
+    alerts: AlertDefinition[],
+    quotes: Map<string, RealtimePrice>,
+    now: number
+  ): Promise<Map<string, AlertMarketData>> {
+    const marketData = new Map<string, AlertMarketData>();
+    const needsHistory = new Set<string>();
+    for (const alert of alerts) {
+      const quote = quotes.get(alert.ticker);
+      if (quote && !marketData.has(alert.ticker)) {
+        marketData.set(alert.ticker, {
+          ...(quote.previousClose > 0 ? { previousClose: quote.previousClose } : {}),
+          ...(quote.open > 0 ? { open: quote.open } : {})
+        });
+      }
+      if (alert.conditions.some(condition =>
+        condition.type === 'yearRange' || (condition.type === 'trailingStop' && condition.atrMultiple !== undefined)
+      )) {
+        needsHistory.add(alert.ticker);
+      }
+    }
+
+    for (const ticker of Array.from(needsHistory)) {
+      try {
+        const today = marketCalendar.toExchangeDate(new Date(now), marketCalendar.exchangeForSymbol(ticker));
+        const yearAgo = new Date(now - YEAR_MS).toISOString().slice(0, 10);
+        const completed = (await signalRuleService.getDailyBars(ticker, YEAR_SESSIONS))
+          .filter(bar => bar.timestamp.slice(0, 10) < today);
+        const year = completed.filter(bar => bar.timestamp.slice(0, 10) >= yearAgo);
+        const latestAtr = lastValue(atr(toIndicatorInput(completed), TRAILING_ATR_PERIOD));
+
+        marketData.set(ticker, {
+          ...marketData.get(ticker),
+          ...(latestAtr !== null ? { atr: latestAtr } : {}),
+          ...(year.length > 0 ? {
+            yearHigh: Math.max(...year.map(bar => bar.high)),
+            yearLow: Math.min(...year.map(bar => bar.low))
+          } : {})
+        });
+      } catch (error) {
+        console.error(`Failed to load daily history for ${ticker} alerts:`, error);
+      }
+    }
+    return marketData;
+  }
+}
+
+// Global singleton guard: the scheduler and the API routes must share one store cache
+const globalAny = global as any;
+if (!globalAny.__ALERT_ENGINE_SINGLETON__) {
+  globalAny.__ALERT_ENGINE_SINGLETON__ = { instance: new AlertEngineService() };
+}
+export const alertEngineService = globalAny.__ALERT_ENGINE_SINGLETON__.instance as AlertEngineService;
+export default alertEngineService;
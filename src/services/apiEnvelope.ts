@@ -0,0 +1,98 @@
+/**
+ * Versioned API Envelopes
+ * Stamps market API responses with a version and schema name and validates the payload
+ *
+ * Envelope fields are added next to the existing response body, so clients reading
+ * `success`, `data` or the raw Finnhub fields keep working.
+ */
+
+import { NextResponse } from 'next/server';
+import { SchemaValidator, validateSchema } from './marketSchema';
+
+export const MARKET_API_VERSION = 1;
+
+export type MarketApiSchema =
+  | 'analytics.price.simple'
+  | 'analytics.price.chart'
+  | 'analytics.price.technicals'
+  | 'analytics.price.detailed'
+  | 'analytics.price.refresh'
+  | 'analytics.prices.batch'
+  | 'analytics.prices.compare'
+  | 'analytics.risk'
+  | 'analytics.performance'
+  | 'finnhub.quote'
+  | 'finnhub.quotes'
+  | 'finnhub.candles'
+  | 'finnhub.search'
+  | 'finnhub.status'
+  | 'finnhub.alerts'
+  | 'finnhub.alert'
+  | 'finnhub.portfolio'
+  | 'finnhub.monitoring'
+  | 'finnhub.scheduler'
+  | 'finnhub.replay'
+  | 'finnhub.usage'
+  | 'backtest.strategies'
+  | 'backtest.result'
+  | 'signals.vocabulary'
+  | 'signals.check'
+  | 'signals.evaluation'
+  | 'screener.fields'
+  | 'screener.universe'
+  | 'screener.result'
+  | 'news.sentiment'
+  | 'earnings.calendar'
+  | 'earnings.ticker';
+
+export interface ApiEnvelopeMeta {
+  apiVersion: typeof MARKET_API_VERSION;
+  schema: MarketApiSchema;
+}
+
+export type VersionedBody<T> = ApiEnvelopeMeta & T;
+
+export interface VersionedJsonOptions<T> extends ResponseInit {
+  /**
+   * Validator for the part of the body that carries market data
+   */
+  validate?: {
+    validator: SchemaValidator<unknown>;
+    select: (body: T) => unknown;
+  };
+}
+
+export function envelope<T extends object>(schema: MarketApiSchema, body: T): VersionedBody<T> {
+  return { apiVersion: MARKET_API_VERSION, schema, ...body };
+}
+
+/**
+ * JSON response wrapped in a versioned envelope; a payload that fails validation is
+ * reported as a 500 with the schema issues rather than sent to the client
+ */
+export function versionedJson<T extends object>(
+  schema: MarketApiSchema,
+  body: T,
+  options: VersionedJsonOptions<T> = {}
+): NextResponse {
+  const { validate, ...init } = options;
+  const headers = new Headers(init.headers);
+  headers.set('X-API-Version', String(MARKET_API_VERSION));
+  headers.set('X-API-Schema', schema);
+
+  if (validate) {
+    const result = validateSchema(validate.validator, validate.select(body));
+    if (!result.valid) {
+      console.error(`Response for ${schema} failed schema validation:`, result.issues.slice(0, 10));
+      headers.delete('Cache-Control');
+      return NextResponse.json(envelope(schema, {
+        success: false,
+        error: 'Response failed schema validation',
+        code: 'SCHEMA_MISMATCH',
+        issues: result.issues.slice(0, 20)
+      }), { status: 500, headers });
+    }
+  }
+
+  return NextResponse.json(envelope(schema, body), { ...init, headers });
+}
@@ -0,0 +1,438 @@
+/**
+ * Backtest Service
+ * Replays a candle series through the TradingSignal rules and simulates the resulting trades
+ *
+ * Signals are evaluated at each bar's close exactly as generateTradingSignals would have
+ * produced them then, and act on the next bar's open, so no bar sees its own future.
+ * Strategies are long-only with one position at a time. Every fill pays slippage (an
+ * adverse move in basis points) plus a flat and a percentage commission; stop-loss and
+ * take-profit levels are checked against each bar's range, stop first when both are hit.
+ */
+
+import {
+  BacktestConfig,
+  BacktestMetrics,
+  BacktestResult,
+  BacktestSignalRule,
+  BacktestStrategy,
+  BacktestTrade,
+  ChartDataPoint,
+  EquityPoint,
+  TradingSignal
+} from '@/types';
+import { RESOLUTION_SECONDS } from './marketDataProvider';
+import { getMarketDataProvider } from './marketDataProviderConfig';
+import { candleStore } from './candleStore';
+import { adjustCandles, corporateActionService } from './corporateActionService';
+import { replayClock } from './replayClock';
+import { TechnicalAnalysisService } from './technicalAnalysisService';
+
+export class BacktestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BacktestError';
+  }
+}
+
+export interface BacktestRequest {
+  resolution: string;
+  from: number; // Unix seconds; the first bar traded
+  to: number;
+  strategy: BacktestStrategy;
+  config?: Partial<BacktestConfig>;
+}
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  initialCapital: 10000,
+  commissionPerTrade: 1,
+  commissionPercent: 0,
+  slippageBps: 5,
+  positionSizePercent: 100,
+  riskFreeRate: 0.04
+};
+
+// Bars of history the signal rules need before they fire (SMA 200)
+const SIGNAL_WARMUP_BARS = 200;
+// Calendar seconds per bar of warm-up: daily bars skip weekends and holidays
+const WARMUP_CALENDAR_FACTOR = 1.5;
+const MIN_TEST_BARS = 20;
+const TRADING_DAYS_PER_YEAR = 252;
+const REGULAR_SESSION_SECONDS = 23400; // 6.5 hours
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Preset strategies built from the rules generateTradingSignals emits
+ */
+export const BACKTEST_STRATEGIES: BacktestStrategy[] = [
+  {
+    id: 'signal-consensus',
+    name: 'Signal consensus',
+    description: 'Buy when the SMA trend and MACD agree; sell when either turns',
+    entry: [
+      { indicator: 'SMA_CROSSOVER', type: 'BUY' },
+      { indicator: 'MACD_BULLISH', type: 'BUY' }
+    ],
+    exit: [
+      { indicator: 'SMA_CROSSOVER', type: 'SELL' },
+      { indicator: 'MACD_BEARISH', type: 'SELL' }
+    ],
+    entryMatch: 'all',
+    exitMatch: 'any',
+    stopLossPercent: 10
+  },
+  {
+    id: 'sma-trend',
+    name: 'SMA trend',
+    description: 'Hold while price is above a rising 20/50 SMA stack',
+    entry: [{ indicator: 'SMA_CROSSOVER', type: 'BUY' }],
+    exit: [{ indicator: 'SMA_CROSSOVER', type: 'SELL' }],
+    entryMatch: 'any',
+    exitMatch: 'any'
+  },
+  {
+    id: 'rsi-reversion',
+    name: 'RSI mean reversion',
+    description: 'Buy oversold RSI, sell overbought RSI',
+    entry: [{ indicator: 'RSI_OVERSOLD', type: 'BUY' }],
+    exit: [{ indicator: 'RSI_OVERBOUGHT', type: 'SELL' }],
+    entryMatch: 'any',
+    exitMatch: 'any',
+    stopLossPercent: 8
+  },
+  {
+    id: 'macd-momentum',
+    name: 'MACD momentum',
+    description: 'Hold while the MACD line is above its signal line',
+    entry: [{ indicator: 'MACD_BULLISH', type: 'BUY' }],
+    exit: [{ indicator: 'MACD_BEARISH', type: 'SELL' }],
+    entryMatch: 'any',
+    exitMatch: 'any'
+  },
+  {
+    id: 'bollinger-reversal',
+    name: 'Bollinger reversal',
+    description: 'Buy below the lower band, sell above the upper band',
+    entry: [{ indicator: 'BOLLINGER_OVERSOLD', type: 'BUY' }],
+    exit: [{ indicator: 'BOLLINGER_OVERBOUGHT', type: 'SELL' }],
+    entryMatch: 'any',
+    exitMatch: 'any',
+    stopLossPercent: 8,
+    takeProfitPercent: 15
+  }
+];
+
+/**
+ * Bars per year for a candle resolution; intraday bars count regular-session time only
+ */
+export function periodsPerYear(resolution: string): number {
+  if (resolution === 'W') return 52;
+  if (resolution === 'M') return 12;
+  const seconds = RESOLUTION_SECONDS[resolution];
+  if (!seconds || seconds >= RESOLUTION_SECONDS.D) return TRADING_DAYS_PER_YEAR;
+  return TRADING_DAYS_PER_YEAR * (REGULAR_SESSION_SECONDS / seconds);
+}
+
+/**
+ * Check a strategy and config for values the simulation cannot run with
+ */
+export function validateBacktestInput(strategy: BacktestStrategy, config: BacktestConfig): void {
+  if (!strategy || !Array.isArray(strategy.entry) || !Array.isArray(strategy.exit)) {
+    throw new BacktestError('Strategy needs entry and exit rule lists');
+  }
+  if (strategy.entry.length === 0) {
+    throw new BacktestError('Strategy needs at least one entry rule');
+  }
+  const rules = [...strategy.entry, ...strategy.exit];
+  const invalidRule = rules.find(rule =>
+    !rule || typeof rule.indicator !== 'string' || (rule.type !== 'BUY' && rule.type !== 'SELL') ||
+    (rule.minStrength !== undefined && !(rule.minStrength >= 0 && rule.minStrength <= 1))
+  );
+  if (invalidRule) {
+    throw new BacktestError(`Invalid signal rule: ${JSON.stringify(invalidRule)}`);
+  }
+  for (const match of [strategy.entryMatch, strategy.exitMatch]) {
+    if (match !== 'any' && match !== 'all') {
+      throw new BacktestError(`Rule match must be "any" or "all", got ${JSON.stringify(match)}`);
+    }
+  }
+  for (const [name, value] of [['stopLossPercent', strategy.stopLossPercent], ['takeProfitPercent', strategy.takeProfitPercent]] as const) {
+    if (value !== undefined && !(value > 0 && value < 100)) {
+      throw new BacktestError(`${name} must be between 0 and 100`);
+    }
+  }
+
+  if (!(config.initialCapital > 0)) {
+    throw new BacktestError('initialCapital must be positive');
+  }
+  if (!(config.positionSizePercent > 0 && config.positionSizePercent <= 100)) {
+    throw new BacktestError('positionSizePercent must be between 0 and 100');
+  }
+  for (const name of ['commissionPerTrade', 'commissionPercent', 'slippageBps'] as const) {
+    if (!(config[name] >= 0)) {
+      throw new BacktestError(`${name} must be zero or positive`);
+    }
+  }
+}
+
+function matchingSignals(rules: BacktestSignalRule[], match: 'any' | 'all', signals: TradingSignal[]): TradingSignal[] | null {
+  if (rules.length === 0) return null;
+  const matched = rules.map(rule => signals.find(signal =>
+    signal.indicator === rule.indicator && signal.type === rule.type && signal.strength >= (rule.minStrength ?? 0)
+  ));
+  const hits = matched.filter((signal): signal is TradingSignal => signal !== undefined);
+  if (match === 'all' ? hits.length < rules.length : hits.length === 0) return null;
+  return hits;
+}
+
+function describeSignals(signals: TradingSignal[]): string {
+  return signals.map(signal => signal.indicator).join(' + ');
+}
+
+interface OpenPosition {
+  entryIndex: number;
+  entryPrice: number;
+  shares: number;
+  entryCommission: number;
+  entryReason: string;
+}
+
+/**
+ * Simulate a strategy over a bar series. Bars before `startIndex` are warm-up: their
+ * signals are computed but not traded. `signalHistory` defaults to the TradingSignals
+ * technical analysis would have emitted at each close.
+ */
+export function runBacktest(
+  data: ChartDataPoint[],
+  strategy: BacktestStrategy,
+  config: BacktestConfig,
+  options: { resolution?: string; startIndex?: number; signalHistory?: TradingSignal[][] } = {}
+): Omit<BacktestResult, 'symbol' | 'resolution' | 'from' | 'to' | 'strategy' | 'config'> {
+  validateBacktestInput(strategy, config);
+  const startIndex = Math.max(0, options.startIndex ?? 0);
+  if (data.length - startIndex < 2) {
+    throw new BacktestError('At least two bars are needed to run a backtest');
+  }
+
+  const signalHistory = options.signalHistory ?? new TechnicalAnalysisService().generateSignalHistory(data);
+  const slippage = config.slippageBps / 10000;
+  const commissionFor = (value: number) => config.commissionPerTrade + value * config.commissionPercent / 100;
+
+  let cash = config.initialCapital;
+  let position: OpenPosition | null = null;
+  let pendingEntry: string | null = null;
+  let pendingExit: string | null = null;
+  let peak = config.initialCapital;
+  let barsInMarket = 0;
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+
+  const closePosition = (index: number, rawPrice: number, reason: string) => {
+    if (!position) return;
+    const exitPrice = rawPrice * (1 - slippage);
+    const proceeds = position.shares * exitPrice;
+    const exitCommission = commissionFor(proceeds);
+    const cost = position.shares * position.entryPrice + position.entryCommission;
+    const pnl = proceeds - exitCommission - cost;
+    cash += proceeds - exitCommission;
+    trades.push({
+      entryTime: data[position.entryIndex].timestamp,
+      entryPrice: position.entryPrice,
+      exitTime: data[index].timestamp,
+      exitPrice,
+      shares: position.shares,
+      commission: position.entryCommission + exitCommission,
+      pnl,
+      returnPercent: (pnl / cost) * 100,
+      barsHeld: index - position.entryIndex + 1,
+      entryReason: position.entryReason,
+      exitReason: reason
+    });
+    position = null;
+  };
+
+  for (let i = startIndex; i < data.length; i++) {
+    const bar = data[i];
+
+    // Orders decided at the previous close fill at this bar's open
+    if (pendingExit && position) {
+      closePosition(i, bar.open, pendingExit);
+    }
+    pendingExit = null;
+
+    if (pendingEntry && !position) {
+      const fillPrice = bar.open * (1 + slippage);
+      const budget = cash * config.positionSizePercent / 100;
+      const shares = Math.floor((budget - config.commissionPerTrade) / (fillPrice * (1 + config.commissionPercent / 100)));
+      if (shares > 0) {
+        const entryCommission = commissionFor(shares * fillPrice);
+        cash -= shares * fillPrice + entryCommission;
+        position = { entryIndex: i, entryPrice: fillPrice, shares, entryCommission, entryReason: pendingEntry };
+      }
+    }
+    pendingEntry = null;
+
+    // Protective levels, filled at the level or at the open when the bar gaps through it
+    if (position && strategy.stopLossPercent !== undefined) {
+      const stop = position.entryPrice * (1 - strategy.stopLossPercent / 100);
+      if (bar.low <= stop) {
+        closePosition(i, Math.min(bar.open, stop), `Stop loss ${strategy.stopLossPercent}%`);
+      }
+    }
+    if (position && strategy.takeProfitPercent !== undefined) {
+      const target = position.entryPrice * (1 + strategy.takeProfitPercent / 100);
+      if (bar.high >= target) {
+        closePosition(i, Math.max(bar.open, target), `Take profit ${strategy.takeProfitPercent}%`);
+      }
+    }
+
+    if (position) barsInMarket++;
+
+    // Signals at this close act on the next bar
+    const isLastBar = i === data.length - 1;
+    if (!isLastBar) {
+      const signals = signalHistory[i] || [];
+      if (position) {
+        const exit = matchingSignals(strategy.exit, strategy.exitMatch, signals);
+        if (exit) pendingExit = describeSignals(exit);
+      } else {
+        const entry = matchingSignals(strategy.entry, strategy.entryMatch, signals);
+        if (entry) pendingEntry = describeSignals(entry);
+      }
+    } else if (position) {
+      closePosition(i, bar.close, 'End of test');
+    }
+
+    const openPosition = position as OpenPosition | null;
+    const equity = cash + (openPosition ? openPosition.shares * bar.close : 0);
+    peak = Math.max(peak, equity);
+    equityCurve.push({ timestamp: bar.timestamp, equity, drawdown: peak > 0 ? (equity / peak - 1) * 100 : 0 });
+  }
+
+  const bars = data.length - startIndex;
+  return {
+    bars,
+    metrics: calculateBacktestMetrics(equityCurve, trades, config, {
+      resolution: options.resolution ?? 'D',
+      barsInMarket,
+      firstClose: data[startIndex].close,
+      lastClose: data[data.length - 1].close
+    }),
+    equityCurve,
+    trades
+  };
+}
+
+function calculateBacktestMetrics(
+  equityCurve: EquityPoint[],
+  trades: BacktestTrade[],
+  config: BacktestConfig,
+  context: { resolution: string; barsInMarket: number; firstClose: number; lastClose: number }
+): BacktestMetrics {
+  const finalEquity = equityCurve[equityCurve.length - 1].equity;
+  const growth = finalEquity / config.initialCapital;
+  const years = (Date.parse(equityCurve[equityCurve.length - 1].timestamp) - Date.parse(equityCurve[0].timestamp)) / YEAR_MS;
+  const cagr = growth <= 0 ? -100 : years > 0 ? (Math.pow(growth, 1 / years) - 1) * 100 : 0;
+
+  // Sharpe ratio from per-bar equity returns, annualized by the bar length
+  const periods = periodsPerYear(context.resolution);
+  const returns = equityCurve.slice(1).map((point, index) => point.equity / equityCurve[index].equity - 1);
+  let sharpeRatio = 0;
+  if (returns.length > 1) {
+    const excess = returns.map(value => value - (config.riskFreeRate ?? 0) / periods);
+    const mean = excess.reduce((sum, value) => sum + value, 0) / excess.length;
+    const variance = excess.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (excess.length - 1);
+    const deviation = Math.sqrt(variance);
+    sharpeRatio = deviation > 0 ? (mean / deviation) * Math.sqrt(periods) : 0;
+  }
+
+  const wins = trades.filter(trade => trade.pnl > 0);
+  const grossProfit = wins.reduce((sum, trade) => sum + trade.pnl, 0);
+  const grossLoss = trades.filter(trade => trade.pnl < 0).reduce((sum, trade) => sum - trade.pnl, 0);
+
+  return {
+    totalReturn: (growth - 1) * 100,
+    cagr,
+    maxDrawdown: Math.min(0, ...equityCurve.map(point => point.drawdown)),
+    sharpeRatio,
+    winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+    trades: trades.length,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    exposure: (context.barsInMarket / equityCurve.length) * 100,
+    buyAndHoldReturn: (context.lastClose / context.firstClose - 1) * 100
+  };
+}
+
+export class BacktestService {
+  private technicalAnalysis = new TechnicalAnalysisService();
+
+  getStrategies(): BacktestStrategy[] {
+    return BACKTEST_STRATEGIES;
+  }
+
+  getStrategy(id: string): BacktestStrategy | undefined {
+    return BACKTEST_STRATEGIES.find(strategy => strategy.id === id);
+  }
+
+  /**
+   * Backtest a strategy on split- and dividend-adjusted candles from the candle store.
+   * Signal warm-up history before `from` is loaded too, so rules can fire from the first bar.
+   */
+  async backtest(symbol: string, request: BacktestRequest): Promise<BacktestResult> {
+    const config: BacktestConfig = { ...DEFAULT_BACKTEST_CONFIG, ...request.config };
+    validateBacktestInput(request.strategy, config);
+
+    const barSeconds = RESOLUTION_SECONDS[request.resolution];
+    if (!barSeconds) {
+      throw new BacktestError(`Unsupported resolution "${request.resolution}"`);
+    }
+    if (!(request.from < request.to)) {
+      throw new BacktestError('Backtest range must start before it ends');
+    }
+
+    const provider = getMarketDataProvider('background', 'backtesting');
+    const warmupSeconds = Math.ceil(SIGNAL_WARMUP_BARS * barSeconds * WARMUP_CALENDAR_FACTOR);
+    const actions = await corporateActionService.getActions(symbol, provider);
+    const { candles: series } = await candleStore.getResampledCandles(
+      symbol,
+      request.resolution,
+      request.from - warmupSeconds,
+      request.to,
+      provider,
+      candles => adjustCandles(candles, actions, {
+        asOf: provider.name === 'replay' ? replayClock.nowSeconds() : undefined
+      })
+    );
+
+    const data: ChartDataPoint[] = (series.t || []).map((time, index) => ({
+      timestamp: new Date(time * 1000).toISOString(),
+      open: series.o[index],
+      high: series.h[index],
+      low: series.l[index],
+      close: series.c[index],
+      volume: series.v[index]
+    }));
+    const startIndex = (series.t || []).findIndex(time => time >= request.from);
+    if (series.s !== 'ok' || startIndex === -1 || data.length - startIndex < MIN_TEST_BARS) {
+      throw new BacktestError(`Not enough ${request.resolution} candles for ${symbol} in the requested range (need ${MIN_TEST_BARS})`);
+    }
+
+    const result = runBacktest(data, request.strategy, config, {
+      resolution: request.resolution,
+      startIndex,
+      signalHistory: this.technicalAnalysis.generateSignalHistory(data)
+    });
+
+    return {
+      symbol: symbol.toUpperCase(),
+      resolution: request.resolution,
+      from: data[startIndex].timestamp,
+      to: data[data.length - 1].timestamp,
+      strategy: request.strategy,
+      config,
+      ...result
+    };
+  }
+}
+
+export const backtestService = new BacktestService();
+export default backtestService;
@@ -0,0 +1,785 @@
+/**
+ * Brokerage Import
+ * Turns brokerage CSV exports and OFX/QFX statements into ledger transactions
+ *
+ * CSV columns are read through an import profile: the header names behind each field, the
+ * date format and the words that identify each kind of action. Positions exports (one row
+ * per holding with its cost basis) become transfers in at cost. OFX investment statements
+ * are read directly, with tickers taken from the statement's security list. The preview
+ * matches the parsed rows against the ledger (by the brokerage's transaction id when there
+ * is one, otherwise by type, ticker, date and amounts) so a statement can be imported again
+ * without recording anything twice. Pure functions only; tickers are resolved by the caller.
+ */
+
+import {
+  BrokerageImportProfile,
+  ImportAction,
+  ImportDateFormat,
+  ImportedTransaction,
+  ImportField,
+  ImportHoldingChange,
+  ImportPreview,
+  ImportPreviewRow,
+  LedgerTransaction,
+  LotMethod,
+  ParsedStatement,
+  ParsedStatementRow
+} from '@/types';
+import { buildLedger, LedgerError } from './transactionLedger';
+
+export class BrokerageImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BrokerageImportError';
+  }
+}
+
+export const SYMBOL_PATTERN = /^[A-Z0-9.-]{1,10}$/;
+
+const HEADER_SEARCH_ROWS = 20;
+
+export const DEFAULT_IMPORT_ACTIONS: BrokerageImportProfile['actions'] = [
+  { match: 'reinvest dividend', action: 'dividend' },
+  { match: 'reinvest', action: 'buy' },
+  { match: 'cdiv', action: 'dividend' },
+  { match: 'dividend', action: 'dividend' },
+  { match: 'split', action: 'split' },
+  { match: 'transfer in', action: 'transfer_in' },
+  { match: 'transferred from', action: 'transfer_in' },
+  { match: 'acati', action: 'transfer_in' },
+  { match: 'transfer out', action: 'transfer_out' },
+  { match: 'transferred to', action: 'transfer_out' },
+  { match: 'acato', action: 'transfer_out' },
+  { match: 'sell', action: 'sell' },
+  { match: 'sold', action: 'sell' },
+  { match: 'buy', action: 'buy' },
+  { match: 'bought', action: 'buy' },
+  { match: 'fee', action: 'fee' },
+  { match: 'interest', action: 'ignore' },
+  { match: 'deposit', action: 'ignore' },
+  { match: 'withdraw', action: 'ignore' },
+  { match: 'journal', action: 'ignore' }
+];
+
+// Most specific first; detection prefers the profile that recognises the most columns
+export const BUILT_IN_IMPORT_PROFILES: BrokerageImportProfile[] = [
+  {
+    id: 'fidelity',
+    name: 'Fidelity activity',
+    kind: 'transactions',
+    builtIn: true,
+    dateFormat: 'MM/DD/YYYY',
+    columns: {
+      date: ['Run Date'],
+      action: ['Action'],
+      symbol: ['Symbol'],
+      description: ['Security Description', 'Description'],
+      quantity: ['Quantity'],
+      price: ['Price ($)'],
+      fees: ['Commission ($)', 'Fees ($)'],
+      amount: ['Amount ($)']
+    },
+    actions: DEFAULT_IMPORT_ACTIONS
+  },
+  {
+    id: 'fidelity-positions',
+    name: 'Fidelity positions',
+    kind: 'positions',
+    builtIn: true,
+    dateFormat: 'MM/DD/YYYY',
+    columns: {
+      symbol: ['Symbol'],
+      description: ['Description'],
+      quantity: ['Quantity'],
+      costBasis: ['Cost Basis Total']
+    },
+    actions: []
+  },
+  {
+    id: 'schwab',
+    name: 'Schwab transactions',
+    kind: 'transactions',
+    builtIn: true,
+    dateFormat: 'MM/DD/YYYY',
+    columns: {
+      date: ['Date'],
+      action: ['Action'],
+      symbol: ['Symbol'],
+      description: ['Description'],
+      quantity: ['Quantity'],
+      price: ['Price'],
+      fees: ['Fees & Comm'],
+      amount: ['Amount']
+    },
+    actions: DEFAULT_IMPORT_ACTIONS
+  },
+  {
+    id: 'vanguard',
+    name: 'Vanguard transactions',
+    kind: 'transactions',
+    builtIn: true,
+    dateFormat: 'MM/DD/YYYY',
+    columns: {
+      date: ['Trade Date'],
+      action: ['Transaction Type'],
+      symbol: ['Symbol'],
+      description: ['Investment Name'],
+      quantity: ['Shares'],
+      price: ['Share Price'],
+      fees: ['Commission Fees'],
+      amount: ['Net Amount']
+    },
+    actions: DEFAULT_IMPORT_ACTIONS
+  },
+  {
+    id: 'robinhood',
+    name: 'Robinhood activity',
+    kind: 'transactions',
+    builtIn: true,
+    dateFormat: 'MM/DD/YYYY',
+    columns: {
+      date: ['Activity Date'],
+      action: ['Trans Code'],
+      symbol: ['Instrument'],
+      description: ['Description'],
+      quantity: ['Quantity'],
+      price: ['Price'],
+      amount: ['Amount']
+    },
+    actions: [{ match: 'spl', action: 'split' }, ...DEFAULT_IMPORT_ACTIONS]
+  },
+  {
+    id: 'generic',
+    name: 'Generic transactions',
+    kind: 'transactions',
+    builtIn: true,
+    dateFormat: 'YYYY-MM-DD',
+    columns: {
+      date: ['Date', 'Trade Date'],
+      action: ['Action', 'Type', 'Transaction Type'],
+      symbol: ['Symbol', 'Ticker'],
+      description: ['Description', 'Name'],
+      quantity: ['Quantity', 'Shares'],
+      price: ['Price'],
+      fees: ['Fees', 'Commission'],
+      amount: ['Amount'],
+      externalId: ['Id', 'Transaction Id']
+    },
+    actions: DEFAULT_IMPORT_ACTIONS
+  },
+  {
+    id: 'generic-positions',
+    name: 'Generic positions',
+    kind: 'positions',
+    builtIn: true,
+    dateFormat: 'YYYY-MM-DD',
+    columns: {
+      symbol: ['Symbol', 'Ticker'],
+      description: ['Description', 'Name'],
+      quantity: ['Quantity', 'Shares'],
+      costBasis: ['Cost Basis', 'Total Cost', 'Cost']
+    },
+    actions: []
+  }
+];
+
+const REQUIRED_FIELDS: Record<BrokerageImportProfile['kind'], ImportField[]> = {
+  transactions: ['date', 'action', 'quantity'],
+  positions: ['symbol', 'quantity', 'costBasis']
+};
+
+/**
+ * Rows of a delimited file; quoted cells may contain delimiters, doubled quotes and newlines
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Statement symbol in ledger form (BRK/B → BRK.B, SPAXX** → SPAXX), or '' when it is not one
+ */
+export function normalizeSymbol(value: string | undefined): string {
+  const symbol = (value ?? '').trim().toUpperCase().replace(/\*+$/, '').replace(/[/ ]/g, '.');
+  return SYMBOL_PATTERN.test(symbol) ? symbol : '';
+}
+
+/**
+ * Amount as written in a statement: currency symbols and thousands separators are ignored and
+ * parentheses mean negative; undefined when the cell is empty or not a number
+ */
+export function parseAmount(value: string | undefined): number | undefined {
+  const text = (value ?? '').trim();
+  if (!text || text === '--') return undefined;
+  const negative = /^\(.*\)$/.test(text);
+  const parsed = Number(text.replace(/[()$,\s]/g, ''));
+  if (!Number.isFinite(parsed)) return undefined;
+  return negative ? -Math.abs(parsed) : parsed;
+}
+
+/**
+ * YYYY-MM-DD from a statement date; ISO dates are read in any profile and trailing text such
+ * as "as of 03/14/2024" is ignored
+ */
+export function parseStatementDate(value: string | undefined, format: ImportDateFormat): string | null {
+  const text = (value ?? '').trim().split(/\s+/)[0] ?? '';
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})/);
+  const slashed = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/);
+  if (iso || compact) {
+    const [, y, m, d] = (iso ?? compact)!;
+    [year, month, day] = [Number(y), Number(m), Number(d)];
+  } else if (slashed) {
+    // ISO profiles still accept slashed dates, read month first as most exports write them
+    const [, first, second, y] = slashed;
+    [month, day] = format === 'DD/MM/YYYY' ? [Number(second), Number(first)] : [Number(first), Number(second)];
+    year = y.length === 2 ? 2000 + Number(y) : Number(y);
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function headerIndex(header: string[]): Map<string, number> {
+  return new Map(header.map((name, index) => [name.trim().toLowerCase(), index]));
+}
+
+function fieldColumns(profile: BrokerageImportProfile, field: ImportField, index: Map<string, number>): number[] {
+  return (profile.columns[field] ?? [])
+    .map(name => index.get(name.trim().toLowerCase()))
+    .filter((column): column is number => column !== undefined);
+}
+
+/**
+ * Number of the profile's fields present in a header row, or 0 when a required one is missing
+ */
+function headerScore(profile: BrokerageImportProfile, header: string[]): number {
+  const index = headerIndex(header);
+  if (REQUIRED_FIELDS[profile.kind].some(field => fieldColumns(profile, field, index).length === 0)) return 0;
+  return (Object.keys(profile.columns) as ImportField[]).filter(field => fieldColumns(profile, field, index).length > 0).length;
+}
+
+/**
+ * Index of the profile's header row; exports often start with account details
+ */
+function findHeaderRow(rows: string[][], profile: BrokerageImportProfile): number {
+  return rows.slice(0, HEADER_SEARCH_ROWS).findIndex(row => headerScore(profile, row) > 0);
+}
+
+/**
+ * The profile that recognises the most columns of the file, or null when none fits
+ */
+export function detectImportProfile(text: string, profiles: BrokerageImportProfile[] = BUILT_IN_IMPORT_PROFILES): BrokerageImportProfile | null {
+  let best: BrokerageImportProfile | null = null;
+  let bestScore = 0;
+
+  for (const profile of profiles) {
+    const rows = parseCsv(text, profile.delimiter ?? ',').slice(0, HEADER_SEARCH_ROWS);
+    const score = Math.max(0, ...rows.map(row => headerScore(profile, row)));
+    if (score > bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Column names of the file's header row, for mapping a new profile; the first non-empty row
+ * with at least two cells when no profile is given
+ */
+export function csvHeaders(text: string, profile?: BrokerageImportProfile): string[] {
+  const rows = parseCsv(text, profile?.delimiter ?? ',');
+  const headerRow = profile ? findHeaderRow(rows, profile) : rows.findIndex(row => row.filter(Boolean).length >= 2);
+  return headerRow === -1 ? [] : rows[headerRow].filter(Boolean);
+}
+
+function matchAction(profile: BrokerageImportProfile, text: string): ImportAction | null {
+  const lower = text.toLowerCase();
+  return profile.actions.find(entry => lower.includes(entry.match.toLowerCase()))?.action ?? null;
+}
+
+/**
+ * Shares after per share before from text such as "2:1", "2-for-1" or "2 for 1"
+ */
+function splitRatio(text: string): number | undefined {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*(?::|-?\s*for\s*-?)\s*(\d+(?:\.\d+)?)/i);
+  if (!match) return undefined;
+  const ratio = Number(match[1]) / Number(match[2]);
+  return Number.isFinite(ratio) && ratio > 0 ? ratio : undefined;
+}
+
+/**
+ * Transactions from a CSV export read with the profile; `asOf` dates positions statements
+ */
+export function parseCsvStatement(
+  text: string,
+  profile: BrokerageImportProfile,
+  options: { asOf?: string } = {}
+): ParsedStatement {
+  const rows = parseCsv(text, profile.delimiter ?? ',');
+  const headerRow = findHeaderRow(rows, profile);
+  if (headerRow === -1) {
+    const missing = REQUIRED_FIELDS[profile.kind].filter(field => !(profile.columns[field]?.length));
+    throw new BrokerageImportError(
+      missing.length > 0
+        ? `The ${profile.name} profile does not map ${missing.join(', ')}`
+        : `No header row with the ${profile.name} columns was found`
+    );
+  }
+
+  const index = headerIndex(rows[headerRow]);
+  const columns = new Map<ImportField, number[]>(
+    (Object.keys(profile.columns) as ImportField[]).map(field => [field, fieldColumns(profile, field, index)])
+  );
+  const textField = (row: string[], field: ImportField) =>
+    (columns.get(field) ?? []).map(column => row[column]?.trim() ?? '').find(Boolean) ?? '';
+  const numberField = (row: string[], field: ImportField) => {
+    const values = (columns.get(field) ?? []).map(column => parseAmount(row[column])).filter((value): value is number => value !== undefined);
+    return values.length > 0 ? values.reduce((total, value) => total + value, 0) : undefined;
+  };
+
+  const asOf = options.asOf ?? new Date().toISOString().slice(0, 10);
+  const parsed: ParsedStatementRow[] = [];
+
+  rows.slice(headerRow + 1).forEach((row, offset) => {
+    // Disclaimers and totals below the table are single cells or blank
+    if (row.filter(Boolean).length < 2) return;
+
+    const line = headerRow + offset + 2;
+    const rawSymbol = textField(row, 'symbol');
+    const description = textField(row, 'description');
+    const base: ParsedStatementRow = { line, transaction: null, ...(rawSymbol ? { symbol: rawSymbol } : {}), ...(description ? { description } : {}) };
+    const ticker = normalizeSymbol(rawSymbol);
+    const externalId = textField(row, 'externalId');
+    const quantity = numberField(row, 'quantity');
+
+    if (profile.kind === 'positions') {
+      const costBasis = numberField(row, 'costBasis');
+      if (!quantity || quantity <= 0) {
+        parsed.push({ ...base, reason: 'No share quantity' });
+      } else if (costBasis === undefined || costBasis <= 0) {
+        parsed.push({ ...base, reason: 'No cost basis' });
+      } else {
+        parsed.push({
+          ...base,
+          transaction: {
+            type: 'transfer',
+            direction: 'in',
+            ...(ticker ? { ticker } : {}),
+            date: asOf,
+            quantity,
+            price: costBasis / quantity,
+            note: 'Imported position'
+          }
+        });
+      }
+      return;
+    }
+
+    const date = parseStatementDate(textField(row, 'date'), profile.dateFormat);
+    const actionText = textField(row, 'action');
+    const action = matchAction(profile, actionText);
+    if (!date) {
+      parsed.push({ ...base, reason: 'Invalid date' });
+      return;
+    }
+    if (!action) {
+      parsed.push({ ...base, reason: actionText ? `Unrecognised action "${actionText}"` : 'No action' });
+      return;
+    }
+    if (action === 'ignore') {
+      parsed.push({ ...base, reason: `Not a holding transaction (${actionText})` });
+      return;
+    }
+
+    const amount = numberField(row, 'amount');
+    const price = numberField(row, 'price');
+    const fees = Math.abs(numberField(row, 'fees') ?? 0);
+    const common = {
+      ...(ticker ? { ticker } : {}),
+      date,
+      ...(externalId ? { externalId } : {})
+    };
+
+    let transaction: ImportedTransaction | null = null;
+    let reason: string | undefined;
+    switch (action) {
+      case 'buy':
+      case 'sell':
+      case 'transfer_in':
+      case 'transfer_out': {
+        const shares = Math.abs(quantity ?? 0);
+        // Transfers often omit the price; the amount divided by the shares is the value moved
+        const perShare = price !== undefined && price !== 0 ? Math.abs(price) : amount !== undefined && shares > 0 ? Math.abs(amount) / shares : 0;
+        if (!shares) {
+          reason = 'No share quantity';
+        } else if (!perShare) {
+          reason = 'No price';
+        } else if (action === 'buy' || action === 'sell') {
+          transaction = { ...common, type: action, quantity: shares, price: perShare, ...(fees ? { fees } : {}) };
+        } else {
+          transaction = { ...common, type: 'transfer', direction: action === 'transfer_in' ? 'in' : 'out', quantity: shares, price: perShare };
+        }
+        break;
+      }
+
+      case 'dividend':
+      case 'fee':
+        if (!amount) {
+          reason = 'No amount';
+        } else {
+          transaction = { ...common, type: action, amount: Math.abs(amount) };
+        }
+        break;
+
+      case 'split': {
+        const ratio = splitRatio(`${actionText} ${description}`);
+        if (ratio === undefined) {
+          reason = 'Split ratio not given';
+        } else {
+          transaction = { ...common, type: 'split', ratio };
+        }
+        break;
+      }
+    }
+
+    parsed.push(transaction ? { ...base, transaction } : { ...base, reason });
+  });
+
+  return { format: 'csv', profileId: profile.id, rows: parsed };
+}
+
+interface OfxNode {
+  name: string;
+  value?: string;
+  children: OfxNode[];
+}
+
+/**
+ * Element tree of an OFX document; handles both SGML (OFX 1.x, leaf tags left open) and XML
+ */
+function parseOfxTree(text: string): OfxNode {
+  const root: OfxNode = { name: 'ROOT', children: [] };
+  const stack: OfxNode[] = [root];
+  const body = text.slice(Math.max(0, text.toUpperCase().indexOf('<OFX>')));
+  const tag = /<(\/?)([A-Za-z0-9_.]+)>([^<]*)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tag.exec(body)) !== null) {
+    const [, closing, rawName, rawValue] = match;
+    const name = rawName.toUpperCase();
+    const value = rawValue.trim();
+
+    if (closing) {
+      const openIndex = stack.map(node => node.name).lastIndexOf(name);
+      if (openIndex > 0) stack.length = openIndex;
+      continue;
+    }
+
+    const node: OfxNode = { name, children: [] };
+    stack[stack.length - 1].children.push(node);
+    if (value) {
+      node.value = value;
+    } else {
+      stack.push(node);
+    }
+  }
+  return root;
+}
+
+function ofxChild(node: OfxNode | undefined, ...path: string[]): OfxNode | undefined {
+  let current = node;
+  for (const name of path) {
+    current = current?.children.find(child => child.name === name);
+  }
+  return current;
+}
+
+function ofxValue(node: OfxNode | undefined, ...path: string[]): string {
+  return ofxChild(node, ...path)?.value ?? '';
+}
+
+function ofxNumber(node: OfxNode | undefined, ...path: string[]): number | undefined {
+  return parseAmount(ofxValue(node, ...path));
+}
+
+function ofxFind(node: OfxNode, name: string): OfxNode[] {
+  return node.children.flatMap(child => (child.name === name ? [child] : ofxFind(child, name)));
+}
+
+/**
+ * Investment transactions from an OFX or QFX statement; holdings are imported as transfers in at
+ * the statement price when it has positions but no transactions
+ */
+export function parseOfxStatement(text: string): ParsedStatement {
+  const root = parseOfxTree(text);
+  if (!ofxChild(root, 'OFX')) {
+    throw new BrokerageImportError('Not an OFX statement');
+  }
+
+  const securities = new Map<string, { ticker: string; name: string }>();
+  for (const info of ofxFind(root, 'SECINFO')) {
+    const id = ofxValue(info, 'SECID', 'UNIQUEID');
+    if (id) securities.set(id, { ticker: ofxValue(info, 'TICKER'), name: ofxValue(info, 'SECNAME') });
+  }
+  const security = (node: OfxNode) => {
+    const id = ofxValue(node, 'SECID', 'UNIQUEID');
+    const known = securities.get(id);
+    const symbol = known?.ticker ?? '';
+    const ticker = normalizeSymbol(symbol);
+    return {
+      row: { ...(symbol ? { symbol } : {}), ...(known?.name || id ? { description: known?.name || id } : {}) },
+      ticker: ticker ? { ticker } : {}
+    };
+  };
+
+  const rows: ParsedStatementRow[] = [];
+  const transactionList = ofxFind(root, 'INVTRANLIST')[0];
+  let line = 0;
+
+  for (const entry of transactionList?.children ?? []) {
+    if (entry.value !== undefined) continue; // DTSTART and DTEND
+    line++;
+
+    // Buys and sells keep their details in an INVBUY or INVSELL aggregate
+    const detail = ofxChild(entry, 'INVBUY') ?? ofxChild(entry, 'INVSELL') ?? entry;
+    const { row, ticker } = security(detail);
+    const externalId = ofxValue(detail, 'INVTRAN', 'FITID');
+    const date = parseStatementDate(ofxValue(detail, 'INVTRAN', 'DTTRADE'), 'YYYY-MM-DD');
+    const base: ParsedStatementRow = { line, transaction: null, ...row };
+    if (!date) {
+      rows.push({ ...base, reason: `Not a holding transaction (${entry.name})` });
+      continue;
+    }
+    const common = { ...ticker, date, ...(externalId ? { externalId } : {}) };
+
+    const units = Math.abs(ofxNumber(detail, 'UNITS') ?? 0);
+    const unitPrice = Math.abs(ofxNumber(detail, 'UNITPRICE') ?? 0);
+    const fees = Math.abs(ofxNumber(detail, 'COMMISSION') ?? 0) + Math.abs(ofxNumber(detail, 'FEES') ?? 0);
+    const total = Math.abs(ofxNumber(detail, 'TOTAL') ?? 0);
+
+    if (entry.name.startsWith('BUY') || entry.name.startsWith('SELL')) {
+      const type = entry.name.startsWith('BUY') ? 'buy' : 'sell';
+      rows.push(units && unitPrice
+        ? { ...base, transaction: { ...common, type, quantity: units, price: unitPrice, ...(fees ? { fees } : {}) } }
+        : { ...base, reason: 'No share quantity or price' });
+    } else if (entry.name === 'INCOME') {
+      const incomeType = ofxValue(entry, 'INCOMETYPE');
+      rows.push(['DIV', 'CGLONG', 'CGSHORT'].includes(incomeType) && total
+        ? { ...base, transaction: { ...common, type: 'dividend', amount: total } }
+        : { ...base, reason: `Not a holding transaction (${incomeType || 'income'})` });
+    } else if (entry.name === 'REINVEST') {
+      // A reinvested dividend is the cash paid out and the shares bought with it
+      if (total) {
+        rows.push({ ...base, transaction: { ...common, type: 'dividend', amount: total, ...(externalId ? { externalId: `${externalId}:div` } : {}) } });
+      }
+      rows.push(units && unitPrice
+        ? { ...base, transaction: { ...common, type: 'buy', quantity: units, price: unitPrice, ...(fees ? { fees } : {}) } }
+        : { ...base, reason: 'No share quantity or price' });
+    } else if (entry.name === 'TRANSFER') {
+      const direction = ofxValue(entry, 'TFERACTION') === 'OUT' ? 'out' : 'in';
+      const perShare = unitPrice || Math.abs(ofxNumber(entry, 'AVGCOSTBASIS') ?? 0);
+      rows.push(units && perShare
+        ? { ...base, transaction: { ...common, type: 'transfer', direction, quantity: units, price: perShare } }
+        : { ...base, reason: 'No share quantity or cost' });
+    } else if (entry.name === 'SPLIT') {
+      const oldUnits = ofxNumber(entry, 'OLDUNITS') ?? 0;
+      const newUnits = ofxNumber(entry, 'NEWUNITS') ?? 0;
+      const numerator = ofxNumber(entry, 'NUMERATOR') ?? 0;
+      const denominator = ofxNumber(entry, 'DENOMINATOR') ?? 0;
+      const ratio = oldUnits > 0 && newUnits > 0 ? newUnits / oldUnits : denominator > 0 ? numerator / denominator : 0;
+      rows.push(ratio > 0
+        ? { ...base, transaction: { ...common, type: 'split', ratio } }
+        : { ...base, reason: 'Split ratio not given' });
+    } else if (entry.name === 'INVEXPENSE' && total) {
+      rows.push({ ...base, transaction: { ...common, type: 'fee', amount: total } });
+    } else {
+      rows.push({ ...base, reason: `Not a holding transaction (${entry.name})` });
+    }
+  }
+
+  if (rows.every(row => !row.transaction)) {
+    for (const position of ofxFind(root, 'INVPOS')) {
+      line++;
+      const { row, ticker } = security(position);
+      const units = ofxNumber(position, 'UNITS') ?? 0;
+      const unitPrice = ofxNumber(position, 'UNITPRICE') ?? 0;
+      const date = parseStatementDate(ofxValue(position, 'DTPRICEASOF'), 'YYYY-MM-DD');
+      const base: ParsedStatementRow = { line, transaction: null, ...row };
+      rows.push(units > 0 && unitPrice > 0 && date
+        ? {
+          ...base,
+          transaction: { ...ticker, type: 'transfer', direction: 'in', date, quantity: units, price: unitPrice, note: 'Imported position at statement price' }
+        }
+        : { ...base, reason: 'No share quantity or price' });
+    }
+  }
+
+  return { format: 'ofx', rows };
+}
+
+/**
+ * Whether the file is an OFX or QFX statement rather than a CSV export
+ */
+export function isOfx(text: string): boolean {
+  return /<OFX>/i.test(text) || /^\s*OFXHEADER:/i.test(text);
+}
+
+/**
+ * Fill in tickers resolved from the statement's symbol or description; rows left without a
+ * ticker (other than account fees) are skipped
+ */
+export function applyResolvedTickers(statement: ParsedStatement, resolved: Map<string, string | null>): ParsedStatement {
+  return {
+    ...statement,
+    rows: statement.rows.map(row => {
+      if (!row.transaction) return row;
+      const key = tickerLookupKey(row);
+      const ticker = (key && resolved.get(key)) || row.transaction.ticker;
+      if (ticker) return { ...row, transaction: { ...row.transaction, ticker } };
+      if (row.transaction.type === 'fee') return row;
+      return { ...row, transaction: null, reason: `Unknown security ${row.symbol ?? row.description ?? ''}`.trim() };
+    })
+  };
+}
+
+/**
+ * What a row's ticker is looked up by: the statement symbol, else its description
+ */
+export function tickerLookupKey(row: ParsedStatementRow): string {
+  return row.symbol?.trim() || row.description?.trim() || '';
+}
+
+const round6 = (value: number | undefined) => (value === undefined ? '' : String(Math.round(value * 1e6) / 1e6));
+
+function matchKey(transaction: ImportedTransaction): string {
+  return [
+    transaction.type,
+    transaction.ticker ?? '',
+    transaction.date,
+    round6(transaction.quantity),
+    round6(transaction.price),
+    round6(transaction.amount),
+    round6(transaction.ratio),
+    transaction.direction ?? ''
+  ].join('|');
+}
+
+function shareCounts(transactions: LedgerTransaction[], lotMethod: LotMethod): Map<string, number> {
+  return new Map(buildLedger(transactions, { lotMethod }).holdings.map(holding => [holding.ticker, holding.quantity]));
+}
+
+/**
+ * Which parsed rows are new and which are already in the ledger, with the share counts the new
+ * rows change and the reason the ledger would not add up with them, if any
+ */
+export function previewImport(
+  statement: ParsedStatement,
+  existing: LedgerTransaction[],
+  lotMethod: LotMethod
+): ImportPreview {
+  // Identical trades on one day are legitimate, so each ledger entry matches one row. Entries
+  // with a brokerage id only match rows without one by content; rows with a different id are
+  // different trades.
+  const byExternalId = new Map<string, LedgerTransaction>();
+  const unmatched = { withId: new Map<string, number>(), withoutId: new Map<string, number>() };
+  for (const transaction of existing) {
+    if (transaction.externalId) byExternalId.set(transaction.externalId, transaction);
+    const pool = transaction.externalId ? unmatched.withId : unmatched.withoutId;
+    const key = matchKey(transaction);
+    pool.set(key, (pool.get(key) ?? 0) + 1);
+  }
+  const take = (pool: Map<string, number>, key: string) => {
+    const remaining = pool.get(key) ?? 0;
+    if (remaining > 0) pool.set(key, remaining - 1);
+    return remaining > 0;
+  };
+
+  const rows: ImportPreviewRow[] = statement.rows.map(row => {
+    if (!row.transaction) return { ...row, status: 'skipped' };
+    const matched = row.transaction.externalId ? byExternalId.get(row.transaction.externalId) : undefined;
+    if (matched) {
+      take(unmatched.withId, matchKey(matched));
+      return { ...row, status: 'duplicate' };
+    }
+
+    const key = matchKey(row.transaction);
+    const duplicate = take(unmatched.withoutId, key) || (!row.transaction.externalId && take(unmatched.withId, key));
+    return { ...row, status: duplicate ? 'duplicate' : 'new' };
+  });
+
+  const transactions = rows
+    .filter(row => row.status === 'new')
+    .map(row => row.transaction!)
+    .map((transaction, order) => ({ transaction, order }))
+    .sort((a, b) => a.transaction.date.localeCompare(b.transaction.date) || a.order - b.order)
+    .map(({ transaction }) => transaction);
+
+  const now = Date.now();
+  const combined: LedgerTransaction[] = [
+    ...existing,
+    ...transactions.map((transaction, index) => ({
+      ...transaction,
+      id: `import_${index}`,
+      createdAt: new Date(now + index).toISOString()
+    }))
+  ];
+
+  let error: string | null = null;
+  let changes: ImportHoldingChange[] = [];
+  try {
+    const before = shareCounts(existing, lotMethod);
+    const after = shareCounts(combined, lotMethod);
+    changes = Array.from(new Set([...before.keys(), ...after.keys()]))
+      .map(ticker => ({ ticker, before: before.get(ticker) ?? 0, after: after.get(ticker) ?? 0 }))
+      .filter(change => change.before !== change.after)
+      .sort((a, b) => a.ticker.localeCompare(b.ticker));
+  } catch (err) {
+    if (!(err instanceof LedgerError)) throw err;
+    error = err.message;
+  }
+
+  return { rows, transactions, changes, error };
+}
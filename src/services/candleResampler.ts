@@ -0,0 +1,187 @@
+/**
+ * Candle Resampler
+ * Builds coarser bars (5m/15m/1h/4h/D/W/M) from finer candles without another provider call
+ *
+ * Bucketing follows the exchange calendar rather than UTC clock boundaries. Intraday buckets
+ * start at the open of the session a bar belongs to (pre-market, regular or post-market), so
+ * an hourly bar on a US trading day runs 9:30-10:30 and no bucket straddles the open or the
+ * close. Daily bars are built from regular-session bars only, like a vendor's daily bar, and
+ * are stamped at 00:00 UTC of the exchange-local date; weekly bars start on the Monday and
+ * monthly bars on the first of the month. Safe to use in the browser.
+ */
+
+import { ExchangeCode, TradingDaySchedule } from '@/types';
+import { ProviderCandles, RESOLUTION_SECONDS } from './marketDataProvider';
+import { marketCalendar } from './marketCalendar';
+
+// Resolutions the provider serves directly; anything else is resampled
+export const NATIVE_RESOLUTIONS = ['1', '5', '15', '30', '60', 'D', 'W', 'M'];
+const INTRADAY_RESOLUTIONS = ['1', '5', '15', '30', '60', '240'];
+
+// Chart-style timeframe names accepted next to the provider's resolution codes
+const TIMEFRAME_ALIASES: Record<string, string> = {
+  '1m': '1',
+  '5m': '5',
+  '15m': '15',
+  '30m': '30',
+  '1h': '60',
+  '4h': '240',
+  '1D': 'D',
+  '1W': 'W',
+  '1M': 'M'
+};
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Resolution code for a timeframe ("4h" → "240", "D" → "D"), or null when unsupported
+ */
+export function normalizeResolution(timeframe: string): string | null {
+  const resolution = TIMEFRAME_ALIASES[timeframe] ?? timeframe;
+  return Object.prototype.hasOwnProperty.call(RESOLUTION_SECONDS, resolution) ? resolution : null;
+}
+
+export function isIntradayResolution(resolution: string): boolean {
+  return INTRADAY_RESOLUTIONS.includes(resolution);
+}
+
+/**
+ * Whether bars at `source` can be combined into bars at `target`
+ */
+export function canResample(source: string, target: string): boolean {
+  if (source === target) return true;
+  if (isIntradayResolution(source)) {
+    return isIntradayResolution(target)
+      ? RESOLUTION_SECONDS[target] > RESOLUTION_SECONDS[source] && RESOLUTION_SECONDS[target] % RESOLUTION_SECONDS[source] === 0
+      : true;
+  }
+  return source === 'D' && (target === 'W' || target === 'M');
+}
+
+/**
+ * Resolutions a target can be built from, finest first
+ */
+export function resampleSources(target: string): string[] {
+  return NATIVE_RESOLUTIONS.filter(source => canResample(source, target));
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_SECONDS * 1000).toISOString().slice(0, 10);
+}
+
+function dateSeconds(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / 1000);
+}
+
+/**
+ * Start of the week (Monday) or month containing a date, as YYYY-MM-DD
+ */
+function periodStart(date: string, resolution: 'W' | 'M'): string {
+  if (resolution === 'M') return `${date.slice(0, 7)}-01`;
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+/**
+ * Assigns bars to buckets; schedules are looked up once per exchange-local date
+ */
+class Bucketer {
+  private schedules = new Map<string, TradingDaySchedule>();
+
+  constructor(private source: string, private target: string, private exchange: ExchangeCode) {}
+
+  /**
+   * Bucket start (unix seconds) for a bar, or null when the bar does not belong in any
+   * bucket (extended-hours bars when building daily bars)
+   */
+  bucketOf(time: number): number | null {
+    if (!isIntradayResolution(this.source)) {
+      // Daily source bars are stamped at 00:00 UTC of their trading date
+      const date = new Date(time * 1000).toISOString().slice(0, 10);
+      return dateSeconds(periodStart(date, this.target as 'W' | 'M'));
+    }
+
+    const schedule = this.schedule(time);
+    if (isIntradayResolution(this.target)) {
+      const size = RESOLUTION_SECONDS[this.target];
+      const window = [schedule.pre, schedule.regular, schedule.post]
+        .find(session => session && time >= session.open.getTime() / 1000 && time < session.close.getTime() / 1000);
+      const anchor = window ? window.open.getTime() / 1000 : 0;
+      return anchor + Math.floor((time - anchor) / size) * size;
+    }
+
+    const regular = schedule.regular;
+    if (!regular || time < regular.open.getTime() / 1000 || time >= regular.close.getTime() / 1000) {
+      return null;
+    }
+    return this.target === 'D' ? dateSeconds(schedule.date) : dateSeconds(periodStart(schedule.date, this.target as 'W' | 'M'));
+  }
+
+  private schedule(time: number): TradingDaySchedule {
+    const date = marketCalendar.toExchangeDate(new Date(time * 1000), this.exchange);
+    let schedule = this.schedules.get(date);
+    if (!schedule) {
+      schedule = marketCalendar.getSchedule(date, this.exchange);
+      this.schedules.set(date, schedule);
+    }
+    return schedule;
+  }
+}
+
+/**
+ * Combine candles at `source` resolution into `target` bars (first open, highest high,
+ * lowest low, last close, summed volume); the input must be sorted by time
+ */
+export function resampleCandles(
+  candles: ProviderCandles,
+  source: string,
+  target: string,
+  exchange: ExchangeCode = 'US'
+): ProviderCandles {
+  if (source === target || candles.s !== 'ok') return candles;
+  if (!canResample(source, target)) {
+    throw new Error(`Cannot resample ${source} candles to ${target}`);
+  }
+
+  const bucketer = new Bucketer(source, target, exchange);
+  const result: ProviderCandles = { s: 'ok', c: [], h: [], l: [], o: [], t: [], v: [] };
+  let last = -1;
+
+  for (let i = 0; i < candles.t.length; i++) {
+    const bucket = bucketer.bucketOf(candles.t[i]);
+    if (bucket === null) continue;
+
+    if (last >= 0 && result.t[last] === bucket) {
+      result.h[last] = Math.max(result.h[last], candles.h[i]);
+      result.l[last] = Math.min(result.l[last], candles.l[i]);
+      result.c[last] = candles.c[i];
+      result.v[last] += candles.v[i];
+    } else {
+      result.t.push(bucket);
+      result.o.push(candles.o[i]);
+      result.h.push(candles.h[i]);
+      result.l.push(candles.l[i]);
+      result.c.push(candles.c[i]);
+      result.v.push(candles.v[i]);
+      last++;
+    }
+  }
+
+  if (result.t.length === 0) result.s = 'no_data';
+  return result;
+}
+
+/**
+ * Start of the bucket containing `time`, so a resampled range does not begin with a partial bar
+ */
+export function alignToBucket(time: number, source: string, target: string, exchange: ExchangeCode = 'US'): number {
+  if (source === target || !canResample(source, target)) return time;
+  if (!isIntradayResolution(target)) {
+    const date = isIntradayResolution(source)
+      ? marketCalendar.toExchangeDate(new Date(time * 1000), exchange)
+      : new Date(time * 1000).toISOString().slice(0, 10);
+    // 00:00 UTC of the date precedes its regular session on every supported exchange
+    return dateSeconds(target === 'D' ? date : periodStart(date, target as 'W' | 'M'));
+  }
+  return new Bucketer(source, target, exchange).bucketOf(time) ?? time;
+}
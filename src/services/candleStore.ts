@@ -0,0 +1,382 @@
+/**
+ * Candle Store
+ * Persistent on-disk candle cache keyed by provider, symbol and resolution
+ *
+ * Each series is kept in CANDLE_STORE_DIR (default: data/candles) as
+ * `<provider>/<SYMBOL>/<resolution>.json` together with the time ranges already fetched.
+ * A request only goes to the provider for the ranges missing from that coverage; everything
+ * else is served locally. Bars younger than one resolution period can still change, so the
+ * unsettled tail is never recorded as covered and is refreshed at most every TAIL_TTL_MS.
+ *
+ * getResampledCandles serves any resolution from the finest stored series that already
+ * covers the range (candleResampler.ts), so switching chart timeframes costs no provider call.
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import {
+  MarketDataProvider,
+  MarketDataProviderError,
+  ProviderCandles,
+  RESOLUTION_SECONDS
+} from './marketDataProvider';
+import { getMarketDataProvider } from './marketDataProviderConfig';
+import { alignToBucket, NATIVE_RESOLUTIONS, resampleCandles, resampleSources } from './candleResampler';
+import { marketCalendar } from './marketCalendar';
+import { usageLedger } from './usageLedger';
+
+export interface StoredCandle {
+  t: number; // Unix seconds
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+}
+
+// Inclusive [from, to] range in unix seconds
+export type CandleRange = [number, number];
+
+interface CandleSeriesFile {
+  version: 1;
+  provider: string;
+  symbol: string;
+  resolution: string;
+  coverage: CandleRange[];
+  tail?: { from: number; to: number; fetchedAt: number };
+  candles: StoredCandle[];
+  updatedAt: string;
+}
+
+export interface CandleStoreResult {
+  candles: ProviderCandles;
+  source: 'store' | 'provider' | 'mixed';
+  backfilled: CandleRange[];
+}
+
+export interface ResampledCandleResult extends CandleStoreResult {
+  resolution: string;
+  sourceResolution: string; // Stored series the bars were built from
+}
+
+const STORE_VERSION = 1;
+const TAIL_TTL_MS = 60 * 1000; // 1 minute
+
+/**
+ * Merge overlapping or touching ranges into a sorted, disjoint list
+ */
+export function mergeCandleRanges(ranges: CandleRange[]): CandleRange[] {
+  const sorted = ranges
+    .filter(([from, to]) => to >= from)
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: CandleRange[] = [];
+  for (const [from, to] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && from <= last[1] + 1) {
+      last[1] = Math.max(last[1], to);
+    } else {
+      merged.push([from, to]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Parts of [from, to] not covered by the given ranges
+ */
+export function findCandleGaps(coverage: CandleRange[], from: number, to: number): CandleRange[] {
+  const gaps: CandleRange[] = [];
+  let cursor = from;
+
+  for (const [coveredFrom, coveredTo] of mergeCandleRanges(coverage)) {
+    if (coveredTo < cursor) continue;
+    if (coveredFrom > to) break;
+    if (coveredFrom > cursor) {
+      gaps.push([cursor, coveredFrom - 1]);
+    }
+    cursor = Math.max(cursor, coveredTo + 1);
+    if (cursor > to) break;
+  }
+
+  if (cursor <= to) {
+    gaps.push([cursor, to]);
+  }
+  return gaps;
+}
+
+export class CandleStore {
+  private baseDir: string;
+  private series = new Map<string, CandleSeriesFile>();
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(baseDir?: string) {
+    this.baseDir = path.resolve(baseDir ?? process.env.CANDLE_STORE_DIR ?? path.join(process.cwd(), 'data', 'candles'));
+  }
+
+  /**
+   * Candles for [from, to], backfilling only the ranges the store has not seen yet.
+   * Replay fixtures are already local, so the replay provider is passed straight through.
+   */
+  async getCandles(
+    symbol: string,
+    resolution: string,
+    from: number,
+    to: number,
+    provider: MarketDataProvider = getMarketDataProvider()
+  ): Promise<CandleStoreResult> {
+    if (provider.name === 'replay') {
+      const candles = await provider.getCandles(symbol, resolution, from, to);
+      return { candles, source: 'provider', backfilled: [[from, to]] };
+    }
+
+    const normalizedSymbol = symbol.toUpperCase();
+    const key = this.seriesKey(provider.name, normalizedSymbol, resolution);
+
+    return this.withLock(key, async () => {
+      const series = await this.load(provider.name, normalizedSymbol, resolution);
+      const nowSeconds = Math.floor(Date.now() / 1000);
+      const end = Math.min(to, nowSeconds);
+      const settledUntil = nowSeconds - (RESOLUTION_SECONDS[resolution] || RESOLUTION_SECONDS.D);
+
+      const gaps = end < from ? [] : findCandleGaps(series.coverage, from, end).filter(gap => !this.isFreshTail(series, gap));
+
+      for (const [gapFrom, gapTo] of gaps) {
+        const fetched = await provider.getCandles(normalizedSymbol, resolution, gapFrom, gapTo);
+        if (fetched.s === 'error') {
+          throw new MarketDataProviderError(`Candle backfill for ${normalizedSymbol} failed`, 502, provider.name);
+        }
+
+        this.mergeCandles(series, fetched);
+
+        if (gapFrom <= settledUntil) {
+          series.coverage = mergeCandleRanges([...series.coverage, [gapFrom, Math.min(gapTo, settledUntil)]]);
+        }
+        if (gapTo > settledUntil) {
+          series.tail = { from: Math.max(gapFrom, settledUntil + 1), to: gapTo, fetchedAt: Date.now() };
+        }
+      }
+
+      if (gaps.length > 0) {
+        await this.save(series);
+      } else {
+        usageLedger.recordCacheHit(provider, '/stock/candle', normalizedSymbol);
+      }
+
+      const candles = this.slice(series, from, to);
+      const source = gaps.length === 0
+        ? 'store'
+        : gaps.length === 1 && gaps[0][0] <= from && gaps[0][1] >= end ? 'provider' : 'mixed';
+
+      return { candles, source, backfilled: gaps };
+    });
+  }
+
+  /**
+   * Candles at any resolution in RESOLUTION_SECONDS (including 4h), built from a stored
+   * series: the target's own when it covers the range, else the finest one that does. With
+   * nothing stored, the target is fetched directly, or for 4h/W/M the hourly or daily series
+   * it is built from, so later switches between those timeframes are served locally.
+   * `transform` runs on the source bars before resampling (e.g. split adjustment, which
+   * must see each bar's own date).
+   */
+  async getResampledCandles(
+    symbol: string,
+    resolution: string,
+    from: number,
+    to: number,
+    provider: MarketDataProvider = getMarketDataProvider(),
+    transform?: (candles: ProviderCandles) => ProviderCandles
+  ): Promise<ResampledCandleResult> {
+    const sources = resampleSources(resolution);
+    if (!RESOLUTION_SECONDS[resolution] || sources.length === 0) {
+      throw new MarketDataProviderError(`Unsupported candle resolution "${resolution}"`, 400, provider.name);
+    }
+
+    const exchange = marketCalendar.exchangeForSymbol(symbol);
+    const fetchSource = NATIVE_RESOLUTIONS.includes(resolution) && resolution !== 'W' && resolution !== 'M'
+      ? resolution
+      : sources.filter(source => source !== 'W' && source !== 'M').pop()!;
+    const preferred = [...sources.filter(source => source === resolution), ...sources.filter(source => source !== resolution)];
+
+    let sourceResolution = fetchSource;
+    let stored: CandleStoreResult | null = null;
+    if (provider.name === 'replay') {
+      // Fixtures hold whichever resolutions were recorded; use the first one that has bars
+      for (const source of preferred) {
+        const result = await this.getCandles(symbol, source, alignToBucket(from, source, resolution, exchange), to, provider);
+        if (result.candles.s === 'ok') {
+          sourceResolution = source;
+          stored = result;
+          break;
+        }
+      }
+    } else {
+      const nowSeconds = Math.floor(Date.now() / 1000);
+      for (const source of preferred) {
+        const settledUntil = Math.min(to, nowSeconds) - RESOLUTION_SECONDS[source];
+        const alignedFrom = alignToBucket(from, source, resolution, exchange);
+        if (settledUntil < alignedFrom) continue;
+
+        const coverage = await this.getCoverage(symbol, source, provider.name);
+        if (findCandleGaps(coverage, alignedFrom, settledUntil).length === 0) {
+          sourceResolution = source;
+          break;
+        }
+      }
+    }
+
+    stored = stored ?? await this.getCandles(
+      symbol,
+      sourceResolution,
+      alignToBucket(from, sourceResolution, resolution, exchange),
+      to,
+      provider
+    );
+    const candles = transform ? transform(stored.candles) : stored.candles;
+    return {
+      ...stored,
+      candles: resampleCandles(candles, sourceResolution, resolution, exchange),
+      resolution,
+      sourceResolution
+    };
+  }
+
+  /**
+   * Ranges already stored for a series (settled bars only)
+   */
+  async getCoverage(symbol: string, resolution: string, providerName: string = getMarketDataProvider().name): Promise<CandleRange[]> {
+    const series = await this.load(providerName, symbol.toUpperCase(), resolution);
+    return series.coverage.map(([from, to]) => [from, to] as CandleRange);
+  }
+
+  /**
+   * Drop stored candles for a symbol (every resolution), e.g. after a data correction
+   */
+  async invalidate(symbol: string, providerName: string = getMarketDataProvider().name): Promise<void> {
+    const normalizedSymbol = symbol.toUpperCase();
+    const prefix = `${providerName}/${normalizedSymbol}/`;
+    Array.from(this.series.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.series.delete(key));
+
+    await fs.rm(path.join(this.baseDir, providerName, this.safeName(normalizedSymbol)), { recursive: true, force: true });
+  }
+
+  private isFreshTail(series: CandleSeriesFile, gap: CandleRange): boolean {
+    const tail = series.tail;
+    // The tail runs up to "now", so a fresh tail answers any gap that starts inside it
+    return !!tail
+      && Date.now() - tail.fetchedAt < TAIL_TTL_MS
+      && gap[0] >= tail.from;
+  }
+
+  private mergeCandles(series: CandleSeriesFile, fetched: ProviderCandles): void {
+    if (fetched.s !== 'ok' || fetched.t.length === 0) return;
+
+    const byTime = new Map(series.candles.map(candle => [candle.t, candle]));
+    fetched.t.forEach((t, index) => {
+      byTime.set(t, {
+        t,
+        o: fetched.o[index],
+        h: fetched.h[index],
+        l: fetched.l[index],
+        c: fetched.c[index],
+        v: fetched.v[index]
+      });
+    });
+
+    series.candles = Array.from(byTime.values()).sort((a, b) => a.t - b.t);
+  }
+
+  private slice(series: CandleSeriesFile, from: number, to: number): ProviderCandles {
+    const bars = series.candles.filter(candle => candle.t >= from && candle.t <= to);
+    return {
+      s: bars.length > 0 ? 'ok' : 'no_data',
+      c: bars.map(bar => bar.c),
+      h: bars.map(bar => bar.h),
+      l: bars.map(bar => bar.l),
+      o: bars.map(bar => bar.o),
+      t: bars.map(bar => bar.t),
+      v: bars.map(bar => bar.v)
+    };
+  }
+
+  private async load(providerName: string, symbol: string, resolution: string): Promise<CandleSeriesFile> {
+    const key = this.seriesKey(providerName, symbol, resolution);
+    const cached = this.series.get(key);
+    if (cached) return cached;
+
+    const filePath = this.filePath(providerName, symbol, resolution);
+    let series: CandleSeriesFile = {
+      version: STORE_VERSION,
+      provider: providerName,
+      symbol,
+      resolution,
+      coverage: [],
+      candles: [],
+      updatedAt: new Date().toISOString()
+    };
+
+    if (existsSync(filePath)) {
+      try {
+        const stored = JSON.parse(await fs.readFile(filePath, 'utf-8')) as CandleSeriesFile;
+        if (stored.version === STORE_VERSION && Array.isArray(stored.candles) && Array.isArray(stored.coverage)) {
+          series = stored;
+        }
+      } catch (error) {
+        // A corrupt file is treated as empty and rebuilt from the provider
+        console.error(`Ignoring unreadable candle store file ${filePath}:`, error);
+      }
+    }
+
+    this.series.set(key, series);
+    return series;
+  }
+
+  private async save(series: CandleSeriesFile): Promise<void> {
+    series.updatedAt = new Date().toISOString();
+    const filePath = this.filePath(series.provider, series.symbol, series.resolution);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write-then-rename so a crash never leaves a half-written series behind
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(series));
+    await fs.rename(tempPath, filePath);
+  }
+
+  /**
+   * Serialize work per series so concurrent requests do not backfill or write the same file twice
+   */
+  private async withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    this.locks.set(key, run);
+
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(key) === run) {
+        this.locks.delete(key);
+      }
+    }
+  }
+
+  private seriesKey(providerName: string, symbol: string, resolution: string): string {
+    return `${providerName}/${symbol}/${resolution}`;
+  }
+
+  private filePath(providerName: string, symbol: string, resolution: string): string {
+    return path.join(this.baseDir, providerName, this.safeName(symbol), `${this.safeName(resolution)}.json`);
+  }
+
+  // Names made only of dots would climb out of the store, so they are encoded too
+  private safeName(value: string): string {
+    const safe = value.replace(/[^A-Za-z0-9._-]/g, '_');
+    return /^\.*$/.test(safe) ? safe.replace(/\./g, '_') || '_' : safe;
+  }
+}
+
+// Singleton instance
+export const candleStore = new CandleStore();
+export default candleStore;
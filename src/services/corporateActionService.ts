@@ -0,0 +1,275 @@
+/**
+ * Corporate Action Service
+ * Ingests stock splits and cash dividends and restates prices, quantities and candles
+ *
+ * Actions are fetched from the market data provider at most once per REFRESH_TTL_MS per
+ * symbol and kept in CORPORATE_ACTIONS_DIR (default: data/corporate-actions) as
+ * `<provider>/<SYMBOL>.json`, so a provider outage falls back to what was last ingested.
+ * Replay fixtures are already local and are read on every call.
+ *
+ * Adjustment is backward: the latest bars keep their traded prices and everything before
+ * an ex-date is restated. A split divides earlier prices by its ratio and multiplies
+ * earlier volume by it; a dividend scales earlier prices by (1 - amount / prior close).
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { CorporateAction, DividendAction, SplitAction } from '@/types';
+import { MarketDataProvider, ProviderCandles } from './marketDataProvider';
+import { getMarketDataProvider } from './marketDataProviderConfig';
+
+export interface CandleAdjustmentOptions {
+  dividends?: boolean; // Include dividend adjustment (default true); splits always apply
+  asOf?: number; // Unix seconds; actions with a later ex-date are ignored (default: now)
+}
+
+interface CorporateActionFile {
+  version: 1;
+  provider: string;
+  symbol: string;
+  actions: CorporateAction[];
+  fetchedAt: number;
+}
+
+const FILE_VERSION = 1;
+const REFRESH_TTL_MS = 24 * 60 * 60 * 1000; // 1 day
+const HISTORY_START = '2000-01-01';
+
+/**
+ * Unix seconds at the start of an ex-date; bars before it trade cum-dividend / pre-split
+ */
+export function exDateSeconds(exDate: string): number {
+  return Math.floor(Date.parse(`${exDate}T00:00:00Z`) / 1000);
+}
+
+/**
+ * Splits with an ex-date after `afterSeconds` and no later than `untilSeconds`, oldest first
+ */
+export function splitsBetween(actions: CorporateAction[], afterSeconds: number, untilSeconds: number): SplitAction[] {
+  return actions
+    .filter((action): action is SplitAction => action.type === 'split')
+    .filter(split => {
+      const start = exDateSeconds(split.exDate);
+      return start > afterSeconds && start <= untilSeconds;
+    })
+    .sort((a, b) => a.exDate.localeCompare(b.exDate));
+}
+
+/**
+ * Combined split ratio between two points in time (1 when nothing split)
+ */
+export function splitFactor(actions: CorporateAction[], afterSeconds: number, untilSeconds: number): number {
+  return splitsBetween(actions, afterSeconds, untilSeconds).reduce((factor, split) => factor * split.ratio, 1);
+}
+
+/**
+ * Restate a raw candle series in adjusted terms; the input is left untouched
+ */
+export function adjustCandles(
+  candles: ProviderCandles,
+  actions: CorporateAction[],
+  options: CandleAdjustmentOptions = {}
+): ProviderCandles {
+  const includeDividends = options.dividends ?? true;
+  const asOf = options.asOf ?? Math.floor(Date.now() / 1000);
+  const events = actions
+    .filter(action => action.type === 'split' || includeDividends)
+    .map(action => ({ action, start: exDateSeconds(action.exDate) }))
+    .filter(event => event.start <= asOf)
+    .sort((a, b) => b.start - a.start);
+
+  const adjusted: ProviderCandles = {
+    s: candles.s,
+    c: [...candles.c],
+    h: [...candles.h],
+    l: [...candles.l],
+    o: [...candles.o],
+    t: [...candles.t],
+    v: [...candles.v]
+  };
+  if (events.length === 0) return adjusted;
+
+  let priceFactor = 1;
+  let volumeFactor = 1;
+  let next = 0;
+
+  // Walk newest to oldest, compounding each action once the walk passes its ex-date
+  for (let i = candles.t.length - 1; i >= 0; i--) {
+    while (next < events.length && candles.t[i] < events[next].start) {
+      const { action } = events[next++];
+      if (action.type === 'split') {
+        if (action.ratio > 0) {
+          priceFactor /= action.ratio;
+          volumeFactor *= action.ratio;
+        }
+      } else if (candles.c[i] > action.amount) {
+        // candles.c[i] is the raw close of the last session before the ex-date
+        priceFactor *= 1 - action.amount / candles.c[i];
+      }
+    }
+
+    adjusted.o[i] = candles.o[i] * priceFactor;
+    adjusted.h[i] = candles.h[i] * priceFactor;
+    adjusted.l[i] = candles.l[i] * priceFactor;
+    adjusted.c[i] = candles.c[i] * priceFactor;
+    adjusted.v[i] = Math.round(candles.v[i] * volumeFactor);
+  }
+
+  return adjusted;
+}
+
+export class CorporateActionService {
+  private baseDir: string;
+  private series = new Map<string, CorporateActionFile>();
+  private refreshes = new Map<string, Promise<CorporateActionFile>>();
+
+  constructor(baseDir?: string) {
+    this.baseDir = path.resolve(
+      baseDir ?? process.env.CORPORATE_ACTIONS_DIR ?? path.join(process.cwd(), 'data', 'corporate-actions')
+    );
+  }
+
+  /**
+   * Every known split and dividend for a symbol, oldest first, refreshed once a day
+   */
+  async getActions(
+    symbol: string,
+    provider: MarketDataProvider = getMarketDataProvider('background', 'corporate-actions')
+  ): Promise<CorporateAction[]> {
+    const normalizedSymbol = symbol.toUpperCase();
+    if (provider.name === 'replay') {
+      return this.fetchActions(provider, normalizedSymbol, []);
+    }
+
+    const stored = await this.load(provider.name, normalizedSymbol);
+
+    if (Date.now() - stored.fetchedAt < REFRESH_TTL_MS) {
+      return stored.actions;
+    }
+
+    const key = `${provider.name}/${normalizedSymbol}`;
+    let refresh = this.refreshes.get(key);
+    if (!refresh) {
+      refresh = this.refresh(provider, stored).finally(() => this.refreshes.delete(key));
+      this.refreshes.set(key, refresh);
+    }
+    return (await refresh).actions;
+  }
+
+  async getSplits(symbol: string, provider?: MarketDataProvider): Promise<SplitAction[]> {
+    const actions = await this.getActions(symbol, provider);
+    return actions.filter((action): action is SplitAction => action.type === 'split');
+  }
+
+  async getDividends(symbol: string, provider?: MarketDataProvider): Promise<DividendAction[]> {
+    const actions = await this.getActions(symbol, provider);
+    return actions.filter((action): action is DividendAction => action.type === 'dividend');
+  }
+
+  /**
+   * Fetch the full action history again and store it; a failed kind is retried after the next TTL
+   */
+  private async refresh(provider: MarketDataProvider, stored: CorporateActionFile): Promise<CorporateActionFile> {
+    const updated: CorporateActionFile = {
+      ...stored,
+      actions: await this.fetchActions(provider, stored.symbol, stored.actions),
+      fetchedAt: Date.now()
+    };
+    this.series.set(`${provider.name}/${stored.symbol}`, updated);
+
+    try {
+      await this.save(updated);
+    } catch (error) {
+      console.error(`Failed to store corporate actions for ${stored.symbol}:`, error);
+    }
+    return updated;
+  }
+
+  /**
+   * Splits and dividends are fetched independently (many plans only include one of them);
+   * a kind that fails keeps its previous history
+   */
+  private async fetchActions(
+    provider: MarketDataProvider,
+    symbol: string,
+    previous: CorporateAction[]
+  ): Promise<CorporateAction[]> {
+    const to = new Date().toISOString().slice(0, 10);
+    const [splits, dividends] = await Promise.allSettled([
+      provider.getSplits(symbol, HISTORY_START, to),
+      provider.getDividends(symbol, HISTORY_START, to)
+    ]);
+
+    const actions: CorporateAction[] = [];
+    if (splits.status === 'fulfilled') {
+      actions.push(...splits.value
+        .filter(split => split.fromFactor > 0 && split.toFactor > 0)
+        .map((split): SplitAction => ({
+          type: 'split',
+          symbol,
+          exDate: split.date,
+          ratio: split.toFactor / split.fromFactor
+        })));
+    } else {
+      console.error(`Split refresh for ${symbol} failed, using stored splits:`, splits.reason);
+      actions.push(...previous.filter(action => action.type === 'split'));
+    }
+
+    if (dividends.status === 'fulfilled') {
+      actions.push(...dividends.value
+        .filter(dividend => dividend.amount > 0)
+        .map((dividend): DividendAction => ({
+          type: 'dividend',
+          symbol,
+          exDate: dividend.date,
+          amount: dividend.amount,
+          ...(dividend.currency ? { currency: dividend.currency } : {})
+        })));
+    } else {
+      console.error(`Dividend refresh for ${symbol} failed, using stored dividends:`, dividends.reason);
+      actions.push(...previous.filter(action => action.type === 'dividend'));
+    }
+
+    return actions.sort((a, b) => a.exDate.localeCompare(b.exDate));
+  }
+
+  private async load(providerName: string, symbol: string): Promise<CorporateActionFile> {
+    const key = `${providerName}/${symbol}`;
+    const cached = this.series.get(key);
+    if (cached) return cached;
+
+    const filePath = this.filePath(providerName, symbol);
+    let stored: CorporateActionFile = { version: FILE_VERSION, provider: providerName, symbol, actions: [], fetchedAt: 0 };
+
+    if (existsSync(filePath)) {
+      try {
+        const parsed = JSON.parse(await fs.readFile(filePath, 'utf-8')) as CorporateActionFile;
+        if (parsed.version === FILE_VERSION && Array.isArray(parsed.actions)) {
+          stored = parsed;
+        }
+      } catch (error) {
+        console.error(`Ignoring unreadable corporate action file ${filePath}:`, error);
+      }
+    }
+
+    this.series.set(key, stored);
+    return stored;
+  }
+
+  private async save(stored: CorporateActionFile): Promise<void> {
+    const filePath = this.filePath(stored.provider, stored.symbol);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(stored));
+    await fs.rename(tempPath, filePath);
+  }
+
+  private filePath(providerName: string, symbol: string): string {
+    return path.join(this.baseDir, providerName, `${symbol.replace(/[^A-Za-z0-9._-]/g, '_')}.json`);
+  }
+}
+
+// Singleton instance
+export const corporateActionService = new CorporateActionService();
+export default corporateActionService;
@@ -1,4 +1,7 @@
 // Customer News Service - Auto-fetching from multiple news APIs
+import { analyzeArticleSentiment } from './newsSentiment';
+import { nlpTickerService } from './nlpTickerService';
+
 export interface CustomerNewsArticle {
   id: string;
   title: string;
@@ -13,6 +16,8 @@ export interface CustomerNewsArticle {
   tags: string[];
   relatedStocks?: string[];
   sentiment: 'positive' | 'negative' | 'neutral';
+  sentimentScore?: number; // -1 to 1
+  sentimentConfidence?: number; // 0-1
   readTime: number; // estimated minutes
   isBreaking?: boolean;
   language: string;
@@ -342,7 +347,7 @@ class CustomerNewsService {
         url: item.link,
         tags: this.extractTags(item.title + ' ' + item.description),
         relatedStocks: this.extractStockSymbols(item.title + ' ' + item.description),
-        sentiment: 'neutral',
+        ...this.scoreSentiment(item.title, item.description),
         readTime: 2,
         language: 'en',
         country: 'US'
@@ -367,7 +372,7 @@ class CustomerNewsService {
       url: article.url,
       tags: this.extractTags(article.title + ' ' + article.description),
       relatedStocks: this.extractStockSymbols(article.title + ' ' + article.description),
-      sentiment: this.analyzeSentiment(article.title + ' ' + article.description),
+      ...this.scoreSentiment(article.title, article.description),
       readTime: this.estimateReadTime(article.content || article.description || ''),
       isBreaking: this.isBreakingNews(article.title),
       language: 'en',
@@ -389,7 +394,7 @@ class CustomerNewsService {
       url: article.url,
       tags: this.extractTags(article.title + ' ' + article.description),
       relatedStocks: this.extractStockSymbols(article.title + ' ' + article.description),
-      sentiment: this.analyzeSentiment(article.title + ' ' + article.description),
+      ...this.scoreSentiment(article.title, article.description),
       readTime: this.estimateReadTime(article.content || article.description || ''),
       isBreaking: this.isBreakingNews(article.title),
       language: 'en',
@@ -409,8 +414,8 @@ class CustomerNewsService {
       publishedAt: new Date(article.created || article.publishedAt),
       url: article.url,
       tags: [relatedStock, 'Stock News', 'Market Analysis'],
-      relatedStocks: [relatedStock],
-      sentiment: this.analyzeSentiment(article.title),
+      relatedStocks: Array.from(new Set([relatedStock, ...this.extractStockSymbols(article.title + ' ' + (article.summary || article.teaser || ''))])),
+      ...this.scoreSentiment(article.title, article.summary || article.teaser),
       readTime: this.estimateReadTime(article.body || article.summary || ''),
       isBreaking: false,
       language: 'en',
@@ -462,38 +467,15 @@ class CustomerNewsService {
   }
 
   private extractStockSymbols(text: string): string[] {
-    const symbols: string[] = [];
-    
-    // Look for major stock symbols in the text
-    this.MAJOR_STOCKS.forEach(symbol => {
-      if (text.toUpperCase().includes(symbol)) {
-        symbols.push(symbol);
-      }
-    });
-    
-    return symbols;
+    return nlpTickerService.extractTickers(text);
   }
 
-  private analyzeSentiment(text: string): 'positive' | 'negative' | 'neutral' {
-    const lowerText = text.toLowerCase();
-    
-    const positiveWords = ['gain', 'rise', 'up', 'surge', 'rally', 'strong', 'growth', 'profit', 'bull'];
-    const negativeWords = ['fall', 'drop', 'down', 'crash', 'decline', 'loss', 'weak', 'bear', 'recession'];
-    
-    let positiveCount = 0;
-    let negativeCount = 0;
-    
-    positiveWords.forEach(word => {
-      if (lowerText.includes(word)) positiveCount++;
-    });
-    
-    negativeWords.forEach(word => {
-      if (lowerText.includes(word)) negativeCount++;
-    });
-    
-    if (positiveCount > negativeCount) return 'positive';
-    if (negativeCount > positiveCount) return 'negative';
-    return 'neutral';
+  private scoreSentiment(
+    headline: string,
+    summary?: string
+  ): Pick<CustomerNewsArticle, 'sentiment' | 'sentimentScore' | 'sentimentConfidence'> {
+    const result = analyzeArticleSentiment(headline || '', summary || '');
+    return { sentiment: result.label, sentimentScore: result.score, sentimentConfidence: result.confidence };
   }
 
   private estimateReadTime(content: string): number {
@@ -0,0 +1,337 @@
+/**
+ * Earnings Calendar Service
+ * Upcoming reports and EPS/revenue surprise history per ticker
+ *
+ * Each symbol's provider calendar is fetched over HISTORY_DAYS back and LOOKAHEAD_DAYS ahead
+ * and kept in EARNINGS_DIR (default: data/earnings) as `<provider>/<SYMBOL>.json`. A refresh
+ * replaces the stored reports inside the fetched window (report dates move while a quarter
+ * is unconfirmed) and keeps older ones, so the surprise history grows past the provider's
+ * window. Stored calendars are refreshed every REFRESH_TTL_MS, and every REPORTING_TTL_MS
+ * while a report is due or its actuals are still missing; replay fixtures are read on every
+ * call and not stored.
+ *
+ * Calendar entries carry calendar and trading days until the report (per the market
+ * calendar), which the pre-earnings reminders in NotificationContext compare against the
+ * user's lead time.
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { EarningsCalendar, EarningsCalendarEntry, EarningsEvent, EarningsHour, RiskFlag, TickerEarnings } from '@/types';
+import { MarketDataProvider, ProviderEarningsEntry } from './marketDataProvider';
+import { getMarketDataProvider } from './marketDataProviderConfig';
+import { marketCalendar } from './marketCalendar';
+import { replayClock } from './replayClock';
+
+interface EarningsFile {
+  version: 1;
+  provider: string;
+  symbol: string;
+  events: EarningsEvent[]; // Oldest first
+  fetchedAt: number;
+}
+
+const FILE_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_DAYS = 730;
+const LOOKAHEAD_DAYS = 120;
+const REFRESH_TTL_MS = 12 * 60 * 60 * 1000;
+const REPORTING_TTL_MS = 60 * 60 * 1000;
+const MAX_STORED_EVENTS = 40;
+
+// A report this many trading days out is a risk flag; high severity when it is this close
+// and the company's surprises have been this large on average
+const RISK_TRADING_DAYS = 5;
+const HIGH_RISK_TRADING_DAYS = 1;
+const HIGH_RISK_SURPRISE_PERCENT = 10;
+
+const HOURS: EarningsHour[] = ['bmo', 'amc', 'dmh'];
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function toNumber(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function surprisePercent(actual: number | null, estimate: number | null): number | null {
+  if (actual === null || estimate === null || estimate === 0) return null;
+  return round(((actual - estimate) / Math.abs(estimate)) * 100);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Provider calendar row as an earnings event; surprises are recomputed from actual and
+ * estimate so every provider reports them the same way
+ */
+export function toEarningsEvent(entry: ProviderEarningsEntry): EarningsEvent {
+  const epsEstimate = toNumber(entry.epsEstimate);
+  const epsActual = toNumber(entry.epsActual);
+  const revenueEstimate = toNumber(entry.revenueEstimate);
+  const revenueActual = toNumber(entry.revenueActual);
+  const hour = (entry.hour ?? '').toLowerCase() as EarningsHour;
+
+  return {
+    symbol: entry.symbol.toUpperCase(),
+    date: entry.date.slice(0, 10),
+    hour: HOURS.includes(hour) ? hour : 'unknown',
+    ...(entry.quarter ? { quarter: entry.quarter } : {}),
+    ...(entry.year ? { year: entry.year } : {}),
+    epsEstimate,
+    epsActual,
+    epsSurprise: epsActual !== null && epsEstimate !== null ? round(epsActual - epsEstimate, 4) : null,
+    epsSurprisePercent: surprisePercent(epsActual, epsEstimate),
+    revenueEstimate,
+    revenueActual,
+    revenueSurprisePercent: surprisePercent(revenueActual, revenueEstimate)
+  };
+}
+
+export class EarningsCalendarService {
+  private baseDir: string;
+  private calendars = new Map<string, EarningsFile>();
+  private refreshes = new Map<string, Promise<EarningsFile>>();
+
+  constructor(baseDir?: string) {
+    this.baseDir = path.resolve(baseDir ?? process.env.EARNINGS_DIR ?? path.join(process.cwd(), 'data', 'earnings'));
+  }
+
+  /**
+   * Next report and surprise history of one ticker
+   */
+  async getTickerEarnings(symbol: string, options: { provider?: MarketDataProvider } = {}): Promise<TickerEarnings> {
+    const normalizedSymbol = symbol.toUpperCase();
+    const provider = options.provider ?? getMarketDataProvider('background', 'earnings');
+    const today = this.today(provider, normalizedSymbol);
+    const events = await this.getEvents(provider, normalizedSymbol, today);
+
+    const history = events.filter(event => event.epsActual !== null && event.date <= today).reverse();
+    const surprises = history
+      .map(event => event.epsSurprisePercent)
+      .filter((value): value is number => value !== null);
+
+    return {
+      symbol: normalizedSymbol,
+      next: events.find(event => event.date >= today && event.epsActual === null) ?? null,
+      history,
+      beatRate: surprises.length > 0 ? round(surprises.filter(value => value > 0).length / surprises.length, 3) : null,
+      averageSurprisePercent: surprises.length > 0
+        ? round(surprises.reduce((total, value) => total + Math.abs(value), 0) / surprises.length)
+        : null,
+      updatedAt: new Date(this.nowMs(provider)).toISOString()
+    };
+  }
+
+  /**
+   * Upcoming reports of several tickers within `days`, soonest first; symbols that fail
+   * to load are listed instead of failing the calendar
+   */
+  async getCalendar(
+    symbols: string[],
+    options: { days?: number; provider?: MarketDataProvider } = {}
+  ): Promise<EarningsCalendar> {
+    const provider = options.provider ?? getMarketDataProvider('background', 'earnings');
+    const days = Math.min(LOOKAHEAD_DAYS, Math.max(0, options.days ?? 30));
+    const unique = Array.from(new Set(symbols.map(symbol => symbol.trim().toUpperCase()).filter(Boolean)));
+    const from = marketCalendar.toExchangeDate(new Date(this.nowMs(provider)));
+    const to = addDays(from, days);
+
+    const entries: EarningsCalendarEntry[] = [];
+    const failed: string[] = [];
+
+    await Promise.all(unique.map(async symbol => {
+      try {
+        const earnings = await this.getTickerEarnings(symbol, { provider });
+        if (earnings.next && earnings.next.date <= addDays(this.today(provider, symbol), days)) {
+          entries.push(this.toCalendarEntry(earnings, this.today(provider, symbol)));
+        }
+      } catch (error) {
+        console.error(`Earnings calendar for ${symbol} failed:`, error);
+        failed.push(symbol);
+      }
+    }));
+
+    entries.sort((a, b) => a.date.localeCompare(b.date) || a.symbol.localeCompare(b.symbol));
+    return { from, to, entries, failed: failed.sort() };
+  }
+
+  /**
+   * `earnings` risk flag when the next report is a few trading days away; null otherwise
+   */
+  toRiskFlag(earnings: TickerEarnings, options: { provider?: MarketDataProvider } = {}): RiskFlag | null {
+    if (!earnings.next) return null;
+
+    const provider = options.provider ?? getMarketDataProvider('background', 'earnings');
+    const entry = this.toCalendarEntry(earnings, this.today(provider, earnings.symbol));
+    if (entry.tradingDaysUntil > RISK_TRADING_DAYS) return null;
+
+    const high = entry.tradingDaysUntil <= HIGH_RISK_TRADING_DAYS
+      && (earnings.averageSurprisePercent ?? 0) >= HIGH_RISK_SURPRISE_PERCENT;
+    const surprise = earnings.averageSurprisePercent !== null
+      ? `; average EPS surprise ${earnings.averageSurprisePercent.toFixed(1)}%`
+      : '';
+
+    return {
+      type: 'earnings',
+      severity: high ? 'high' : 'medium',
+      description: `Earnings announcement on ${entry.date}${this.describeHour(entry.hour)}${surprise}`,
+      impact: high ? 0.25 : 0.15
+    };
+  }
+
+  private toCalendarEntry(earnings: TickerEarnings, today: string): EarningsCalendarEntry {
+    const next = earnings.next!;
+    const exchange = marketCalendar.exchangeForSymbol(next.symbol);
+
+    return {
+      ...next,
+      daysUntil: Math.max(0, daysBetween(today, next.date)),
+      tradingDaysUntil: next.date > today ? marketCalendar.tradingDaysBetween(addDays(today, 1), next.date, exchange) : 0,
+      lastSurprisePercent: earnings.history[0]?.epsSurprisePercent ?? null,
+      beatRate: earnings.beatRate
+    };
+  }
+
+  private describeHour(hour: EarningsHour): string {
+    if (hour === 'bmo') return ' before the open';
+    if (hour === 'amc') return ' after the close';
+    if (hour === 'dmh') return ' during market hours';
+    return '';
+  }
+
+  /**
+   * Reports inside the history and lookahead windows, oldest first
+   */
+  private async getEvents(provider: MarketDataProvider, symbol: string, today: string): Promise<EarningsEvent[]> {
+    const from = addDays(today, -HISTORY_DAYS);
+    const to = addDays(today, LOOKAHEAD_DAYS);
+
+    if (provider.name === 'replay') {
+      const calendar = await provider.getEarningsCalendar(symbol, from, to);
+      return this.merge([], calendar.map(toEarningsEvent), from, to);
+    }
+
+    let stored = await this.load(provider.name, symbol);
+    if (Date.now() - stored.fetchedAt >= this.ttl(stored, today)) {
+      const key = `${provider.name}/${symbol}`;
+      let refresh = this.refreshes.get(key);
+      if (!refresh) {
+        refresh = this.refresh(provider, stored, from, to).finally(() => this.refreshes.delete(key));
+        this.refreshes.set(key, refresh);
+      }
+      stored = await refresh;
+    }
+
+    return stored.events;
+  }
+
+  /**
+   * Short TTL while a report is due within a day or one in the last week has no actuals yet
+   */
+  private ttl(stored: EarningsFile, today: string): number {
+    const reporting = stored.events.some(event =>
+      event.epsActual === null && event.date >= addDays(today, -7) && event.date <= addDays(today, 1)
+    );
+    return reporting ? REPORTING_TTL_MS : REFRESH_TTL_MS;
+  }
+
+  /**
+   * Fetch the calendar window; a failed fetch keeps the stored reports and is retried after
+   * the next TTL
+   */
+  private async refresh(provider: MarketDataProvider, stored: EarningsFile, from: string, to: string): Promise<EarningsFile> {
+    let events = stored.events;
+    try {
+      const calendar = await provider.getEarningsCalendar(stored.symbol, from, to);
+      events = this.merge(
+        stored.events,
+        calendar.filter(entry => entry.symbol?.toUpperCase() === stored.symbol && entry.date).map(toEarningsEvent),
+        from,
+        to
+      );
+    } catch (error) {
+      console.error(`Earnings refresh for ${stored.symbol} failed, using stored calendar:`, error);
+      if (stored.fetchedAt === 0) throw error;
+    }
+
+    const updated: EarningsFile = { ...stored, events, fetchedAt: Date.now() };
+    this.calendars.set(`${provider.name}/${stored.symbol}`, updated);
+
+    try {
+      await this.save(updated);
+    } catch (error) {
+      console.error(`Failed to store earnings calendar for ${stored.symbol}:`, error);
+    }
+    return updated;
+  }
+
+  /**
+   * Stored reports outside [from, to] plus the fetched ones, one per date, oldest first
+   */
+  private merge(stored: EarningsEvent[], fetched: EarningsEvent[], from: string, to: string): EarningsEvent[] {
+    const byDate = new Map<string, EarningsEvent>();
+    stored.filter(event => event.date < from || event.date > to).forEach(event => byDate.set(event.date, event));
+    fetched.forEach(event => byDate.set(event.date, event));
+
+    return Array.from(byDate.values())
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(-MAX_STORED_EVENTS);
+  }
+
+  private nowMs(provider: MarketDataProvider): number {
+    return provider.name === 'replay' ? replayClock.now() : Date.now();
+  }
+
+  private today(provider: MarketDataProvider, symbol: string): string {
+    return marketCalendar.toExchangeDate(new Date(this.nowMs(provider)), marketCalendar.exchangeForSymbol(symbol));
+  }
+
+  private async load(providerName: string, symbol: string): Promise<EarningsFile> {
+    const key = `${providerName}/${symbol}`;
+    const cached = this.calendars.get(key);
+    if (cached) return cached;
+
+    const filePath = this.filePath(providerName, symbol);
+    let stored: EarningsFile = { version: FILE_VERSION, provider: providerName, symbol, events: [], fetchedAt: 0 };
+
+    if (existsSync(filePath)) {
+      try {
+        const parsed = JSON.parse(await fs.readFile(filePath, 'utf-8')) as EarningsFile;
+        if (parsed.version === FILE_VERSION && Array.isArray(parsed.events)) {
+          stored = parsed;
+        }
+      } catch (error) {
+        console.error(`Ignoring unreadable earnings file ${filePath}:`, error);
+      }
+    }
+
+    this.calendars.set(key, stored);
+    return stored;
+  }
+
+  private async save(stored: EarningsFile): Promise<void> {
+    const filePath = this.filePath(stored.provider, stored.symbol);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(stored));
+    await fs.rename(tempPath, filePath);
+  }
+
+  private filePath(providerName: string, symbol: string): string {
+    return path.join(this.baseDir, providerName, `${symbol.replace(/[^A-Za-z0-9._-]/g, '_')}.json`);
+  }
+}
+
+// Singleton instance
+export const earningsCalendarService = new EarningsCalendarService();
+export default earningsCalendarService;
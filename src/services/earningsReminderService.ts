@@ -0,0 +1,153 @@
+/**
+ * Earnings Reminder Service
+ * Pre-earnings reminders sent from the server, once per report
+ *
+ * Each user's reminder tickers (the stocks their dashboard holds) and the reports they have
+ * been reminded of are kept in EARNINGS_REMINDERS_DIR (default: data/earnings-reminders) as
+ * `<userId>.json`. stockPriceScheduler refreshes the earnings calendars of these tickers and
+ * the users' monitored positions a few times a day and hands the calendar to sendDue(),
+ * which dispatches one reminder per report within the user's lead time, whether or not any
+ * browser is open. A report is remembered until its date has passed.
+ */
+
+import path from 'path';
+import { EarningsCalendar, EarningsCalendarEntry } from '@/types';
+import { notificationDispatcher } from './notificationDispatcher';
+import { DEFAULT_EARNINGS_REMINDER_DAYS } from './notificationRouting';
+import { UserJsonStore } from './userJsonStore';
+
+export interface StoredEarningsReminders {
+  version: 1;
+  userId: string;
+  tickers: string[];
+  reminded: string[]; // reminderKey() of each report reminded
+  updatedAt: number;
+}
+
+const FILE_VERSION = 1;
+export const MAX_REMINDER_TICKERS = 100;
+
+function reminderKey(entry: Pick<EarningsCalendarEntry, 'symbol' | 'date'>): string {
+  return `${entry.symbol}|${entry.date}`;
+}
+
+function reminderText(entry: EarningsCalendarEntry): { title: string; message: string } {
+  const when = entry.daysUntil === 0 ? 'today' : entry.daysUntil === 1 ? 'tomorrow' : `in ${entry.daysUntil} days`;
+  const timing = entry.hour === 'bmo' ? ' before the open' : entry.hour === 'amc' ? ' after the close' : '';
+  const estimate = entry.epsEstimate !== null ? ` EPS estimate $${entry.epsEstimate.toFixed(2)}.` : '';
+  const surprise = entry.lastSurprisePercent !== null
+    ? ` Last quarter surprised by ${entry.lastSurprisePercent > 0 ? '+' : ''}${entry.lastSurprisePercent.toFixed(1)}%.`
+    : '';
+  return {
+    title: `Earnings ${when}: ${entry.symbol}`,
+    message: `${entry.symbol} reports on ${entry.date}${timing}.${estimate}${surprise}`
+  };
+}
+
+export class EarningsReminderService {
+  private store: UserJsonStore<StoredEarningsReminders>;
+
+  constructor(baseDir?: string) {
+    this.store = new UserJsonStore<StoredEarningsReminders>({
+      dir: path.resolve(baseDir ?? process.env.EARNINGS_REMINDERS_DIR ?? path.join(process.cwd(), 'data', 'earnings-reminders')),
+      label: 'earnings reminders',
+      empty: userId => ({ version: FILE_VERSION, userId, tickers: [], reminded: [], updatedAt: 0 }),
+      parse: parsed => parsed.version === FILE_VERSION && Array.isArray(parsed.tickers) && Array.isArray(parsed.reminded)
+        ? parsed
+        : null
+    });
+  }
+
+  async getTickers(userId: string): Promise<string[]> {
+    return (await this.store.get(userId)).tickers;
+  }
+
+  /**
+   * Replace the tickers a user is reminded about; symbols are upper-cased and de-duplicated
+   */
+  async setTickers(userId: string, tickers: string[]): Promise<string[]> {
+    const unique = Array.from(new Set(tickers.map(ticker => ticker.trim().toUpperCase()).filter(Boolean)));
+    return this.store.update(userId, stored => {
+      const unchanged = unique.length === stored.tickers.length && unique.every(ticker => stored.tickers.includes(ticker));
+      return { stored: unchanged ? null : { ...stored, tickers: unique }, result: unique };
+    });
+  }
+
+  /**
+   * Every stored user's reminder tickers
+   */
+  async getAllTickers(): Promise<Map<string, string[]>> {
+    const tickers = new Map<string, string[]>();
+    (await this.store.loadAll()).forEach(stored => {
+      if (stored.tickers.length > 0) tickers.set(stored.userId, stored.tickers);
+    });
+    return tickers;
+  }
+
+  /**
+   * Dispatch a reminder for every report in the calendar that one of the users' tickers has
+   * within their lead time and that they have not been reminded of; returns how many were sent
+   */
+  async sendDue(calendar: EarningsCalendar, tickersByUser: Map<string, string[]>): Promise<number> {
+    let sent = 0;
+    for (const [userId, tickers] of Array.from(tickersByUser.entries())) {
+      try {
+        const settings = await notificationDispatcher.getSettings(userId);
+        if (settings?.enableEarningsReminders === false) continue;
+
+        const leadDays = settings?.earningsReminderDays ?? DEFAULT_EARNINGS_REMINDER_DAYS;
+        const held = new Set(tickers.map(ticker => ticker.toUpperCase()));
+        const due = calendar.entries.filter(entry => held.has(entry.symbol) && entry.tradingDaysUntil <= leadDays);
+
+        for (const entry of due) {
+          if (!(await this.claim(userId, entry, calendar.from))) continue;
+          try {
+            await notificationDispatcher.dispatch({
+              userId,
+              type: 'earnings',
+              severity: 'warning',
+              ...reminderText(entry),
+              ticker: entry.symbol
+            });
+            sent++;
+          } catch (error) {
+            await this.release(userId, entry);
+            throw error;
+          }
+        }
+      } catch (error) {
+        console.error(`Error sending earnings reminders for user ${userId}:`, error);
+      }
+    }
+    return sent;
+  }
+
+  /**
+   * Record that the user is being reminded of a report; false when they already were. Reports
+   * dated before `today` are forgotten.
+   */
+  private claim(userId: string, entry: EarningsCalendarEntry, today: string): Promise<boolean> {
+    const key = reminderKey(entry);
+    return this.store.update(userId, stored => {
+      if (stored.reminded.includes(key)) return { stored: null, result: false };
+      const current = stored.reminded.filter(reminded => reminded.split('|')[1] >= today);
+      return { stored: { ...stored, reminded: [...current, key] }, result: true };
+    });
+  }
+
+  private async release(userId: string, entry: EarningsCalendarEntry): Promise<void> {
+    const key = reminderKey(entry);
+    await this.store.update(userId, stored => ({
+      stored: { ...stored, reminded: stored.reminded.filter(reminded => reminded !== key) },
+      result: undefined
+    }));
+  }
+}
+
+// Global singleton guard: the scheduler and the API routes must share one store cache
+const globalAny = global as any;
+if (!globalAny.__EARNINGS_REMINDER_SINGLETON__) {
+  globalAny.__EARNINGS_REMINDER_SINGLETON__ = { instance: new EarningsReminderService() };
+}
+export const earningsReminderService = globalAny.__EARNINGS_REMINDER_SINGLETON__.instance as EarningsReminderService;
+export default earningsReminderService;
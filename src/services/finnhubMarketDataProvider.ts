@@ -0,0 +1,164 @@
+/**
+ * Finnhub Market Data Provider
+ * REST implementation of the MarketDataProvider contract
+ *
+ * Every request is released by the shared rate-limit governor at the priority this
+ * instance was created with (see withPriority) and recorded in the usage ledger.
+ */
+
+import {
+  MarketDataProvider,
+  MarketDataProviderError,
+  ProviderBasicFinancials,
+  ProviderCandles,
+  ProviderCompanyProfile,
+  ProviderDividend,
+  ProviderEarningsEntry,
+  ProviderNewsArticle,
+  ProviderQuote,
+  ProviderRequestContext,
+  ProviderSearchResult,
+  ProviderSplit
+} from './marketDataProvider';
+import { finnhubGovernor, RateLimitGovernor, RequestPriority } from './rateLimitGovernor';
+import { usageLedger } from './usageLedger';
+
+const PLACEHOLDER_KEYS = ['your_finnhub_api_key', 'your_finnhub_api_key_here', 'your_finnhub_key_here'];
+
+export class FinnhubMarketDataProvider implements MarketDataProvider {
+  public readonly name = 'finnhub' as const;
+  private apiKey: string;
+  private baseUrl: string;
+  public readonly context: ProviderRequestContext;
+  private governor: RateLimitGovernor;
+
+  constructor(
+    apiKey?: string,
+    baseUrl?: string,
+    priority: RequestPriority = 'background',
+    governor: RateLimitGovernor = finnhubGovernor,
+    feature = 'unattributed'
+  ) {
+    this.apiKey = apiKey ?? process.env.FINNHUB_API_KEY ?? '';
+    this.baseUrl = baseUrl ?? process.env.FINNHUB_BASE_URL ?? 'https://finnhub.io/api/v1';
+    this.context = { priority, feature };
+    this.governor = governor;
+  }
+
+  withPriority(priority: RequestPriority, feature: string = this.context.feature): FinnhubMarketDataProvider {
+    return new FinnhubMarketDataProvider(this.apiKey, this.baseUrl, priority, this.governor, feature);
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey && !PLACEHOLDER_KEYS.includes(this.apiKey);
+  }
+
+  async getQuote(symbol: string): Promise<ProviderQuote> {
+    return this.request<ProviderQuote>('/quote', { symbol });
+  }
+
+  async getCandles(symbol: string, resolution: string, from: number, to: number): Promise<ProviderCandles> {
+    const data = await this.request<ProviderCandles>('/stock/candle', {
+      symbol,
+      resolution,
+      from: String(from),
+      to: String(to)
+    });
+
+    // Finnhub omits the arrays entirely when there is no data
+    return {
+      s: data.s,
+      c: data.c || [],
+      h: data.h || [],
+      l: data.l || [],
+      o: data.o || [],
+      t: data.t || [],
+      v: data.v || []
+    };
+  }
+
+  async getCompanyProfile(symbol: string): Promise<ProviderCompanyProfile> {
+    return this.request<ProviderCompanyProfile>('/stock/profile2', { symbol });
+  }
+
+  async getBasicFinancials(symbol: string): Promise<ProviderBasicFinancials> {
+    const data = await this.request<{ metric?: ProviderBasicFinancials }>('/stock/metric', {
+      symbol,
+      metric: 'all'
+    });
+    return data.metric || {};
+  }
+
+  async getEarningsCalendar(symbol: string, from: string, to: string): Promise<ProviderEarningsEntry[]> {
+    const data = await this.request<{ earningsCalendar?: ProviderEarningsEntry[] }>('/calendar/earnings', {
+      from,
+      to,
+      symbol
+    });
+    return data.earningsCalendar || [];
+  }
+
+  async getSplits(symbol: string, from: string, to: string): Promise<ProviderSplit[]> {
+    const data = await this.request<ProviderSplit[]>('/stock/split', { symbol, from, to });
+    return Array.isArray(data) ? data : [];
+  }
+
+  async getDividends(symbol: string, from: string, to: string): Promise<ProviderDividend[]> {
+    const data = await this.request<ProviderDividend[]>('/stock/dividend', { symbol, from, to });
+    return Array.isArray(data) ? data : [];
+  }
+
+  async getCompanyNews(symbol: string, from: string, to: string): Promise<ProviderNewsArticle[]> {
+    const data = await this.request<ProviderNewsArticle[]>('/company-news', { symbol, from, to });
+    return Array.isArray(data) ? data : [];
+  }
+
+  async searchSymbols(query: string): Promise<ProviderSearchResult[]> {
+    const data = await this.request<{ result?: ProviderSearchResult[] }>('/search', { q: query });
+    return data.result || [];
+  }
+
+  /**
+   * Perform an authenticated GET against the Finnhub REST API through the governor
+   */
+  private request<T>(path: string, params: Record<string, string>): Promise<T> {
+    return this.governor.schedule(() => this.send<T>(path, params), this.context.priority);
+  }
+
+  private async send<T>(path: string, params: Record<string, string>): Promise<T> {
+    const query = new URLSearchParams({ ...params, token: this.apiKey });
+    const startedAt = Date.now();
+    let status = 0;
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}?${query.toString()}`, {
+        headers: {
+          'X-Finnhub-Token': this.apiKey,
+        },
+      });
+      status = response.status;
+
+      if (!response.ok) {
+        const message = response.status === 429
+          ? 'API rate limit exceeded'
+          : `Finnhub request to ${path} failed: ${response.status} ${response.statusText}`;
+        throw new MarketDataProviderError(message, response.status, this.name);
+      }
+
+      return await (response.json() as Promise<T>);
+    } finally {
+      usageLedger.record({
+        service: this.name,
+        feature: this.context.feature,
+        priority: this.context.priority,
+        endpoint: path,
+        ticker: params.symbol?.toUpperCase(),
+        latencyMs: Date.now() - startedAt,
+        status,
+        cacheHit: false
+      });
+    }
+  }
+}
+
+export default FinnhubMarketDataProvider;
@@ -1,29 +1,32 @@
 /**
  * Historical Price Service for Date/Time-Based Stock Monitoring
  * Fetches historical prices and manages position-based alerts
+ *
+ * Candles are stored as traded; splits after a position's reference date are folded into
+ * its reference price, quantity and thresholds so alerts and P&L compare like with like.
+ * A position's thresholds and alert settings (trailing stop, daily move, gap and 52-week
+ * range) are one alert engine alert, kept in step whenever they change; position alerts are
+ * that alert's trigger history.
  */
 
 import { HistoricalPriceRequest, HistoricalPriceData, StockPosition, PositionAlert, DateTimeCandle } from '@/types';
+import { ProviderCandles } from './marketDataProvider';
+import { candleStore } from './candleStore';
+import { corporateActionService, exDateSeconds, splitFactor, splitsBetween } from './corporateActionService';
+import { getMarketDataProvider } from './marketDataProviderConfig';
+import { marketCalendar } from './marketCalendar';
+import { alertEngineService } from './alertEngineService';
+import { toPositionAlert } from './alertEngine';
 
-interface FinnhubCandleResponse {
-  c: number[]; // Close prices
-  h: number[]; // High prices
-  l: number[]; // Low prices
-  o: number[]; // Open prices
-  t: number[]; // Timestamps
-  v: number[]; // Volumes
-  s: string;   // Status
-}
+type FinnhubCandleResponse = ProviderCandles;
+
+export type PositionAlertSettings = Pick<
+  StockPosition,
+  'trailingStopPercent' | 'trailingStopAtr' | 'moveAlertPercent' | 'gapAlertPercent' | 'yearRangeAlerts'
+>;
 
 class HistoricalPriceService {
-  private apiKey: string;
-  private baseUrl = 'https://finnhub.io/api/v1';
   private positionsCache = new Map<string, StockPosition>();
-  private alertsCache = new Map<string, PositionAlert[]>();
-
-  constructor() {
-    this.apiKey = process.env.FINNHUB_API_KEY || 'd2ojf0pr01qga5g9iob0d2ojf0pr01qga5g9iobg';
-  }
 
   /**
    * Fetch historical price for a specific date and time
@@ -39,24 +42,18 @@ class HistoricalPriceService {
 
       // Parse the requested date and time
       const requestedDateTime = this.parseDateTime(date, time);
-      
-      // Calculate the date range for API query (get data for the whole day)
-      const startOfDay = new Date(requestedDateTime);
-      startOfDay.setHours(0, 0, 0, 0);
-      
-      const endOfDay = new Date(requestedDateTime);
-      endOfDay.setHours(23, 59, 59, 999);
 
-      // Convert to Unix timestamps
-      const from = Math.floor(startOfDay.getTime() / 1000);
-      const to = Math.floor(endOfDay.getTime() / 1000);
+      // The price in effect at that moment comes from the exchange session that had opened by
+      // then: before the open, on weekends and holidays that is the previous trading day's close
+      const exchange = marketCalendar.exchangeForSymbol(ticker);
+      const sessionDate = marketCalendar.sessionDateAt(requestedDateTime, exchange);
 
-      // Fetch candle data from Finnhub
-      const candleData = await this.fetchCandleData(ticker, from, to, 'D'); // Daily resolution
+      // Fetch the daily candle for that session
+      const candleData = await this.fetchSessionCandle(ticker, sessionDate);
 
       if (!candleData || candleData.s !== 'ok' || !candleData.c || candleData.c.length === 0) {
-        // Try with different resolution or previous trading day
-        return await this.fallbackHistoricalPrice(request, requestedDateTime);
+        // No bar for that session yet (e.g. provider lag): walk back through earlier sessions
+        return await this.fallbackHistoricalPrice(request, requestedDateTime, sessionDate);
       }
 
       // Find the closest price to the requested time
@@ -68,12 +65,14 @@ class HistoricalPriceService {
 
       const price = closestCandle.close;
       const totalValue = price * quantity;
+      const actualDateTime = new Date(closestCandle.timestamp * 1000);
 
       const historicalData: HistoricalPriceData = {
         ticker,
         requestedDateTime,
-        actualDateTime: new Date(closestCandle.timestamp * 1000),
+        actualDateTime,
         price,
+        adjustedPrice: price / await this.splitFactorSince(ticker, actualDateTime),
         quantity,
         totalValue,
         volume: closestCandle.volume,
@@ -92,7 +91,7 @@ class HistoricalPriceService {
   }
 
   /**
-   * Fetch candle data from Finnhub API
+   * Fetch candle data through the persistent candle store (backfills missing ranges only)
    */
   private async fetchCandleData(
     ticker: string, 
@@ -101,26 +100,35 @@ class HistoricalPriceService {
     resolution: string = 'D'
   ): Promise<FinnhubCandleResponse | null> {
     try {
-      const url = `${this.baseUrl}/stock/candle?symbol=${ticker}&resolution=${resolution}&from=${from}&to=${to}&token=${this.apiKey}`;
-      
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        if (response.status === 429) {
-          throw new Error('API rate limit exceeded');
-        }
-        throw new Error(`API request failed: ${response.status}`);
-      }
-
-      const data: FinnhubCandleResponse = await response.json();
-      return data;
-
+      const { candles } = await candleStore.getCandles(ticker, resolution, from, to, getMarketDataProvider('interactive', 'positions'));
+      return candles;
     } catch (error) {
       console.error('Error fetching candle data:', error);
       return null;
     }
   }
 
+  /**
+   * Daily candle of one exchange session (daily bars are stamped at 00:00 UTC of their date)
+   */
+  private async fetchSessionCandle(ticker: string, sessionDate: string): Promise<FinnhubCandleResponse | null> {
+    const from = exDateSeconds(sessionDate);
+    return this.fetchCandleData(ticker, from, from + 86399, 'D');
+  }
+
+  /**
+   * Combined ratio of the splits since a date (1 when there were none or actions are unavailable)
+   */
+  private async splitFactorSince(ticker: string, since: Date): Promise<number> {
+    try {
+      const actions = await corporateActionService.getActions(ticker, getMarketDataProvider('interactive', 'positions'));
+      return splitFactor(actions, Math.floor(since.getTime() / 1000), Math.floor(Date.now() / 1000));
+    } catch (error) {
+      console.error(`Error loading corporate actions for ${ticker}:`, error);
+      return 1;
+    }
+  }
+
   /**
    * Parse date and time strings into a Date object
    */
@@ -140,18 +148,16 @@ class HistoricalPriceService {
   }
 
   /**
-   * Find the closest candle to the requested time
+   * Find the closest candle to the requested time: the latest one that had started by then,
+   * or the first one when the whole series is later
    */
   private findClosestCandle(candleData: FinnhubCandleResponse, targetDateTime: Date): DateTimeCandle | null {
+    if (candleData.t.length === 0) return null;
     const targetTimestamp = Math.floor(targetDateTime.getTime() / 1000);
     
     let closestIndex = 0;
-    let closestDiff = Math.abs(candleData.t[0] - targetTimestamp);
-    
     for (let i = 1; i < candleData.t.length; i++) {
-      const diff = Math.abs(candleData.t[i] - targetTimestamp);
-      if (diff < closestDiff) {
-        closestDiff = diff;
+      if (candleData.t[i] <= targetTimestamp) {
         closestIndex = i;
       }
     }
@@ -171,28 +177,30 @@ class HistoricalPriceService {
    */
   private async fallbackHistoricalPrice(
     request: HistoricalPriceRequest, 
-    requestedDateTime: Date
+    requestedDateTime: Date,
+    sessionDate: string
   ): Promise<HistoricalPriceData | null> {
     try {
-      // Try previous trading days (up to 7 days back)
-      for (let daysBack = 1; daysBack <= 7; daysBack++) {
-        const fallbackDate = new Date(requestedDateTime);
-        fallbackDate.setDate(fallbackDate.getDate() - daysBack);
-        
-        const from = Math.floor(fallbackDate.getTime() / 1000);
-        const to = from + 86400; // 24 hours
+      const exchange = marketCalendar.exchangeForSymbol(request.ticker);
+      let fallbackDate = sessionDate;
+
+      // Try previous trading days (up to 7 sessions back)
+      for (let sessionsBack = 1; sessionsBack <= 7; sessionsBack++) {
+        fallbackDate = marketCalendar.previousTradingDay(fallbackDate, exchange);
         
-        const candleData = await this.fetchCandleData(request.ticker, from, to, 'D');
+        const candleData = await this.fetchSessionCandle(request.ticker, fallbackDate);
         
         if (candleData && candleData.s === 'ok' && candleData.c && candleData.c.length > 0) {
           const price = candleData.c[candleData.c.length - 1]; // Last available price
           const totalValue = price * request.quantity;
+          const actualDateTime = new Date(candleData.t[candleData.t.length - 1] * 1000);
           
           return {
             ticker: request.ticker,
             requestedDateTime,
-            actualDateTime: new Date(candleData.t[candleData.t.length - 1] * 1000),
+            actualDateTime,
             price,
+            adjustedPrice: price / await this.splitFactorSince(request.ticker, actualDateTime),
             quantity: request.quantity,
             totalValue,
             volume: candleData.v[candleData.v.length - 1],
@@ -218,7 +226,8 @@ class HistoricalPriceService {
     userId: string,
     historicalData: HistoricalPriceData,
     upperThreshold?: number,
-    lowerThreshold?: number
+    lowerThreshold?: number,
+    alertSettings: PositionAlertSettings = {}
   ): Promise<StockPosition> {
     const position: StockPosition = {
       id: `pos_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -230,16 +239,24 @@ class HistoricalPriceService {
       totalValue: historicalData.totalValue,
       upperThreshold,
       lowerThreshold,
+      ...alertSettings,
       isMonitoring: true,
       createdAt: new Date(),
-      alerts: []
+      alerts: [],
+      originalReferencePrice: historicalData.price,
+      originalQuantity: historicalData.quantity,
+      appliedSplits: []
     };
 
+    // Restate in today's share terms when the stock has split since the reference date
+    await this.applySplits(position);
+
     // Cache the position
     this.positionsCache.set(position.id, position);
     
     // Save to database (you might want to implement this based on your DB choice)
     await this.savePositionToDatabase(position);
+    await alertEngineService.syncPositionAlert(position);
     
     return position;
   }
@@ -260,12 +277,63 @@ class HistoricalPriceService {
   }
 
   /**
-   * Update position thresholds
+   * Every user's stock positions
+   */
+  public getAllPositions(): StockPosition[] {
+    return Array.from(this.positionsCache.values());
+  }
+
+  /**
+   * Fold splits ingested since the positions were last checked into their reference
+   * price, quantity and thresholds
+   */
+  public async applyCorporateActions(positions: StockPosition[]): Promise<StockPosition[]> {
+    await Promise.all(positions.map(async position => {
+      try {
+        if (await this.applySplits(position)) {
+          await this.savePositionToDatabase(position);
+          await alertEngineService.syncPositionAlert(position);
+        }
+      } catch (error) {
+        console.error(`Error applying corporate actions to position ${position.id}:`, error);
+      }
+    }));
+    return positions;
+  }
+
+  /**
+   * Apply splits after the reference date that the position has not absorbed yet.
+   * Value is unchanged: the price divides by the ratio and the quantity multiplies by it.
+   */
+  private async applySplits(position: StockPosition): Promise<boolean> {
+    const actions = await corporateActionService.getActions(position.ticker);
+    const applied = new Set((position.appliedSplits || []).map(split => split.exDate));
+    const pending = splitsBetween(
+      actions,
+      Math.floor(new Date(position.referenceDate).getTime() / 1000),
+      Math.floor(Date.now() / 1000)
+    ).filter(split => !applied.has(split.exDate));
+
+    if (pending.length === 0) return false;
+
+    for (const split of pending) {
+      position.referencePrice /= split.ratio;
+      position.quantity *= split.ratio;
+      if (position.upperThreshold) position.upperThreshold /= split.ratio;
+      if (position.lowerThreshold) position.lowerThreshold /= split.ratio;
+    }
+    position.appliedSplits = [...(position.appliedSplits || []), ...pending];
+    return true;
+  }
+
+  /**
+   * Update position thresholds and alert settings; settings that are not given are cleared
    */
   public async updatePositionThresholds(
     positionId: string,
     upperThreshold?: number,
-    lowerThreshold?: number
+    lowerThreshold?: number,
+    alertSettings: PositionAlertSettings = {}
   ): Promise<boolean> {
     const position = this.positionsCache.get(positionId);
     
@@ -275,169 +343,33 @@ class HistoricalPriceService {
     
     position.upperThreshold = upperThreshold;
     position.lowerThreshold = lowerThreshold;
+    position.trailingStopPercent = alertSettings.trailingStopPercent;
+    position.trailingStopAtr = alertSettings.trailingStopAtr;
+    position.moveAlertPercent = alertSettings.moveAlertPercent;
+    position.gapAlertPercent = alertSettings.gapAlertPercent;
+    position.yearRangeAlerts = alertSettings.yearRangeAlerts;
     position.lastChecked = new Date();
     
     // Update in database
     await this.savePositionToDatabase(position);
+    await alertEngineService.syncPositionAlert(position);
     
     return true;
   }
 
-  /**
-   * Check position alerts against current prices
-   */
-  public async checkPositionAlerts(positions: StockPosition[], currentPrices: Map<string, number>): Promise<PositionAlert[]> {
-    const newAlerts: PositionAlert[] = [];
-    
-    for (const position of positions) {
-      if (!position.isMonitoring) continue;
-      
-      const currentPrice = currentPrices.get(position.ticker);
-      if (!currentPrice) continue;
-      
-      // Check upper threshold breach
-      if (position.upperThreshold && currentPrice >= position.upperThreshold) {
-        const alert = await this.createPositionAlert(
-          position,
-          'UPPER_BREACH',
-          currentPrice,
-          position.upperThreshold
-        );
-        newAlerts.push(alert);
-      }
-      
-      // Check lower threshold breach
-      if (position.lowerThreshold && currentPrice <= position.lowerThreshold) {
-        const alert = await this.createPositionAlert(
-          position,
-          'LOWER_BREACH',
-          currentPrice,
-          position.lowerThreshold
-        );
-        newAlerts.push(alert);
-      }
-      
-      // Update last checked time
-      position.lastChecked = new Date();
-    }
-    
-    return newAlerts;
-  }
-
-  /**
-   * Create a position alert
-   */
-  private async createPositionAlert(
-    position: StockPosition,
-    alertType: 'UPPER_BREACH' | 'LOWER_BREACH',
-    triggerPrice: number,
-    threshold: number
-  ): Promise<PositionAlert> {
-    const alert: PositionAlert = {
-      id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      positionId: position.id,
-      userId: position.userId,
-      ticker: position.ticker,
-      alertType,
-      triggerPrice,
-      referencePrice: position.referencePrice,
-      threshold,
-      triggeredAt: new Date(),
-      isRead: false,
-      notificationSent: false
-    };
-    
-    // Add to position alerts
-    position.alerts.push(alert);
-    
-    // Cache the alert
-    const userAlerts = this.alertsCache.get(position.userId) || [];
-    userAlerts.push(alert);
-    this.alertsCache.set(position.userId, userAlerts);
-    
-    // Save to database
-    await this.saveAlertToDatabase(alert);
-    
-    // Send notification
-    await this.sendPositionAlert(alert);
-    
-    return alert;
-  }
-
-  /**
-   * Send position alert notification
-   */
-  private async sendPositionAlert(alert: PositionAlert): Promise<void> {
-    try {
-      // Import notification service dynamically
-      const { notificationDB } = await import('./notificationDatabase');
-      
-      const notification = {
-        id: `pos_alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        userId: alert.userId,
-        title: `Position Alert: ${alert.ticker}`,
-        message: this.generateAlertMessage(alert),
-        type: 'ALERT' as const,
-        ticker: alert.ticker,
-        currentPrice: alert.triggerPrice,
-        targetPrice: alert.threshold,
-        timestamp: new Date(),
-        isRead: false,
-        isPush: true,
-        isWhatsApp: true
-      };
-
-      await notificationDB.addNotification(notification);
-      
-      // Send WhatsApp notification
-      try {
-        const { whatsAppService } = await import('./whatsappService');
-        // You'll need to implement a position alert method in WhatsApp service
-        // await whatsAppService.sendPositionAlert(alert);
-      } catch (error) {
-        console.error('Failed to send WhatsApp position alert:', error);
-      }
-
-      alert.notificationSent = true;
-      
-    } catch (error) {
-      console.error('Failed to send position alert:', error);
-    }
-  }
-
-  /**
-   * Generate alert message
-   */
-  private generateAlertMessage(alert: PositionAlert): string {
-    const direction = alert.alertType === 'UPPER_BREACH' ? 'above' : 'below';
-    const thresholdText = alert.alertType === 'UPPER_BREACH' ? 'upper' : 'lower';
-    
-    return `${alert.ticker} is now ${direction} your ${thresholdText} threshold!\n` +
-           `Current Price: $${alert.triggerPrice.toFixed(2)}\n` +
-           `Threshold: $${alert.threshold.toFixed(2)}\n` +
-           `Reference Price: $${alert.referencePrice.toFixed(2)}`;
-  }
-
   /**
    * Get position alerts for user
    */
-  public getUserAlerts(userId: string): PositionAlert[] {
-    return this.alertsCache.get(userId) || [];
+  public async getUserAlerts(userId: string): Promise<PositionAlert[]> {
+    const triggers = await alertEngineService.getTriggers(userId, { source: 'position' });
+    return triggers.map(toPositionAlert);
   }
 
   /**
    * Mark alert as read
    */
   public async markAlertAsRead(alertId: string): Promise<boolean> {
-    for (const [userId, alerts] of this.alertsCache.entries()) {
-      const alert = alerts.find(a => a.id === alertId);
-      if (alert) {
-        alert.isRead = true;
-        await this.saveAlertToDatabase(alert);
-        return true;
-      }
-    }
-    return false;
+    return alertEngineService.markTriggerRead(alertId);
   }
 
   /**
@@ -451,6 +383,7 @@ class HistoricalPriceService {
     
     // Remove from database
     await this.deletePositionFromDatabase(positionId);
+    await alertEngineService.removePositionAlert(position.userId, positionId);
     
     return true;
   }
@@ -490,11 +423,6 @@ class HistoricalPriceService {
     console.log('Saving position to database:', position.id);
   }
 
-  private async saveAlertToDatabase(alert: PositionAlert): Promise<void> {
-    // Implement based on your database choice
-    console.log('Saving alert to database:', alert.id);
-  }
-
   private async deletePositionFromDatabase(positionId: string): Promise<void> {
     // Implement based on your database choice
     console.log('Deleting position from database:', positionId);
@@ -503,15 +431,16 @@ class HistoricalPriceService {
   /**
    * Get service statistics
    */
-  public getStats(): {
+  public async getStats(): Promise<{
     totalPositions: number;
     activePositions: number;
     totalAlerts: number;
     unreadAlerts: number;
-  } {
+  }> {
     const totalPositions = this.positionsCache.size;
     const activePositions = Array.from(this.positionsCache.values()).filter(p => p.isMonitoring).length;
-    const allAlerts = Array.from(this.alertsCache.values()).flat();
+    const userIds = Array.from(new Set(Array.from(this.positionsCache.values()).map(p => p.userId)));
+    const allAlerts = (await Promise.all(userIds.map(userId => this.getUserAlerts(userId)))).flat();
     const totalAlerts = allAlerts.length;
     const unreadAlerts = allAlerts.filter(a => !a.isRead).length;
     
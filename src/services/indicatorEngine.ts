@@ -0,0 +1,639 @@
+/**
+ * Indicator Engine
+ * Parameterised technical indicators computed as full series over OHLCV bars
+ *
+ * Every function returns one value per input bar, with null for bars inside the
+ * indicator's warm-up window, so results can be overlaid on a chart index for index.
+ * Histories shorter than the warm-up simply yield all-null series; nothing throws.
+ * Indicators are registered in INDICATORS with their defaults, outputs and chart pane,
+ * and composed on top of the same primitives (SMA, EMA, Wilder smoothing, rolling
+ * extremes, true range). Pure functions only, so the engine runs in the browser too.
+ */
+
+import { ChartDataPoint, IndicatorId, IndicatorPane, IndicatorRequest, IndicatorResult } from '@/types';
+import type { ProviderCandles } from './marketDataProvider';
+
+export type IndicatorSeries = (number | null)[];
+
+export interface IndicatorInput {
+  open: number[];
+  high: number[];
+  low: number[];
+  close: number[];
+  volume: number[];
+  time?: number[]; // Unix seconds; lets VWAP reset at each session
+}
+
+export interface IndicatorDefinition {
+  id: IndicatorId;
+  name: string;
+  pane: IndicatorPane;
+  defaults: Record<string, number>; // Parameter order here is the positional order in specs
+  outputs: string[];
+  warmup: (params: Record<string, number>) => number; // Bars before the first complete value
+  compute: (input: IndicatorInput, params: Record<string, number>) => Record<string, IndicatorSeries>;
+}
+
+export class IndicatorSpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IndicatorSpecError';
+  }
+}
+
+// Longest indicator length accepted; longer ones would pull years of warm-up history
+export const MAX_INDICATOR_PERIOD = 1000;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export function toIndicatorInput(data: ChartDataPoint[]): IndicatorInput {
+  return {
+    open: data.map(point => point.open),
+    high: data.map(point => point.high),
+    low: data.map(point => point.low),
+    close: data.map(point => point.close),
+    volume: data.map(point => point.volume),
+    time: data.map(point => Math.floor(Date.parse(point.timestamp) / 1000))
+  };
+}
+
+export function candlesToIndicatorInput(candles: ProviderCandles): IndicatorInput {
+  return { open: candles.o, high: candles.h, low: candles.l, close: candles.c, volume: candles.v, time: candles.t };
+}
+
+/**
+ * Most recent non-null value of a series
+ */
+export function lastValue(series: IndicatorSeries): number | null {
+  for (let i = series.length - 1; i >= 0; i--) {
+    const value = series[i];
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+// ===== PRIMITIVES =====
+
+function emptySeries(length: number): IndicatorSeries {
+  return new Array<number | null>(length).fill(null);
+}
+
+function clean(value: number): number | null {
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Simple moving average; a window containing a null yields null
+ */
+export function sma(values: IndicatorSeries, period: number): IndicatorSeries {
+  const result = emptySeries(values.length);
+  if (period < 1) return result;
+
+  let sum = 0;
+  let nulls = 0;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) nulls++;
+    else sum += value;
+
+    if (i >= period) {
+      const dropped = values[i - period];
+      if (dropped === null) nulls--;
+      else sum -= dropped;
+    }
+    if (i >= period - 1 && nulls === 0) result[i] = clean(sum / period);
+  }
+  return result;
+}
+
+/**
+ * Recursive average seeded with the SMA of the first complete window; restarts after a gap
+ */
+function smoothed(values: IndicatorSeries, period: number, alpha: number): IndicatorSeries {
+  const result = emptySeries(values.length);
+  if (period < 1) return result;
+
+  let previous: number | null = null;
+  let run = 0;
+  let runSum = 0;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) {
+      previous = null;
+      run = 0;
+      runSum = 0;
+      continue;
+    }
+
+    if (previous === null) {
+      run++;
+      runSum += value;
+      if (run === period) {
+        previous = runSum / period;
+        result[i] = clean(previous);
+      }
+      continue;
+    }
+
+    previous = value * alpha + previous * (1 - alpha);
+    result[i] = clean(previous);
+  }
+  return result;
+}
+
+/**
+ * Exponential moving average (multiplier 2 / (period + 1))
+ */
+export function ema(values: IndicatorSeries, period: number): IndicatorSeries {
+  return smoothed(values, period, 2 / (period + 1));
+}
+
+/**
+ * Wilder's smoothing (RMA), as used by RSI, ATR and ADX
+ */
+export function wilder(values: IndicatorSeries, period: number): IndicatorSeries {
+  return smoothed(values, period, 1 / period);
+}
+
+export function rollingMax(values: number[], period: number): IndicatorSeries {
+  return values.map((_, i) => (i >= period - 1 ? Math.max(...values.slice(i - period + 1, i + 1)) : null));
+}
+
+export function rollingMin(values: number[], period: number): IndicatorSeries {
+  return values.map((_, i) => (i >= period - 1 ? Math.min(...values.slice(i - period + 1, i + 1)) : null));
+}
+
+/**
+ * Population standard deviation over a rolling window
+ */
+export function rollingStdDev(values: number[], period: number): IndicatorSeries {
+  const means = sma(values, period);
+  return values.map((_, i) => {
+    const mean = means[i];
+    if (mean === null) return null;
+    const window = values.slice(i - period + 1, i + 1);
+    return Math.sqrt(window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period);
+  });
+}
+
+export function trueRange(input: IndicatorInput): number[] {
+  return input.close.map((_, i) => {
+    const range = input.high[i] - input.low[i];
+    if (i === 0) return range;
+    const previousClose = input.close[i - 1];
+    return Math.max(range, Math.abs(input.high[i] - previousClose), Math.abs(input.low[i] - previousClose));
+  });
+}
+
+function typicalPrice(input: IndicatorInput): number[] {
+  return input.close.map((close, i) => (input.high[i] + input.low[i] + close) / 3);
+}
+
+function combine(a: IndicatorSeries, b: IndicatorSeries, op: (x: number, y: number) => number): IndicatorSeries {
+  return a.map((x, i) => {
+    const y = b[i];
+    return x === null || y === null ? null : clean(op(x, y));
+  });
+}
+
+// ===== INDICATORS =====
+
+export function rsi(close: number[], period = 14): IndicatorSeries {
+  const changes: IndicatorSeries = close.map((price, i) => (i === 0 ? null : price - close[i - 1]));
+  const avgGain = wilder(changes.map(change => (change === null ? null : Math.max(change, 0))), period);
+  const avgLoss = wilder(changes.map(change => (change === null ? null : Math.max(-change, 0))), period);
+  return combine(avgGain, avgLoss, (gain, loss) => (loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss)));
+}
+
+export function macd(close: number[], fast = 12, slow = 26, signalPeriod = 9): Record<'line' | 'signal' | 'histogram', IndicatorSeries> {
+  const line = combine(ema(close, fast), ema(close, slow), (f, s) => f - s);
+  const signal = ema(line, signalPeriod);
+  return { line, signal, histogram: combine(line, signal, (l, s) => l - s) };
+}
+
+export function bollinger(close: number[], period = 20, deviations = 2): Record<'upper' | 'middle' | 'lower', IndicatorSeries> {
+  const middle = sma(close, period);
+  const spread = rollingStdDev(close, period);
+  return {
+    upper: combine(middle, spread, (m, sd) => m + sd * deviations),
+    middle,
+    lower: combine(middle, spread, (m, sd) => m - sd * deviations)
+  };
+}
+
+export function atr(input: IndicatorInput, period = 14): IndicatorSeries {
+  return wilder(trueRange(input), period);
+}
+
+/**
+ * Slow stochastic: %K is the raw stochastic smoothed over kSmoothing bars, %D its SMA
+ */
+export function stochastic(
+  input: IndicatorInput,
+  kPeriod = 14,
+  kSmoothing = 3,
+  dPeriod = 3
+): Record<'k' | 'd', IndicatorSeries> {
+  const highest = rollingMax(input.high, kPeriod);
+  const lowest = rollingMin(input.low, kPeriod);
+  const raw = input.close.map((close, i) => {
+    const high = highest[i];
+    const low = lowest[i];
+    if (high === null || low === null) return null;
+    return high === low ? 50 : (100 * (close - low)) / (high - low);
+  });
+  const k = kSmoothing > 1 ? sma(raw, kSmoothing) : raw;
+  return { k, d: sma(k, dPeriod) };
+}
+
+/**
+ * Average Directional Index with the +DI / -DI lines it is built from
+ */
+export function adx(input: IndicatorInput, period = 14): Record<'adx' | 'plusDI' | 'minusDI', IndicatorSeries> {
+  const plusDM: IndicatorSeries = [null];
+  const minusDM: IndicatorSeries = [null];
+  for (let i = 1; i < input.close.length; i++) {
+    const up = input.high[i] - input.high[i - 1];
+    const down = input.low[i - 1] - input.low[i];
+    plusDM.push(up > down && up > 0 ? up : 0);
+    minusDM.push(down > up && down > 0 ? down : 0);
+  }
+
+  const tr: IndicatorSeries = trueRange(input).map((range, i) => (i === 0 ? null : range));
+  const smoothedTR = wilder(tr, period);
+  const plusDI = combine(wilder(plusDM, period), smoothedTR, (dm, range) => (range === 0 ? 0 : (100 * dm) / range));
+  const minusDI = combine(wilder(minusDM, period), smoothedTR, (dm, range) => (range === 0 ? 0 : (100 * dm) / range));
+  const dx = combine(plusDI, minusDI, (plus, minus) => (plus + minus === 0 ? 0 : (100 * Math.abs(plus - minus)) / (plus + minus)));
+
+  return { adx: wilder(dx, period), plusDI, minusDI };
+}
+
+/**
+ * On-Balance Volume, starting from zero at the first bar
+ */
+export function obv(input: IndicatorInput): IndicatorSeries {
+  let total = 0;
+  return input.close.map((close, i) => {
+    if (i > 0) {
+      if (close > input.close[i - 1]) total += input.volume[i];
+      else if (close < input.close[i - 1]) total -= input.volume[i];
+    }
+    return total;
+  });
+}
+
+/**
+ * Volume-weighted average price. Intraday bars reset at each new UTC day (one US or
+ * London session); daily and longer bars accumulate over the whole series (anchored VWAP).
+ */
+export function vwap(input: IndicatorInput): IndicatorSeries {
+  const time = input.time;
+  const intraday = !!time && time.length > 1 && time[1] - time[0] < DAY_SECONDS;
+  const prices = typicalPrice(input);
+
+  let priceVolume = 0;
+  let volume = 0;
+  let session: number | null = null;
+  return prices.map((price, i) => {
+    if (intraday && time) {
+      const day = Math.floor(time[i] / DAY_SECONDS);
+      if (day !== session) {
+        session = day;
+        priceVolume = 0;
+        volume = 0;
+      }
+    }
+    priceVolume += price * input.volume[i];
+    volume += input.volume[i];
+    return volume > 0 ? priceVolume / volume : price;
+  });
+}
+
+/**
+ * Ichimoku Kinko Hyo. Values are placed where they are plotted: the cloud spans are shifted
+ * forward and the lagging span backward by `displacement` bars (projections past the last
+ * bar are dropped, so the last `displacement` chikou values are null).
+ */
+export function ichimoku(
+  input: IndicatorInput,
+  conversionPeriod = 9,
+  basePeriod = 26,
+  spanBPeriod = 52,
+  displacement = 26
+): Record<'tenkan' | 'kijun' | 'senkouA' | 'senkouB' | 'chikou', IndicatorSeries> {
+  const midpoint = (period: number) =>
+    combine(rollingMax(input.high, period), rollingMin(input.low, period), (high, low) => (high + low) / 2);
+  const shift = (series: IndicatorSeries, bars: number): IndicatorSeries =>
+    series.map((_, i) => series[i - bars] ?? null);
+
+  const tenkan = midpoint(conversionPeriod);
+  const kijun = midpoint(basePeriod);
+  return {
+    tenkan,
+    kijun,
+    senkouA: shift(combine(tenkan, kijun, (conversion, base) => (conversion + base) / 2), displacement),
+    senkouB: shift(midpoint(spanBPeriod), displacement),
+    chikou: shift(input.close, -displacement)
+  };
+}
+
+/**
+ * Keltner Channels: EMA of close ± multiplier × ATR
+ */
+export function keltner(
+  input: IndicatorInput,
+  period = 20,
+  multiplier = 2,
+  atrPeriod = 10
+): Record<'upper' | 'middle' | 'lower', IndicatorSeries> {
+  const middle = ema(input.close, period);
+  const range = atr(input, atrPeriod);
+  return {
+    upper: combine(middle, range, (m, r) => m + r * multiplier),
+    middle,
+    lower: combine(middle, range, (m, r) => m - r * multiplier)
+  };
+}
+
+/**
+ * Donchian Channels: highest high and lowest low over the period
+ */
+export function donchian(input: IndicatorInput, period = 20): Record<'upper' | 'middle' | 'lower', IndicatorSeries> {
+  const upper = rollingMax(input.high, period);
+  const lower = rollingMin(input.low, period);
+  return { upper, middle: combine(upper, lower, (high, low) => (high + low) / 2), lower };
+}
+
+/**
+ * Commodity Channel Index (Lambert's 0.015 constant)
+ */
+export function cci(input: IndicatorInput, period = 20): IndicatorSeries {
+  const prices = typicalPrice(input);
+  const means = sma(prices, period);
+  return prices.map((price, i) => {
+    const mean = means[i];
+    if (mean === null) return null;
+    const meanDeviation = prices.slice(i - period + 1, i + 1).reduce((sum, value) => sum + Math.abs(value - mean), 0) / period;
+    return meanDeviation === 0 ? 0 : (price - mean) / (0.015 * meanDeviation);
+  });
+}
+
+/**
+ * Williams %R, from -100 (at the period low) to 0 (at the period high)
+ */
+export function williamsR(input: IndicatorInput, period = 14): IndicatorSeries {
+  const highest = rollingMax(input.high, period);
+  const lowest = rollingMin(input.low, period);
+  return input.close.map((close, i) => {
+    const high = highest[i];
+    const low = lowest[i];
+    if (high === null || low === null) return null;
+    return high === low ? -50 : (-100 * (high - close)) / (high - low);
+  });
+}
+
+/**
+ * Money Flow Index: RSI-style oscillator on typical price × volume
+ */
+export function mfi(input: IndicatorInput, period = 14): IndicatorSeries {
+  const prices = typicalPrice(input);
+  const result = emptySeries(prices.length);
+
+  for (let i = period; i < prices.length; i++) {
+    let positive = 0;
+    let negative = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      const flow = prices[j] * input.volume[j];
+      if (prices[j] > prices[j - 1]) positive += flow;
+      else if (prices[j] < prices[j - 1]) negative += flow;
+    }
+    result[i] = negative === 0 ? (positive === 0 ? 50 : 100) : 100 - 100 / (1 + positive / negative);
+  }
+  return result;
+}
+
+// ===== REGISTRY =====
+
+export const INDICATORS: Record<IndicatorId, IndicatorDefinition> = {
+  sma: {
+    id: 'sma', name: 'Simple Moving Average', pane: 'price',
+    defaults: { period: 20 }, outputs: ['value'],
+    warmup: p => p.period - 1,
+    compute: (input, p) => ({ value: sma(input.close, p.period) })
+  },
+  ema: {
+    id: 'ema', name: 'Exponential Moving Average', pane: 'price',
+    defaults: { period: 20 }, outputs: ['value'],
+    warmup: p => p.period - 1,
+    compute: (input, p) => ({ value: ema(input.close, p.period) })
+  },
+  rsi: {
+    id: 'rsi', name: 'Relative Strength Index', pane: 'oscillator',
+    defaults: { period: 14 }, outputs: ['value'],
+    warmup: p => p.period,
+    compute: (input, p) => ({ value: rsi(input.close, p.period) })
+  },
+  macd: {
+    id: 'macd', name: 'MACD', pane: 'oscillator',
+    defaults: { fast: 12, slow: 26, signal: 9 }, outputs: ['line', 'signal', 'histogram'],
+    warmup: p => Math.max(p.fast, p.slow) + p.signal - 2,
+    compute: (input, p) => macd(input.close, p.fast, p.slow, p.signal)
+  },
+  bollinger: {
+    id: 'bollinger', name: 'Bollinger Bands', pane: 'price',
+    defaults: { period: 20, deviations: 2 }, outputs: ['upper', 'middle', 'lower'],
+    warmup: p => p.period - 1,
+    compute: (input, p) => bollinger(input.close, p.period, p.deviations)
+  },
+  atr: {
+    id: 'atr', name: 'Average True Range', pane: 'oscillator',
+    defaults: { period: 14 }, outputs: ['value'],
+    warmup: p => p.period - 1,
+    compute: (input, p) => ({ value: atr(input, p.period) })
+  },
+  stochastic: {
+    id: 'stochastic', name: 'Stochastic Oscillator', pane: 'oscillator',
+    defaults: { kPeriod: 14, kSmoothing: 3, dPeriod: 3 }, outputs: ['k', 'd'],
+    warmup: p => p.kPeriod + p.kSmoothing + p.dPeriod - 3,
+    compute: (input, p) => stochastic(input, p.kPeriod, p.kSmoothing, p.dPeriod)
+  },
+  adx: {
+    id: 'adx', name: 'Average Directional Index', pane: 'oscillator',
+    defaults: { period: 14 }, outputs: ['adx', 'plusDI', 'minusDI'],
+    warmup: p => 2 * p.period - 1,
+    compute: (input, p) => adx(input, p.period)
+  },
+  obv: {
+    id: 'obv', name: 'On-Balance Volume', pane: 'volume',
+    defaults: {}, outputs: ['value'],
+    warmup: () => 0,
+    compute: input => ({ value: obv(input) })
+  },
+  vwap: {
+    id: 'vwap', name: 'VWAP', pane: 'price',
+    defaults: {}, outputs: ['value'],
+    warmup: () => 0,
+    compute: input => ({ value: vwap(input) })
+  },
+  ichimoku: {
+    id: 'ichimoku', name: 'Ichimoku Cloud', pane: 'price',
+    defaults: { conversion: 9, base: 26, spanB: 52, displacement: 26 },
+    outputs: ['tenkan', 'kijun', 'senkouA', 'senkouB', 'chikou'],
+    warmup: p => p.spanB + p.displacement - 1,
+    compute: (input, p) => ichimoku(input, p.conversion, p.base, p.spanB, p.displacement)
+  },
+  keltner: {
+    id: 'keltner', name: 'Keltner Channels', pane: 'price',
+    defaults: { period: 20, multiplier: 2, atrPeriod: 10 }, outputs: ['upper', 'middle', 'lower'],
+    warmup: p => Math.max(p.period, p.atrPeriod) - 1,
+    compute: (input, p) => keltner(input, p.period, p.multiplier, p.atrPeriod)
+  },
+  donchian: {
+    id: 'donchian', name: 'Donchian Channels', pane: 'price',
+    defaults: { period: 20 }, outputs: ['upper', 'middle', 'lower'],
+    warmup: p => p.period - 1,
+    compute: (input, p) => donchian(input, p.period)
+  },
+  cci: {
+    id: 'cci', name: 'Commodity Channel Index', pane: 'oscillator',
+    defaults: { period: 20 }, outputs: ['value'],
+    warmup: p => p.period - 1,
+    compute: (input, p) => ({ value: cci(input, p.period) })
+  },
+  williamsR: {
+    id: 'williamsR', name: 'Williams %R', pane: 'oscillator',
+    defaults: { period: 14 }, outputs: ['value'],
+    warmup: p => p.period - 1,
+    compute: (input, p) => ({ value: williamsR(input, p.period) })
+  },
+  mfi: {
+    id: 'mfi', name: 'Money Flow Index', pane: 'oscillator',
+    defaults: { period: 14 }, outputs: ['value'],
+    warmup: p => p.period,
+    compute: (input, p) => ({ value: mfi(input, p.period) })
+  }
+};
+
+export function isIndicatorId(value: string): value is IndicatorId {
+  return Object.prototype.hasOwnProperty.call(INDICATORS, value);
+}
+
+/**
+ * Merge a request's parameters over the defaults; lengths must be whole numbers from 1 to
+ * MAX_INDICATOR_PERIOD
+ */
+export function resolveIndicatorParams(request: IndicatorRequest): Record<string, number> {
+  const definition = INDICATORS[request.id];
+  if (!definition) {
+    throw new IndicatorSpecError(`Unknown indicator "${request.id}"`);
+  }
+
+  const params = { ...definition.defaults };
+  for (const [name, value] of Object.entries(request.params ?? {})) {
+    if (!(name in definition.defaults)) {
+      throw new IndicatorSpecError(`${definition.name} has no parameter "${name}"`);
+    }
+    const isMultiplier = name === 'deviations' || name === 'multiplier';
+    const valid = Number.isFinite(value) && value > 0 && (isMultiplier || Number.isInteger(value));
+    if (!valid) {
+      throw new IndicatorSpecError(`${definition.name} ${name} must be a positive ${isMultiplier ? 'number' : 'whole number'}`);
+    }
+    if (!isMultiplier && value > MAX_INDICATOR_PERIOD) {
+      throw new IndicatorSpecError(`${definition.name} ${name} must be at most ${MAX_INDICATOR_PERIOD}`);
+    }
+    params[name] = value;
+  }
+  return params;
+}
+
+/**
+ * Bars needed before the first complete value of every requested indicator
+ */
+export function indicatorWarmup(requests: IndicatorRequest[]): number {
+  return requests.reduce((bars, request) => Math.max(bars, INDICATORS[request.id].warmup(resolveIndicatorParams(request))), 0);
+}
+
+/**
+ * Parse a compact spec such as "sma:50,bollinger:20:2,ichimoku": indicator ids separated by
+ * commas, each followed by positional parameters in the order of its defaults
+ */
+export function parseIndicatorSpec(spec: string): IndicatorRequest[] {
+  return spec
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const [id, ...values] = part.split(':');
+      const match = Object.keys(INDICATORS).find(key => key.toLowerCase() === id.toLowerCase());
+      if (!match || !isIndicatorId(match)) {
+        throw new IndicatorSpecError(`Unknown indicator "${id}"`);
+      }
+
+      const names = Object.keys(INDICATORS[match].defaults);
+      if (values.length > names.length) {
+        throw new IndicatorSpecError(`${INDICATORS[match].name} takes at most ${names.length} parameter(s)`);
+      }
+      const params: Record<string, number> = {};
+      values.forEach((value, index) => {
+        if (value !== '') params[names[index]] = Number(value);
+      });
+      return values.length > 0 ? { id: match, params } : { id: match };
+    });
+}
+
+/**
+ * Indicator requests from a request body: a compact spec string, or an array of
+ * { id, params } objects; throws IndicatorSpecError for anything else
+ */
+export function parseIndicatorRequests(value: unknown): IndicatorRequest[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return parseIndicatorSpec(value);
+  if (!Array.isArray(value)) {
+    throw new IndicatorSpecError('indicators must be a spec string or an array of { id, params }');
+  }
+
+  return value.map((entry: unknown, index) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new IndicatorSpecError(`indicators[${index}] must be an object with an id`);
+    }
+    const { id, params } = entry as { id?: unknown; params?: unknown };
+    if (typeof id !== 'string' || !isIndicatorId(id)) {
+      throw new IndicatorSpecError(`Unknown indicator "${String(id)}"`);
+    }
+    if (params === undefined) return { id };
+    if (!params || typeof params !== 'object' || Array.isArray(params) ||
+      Object.values(params).some(param => typeof param !== 'number')) {
+      throw new IndicatorSpecError(`indicators[${index}].params must map names to numbers`);
+    }
+    return { id, params: params as Record<string, number> };
+  });
+}
+
+export function computeIndicator(input: IndicatorInput, request: IndicatorRequest): IndicatorResult {
+  const definition = INDICATORS[request.id];
+  const params = resolveIndicatorParams(request);
+  const values = Object.values(params);
+
+  return {
+    id: definition.id,
+    key: values.length > 0 ? `${definition.id}(${values.join(',')})` : definition.id,
+    name: definition.name,
+    pane: definition.pane,
+    params,
+    series: definition.compute(input, params)
+  };
+}
+
+export function computeIndicators(input: IndicatorInput, requests: IndicatorRequest[]): IndicatorResult[] {
+  return requests.map(request => computeIndicator(input, request));
+}
+
+/**
+ * Drop the first `start` bars of every series (warm-up history fetched only for the calculation)
+ */
+export function sliceIndicatorResults(results: IndicatorResult[], start: number): IndicatorResult[] {
+  return results.map(result => ({
+    ...result,
+    series: Object.fromEntries(Object.entries(result.series).map(([name, series]) => [name, series.slice(start)]))
+  }));
+}
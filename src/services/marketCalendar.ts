@@ -0,0 +1,424 @@
+/**
+ * Market Calendar
+ * Exchange trading days, holidays, early closes and pre/regular/post-market sessions
+ *
+ * Holidays are derived from each exchange's published rules (fixed dates with weekend
+ * observance, nth-weekday holidays and Easter), so no yearly table needs maintaining;
+ * one-off closures are listed per exchange. Session times are exchange-local wall-clock
+ * times converted with the exchange's IANA time zone, so daylight saving is handled
+ * without a date library. Safe to use in the browser.
+ */
+
+import { ExchangeCode, MarketSession, MarketStatus, SessionWindow, TradingDaySchedule } from '@/types';
+
+interface SessionTimes {
+  pre?: [string, string];
+  regular: [string, string];
+  post?: [string, string];
+}
+
+interface ExchangeDefinition {
+  code: ExchangeCode;
+  name: string;
+  timeZone: string;
+  sessions: SessionTimes;
+  earlyCloseSessions: SessionTimes;
+  holidays: (year: number) => Record<string, string>;
+  earlyCloses: (year: number, isTradingDay: (date: string) => boolean) => Record<string, string>;
+  specialClosures: Record<string, string>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date helpers on exchange-local YYYY-MM-DD strings
+
+function toDateString(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function isWeekend(date: string): boolean {
+  const day = weekday(date);
+  return day === 0 || day === 6;
+}
+
+/**
+ * The nth given weekday of a month (n = -1 for the last one)
+ */
+function nthWeekday(year: number, month: number, day: number, n: number): string {
+  if (n > 0) {
+    const first = weekday(toDateString(year, month, 1));
+    return toDateString(year, month, 1 + ((day - first + 7) % 7) + (n - 1) * 7);
+  }
+  const lastDate = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const last = weekday(toDateString(year, month, lastDate));
+  return toDateString(year, month, lastDate - ((last - day + 7) % 7));
+}
+
+/**
+ * Western Easter Sunday (anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDateString(year, month, day);
+}
+
+/**
+ * US rule: a Saturday holiday is observed on Friday, a Sunday holiday on Monday
+ */
+function observedUS(date: string): string {
+  const day = weekday(date);
+  return day === 6 ? addDays(date, -1) : day === 0 ? addDays(date, 1) : date;
+}
+
+// Time zone helpers
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function zonedParts(instant: number, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+function zoneOffsetMs(instant: number, timeZone: string): number {
+  const parts = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Instant of an exchange-local wall-clock time
+ */
+function zonedTime(date: string, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + (hours * 60 + minutes) * 60 * 1000;
+  const firstGuess = wallClock - zoneOffsetMs(wallClock, timeZone);
+  // Re-check once in case the guess crossed a daylight saving transition
+  return new Date(wallClock - zoneOffsetMs(firstGuess, timeZone));
+}
+
+function localDate(instant: number, timeZone: string): string {
+  const parts = zonedParts(instant, timeZone);
+  return toDateString(parts.year, parts.month, parts.day);
+}
+
+// Exchange definitions
+
+const US_EXCHANGE: ExchangeDefinition = {
+  code: 'US',
+  name: 'NYSE / Nasdaq',
+  timeZone: 'America/New_York',
+  sessions: { pre: ['04:00', '09:30'], regular: ['09:30', '16:00'], post: ['16:00', '20:00'] },
+  earlyCloseSessions: { pre: ['04:00', '09:30'], regular: ['09:30', '13:00'], post: ['13:00', '17:00'] },
+  holidays: year => {
+    const holidays: Record<string, string> = {};
+    // New Year's Day falling on a Saturday is not observed on the prior Friday
+    const newYear = toDateString(year, 1, 1);
+    if (weekday(newYear) !== 6) holidays[observedUS(newYear)] = "New Year's Day";
+    holidays[nthWeekday(year, 1, 1, 3)] = 'Martin Luther King Jr. Day';
+    holidays[nthWeekday(year, 2, 1, 3)] = "Washington's Birthday";
+    holidays[addDays(easterSunday(year), -2)] = 'Good Friday';
+    holidays[nthWeekday(year, 5, 1, -1)] = 'Memorial Day';
+    if (year >= 2022) holidays[observedUS(toDateString(year, 6, 19))] = 'Juneteenth';
+    holidays[observedUS(toDateString(year, 7, 4))] = 'Independence Day';
+    holidays[nthWeekday(year, 9, 1, 1)] = 'Labor Day';
+    holidays[nthWeekday(year, 11, 4, 4)] = 'Thanksgiving Day';
+    holidays[observedUS(toDateString(year, 12, 25))] = 'Christmas Day';
+    return holidays;
+  },
+  earlyCloses: (year, isTradingDay) => {
+    const closes: Record<string, string> = {};
+    const candidates: [string, string][] = [
+      [toDateString(year, 7, 3), 'Independence Day eve'],
+      [addDays(nthWeekday(year, 11, 4, 4), 1), 'Day after Thanksgiving'],
+      [toDateString(year, 12, 24), 'Christmas Eve']
+    ];
+    candidates
+      .filter(([date]) => isTradingDay(date))
+      .forEach(([date, reason]) => { closes[date] = reason; });
+    return closes;
+  },
+  specialClosures: {
+    '2012-10-29': 'Hurricane Sandy',
+    '2012-10-30': 'Hurricane Sandy',
+    '2018-12-05': 'National Day of Mourning (George H.W. Bush)',
+    '2025-01-09': 'National Day of Mourning (Jimmy Carter)'
+  }
+};
+
+const LSE_EXCHANGE: ExchangeDefinition = {
+  code: 'LSE',
+  name: 'London Stock Exchange',
+  timeZone: 'Europe/London',
+  sessions: { regular: ['08:00', '16:30'] },
+  earlyCloseSessions: { regular: ['08:00', '12:30'] },
+  holidays: year => {
+    const holidays: Record<string, string> = {};
+    const newYear = toDateString(year, 1, 1);
+    holidays[weekday(newYear) === 6 ? addDays(newYear, 2) : weekday(newYear) === 0 ? addDays(newYear, 1) : newYear] = "New Year's Day";
+    const easter = easterSunday(year);
+    holidays[addDays(easter, -2)] = 'Good Friday';
+    holidays[addDays(easter, 1)] = 'Easter Monday';
+    holidays[nthWeekday(year, 5, 1, 1)] = 'Early May Bank Holiday';
+    holidays[nthWeekday(year, 5, 1, -1)] = 'Spring Bank Holiday';
+    holidays[nthWeekday(year, 8, 1, -1)] = 'Summer Bank Holiday';
+    // Christmas and Boxing Day move to the following weekdays when they fall on a weekend
+    let christmas = toDateString(year, 12, 25);
+    let boxingDay = toDateString(year, 12, 26);
+    if (weekday(christmas) === 6) {
+      christmas = addDays(christmas, 2);
+      boxingDay = addDays(boxingDay, 2);
+    } else if (weekday(christmas) === 0) {
+      christmas = addDays(christmas, 2);
+    } else if (weekday(boxingDay) === 6) {
+      boxingDay = addDays(boxingDay, 2);
+    }
+    holidays[christmas] = 'Christmas Day';
+    holidays[boxingDay] = 'Boxing Day';
+    return holidays;
+  },
+  earlyCloses: (year, isTradingDay) => {
+    const closes: Record<string, string> = {};
+    const candidates: [string, string][] = [
+      [toDateString(year, 12, 24), 'Christmas Eve'],
+      [toDateString(year, 12, 31), "New Year's Eve"]
+    ];
+    candidates
+      .filter(([date]) => isTradingDay(date))
+      .forEach(([date, reason]) => { closes[date] = reason; });
+    return closes;
+  },
+  specialClosures: {
+    '2022-06-02': 'Platinum Jubilee',
+    '2022-06-03': 'Platinum Jubilee',
+    '2022-09-19': 'State Funeral of Queen Elizabeth II',
+    '2023-05-08': 'Coronation of King Charles III'
+  }
+};
+
+const EXCHANGES: Record<ExchangeCode, ExchangeDefinition> = {
+  US: US_EXCHANGE,
+  LSE: LSE_EXCHANGE
+};
+
+// Ticker suffixes of non-US listings (Finnhub / Yahoo style)
+const SYMBOL_SUFFIXES: Record<string, ExchangeCode> = {
+  L: 'LSE'
+};
+
+export class MarketCalendar {
+  private holidayCache = new Map<string, Record<string, string>>();
+  private earlyCloseCache = new Map<string, Record<string, string>>();
+
+  /**
+   * Exchange a ticker trades on, from its suffix (VOD.L → LSE); US otherwise
+   */
+  exchangeForSymbol(symbol: string): ExchangeCode {
+    const suffix = symbol.toUpperCase().split('.')[1];
+    return (suffix && SYMBOL_SUFFIXES[suffix]) || 'US';
+  }
+
+  getTimeZone(exchange: ExchangeCode = 'US'): string {
+    return EXCHANGES[exchange].timeZone;
+  }
+
+  /**
+   * Exchange-local date of an instant, or the date itself when given YYYY-MM-DD
+   */
+  toExchangeDate(date: Date | string, exchange: ExchangeCode = 'US'): string {
+    return typeof date === 'string' ? date.slice(0, 10) : localDate(date.getTime(), EXCHANGES[exchange].timeZone);
+  }
+
+  getHoliday(date: Date | string, exchange: ExchangeCode = 'US'): string | undefined {
+    const day = this.toExchangeDate(date, exchange);
+    const definition = EXCHANGES[exchange];
+    return definition.specialClosures[day] ?? this.holidaysFor(exchange, parseInt(day.slice(0, 4), 10))[day];
+  }
+
+  isTradingDay(date: Date | string, exchange: ExchangeCode = 'US'): boolean {
+    const day = this.toExchangeDate(date, exchange);
+    return !isWeekend(day) && !this.getHoliday(day, exchange);
+  }
+
+  /**
+   * Sessions for one exchange-local date
+   */
+  getSchedule(date: Date | string, exchange: ExchangeCode = 'US'): TradingDaySchedule {
+    const day = this.toExchangeDate(date, exchange);
+    const definition = EXCHANGES[exchange];
+    const holiday = this.getHoliday(day, exchange);
+
+    if (isWeekend(day) || holiday) {
+      return { exchange, date: day, isTradingDay: false, ...(holiday ? { holiday } : {}) };
+    }
+
+    const earlyClose = this.earlyClosesFor(exchange, parseInt(day.slice(0, 4), 10))[day];
+    const times = earlyClose ? definition.earlyCloseSessions : definition.sessions;
+    const window = (range?: [string, string]): SessionWindow | undefined => range && {
+      open: zonedTime(day, range[0], definition.timeZone),
+      close: zonedTime(day, range[1], definition.timeZone)
+    };
+
+    return {
+      exchange,
+      date: day,
+      isTradingDay: true,
+      ...(earlyClose ? { earlyClose } : {}),
+      pre: window(times.pre),
+      regular: window(times.regular),
+      post: window(times.post)
+    };
+  }
+
+  getSession(at: Date = new Date(), exchange: ExchangeCode = 'US'): MarketSession {
+    const schedule = this.getSchedule(at, exchange);
+    const time = at.getTime();
+    const within = (window?: SessionWindow) => !!window && time >= window.open.getTime() && time < window.close.getTime();
+
+    if (within(schedule.regular)) return 'regular';
+    if (within(schedule.pre)) return 'pre';
+    if (within(schedule.post)) return 'post';
+    return 'closed';
+  }
+
+  getStatus(at: Date = new Date(), exchange: ExchangeCode = 'US'): MarketStatus {
+    const schedule = this.getSchedule(at, exchange);
+    const session = this.getSession(at, exchange);
+    const isOpen = session === 'regular';
+
+    return {
+      exchange,
+      timeZone: EXCHANGES[exchange].timeZone,
+      session,
+      isOpen,
+      isTradingDay: schedule.isTradingDay,
+      ...(schedule.holiday ? { holiday: schedule.holiday } : {}),
+      ...(schedule.earlyClose ? { earlyClose: schedule.earlyClose } : {}),
+      nextOpen: this.nextRegularOpen(at, exchange),
+      nextClose: isOpen && schedule.regular ? schedule.regular.close : null
+    };
+  }
+
+  /**
+   * Start of the next regular session strictly after `at`
+   */
+  nextRegularOpen(at: Date = new Date(), exchange: ExchangeCode = 'US'): Date {
+    let day = this.toExchangeDate(at, exchange);
+    for (let i = 0; i < 14; i++) {
+      const open = this.getSchedule(day, exchange).regular?.open;
+      if (open && open.getTime() > at.getTime()) return open;
+      day = this.nextTradingDay(day, exchange);
+    }
+    return this.getSchedule(day, exchange).regular!.open;
+  }
+
+  previousTradingDay(date: Date | string, exchange: ExchangeCode = 'US'): string {
+    let day = addDays(this.toExchangeDate(date, exchange), -1);
+    while (!this.isTradingDay(day, exchange)) day = addDays(day, -1);
+    return day;
+  }
+
+  nextTradingDay(date: Date | string, exchange: ExchangeCode = 'US'): string {
+    let day = addDays(this.toExchangeDate(date, exchange), 1);
+    while (!this.isTradingDay(day, exchange)) day = addDays(day, 1);
+    return day;
+  }
+
+  /**
+   * Trading date whose prices were current at `at`: today once the regular session has
+   * opened, otherwise the previous trading day (its close is the last traded price)
+   */
+  sessionDateAt(at: Date, exchange: ExchangeCode = 'US'): string {
+    const schedule = this.getSchedule(at, exchange);
+    if (schedule.regular && at.getTime() >= schedule.regular.open.getTime()) {
+      return schedule.date;
+    }
+    return this.previousTradingDay(schedule.date, exchange);
+  }
+
+  /**
+   * Number of trading days from `from` to `to`, both exchange-local dates inclusive
+   */
+  tradingDaysBetween(from: Date | string, to: Date | string, exchange: ExchangeCode = 'US'): number {
+    let day = this.toExchangeDate(from, exchange);
+    const last = this.toExchangeDate(to, exchange);
+    let count = 0;
+    while (day <= last) {
+      if (this.isTradingDay(day, exchange)) count++;
+      day = addDays(day, 1);
+    }
+    return count;
+  }
+
+  private holidaysFor(exchange: ExchangeCode, year: number): Record<string, string> {
+    const key = `${exchange}:${year}`;
+    let holidays = this.holidayCache.get(key);
+    if (!holidays) {
+      holidays = EXCHANGES[exchange].holidays(year);
+      this.holidayCache.set(key, holidays);
+    }
+    return holidays;
+  }
+
+  private earlyClosesFor(exchange: ExchangeCode, year: number): Record<string, string> {
+    const key = `${exchange}:${year}`;
+    let closes = this.earlyCloseCache.get(key);
+    if (!closes) {
+      closes = EXCHANGES[exchange].earlyCloses(year, date => this.isTradingDay(date, exchange));
+      this.earlyCloseCache.set(key, closes);
+    }
+    return closes;
+  }
+}
+
+// Singleton instance
+export const marketCalendar = new MarketCalendar();
+export default marketCalendar;
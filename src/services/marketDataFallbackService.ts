@@ -4,31 +4,12 @@
  * Enhanced with caching, rate limiting, and robust error handling
  */
 
-interface MarketRecommendation {
-  ticker: string;
-  companyName: string;
-  finalScore: number;
-  confidence: number;
-  explanation: string;
-  analytics: {
-    momentum: string;
-    sentiment: string;
-    mentions: number;
-    avgScore: number;
-    riskFlags: string[];
-  };
-  breakdown: {
-    popularity: number;
-    sentiment: number;
-    momentum: number;
-    diversification: number;
-  };
-  marketData: {
-    c: number;
-    sector: string;
-    changePercent?: number;
-  };
-}
+import { isMarketDataProviderError, MarketDataProvider } from './marketDataProvider';
+import { getMarketDataProvider } from './marketDataProviderConfig';
+import { screenerService } from './screenerService';
+import { createSeededRandom, getReplaySeed } from './seededRandom';
+import { usageLedger } from './usageLedger';
+import { MarketRecommendation } from '@/types';
 
 interface CachedStockData {
   data: any;
@@ -42,8 +23,6 @@ interface RequestQueue {
 }
 
 export class MarketDataFallbackService {
-  private finnhubApiKey: string;
-  private baseUrl = 'https://finnhub.io/api/v1';
   private cache = new Map<string, CachedStockData>();
   private cacheTTL = 5 * 60 * 1000; // 5 minutes in milliseconds
   private isRateLimited = false;
@@ -54,8 +33,11 @@ export class MarketDataFallbackService {
   private lastRecommendationsCache: MarketRecommendation[] = [];
   private lastRecommendationsTimestamp = 0;
 
-  constructor() {
-    this.finnhubApiKey = process.env.FINNHUB_API_KEY || '';
+  /**
+   * Market data provider selected by configuration (background priority)
+   */
+  private get provider(): MarketDataProvider {
+    return getMarketDataProvider('background', 'recommendations');
   }
 
   /**
@@ -239,8 +221,8 @@ export class MarketDataFallbackService {
    */
   private async getTopPerformingStocks(): Promise<any[]> {
     try {
-      // Get trending stocks from different sectors
-      const sectors = ['TECHNOLOGY', 'HEALTHCARE', 'FINANCIAL', 'ENERGY', 'CONSUMER'];
+      // Get trending stocks from each sector of the screener universe
+      const sectors = await screenerService.getSectors();
       const allStocks: any[] = [];
 
       for (const sector of sectors) {
@@ -279,19 +261,15 @@ export class MarketDataFallbackService {
   }
 
   /**
-   * Get stocks by sector (simplified approach)
+   * Get the first stocks of a sector in the screener universe
+   * (Finnhub sector search requires premium)
    */
   private async getStocksBySector(sector: string): Promise<any[]> {
-    // Predefined lists since Finnhub sector search requires premium
-    const sectorStocks: Record<string, string[]> = {
-      TECHNOLOGY: ['AAPL', 'MSFT', 'GOOGL', 'NVDA', 'META'],
-      HEALTHCARE: ['JNJ', 'PFE', 'UNH', 'ABBV', 'MRK'],
-      FINANCIAL: ['JPM', 'BAC', 'WFC', 'GS', 'MS'],
-      ENERGY: ['XOM', 'CVX', 'COP', 'EOG', 'SLB'],
-      CONSUMER: ['AMZN', 'TSLA', 'HD', 'MCD', 'NKE']
-    };
-
-    const tickers = sectorStocks[sector] || [];
+    const universe = await screenerService.getUniverse();
+    const tickers = universe
+      .filter(entry => entry.sector?.toUpperCase() === sector.toUpperCase())
+      .slice(0, 5)
+      .map(entry => entry.symbol);
     const stockPromises = tickers.map(ticker => this.fetchStockDataDirect(ticker));
     const results = await Promise.allSettled(stockPromises);
     
@@ -309,6 +287,7 @@ export class MarketDataFallbackService {
       const cached = this.getCachedData(ticker);
       if (cached) {
         console.log(`📂 Cache hit for ${ticker}`);
+        usageLedger.recordCacheHit(this.provider, '/quote', ticker);
         return cached;
       }
 
@@ -380,36 +359,37 @@ export class MarketDataFallbackService {
   }
 
   /**
-   * Get stock data from Finnhub
+   * Get stock data from the configured market data provider
    */
   private async getStockData(ticker: string): Promise<any> {
     try {
-      const quoteUrl = `${this.baseUrl}/quote?symbol=${ticker}&token=${this.finnhubApiKey}`;
-      const profileUrl = `${this.baseUrl}/stock/profile2?symbol=${ticker}&token=${this.finnhubApiKey}`;
+      let quote: any;
+      let profile: any;
 
-      const [quoteResponse, profileResponse] = await Promise.all([
-        fetch(quoteUrl),
-        fetch(profileUrl)
-      ]);
+      try {
+        [quote, profile] = await Promise.all([
+          this.provider.getQuote(ticker),
+          this.provider.getCompanyProfile(ticker)
+        ]);
+      } catch (error) {
+        // Handle rate limiting
+        if (isMarketDataProviderError(error) && error.isRateLimited) {
+          this.isRateLimited = true;
+          setTimeout(() => {
+            this.isRateLimited = false;
+            console.log('✅ Rate limit status reset');
+          }, 60000); // 1 minute
+          throw new Error('Rate limited');
+        }
 
-      // Handle rate limiting
-      if (quoteResponse.status === 429 || profileResponse.status === 429) {
-        this.isRateLimited = true;
-        setTimeout(() => {
-          this.isRateLimited = false;
-          console.log('✅ Rate limit status reset');
-        }, 60000); // 1 minute
-        throw new Error('Rate limited');
-      }
+        if (isMarketDataProviderError(error)) {
+          console.error(`❌ API error for ${ticker}: ${error.status}`);
+          return null;
+        }
 
-      if (!quoteResponse.ok || !profileResponse.ok) {
-        console.error(`❌ API error for ${ticker}: ${quoteResponse.status}/${profileResponse.status}`);
-        return null;
+        throw error;
       }
 
-      const quote = await quoteResponse.json();
-      const profile = await profileResponse.json();
-
       // Validate the response data before returning
       if (!quote || !quote.c || quote.c <= 0) {
         console.error(`❌ Invalid quote data for ${ticker}:`, quote);
@@ -472,8 +452,11 @@ export class MarketDataFallbackService {
       const finalScore = (priceScore * 0.4 + volumeScore * 0.3 + 70) / 100; // Base score of 70
       const confidence = Math.min(95, Math.max(60, 75 + changePercent * 2));
 
+      // Simulated values are seeded per ticker so repeated runs produce the same recommendations
+      const random = createSeededRandom(`${getReplaySeed()}:${symbol}`);
+
       // Generate explanation
-      const explanation = this.generateExplanation(symbol, changePercent, momentum, profile);
+      const explanation = this.generateExplanation(symbol, changePercent, momentum, profile, random);
 
       const recommendation = {
         ticker: symbol,
@@ -484,7 +467,7 @@ export class MarketDataFallbackService {
         analytics: {
           momentum,
           sentiment: changePercent > 0 ? 'bullish' : 'bearish',
-          mentions: Math.floor(Math.random() * 10) + 5, // Simulated
+          mentions: Math.floor(random() * 10) + 5, // Simulated
           avgScore: 3.5 + (changePercent / 10), // Score based on performance
           riskFlags
         },
@@ -492,7 +475,7 @@ export class MarketDataFallbackService {
           popularity: Math.round(volumeScore),
           sentiment: Math.round(changePercent > 0 ? 80 + changePercent : 60 + changePercent),
           momentum: Math.round(priceScore),
-          diversification: Math.round(70 + Math.random() * 20)
+          diversification: Math.round(70 + random() * 20)
         },
         marketData: {
           c: currentPrice,
@@ -512,7 +495,13 @@ export class MarketDataFallbackService {
   /**
    * Generate explanation for recommendation
    */
-  private generateExplanation(ticker: string, changePercent: number, momentum: string, profile: any): string {
+  private generateExplanation(
+    ticker: string,
+    changePercent: number,
+    momentum: string,
+    profile: any,
+    random: () => number
+  ): string {
     const baseExplanations = [
       `Strong market performance with ${momentum} momentum`,
       `Real-time market data shows ${changePercent > 0 ? 'positive' : 'mixed'} signals`,
@@ -520,7 +509,7 @@ export class MarketDataFallbackService {
       `Technical indicators suggest ${momentum} trend continuation`
     ];
 
-    let explanation = baseExplanations[Math.floor(Math.random() * baseExplanations.length)];
+    let explanation = baseExplanations[Math.floor(random() * baseExplanations.length)];
     
     if (changePercent > 5) {
       explanation += ` (+${changePercent.toFixed(1)}% today)`;
@@ -535,7 +524,7 @@ export class MarketDataFallbackService {
    * Check if service is properly configured
    */
   isConfigured(): boolean {
-    return !!this.finnhubApiKey;
+    return this.provider.isConfigured();
   }
 }
 
@@ -0,0 +1,164 @@
+/**
+ * Market Data Provider Contract
+ * Vendor-neutral interface for quotes, candles, fundamentals, earnings, corporate actions,
+ * news and search
+ *
+ * Payload shapes follow the Finnhub wire format because the rest of the app already
+ * consumes it; additional vendors map their responses into these shapes.
+ */
+
+import { FinnhubQuote } from '@/types';
+import type { RequestPriority } from './rateLimitGovernor';
+
+export type MarketDataProviderName = 'finnhub' | 'replay';
+
+// Quotes share the domain FinnhubQuote shape (types/market.ts)
+export type ProviderQuote = FinnhubQuote;
+
+// Bar length per candle resolution (months approximated as 30 days)
+export const RESOLUTION_SECONDS: Record<string, number> = {
+  '1': 60,
+  '5': 300,
+  '15': 900,
+  '30': 1800,
+  '60': 3600,
+  '240': 4 * 3600, // Resampled from hourly bars; no provider serves it directly
+  D: 86400,
+  W: 7 * 86400,
+  M: 30 * 86400
+};
+
+export interface ProviderCandles {
+  s: 'ok' | 'no_data' | 'error';
+  c: number[]; // Close prices
+  h: number[]; // High prices
+  l: number[]; // Low prices
+  o: number[]; // Open prices
+  t: number[]; // Timestamps (unix seconds)
+  v: number[]; // Volumes
+}
+
+export interface ProviderCompanyProfile {
+  name?: string;
+  ticker?: string;
+  exchange?: string;
+  country?: string;
+  currency?: string;
+  finnhubIndustry?: string;
+  marketCapitalization?: number; // Millions
+  shareOutstanding?: number; // Millions
+  ipo?: string;
+  logo?: string;
+  weburl?: string;
+}
+
+export type ProviderBasicFinancials = Record<string, number | string | null | undefined>;
+
+export interface ProviderEarningsEntry {
+  symbol: string;
+  date: string; // YYYY-MM-DD
+  epsEstimate?: number | null;
+  epsActual?: number | null;
+  surprise?: number | null;
+  revenueEstimate?: number | null;
+  revenueActual?: number | null;
+  hour?: string;
+  quarter?: number;
+  year?: number;
+}
+
+export interface ProviderSplit {
+  symbol: string;
+  date: string; // Ex-date, YYYY-MM-DD
+  fromFactor: number; // Shares before the split...
+  toFactor: number; // ...become this many after it (4-for-1: from 1, to 4)
+}
+
+export interface ProviderDividend {
+  symbol: string;
+  date: string; // Ex-date, YYYY-MM-DD
+  amount: number; // Per share, as declared (not split-adjusted)
+  adjustedAmount?: number;
+  payDate?: string;
+  recordDate?: string;
+  declarationDate?: string;
+  currency?: string;
+}
+
+export interface ProviderNewsArticle {
+  id?: number;
+  headline: string;
+  summary?: string;
+  source?: string;
+  url?: string;
+  image?: string;
+  category?: string;
+  related?: string;
+  datetime: number; // Unix seconds
+}
+
+export interface ProviderSearchResult {
+  description: string; // Company name
+  displaySymbol: string; // Display ticker
+  symbol: string; // Actual ticker
+  type: string; // Type of security
+}
+
+// Who a provider view's requests are attributed to in the usage ledger
+export interface ProviderRequestContext {
+  priority: RequestPriority;
+  feature: string;
+}
+
+export interface MarketDataProvider {
+  readonly name: MarketDataProviderName;
+
+  /**
+   * Priority class and app feature of this view; absent on providers without a quota
+   */
+  readonly context?: ProviderRequestContext;
+
+  /**
+   * Whether the provider has what it needs (credentials, fixtures) to serve real data
+   */
+  isConfigured(): boolean;
+
+  getQuote(symbol: string): Promise<ProviderQuote>;
+  getCandles(symbol: string, resolution: string, from: number, to: number): Promise<ProviderCandles>;
+  getCompanyProfile(symbol: string): Promise<ProviderCompanyProfile>;
+  getBasicFinancials(symbol: string): Promise<ProviderBasicFinancials>;
+  getEarningsCalendar(symbol: string, from: string, to: string): Promise<ProviderEarningsEntry[]>;
+  getSplits(symbol: string, from: string, to: string): Promise<ProviderSplit[]>;
+  getDividends(symbol: string, from: string, to: string): Promise<ProviderDividend[]>;
+  getCompanyNews(symbol: string, from: string, to: string): Promise<ProviderNewsArticle[]>;
+  searchSymbols(query: string): Promise<ProviderSearchResult[]>;
+
+  /**
+   * View of this provider whose requests are scheduled at the given priority class and
+   * attributed to `feature`; providers without an upstream quota (replay) can omit it
+   */
+  withPriority?(priority: RequestPriority, feature?: string): MarketDataProvider;
+}
+
+/**
+ * Error raised by providers; `status` mirrors the HTTP status where one exists
+ * so callers can keep their 401/403/429 handling.
+ */
+export class MarketDataProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly provider: MarketDataProviderName
+  ) {
+    super(message);
+    this.name = 'MarketDataProviderError';
+  }
+
+  get isRateLimited(): boolean {
+    return this.status === 429;
+  }
+}
+
+export function isMarketDataProviderError(error: unknown): error is MarketDataProviderError {
+  return error instanceof MarketDataProviderError;
+}
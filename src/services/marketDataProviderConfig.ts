@@ -0,0 +1,54 @@
+/**
+ * Market Data Provider Selection
+ * Resolves the active provider from MARKET_DATA_PROVIDER (finnhub | replay)
+ */
+
+import { MarketDataProvider, MarketDataProviderName } from './marketDataProvider';
+import { FinnhubMarketDataProvider } from './finnhubMarketDataProvider';
+import { ReplayMarketDataProvider } from './replayMarketDataProvider';
+import { RequestPriority } from './rateLimitGovernor';
+
+const PROVIDER_NAMES: MarketDataProviderName[] = ['finnhub', 'replay'];
+
+let activeProvider: MarketDataProvider | null = null;
+
+/**
+ * Provider name requested by configuration, defaulting to Finnhub
+ */
+export function getConfiguredProviderName(): MarketDataProviderName {
+  const configured = (process.env.MARKET_DATA_PROVIDER || '').trim().toLowerCase();
+  return PROVIDER_NAMES.includes(configured as MarketDataProviderName)
+    ? configured as MarketDataProviderName
+    : 'finnhub';
+}
+
+export function createMarketDataProvider(name: MarketDataProviderName): MarketDataProvider {
+  switch (name) {
+    case 'replay':
+      return new ReplayMarketDataProvider();
+    case 'finnhub':
+    default:
+      return new FinnhubMarketDataProvider();
+  }
+}
+
+/**
+ * Shared provider instance used by every market data service and API route.
+ * Pass a priority to have its requests scheduled in that class (default: background)
+ * and a feature name to attribute them in the usage ledger.
+ */
+export function getMarketDataProvider(priority?: RequestPriority, feature?: string): MarketDataProvider {
+  if (!activeProvider) {
+    activeProvider = createMarketDataProvider(getConfiguredProviderName());
+  }
+  return (priority || feature) && activeProvider.withPriority
+    ? activeProvider.withPriority(priority ?? 'background', feature)
+    : activeProvider;
+}
+
+/**
+ * Override the shared provider (tests, admin tooling); pass null to fall back to configuration
+ */
+export function setMarketDataProvider(provider: MarketDataProvider | null): void {
+  activeProvider = provider;
+}
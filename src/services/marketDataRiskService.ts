@@ -3,94 +3,22 @@
  * Comprehensive market data with technical analysis and price tracking
  */
 
-interface RiskFlag {
-  type: 'earnings' | 'volatility' | 'float' | 'news' | 'sector';
-  severity: 'low' | 'medium' | 'high';
-  description: string;
-  impact: number; // 0-1 negative impact on recommendation score
-}
-
-interface PricePerformance {
-  "1h": number;
-  "24h": number;
-  "7d": number;
-  "30d": number;
-  "ytd": number;
-  "1y": number;
-}
-
-interface TechnicalIndicators {
-  sma20: number;
-  sma50: number;
-  sma200: number;
-  ema12: number;
-  ema26: number;
-  rsi14: number;
-  macd: {
-    line: number;
-    signal: number;
-    histogram: number;
-  };
-  bollingerBands: {
-    upper: number;
-    middle: number;
-    lower: number;
-  };
-  atr14: number; // Average True Range
-}
-
-interface VolumeAnalysis {
-  current: number;
-  average20d: number;
-  ratio: number;
-  trend: 'increasing' | 'decreasing' | 'stable';
-}
-
-interface VolatilityMetrics {
-  current: number;
-  average30d: number;
-  percentile: number;
-  ranking: 'LOW' | 'MEDIUM' | 'HIGH';
-}
-
-interface ChartDataPoint {
-  timestamp: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
-
-interface TradingSignal {
-  type: 'BUY' | 'SELL' | 'HOLD' | 'NEUTRAL';
-  indicator: string;
-  strength: number; // 0-1
-  description: string;
-  expires?: string;
-}
-
-interface MarketAnalytics {
-  currentPrice: number;
-  priceChange: {
-    amount: number;
-    percentage: number;
-    timeframe: string;
-  };
-  performance: PricePerformance;
-  volatility: VolatilityMetrics;
-  volume: VolumeAnalysis;
-  technicals: TechnicalIndicators;
-  chartData: ChartDataPoint[];
-  signals: TradingSignal[];
-  trend: {
-    direction: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
-    strength: number;
-    duration: string;
-  };
-  support: number[];
-  resistance: number[];
-}
+import { MarketDataProvider } from './marketDataProvider';
+import { getMarketDataProvider } from './marketDataProviderConfig';
+import { candleStore } from './candleStore';
+import { isIntradayResolution } from './candleResampler';
+import { marketCalendar } from './marketCalendar';
+import { newsSentimentService } from './newsSentimentService';
+import { earningsCalendarService } from './earningsCalendarService';
+import {
+  ChartDataPoint,
+  MarketAnalytics,
+  PricePerformance,
+  RiskFlag,
+  TickerEarnings,
+  VolatilityMetrics,
+  VolumeAnalysis
+} from '@/types';
 
 interface MarketData {
   ticker: string;
@@ -109,26 +37,16 @@ interface MarketData {
   analytics?: MarketAnalytics;
 }
 
-interface EarningsData {
-  ticker: string;
-  earningsDate: string;
-  estimate: number;
-  actual?: number;
-  surprise?: number;
-}
-
 export class MarketDataRiskService {
-  private finnhubApiKey: string;
-  private baseUrl = 'https://finnhub.io/api/v1';
   private marketDataCache = new Map<string, MarketData>();
-  private earningsCache = new Map<string, EarningsData>();
-  private historicalCache = new Map<string, ChartDataPoint[]>();
   private analyticsCache = new Map<string, MarketAnalytics>();
   private cacheExpiry = 15 * 60 * 1000; // 15 minutes
-  private historicalCacheExpiry = 60 * 60 * 1000; // 1 hour
 
-  constructor() {
-    this.finnhubApiKey = process.env.FINNHUB_API_KEY || 'your_finnhub_key_here';
+  /**
+   * Market data provider selected by configuration (background priority)
+   */
+  private get provider(): MarketDataProvider {
+    return getMarketDataProvider('background', 'analytics');
   }
 
   /**
@@ -171,7 +89,7 @@ export class MarketDataRiskService {
         technicals: technicalService.calculateTechnicalIndicators(historicalData),
         chartData: historicalData,
         signals: technicalService.generateTradingSignals(historicalData),
-        trend: technicalService.analyzeTrend(historicalData),
+        trend: technicalService.analyzeTrend(historicalData, marketCalendar.exchangeForSymbol(ticker)),
         support: technicalService.findSupportLevels(historicalData),
         resistance: technicalService.findResistanceLevels(historicalData)
       };
@@ -186,30 +104,24 @@ export class MarketDataRiskService {
   }
 
   /**
-   * Get historical price data
+   * Get historical price data over `timeframe` (e.g. 1Y) at any resolution, resampled from
+   * the finest bars already in the persistent candle store
    */
-  async getHistoricalData(ticker: string, timeframe: string = '1Y'): Promise<ChartDataPoint[]> {
+  async getHistoricalData(ticker: string, timeframe: string = '1Y', resolution: string = 'D'): Promise<ChartDataPoint[]> {
     try {
-      const cacheKey = `${ticker}-${timeframe}`;
-      const cached = this.historicalCache.get(cacheKey);
-      
-      if (cached) {
-        return cached;
-      }
-
       const endDate = Math.floor(Date.now() / 1000);
       const startDate = this.getStartDateForTimeframe(timeframe, endDate);
 
-      const url = `${this.baseUrl}/stock/candle?symbol=${ticker}&resolution=D&from=${startDate}&to=${endDate}&token=${this.finnhubApiKey}`;
-      const response = await fetch(url);
-      const data = await response.json();
+      const { candles: data } = await candleStore.getResampledCandles(ticker, resolution, startDate, endDate, this.provider);
 
-      if (data.s !== 'ok' || !data.c) {
+      if (data.s !== 'ok' || data.c.length === 0) {
         throw new Error(`No historical data available for ${ticker}`);
       }
 
-      const chartData: ChartDataPoint[] = data.t.map((timestamp: number, index: number) => ({
-        timestamp: new Date(timestamp * 1000).toISOString().split('T')[0],
+      const chartData: ChartDataPoint[] = data.t.map((timestamp, index) => ({
+        timestamp: isIntradayResolution(resolution)
+          ? new Date(timestamp * 1000).toISOString()
+          : new Date(timestamp * 1000).toISOString().split('T')[0],
         open: data.o[index],
         high: data.h[index],
         low: data.l[index],
@@ -217,7 +129,6 @@ export class MarketDataRiskService {
         volume: data.v[index]
       }));
 
-      this.historicalCache.set(cacheKey, chartData);
       return chartData;
 
     } catch (error) {
@@ -230,9 +141,7 @@ export class MarketDataRiskService {
    * Get current quote with enhanced data
    */
   private async getCurrentQuote(ticker: string): Promise<any> {
-    const url = `${this.baseUrl}/quote?symbol=${ticker}&token=${this.finnhubApiKey}`;
-    const response = await fetch(url);
-    return await response.json();
+    return this.provider.getQuote(ticker);
   }
 
   /**
@@ -325,7 +234,7 @@ export class MarketDataRiskService {
         volume: quote.v || 0,
         marketCap: profile?.marketCapitalization || 0,
         peRatio: metrics?.peBasicExclExtraTTM || 0,
-        earningsDate: earnings?.earningsDate,
+        earningsDate: earnings?.next?.date,
         volatility30d: this.calculateVolatility(quote),
         shareFloat: profile?.shareOutstanding || 0,
         sector: profile?.finnhubIndustry || 'Unknown',
@@ -350,79 +259,29 @@ export class MarketDataRiskService {
    * Fetch real-time quote data
    */
   private async fetchQuote(ticker: string): Promise<any> {
-    const url = `${this.baseUrl}/quote?symbol=${ticker}&token=${this.finnhubApiKey}`;
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`Quote API error: ${response.status}`);
-    }
-    
-    return response.json();
+    return this.provider.getQuote(ticker);
   }
 
   /**
    * Fetch company profile
    */
   private async fetchCompanyProfile(ticker: string): Promise<any> {
-    const url = `${this.baseUrl}/stock/profile2?symbol=${ticker}&token=${this.finnhubApiKey}`;
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`Profile API error: ${response.status}`);
-    }
-    
-    return response.json();
+    return this.provider.getCompanyProfile(ticker);
   }
 
   /**
    * Fetch basic financial metrics
    */
   private async fetchBasicFinancials(ticker: string): Promise<any> {
-    const url = `${this.baseUrl}/stock/metric?symbol=${ticker}&metric=all&token=${this.finnhubApiKey}`;
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`Metrics API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    return data.metric;
+    return this.provider.getBasicFinancials(ticker);
   }
 
   /**
-   * Fetch earnings calendar
+   * Fetch the next report and surprise history (stored by the earnings calendar service)
    */
-  private async fetchEarningsCalendar(ticker: string): Promise<EarningsData | null> {
+  private async fetchEarningsCalendar(ticker: string): Promise<TickerEarnings | null> {
     try {
-      // Check cache first
-      const cached = this.earningsCache.get(ticker);
-      if (cached) return cached;
-
-      const today = new Date();
-      const future = new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000); // 30 days ahead
-      
-      const url = `${this.baseUrl}/calendar/earnings?from=${this.formatDate(today)}&to=${this.formatDate(future)}&symbol=${ticker}&token=${this.finnhubApiKey}`;
-      const response = await fetch(url);
-      
-      if (!response.ok) return null;
-      
-      const data = await response.json();
-      const earnings = data.earningsCalendar?.[0];
-      
-      if (earnings) {
-        const earningsData: EarningsData = {
-          ticker,
-          earningsDate: earnings.date,
-          estimate: earnings.epsEstimate || 0,
-          actual: earnings.epsActual,
-          surprise: earnings.surprise
-        };
-        
-        this.earningsCache.set(ticker, earningsData);
-        return earningsData;
-      }
-      
-      return null;
+      return await earningsCalendarService.getTickerEarnings(ticker, { provider: this.provider });
     } catch (error) {
       console.error(`Error fetching earnings for ${ticker}:`, error);
       return null;
@@ -447,18 +306,12 @@ export class MarketDataRiskService {
   /**
    * Assess various risk flags for a stock
    */
-  private async assessRiskFlags(marketData: MarketData, earnings: EarningsData | null): Promise<RiskFlag[]> {
+  private async assessRiskFlags(marketData: MarketData, earnings: TickerEarnings | null): Promise<RiskFlag[]> {
     const flags: RiskFlag[] = [];
 
     // Earnings risk
-    if (earnings && this.isEarningsWithin7Days(earnings.earningsDate)) {
-      flags.push({
-        type: 'earnings',
-        severity: 'medium',
-        description: `Earnings announcement on ${earnings.earningsDate}`,
-        impact: 0.15
-      });
-    }
+    const earningsFlag = earnings && earningsCalendarService.toRiskFlag(earnings, { provider: this.provider });
+    if (earningsFlag) flags.push(earningsFlag);
 
     // Volatility risk
     if (marketData.volatility30d > 30) {
@@ -480,6 +333,15 @@ export class MarketDataRiskService {
       });
     }
 
+    // News sentiment risk
+    try {
+      const sentiment = await newsSentimentService.getTickerSentiment(marketData.ticker, { provider: this.provider });
+      const newsFlag = newsSentimentService.toRiskFlag(sentiment);
+      if (newsFlag) flags.push(newsFlag);
+    } catch (error) {
+      console.error(`News sentiment unavailable for ${marketData.ticker}:`, error);
+    }
+
     // P/E ratio risk
     if (marketData.peRatio > 50) {
       flags.push({
@@ -495,25 +357,6 @@ export class MarketDataRiskService {
     return flags;
   }
 
-  /**
-   * Check if earnings are within 7 days
-   */
-  private isEarningsWithin7Days(earningsDate: string): boolean {
-    const earnings = new Date(earningsDate);
-    const today = new Date();
-    const diffTime = Math.abs(earnings.getTime() - today.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    
-    return diffDays <= 7;
-  }
-
-  /**
-   * Format date for API calls
-   */
-  private formatDate(date: Date): string {
-    return date.toISOString().split('T')[0];
-  }
-
   /**
    * Get sector exposure for diversification analysis
    */
@@ -554,55 +397,15 @@ export class MarketDataRiskService {
   }
 
   /**
-   * Get news sentiment for risk assessment
+   * Get news sentiment for risk assessment (score -1..1, see newsSentimentService)
    */
-  async getNewsSentiment(ticker: string, days: number = 7): Promise<{ sentiment: number; newsCount: number }> {
+  async getNewsSentiment(ticker: string, days: number = 7): Promise<{ sentiment: number; newsCount: number; confidence: number }> {
     try {
-      const today = new Date();
-      const past = new Date(today.getTime() - days * 24 * 60 * 60 * 1000);
-      
-      const url = `${this.baseUrl}/company-news?symbol=${ticker}&from=${this.formatDate(past)}&to=${this.formatDate(today)}&token=${this.finnhubApiKey}`;
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        return { sentiment: 0, newsCount: 0 };
-      }
-      
-      const news = await response.json();
-      
-      if (!news || news.length === 0) {
-        return { sentiment: 0, newsCount: 0 };
-      }
-      
-      // Simple sentiment analysis based on headline keywords
-      let totalSentiment = 0;
-      const sentimentKeywords = {
-        positive: ['rally', 'surge', 'gain', 'profit', 'beat', 'strong', 'growth', 'upgrade'],
-        negative: ['fall', 'drop', 'loss', 'miss', 'weak', 'decline', 'downgrade', 'concern']
-      };
-      
-      news.forEach((article: any) => {
-        const headline = article.headline.toLowerCase();
-        let sentiment = 0;
-        
-        sentimentKeywords.positive.forEach(word => {
-          if (headline.includes(word)) sentiment += 1;
-        });
-        
-        sentimentKeywords.negative.forEach(word => {
-          if (headline.includes(word)) sentiment -= 1;
-        });
-        
-        totalSentiment += sentiment;
-      });
-      
-      return {
-        sentiment: news.length > 0 ? totalSentiment / news.length : 0,
-        newsCount: news.length
-      };
+      const result = await newsSentimentService.getTickerSentiment(ticker, { days, provider: this.provider });
+      return { sentiment: result.score, newsCount: result.articleCount, confidence: result.confidence };
     } catch (error) {
       console.error(`Error fetching news sentiment for ${ticker}:`, error);
-      return { sentiment: 0, newsCount: 0 };
+      return { sentiment: 0, newsCount: 0, confidence: 0 };
     }
   }
 
@@ -658,16 +461,14 @@ export class MarketDataRiskService {
    */
   clearCache(): void {
     this.marketDataCache.clear();
-    this.earningsCache.clear();
   }
 
   /**
    * Get cache statistics
    */
-  getCacheStats(): { marketData: number; earnings: number } {
+  getCacheStats(): { marketData: number } {
     return {
-      marketData: this.marketDataCache.size,
-      earnings: this.earningsCache.size
+      marketData: this.marketDataCache.size
     };
   }
 
@@ -0,0 +1,580 @@
+/**
+ * Market Schema Validation
+ * Runtime validators for the market domain types in types/market.ts
+ *
+ * API routes validate payloads before responding so a drifted shape fails loudly at the
+ * server instead of rendering an empty chart on the client.
+ */
+
+import type {
+  BacktestMetrics,
+  BacktestResult,
+  BacktestSignalRule,
+  BacktestStrategy,
+  BacktestTrade,
+  ChartDataPoint,
+  EarningsCalendar,
+  EarningsEvent,
+  EquityPoint,
+  FinnhubQuote,
+  IndicatorResult,
+  MarketAnalytics,
+  PortfolioPerformance,
+  PortfolioRisk,
+  PriceAlert,
+  PriceChartPoint,
+  RealtimePrice,
+  ScoredNewsArticle,
+  ScreenerResult,
+  ScreenerRow,
+  SentimentScore,
+  SignalRuleEvaluation,
+  TechnicalIndicators,
+  TechnicalSeriesPoint,
+  TickerEarnings,
+  TickerSentiment,
+  TradingSignal
+} from '@/types';
+import type { ProviderCandles, ProviderSearchResult } from './marketDataProvider';
+
+export type SchemaValidator<T = unknown> = (value: unknown, path: string, issues: string[]) => value is T;
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  issues: string[];
+}
+
+export class SchemaValidationError extends Error {
+  constructor(public schema: string, public issues: string[]) {
+    super(`${schema} failed validation: ${issues.slice(0, 5).join('; ')}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// Primitive validators
+
+export const isNumber: SchemaValidator<number> = (value, path, issues): value is number => {
+  if (typeof value === 'number' && Number.isFinite(value)) return true;
+  issues.push(`${path}: expected finite number, got ${describe(value)}`);
+  return false;
+};
+
+export const isString: SchemaValidator<string> = (value, path, issues): value is string => {
+  if (typeof value === 'string') return true;
+  issues.push(`${path}: expected string, got ${describe(value)}`);
+  return false;
+};
+
+export const isBoolean: SchemaValidator<boolean> = (value, path, issues): value is boolean => {
+  if (typeof value === 'boolean') return true;
+  issues.push(`${path}: expected boolean, got ${describe(value)}`);
+  return false;
+};
+
+/**
+ * Date instance or ISO string (dates become strings once serialized to JSON)
+ */
+export const isDateLike: SchemaValidator<Date | string> = (value, path, issues): value is Date | string => {
+  const time = value instanceof Date ? value.getTime() : typeof value === 'string' ? Date.parse(value) : NaN;
+  if (!Number.isNaN(time)) return true;
+  issues.push(`${path}: expected date or ISO date string, got ${describe(value)}`);
+  return false;
+};
+
+// Combinators
+
+export function literal<T extends string>(...allowed: T[]): SchemaValidator<T> {
+  return (value, path, issues): value is T => {
+    if (allowed.includes(value as T)) return true;
+    issues.push(`${path}: expected one of ${allowed.join(' | ')}, got ${JSON.stringify(value)}`);
+    return false;
+  };
+}
+
+export function optional<T>(validator: SchemaValidator<T>): SchemaValidator<T | undefined> {
+  return (value, path, issues): value is T | undefined =>
+    value === undefined || value === null || validator(value, path, issues);
+}
+
+export function arrayOf<T>(validator: SchemaValidator<T>): SchemaValidator<T[]> {
+  return (value, path, issues): value is T[] => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path}: expected array, got ${describe(value)}`);
+      return false;
+    }
+    let valid = true;
+    value.forEach((item, index) => {
+      if (!validator(item, `${path}[${index}]`, issues)) valid = false;
+    });
+    return valid;
+  };
+}
+
+export function recordOf<T>(validator: SchemaValidator<T>): SchemaValidator<Record<string, T>> {
+  return (value, path, issues): value is Record<string, T> => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push(`${path}: expected object, got ${describe(value)}`);
+      return false;
+    }
+    let valid = true;
+    Object.entries(value).forEach(([key, item]) => {
+      if (!validator(item, `${path}.${key}`, issues)) valid = false;
+    });
+    return valid;
+  };
+}
+
+/**
+ * Validate an object field by field; extra fields are allowed so envelopes can grow
+ */
+export function objectOf<T>(shape: { [K in keyof T]-?: SchemaValidator<T[K]> }): SchemaValidator<T> {
+  return (value, path, issues): value is T => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push(`${path}: expected object, got ${describe(value)}`);
+      return false;
+    }
+    let valid = true;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const validator = shape[key] as SchemaValidator<unknown>;
+      if (!validator((value as Record<string, unknown>)[key], `${path}.${key}`, issues)) valid = false;
+    }
+    return valid;
+  };
+}
+
+// Domain schemas
+
+export const finnhubQuoteSchema = objectOf<FinnhubQuote>({
+  c: isNumber,
+  d: isNumber,
+  dp: isNumber,
+  h: isNumber,
+  l: isNumber,
+  o: isNumber,
+  pc: isNumber,
+  t: isNumber,
+  v: optional(isNumber)
+});
+
+export const realtimePriceSchema = objectOf<RealtimePrice>({
+  ticker: isString,
+  currentPrice: isNumber,
+  change: isNumber,
+  changePercent: isNumber,
+  high: isNumber,
+  low: isNumber,
+  open: isNumber,
+  previousClose: isNumber,
+  timestamp: isDateLike as SchemaValidator<Date>,
+  volume: optional(isNumber)
+});
+
+export const priceAlertSchema = objectOf<PriceAlert>({
+  id: isString,
+  userId: isString,
+  ticker: isString,
+  upperThreshold: optional(isNumber),
+  lowerThreshold: optional(isNumber),
+  condition: optional(isString),
+  isActive: isBoolean,
+  createdAt: isDateLike as SchemaValidator<Date>,
+  lastTriggered: optional(isDateLike as SchemaValidator<Date>)
+});
+
+export const chartDataPointSchema = objectOf<ChartDataPoint>({
+  timestamp: isString,
+  open: isNumber,
+  high: isNumber,
+  low: isNumber,
+  close: isNumber,
+  volume: isNumber
+});
+
+export const priceChartPointSchema = objectOf<PriceChartPoint>({
+  timestamp: isString,
+  date: isString,
+  open: isNumber,
+  high: isNumber,
+  low: isNumber,
+  close: isNumber,
+  volume: isNumber,
+  sma20: optional(isNumber),
+  sma50: optional(isNumber),
+  sma200: optional(isNumber),
+  ema12: optional(isNumber),
+  ema26: optional(isNumber),
+  rsi: optional(isNumber),
+  macd: optional(isNumber),
+  signal: optional(isNumber),
+  upperBand: optional(isNumber),
+  lowerBand: optional(isNumber)
+});
+
+export const technicalSeriesPointSchema = objectOf<TechnicalSeriesPoint>({
+  date: isString,
+  rsi: optional(isNumber),
+  macd: optional(isNumber),
+  signal: optional(isNumber),
+  histogram: optional(isNumber),
+  stochK: optional(isNumber),
+  stochD: optional(isNumber),
+  atr: optional(isNumber),
+  adx: optional(isNumber),
+  plusDI: optional(isNumber),
+  minusDI: optional(isNumber),
+  cci: optional(isNumber),
+  williamsR: optional(isNumber),
+  mfi: optional(isNumber),
+  obv: optional(isNumber),
+  volume: optional(isNumber)
+});
+
+export const indicatorResultSchema = objectOf<IndicatorResult>({
+  id: literal(
+    'sma', 'ema', 'rsi', 'macd', 'bollinger', 'atr', 'stochastic', 'adx',
+    'obv', 'vwap', 'ichimoku', 'keltner', 'donchian', 'cci', 'williamsR', 'mfi'
+  ),
+  key: isString,
+  name: isString,
+  pane: literal('price', 'oscillator', 'volume'),
+  params: recordOf(isNumber),
+  // Warm-up bars are null, which optional() accepts
+  series: recordOf(arrayOf(optional(isNumber))) as SchemaValidator<IndicatorResult['series']>
+});
+
+export const signalRuleEvaluationSchema = objectOf<SignalRuleEvaluation>({
+  symbol: optional(isString),
+  rule: isString,
+  matched: isBoolean,
+  timestamp: optional(isString),
+  // Terms still warming up are null, which optional() accepts
+  values: recordOf(optional(isNumber)) as SchemaValidator<SignalRuleEvaluation['values']>
+});
+
+export const technicalIndicatorsSchema = objectOf<TechnicalIndicators>({
+  sma20: isNumber,
+  sma50: isNumber,
+  sma200: isNumber,
+  ema12: isNumber,
+  ema26: isNumber,
+  rsi14: isNumber,
+  macd: objectOf<TechnicalIndicators['macd']>({ line: isNumber, signal: isNumber, histogram: isNumber }),
+  bollingerBands: objectOf<TechnicalIndicators['bollingerBands']>({ upper: isNumber, middle: isNumber, lower: isNumber }),
+  atr14: isNumber
+});
+
+export const tradingSignalSchema = objectOf<TradingSignal>({
+  type: literal('BUY', 'SELL', 'HOLD', 'NEUTRAL'),
+  indicator: isString,
+  strength: isNumber,
+  description: isString,
+  expires: optional(isString)
+});
+
+export const marketTrendSchema = objectOf<MarketAnalytics['trend']>({
+  direction: literal('BULLISH', 'BEARISH', 'NEUTRAL'),
+  strength: isNumber,
+  duration: isString
+});
+
+export const backtestStrategySchema = objectOf<BacktestStrategy>({
+  id: optional(isString),
+  name: isString,
+  description: optional(isString),
+  entry: arrayOf(objectOf<BacktestSignalRule>({
+    indicator: isString,
+    type: literal('BUY', 'SELL'),
+    minStrength: optional(isNumber)
+  })),
+  exit: arrayOf(objectOf<BacktestSignalRule>({
+    indicator: isString,
+    type: literal('BUY', 'SELL'),
+    minStrength: optional(isNumber)
+  })),
+  entryMatch: literal('any', 'all'),
+  exitMatch: literal('any', 'all'),
+  stopLossPercent: optional(isNumber),
+  takeProfitPercent: optional(isNumber)
+});
+
+export const backtestResultSchema = objectOf<Pick<BacktestResult, 'symbol' | 'bars' | 'strategy' | 'metrics' | 'equityCurve' | 'trades'>>({
+  symbol: isString,
+  bars: isNumber,
+  strategy: backtestStrategySchema,
+  metrics: objectOf<BacktestMetrics>({
+    totalReturn: isNumber,
+    cagr: isNumber,
+    maxDrawdown: isNumber,
+    sharpeRatio: isNumber,
+    winRate: isNumber,
+    trades: isNumber,
+    profitFactor: optional(isNumber) as SchemaValidator<number | null>,
+    exposure: isNumber,
+    buyAndHoldReturn: isNumber
+  }),
+  equityCurve: arrayOf(objectOf<EquityPoint>({ timestamp: isDateLike as SchemaValidator<string>, equity: isNumber, drawdown: isNumber })),
+  trades: arrayOf(objectOf<BacktestTrade>({
+    entryTime: isString,
+    entryPrice: isNumber,
+    exitTime: isString,
+    exitPrice: isNumber,
+    shares: isNumber,
+    commission: isNumber,
+    pnl: isNumber,
+    returnPercent: isNumber,
+    barsHeld: isNumber,
+    entryReason: isString,
+    exitReason: isString
+  }))
+});
+
+const nullableNumber = optional(isNumber) as SchemaValidator<number | null>;
+
+export const screenerRowSchema = objectOf<ScreenerRow>({
+  ticker: isString,
+  name: isString,
+  sector: isString,
+  industry: optional(isString),
+  exchange: optional(isString),
+  currentPrice: isNumber,
+  change: isNumber,
+  changePercent: isNumber,
+  volume: nullableNumber,
+  averageVolume: nullableNumber,
+  volumeRatio: nullableNumber,
+  marketCap: nullableNumber,
+  peRatio: nullableNumber,
+  dividendYield: nullableNumber,
+  beta: nullableNumber,
+  week52High: nullableNumber,
+  week52Low: nullableNumber,
+  percentFromHigh: nullableNumber,
+  shareFloat: nullableNumber,
+  quoteUpdatedAt: isString,
+  fundamentalsUpdatedAt: isString,
+  signals: optional(recordOf(optional(isNumber)) as SchemaValidator<Record<string, number | null>>)
+});
+
+export const screenerResultSchema = objectOf<ScreenerResult>({
+  rows: arrayOf(screenerRowSchema),
+  total: isNumber,
+  page: isNumber,
+  pageSize: isNumber,
+  universeSize: isNumber,
+  asOf: optional(isString) as SchemaValidator<string | null>,
+  stale: isBoolean,
+  rule: optional(isString)
+});
+
+const sentimentLabelSchema = literal('positive', 'negative', 'neutral');
+
+const sentimentScoreSchema = objectOf<SentimentScore>({
+  score: isNumber,
+  label: sentimentLabelSchema,
+  confidence: isNumber,
+  terms: arrayOf(isString)
+});
+
+export const scoredNewsArticleSchema = objectOf<ScoredNewsArticle>({
+  id: isString,
+  symbol: isString,
+  headline: isString,
+  source: optional(isString),
+  url: optional(isString),
+  publishedAt: isString,
+  sentiment: sentimentScoreSchema,
+  mentions: arrayOf(objectOf({
+    symbol: isString,
+    text: isString,
+    start: isNumber,
+    end: isNumber,
+    via: literal('cashtag', 'exchange', 'symbol', 'name'),
+    confidence: isNumber
+  })),
+  relevance: isNumber
+});
+
+export const tickerSentimentSchema = objectOf<TickerSentiment>({
+  symbol: isString,
+  score: isNumber,
+  label: sentimentLabelSchema,
+  confidence: isNumber,
+  articleCount: isNumber,
+  days: isNumber,
+  series: arrayOf(objectOf({
+    date: isString,
+    score: isNumber,
+    confidence: isNumber,
+    articleCount: isNumber
+  })),
+  articles: arrayOf(scoredNewsArticleSchema),
+  updatedAt: isString
+});
+
+const earningsEventShape = {
+  symbol: isString,
+  date: isString,
+  hour: literal('bmo', 'amc', 'dmh', 'unknown'),
+  quarter: optional(isNumber),
+  year: optional(isNumber),
+  epsEstimate: nullableNumber,
+  epsActual: nullableNumber,
+  epsSurprise: nullableNumber,
+  epsSurprisePercent: nullableNumber,
+  revenueEstimate: nullableNumber,
+  revenueActual: nullableNumber,
+  revenueSurprisePercent: nullableNumber
+};
+
+export const earningsEventSchema = objectOf<EarningsEvent>(earningsEventShape);
+
+export const tickerEarningsSchema = objectOf<TickerEarnings>({
+  symbol: isString,
+  next: optional(earningsEventSchema) as SchemaValidator<EarningsEvent | null>,
+  history: arrayOf(earningsEventSchema),
+  beatRate: nullableNumber,
+  averageSurprisePercent: nullableNumber,
+  updatedAt: isString
+});
+
+export const earningsCalendarSchema = objectOf<EarningsCalendar>({
+  from: isString,
+  to: isString,
+  entries: arrayOf(objectOf({
+    ...earningsEventShape,
+    daysUntil: isNumber,
+    tradingDaysUntil: isNumber,
+    lastSurprisePercent: nullableNumber,
+    beatRate: nullableNumber
+  })),
+  failed: arrayOf(isString)
+});
+
+export const portfolioRiskSchema = objectOf<PortfolioRisk>({
+  asOf: isString,
+  benchmark: isString,
+  lookbackDays: isNumber,
+  observations: isNumber,
+  totalValue: isNumber,
+  beta: nullableNumber,
+  volatility: isNumber,
+  maxDrawdown: isNumber,
+  valueAtRisk: arrayOf(objectOf({
+    confidence: isNumber,
+    horizonDays: isNumber,
+    historical: isNumber,
+    parametric: isNumber,
+    historicalCVaR: isNumber,
+    parametricCVaR: isNumber
+  })),
+  correlation: objectOf({
+    tickers: arrayOf(isString),
+    values: arrayOf(arrayOf(isNumber)),
+    clusters: arrayOf(arrayOf(isString)),
+    threshold: isNumber
+  }),
+  positions: arrayOf(objectOf({
+    ticker: isString,
+    quantity: isNumber,
+    price: isNumber,
+    value: isNumber,
+    weight: isNumber,
+    beta: nullableNumber,
+    volatility: isNumber,
+    riskContribution: isNumber,
+    componentVaR: isNumber,
+    scenarioChange: isNumber
+  })),
+  scenario: objectOf({
+    marketMovePercent: isNumber,
+    expectedChange: isNumber,
+    expectedChangePercent: isNumber,
+    historicalChangePercent: nullableNumber,
+    historicalDays: isNumber
+  }),
+  missing: arrayOf(isString)
+});
+
+export const portfolioPerformanceSchema = objectOf<PortfolioPerformance>({
+  period: literal('1M', '3M', 'YTD', '1Y', 'ALL'),
+  from: isString,
+  to: isString,
+  startValue: isNumber,
+  endValue: isNumber,
+  contributions: isNumber,
+  withdrawals: isNumber,
+  dividends: isNumber,
+  gain: isNumber,
+  timeWeightedReturn: isNumber,
+  annualizedReturn: nullableNumber,
+  moneyWeightedReturn: nullableNumber,
+  points: arrayOf(objectOf({
+    date: isString,
+    value: isNumber,
+    netFlow: isNumber,
+    cumulativeReturn: isNumber,
+    benchmarks: recordOf(nullableNumber)
+  })),
+  benchmarks: arrayOf(objectOf({
+    symbol: isString,
+    totalReturn: isNumber,
+    annualizedReturn: nullableNumber,
+    excessReturn: isNumber
+  })),
+  missing: arrayOf(isString)
+});
+
+/**
+ * Candle arrays must be present and equally long when the status is ok
+ */
+export const providerCandlesSchema: SchemaValidator<ProviderCandles> = (value, path, issues): value is ProviderCandles => {
+  const shape = objectOf<ProviderCandles>({
+    s: literal('ok', 'no_data', 'error'),
+    c: arrayOf(isNumber),
+    h: arrayOf(isNumber),
+    l: arrayOf(isNumber),
+    o: arrayOf(isNumber),
+    t: arrayOf(isNumber),
+    v: arrayOf(isNumber)
+  });
+  if (!shape(value, path, issues)) return false;
+
+  const length = value.c.length;
+  const mismatched = (['h', 'l', 'o', 't', 'v'] as const).filter(key => value[key].length !== length);
+  if (mismatched.length > 0) {
+    issues.push(`${path}: array lengths differ from close prices (${mismatched.join(', ')})`);
+    return false;
+  }
+  return true;
+};
+
+export const searchResultSchema = objectOf<Pick<ProviderSearchResult, 'symbol' | 'description'>>({
+  symbol: isString,
+  description: isString
+});
+
+/**
+ * Run a validator and collect every issue instead of stopping at the first
+ */
+export function validateSchema<T>(validator: SchemaValidator<T>, value: unknown, path = '$'): SchemaValidationResult {
+  const issues: string[] = [];
+  const valid = validator(value, path, issues);
+  return { valid: valid && issues.length === 0, issues };
+}
+
+/**
+ * Validate and narrow a value, throwing SchemaValidationError on mismatch
+ */
+export function assertSchema<T>(schema: string, validator: SchemaValidator<T>, value: unknown): T {
+  const result = validateSchema(validator, value);
+  if (!result.valid) {
+    throw new SchemaValidationError(schema, result.issues);
+  }
+  return value as T;
+}
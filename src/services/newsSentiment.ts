@@ -0,0 +1,301 @@
+/**
+ * News Sentiment
+ * Finance-domain lexicon scoring for headlines and article summaries
+ *
+ * Text is tokenized into lowercase words and the longest lexicon phrase is matched at each
+ * position, so "beat estimates" and "price target cut" score as one term and "all-time high"
+ * matches "all time high". A negator ("not", "no", "didn't", "fails to", ...) flips every
+ * term up to three words after it until the clause ends; intensifiers and softeners right
+ * before a term scale it. The summed term weights are squashed into -1..1, and confidence
+ * rises with the number of terms and how much they agree. Pure functions only, so articles
+ * are also scored in the browser.
+ */
+
+import { SentimentLabel, SentimentScore } from '@/types';
+
+// Weights run from -1 (clearly bearish) to 1 (clearly bullish); words are matched whole
+const LEXICON: Record<string, number> = {
+  // Results and guidance
+  'beat': 0.6,
+  'beats': 0.6,
+  'beat estimates': 0.9,
+  'beats estimates': 0.9,
+  'tops estimates': 0.9,
+  'better than expected': 0.8,
+  'record revenue': 0.9,
+  'record profit': 0.9,
+  'raises guidance': 0.9,
+  'raised guidance': 0.9,
+  'boosts guidance': 0.9,
+  'guidance raised': 0.9,
+  'miss': -0.6,
+  'misses': -0.6,
+  'missed': -0.6,
+  'misses estimates': -0.9,
+  'missed estimates': -0.9,
+  'worse than expected': -0.8,
+  'cuts guidance': -0.9,
+  'lowers guidance': -0.9,
+  'guidance cut': -0.9,
+  'profit warning': -0.9,
+  'shortfall': -0.6,
+  'writedown': -0.6,
+  'write down': -0.6,
+  'impairment': -0.5,
+  'restatement': -0.7,
+  // Price action
+  'surge': 0.7,
+  'surges': 0.7,
+  'soar': 0.8,
+  'soars': 0.8,
+  'jump': 0.6,
+  'jumps': 0.6,
+  'rally': 0.6,
+  'rallies': 0.6,
+  'gain': 0.4,
+  'gains': 0.4,
+  'rise': 0.4,
+  'rises': 0.4,
+  'climb': 0.4,
+  'climbs': 0.4,
+  'rebound': 0.5,
+  'rebounds': 0.5,
+  'all time high': 0.7,
+  'record high': 0.7,
+  'impress': 0.4,
+  'impresses': 0.4,
+  'disappoint': -0.6,
+  'disappoints': -0.6,
+  'disappointing': -0.6,
+  'outperform': 0.6,
+  'outperforms': 0.6,
+  'plunge': -0.8,
+  'plunges': -0.8,
+  'plummet': -0.8,
+  'plummets': -0.8,
+  'tumble': -0.7,
+  'tumbles': -0.7,
+  'slump': -0.6,
+  'slumps': -0.6,
+  'sink': -0.5,
+  'sinks': -0.5,
+  'fall': -0.4,
+  'falls': -0.4,
+  'drop': -0.4,
+  'drops': -0.4,
+  'decline': -0.4,
+  'declines': -0.4,
+  'slide': -0.4,
+  'slides': -0.4,
+  'selloff': -0.6,
+  'sell off': -0.6,
+  'crash': -0.9,
+  'crashes': -0.9,
+  'underperform': -0.6,
+  'underperforms': -0.6,
+  '52 week low': -0.5,
+  // Analysts
+  'upgrade': 0.7,
+  'upgrades': 0.7,
+  'upgraded': 0.7,
+  'price target raised': 0.6,
+  'raises price target': 0.6,
+  'buy rating': 0.5,
+  'overweight': 0.4,
+  'downgrade': -0.7,
+  'downgrades': -0.7,
+  'downgraded': -0.7,
+  'price target cut': -0.6,
+  'cuts price target': -0.6,
+  'sell rating': -0.5,
+  'underweight': -0.4,
+  // Business
+  'growth': 0.4,
+  'profit': 0.4,
+  'profitable': 0.5,
+  'strong': 0.4,
+  'robust': 0.5,
+  'momentum': 0.3,
+  'expansion': 0.3,
+  'breakthrough': 0.6,
+  'approval': 0.5,
+  'approved': 0.5,
+  'wins': 0.4,
+  'partnership': 0.3,
+  'buyback': 0.5,
+  'share repurchase': 0.5,
+  'dividend increase': 0.6,
+  'raises dividend': 0.6,
+  'bullish': 0.6,
+  'optimistic': 0.5,
+  'upbeat': 0.5,
+  'loss': -0.5,
+  'losses': -0.5,
+  'weak': -0.4,
+  'weakness': -0.4,
+  'slowdown': -0.5,
+  'layoffs': -0.5,
+  'job cuts': -0.5,
+  'recall': -0.5,
+  'delay': -0.3,
+  'delays': -0.3,
+  'lawsuit': -0.5,
+  'sued': -0.5,
+  'probe': -0.5,
+  'investigation': -0.5,
+  'fraud': -0.9,
+  'scandal': -0.8,
+  'fined': -0.5,
+  'penalty': -0.5,
+  'bankruptcy': -1,
+  'chapter 11': -1,
+  'going concern': -0.9,
+  'defaults': -0.8,
+  'dividend cut': -0.7,
+  'suspends dividend': -0.8,
+  'short seller': -0.5,
+  'bearish': -0.6,
+  'pessimistic': -0.5,
+  'concern': -0.3,
+  'concerns': -0.3,
+  'warning': -0.5,
+  'warns': -0.5,
+  'risk': -0.2,
+  'risks': -0.2,
+  'volatile': -0.2,
+  'recession': -0.6,
+  'headwinds': -0.4,
+  'tailwinds': 0.4
+};
+
+const NEGATORS = new Set(['not', 'no', 'never', 'without', 'nor', 'neither', 'hardly', 'barely']);
+const NEGATOR_PHRASES = ['fails to', 'failed to', 'unable to', 'lack of'];
+const NEGATION_WINDOW = 3;
+
+const INTENSIFIERS: Record<string, number> = {
+  sharply: 1.5,
+  significantly: 1.4,
+  strongly: 1.4,
+  massive: 1.5,
+  huge: 1.4,
+  record: 1.3,
+  steep: 1.4,
+  slightly: 0.5,
+  modestly: 0.6,
+  marginally: 0.5,
+  somewhat: 0.6
+};
+
+// Squashing constant: a summed weight of 1 scores 0.45, 2 scores 0.71 (larger = more conservative)
+const SCORE_ALPHA = 4;
+export const SENTIMENT_THRESHOLD = 0.15;
+
+const PHRASES = Object.keys(LEXICON).map(phrase => phrase.split(' '));
+const MAX_PHRASE_LENGTH = Math.max(...PHRASES.map(words => words.length));
+
+/**
+ * Lowercase words and clause punctuation; hyphenated words split ("all-time" → all, time)
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/[\u2018\u2019]/g, "'").match(/[a-z0-9]+(?:'[a-z]+)?|[.!?;:,]/g) ?? [];
+}
+
+function isClauseEnd(token: string): boolean {
+  return /^[.!?;:,]$/.test(token);
+}
+
+/**
+ * Number of tokens forming a negator at `index` (0 when there is none)
+ */
+function negatorLength(tokens: string[], index: number): number {
+  const token = tokens[index];
+  if (NEGATORS.has(token) || token.endsWith("n't")) return 1;
+  const pair = `${token} ${tokens[index + 1] ?? ''}`;
+  return NEGATOR_PHRASES.includes(pair) ? 2 : 0;
+}
+
+function matchPhrase(tokens: string[], index: number): string | null {
+  for (let length = Math.min(MAX_PHRASE_LENGTH, tokens.length - index); length > 0; length--) {
+    const phrase = tokens.slice(index, index + length).join(' ');
+    if (Object.prototype.hasOwnProperty.call(LEXICON, phrase)) return phrase;
+  }
+  return null;
+}
+
+export function sentimentLabel(score: number): SentimentLabel {
+  if (score >= SENTIMENT_THRESHOLD) return 'positive';
+  if (score <= -SENTIMENT_THRESHOLD) return 'negative';
+  return 'neutral';
+}
+
+interface TermHit {
+  term: string;
+  value: number;
+}
+
+function collectTerms(text: string, weight: number): TermHit[] {
+  const tokens = tokenize(text);
+  const hits: TermHit[] = [];
+  let negatedUntil = -1;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (isClauseEnd(token)) {
+      negatedUntil = -1;
+      continue;
+    }
+
+    const negator = negatorLength(tokens, i);
+    if (negator > 0) {
+      negatedUntil = i + negator - 1 + NEGATION_WINDOW;
+      i += negator - 1;
+      continue;
+    }
+
+    const phrase = matchPhrase(tokens, i);
+    if (!phrase) continue;
+
+    const negated = i <= negatedUntil;
+    const scale = INTENSIFIERS[tokens[i - 1]] ?? 1;
+    hits.push({
+      term: negated ? `not ${phrase}` : phrase,
+      value: LEXICON[phrase] * scale * weight * (negated ? -1 : 1)
+    });
+    i += phrase.split(' ').length - 1;
+  }
+
+  return hits;
+}
+
+function scoreHits(hits: TermHit[]): SentimentScore {
+  if (hits.length === 0) {
+    return { score: 0, label: 'neutral', confidence: 0, terms: [] };
+  }
+
+  const sum = hits.reduce((total, hit) => total + hit.value, 0);
+  const magnitude = hits.reduce((total, hit) => total + Math.abs(hit.value), 0);
+  const score = sum / Math.sqrt(sum * sum + SCORE_ALPHA);
+  const agreement = magnitude > 0 ? Math.abs(sum) / magnitude : 0;
+  const confidence = (1 - Math.exp(-magnitude / 1.5)) * (0.4 + 0.6 * agreement);
+
+  return {
+    score: Math.round(score * 1000) / 1000,
+    label: sentimentLabel(score),
+    confidence: Math.round(confidence * 1000) / 1000,
+    terms: hits.map(hit => hit.term)
+  };
+}
+
+/**
+ * Sentiment of a piece of text
+ */
+export function analyzeSentiment(text: string): SentimentScore {
+  return scoreHits(collectTerms(text, 1));
+}
+
+/**
+ * Sentiment of an article; headline terms count twice as much as summary terms
+ */
+export function analyzeArticleSentiment(headline: string, summary = ''): SentimentScore {
+  return scoreHits([...collectTerms(headline, 2), ...collectTerms(summary, 1)]);
+}
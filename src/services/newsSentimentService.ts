@@ -0,0 +1,316 @@
+/**
+ * News Sentiment Service
+ * Scores company news per ticker and keeps a daily sentiment time series
+ *
+ * Each article from the provider's company news is scored once (services/newsSentiment.ts)
+ * and linked to the tickers it names (services/nlpTickerService.ts). Relevance to the ticker
+ * comes from those links: an article that names the company counts fully, one the provider
+ * only tagged with the symbol counts less, and one that is about other companies counts
+ * least. Scored articles are kept in NEWS_SENTIMENT_DIR (default: data/news-sentiment) as
+ * `<provider>/<SYMBOL>.json` for NEWS_SENTIMENT_RETENTION_DAYS, so the series outlives the
+ * provider's news window; replay fixtures are scored on every call and not stored.
+ *
+ * A ticker's score is the mean article score weighted by relevance, article confidence and
+ * recency (half-life of HALF_LIFE_DAYS); confidence grows with the total weight behind it.
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { RiskFlag, ScoredNewsArticle, SentimentPoint, TickerSentiment } from '@/types';
+import { MarketDataProvider, ProviderNewsArticle } from './marketDataProvider';
+import { getMarketDataProvider } from './marketDataProviderConfig';
+import { analyzeArticleSentiment, sentimentLabel } from './newsSentiment';
+import { nlpTickerService } from './nlpTickerService';
+import { replayClock } from './replayClock';
+
+interface NewsSentimentFile {
+  version: 1;
+  provider: string;
+  symbol: string;
+  articles: ScoredNewsArticle[]; // Newest first
+  fetchedAt: number;
+}
+
+const FILE_VERSION = 1;
+const REFRESH_TTL_MS = 15 * 60 * 1000;
+const DAY_SECONDS = 24 * 60 * 60;
+const HALF_LIFE_DAYS = 3;
+const MAX_STORED_ARTICLES = 1000;
+const DEFAULT_RETENTION_DAYS = 180;
+
+// Relevance of an article the provider returned for a symbol it does not name, when it
+// names no company at all and when it names other companies
+const TAGGED_RELEVANCE = 0.4;
+const UNRELATED_RELEVANCE = 0.2;
+
+// A negative score needs this much confidence and coverage before it becomes a risk flag
+const RISK_SCORE = -0.25;
+const HIGH_RISK_SCORE = -0.5;
+const RISK_MIN_CONFIDENCE = 0.4;
+const RISK_MIN_ARTICLES = 2;
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Confidence behind a weighted mean: 0 with no weight, ~0.63 at weight 1, ~0.86 at 2
+ */
+function weightConfidence(totalWeight: number): number {
+  return round(1 - Math.exp(-totalWeight));
+}
+
+function articleId(article: ProviderNewsArticle): string {
+  return article.id !== undefined ? String(article.id) : `${article.datetime}:${article.url ?? article.headline}`;
+}
+
+export class NewsSentimentService {
+  private baseDir: string;
+  private retentionDays: number;
+  private series = new Map<string, NewsSentimentFile>();
+  private refreshes = new Map<string, Promise<NewsSentimentFile>>();
+  private profileLookups = new Set<string>();
+
+  constructor(baseDir?: string) {
+    this.baseDir = path.resolve(
+      baseDir ?? process.env.NEWS_SENTIMENT_DIR ?? path.join(process.cwd(), 'data', 'news-sentiment')
+    );
+    this.retentionDays = Number(process.env.NEWS_SENTIMENT_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS;
+  }
+
+  /**
+   * Aggregated sentiment over the last `days` and the daily series over `seriesDays`
+   */
+  async getTickerSentiment(
+    symbol: string,
+    options: { days?: number; seriesDays?: number; provider?: MarketDataProvider } = {}
+  ): Promise<TickerSentiment> {
+    const normalizedSymbol = symbol.toUpperCase();
+    const days = Math.max(1, options.days ?? 7);
+    const seriesDays = Math.max(days, options.seriesDays ?? 30);
+    const provider = options.provider ?? getMarketDataProvider('background', 'news-sentiment');
+    const now = provider.name === 'replay' ? replayClock.nowSeconds() : Math.floor(Date.now() / 1000);
+
+    const articles = await this.getArticles(provider, normalizedSymbol, now, seriesDays);
+    const windowStart = now - days * DAY_SECONDS;
+    const recent = articles.filter(article => Date.parse(article.publishedAt) / 1000 >= windowStart);
+
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const article of recent) {
+      const ageDays = Math.max(0, now - Date.parse(article.publishedAt) / 1000) / DAY_SECONDS;
+      const weight = article.relevance * article.sentiment.confidence * Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+      weighted += article.sentiment.score * weight;
+      totalWeight += weight;
+    }
+    const score = totalWeight > 0 ? round(weighted / totalWeight) : 0;
+
+    return {
+      symbol: normalizedSymbol,
+      score,
+      label: sentimentLabel(score),
+      confidence: weightConfidence(totalWeight),
+      articleCount: recent.length,
+      days,
+      series: this.dailySeries(articles, now - seriesDays * DAY_SECONDS),
+      articles: recent,
+      updatedAt: new Date(now * 1000).toISOString()
+    };
+  }
+
+  /**
+   * `news` risk flag for clearly negative, well-covered sentiment; null otherwise
+   */
+  toRiskFlag(sentiment: TickerSentiment): RiskFlag | null {
+    if (sentiment.score > RISK_SCORE || sentiment.confidence < RISK_MIN_CONFIDENCE
+      || sentiment.articleCount < RISK_MIN_ARTICLES) {
+      return null;
+    }
+
+    const high = sentiment.score <= HIGH_RISK_SCORE;
+    return {
+      type: 'news',
+      severity: high ? 'high' : 'medium',
+      description: `Negative news sentiment: ${sentiment.score.toFixed(2)} across ${sentiment.articleCount} articles in ${sentiment.days} days (${Math.round(sentiment.confidence * 100)}% confidence)`,
+      impact: high ? 0.15 : 0.08
+    };
+  }
+
+  /**
+   * Score one provider article for a symbol
+   */
+  scoreArticle(symbol: string, article: ProviderNewsArticle): ScoredNewsArticle {
+    const text = `${article.headline}. ${article.summary ?? ''}`;
+    const mentions = nlpTickerService.linkEntities(text);
+    const own = mentions.find(mention => mention.symbol === symbol);
+
+    return {
+      id: articleId(article),
+      symbol,
+      headline: article.headline,
+      ...(article.source ? { source: article.source } : {}),
+      ...(article.url ? { url: article.url } : {}),
+      publishedAt: new Date(article.datetime * 1000).toISOString(),
+      sentiment: analyzeArticleSentiment(article.headline, article.summary ?? ''),
+      mentions,
+      relevance: own ? own.confidence : mentions.length === 0 ? TAGGED_RELEVANCE : UNRELATED_RELEVANCE
+    };
+  }
+
+  private dailySeries(articles: ScoredNewsArticle[], fromSeconds: number): SentimentPoint[] {
+    const days = new Map<string, { weighted: number; weight: number; count: number }>();
+    for (const article of articles) {
+      if (Date.parse(article.publishedAt) / 1000 < fromSeconds) continue;
+      const date = article.publishedAt.slice(0, 10);
+      const day = days.get(date) ?? { weighted: 0, weight: 0, count: 0 };
+      const weight = article.relevance * article.sentiment.confidence;
+      day.weighted += article.sentiment.score * weight;
+      day.weight += weight;
+      day.count++;
+      days.set(date, day);
+    }
+
+    return Array.from(days.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, day]) => ({
+        date,
+        score: day.weight > 0 ? round(day.weighted / day.weight) : 0,
+        confidence: weightConfidence(day.weight),
+        articleCount: day.count
+      }));
+  }
+
+  /**
+   * Scored articles newer than `seriesDays`, newest first; stored articles are refreshed at
+   * most once per REFRESH_TTL_MS
+   */
+  private async getArticles(
+    provider: MarketDataProvider,
+    symbol: string,
+    now: number,
+    seriesDays: number
+  ): Promise<ScoredNewsArticle[]> {
+    await this.indexCompanyName(provider, symbol);
+
+    if (provider.name === 'replay') {
+      const news = await provider.getCompanyNews(symbol, this.formatDate(now - seriesDays * DAY_SECONDS), this.formatDate(now));
+      return news
+        .filter(article => article.datetime <= now)
+        .map(article => this.scoreArticle(symbol, article))
+        .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+    }
+
+    let stored = await this.load(provider.name, symbol);
+    if (Date.now() - stored.fetchedAt >= REFRESH_TTL_MS) {
+      const key = `${provider.name}/${symbol}`;
+      let refresh = this.refreshes.get(key);
+      if (!refresh) {
+        refresh = this.refresh(provider, stored, seriesDays).finally(() => this.refreshes.delete(key));
+        this.refreshes.set(key, refresh);
+      }
+      stored = await refresh;
+    }
+
+    const since = now - seriesDays * DAY_SECONDS;
+    return stored.articles.filter(article => Date.parse(article.publishedAt) / 1000 >= since);
+  }
+
+  /**
+   * Fetch news since the newest stored article (or the series window) and score what is new;
+   * a failed fetch keeps the stored articles and is retried after the next TTL
+   */
+  private async refresh(provider: MarketDataProvider, stored: NewsSentimentFile, seriesDays: number): Promise<NewsSentimentFile> {
+    const now = Math.floor(Date.now() / 1000);
+    const newest = stored.articles[0] ? Date.parse(stored.articles[0].publishedAt) / 1000 : 0;
+    const from = Math.max(newest - DAY_SECONDS, now - seriesDays * DAY_SECONDS);
+
+    let articles = stored.articles;
+    try {
+      const news = await provider.getCompanyNews(stored.symbol, this.formatDate(from), this.formatDate(now));
+      const known = new Set(stored.articles.map(article => article.id));
+      const scored = news
+        .filter(article => article.headline && !known.has(articleId(article)))
+        .map(article => this.scoreArticle(stored.symbol, article));
+
+      const retainFrom = now - this.retentionDays * DAY_SECONDS;
+      articles = [...scored, ...stored.articles]
+        .filter(article => Date.parse(article.publishedAt) / 1000 >= retainFrom)
+        .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))
+        .slice(0, MAX_STORED_ARTICLES);
+    } catch (error) {
+      console.error(`News refresh for ${stored.symbol} failed, using stored sentiment:`, error);
+    }
+
+    const updated: NewsSentimentFile = { ...stored, articles, fetchedAt: Date.now() };
+    this.series.set(`${provider.name}/${stored.symbol}`, updated);
+
+    try {
+      await this.save(updated);
+    } catch (error) {
+      console.error(`Failed to store news sentiment for ${stored.symbol}:`, error);
+    }
+    return updated;
+  }
+
+  /**
+   * Make sure the ticker's own company name links, so articles that only name the company
+   * count as about it; looked up once per symbol
+   */
+  private async indexCompanyName(provider: MarketDataProvider, symbol: string): Promise<void> {
+    if (nlpTickerService.hasSymbol(symbol) || this.profileLookups.has(symbol)) return;
+    this.profileLookups.add(symbol);
+
+    try {
+      const profile = await provider.getCompanyProfile(symbol);
+      if (profile.name) {
+        nlpTickerService.indexCompanies([{ symbol, description: profile.name }]);
+      }
+    } catch (error) {
+      console.error(`Company name lookup for ${symbol} failed:`, error);
+    }
+  }
+
+  private async load(providerName: string, symbol: string): Promise<NewsSentimentFile> {
+    const key = `${providerName}/${symbol}`;
+    const cached = this.series.get(key);
+    if (cached) return cached;
+
+    const filePath = this.filePath(providerName, symbol);
+    let stored: NewsSentimentFile = { version: FILE_VERSION, provider: providerName, symbol, articles: [], fetchedAt: 0 };
+
+    if (existsSync(filePath)) {
+      try {
+        const parsed = JSON.parse(await fs.readFile(filePath, 'utf-8')) as NewsSentimentFile;
+        if (parsed.version === FILE_VERSION && Array.isArray(parsed.articles)) {
+          stored = parsed;
+        }
+      } catch (error) {
+        console.error(`Ignoring unreadable news sentiment file ${filePath}:`, error);
+      }
+    }
+
+    this.series.set(key, stored);
+    return stored;
+  }
+
+  private async save(stored: NewsSentimentFile): Promise<void> {
+    const filePath = this.filePath(stored.provider, stored.symbol);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(stored));
+    await fs.rename(tempPath, filePath);
+  }
+
+  private filePath(providerName: string, symbol: string): string {
+    return path.join(this.baseDir, providerName, `${symbol.replace(/[^A-Za-z0-9._-]/g, '_')}.json`);
+  }
+
+  private formatDate(seconds: number): string {
+    return new Date(seconds * 1000).toISOString().slice(0, 10);
+  }
+}
+
+// Singleton instance
+export const newsSentimentService = new NewsSentimentService();
+export default newsSentimentService;
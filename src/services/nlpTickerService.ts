@@ -1,13 +1,412 @@
 /**
- * NLP Ticker Service (Stub)
- * Minimal implementation to resolve build dependencies
+ * NLP Ticker Service
+ * Links company names and ticker symbols in free text to tickers, and reads simple intents
+ *
+ * Mentions are found four ways, most reliable first: cashtags ($AAPL), exchange-qualified
+ * symbols (NASDAQ: AAPL), bare upper-case symbols (AAPL) and company names (Apple Inc.,
+ * Microsoft). Names come from a seed list of large caps plus every symbol search result the
+ * app has seen, normalized without legal suffixes. Because many names are ordinary words,
+ * a name must be capitalized as written, and a name that is also a common word ("Apple",
+ * "Target", "Shell") only counts next to a corporate suffix or in text with market context
+ * (shares, earnings, analysts, ...). That keeps "Apple pie recipe" from being tagged AAPL.
+ * Bare symbols that double as words or abbreviations (A, IT, ALL, CEO) need a cashtag or
+ * exchange prefix.
+ *
+ * For chat, `parse` also finds what the message asks for (price, performance, buy, sell,
+ * alert, news, watchlist) and relaxes casing, so "how's microsoft doing?" resolves to MSFT.
+ * Every mention and intent carries its character span. Safe to use in the browser.
  */
 
-class NLPTickerService {
-  // Placeholder implementation
-  extractTickers(text: string): string[] {
-    return [];
+import { TickerIntent, TickerIntentType, TickerMention, TickerQuery } from '@/types';
+
+interface CompanyEntry {
+  symbol: string;
+  name: string;
+  aliases?: string[]; // Extra names, e.g. brands and former names
+}
+
+interface IndexedAlias {
+  symbol: string;
+  tokens: string[]; // Lowercase
+  ambiguous: boolean; // Also an everyday word; needs a suffix or market context
+}
+
+const SEED_COMPANIES: CompanyEntry[] = [
+  { symbol: 'AAPL', name: 'Apple' },
+  { symbol: 'MSFT', name: 'Microsoft' },
+  { symbol: 'GOOGL', name: 'Alphabet', aliases: ['Google'] },
+  { symbol: 'AMZN', name: 'Amazon', aliases: ['Amazon.com'] },
+  { symbol: 'META', name: 'Meta Platforms', aliases: ['Meta', 'Facebook'] },
+  { symbol: 'NVDA', name: 'NVIDIA', aliases: ['Nvidia'] },
+  { symbol: 'TSLA', name: 'Tesla' },
+  { symbol: 'NFLX', name: 'Netflix' },
+  { symbol: 'AMD', name: 'Advanced Micro Devices' },
+  { symbol: 'INTC', name: 'Intel' },
+  { symbol: 'ORCL', name: 'Oracle' },
+  { symbol: 'CRM', name: 'Salesforce' },
+  { symbol: 'ADBE', name: 'Adobe' },
+  { symbol: 'IBM', name: 'International Business Machines' },
+  { symbol: 'CSCO', name: 'Cisco Systems', aliases: ['Cisco'] },
+  { symbol: 'AVGO', name: 'Broadcom' },
+  { symbol: 'QCOM', name: 'Qualcomm' },
+  { symbol: 'TSM', name: 'Taiwan Semiconductor Manufacturing', aliases: ['TSMC'] },
+  { symbol: 'BABA', name: 'Alibaba Group', aliases: ['Alibaba'] },
+  { symbol: 'JPM', name: 'JPMorgan Chase', aliases: ['JPMorgan', 'JP Morgan'] },
+  { symbol: 'BAC', name: 'Bank of America' },
+  { symbol: 'WFC', name: 'Wells Fargo' },
+  { symbol: 'GS', name: 'Goldman Sachs' },
+  { symbol: 'MS', name: 'Morgan Stanley' },
+  { symbol: 'V', name: 'Visa' },
+  { symbol: 'MA', name: 'Mastercard' },
+  { symbol: 'BRK.B', name: 'Berkshire Hathaway' },
+  { symbol: 'JNJ', name: 'Johnson & Johnson' },
+  { symbol: 'PFE', name: 'Pfizer' },
+  { symbol: 'UNH', name: 'UnitedHealth Group', aliases: ['UnitedHealth'] },
+  { symbol: 'MRK', name: 'Merck' },
+  { symbol: 'ABBV', name: 'AbbVie' },
+  { symbol: 'LLY', name: 'Eli Lilly' },
+  { symbol: 'XOM', name: 'Exxon Mobil', aliases: ['Exxon', 'ExxonMobil'] },
+  { symbol: 'CVX', name: 'Chevron' },
+  { symbol: 'SHEL', name: 'Shell' },
+  { symbol: 'WMT', name: 'Walmart' },
+  { symbol: 'TGT', name: 'Target' },
+  { symbol: 'COST', name: 'Costco Wholesale', aliases: ['Costco'] },
+  { symbol: 'HD', name: 'Home Depot' },
+  { symbol: 'PG', name: 'Procter & Gamble' },
+  { symbol: 'KO', name: 'Coca-Cola' },
+  { symbol: 'PEP', name: 'PepsiCo' },
+  { symbol: 'MCD', name: "McDonald's" },
+  { symbol: 'NKE', name: 'Nike' },
+  { symbol: 'SBUX', name: 'Starbucks' },
+  { symbol: 'DIS', name: 'Walt Disney', aliases: ['Disney'] },
+  { symbol: 'BA', name: 'Boeing' },
+  { symbol: 'CAT', name: 'Caterpillar' },
+  { symbol: 'GE', name: 'General Electric' },
+  { symbol: 'F', name: 'Ford Motor', aliases: ['Ford'] },
+  { symbol: 'GM', name: 'General Motors' },
+  { symbol: 'UBER', name: 'Uber Technologies', aliases: ['Uber'] },
+  { symbol: 'T', name: 'AT&T' },
+  { symbol: 'VZ', name: 'Verizon Communications', aliases: ['Verizon'] }
+];
+
+// Names that are also everyday words
+const AMBIGUOUS_NAMES = new Set([
+  'apple', 'amazon', 'meta', 'oracle', 'target', 'shell', 'visa', 'ford', 'merck', 'adobe',
+  'chevron', 'nike', 'gap', 'block', 'square', 'snap', 'zoom', 'match', 'coach', 'dollar',
+  'general', 'international', 'first', 'united', 'american', 'national', 'global'
+]);
+
+// Upper-case tokens that read as words or abbreviations rather than tickers
+const COMMON_UPPERCASE = new Set([
+  'A', 'I', 'AI', 'ALL', 'AM', 'AN', 'ARE', 'AS', 'AT', 'BE', 'BY', 'CEO', 'CFO', 'CAT', 'CEOS',
+  'COST', 'DO', 'EPS', 'ETF', 'EU', 'FED', 'FOR', 'GDP', 'GO', 'HAS', 'IF', 'IN', 'IPO', 'IS',
+  'IT', 'MA', 'MS', 'NEW', 'NOW', 'OF', 'ON', 'ONE', 'OR', 'PM', 'SEC', 'SO', 'THE', 'TO', 'UK',
+  'UP', 'US', 'USA', 'USD', 'V', 'WE', 'F', 'T', 'GE', 'GM', 'BA', 'HD', 'PG', 'GS', 'KO'
+]);
+
+// Words that put a name in a market context
+const MARKET_CONTEXT = new Set([
+  'shares', 'stock', 'stocks', 'earnings', 'revenue', 'profit', 'quarter', 'quarterly',
+  'investors', 'analysts', 'analyst', 'ceo', 'cfo', 'nasdaq', 'nyse', 'dividend', 'guidance',
+  'valuation', 'market', 'markets', 'trading', 'traders', 'sec', 'ipo', 'acquisition', 'merger',
+  'deal', 'sales', 'outlook', 'forecast', 'downgrade', 'upgrade', 'rating', 'price', 'company',
+  'inc', 'corp', 'billion', 'million', 'wall', 'index', 's&p', 'dow', 'rally', 'selloff'
+]);
+
+const CORPORATE_SUFFIXES = new Set([
+  'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'companies', 'ltd', 'limited',
+  'plc', 'holdings', 'holding', 'group', 'sa', 'ag', 'nv', 'class', 'the', 'cl'
+]);
+
+// Descriptive words after a distinctive first word ("Palantir Technologies" is also "Palantir")
+const GENERIC_NAME_WORDS = new Set([
+  'technologies', 'technology', 'systems', 'platforms', 'communications', 'motors', 'motor',
+  'pharmaceuticals', 'therapeutics', 'entertainment', 'energy', 'financial', 'bancorp', 'brands',
+  'industries', 'enterprises', 'networks', 'labs', 'software', 'semiconductor', 'semiconductors',
+  'international', 'worldwide', 'wholesale', 'resources', 'healthcare', 'services'
+]);
+
+// Lower-case words that are also listed symbols; never read as tickers in chat
+const COMMON_WORDS = new Set([
+  'all', 'are', 'big', 'box', 'car', 'care', 'dis', 'fast', 'fun', 'gold', 'good', 'has', 'hope',
+  'job', 'key', 'life', 'live', 'love', 'low', 'new', 'now', 'one', 'open', 'pay', 'pep', 'play',
+  'real', 'run', 'well', 'wish', 'uber'
+]);
+
+export interface EntityLinkOptions {
+  /**
+   * Chat-style input: names may be written in lower case, and lower-case or unknown
+   * symbols count when the message asks about a stock
+   */
+  conversational?: boolean;
+}
+
+// Phrases that signal what a message asks for, matched on lower-cased text; explicit
+// phrases score higher than single words
+const INTENT_PATTERNS: { type: TickerIntentType; pattern: RegExp; confidence: number }[] = [
+  { type: 'alert', pattern: /\b(?:alert|notify|ping|text|message) me\b(?: (?:when|if|once))?|\blet me know (?:when|if)\b|\bset (?:up )?(?:an? )?(?:price )?alert\b/g, confidence: 0.9 },
+  { type: 'watchlist', pattern: /\b(?:add|put)\b[^.?!]{0,30}?\b(?:to|on|in) (?:my )?(?:watch ?list|portfolio)\b/g, confidence: 0.9 },
+  { type: 'price', pattern: /\b(?:price (?:of|for)|quote (?:of|for|on)|how much (?:is|are|does)|trading at|share price|stock price)\b/g, confidence: 0.9 },
+  { type: 'price', pattern: /\b(?:price|quote|worth)\b/g, confidence: 0.6 },
+  { type: 'performance', pattern: /\bhow(?:'s|’s| is| are| has| have)\b[^.?!]{0,40}?\b(?:doing|performing|performed|done|going)\b/g, confidence: 0.9 },
+  { type: 'performance', pattern: /\b(?:performance|up or down|today's move)\b/g, confidence: 0.7 },
+  { type: 'buy', pattern: /\b(?:should i (?:buy|invest in|get)|is it (?:a )?good (?:time )?to buy|worth buying)\b/g, confidence: 0.9 },
+  { type: 'buy', pattern: /\b(?:buy|purchase|go long|invest in)\b/g, confidence: 0.6 },
+  { type: 'sell', pattern: /\b(?:should i sell|time to sell|take profits?|cut (?:my )?losses)\b/g, confidence: 0.9 },
+  { type: 'sell', pattern: /\b(?:sell|dump|short)\b/g, confidence: 0.6 },
+  { type: 'news', pattern: /\b(?:news (?:on|about|for)|what(?:'s|’s| is) happening (?:with|to)|latest on|headlines)\b/g, confidence: 0.9 },
+  { type: 'news', pattern: /\bnews\b/g, confidence: 0.7 }
+];
+
+// Price an alert names after its phrase ("... drops below $150"), not a percentage
+const ALERT_PRICE = /(?:^|\s)\$?(\d+(?:\.\d+)?)\b(?!\s*%)/;
+const FALLING_WORDS = /\b(?:below|under|drops?|falls?|sinks?|dips?)\b/;
+const RISING_WORDS = /\b(?:above|over|past|rises?|climbs?|jumps?|tops|exceeds?|breaks?)\b/;
+
+/**
+ * Intents in a message, in order of appearance; where phrases overlap the more explicit one
+ * wins, and an alert carries its price condition when one is stated ("drops below $150")
+ */
+export function extractIntents(text: string): TickerIntent[] {
+  const lower = text.toLowerCase();
+  const intents: TickerIntent[] = [];
+
+  for (const { type, pattern, confidence } of INTENT_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(lower)) !== null) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (intents.some(intent => start < intent.end && end > intent.start)) continue;
+      intents.push({ type, text: text.slice(start, end), start, end, confidence });
+    }
+  }
+
+  for (const intent of intents) {
+    if (intent.type !== 'alert') continue;
+    const rest = lower.slice(intent.end, intent.end + 80);
+    const price = ALERT_PRICE.exec(rest);
+    if (!price) continue;
+
+    const lead = rest.slice(0, price.index);
+    const direction = FALLING_WORDS.test(lead) ? 'below' : RISING_WORDS.test(lead) ? 'above' : undefined;
+    intent.condition = { ...(direction ? { direction } : {}), price: Number(price[1]) };
+  }
+
+  return intents.sort((a, b) => a.start - b.start);
+}
+
+const MIN_CONFIDENCE = 0.5;
+const MAX_INDEXED_ALIASES = 5000;
+
+interface Token {
+  text: string; // As written, possessive "'s" removed
+  lower: string;
+  start: number;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[A-Za-z0-9]+(?:[&.'’-][A-Za-z0-9]+)*|&/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const word = match[0].replace(/['’]s$/i, '');
+    tokens.push({ text: word, lower: word.toLowerCase(), start: match.index });
+  }
+  return tokens;
+}
+
+/**
+ * Company name without legal suffixes and a leading "The", title-cased when the source is
+ * all upper case ("APPLE INC" → "Apple")
+ */
+export function normalizeCompanyName(name: string): string {
+  const words = name
+    .replace(/(?:[\s-]+(?:CL|CLASS)\s+[A-Z]\b.*|-[A-Z])$/i, '')
+    .replace(/[,()]/g, ' ').split(/\s+/).filter(Boolean);
+  while (words.length > 1 && CORPORATE_SUFFIXES.has(words[0].toLowerCase().replace(/\.$/, ''))) words.shift();
+  while (words.length > 1 && CORPORATE_SUFFIXES.has(words[words.length - 1].toLowerCase().replace(/\.$/, ''))) words.pop();
+
+  const joined = words.join(' ').replace(/\.$/, '');
+  if (joined !== joined.toUpperCase()) return joined;
+  return joined.toLowerCase().replace(/\b[a-z]/g, letter => letter.toUpperCase());
+}
+
+export class NLPTickerService {
+  private aliases = new Map<string, IndexedAlias[]>(); // Keyed by first token
+  private aliasCount = 0;
+  private symbols = new Set<string>();
+
+  constructor(companies: CompanyEntry[] = SEED_COMPANIES) {
+    for (const company of companies) {
+      this.addCompany(company.symbol, company.name, company.aliases);
+    }
+  }
+
+  /**
+   * Add symbol search results (Finnhub shape) to the name index
+   */
+  indexCompanies(results: { symbol: string; description: string }[]): void {
+    for (const result of results) {
+      if (!result.symbol || !result.description) continue;
+      this.addCompany(result.symbol, normalizeCompanyName(result.description));
+    }
+  }
+
+  hasSymbol(symbol: string): boolean {
+    return this.symbols.has(symbol.toUpperCase());
+  }
+
+  /**
+   * Tickers the text refers to, most confident first
+   */
+  extractTickers(text: string, options: EntityLinkOptions = {}): string[] {
+    return this.linkEntities(text, options).map(mention => mention.symbol);
+  }
+
+  /**
+   * Tickers and intents of a question or command, e.g. "alert me when Microsoft drops below
+   * 400"; conversational unless told otherwise
+   */
+  parse(text: string, options: EntityLinkOptions = { conversational: true }): TickerQuery {
+    const intents = extractIntents(text);
+    return { tickers: this.linkEntities(text, options, intents.length > 0), intents };
+  }
+
+  /**
+   * Every linked ticker with its span and how it was found; one mention per symbol (the
+   * most confident)
+   */
+  linkEntities(text: string, options: EntityLinkOptions = {}, asksAboutStock = false): TickerMention[] {
+    if (!text) return [];
+
+    const conversational = options.conversational ?? false;
+    const tokens = tokenize(text);
+    const marketContext = asksAboutStock || tokens.some(token => MARKET_CONTEXT.has(token.lower));
+    const shouting = !conversational && text === text.toUpperCase();
+    const found: TickerMention[] = [];
+
+    // Cashtags and exchange-qualified symbols
+    const qualified = /(?:\$([A-Za-z]{1,5}(?:\.[A-Za-z])?)\b)|(?:\b(?:NASDAQ|NYSE|AMEX|NYSEARCA)\s*:\s*([A-Z]{1,5}(?:\.[A-Z])?)\b)/g;
+    let match: RegExpExecArray | null;
+    while ((match = qualified.exec(text)) !== null) {
+      const symbol = (match[1] ?? match[2]).toUpperCase();
+      found.push({
+        symbol,
+        text: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+        via: match[1] ? 'cashtag' : 'exchange',
+        confidence: this.symbols.has(symbol) ? 0.95 : 0.8
+      });
+    }
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const symbolConfidence = this.symbolConfidence(token, text, { conversational, shouting, asksAboutStock });
+      if (symbolConfidence > 0) {
+        found.push({
+          symbol: token.text.toUpperCase(),
+          text: token.text,
+          start: token.start,
+          end: token.start + token.text.length,
+          via: 'symbol',
+          confidence: symbolConfidence
+        });
+      }
+
+      // Company names, longest alias first
+      for (const alias of this.aliases.get(token.lower) ?? []) {
+        const words = tokens.slice(i, i + alias.tokens.length);
+        if (words.length !== alias.tokens.length || words.some((word, k) => word.lower !== alias.tokens[k])) continue;
+        // Names are proper nouns: the first letter must be a capital as written (chat is
+        // typed casually, so there any case goes)
+        if (!conversational && !/^[A-Z0-9]/.test(token.text)) continue;
+
+        const next = tokens[i + alias.tokens.length];
+        const hasSuffix = next !== undefined && CORPORATE_SUFFIXES.has(next.lower) && next.lower !== 'the';
+        if (alias.ambiguous && !hasSuffix && !marketContext) continue;
+
+        const last = hasSuffix ? next : words[words.length - 1];
+        const end = last.start + last.text.length;
+        found.push({
+          symbol: alias.symbol,
+          text: text.slice(token.start, end),
+          start: token.start,
+          end,
+          via: 'name',
+          confidence: alias.ambiguous ? (hasSuffix ? 0.85 : 0.6) : 0.85
+        });
+        break;
+      }
+    }
+
+    const best = new Map<string, TickerMention>();
+    for (const mention of found) {
+      const current = best.get(mention.symbol);
+      if (!current || mention.confidence > current.confidence) best.set(mention.symbol, mention);
+    }
+
+    return Array.from(best.values())
+      .filter(mention => mention.confidence >= MIN_CONFIDENCE)
+      .sort((a, b) => b.confidence - a.confidence || a.start - b.start);
+  }
+
+  /**
+   * Confidence that a bare token is a ticker symbol, 0 when it is not one
+   *
+   * Upper-case tokens in the symbol dictionary count in mixed-case text. In conversation a
+   * lower-case dictionary symbol ("aapl") counts when the message asks about a stock, and
+   * so does an unknown upper-case token shaped like a ticker, since the dictionary only
+   * holds names seen so far.
+   */
+  private symbolConfidence(
+    token: Token,
+    text: string,
+    context: { conversational: boolean; shouting: boolean; asksAboutStock: boolean }
+  ): number {
+    const upper = token.text.toUpperCase();
+    if (text[token.start - 1] === '$' || COMMON_UPPERCASE.has(upper) || !/^[A-Z]{1,5}(?:\.[A-Z])?$/.test(upper)) return 0;
+
+    const known = this.symbols.has(upper);
+    if (token.text === upper) {
+      if (context.shouting || upper.length < 2) return 0;
+      if (known) return 0.7;
+      return context.conversational && context.asksAboutStock ? 0.5 : 0;
+    }
+    if (context.conversational && context.asksAboutStock && known && upper.length >= 3
+      && token.text === token.lower && !COMMON_WORDS.has(token.lower)) {
+      return 0.55;
+    }
+    return 0;
+  }
+
+  private addCompany(symbol: string, name: string, extraAliases: string[] = []): void {
+    const normalizedSymbol = symbol.toUpperCase();
+    this.symbols.add(normalizedSymbol);
+
+    const nameWords = name.split(/\s+/);
+    const shortName = nameWords.length > 1 && nameWords.slice(1).every(word => GENERIC_NAME_WORDS.has(word.toLowerCase()))
+      && nameWords[0].length >= 4 && !AMBIGUOUS_NAMES.has(nameWords[0].toLowerCase())
+      ? [nameWords[0]]
+      : [];
+
+    for (const alias of [name, ...extraAliases, ...shortName]) {
+      const tokens = tokenize(alias).map(token => token.lower);
+      if (tokens.length === 0 || (tokens.length === 1 && tokens[0].length < 3)) continue;
+
+      const bucket = this.aliases.get(tokens[0]) ?? [];
+      if (bucket.some(existing => existing.tokens.join(' ') === tokens.join(' '))) continue;
+      if (this.aliasCount >= MAX_INDEXED_ALIASES) return;
+
+      bucket.push({ symbol: normalizedSymbol, tokens, ambiguous: tokens.every(token => AMBIGUOUS_NAMES.has(token)) });
+      bucket.sort((a, b) => b.tokens.length - a.tokens.length);
+      this.aliases.set(tokens[0], bucket);
+      this.aliasCount++;
+    }
   }
 }
 
-export default NLPTickerService;
+// Singleton instance
+export const nlpTickerService = new NLPTickerService();
+export default nlpTickerService;
@@ -0,0 +1,243 @@
+/**
+ * Notification Channels
+ * Delivery adapters the notification dispatcher routes to: in-app, browser push, email,
+ * WhatsApp and webhooks
+ *
+ * Each adapter says whether the server is configured for it, whether a user can receive it
+ * (an address, a subscription), and delivers one notification, throwing ChannelError when it
+ * cannot; permanent errors are not retried. More adapters can be registered with the
+ * dispatcher for other channels or to replace these, e.g. in tests.
+ */
+
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import { DispatchedNotification, NotificationChannel, NotificationSettings, PushSubscriptionRecord } from '@/types';
+import { isPrivateHost, webhookUrlProblem } from './notificationRouting';
+import { sendMail, smtpConfigFromEnv, SmtpError } from './smtpClient';
+import { TwilioError } from './twilioClient';
+import { sendPush, vapidKeysFromEnv, WebPushError } from './webPush';
+import { whatsAppDeliveryService, WhatsAppError } from './whatsappDeliveryService';
+import { WhatsAppTemplateError } from './whatsappTemplates';
+
+export interface ChannelRecipient {
+  settings: NotificationSettings | null;
+  pushSubscriptions: PushSubscriptionRecord[];
+}
+
+export interface ChannelResult {
+  expiredSubscriptions?: string[]; // Push endpoints the push service no longer knows
+}
+
+export class ChannelError extends Error {
+  constructor(message: string, public permanent = false, public expiredSubscriptions: string[] = []) {
+    super(message);
+    this.name = 'ChannelError';
+  }
+}
+
+export interface NotificationChannelAdapter {
+  channel: NotificationChannel;
+  isConfigured(): boolean;
+  // Why this user cannot receive the channel, or null when they can
+  unavailableReason(recipient: ChannelRecipient): string | null;
+  send(notification: DispatchedNotification, recipient: ChannelRecipient): Promise<ChannelResult | void>;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+function appLink(notification: DispatchedNotification): string | null {
+  if (!notification.url) return null;
+  const base = process.env.NEXT_PUBLIC_APP_URL;
+  return base ? new URL(notification.url, base).toString() : notification.url;
+}
+
+function plainText(notification: DispatchedNotification): string {
+  const link = appLink(notification);
+  return link ? `${notification.message}\n\n${link}` : notification.message;
+}
+
+// Client errors other than timeouts and throttling will fail again on a retry
+function isPermanentStatus(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+/**
+ * The stored notification is the in-app feed, which the dashboard polls
+ */
+export const inAppChannel: NotificationChannelAdapter = {
+  channel: 'inApp',
+  isConfigured: () => true,
+  unavailableReason: () => null,
+  send: async () => undefined
+};
+
+export const pushChannel: NotificationChannelAdapter = {
+  channel: 'push',
+  isConfigured: () => vapidKeysFromEnv() !== null,
+  unavailableReason: recipient => recipient.pushSubscriptions.length === 0 ? 'No browser is subscribed to push' : null,
+
+  async send(notification, recipient) {
+    const vapid = vapidKeysFromEnv();
+    if (!vapid) throw new ChannelError('Push is not configured', true);
+
+    const payload = JSON.stringify({
+      id: notification.id,
+      title: notification.title,
+      body: notification.message,
+      url: notification.url ?? '/',
+      severity: notification.severity
+    });
+    const urgency = notification.severity === 'critical' ? 'high' : notification.severity === 'warning' ? 'normal' : 'low';
+
+    const expired: string[] = [];
+    const errors: WebPushError[] = [];
+    for (const subscription of recipient.pushSubscriptions) {
+      try {
+        await sendPush(subscription, payload, vapid, { urgency });
+      } catch (error) {
+        if (!(error instanceof WebPushError)) throw error;
+        if (error.expired) expired.push(subscription.endpoint);
+        else errors.push(error);
+      }
+    }
+
+    if (expired.length + errors.length === recipient.pushSubscriptions.length) {
+      throw new ChannelError(
+        errors[0]?.message ?? 'Every push subscription has expired',
+        errors.every(error => error.permanent),
+        expired
+      );
+    }
+    return { expiredSubscriptions: expired };
+  }
+};
+
+export const emailChannel: NotificationChannelAdapter = {
+  channel: 'email',
+  isConfigured: () => smtpConfigFromEnv() !== null,
+  unavailableReason: recipient => recipient.settings?.email ? null : 'No email address',
+
+  async send(notification, recipient) {
+    const config = smtpConfigFromEnv();
+    if (!config) throw new ChannelError('Email is not configured', true);
+
+    const link = appLink(notification);
+    const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    try {
+      await sendMail(config, {
+        to: recipient.settings!.email!,
+        subject: notification.title,
+        text: plainText(notification),
+        html: `<p>${escape(notification.message).replace(/\n/g, '<br>')}</p>` +
+          (link ? `<p><a href="${escape(link)}">Open in Equity Insight</a></p>` : '')
+      });
+    } catch (error) {
+      if (error instanceof SmtpError) throw new ChannelError(error.message, error.permanent);
+      throw error;
+    }
+  }
+};
+
+/**
+ * WhatsApp through the delivery service, with the notification template, so the message and
+ * its delivery status show up in the user's WhatsApp history
+ */
+export const whatsAppChannel: NotificationChannelAdapter = {
+  channel: 'whatsapp',
+  isConfigured: () => whatsAppDeliveryService.isConfigured(),
+  unavailableReason: recipient => recipient.settings?.whatsAppNumber ? null : 'No WhatsApp number',
+
+  async send(notification, recipient) {
+    try {
+      await whatsAppDeliveryService.send({
+        userId: notification.userId,
+        to: recipient.settings!.whatsAppNumber!,
+        template: 'notification',
+        variables: { title: notification.title, message: plainText(notification) },
+        ticker: notification.ticker
+      });
+    } catch (error) {
+      if (error instanceof TwilioError) throw new ChannelError(error.message, error.permanent);
+      if (error instanceof WhatsAppError || error instanceof WhatsAppTemplateError) throw new ChannelError(error.message, true);
+      throw error;
+    }
+  }
+};
+
+/**
+ * Refuse a webhook host that resolves to this machine or a private network, so a public
+ * name cannot be pointed at internal services
+ */
+async function checkWebhookHost(webhookUrl: string): Promise<void> {
+  const { hostname } = new URL(webhookUrl);
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname.replace(/^\[(.*)\]$/, '$1'), { all: true });
+  } catch (error) {
+    throw new ChannelError(`Webhook host ${hostname} could not be resolved: ${error instanceof Error ? error.message : error}`);
+  }
+  if (addresses.some(({ address }) => isPrivateHost(address))) {
+    throw new ChannelError(`Webhook host ${hostname} resolves to a private address`, true);
+  }
+}
+
+/**
+ * JSON POST to the user's webhook, signed with their secret as
+ * X-Signature-256: sha256=<hex HMAC of the body>. Only public https URLs are called, and
+ * redirects are not followed.
+ */
+export const webhookChannel: NotificationChannelAdapter = {
+  channel: 'webhook',
+  isConfigured: () => true,
+  unavailableReason: recipient => {
+    const webhookUrl = recipient.settings?.webhookUrl;
+    return webhookUrl ? webhookUrlProblem(webhookUrl) : 'No webhook URL';
+  },
+
+  async send(notification, recipient) {
+    const { webhookUrl, webhookSecret } = recipient.settings!;
+    await checkWebhookHost(webhookUrl!);
+    const body = JSON.stringify({
+      id: notification.id,
+      type: notification.type,
+      severity: notification.severity,
+      title: notification.title,
+      message: notification.message,
+      ticker: notification.ticker,
+      url: appLink(notification),
+      data: notification.data,
+      createdAt: notification.createdAt
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Notification-Id': notification.id
+    };
+    if (webhookSecret) {
+      headers['X-Signature-256'] = `sha256=${createHmac('sha256', webhookSecret).update(body).digest('hex')}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(webhookUrl!, {
+        method: 'POST',
+        headers,
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+    } catch (error) {
+      throw new ChannelError(`Webhook request failed: ${error instanceof Error ? error.message : error}`);
+    }
+    if (response.status >= 300 && response.status < 400) {
+      throw new ChannelError(`Webhook redirected (${response.status}); redirects are not followed`, true);
+    }
+    if (!response.ok) {
+      throw new ChannelError(`Webhook returned ${response.status}`, isPermanentStatus(response.status));
+    }
+  }
+};
+
+export function defaultChannels(): NotificationChannelAdapter[] {
+  return [inAppChannel, pushChannel, emailChannel, whatsAppChannel, webhookChannel];
+}
@@ -0,0 +1,296 @@
+/**
+ * Notification Dispatcher
+ * Server-side delivery of user notifications over in-app, browser push, email, WhatsApp and
+ * webhook channels
+ *
+ * Alerts, earnings reminders, AI stories and service notices all go through dispatch(). The
+ * user's routes (notificationRouting.ts) pick the channels for the event's type and severity;
+ * in-app delivery is the stored notification itself, which the dashboard polls, and every
+ * other channel gets a delivery that is attempted right away, or when quiet hours end.
+ * Failed deliveries are retried with backoff by processDue(), which the price scheduler runs
+ * every minute, until they succeed or run out of attempts.
+ *
+ * Each user's settings, push subscriptions and last MAX_NOTIFICATIONS notifications (with
+ * their deliveries) are kept in NOTIFICATIONS_DIR (default: data/notifications) as
+ * `<userId>.json`, so pending retries survive restarts. Changes to one user's store are
+ * applied one at a time.
+ */
+
+import path from 'path';
+import {
+  DispatchedNotification,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationEventType,
+  NotificationSettings,
+  NotificationSeverity,
+  PushSubscriptionRecord
+} from '@/types';
+import { ChannelError, defaultChannels, NotificationChannelAdapter } from './notificationChannels';
+import { deliverableAt, resolveChannels, retryDelayMs, validateNotificationSettings } from './notificationRouting';
+import { UserJsonStore } from './userJsonStore';
+
+export interface NotificationEvent {
+  userId: string;
+  type: NotificationEventType;
+  severity?: NotificationSeverity; // Default info
+  title: string;
+  message: string;
+  ticker?: string;
+  url?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface StoredNotifications {
+  version: 1;
+  userId: string;
+  settings: NotificationSettings | null;
+  pushSubscriptions: PushSubscriptionRecord[];
+  notifications: DispatchedNotification[]; // Newest first
+  updatedAt: number;
+}
+
+export interface NotificationQuery {
+  since?: string; // Only notifications after this ISO timestamp
+  limit?: number;
+}
+
+const FILE_VERSION = 1;
+const MAX_NOTIFICATIONS = 200;
+const MAX_PUSH_SUBSCRIPTIONS = 10;
+
+export class NotificationDispatcher {
+  private store: UserJsonStore<StoredNotifications>;
+  private channels = new Map<NotificationChannel, NotificationChannelAdapter>();
+  private inFlight = new Set<string>();
+  private processing = false;
+
+  constructor(baseDir?: string, channels: NotificationChannelAdapter[] = defaultChannels()) {
+    this.store = new UserJsonStore<StoredNotifications>({
+      dir: path.resolve(baseDir ?? process.env.NOTIFICATIONS_DIR ?? path.join(process.cwd(), 'data', 'notifications')),
+      label: 'notifications',
+      empty: userId => ({ version: FILE_VERSION, userId, settings: null, pushSubscriptions: [], notifications: [], updatedAt: 0 }),
+      parse: parsed => parsed.version === FILE_VERSION && Array.isArray(parsed.notifications) && Array.isArray(parsed.pushSubscriptions)
+        ? parsed
+        : null
+    });
+    channels.forEach(adapter => this.registerChannel(adapter));
+  }
+
+  /**
+   * Add a channel adapter, replacing any for the same channel
+   */
+  registerChannel(adapter: NotificationChannelAdapter): void {
+    this.channels.set(adapter.channel, adapter);
+  }
+
+  /**
+   * Channels the server can deliver on
+   */
+  getConfiguredChannels(): NotificationChannel[] {
+    return Array.from(this.channels.values()).filter(adapter => adapter.isConfigured()).map(adapter => adapter.channel);
+  }
+
+  async getSettings(userId: string): Promise<NotificationSettings | null> {
+    return (await this.store.get(userId)).settings;
+  }
+
+  /**
+   * Store a user's settings; throws NotificationSettingsError when the delivery fields are invalid
+   */
+  async saveSettings(userId: string, settings: NotificationSettings): Promise<NotificationSettings> {
+    const saved = { ...settings, userId };
+    validateNotificationSettings(saved);
+    return this.store.update(userId, stored => ({ stored: { ...stored, settings: saved }, result: saved }));
+  }
+
+  /**
+   * Remember a browser's push subscription; the oldest are dropped past MAX_PUSH_SUBSCRIPTIONS
+   */
+  async addPushSubscription(userId: string, subscription: Omit<PushSubscriptionRecord, 'createdAt'>): Promise<void> {
+    await this.store.update(userId, stored => {
+      const others = stored.pushSubscriptions.filter(existing => existing.endpoint !== subscription.endpoint);
+      const record: PushSubscriptionRecord = { ...subscription, createdAt: new Date().toISOString() };
+      return {
+        stored: { ...stored, pushSubscriptions: [...others, record].slice(-MAX_PUSH_SUBSCRIPTIONS) },
+        result: undefined
+      };
+    });
+  }
+
+  async removePushSubscription(userId: string, endpoint: string): Promise<boolean> {
+    return this.store.update(userId, stored => {
+      const pushSubscriptions = stored.pushSubscriptions.filter(existing => existing.endpoint !== endpoint);
+      const removed = pushSubscriptions.length !== stored.pushSubscriptions.length;
+      return { stored: removed ? { ...stored, pushSubscriptions } : null, result: removed };
+    });
+  }
+
+  /**
+   * The in-app feed: notifications delivered in-app, newest first
+   */
+  async getNotifications(userId: string, query: NotificationQuery = {}): Promise<DispatchedNotification[]> {
+    const { notifications } = await this.store.get(userId);
+    const matching = notifications.filter(notification =>
+      notification.deliveries.some(delivery => delivery.channel === 'inApp') &&
+      (!query.since || notification.createdAt > query.since)
+    );
+    return query.limit ? matching.slice(0, query.limit) : matching;
+  }
+
+  /**
+   * Mark the given notifications (all when none are given) as read; returns how many changed
+   */
+  async markRead(userId: string, notificationIds?: string[]): Promise<number> {
+    return this.store.update(userId, stored => {
+      const ids = notificationIds ? new Set(notificationIds) : null;
+      let changed = 0;
+      const notifications = stored.notifications.map(notification => {
+        if (notification.isRead || (ids && !ids.has(notification.id))) return notification;
+        changed++;
+        return { ...notification, isRead: true };
+      });
+      return { stored: changed > 0 ? { ...stored, notifications } : null, result: changed };
+    });
+  }
+
+  /**
+   * Route an event to the user's channels, store it and attempt the deliveries that are due
+   */
+  async dispatch(event: NotificationEvent, now = new Date()): Promise<DispatchedNotification> {
+    const severity = event.severity ?? 'info';
+    const notification = await this.store.update(event.userId, stored => {
+      const settings = stored.settings;
+      const recipient = { settings, pushSubscriptions: stored.pushSubscriptions };
+      const notBefore = deliverableAt(settings?.quietHours, severity, now).toISOString();
+
+      const deliveries = resolveChannels(settings, { type: event.type, severity }).map((channel): NotificationDelivery => {
+        const adapter = this.channels.get(channel);
+        if (channel === 'inApp') return { channel, status: 'sent', attempts: 1, sentAt: now.toISOString() };
+        if (!adapter || !adapter.isConfigured()) {
+          return { channel, status: 'skipped', attempts: 0, error: `${channel} is not configured on the server` };
+        }
+        const reason = adapter.unavailableReason(recipient);
+        if (reason) return { channel, status: 'skipped', attempts: 0, error: reason };
+        return { channel, status: 'pending', attempts: 0, nextAttemptAt: notBefore };
+      });
+
+      const created: DispatchedNotification = {
+        id: `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        userId: event.userId,
+        type: event.type,
+        severity,
+        title: event.title,
+        message: event.message,
+        ...(event.ticker ? { ticker: event.ticker } : {}),
+        ...(event.url ? { url: event.url } : {}),
+        ...(event.data ? { data: event.data } : {}),
+        createdAt: now.toISOString(),
+        isRead: false,
+        deliveries
+      };
+      return {
+        stored: { ...stored, notifications: [created, ...stored.notifications].slice(0, MAX_NOTIFICATIONS) },
+        result: created
+      };
+    });
+
+    await this.deliverDue(notification, now);
+    return (await this.store.get(event.userId)).notifications.find(stored => stored.id === notification.id) ?? notification;
+  }
+
+  /**
+   * Attempt every pending delivery whose time has come: retries and deliveries held by quiet
+   * hours. Returns how many were attempted.
+   */
+  async processDue(now = new Date()): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+    try {
+      let attempted = 0;
+      for (const stored of await this.store.loadAll()) {
+        for (const notification of stored.notifications) {
+          attempted += await this.deliverDue(notification, now);
+        }
+      }
+      return attempted;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async deliverDue(notification: DispatchedNotification, now: Date): Promise<number> {
+    const due = notification.deliveries.filter(delivery =>
+      delivery.status === 'pending' && (!delivery.nextAttemptAt || delivery.nextAttemptAt <= now.toISOString())
+    );
+    for (const delivery of due) {
+      await this.deliver(notification, delivery.channel, now);
+    }
+    return due.length;
+  }
+
+  /**
+   * One attempt at one channel; the outcome is stored on the delivery, with the next attempt
+   * scheduled when the failure is worth retrying
+   */
+  private async deliver(notification: DispatchedNotification, channel: NotificationChannel, now: Date): Promise<void> {
+    const key = `${notification.id}:${channel}`;
+    if (this.inFlight.has(key)) return;
+    this.inFlight.add(key);
+
+    try {
+      // The caller's copy may be stale: another attempt may have finished since it was read
+      const { settings, pushSubscriptions, notifications } = await this.store.get(notification.userId);
+      const current = notifications.find(existing => existing.id === notification.id);
+      if (!current?.deliveries.some(delivery => delivery.channel === channel && delivery.status === 'pending')) return;
+
+      const adapter = this.channels.get(channel);
+      let failure: ChannelError | null = null;
+      let expired: string[] = [];
+
+      try {
+        if (!adapter) throw new ChannelError(`No ${channel} channel is registered`, true);
+        const reason = adapter.unavailableReason({ settings, pushSubscriptions });
+        if (reason) throw new ChannelError(reason, true);
+        const result = await adapter.send(notification, { settings, pushSubscriptions });
+        expired = result?.expiredSubscriptions ?? [];
+      } catch (error) {
+        failure = error instanceof ChannelError ? error : new ChannelError(error instanceof Error ? error.message : String(error));
+        expired = failure.expiredSubscriptions;
+        console.error(`Notification ${notification.id} failed on ${channel}:`, failure.message);
+      }
+
+      await this.store.update(notification.userId, stored => {
+        const notifications = stored.notifications.map(existing => {
+          if (existing.id !== notification.id) return existing;
+          const deliveries = existing.deliveries.map(delivery => {
+            if (delivery.channel !== channel || delivery.status !== 'pending') return delivery;
+            const attempts = delivery.attempts + 1;
+            if (!failure) return { channel, status: 'sent' as const, attempts, sentAt: now.toISOString() };
+
+            const delay = failure.permanent ? null : retryDelayMs(attempts);
+            if (delay === null) return { channel, status: 'failed' as const, attempts, error: failure.message };
+            const retryAt = deliverableAt(stored.settings?.quietHours, existing.severity, new Date(now.getTime() + delay));
+            return { channel, status: 'pending' as const, attempts, nextAttemptAt: retryAt.toISOString(), error: failure.message };
+          });
+          return { ...existing, deliveries };
+        });
+
+        const pushSubscriptions = expired.length > 0
+          ? stored.pushSubscriptions.filter(subscription => !expired.includes(subscription.endpoint))
+          : stored.pushSubscriptions;
+        return { stored: { ...stored, notifications, pushSubscriptions }, result: undefined };
+      });
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+}
+
+// Global singleton guard: the schedulers and the API routes must share one store cache
+const globalAny = global as any;
+if (!globalAny.__NOTIFICATION_DISPATCHER_SINGLETON__) {
+  globalAny.__NOTIFICATION_DISPATCHER_SINGLETON__ = { instance: new NotificationDispatcher() };
+}
+export const notificationDispatcher = globalAny.__NOTIFICATION_DISPATCHER_SINGLETON__.instance as NotificationDispatcher;
+export default notificationDispatcher;
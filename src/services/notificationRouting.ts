@@ -0,0 +1,247 @@
+/**
+ * Notification Routing
+ * Which channels a user's notification goes to, when quiet hours hold it, and retry timing
+ *
+ * A user's routes map event types and a minimum severity to channels; every route that
+ * matches contributes its channels. Users without routes get ones derived from the older
+ * enable* switches, so in-app delivery is always on. Quiet hours hold every channel but
+ * in-app until they end, except critical notifications unless the user opts out. All of it
+ * is pure, shared by the dispatcher and the settings API.
+ */
+
+import {
+  NotificationChannel,
+  NotificationEventType,
+  NotificationRoute,
+  NotificationSettings,
+  NotificationSeverity,
+  QuietHours
+} from '@/types';
+
+export class NotificationSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationSettingsError';
+  }
+}
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['inApp', 'push', 'email', 'whatsapp', 'webhook'];
+export const NOTIFICATION_SEVERITIES: NotificationSeverity[] = ['info', 'warning', 'critical'];
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = ['alert', 'earnings', 'stories', 'portfolio', 'service', 'test'];
+
+// Trading days of notice before an earnings report, unless the user picks another
+export const DEFAULT_EARNINGS_REMINDER_DAYS = 3;
+
+// Wait before each retry of a failed delivery; a delivery is given up after the last one
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60, 240];
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+const MAX_ROUTES = 20;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+function parseIPv4(host: string): number[] | null {
+  const parts = host.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.map(Number);
+}
+
+function isPrivateIPv4([a, b, c]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127 || a >= 224 || // This network, private, loopback, multicast and reserved
+    (a === 169 && b === 254) || // Link-local, including cloud metadata services
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 198 && (b === 18 || b === 19)); // Benchmarking
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, or null when it is not one
+ */
+function parseIPv6(host: string): number[] | null {
+  let address = host;
+  const embedded = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const ipv4 = parseIPv4(embedded[2]);
+    if (!ipv4) return null;
+    address = `${embedded[1]}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(missing).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  const [first] = groups;
+  const prefixZero = groups.slice(0, 5).every(group => group === 0);
+  if (groups.slice(0, 7).every(group => group === 0) && groups[7] <= 1) return true; // Unspecified and loopback
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach the IPv4 address
+  if ((prefixZero && groups[5] === 0xffff) || (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0))) {
+    return isPrivateIPv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+  }
+  return (first & 0xfe00) === 0xfc00 || // Unique local
+    (first & 0xffc0) === 0xfe80 || // Link-local
+    (first & 0xffc0) === 0xfec0 || // Site-local
+    (first & 0xff00) === 0xff00; // Multicast
+}
+
+/**
+ * Whether a host name or IP address is this machine, or a private, link-local or otherwise
+ * non-public address that webhooks must not reach
+ */
+export function isPrivateHost(host: string): boolean {
+  const name = host.toLowerCase().replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '');
+  if (name === 'localhost' || name.endsWith('.localhost') || name.endsWith('.local') || name.endsWith('.internal')) return true;
+
+  const ipv4 = parseIPv4(name);
+  if (ipv4) return isPrivateIPv4(ipv4);
+  const ipv6 = name.includes(':') ? parseIPv6(name.replace(/%.*$/, '')) : null;
+  if (ipv6) return isPrivateIPv6(ipv6);
+  return name.includes(':') || !name.includes('.'); // Unparseable addresses and single-label intranet names
+}
+
+/**
+ * Why a webhook URL cannot be used, or null when it can: it must be https and must not
+ * point at this machine or a private network
+ */
+export function webhookUrlProblem(webhookUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(webhookUrl);
+  } catch {
+    return 'Invalid webhook URL';
+  }
+  if (url.protocol !== 'https:') return 'The webhook URL must use https';
+  if (isPrivateHost(url.hostname)) return 'The webhook URL must point to a public host';
+  return null;
+}
+
+/**
+ * Throws NotificationSettingsError unless the delivery fields are usable: known channels,
+ * types and severities, valid quiet hours and well-formed contact details
+ */
+export function validateNotificationSettings(settings: NotificationSettings): void {
+  if (settings.email && !EMAIL_PATTERN.test(settings.email)) {
+    throw new NotificationSettingsError('Invalid email address');
+  }
+  if (settings.whatsAppNumber && !PHONE_PATTERN.test(settings.whatsAppNumber)) {
+    throw new NotificationSettingsError('WhatsApp number must be in international format, e.g. +15551234567');
+  }
+  if (settings.webhookUrl) {
+    const problem = webhookUrlProblem(settings.webhookUrl);
+    if (problem) throw new NotificationSettingsError(problem);
+  }
+
+  const routes = settings.routing ?? [];
+  if (routes.length > MAX_ROUTES) throw new NotificationSettingsError(`At most ${MAX_ROUTES} routes`);
+  for (const route of routes) {
+    if (!Array.isArray(route.channels) || route.channels.some(channel => !NOTIFICATION_CHANNELS.includes(channel))) {
+      throw new NotificationSettingsError(`Route channels must be among ${NOTIFICATION_CHANNELS.join(', ')}`);
+    }
+    if (route.eventTypes && route.eventTypes.some(type => !NOTIFICATION_EVENT_TYPES.includes(type))) {
+      throw new NotificationSettingsError(`Route event types must be among ${NOTIFICATION_EVENT_TYPES.join(', ')}`);
+    }
+    if (route.minSeverity && !NOTIFICATION_SEVERITIES.includes(route.minSeverity)) {
+      throw new NotificationSettingsError(`minSeverity must be one of ${NOTIFICATION_SEVERITIES.join(', ')}`);
+    }
+  }
+
+  const quiet = settings.quietHours;
+  if (quiet) {
+    if (!TIME_PATTERN.test(quiet.start) || !TIME_PATTERN.test(quiet.end)) {
+      throw new NotificationSettingsError('Quiet hours start and end must be HH:mm');
+    }
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: quiet.timeZone });
+    } catch {
+      throw new NotificationSettingsError(`Unknown time zone ${quiet.timeZone}`);
+    }
+  }
+}
+
+/**
+ * Routes for users who have not set any: in-app always, browser push and WhatsApp when
+ * their switches are on (WhatsApp for alerts and earnings only)
+ */
+export function defaultRoutes(settings: NotificationSettings | null): NotificationRoute[] {
+  const routes: NotificationRoute[] = [{ channels: ['inApp'] }];
+  if (settings?.enablePushNotifications) routes.push({ channels: ['push'] });
+  if (settings?.enableWhatsAppNotifications) routes.push({ eventTypes: ['alert', 'earnings'], channels: ['whatsapp'] });
+  return routes;
+}
+
+/**
+ * Channels for an event of this type and severity, in NOTIFICATION_CHANNELS order
+ */
+export function resolveChannels(
+  settings: NotificationSettings | null,
+  event: { type: NotificationEventType; severity: NotificationSeverity }
+): NotificationChannel[] {
+  const routes = settings?.routing ?? defaultRoutes(settings);
+  const severity = NOTIFICATION_SEVERITIES.indexOf(event.severity);
+  const channels = new Set<NotificationChannel>();
+
+  for (const route of routes) {
+    if (route.eventTypes && route.eventTypes.length > 0 && !route.eventTypes.includes(event.type)) continue;
+    if (severity < NOTIFICATION_SEVERITIES.indexOf(route.minSeverity ?? 'info')) continue;
+    route.channels.forEach(channel => channels.add(channel));
+  }
+  return NOTIFICATION_CHANNELS.filter(channel => channels.has(channel));
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * When the quiet hours that `at` falls in end; null outside quiet hours or when they are off
+ */
+export function quietHoursEnd(quiet: QuietHours | undefined, at: Date): Date | null {
+  if (!quiet?.enabled) return null;
+  const start = minutesOfDay(quiet.start);
+  const end = minutesOfDay(quiet.end);
+  if (start === end) return null;
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: quiet.timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(at);
+  const part = (type: string) => Number(parts.find(entry => entry.type === type)?.value ?? 0);
+  const now = part('hour') * 60 + part('minute');
+
+  const quietNow = start < end ? now >= start && now < end : now >= start || now < end;
+  if (!quietNow) return null;
+
+  const minutesLeft = (end - now + 24 * 60) % (24 * 60);
+  return new Date(at.getTime() + minutesLeft * 60 * 1000 - part('second') * 1000 - at.getMilliseconds());
+}
+
+/**
+ * When a delivery of this severity may go out: now, or the end of the quiet hours
+ */
+export function deliverableAt(quiet: QuietHours | undefined, severity: NotificationSeverity, at: Date): Date {
+  if (severity === 'critical' && quiet?.allowCritical !== false) return at;
+  return quietHoursEnd(quiet, at) ?? at;
+}
+
+/**
+ * Wait before the next attempt after `attempts` failed ones; null when no attempts are left
+ */
+export function retryDelayMs(attempts: number): number | null {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) return null;
+  return RETRY_DELAYS_MINUTES[Math.max(0, attempts - 1)] * 60 * 1000;
+}
@@ -5,34 +5,83 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-interface QuotaHistoryRecord {
-  timestamp: string;
-  quotaUsed: number;
-  quotaLimit: number;
-  quotaRemaining: number;
-  isLimitReached: boolean;
-  apiCalls: number;
-  service: string;
+import { QuotaHistoryRecord, UsageBreakdown, UsageDimension } from '@/types';
+
+const BREAKDOWN_TITLES: Partial<Record<UsageDimension, string>> = {
+  feature: 'Usage by Feature',
+  endpoint: 'Usage by Endpoint',
+  ticker: 'Top Tickers'
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Tables attributing calls to features, endpoints and tickers from the usage ledger
+ */
+function renderBreakdown(breakdown: UsageBreakdown): string {
+  return (Object.keys(BREAKDOWN_TITLES) as UsageDimension[])
+    .filter(dimension => (breakdown[dimension] || []).length > 0)
+    .map(dimension => `
+        <div class="table-section">
+            <h2 class="table-title">${BREAKDOWN_TITLES[dimension]}</h2>
+            <div class="table-container">
+                <table>
+                    <thead>
+                        <tr>
+                            <th>${dimension.charAt(0).toUpperCase() + dimension.slice(1)}</th>
+                            <th>API Calls</th>
+                            <th>Share</th>
+                            <th>Cache Hits</th>
+                            <th>Errors</th>
+                            <th>Avg Latency</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${(breakdown[dimension] || []).map(row => `
+                        <tr>
+                            <td style="font-weight: 500;">${escapeHtml(row.key)}</td>
+                            <td style="font-weight: 500;">${row.calls.toLocaleString()}</td>
+                            <td>${(row.share * 100).toFixed(1)}%</td>
+                            <td>${row.cacheHits.toLocaleString()}</td>
+                            <td class="${row.errors + row.rateLimited > 0 ? 'status-warning' : ''}">${(row.errors + row.rateLimited).toLocaleString()}</td>
+                            <td>${row.avgLatencyMs.toLocaleString()} ms</td>
+                        </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+        `)
+    .join('');
 }
 
 /**
  * Generate a professional PDF report as HTML (can be converted to PDF by browsers)
  */
-export function generatePDFReport(records: QuotaHistoryRecord[], days: number): string {
+export function generatePDFReport(records: QuotaHistoryRecord[], days: number, breakdown: UsageBreakdown = {}): string {
   const currentDate = new Date().toLocaleDateString();
+  // A period without recorded calls has no buckets, so every figure falls back to zero
+  const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
   const totalCalls = records.reduce((sum, r) => sum + r.apiCalls, 0);
-  const avgDailyUsage = Math.round(totalCalls / records.length);
-  const maxUsage = Math.max(...records.map(r => r.quotaUsed));
+  const avgDailyUsage = Math.round(average(records.map(r => r.apiCalls)));
+  const maxUsage = records.reduce((max, r) => Math.max(max, r.quotaUsed), 0);
   const limitReachedDays = records.filter(r => r.isLimitReached).length;
-  const avgUsagePercent = records.reduce((sum, r) => sum + (r.quotaUsed / r.quotaLimit), 0) / records.length * 100;
+  const avgUsagePercent = average(records.map(r => r.quotaLimit > 0 ? r.quotaUsed / r.quotaLimit : 0)) * 100;
 
   // Calculate trends
   const recentRecords = records.slice(-7); // Last 7 days
   const olderRecords = records.slice(0, 7); // First 7 days
-  const recentAvg = recentRecords.reduce((sum, r) => sum + r.quotaUsed, 0) / recentRecords.length;
-  const olderAvg = olderRecords.reduce((sum, r) => sum + r.quotaUsed, 0) / olderRecords.length;
+  const recentAvg = average(recentRecords.map(r => r.quotaUsed));
+  const olderAvg = average(olderRecords.map(r => r.quotaUsed));
   const trendDirection = recentAvg > olderAvg ? '↗️ Increasing' : recentAvg < olderAvg ? '↘️ Decreasing' : '→ Stable';
-  const trendPercent = ((recentAvg - olderAvg) / olderAvg * 100).toFixed(1);
+  const trendPercent = (olderAvg > 0 ? (recentAvg - olderAvg) / olderAvg * 100 : 0).toFixed(1);
 
   return `
 <!DOCTYPE html>
@@ -286,10 +335,16 @@ export function generatePDFReport(records: QuotaHistoryRecord[], days: number):
                             <th>Limit</th>
                             <th>Usage %</th>
                             <th>Visual</th>
+                            <th>Cache Hits</th>
                             <th>Status</th>
                         </tr>
                     </thead>
                     <tbody>
+                        ${records.length === 0 ? `
+                        <tr>
+                            <td colspan="8" style="text-align: center; color: #64748b;">No API calls were recorded in this period</td>
+                        </tr>
+                        ` : ''}
                         ${records.map(record => {
                             const date = new Date(record.timestamp).toLocaleDateString();
                             const usagePercent = (record.quotaUsed / record.quotaLimit) * 100;
@@ -300,7 +355,7 @@ export function generatePDFReport(records: QuotaHistoryRecord[], days: number):
                             return `
                             <tr>
                                 <td style="font-weight: 500;">${date}</td>
-                                <td>${record.service}</td>
+                                <td>${escapeHtml(record.service)}</td>
                                 <td style="font-weight: 500;">${record.quotaUsed.toLocaleString()}</td>
                                 <td>${record.quotaLimit.toLocaleString()}</td>
                                 <td style="font-weight: 500;">${usagePercent.toFixed(1)}%</td>
@@ -309,6 +364,7 @@ export function generatePDFReport(records: QuotaHistoryRecord[], days: number):
                                         <div class="usage-fill ${barClass}" style="width: ${Math.min(usagePercent, 100)}%"></div>
                                     </div>
                                 </td>
+                                <td>${(record.cacheHits ?? 0).toLocaleString()}</td>
                                 <td class="${statusClass}">${status}</td>
                             </tr>
                             `;
@@ -317,7 +373,7 @@ export function generatePDFReport(records: QuotaHistoryRecord[], days: number):
                 </table>
             </div>
         </div>
-        
+        ${renderBreakdown(breakdown)}
         <div class="footer">
             <p><strong>Equity Insight AI</strong> • API Quota Management System</p>
             <p>This report contains confidential information. For support or questions, contact your system administrator.</p>
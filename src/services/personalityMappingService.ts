@@ -1,7 +1,7 @@
 // Investment personality archetypes and mapping service
 import { InvestmentArchetype } from '../types';
 
-export interface StockRecommendation {
+export interface ArchetypeStockPick {
   ticker: string;
   companyName: string;
   sector: string;
@@ -29,28 +29,10 @@ export interface PersonalityResult {
   };
   confidence: number;
   secondaryType?: string;
-  recommendations: StockRecommendation[];
+  recommendations: ArchetypeStockPick[];
   personalizedMessage: string;
 }
 
-export interface StockRecommendation {
-  ticker: string;
-  companyName: string;
-  sector: string;
-  reasoning: string;
-  matchScore: number;
-  risk: 'Low' | 'Medium' | 'High';
-  timeframe: string;
-  keyMetrics: {
-    price?: number;
-    changePercent?: number;
-    marketCap?: string;
-    peRatio?: number;
-    dividendYield?: number;
-    beta?: number;
-  };
-}
-
 // Define the four investment archetypes
 export const investmentArchetypes: Record<string, InvestmentArchetype> = {
   explorer: {
@@ -220,7 +202,7 @@ export const investmentArchetypes: Record<string, InvestmentArchetype> = {
 };
 
 // Stock database organized by archetype
-export const stockRecommendations: Record<string, StockRecommendation[]> = {
+export const stockRecommendations: Record<string, ArchetypeStockPick[]> = {
   explorer: [
     {
       ticker: 'TSLA',
@@ -405,7 +387,7 @@ class PersonalityMappingService {
   /**
    * Get personalized stock recommendations based on archetype
    */
-  private getStockRecommendations(archetype: string, scores: any): StockRecommendation[] {
+  private getStockRecommendations(archetype: string, scores: any): ArchetypeStockPick[] {
     const baseRecommendations = stockRecommendations[archetype] || stockRecommendations.guardian;
     
     // Add some variety by including stocks from secondary archetype if scores are close
@@ -487,7 +469,7 @@ class PersonalityMappingService {
   /**
    * Update stock recommendations with real-time data
    */
-  async updateStockData(recommendations: StockRecommendation[]): Promise<StockRecommendation[]> {
+  async updateStockData(recommendations: ArchetypeStockPick[]): Promise<ArchetypeStockPick[]> {
     // This would integrate with real stock APIs in production
     // For now, return recommendations with simulated updates
     return recommendations.map(rec => ({
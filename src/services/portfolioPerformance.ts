@@ -0,0 +1,111 @@
+/**
+ * Portfolio Performance
+ * Return arithmetic behind the performance report: daily time-weighted returns, IRR and
+ * period boundaries
+ *
+ * Returns are fractions. Cash flows are booked at the end of their day, so trading at the
+ * close never shows up as a gain or loss; a day that starts with nothing invested earns
+ * the move from the purchase prices to the close. Pure functions only.
+ */
+
+import { PerformancePeriod } from '@/types';
+
+export interface DatedCashFlow {
+  date: string; // YYYY-MM-DD
+  amount: number; // Negative when the investor pays in, positive when money comes back
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * One day's return: (close value - purchases + sale proceeds) / previous close value - 1;
+ * from the purchase cost when the day starts empty, 0 when no capital was at work
+ */
+export function dailyReturn(previousValue: number, value: number, inflow: number, outflow: number): number {
+  if (previousValue > 0) return (value - inflow + outflow) / previousValue - 1;
+  return inflow > 0 ? (value + outflow) / inflow - 1 : 0;
+}
+
+/**
+ * Compound a sequence of periodic returns
+ */
+export function chainReturns(returns: number[]): number {
+  return returns.reduce((growth, value) => growth * (1 + value), 1) - 1;
+}
+
+/**
+ * Annualised return of a cumulative return over `days` calendar days; null under a year,
+ * where annualising would overstate short-term swings
+ */
+export function annualize(totalReturn: number, days: number): number | null {
+  if (days < DAYS_PER_YEAR || totalReturn <= -1) return null;
+  return Math.pow(1 + totalReturn, DAYS_PER_YEAR / days) - 1;
+}
+
+/**
+ * Annual internal rate of return of dated cash flows (actual/365), or null when the flows
+ * do not change sign or no rate between -99.99% and 1,000,000% prices them to zero
+ */
+export function xirr(flows: DatedCashFlow[]): number | null {
+  const relevant = flows.filter(flow => flow.amount !== 0);
+  if (!relevant.some(flow => flow.amount < 0) || !relevant.some(flow => flow.amount > 0)) return null;
+
+  const first = relevant.reduce((earliest, flow) => (flow.date < earliest ? flow.date : earliest), relevant[0].date);
+  const terms = relevant.map(flow => ({ years: daysBetween(first, flow.date) / DAYS_PER_YEAR, amount: flow.amount }));
+  const presentValue = (rate: number) =>
+    terms.reduce((total, term) => total + term.amount / Math.pow(1 + rate, term.years), 0);
+
+  // Newton from 10%, falling back to bisection when it leaves the bracket or stalls
+  let low = -0.9999;
+  let high = 10000;
+  if (Math.sign(presentValue(low)) === Math.sign(presentValue(high))) return null;
+
+  let rate = 0.1;
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const value = presentValue(rate);
+    if (Math.abs(value) < 1e-7) return rate;
+
+    if (Math.sign(value) === Math.sign(presentValue(low))) low = rate;
+    else high = rate;
+
+    const derivative = terms.reduce(
+      (total, term) => total - term.years * term.amount / Math.pow(1 + rate, term.years + 1),
+      0
+    );
+    const next = derivative !== 0 ? rate - value / derivative : NaN;
+    rate = Number.isFinite(next) && next > low && next < high ? next : (low + high) / 2;
+  }
+  return Math.abs(presentValue(rate)) < 1e-4 ? rate : null;
+}
+
+/**
+ * First calendar day of a reporting period ending on `to`; ALL starts at the first trade
+ */
+export function periodStart(period: PerformancePeriod, to: string, firstTradeDate: string): string {
+  const end = new Date(`${to}T00:00:00Z`);
+  let start: Date;
+  switch (period) {
+    case '1M':
+      start = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - 1, end.getUTCDate()));
+      break;
+    case '3M':
+      start = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - 3, end.getUTCDate()));
+      break;
+    case 'YTD':
+      start = new Date(Date.UTC(end.getUTCFullYear(), 0, 1));
+      break;
+    case '1Y':
+      start = new Date(Date.UTC(end.getUTCFullYear() - 1, end.getUTCMonth(), end.getUTCDate()));
+      break;
+    default:
+      return firstTradeDate;
+  }
+
+  const date = start.toISOString().slice(0, 10);
+  return date < firstTradeDate ? firstTradeDate : date;
+}
@@ -0,0 +1,361 @@
+/**
+ * Portfolio Performance Service
+ * Daily portfolio valuation from a transaction history, time- and money-weighted returns and
+ * benchmark comparison
+ *
+ * Holdings are replayed day by day from the first trade: splits multiply the shares held on
+ * their ex-date, cash dividends are credited to the portfolio on theirs, and each day is
+ * valued at the raw close (the trade price stands in until a ticker's first close). Purchases
+ * count as money paid in and sale proceeds as money taken out, so the time-weighted return
+ * measures the holdings alone while the IRR also reflects when money was added. Benchmarks
+ * are compared on total return, from dividend-adjusted closes over the same days.
+ */
+
+import {
+  BenchmarkComparison,
+  CorporateAction,
+  PerformancePeriod,
+  PerformancePoint,
+  PortfolioPerformance,
+  PortfolioTransaction
+} from '@/types';
+import { MarketDataProvider } from './marketDataProvider';
+import { getMarketDataProvider } from './marketDataProviderConfig';
+import { candleStore } from './candleStore';
+import { adjustCandles, corporateActionService } from './corporateActionService';
+import { replayClock } from './replayClock';
+import {
+  annualize,
+  chainReturns,
+  dailyReturn,
+  DatedCashFlow,
+  daysBetween,
+  periodStart,
+  xirr
+} from './portfolioPerformance';
+
+export class PortfolioPerformanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PortfolioPerformanceError';
+  }
+}
+
+export interface PortfolioPerformanceOptions {
+  period?: PerformancePeriod;
+  benchmarks?: string[];
+  provider?: MarketDataProvider;
+}
+
+export const PERFORMANCE_PERIODS: PerformancePeriod[] = ['1M', '3M', 'YTD', '1Y', 'ALL'];
+export const DEFAULT_BENCHMARKS = ['SPY'];
+export const MAX_BENCHMARKS = 3;
+export const MAX_TRANSACTIONS = 5000;
+export const MAX_TICKERS = 50;
+
+const DAY_SECONDS = 24 * 60 * 60;
+const SHARE_TOLERANCE = 1e-9;
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function toDate(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().slice(0, 10);
+}
+
+function toSeconds(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / 1000);
+}
+
+interface TickerHistory {
+  closes: Map<string, number>; // Date -> raw close
+  actions: CorporateAction[];
+}
+
+interface ValuedDay {
+  date: string;
+  value: number;
+  inflow: number; // Purchases, fees included
+  outflow: number; // Sale proceeds, net of fees
+  dividends: number;
+}
+
+export class PortfolioPerformanceService {
+  /**
+   * Performance report for the transactions; throws PortfolioPerformanceError when they
+   * cannot be valued
+   */
+  async analyze(transactions: PortfolioTransaction[], options: PortfolioPerformanceOptions = {}): Promise<PortfolioPerformance> {
+    if (transactions.length === 0) {
+      throw new PortfolioPerformanceError('At least one transaction is required');
+    }
+    if (transactions.length > MAX_TRANSACTIONS) {
+      throw new PortfolioPerformanceError(`At most ${MAX_TRANSACTIONS} transactions can be analysed at once`);
+    }
+
+    const trades = transactions
+      .map(transaction => ({ ...transaction, ticker: transaction.ticker.trim().toUpperCase() }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const tickers = Array.from(new Set(trades.map(trade => trade.ticker)));
+    if (tickers.length > MAX_TICKERS) {
+      throw new PortfolioPerformanceError(`At most ${MAX_TICKERS} tickers can be analysed at once`);
+    }
+
+    const period = options.period ?? 'ALL';
+    const benchmarks = Array.from(new Set((options.benchmarks ?? DEFAULT_BENCHMARKS).map(symbol => symbol.toUpperCase())));
+    const provider = options.provider ?? getMarketDataProvider('background', 'portfolio-performance');
+
+    const toSecondsNow = provider.name === 'replay' ? replayClock.nowSeconds() : Math.floor(Date.now() / 1000);
+    const to = toDate(toSecondsNow);
+    const firstTradeDate = trades[0].date;
+    if (firstTradeDate > to) {
+      throw new PortfolioPerformanceError(`No transactions on or before ${to}`);
+    }
+    const from = periodStart(period, to, firstTradeDate);
+
+    // A ticker whose history cannot be loaded is left out with all of its trades
+    const missing: string[] = [];
+    let firstError: unknown = null;
+    const histories = new Map<string, TickerHistory>();
+    await Promise.all(tickers.map(async ticker => {
+      try {
+        const history = await this.loadHistory(ticker, toSeconds(firstTradeDate) - 7 * DAY_SECONDS, toSecondsNow, provider);
+        if (history) histories.set(ticker, history);
+        else missing.push(ticker);
+      } catch (error) {
+        console.error(`Price history for ${ticker} unavailable for performance:`, error);
+        firstError ??= error;
+        missing.push(ticker);
+      }
+    }));
+    if (histories.size === 0) {
+      if (firstError) throw firstError;
+      throw new PortfolioPerformanceError(`No price history for ${missing.sort().join(', ')}`);
+    }
+
+    const benchmarkCloses = new Map<string, Map<string, number>>();
+    await Promise.all(benchmarks.map(async symbol => {
+      try {
+        const closes = await this.loadBenchmark(symbol, toSeconds(from) - 10 * DAY_SECONDS, toSecondsNow, provider);
+        if (closes) benchmarkCloses.set(symbol, closes);
+        else missing.push(symbol);
+      } catch (error) {
+        console.error(`Price history for benchmark ${symbol} unavailable:`, error);
+        missing.push(symbol);
+      }
+    }));
+
+    const days = this.valueHoldings(trades.filter(trade => histories.has(trade.ticker)), histories, benchmarkCloses, to);
+    const before = days.filter(day => day.date < from);
+    const inPeriod = days.filter(day => day.date >= from);
+    if (inPeriod.length === 0) {
+      throw new PortfolioPerformanceError(`No trading days between ${from} and ${to}`);
+    }
+
+    const baseDate = before.length > 0 ? before[before.length - 1].date : inPeriod[0].date;
+    const startValue = before.length > 0 ? before[before.length - 1].value : 0;
+    const endDate = inPeriod[inPeriod.length - 1].date;
+    const endValue = inPeriod[inPeriod.length - 1].value;
+    const periodDays = daysBetween(baseDate, endDate);
+
+    // Benchmark baselines are the last close before the period, or its first close
+    const baselines = new Map<string, number>();
+    for (const [symbol, closes] of benchmarkCloses) {
+      const dates = Array.from(closes.keys()).sort();
+      const base = [...dates].reverse().find(date => date < from) ?? dates.find(date => date >= from);
+      if (base) baselines.set(symbol, closes.get(base)!);
+    }
+
+    const dailyReturns: number[] = [];
+    const lastCloses = new Map<string, number>();
+    let previousValue = startValue;
+    let growth = 1;
+    const points: PerformancePoint[] = inPeriod.map(day => {
+      const dayReturn = dailyReturn(previousValue, day.value, day.inflow, day.outflow);
+      dailyReturns.push(dayReturn);
+      growth *= 1 + dayReturn;
+      previousValue = day.value;
+
+      const benchmarkReturns: Record<string, number | null> = {};
+      for (const [symbol, closes] of benchmarkCloses) {
+        const close = closes.get(day.date);
+        if (close !== undefined) lastCloses.set(symbol, close);
+        const latest = lastCloses.get(symbol);
+        const base = baselines.get(symbol);
+        benchmarkReturns[symbol] = latest !== undefined && base ? round((latest / base - 1) * 100) : null;
+      }
+
+      return {
+        date: day.date,
+        value: round(day.value),
+        netFlow: round(day.inflow - day.outflow),
+        cumulativeReturn: round((growth - 1) * 100),
+        benchmarks: benchmarkReturns
+      };
+    });
+
+    const timeWeightedReturn = chainReturns(dailyReturns);
+    const contributions = inPeriod.reduce((total, day) => total + day.inflow, 0);
+    const withdrawals = inPeriod.reduce((total, day) => total + day.outflow, 0);
+
+    const flows: DatedCashFlow[] = [
+      { date: baseDate, amount: -startValue },
+      ...inPeriod.map(day => ({ date: day.date, amount: day.outflow - day.inflow })),
+      { date: endDate, amount: endValue }
+    ];
+    const irr = xirr(flows);
+    const moneyWeightedReturn = irr === null
+      ? null
+      : periodDays >= 365 ? irr : Math.pow(1 + irr, periodDays / 365) - 1;
+
+    const comparisons: BenchmarkComparison[] = benchmarks
+      .filter(symbol => lastCloses.has(symbol) && baselines.has(symbol))
+      .map(symbol => {
+        const totalReturn = lastCloses.get(symbol)! / baselines.get(symbol)! - 1;
+        const annualized = annualize(totalReturn, periodDays);
+        return {
+          symbol,
+          totalReturn: round(totalReturn * 100),
+          annualizedReturn: annualized === null ? null : round(annualized * 100),
+          excessReturn: round((timeWeightedReturn - totalReturn) * 100)
+        };
+      });
+    const annualizedReturn = annualize(timeWeightedReturn, periodDays);
+
+    return {
+      period,
+      from: inPeriod[0].date,
+      to: endDate,
+      startValue: round(startValue),
+      endValue: round(endValue),
+      contributions: round(contributions),
+      withdrawals: round(withdrawals),
+      dividends: round(inPeriod.reduce((total, day) => total + day.dividends, 0)),
+      gain: round(endValue - startValue - contributions + withdrawals),
+      timeWeightedReturn: round(timeWeightedReturn * 100),
+      annualizedReturn: annualizedReturn === null ? null : round(annualizedReturn * 100),
+      moneyWeightedReturn: moneyWeightedReturn === null ? null : round(moneyWeightedReturn * 100),
+      points,
+      benchmarks: comparisons,
+      missing: Array.from(new Set(missing)).sort()
+    };
+  }
+
+  /**
+   * Replay the trades over every trading day (and trade date) up to `to`; throws when a sale
+   * exceeds the shares held at the time
+   */
+  private valueHoldings(
+    trades: PortfolioTransaction[],
+    histories: Map<string, TickerHistory>,
+    benchmarkCloses: Map<string, Map<string, number>>,
+    to: string
+  ): ValuedDay[] {
+    const firstTradeDate = trades[0].date;
+    const dateSet = new Set(trades.map(trade => trade.date));
+    for (const closes of [...Array.from(histories.values()).map(history => history.closes), ...benchmarkCloses.values()]) {
+      for (const date of closes.keys()) {
+        if (date >= firstTradeDate && date <= to) dateSet.add(date);
+      }
+    }
+    const dates = Array.from(dateSet).sort();
+
+    const shares = new Map<string, number>();
+    const prices = new Map<string, number>();
+    let cash = 0;
+    let next = 0;
+    let previousDate = '';
+
+    return dates.map(date => {
+      let dividends = 0;
+
+      // Actions apply to the shares held going into their ex-date
+      for (const [ticker, held] of shares) {
+        if (held <= 0) continue;
+        let adjusted = held;
+        for (const action of histories.get(ticker)!.actions) {
+          if (action.exDate <= previousDate || action.exDate > date) continue;
+          if (action.type === 'split') {
+            if (action.ratio > 0) adjusted *= action.ratio;
+          } else {
+            dividends += adjusted * action.amount;
+          }
+        }
+        shares.set(ticker, adjusted);
+      }
+      cash += dividends;
+
+      let inflow = 0;
+      let outflow = 0;
+      for (; next < trades.length && trades[next].date <= date; next++) {
+        const trade = trades[next];
+        const held = shares.get(trade.ticker) ?? 0;
+        const amount = trade.quantity * trade.price;
+        if (trade.type === 'buy') {
+          shares.set(trade.ticker, held + trade.quantity);
+          inflow += amount + (trade.fees ?? 0);
+        } else {
+          if (trade.quantity > held + SHARE_TOLERANCE) {
+            throw new PortfolioPerformanceError(
+              `Sale of ${trade.quantity} ${trade.ticker} on ${trade.date} exceeds the ${round(held, 6)} shares held`
+            );
+          }
+          shares.set(trade.ticker, Math.max(0, held - trade.quantity));
+          outflow += amount - (trade.fees ?? 0);
+        }
+        if (!prices.has(trade.ticker)) prices.set(trade.ticker, trade.price);
+      }
+
+      let value = cash;
+      for (const [ticker, held] of shares) {
+        const close = histories.get(ticker)!.closes.get(date);
+        if (close !== undefined) prices.set(ticker, close);
+        value += held * (prices.get(ticker) ?? 0);
+      }
+
+      previousDate = date;
+      return { date, value, inflow, outflow, dividends };
+    });
+  }
+
+  /**
+   * Raw daily closes keyed by UTC date with the ticker's corporate actions; null without candles
+   */
+  private async loadHistory(symbol: string, from: number, to: number, provider: MarketDataProvider): Promise<TickerHistory | null> {
+    const [actions, { candles }] = await Promise.all([
+      corporateActionService.getActions(symbol, provider),
+      candleStore.getResampledCandles(symbol, 'D', from, to, provider)
+    ]);
+    if (candles.s !== 'ok' || candles.c.length === 0) return null;
+
+    const closes = new Map<string, number>();
+    candles.t.forEach((timestamp, i) => closes.set(toDate(timestamp), candles.c[i]));
+    return { closes, actions: actions.filter(action => toSeconds(action.exDate) <= to) };
+  }
+
+  /**
+   * Split- and dividend-adjusted daily closes keyed by UTC date; null without candles
+   */
+  private async loadBenchmark(symbol: string, from: number, to: number, provider: MarketDataProvider): Promise<Map<string, number> | null> {
+    const actions = await corporateActionService.getActions(symbol, provider);
+    const { candles } = await candleStore.getResampledCandles(
+      symbol,
+      'D',
+      from,
+      to,
+      provider,
+      raw => adjustCandles(raw, actions, { asOf: provider.name === 'replay' ? to : undefined })
+    );
+    if (candles.s !== 'ok' || candles.c.length === 0) return null;
+
+    const closes = new Map<string, number>();
+    candles.t.forEach((timestamp, i) => closes.set(toDate(timestamp), candles.c[i]));
+    return closes;
+  }
+}
+
+// Singleton instance
+export const portfolioPerformanceService = new PortfolioPerformanceService();
+export default portfolioPerformanceService;
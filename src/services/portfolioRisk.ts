@@ -0,0 +1,191 @@
+/**
+ * Portfolio Risk
+ * Return statistics behind the portfolio risk report: beta, VaR/CVaR, drawdown, correlation
+ * clustering and volatility contributions
+ *
+ * Inputs are aligned daily simple returns (one array per series, same length). Variances
+ * and covariances are sample estimates. VaR and CVaR are returned as positive fractions of
+ * value; multi-day horizons scale with √horizon. Pure functions only.
+ */
+
+export const TRADING_DAYS_PER_YEAR = 252;
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+}
+
+export function covariance(a: number[], b: number[]): number {
+  if (a.length < 2 || a.length !== b.length) return 0;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += (a[i] - meanA) * (b[i] - meanB);
+  }
+  return total / (a.length - 1);
+}
+
+export function standardDeviation(values: number[]): number {
+  return Math.sqrt(covariance(values, values));
+}
+
+/**
+ * Pearson correlation; 0 when either series is flat
+ */
+export function correlation(a: number[], b: number[]): number {
+  const denominator = standardDeviation(a) * standardDeviation(b);
+  return denominator > 0 ? Math.max(-1, Math.min(1, covariance(a, b) / denominator)) : 0;
+}
+
+/**
+ * Beta of `returns` against `market`; null when the market series is flat
+ */
+export function beta(returns: number[], market: number[]): number | null {
+  const marketVariance = covariance(market, market);
+  return marketVariance > 0 ? covariance(returns, market) / marketVariance : null;
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation, |error| < 1.2e-9)
+ */
+export function inverseNormal(p: number): number {
+  if (p <= 0 || p >= 1) throw new RangeError('Probability must be between 0 and 1');
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -inverseNormal(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+function normalDensity(z: number): number {
+  return Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Historical VaR and CVaR: the loss at the `confidence` quantile of past returns and the
+ * mean loss at or beyond it
+ */
+export function historicalVaR(returns: number[], confidence: number, horizonDays = 1): { var: number; cvar: number } {
+  if (returns.length === 0) return { var: 0, cvar: 0 };
+
+  const losses = returns.map(value => -value).sort((a, b) => b - a);
+  const tailCount = Math.max(1, Math.floor(losses.length * (1 - confidence)));
+  const tail = losses.slice(0, tailCount);
+  const scale = Math.sqrt(horizonDays);
+
+  return {
+    var: Math.max(0, tail[tail.length - 1] * scale),
+    cvar: Math.max(0, mean(tail) * scale)
+  };
+}
+
+/**
+ * Parametric (normal) VaR and CVaR from the daily mean and standard deviation
+ */
+export function parametricVaR(
+  dailyMean: number,
+  dailyDeviation: number,
+  confidence: number,
+  horizonDays = 1
+): { var: number; cvar: number } {
+  const z = inverseNormal(confidence);
+  const horizonMean = dailyMean * horizonDays;
+  const horizonDeviation = dailyDeviation * Math.sqrt(horizonDays);
+
+  return {
+    var: Math.max(0, z * horizonDeviation - horizonMean),
+    cvar: Math.max(0, horizonDeviation * normalDensity(z) / (1 - confidence) - horizonMean)
+  };
+}
+
+/**
+ * Largest peak-to-trough fall of the compounded returns, as a positive fraction
+ */
+export function maxDrawdown(returns: number[]): number {
+  let level = 1;
+  let peak = 1;
+  let worst = 0;
+  for (const value of returns) {
+    level *= 1 + value;
+    peak = Math.max(peak, level);
+    worst = Math.max(worst, 1 - level / peak);
+  }
+  return worst;
+}
+
+/**
+ * Sample covariance matrix of several aligned return series
+ */
+export function covarianceMatrix(series: number[][]): number[][] {
+  return series.map((a, i) => series.map((b, j) => (j < i ? 0 : covariance(a, b))))
+    .map((row, i, rows) => row.map((value, j) => (j < i ? rows[j][i] : value)));
+}
+
+/**
+ * Portfolio volatility and each position's share of it (Euler allocation: w_i·(Σw)_i / σ²,
+ * which sums to 1); shares are 0 when the portfolio has no variance
+ */
+export function riskContributions(weights: number[], covariances: number[][]): { volatility: number; contributions: number[] } {
+  const marginal = covariances.map(row => row.reduce((total, value, j) => total + value * weights[j], 0));
+  const variance = weights.reduce((total, weight, i) => total + weight * marginal[i], 0);
+
+  return {
+    volatility: Math.sqrt(Math.max(0, variance)),
+    contributions: weights.map((weight, i) => (variance > 0 ? (weight * marginal[i]) / variance : 0))
+  };
+}
+
+/**
+ * Average-linkage hierarchical clustering on correlation distance (1 - ρ). Returns the leaf
+ * order of the dendrogram, which places correlated series next to each other, and the
+ * groups of two or more whose average pairwise correlation is at least `threshold`.
+ */
+export function clusterCorrelations(matrix: number[][], threshold: number): { order: number[]; clusters: number[][] } {
+  let groups = matrix.map((_, index) => [index]);
+  const clusters: number[][] = [];
+
+  const linkage = (a: number[], b: number[]) => {
+    let total = 0;
+    for (const i of a) {
+      for (const j of b) total += matrix[i][j];
+    }
+    return total / (a.length * b.length);
+  };
+
+  while (groups.length > 1) {
+    let best = { a: 0, b: 1, value: -Infinity };
+    for (let a = 0; a < groups.length; a++) {
+      for (let b = a + 1; b < groups.length; b++) {
+        const value = linkage(groups[a], groups[b]);
+        if (value > best.value) best = { a, b, value };
+      }
+    }
+
+    const merged = [...groups[best.a], ...groups[best.b]];
+    if (best.value >= threshold) {
+      // Keep only the largest qualifying group each series belongs to
+      for (let i = clusters.length - 1; i >= 0; i--) {
+        if (clusters[i].every(index => merged.includes(index))) clusters.splice(i, 1);
+      }
+      clusters.push(merged);
+    }
+    groups = [...groups.filter((_, index) => index !== best.a && index !== best.b), merged];
+  }
+
+  return { order: groups[0] ?? [], clusters };
+}
@@ -0,0 +1,270 @@
+/**
+ * Portfolio Risk Service
+ * Beta, VaR/CVaR, volatility, drawdown, correlation and risk contributions of a set of holdings
+ *
+ * Daily candles come from the candle store, restated for splits and dividends, so a report
+ * costs provider calls only for history not stored yet. Returns of every holding and the
+ * benchmark (SPY by default) are aligned on the dates they all traded over the last
+ * `lookbackDays` sessions; holdings with too little history are reported as missing instead
+ * of shortening everyone's window. Weights are today's position values held constant over
+ * the window, so the statistics describe the portfolio as it is now, not as it was traded.
+ *
+ * The market scenario answers "what happens on a -3% day" twice: through beta, and from the
+ * portfolio's average return on past days when the benchmark moved about as much.
+ */
+
+import {
+  CorrelationMatrix,
+  MarketScenario,
+  PortfolioHolding,
+  PortfolioRisk,
+  PositionRisk,
+  ValueAtRisk
+} from '@/types';
+import { MarketDataProvider } from './marketDataProvider';
+import { getMarketDataProvider } from './marketDataProviderConfig';
+import { candleStore } from './candleStore';
+import { adjustCandles, corporateActionService } from './corporateActionService';
+import { replayClock } from './replayClock';
+import {
+  beta,
+  clusterCorrelations,
+  correlation,
+  covarianceMatrix,
+  historicalVaR,
+  maxDrawdown,
+  mean,
+  parametricVaR,
+  riskContributions,
+  standardDeviation,
+  TRADING_DAYS_PER_YEAR
+} from './portfolioRisk';
+
+export class PortfolioRiskError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PortfolioRiskError';
+  }
+}
+
+export interface PortfolioRiskOptions {
+  lookbackDays?: number; // Trading days of returns
+  benchmark?: string;
+  marketMovePercent?: number;
+  horizonDays?: number; // VaR horizon in trading days
+  provider?: MarketDataProvider;
+}
+
+export const DEFAULT_LOOKBACK_DAYS = 252;
+export const MIN_LOOKBACK_DAYS = 60;
+export const MAX_LOOKBACK_DAYS = 756;
+export const MAX_HOLDINGS = 50;
+
+const DEFAULT_BENCHMARK = 'SPY';
+const DEFAULT_MARKET_MOVE_PERCENT = -3;
+const MIN_OBSERVATIONS = 30;
+const CONFIDENCE_LEVELS = [0.95, 0.99];
+const CLUSTER_THRESHOLD = 0.7;
+const SCENARIO_BAND_PERCENT = 1; // Past benchmark days within ±1 point of the scenario move
+const DAY_SECONDS = 24 * 60 * 60;
+// Calendar days fetched per trading day of lookback, plus slack for holidays
+const CALENDAR_FACTOR = 1.5;
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Holdings merged per ticker; a price given on any lot is used for the ticker
+ */
+export function aggregateHoldings(holdings: PortfolioHolding[]): PortfolioHolding[] {
+  const byTicker = new Map<string, PortfolioHolding>();
+  for (const holding of holdings) {
+    const ticker = holding.ticker.trim().toUpperCase();
+    const existing = byTicker.get(ticker);
+    byTicker.set(ticker, {
+      ticker,
+      quantity: (existing?.quantity ?? 0) + holding.quantity,
+      ...(holding.price ?? existing?.price ? { price: holding.price ?? existing?.price } : {})
+    });
+  }
+  return Array.from(byTicker.values()).filter(holding => holding.quantity > 0);
+}
+
+interface DailySeries {
+  returns: Map<string, number>; // Date (YYYY-MM-DD) -> simple return from the previous close
+  lastClose: number;
+}
+
+export class PortfolioRiskService {
+  /**
+   * Risk report for the holdings; throws PortfolioRiskError when they cannot be analysed
+   */
+  async analyze(holdings: PortfolioHolding[], options: PortfolioRiskOptions = {}): Promise<PortfolioRisk> {
+    const positions = aggregateHoldings(holdings);
+    if (positions.length === 0) {
+      throw new PortfolioRiskError('At least one holding with a positive quantity is required');
+    }
+    if (positions.length > MAX_HOLDINGS) {
+      throw new PortfolioRiskError(`At most ${MAX_HOLDINGS} holdings can be analysed at once`);
+    }
+
+    const lookbackDays = Math.min(MAX_LOOKBACK_DAYS, Math.max(MIN_LOOKBACK_DAYS, options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS));
+    const benchmark = (options.benchmark ?? DEFAULT_BENCHMARK).toUpperCase();
+    const marketMovePercent = options.marketMovePercent ?? DEFAULT_MARKET_MOVE_PERCENT;
+    const horizonDays = Math.max(1, Math.round(options.horizonDays ?? 1));
+    const provider = options.provider ?? getMarketDataProvider('background', 'portfolio-risk');
+
+    const to = provider.name === 'replay' ? replayClock.nowSeconds() : Math.floor(Date.now() / 1000);
+    const from = to - Math.ceil(lookbackDays * CALENDAR_FACTOR + 10) * DAY_SECONDS;
+
+    const benchmarkSeries = await this.loadSeries(benchmark, from, to, provider);
+    if (!benchmarkSeries || benchmarkSeries.returns.size < MIN_OBSERVATIONS) {
+      throw new PortfolioRiskError(`Not enough ${benchmark} history to measure market risk`);
+    }
+    const window = Array.from(benchmarkSeries.returns.keys()).sort().slice(-lookbackDays);
+
+    // Holdings without enough returns inside the window are left out rather than shrinking it
+    const loaded = await Promise.all(positions.map(async holding => ({
+      holding,
+      series: await this.loadSeries(holding.ticker, from, to, provider).catch(error => {
+        console.error(`Price history for ${holding.ticker} unavailable for risk analysis:`, error);
+        return null;
+      })
+    })));
+    const missing: string[] = [];
+    const covered = loaded.filter(({ holding, series }) => {
+      const enough = !!series && window.filter(date => series.returns.has(date)).length >= MIN_OBSERVATIONS
+        && (holding.price ?? series.lastClose) > 0;
+      if (!enough) missing.push(holding.ticker);
+      return enough;
+    });
+    if (covered.length === 0) {
+      throw new PortfolioRiskError(`Not enough price history for ${missing.join(', ')}`);
+    }
+
+    const dates = window.filter(date => covered.every(({ series }) => series!.returns.has(date)));
+    if (dates.length < MIN_OBSERVATIONS) {
+      throw new PortfolioRiskError(`Only ${dates.length} trading days are shared by every holding (need ${MIN_OBSERVATIONS})`);
+    }
+
+    const market = dates.map(date => benchmarkSeries.returns.get(date)!);
+    const series = covered.map(({ series: daily }) => dates.map(date => daily!.returns.get(date)!));
+    const prices = covered.map(({ holding, series: daily }) => holding.price ?? daily!.lastClose);
+    const values = covered.map(({ holding }, i) => holding.quantity * prices[i]);
+    const totalValue = values.reduce((total, value) => total + value, 0);
+    const weights = values.map(value => value / totalValue);
+
+    const portfolio = dates.map((_, t) => series.reduce((total, returns, i) => total + weights[i] * returns[t], 0));
+    const { volatility: dailyVolatility, contributions } = riskContributions(weights, covarianceMatrix(series));
+    const portfolioBeta = beta(portfolio, market);
+
+    const valueAtRisk: ValueAtRisk[] = CONFIDENCE_LEVELS.map(confidence => {
+      const historical = historicalVaR(portfolio, confidence, horizonDays);
+      const parametric = parametricVaR(mean(portfolio), dailyVolatility, confidence, horizonDays);
+      return {
+        confidence,
+        horizonDays,
+        historical: round(historical.var * totalValue),
+        parametric: round(parametric.var * totalValue),
+        historicalCVaR: round(historical.cvar * totalValue),
+        parametricCVaR: round(parametric.cvar * totalValue)
+      };
+    });
+
+    const marketMove = marketMovePercent / 100;
+    const positionRisks: PositionRisk[] = covered.map(({ holding }, i) => {
+      const positionBeta = beta(series[i], market);
+      return {
+        ticker: holding.ticker,
+        quantity: holding.quantity,
+        price: round(prices[i], 4),
+        value: round(values[i]),
+        weight: round(weights[i], 4),
+        beta: positionBeta === null ? null : round(positionBeta, 3),
+        volatility: round(standardDeviation(series[i]) * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100),
+        riskContribution: round(contributions[i], 4),
+        componentVaR: round(valueAtRisk[0].parametric * contributions[i]),
+        scenarioChange: round(values[i] * (positionBeta ?? 0) * marketMove)
+      };
+    }).sort((a, b) => b.value - a.value);
+
+    return {
+      asOf: dates[dates.length - 1],
+      benchmark,
+      lookbackDays,
+      observations: dates.length,
+      totalValue: round(totalValue),
+      beta: portfolioBeta === null ? null : round(portfolioBeta, 3),
+      volatility: round(dailyVolatility * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100),
+      maxDrawdown: round(maxDrawdown(portfolio) * 100),
+      valueAtRisk,
+      correlation: this.correlationMatrix(covered.map(({ holding }) => holding.ticker), series),
+      positions: positionRisks,
+      scenario: this.marketScenario(marketMovePercent, totalValue, portfolioBeta, portfolio, market),
+      missing: missing.sort()
+    };
+  }
+
+  private correlationMatrix(tickers: string[], series: number[][]): CorrelationMatrix {
+    const matrix = series.map((a, i) => series.map((b, j) => (i === j ? 1 : correlation(a, b))));
+    const { order, clusters } = clusterCorrelations(matrix, CLUSTER_THRESHOLD);
+
+    return {
+      tickers: order.map(index => tickers[index]),
+      values: order.map(i => order.map(j => round(matrix[i][j], 3))),
+      clusters: clusters.map(cluster => cluster.map(index => tickers[index])),
+      threshold: CLUSTER_THRESHOLD
+    };
+  }
+
+  private marketScenario(
+    marketMovePercent: number,
+    totalValue: number,
+    portfolioBeta: number | null,
+    portfolio: number[],
+    market: number[]
+  ): MarketScenario {
+    const expectedChangePercent = (portfolioBeta ?? 0) * marketMovePercent;
+    const similar = marketMovePercent === 0
+      ? []
+      : portfolio.filter((_, t) => Math.abs(market[t] * 100 - marketMovePercent) <= SCENARIO_BAND_PERCENT);
+
+    return {
+      marketMovePercent,
+      expectedChange: round(totalValue * expectedChangePercent / 100),
+      expectedChangePercent: round(expectedChangePercent),
+      historicalChangePercent: similar.length > 0 ? round(mean(similar) * 100) : null,
+      historicalDays: similar.length
+    };
+  }
+
+  /**
+   * Adjusted daily returns keyed by UTC date; null when the symbol has no usable candles
+   */
+  private async loadSeries(symbol: string, from: number, to: number, provider: MarketDataProvider): Promise<DailySeries | null> {
+    const actions = await corporateActionService.getActions(symbol, provider);
+    const { candles } = await candleStore.getResampledCandles(
+      symbol,
+      'D',
+      from,
+      to,
+      provider,
+      raw => adjustCandles(raw, actions, { asOf: provider.name === 'replay' ? to : undefined })
+    );
+    if (candles.s !== 'ok' || candles.c.length < 2) return null;
+
+    const returns = new Map<string, number>();
+    for (let i = 1; i < candles.c.length; i++) {
+      if (candles.c[i - 1] > 0) {
+        returns.set(new Date(candles.t[i] * 1000).toISOString().slice(0, 10), candles.c[i] / candles.c[i - 1] - 1);
+      }
+    }
+    return { returns, lastClose: candles.c[candles.c.length - 1] };
+  }
+}
+
+// Singleton instance
+export const portfolioRiskService = new PortfolioRiskService();
+export default portfolioRiskService;
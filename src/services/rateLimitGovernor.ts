@@ -0,0 +1,289 @@
+/**
+ * Rate Limit Governor
+ * Token-bucket scheduler shared by every outbound Finnhub call
+ *
+ * Requests wait in one queue per priority class and are released highest priority first
+ * (interactive quotes, then alert checks, then background analytics) as tokens refill.
+ * Each completed call is recorded in minute and day buckets so quota reports use measured
+ * usage. Configured through FINNHUB_RATE_LIMIT_PER_MINUTE (default 60, the free tier) and
+ * FINNHUB_RATE_LIMIT_BURST (default 10).
+ */
+
+import { FinnhubApiStatus, RequestPriority } from '@/types';
+import { isMarketDataProviderError } from './marketDataProvider';
+
+export type { RequestPriority };
+
+// Highest priority first
+export const REQUEST_PRIORITIES: RequestPriority[] = ['interactive', 'alerts', 'background'];
+
+export interface GovernorOptions {
+  ratePerMinute: number;
+  burst: number;
+  historyDays: number;
+}
+
+export interface UsageBucket {
+  start: string; // ISO start of the minute or UTC day
+  requests: number;
+  errors: number;
+  rateLimited: number;
+  totalLatencyMs: number;
+  byPriority: Record<RequestPriority, number>;
+}
+
+export interface GovernorStatus {
+  ratePerMinute: number;
+  burst: number;
+  tokens: number;
+  queued: Record<RequestPriority, number>;
+  usedLastMinute: number;
+  blockedUntil: Date | null;
+}
+
+interface QueuedRequest {
+  priority: RequestPriority;
+  start: () => void;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function emptyBucket(startMs: number): UsageBucket {
+  return {
+    start: new Date(startMs).toISOString(),
+    requests: 0,
+    errors: 0,
+    rateLimited: 0,
+    totalLatencyMs: 0,
+    byPriority: { interactive: 0, alerts: 0, background: 0 }
+  };
+}
+
+export class RateLimitGovernor {
+  private options: GovernorOptions;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private queues: Record<RequestPriority, QueuedRequest[]> = { interactive: [], alerts: [], background: [] };
+  private recentCalls: number[] = [];
+  private minuteBuckets = new Map<number, UsageBucket>();
+  private dayBuckets = new Map<number, UsageBucket>();
+
+  constructor(options: Partial<GovernorOptions> = {}) {
+    this.options = {
+      ratePerMinute: options.ratePerMinute ?? 60,
+      burst: options.burst ?? 10,
+      historyDays: options.historyDays ?? 365
+    };
+    this.tokens = this.options.burst;
+  }
+
+  /**
+   * Run a request once a token is available for its priority class
+   */
+  schedule<T>(task: () => Promise<T>, priority: RequestPriority = 'background'): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queues[priority].push({
+        priority,
+        start: () => {
+          const startedAt = Date.now();
+          task().then(
+            result => {
+              this.record(priority, startedAt, 'ok');
+              resolve(result);
+            },
+            error => {
+              const rateLimited = isMarketDataProviderError(error) && error.isRateLimited;
+              this.record(priority, startedAt, rateLimited ? 'rateLimited' : 'error');
+              if (rateLimited) {
+                this.reportRateLimited();
+              }
+              reject(error);
+            }
+          );
+        }
+      });
+      this.pump();
+    });
+  }
+
+  /**
+   * Stop releasing requests after the upstream API answered 429
+   */
+  reportRateLimited(retryAfterMs: number = MINUTE_MS): void {
+    this.tokens = 0;
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + retryAfterMs);
+  }
+
+  getStatus(): GovernorStatus {
+    this.refill();
+    const now = Date.now();
+    return {
+      ratePerMinute: this.options.ratePerMinute,
+      burst: this.options.burst,
+      tokens: Math.floor(this.tokens),
+      queued: {
+        interactive: this.queues.interactive.length,
+        alerts: this.queues.alerts.length,
+        background: this.queues.background.length
+      },
+      usedLastMinute: this.callsInLastMinute(now),
+      blockedUntil: this.blockedUntil > now ? new Date(this.blockedUntil) : null
+    };
+  }
+
+  /**
+   * Quota view in the shape the rest of the app already reports
+   */
+  getApiStatus(): FinnhubApiStatus {
+    const now = Date.now();
+    const used = this.callsInLastMinute(now);
+    const limit = this.options.ratePerMinute;
+    const oldestCall = this.recentCalls[0];
+    const resetMs = this.blockedUntil > now
+      ? this.blockedUntil
+      : oldestCall !== undefined ? oldestCall + MINUTE_MS : now + MINUTE_MS;
+
+    return {
+      quotaUsed: used,
+      quotaLimit: limit,
+      quotaRemaining: Math.max(0, limit - used),
+      resetTime: new Date(resetMs),
+      isLimitReached: this.blockedUntil > now || used >= limit,
+      lastUpdated: new Date(now)
+    };
+  }
+
+  /**
+   * Measured usage, oldest first. Minute buckets cover the last 24 hours; day buckets
+   * cover the configured history and include days without calls.
+   */
+  getUsageHistory(granularity: 'minute' | 'day', since?: Date): UsageBucket[] {
+    const now = Date.now();
+
+    if (granularity === 'minute') {
+      const from = Math.max(since?.getTime() ?? 0, now - DAY_MS);
+      return Array.from(this.minuteBuckets.entries())
+        .filter(([start]) => start >= Math.floor(from / MINUTE_MS) * MINUTE_MS)
+        .sort(([a], [b]) => a - b)
+        .map(([, bucket]) => bucket);
+    }
+
+    const today = Math.floor(now / DAY_MS) * DAY_MS;
+    const firstDay = Math.max(
+      Math.floor((since?.getTime() ?? today) / DAY_MS) * DAY_MS,
+      today - (this.options.historyDays - 1) * DAY_MS
+    );
+    const days: UsageBucket[] = [];
+    for (let day = firstDay; day <= today; day += DAY_MS) {
+      days.push(this.dayBuckets.get(day) ?? emptyBucket(day));
+    }
+    return days;
+  }
+
+  getOptions(): GovernorOptions {
+    return { ...this.options };
+  }
+
+  private pump(): void {
+    if (this.timer) return;
+
+    const now = Date.now();
+    if (this.blockedUntil > now) {
+      this.wakeAfter(this.blockedUntil - now);
+      return;
+    }
+
+    this.refill();
+    while (this.tokens >= 1) {
+      const next = this.nextRequest();
+      if (!next) return;
+      this.tokens -= 1;
+      next.start();
+    }
+
+    if (this.hasQueued()) {
+      const msPerToken = MINUTE_MS / this.options.ratePerMinute;
+      this.wakeAfter(Math.ceil((1 - this.tokens) * msPerToken));
+    }
+  }
+
+  private wakeAfter(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, Math.max(delayMs, 10));
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+    if (this.blockedUntil > now) return;
+    this.tokens = Math.min(this.options.burst, this.tokens + (elapsed * this.options.ratePerMinute) / MINUTE_MS);
+  }
+
+  private nextRequest(): QueuedRequest | undefined {
+    for (const priority of REQUEST_PRIORITIES) {
+      const request = this.queues[priority].shift();
+      if (request) return request;
+    }
+    return undefined;
+  }
+
+  private hasQueued(): boolean {
+    return REQUEST_PRIORITIES.some(priority => this.queues[priority].length > 0);
+  }
+
+  private callsInLastMinute(now: number): number {
+    while (this.recentCalls.length > 0 && this.recentCalls[0] <= now - MINUTE_MS) {
+      this.recentCalls.shift();
+    }
+    return this.recentCalls.length;
+  }
+
+  private record(priority: RequestPriority, startedAt: number, outcome: 'ok' | 'error' | 'rateLimited'): void {
+    const now = Date.now();
+    this.recentCalls.push(startedAt);
+
+    const minute = Math.floor(startedAt / MINUTE_MS) * MINUTE_MS;
+    const day = Math.floor(startedAt / DAY_MS) * DAY_MS;
+    for (const [buckets, start] of [[this.minuteBuckets, minute], [this.dayBuckets, day]] as const) {
+      const bucket = buckets.get(start) ?? emptyBucket(start);
+      bucket.requests++;
+      bucket.byPriority[priority]++;
+      bucket.totalLatencyMs += now - startedAt;
+      if (outcome === 'error') bucket.errors++;
+      if (outcome === 'rateLimited') bucket.rateLimited++;
+      buckets.set(start, bucket);
+    }
+
+    this.prune(now);
+  }
+
+  private prune(now: number): void {
+    const minuteCutoff = now - DAY_MS;
+    for (const start of Array.from(this.minuteBuckets.keys())) {
+      if (start < minuteCutoff) this.minuteBuckets.delete(start);
+    }
+    const dayCutoff = now - this.options.historyDays * DAY_MS;
+    for (const start of Array.from(this.dayBuckets.keys())) {
+      if (start < dayCutoff) this.dayBuckets.delete(start);
+    }
+  }
+}
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Singleton instance shared by every Finnhub caller in this process
+export const finnhubGovernor = new RateLimitGovernor({
+  ratePerMinute: readLimit(process.env.FINNHUB_RATE_LIMIT_PER_MINUTE, 60),
+  burst: readLimit(process.env.FINNHUB_RATE_LIMIT_BURST, 10)
+});
+
+export default finnhubGovernor;
@@ -295,22 +295,25 @@ class RealTimeStocksService {
 
   private async updateStockPrices() {
     try {
-      // Get current prices from Finnhub API
-      for (const stock of this.stocks) {
-        const response = await fetch('/api/finnhub/quotes', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ symbols: [stock.symbol] })
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          const priceData = data[stock.symbol];
+      // Get current prices through the batch quotes route (live provider or replay fixtures)
+      const response = await fetch('/api/finnhub/quotes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tickers: this.stocks.map(stock => stock.symbol) })
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        const quotes = result.data || {};
+
+        for (const stock of this.stocks) {
+          const priceData = quotes[stock.symbol];
           
           if (priceData) {
             stock.currentPrice = priceData.currentPrice;
             stock.change24h = priceData.change;
             stock.changePercent24h = priceData.changePercent;
+            stock.volume24h = priceData.volume ?? stock.volume24h;
             stock.lastUpdated = new Date();
 
             // Update sentiment based on price movement
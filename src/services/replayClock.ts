@@ -0,0 +1,123 @@
+/**
+ * Replay Clock
+ * Controllable market clock used by the replay provider (speed-up, pause, seek)
+ *
+ * Configured through MARKET_DATA_REPLAY_START (ISO date/time) and MARKET_DATA_REPLAY_SPEED
+ * (replay milliseconds per real millisecond). Without a start time the clock follows the wall clock.
+ */
+
+export interface ReplayClockState {
+  now: string; // ISO timestamp of the replay "present"
+  nowMs: number;
+  speed: number;
+  isPaused: boolean;
+  startedAt: string;
+}
+
+export class ReplayClock {
+  private anchorRealMs: number;
+  private anchorReplayMs: number;
+  private startMs: number;
+  private speed: number;
+  private paused = false;
+  private realNow: () => number;
+
+  constructor(startMs?: number, speed = 1, realNow: () => number = () => Date.now()) {
+    this.realNow = realNow;
+    this.anchorRealMs = realNow();
+    this.startMs = startMs ?? this.anchorRealMs;
+    this.anchorReplayMs = this.startMs;
+    this.speed = speed > 0 ? speed : 1;
+  }
+
+  /**
+   * Current replay time in milliseconds
+   */
+  now(): number {
+    if (this.paused) return this.anchorReplayMs;
+    return this.anchorReplayMs + (this.realNow() - this.anchorRealMs) * this.speed;
+  }
+
+  /**
+   * Current replay time in unix seconds (Finnhub timestamp unit)
+   */
+  nowSeconds(): number {
+    return Math.floor(this.now() / 1000);
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  pause(): void {
+    if (this.paused) return;
+    this.rebase();
+    this.paused = true;
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.anchorRealMs = this.realNow();
+    this.paused = false;
+  }
+
+  /**
+   * Jump to a point in replay time; keeps the current speed and pause state
+   */
+  seek(target: Date | number): void {
+    this.anchorReplayMs = typeof target === 'number' ? target : target.getTime();
+    this.anchorRealMs = this.realNow();
+  }
+
+  setSpeed(speed: number): void {
+    if (!(speed > 0) || !Number.isFinite(speed)) {
+      throw new Error('Replay speed must be a positive number');
+    }
+    this.rebase();
+    this.speed = speed;
+  }
+
+  /**
+   * Return to the configured start time at normal speed
+   */
+  reset(): void {
+    this.anchorRealMs = this.realNow();
+    this.anchorReplayMs = this.startMs;
+    this.speed = 1;
+    this.paused = false;
+  }
+
+  getState(): ReplayClockState {
+    const nowMs = this.now();
+    return {
+      now: new Date(nowMs).toISOString(),
+      nowMs,
+      speed: this.speed,
+      isPaused: this.paused,
+      startedAt: new Date(this.startMs).toISOString()
+    };
+  }
+
+  /**
+   * Fold elapsed real time into the replay anchor before changing speed or pausing
+   */
+  private rebase(): void {
+    this.anchorReplayMs = this.now();
+    this.anchorRealMs = this.realNow();
+  }
+}
+
+function createConfiguredClock(): ReplayClock {
+  const start = process.env.MARKET_DATA_REPLAY_START;
+  const startMs = start ? new Date(start).getTime() : NaN;
+  const speed = parseFloat(process.env.MARKET_DATA_REPLAY_SPEED || '1');
+
+  return new ReplayClock(
+    Number.isNaN(startMs) ? undefined : startMs,
+    Number.isFinite(speed) && speed > 0 ? speed : 1
+  );
+}
+
+// Singleton instance
+export const replayClock = createConfiguredClock();
+export default replayClock;
@@ -0,0 +1,361 @@
+/**
+ * Replay Market Data Provider
+ * File-backed implementation of the MarketDataProvider contract for offline runs and tests
+ *
+ * Fixtures live in MARKET_DATA_REPLAY_DIR (default: data/replay), one `<SYMBOL>.json` or
+ * `<SYMBOL>.csv` per ticker. JSON fixtures:
+ * {
+ *   "symbol": "AAPL",
+ *   "profile": { "name": "Apple Inc", "finnhubIndustry": "Technology", ... },
+ *   "metrics": { "peBasicExclExtraTTM": 29.1, ... },
+ *   "earnings": [{ "symbol": "AAPL", "date": "2024-08-01", "epsEstimate": 1.35 }],
+ *   "splits": [{ "symbol": "AAPL", "date": "2020-08-31", "fromFactor": 1, "toFactor": 4 }],
+ *   "dividends": [{ "symbol": "AAPL", "date": "2024-08-12", "amount": 0.25 }],
+ *   "news": [{ "headline": "...", "datetime": 1722470400 }],
+ *   "candles": { "D": [{ "t": 1722470400, "o": 218.1, "h": 224.4, "l": 217.0, "c": 218.4, "v": 62501000 }] }
+ * }
+ *
+ * CSV fixtures carry candles only, with a header row:
+ *   date,open,high,low,close,volume[,resolution]
+ * where `date` is an ISO date/time or unix seconds and `resolution` defaults to D.
+ *
+ * Quotes and candles are played back against the replay clock: nothing after the clock's
+ * "present" is visible, and the bar in progress moves linearly from its open to its close.
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import {
+  MarketDataProvider,
+  MarketDataProviderError,
+  ProviderBasicFinancials,
+  ProviderCandles,
+  ProviderCompanyProfile,
+  ProviderDividend,
+  ProviderEarningsEntry,
+  ProviderNewsArticle,
+  ProviderQuote,
+  ProviderSearchResult,
+  ProviderSplit,
+  RESOLUTION_SECONDS
+} from './marketDataProvider';
+import { ReplayClock, replayClock } from './replayClock';
+
+export interface ReplayBar {
+  t: number; // Unix seconds
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+}
+
+export interface ReplayFixture {
+  symbol: string;
+  profile?: ProviderCompanyProfile;
+  metrics?: ProviderBasicFinancials;
+  earnings?: ProviderEarningsEntry[];
+  splits?: ProviderSplit[];
+  dividends?: ProviderDividend[];
+  news?: ProviderNewsArticle[];
+  candles: Record<string, ReplayBar[]>;
+}
+
+// Finest first: quotes are played from the most granular series a fixture provides
+const QUOTE_RESOLUTIONS = ['1', '5', '15', '30', '60', 'D', 'W', 'M'];
+
+const FIXTURE_EXTENSIONS = ['.json', '.csv'];
+// Fixture file names come from symbols, so anything that could leave the fixture dir is refused
+const FIXTURE_SYMBOL_PATTERN = /^[A-Z0-9.\-^]+$/;
+
+export class ReplayMarketDataProvider implements MarketDataProvider {
+  public readonly name = 'replay' as const;
+  private fixtureDir: string;
+  private fixtures = new Map<string, ReplayFixture | null>();
+  private clock: ReplayClock;
+
+  constructor(fixtureDir?: string, clock: ReplayClock = replayClock) {
+    this.fixtureDir = fixtureDir
+      ?? process.env.MARKET_DATA_REPLAY_DIR
+      ?? path.join(process.cwd(), 'data', 'replay');
+    this.clock = clock;
+  }
+
+  getClock(): ReplayClock {
+    return this.clock;
+  }
+
+  isConfigured(): boolean {
+    return existsSync(this.fixtureDir);
+  }
+
+  async getQuote(symbol: string): Promise<ProviderQuote> {
+    const fixture = await this.requireFixture(symbol);
+    const now = this.clock.nowSeconds();
+    const resolution = QUOTE_RESOLUTIONS.find(res => (fixture.candles[res] || []).length > 0);
+    const bars = resolution ? this.sortedBars(fixture, resolution) : [];
+
+    // Latest bar that has opened by now; before the series starts, hold the first bar's open
+    let index = -1;
+    while (index + 1 < bars.length && bars[index + 1].t <= now) index++;
+
+    const first = bars[0];
+    if (!first || !resolution) {
+      throw new MarketDataProviderError(`Replay fixture for ${symbol} has no candles`, 404, this.name);
+    }
+
+    const bar = index >= 0 ? this.playBar(bars[index], resolution, now) : { ...first, h: first.o, l: first.o, c: first.o, v: 0 };
+    const previousClose = this.previousClose(fixture, bars, Math.max(index, 0), resolution);
+    const change = bar.c - previousClose;
+
+    return {
+      c: bar.c,
+      d: change,
+      dp: previousClose ? (change / previousClose) * 100 : 0,
+      h: bar.h,
+      l: bar.l,
+      o: bar.o,
+      pc: previousClose,
+      t: Math.min(now, bar.t + (RESOLUTION_SECONDS[resolution] || 0)),
+      v: bar.v
+    };
+  }
+
+  async getCandles(symbol: string, resolution: string, from: number, to: number): Promise<ProviderCandles> {
+    const fixture = await this.loadFixture(symbol);
+    const now = this.clock.nowSeconds();
+    const end = Math.min(to, now);
+    const bars = fixture
+      ? this.sortedBars(fixture, resolution)
+        .filter(bar => bar.t >= from && bar.t <= end)
+        .map(bar => this.playBar(bar, resolution, now))
+      : [];
+
+    return {
+      s: bars.length > 0 ? 'ok' : 'no_data',
+      c: bars.map(bar => bar.c),
+      h: bars.map(bar => bar.h),
+      l: bars.map(bar => bar.l),
+      o: bars.map(bar => bar.o),
+      t: bars.map(bar => bar.t),
+      v: bars.map(bar => bar.v)
+    };
+  }
+
+  async getCompanyProfile(symbol: string): Promise<ProviderCompanyProfile> {
+    const fixture = await this.requireFixture(symbol);
+    return fixture.profile || { ticker: fixture.symbol, name: fixture.symbol };
+  }
+
+  async getBasicFinancials(symbol: string): Promise<ProviderBasicFinancials> {
+    const fixture = await this.requireFixture(symbol);
+    return fixture.metrics || {};
+  }
+
+  async getEarningsCalendar(symbol: string, from: string, to: string): Promise<ProviderEarningsEntry[]> {
+    const fixture = await this.loadFixture(symbol);
+    return (fixture?.earnings || []).filter(entry => entry.date >= from && entry.date <= to);
+  }
+
+  async getSplits(symbol: string, from: string, to: string): Promise<ProviderSplit[]> {
+    const fixture = await this.loadFixture(symbol);
+    return (fixture?.splits || []).filter(split => split.date >= from && split.date <= to);
+  }
+
+  async getDividends(symbol: string, from: string, to: string): Promise<ProviderDividend[]> {
+    const fixture = await this.loadFixture(symbol);
+    return (fixture?.dividends || []).filter(dividend => dividend.date >= from && dividend.date <= to);
+  }
+
+  async getCompanyNews(symbol: string, from: string, to: string): Promise<ProviderNewsArticle[]> {
+    const fixture = await this.loadFixture(symbol);
+    const fromTs = Math.floor(new Date(from).getTime() / 1000);
+    const toTs = Math.floor(new Date(to).getTime() / 1000) + 86400;
+    return (fixture?.news || []).filter(article => article.datetime >= fromTs && article.datetime < toTs);
+  }
+
+  async searchSymbols(query: string): Promise<ProviderSearchResult[]> {
+    const queryUpper = query.trim().toUpperCase();
+    const results: ProviderSearchResult[] = [];
+
+    for (const symbol of await this.listSymbols()) {
+      const fixture = await this.loadFixture(symbol);
+      if (!fixture) continue;
+
+      const description = fixture.profile?.name || fixture.symbol;
+      if (fixture.symbol.includes(queryUpper) || description.toUpperCase().includes(queryUpper)) {
+        results.push({
+          description,
+          displaySymbol: fixture.symbol,
+          symbol: fixture.symbol,
+          type: 'Common Stock'
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Symbols that have a fixture file in the replay directory
+   */
+  async listSymbols(): Promise<string[]> {
+    if (!this.isConfigured()) return [];
+
+    const files = await fs.readdir(this.fixtureDir);
+    const symbols = files
+      .filter(file => FIXTURE_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+      .map(file => path.basename(file, path.extname(file)).toUpperCase());
+    return Array.from(new Set(symbols)).sort();
+  }
+
+  /**
+   * Drop loaded fixtures so edited files are picked up
+   */
+  clearCache(): void {
+    this.fixtures.clear();
+  }
+
+  private async requireFixture(symbol: string): Promise<ReplayFixture> {
+    const fixture = await this.loadFixture(symbol);
+    if (!fixture) {
+      throw new MarketDataProviderError(`No replay fixture for ${symbol}`, 404, this.name);
+    }
+    return fixture;
+  }
+
+  private async loadFixture(symbol: string): Promise<ReplayFixture | null> {
+    const key = symbol.toUpperCase();
+    if (!FIXTURE_SYMBOL_PATTERN.test(key)) return null;
+    if (this.fixtures.has(key)) {
+      return this.fixtures.get(key) || null;
+    }
+
+    const jsonPath = path.join(this.fixtureDir, `${key}.json`);
+    const csvPath = path.join(this.fixtureDir, `${key}.csv`);
+    let fixture: ReplayFixture | null = null;
+
+    try {
+      if (existsSync(jsonPath)) {
+        const raw = JSON.parse(await fs.readFile(jsonPath, 'utf-8')) as Partial<ReplayFixture>;
+        fixture = {
+          ...raw,
+          symbol: (raw.symbol || key).toUpperCase(),
+          candles: raw.candles || {}
+        };
+      }
+
+      // A CSV next to a JSON fixture supplies (or overrides) its candle series
+      if (existsSync(csvPath)) {
+        const candles = parseReplayCsv(await fs.readFile(csvPath, 'utf-8'));
+        fixture = {
+          ...(fixture || { symbol: key }),
+          candles: { ...(fixture?.candles || {}), ...candles }
+        };
+      }
+    } catch (error) {
+      console.error(`Failed to load replay fixture for ${key}:`, error);
+      fixture = null;
+    }
+
+    this.fixtures.set(key, fixture);
+    return fixture;
+  }
+
+  private sortedBars(fixture: ReplayFixture, resolution: string): ReplayBar[] {
+    return [...(fixture.candles[resolution] || [])].sort((a, b) => a.t - b.t);
+  }
+
+  /**
+   * Reveal a bar up to `now`: a completed bar is returned as recorded, the bar in progress
+   * trades linearly from open to close with volume accruing proportionally
+   */
+  private playBar(bar: ReplayBar, resolution: string, now: number): ReplayBar {
+    const duration = RESOLUTION_SECONDS[resolution] || 0;
+    const elapsed = now - bar.t;
+    if (duration === 0 || elapsed >= duration) return bar;
+
+    const progress = Math.max(0, elapsed / duration);
+    const price = bar.o + (bar.c - bar.o) * progress;
+    return {
+      t: bar.t,
+      o: bar.o,
+      h: Math.min(bar.h, Math.max(bar.o, price)),
+      l: Math.max(bar.l, Math.min(bar.o, price)),
+      c: price,
+      v: Math.round(bar.v * progress)
+    };
+  }
+
+  /**
+   * Previous session close: prior daily bar when available, otherwise the last bar of an earlier day
+   */
+  private previousClose(fixture: ReplayFixture, bars: ReplayBar[], index: number, resolution: string): number {
+    const current = bars[index];
+
+    if (resolution !== 'D') {
+      const daily = this.sortedBars(fixture, 'D');
+      const dayStart = current.t - (current.t % 86400);
+      const priorDay = [...daily].reverse().find(bar => bar.t < dayStart);
+      if (priorDay) return priorDay.c;
+
+      for (let i = index - 1; i >= 0; i--) {
+        if (bars[i].t < dayStart) return bars[i].c;
+      }
+      return bars[0].o;
+    }
+
+    return index > 0 ? bars[index - 1].c : current.o;
+  }
+}
+
+/**
+ * Parse a CSV candle fixture into bars keyed by resolution
+ */
+export function parseReplayCsv(content: string): Record<string, ReplayBar[]> {
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  if (lines.length === 0) return {};
+
+  const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+  const column = (...names: string[]) => header.findIndex(name => names.includes(name));
+  const columns = {
+    t: column('t', 'time', 'timestamp', 'date', 'datetime'),
+    o: column('o', 'open'),
+    h: column('h', 'high'),
+    l: column('l', 'low'),
+    c: column('c', 'close'),
+    v: column('v', 'volume'),
+    resolution: column('resolution', 'res')
+  };
+
+  if ([columns.t, columns.o, columns.h, columns.l, columns.c].some(index => index === -1)) {
+    throw new Error('Replay CSV must have date, open, high, low and close columns');
+  }
+
+  const candles: Record<string, ReplayBar[]> = {};
+
+  lines.slice(1).forEach((line, lineIndex) => {
+    const cells = line.split(',').map(cell => cell.trim());
+    const rawTime = cells[columns.t];
+    const t = /^\d+$/.test(rawTime) ? parseInt(rawTime, 10) : Math.floor(new Date(rawTime).getTime() / 1000);
+    const bar: ReplayBar = {
+      t,
+      o: parseFloat(cells[columns.o]),
+      h: parseFloat(cells[columns.h]),
+      l: parseFloat(cells[columns.l]),
+      c: parseFloat(cells[columns.c]),
+      v: columns.v === -1 ? 0 : parseFloat(cells[columns.v]) || 0
+    };
+
+    if ([bar.t, bar.o, bar.h, bar.l, bar.c].some(value => Number.isNaN(value))) {
+      throw new Error(`Invalid replay CSV row ${lineIndex + 2}: ${line}`);
+    }
+
+    const resolution = (columns.resolution !== -1 && cells[columns.resolution]) || 'D';
+    (candles[resolution] = candles[resolution] || []).push(bar);
+  });
+
+  return candles;
+}
+
+export default ReplayMarketDataProvider;
@@ -0,0 +1,577 @@
+/**
+ * Screener Service
+ * Filters, sorts and pages a local snapshot of quotes and fundamentals for a stock universe
+ *
+ * The universe is the list saved through setUniverse, else SCREENER_UNIVERSE
+ * ("AAPL:Technology,XOM:Energy,TSLA"), else DEFAULT_SCREENER_UNIVERSE. Its snapshot is kept in
+ * SCREENER_DIR (default: data/screener) as `<provider>.json`: quotes are refetched after
+ * QUOTE_TTL_MS and fundamentals after FUNDAMENTALS_TTL_MS, so a query is answered locally
+ * and only starts a background refresh when the snapshot has aged. Technical conditions use
+ * the signal rule language and run only on the stocks that pass the field filters.
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import {
+  RealtimePrice,
+  ScreenerField,
+  ScreenerFilter,
+  ScreenerQuery,
+  ScreenerResult,
+  ScreenerRow,
+  ScreenerUniverseEntry
+} from '@/types';
+import {
+  isMarketDataProviderError,
+  MarketDataProvider,
+  ProviderBasicFinancials,
+  ProviderQuote
+} from './marketDataProvider';
+import { getMarketDataProvider } from './marketDataProviderConfig';
+import { compileSignalRule } from './signalRules';
+import { signalRuleService } from './signalRuleService';
+
+export class ScreenerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScreenerError';
+  }
+}
+
+export interface ScreenerFieldInfo {
+  label: string;
+  kind: 'number' | 'string';
+  unit?: string;
+}
+
+export const SCREENER_FIELDS: Record<ScreenerField, ScreenerFieldInfo> = {
+  ticker: { label: 'Ticker', kind: 'string' },
+  name: { label: 'Company', kind: 'string' },
+  sector: { label: 'Sector', kind: 'string' },
+  industry: { label: 'Industry', kind: 'string' },
+  exchange: { label: 'Exchange', kind: 'string' },
+  currentPrice: { label: 'Price', kind: 'number', unit: '$' },
+  change: { label: 'Change', kind: 'number', unit: '$' },
+  changePercent: { label: 'Change %', kind: 'number', unit: '%' },
+  volume: { label: 'Volume', kind: 'number' },
+  averageVolume: { label: 'Avg volume (10d)', kind: 'number' },
+  volumeRatio: { label: 'Relative volume', kind: 'number', unit: 'x' },
+  marketCap: { label: 'Market cap', kind: 'number', unit: '$M' },
+  peRatio: { label: 'P/E', kind: 'number' },
+  dividendYield: { label: 'Dividend yield', kind: 'number', unit: '%' },
+  beta: { label: 'Beta', kind: 'number' },
+  week52High: { label: '52-week high', kind: 'number', unit: '$' },
+  week52Low: { label: '52-week low', kind: 'number', unit: '$' },
+  percentFromHigh: { label: 'From 52-week high', kind: 'number', unit: '%' },
+  shareFloat: { label: 'Shares outstanding', kind: 'number', unit: 'M' }
+};
+
+export const DEFAULT_SCREENER_UNIVERSE: ScreenerUniverseEntry[] = [
+  ...['AAPL', 'MSFT', 'GOOGL', 'NVDA', 'META', 'AVGO', 'ORCL', 'CRM', 'ADBE', 'AMD']
+    .map(symbol => ({ symbol, sector: 'Technology' })),
+  ...['JNJ', 'PFE', 'UNH', 'ABBV', 'MRK', 'LLY', 'TMO']
+    .map(symbol => ({ symbol, sector: 'Healthcare' })),
+  ...['JPM', 'BAC', 'WFC', 'GS', 'MS', 'V', 'MA', 'BRK.B']
+    .map(symbol => ({ symbol, sector: 'Financial' })),
+  ...['XOM', 'CVX', 'COP', 'EOG', 'SLB']
+    .map(symbol => ({ symbol, sector: 'Energy' })),
+  ...['AMZN', 'TSLA', 'HD', 'MCD', 'NKE', 'KO', 'PEP', 'WMT', 'COST']
+    .map(symbol => ({ symbol, sector: 'Consumer' })),
+  ...['CAT', 'BA', 'HON', 'UPS', 'GE']
+    .map(symbol => ({ symbol, sector: 'Industrial' }))
+];
+
+// Subset of the provider's profile and metrics the screener reads
+interface StoredFundamentals {
+  name?: string;
+  industry?: string;
+  exchange?: string;
+  marketCap: number | null;
+  shareFloat: number | null;
+  peRatio: number | null;
+  dividendYield: number | null;
+  beta: number | null;
+  week52High: number | null;
+  week52Low: number | null;
+  averageVolume: number | null;
+}
+
+interface SnapshotEntry {
+  quote?: ProviderQuote;
+  quoteAt: number;
+  fundamentals?: StoredFundamentals;
+  fundamentalsAt: number;
+}
+
+interface ScreenerSnapshotFile {
+  version: 1;
+  provider: string;
+  universeKey: string; // Symbols the last refresh covered
+  entries: Record<string, SnapshotEntry>;
+  refreshedAt: number;
+}
+
+interface UniverseFile {
+  version: 1;
+  universe: ScreenerUniverseEntry[];
+  updatedAt: string;
+}
+
+const FILE_VERSION = 1;
+const QUOTE_TTL_MS = 5 * 60 * 1000;
+const FUNDAMENTALS_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const MAX_UNIVERSE_SIZE = 500;
+const SYMBOL_PATTERN = /^[A-Z0-9.-]{1,10}$/;
+// Each rule candidate needs its own candle history
+const MAX_RULE_CANDIDATES = 100;
+const DEFAULT_SORT: Required<ScreenerQuery>['sort'] = { field: 'marketCap', direction: 'desc' };
+
+const OPERATORS = ['gt', 'gte', 'lt', 'lte', 'eq', 'neq', 'between', 'in'];
+const NUMERIC_OPERATORS = ['gt', 'gte', 'lt', 'lte', 'between'];
+
+function isScreenerField(field: unknown): field is ScreenerField {
+  return typeof field === 'string' && Object.prototype.hasOwnProperty.call(SCREENER_FIELDS, field);
+}
+
+/**
+ * First finite number among the given metric keys (vendors report some as strings)
+ */
+function metricNumber(metrics: ProviderBasicFinancials, ...keys: string[]): number | null {
+  for (const key of keys) {
+    const value = Number(metrics[key]);
+    if (metrics[key] !== null && metrics[key] !== undefined && metrics[key] !== '' && isFinite(value)) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function round(value: number | null, digits = 2): number | null {
+  if (value === null || !isFinite(value)) return null;
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Parse "AAPL:Technology,XOM:Energy,TSLA" into universe entries, as written
+ */
+export function parseScreenerUniverse(spec: string): ScreenerUniverseEntry[] {
+  return spec.split(',').map(item => {
+    const [symbol, sector] = item.split(':').map(part => part.trim());
+    return { symbol, sector: sector || undefined };
+  }).filter(entry => entry.symbol);
+}
+
+function normalizeUniverse(entries: ScreenerUniverseEntry[]): ScreenerUniverseEntry[] {
+  const seen = new Set<string>();
+  const universe: ScreenerUniverseEntry[] = [];
+  for (const entry of entries) {
+    const symbol = entry.symbol?.trim().toUpperCase();
+    if (!symbol || !SYMBOL_PATTERN.test(symbol) || seen.has(symbol)) continue;
+    seen.add(symbol);
+    universe.push(entry.sector?.trim() ? { symbol, sector: entry.sector.trim() } : { symbol });
+  }
+  return universe;
+}
+
+/**
+ * Check a query's filters, sort and paging; throws ScreenerError on the first problem
+ */
+export function validateScreenerQuery(query: ScreenerQuery): void {
+  if (query.filters !== undefined && !Array.isArray(query.filters)) {
+    throw new ScreenerError('filters must be an array');
+  }
+  for (const filter of query.filters ?? []) {
+    if (!isScreenerField(filter?.field)) {
+      throw new ScreenerError(`Unknown field "${filter?.field}". Use one of: ${Object.keys(SCREENER_FIELDS).join(', ')}`);
+    }
+    if (!OPERATORS.includes(filter.op)) {
+      throw new ScreenerError(`Unknown operator "${filter.op}" for ${filter.field}. Use one of: ${OPERATORS.join(', ')}`);
+    }
+    const kind = SCREENER_FIELDS[filter.field].kind;
+    if (kind === 'string' && NUMERIC_OPERATORS.includes(filter.op)) {
+      throw new ScreenerError(`${filter.field} is text; use eq, neq or in`);
+    }
+    const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+    if (filter.op === 'between' && values.length !== 2) {
+      throw new ScreenerError(`between needs [min, max] for ${filter.field}`);
+    }
+    if (filter.op !== 'between' && filter.op !== 'in' && Array.isArray(filter.value)) {
+      throw new ScreenerError(`${filter.op} needs a single value for ${filter.field}`);
+    }
+    if (values.length === 0 || values.some(value => kind === 'number' ? typeof value !== 'number' || !isFinite(value) : typeof value !== 'string')) {
+      throw new ScreenerError(`${filter.field} needs ${kind === 'number' ? 'numeric' : 'text'} values`);
+    }
+  }
+  if (query.sort !== undefined) {
+    if (!isScreenerField(query.sort?.field)) {
+      throw new ScreenerError(`Cannot sort by "${query.sort?.field}"`);
+    }
+    if (query.sort.direction !== 'asc' && query.sort.direction !== 'desc') {
+      throw new ScreenerError('sort.direction must be asc or desc');
+    }
+  }
+}
+
+function matchesFilter(row: ScreenerRow, filter: ScreenerFilter): boolean {
+  const value = row[filter.field];
+  if (value === null || value === undefined) return false;
+
+  const normalize = (item: number | string) => typeof item === 'string' ? item.toLowerCase() : item;
+  const actual = normalize(value);
+  const expected = Array.isArray(filter.value) ? filter.value.map(normalize) : [normalize(filter.value)];
+
+  switch (filter.op) {
+    case 'gt': return actual > expected[0];
+    case 'gte': return actual >= expected[0];
+    case 'lt': return actual < expected[0];
+    case 'lte': return actual <= expected[0];
+    case 'eq': return actual === expected[0];
+    case 'neq': return actual !== expected[0];
+    case 'between': return actual >= expected[0] && actual <= expected[1];
+    case 'in': return expected.includes(actual);
+  }
+}
+
+/**
+ * Order rows by a field; rows without a value always sort last
+ */
+function compareRows(a: ScreenerRow, b: ScreenerRow, sort: Required<ScreenerQuery>['sort']): number {
+  const left = a[sort.field];
+  const right = b[sort.field];
+  if (left === null || left === undefined) return right === null || right === undefined ? 0 : 1;
+  if (right === null || right === undefined) return -1;
+
+  const order = typeof left === 'string' || typeof right === 'string'
+    ? String(left).localeCompare(String(right))
+    : left - right;
+  return sort.direction === 'asc' ? order : -order;
+}
+
+/**
+ * Snapshot quote in the shape signal rules merge into today's bar
+ */
+function toRealtimePrice(symbol: string, quote: ProviderQuote): RealtimePrice {
+  return {
+    ticker: symbol,
+    currentPrice: quote.c,
+    change: quote.d,
+    changePercent: quote.dp,
+    high: quote.h,
+    low: quote.l,
+    open: quote.o,
+    previousClose: quote.pc,
+    timestamp: new Date(quote.t * 1000),
+    volume: quote.v
+  };
+}
+
+export class ScreenerService {
+  private baseDir: string;
+  private universe: ScreenerUniverseEntry[] | null = null;
+  private snapshots = new Map<string, ScreenerSnapshotFile>();
+  private refreshes = new Map<string, Promise<ScreenerSnapshotFile>>();
+
+  constructor(baseDir?: string) {
+    this.baseDir = path.resolve(baseDir ?? process.env.SCREENER_DIR ?? path.join(process.cwd(), 'data', 'screener'));
+  }
+
+  /**
+   * Run a screen; throws ScreenerError for bad queries and SignalRuleError for bad rules
+   */
+  async screen(query: ScreenerQuery = {}, options: { refresh?: boolean } = {}): Promise<ScreenerResult> {
+    validateScreenerQuery(query);
+    const compiled = query.rule?.trim() ? compileSignalRule(query.rule) : null;
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.pageSize ?? DEFAULT_PAGE_SIZE)));
+    const page = Math.max(1, Math.floor(query.page ?? 1));
+
+    const { rows, universeSize, stale, snapshot } = await this.getRows(options.refresh ?? false);
+    let matches = rows.filter(row => (query.filters ?? []).every(filter => matchesFilter(row, filter)));
+
+    if (compiled) {
+      if (matches.length > MAX_RULE_CANDIDATES) {
+        throw new ScreenerError(
+          `${matches.length} stocks pass the filters; signal rules can be evaluated for at most ${MAX_RULE_CANDIDATES}. Add filters to narrow the screen.`
+        );
+      }
+      const evaluations = await signalRuleService.evaluateMany(matches.map(row => row.ticker), compiled, {
+        resolution: 'D',
+        quotes: new Map(matches.map(row => [row.ticker, toRealtimePrice(row.ticker, snapshot.entries[row.ticker].quote!)])),
+        priority: 'background',
+        feature: 'screener'
+      });
+      const matched = new Map(evaluations.filter(evaluation => evaluation.matched).map(evaluation => [evaluation.symbol, evaluation.values]));
+      matches = matches
+        .filter(row => matched.has(row.ticker))
+        .map(row => ({ ...row, signals: matched.get(row.ticker) }));
+    }
+
+    const sort = query.sort ?? DEFAULT_SORT;
+    matches.sort((a, b) => compareRows(a, b, sort));
+
+    const quoteTimes = rows.map(row => row.quoteUpdatedAt).sort();
+    return {
+      rows: matches.slice((page - 1) * pageSize, page * pageSize),
+      total: matches.length,
+      page,
+      pageSize,
+      universeSize,
+      asOf: quoteTimes[0] ?? null,
+      stale,
+      ...(compiled ? { rule: compiled.source } : {})
+    };
+  }
+
+  /**
+   * Symbols the screener covers, with each one's sector group
+   */
+  async getUniverse(): Promise<ScreenerUniverseEntry[]> {
+    if (this.universe) return this.universe;
+
+    const filePath = path.join(this.baseDir, 'universe.json');
+    if (existsSync(filePath)) {
+      try {
+        const stored = JSON.parse(await fs.readFile(filePath, 'utf-8')) as UniverseFile;
+        if (stored.version === FILE_VERSION && Array.isArray(stored.universe)) {
+          this.universe = normalizeUniverse(stored.universe);
+          return this.universe;
+        }
+      } catch (error) {
+        console.error(`Ignoring unreadable screener universe ${filePath}:`, error);
+      }
+    }
+
+    const configured = process.env.SCREENER_UNIVERSE ? normalizeUniverse(parseScreenerUniverse(process.env.SCREENER_UNIVERSE)) : [];
+    this.universe = configured.length > 0 ? configured : DEFAULT_SCREENER_UNIVERSE;
+    return this.universe;
+  }
+
+  /**
+   * Replace the universe and store it; new symbols are fetched on the next screen
+   */
+  async setUniverse(entries: ScreenerUniverseEntry[]): Promise<ScreenerUniverseEntry[]> {
+    const invalid = entries
+      .map(entry => entry.symbol?.trim().toUpperCase())
+      .filter(symbol => symbol && !SYMBOL_PATTERN.test(symbol));
+    if (invalid.length > 0) {
+      throw new ScreenerError(`Invalid symbols: ${invalid.slice(0, 10).join(', ')}`);
+    }
+
+    const universe = normalizeUniverse(entries);
+    if (universe.length === 0) {
+      throw new ScreenerError('The universe needs at least one symbol');
+    }
+    if (universe.length > MAX_UNIVERSE_SIZE) {
+      throw new ScreenerError(`The universe can hold at most ${MAX_UNIVERSE_SIZE} symbols`);
+    }
+
+    const file: UniverseFile = { version: FILE_VERSION, universe, updatedAt: new Date().toISOString() };
+    await this.writeFile(path.join(this.baseDir, 'universe.json'), file);
+    this.universe = universe;
+    return universe;
+  }
+
+  /**
+   * Distinct sector groups of the universe, in universe order
+   */
+  async getSectors(): Promise<string[]> {
+    const universe = await this.getUniverse();
+    return [...new Set(universe.map(entry => entry.sector).filter((sector): sector is string => !!sector))];
+  }
+
+  private async getRows(
+    waitForRefresh: boolean
+  ): Promise<{ rows: ScreenerRow[]; universeSize: number; stale: boolean; snapshot: ScreenerSnapshotFile }> {
+    const provider = getMarketDataProvider('background', 'screener');
+    const universe = await this.getUniverse();
+    let snapshot = await this.load(provider.name);
+
+    const universeKey = universe.map(entry => entry.symbol).join(',');
+    const stale = snapshot.universeKey !== universeKey || Date.now() - snapshot.refreshedAt >= QUOTE_TTL_MS;
+    if (stale) {
+      const refresh = this.startRefresh(provider, snapshot, universe);
+      if (waitForRefresh || Object.keys(snapshot.entries).length === 0) {
+        snapshot = await refresh;
+      } else {
+        refresh.catch(error => console.error('Background screener refresh failed:', error));
+      }
+    }
+
+    const rows = universe
+      .map(entry => this.toRow(entry, snapshot.entries[entry.symbol]))
+      .filter((row): row is ScreenerRow => row !== null);
+    return { rows, universeSize: universe.length, stale: stale && this.refreshes.has(provider.name), snapshot };
+  }
+
+  private startRefresh(
+    provider: MarketDataProvider,
+    snapshot: ScreenerSnapshotFile,
+    universe: ScreenerUniverseEntry[]
+  ): Promise<ScreenerSnapshotFile> {
+    let refresh = this.refreshes.get(provider.name);
+    if (!refresh) {
+      refresh = this.refresh(provider, snapshot, universe).finally(() => this.refreshes.delete(provider.name));
+      this.refreshes.set(provider.name, refresh);
+    }
+    return refresh;
+  }
+
+  /**
+   * Refetch aged quotes and fundamentals symbol by symbol; a rate limit ends the pass early
+   * and keeps what was fetched, and a failed symbol keeps its previous data
+   */
+  private async refresh(
+    provider: MarketDataProvider,
+    previous: ScreenerSnapshotFile,
+    universe: ScreenerUniverseEntry[]
+  ): Promise<ScreenerSnapshotFile> {
+    const entries: Record<string, SnapshotEntry> = {};
+    let rateLimited = false;
+
+    for (const { symbol } of universe) {
+      const entry: SnapshotEntry = previous.entries[symbol] ? { ...previous.entries[symbol] } : { quoteAt: 0, fundamentalsAt: 0 };
+      entries[symbol] = entry;
+      if (rateLimited) continue;
+
+      try {
+        if (Date.now() - entry.quoteAt >= QUOTE_TTL_MS) {
+          const quote = await provider.getQuote(symbol);
+          if (quote.c > 0) {
+            entry.quote = quote;
+            entry.quoteAt = Date.now();
+          }
+        }
+        if (Date.now() - entry.fundamentalsAt >= FUNDAMENTALS_TTL_MS) {
+          entry.fundamentals = await this.fetchFundamentals(provider, symbol);
+          entry.fundamentalsAt = Date.now();
+        }
+      } catch (error) {
+        if (isMarketDataProviderError(error) && error.isRateLimited) {
+          console.warn(`Screener refresh stopped at ${symbol}: ${error.provider} rate limit reached`);
+          rateLimited = true;
+        } else {
+          console.error(`Screener refresh failed for ${symbol}:`, error);
+        }
+      }
+    }
+
+    const updated: ScreenerSnapshotFile = {
+      version: FILE_VERSION,
+      provider: provider.name,
+      universeKey: universe.map(entry => entry.symbol).join(','),
+      entries,
+      // A partial pass is retried on the next screen rather than after the TTL
+      refreshedAt: rateLimited ? previous.refreshedAt : Date.now()
+    };
+    this.snapshots.set(provider.name, updated);
+
+    try {
+      await this.writeFile(path.join(this.baseDir, `${provider.name}.json`), updated);
+    } catch (error) {
+      console.error('Failed to store screener snapshot:', error);
+    }
+    return updated;
+  }
+
+  /**
+   * Profile and metrics are fetched independently; either may be missing on some plans
+   */
+  private async fetchFundamentals(provider: MarketDataProvider, symbol: string): Promise<StoredFundamentals> {
+    const [profileResult, metricsResult] = await Promise.allSettled([
+      provider.getCompanyProfile(symbol),
+      provider.getBasicFinancials(symbol)
+    ]);
+    for (const result of [profileResult, metricsResult]) {
+      if (result.status === 'rejected' && isMarketDataProviderError(result.reason) && result.reason.isRateLimited) {
+        throw result.reason;
+      }
+    }
+    const profile = profileResult.status === 'fulfilled' ? profileResult.value : {};
+    const metrics = metricsResult.status === 'fulfilled' ? metricsResult.value : {};
+    const averageVolume = metricNumber(metrics, '10DayAverageTradingVolume', '3MonthAverageTradingVolume');
+
+    return {
+      name: profile.name,
+      industry: profile.finnhubIndustry,
+      exchange: profile.exchange,
+      marketCap: profile.marketCapitalization ?? metricNumber(metrics, 'marketCapitalization'),
+      shareFloat: profile.shareOutstanding ?? null,
+      peRatio: metricNumber(metrics, 'peBasicExclExtraTTM', 'peTTM', 'peNormalizedAnnual'),
+      dividendYield: metricNumber(metrics, 'dividendYieldIndicatedAnnual', 'currentDividendYieldTTM'),
+      beta: metricNumber(metrics, 'beta'),
+      week52High: metricNumber(metrics, '52WeekHigh'),
+      week52Low: metricNumber(metrics, '52WeekLow'),
+      // Reported in millions of shares
+      averageVolume: averageVolume !== null ? averageVolume * 1_000_000 : null
+    };
+  }
+
+  private toRow(universeEntry: ScreenerUniverseEntry, entry: SnapshotEntry | undefined): ScreenerRow | null {
+    if (!entry?.quote) return null;
+    const { quote } = entry;
+    const fundamentals = entry.fundamentals;
+    const volume = quote.v ?? null;
+    const averageVolume = fundamentals?.averageVolume ?? null;
+    const week52High = fundamentals?.week52High ?? null;
+
+    return {
+      ticker: universeEntry.symbol,
+      name: fundamentals?.name || universeEntry.symbol,
+      sector: universeEntry.sector || fundamentals?.industry || 'Unknown',
+      industry: fundamentals?.industry,
+      exchange: fundamentals?.exchange,
+      currentPrice: quote.c,
+      change: quote.d,
+      changePercent: quote.dp,
+      volume,
+      averageVolume,
+      volumeRatio: volume !== null && averageVolume ? round(volume / averageVolume) : null,
+      marketCap: fundamentals?.marketCap ?? null,
+      peRatio: fundamentals?.peRatio ?? null,
+      dividendYield: fundamentals?.dividendYield ?? null,
+      beta: fundamentals?.beta ?? null,
+      week52High,
+      week52Low: fundamentals?.week52Low ?? null,
+      percentFromHigh: week52High ? round(Math.min(0, (quote.c / week52High - 1) * 100)) : null,
+      shareFloat: fundamentals?.shareFloat ?? null,
+      quoteUpdatedAt: new Date(entry.quoteAt).toISOString(),
+      fundamentalsUpdatedAt: new Date(entry.fundamentalsAt).toISOString()
+    };
+  }
+
+  private async load(providerName: string): Promise<ScreenerSnapshotFile> {
+    const cached = this.snapshots.get(providerName);
+    if (cached) return cached;
+
+    const filePath = path.join(this.baseDir, `${providerName}.json`);
+    let snapshot: ScreenerSnapshotFile = { version: FILE_VERSION, provider: providerName, universeKey: '', entries: {}, refreshedAt: 0 };
+
+    if (existsSync(filePath)) {
+      try {
+        const stored = JSON.parse(await fs.readFile(filePath, 'utf-8')) as ScreenerSnapshotFile;
+        if (stored.version === FILE_VERSION && stored.entries && typeof stored.entries === 'object') {
+          snapshot = stored;
+        }
+      } catch (error) {
+        console.error(`Ignoring unreadable screener snapshot ${filePath}:`, error);
+      }
+    }
+
+    this.snapshots.set(providerName, snapshot);
+    return snapshot;
+  }
+
+  private async writeFile(filePath: string, contents: object): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write-then-rename so a crash never leaves a half-written file behind
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(contents));
+    await fs.rename(tempPath, filePath);
+  }
+}
+
+export const screenerService = new ScreenerService();
+export default screenerService;
@@ -0,0 +1,38 @@
+/**
+ * Seeded Random Number Generation
+ * Deterministic stand-in for Math.random() so simulated data is reproducible across runs
+ */
+
+/**
+ * Hash a string seed into a 32-bit integer (FNV-1a)
+ */
+export function hashSeed(seed: string | number): number {
+  const text = String(seed);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a mulberry32 generator returning floats in [0, 1)
+ */
+export function createSeededRandom(seed: string | number): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Global seed shared by simulated data sources (MARKET_DATA_REPLAY_SEED)
+ */
+export function getReplaySeed(): string {
+  return process.env.MARKET_DATA_REPLAY_SEED || process.env.NEXT_PUBLIC_MARKET_DATA_REPLAY_SEED || 'equity-insight';
+}
@@ -0,0 +1,162 @@
+/**
+ * Signal Rule Service
+ * Evaluates user-defined signal rules for a symbol against stored history and the live quote
+ *
+ * Bars come from the candle store (resampled when the resolution is not stored directly),
+ * split- and dividend-adjusted, with enough history for the rule's warm-up. For daily rules
+ * the live quote stands in for today's bar (replacing it when the store already has one for
+ * the session, appending it otherwise), so alerts see the move as it happens rather than
+ * at the next close. History is reused for HISTORY_TTL_MS per symbol and resolution
+ * because alert checks run on every price tick.
+ */
+
+import { ChartDataPoint, RealtimePrice, RequestPriority, SignalRuleEvaluation } from '@/types';
+import { RESOLUTION_SECONDS } from './marketDataProvider';
+import { getMarketDataProvider } from './marketDataProviderConfig';
+import { candleStore } from './candleStore';
+import { adjustCandles, corporateActionService, exDateSeconds } from './corporateActionService';
+import { marketCalendar } from './marketCalendar';
+import { replayClock } from './replayClock';
+import { CompiledSignalRule, compileSignalRule } from './signalRules';
+import { TechnicalAnalysisService } from './technicalAnalysisService';
+
+export interface SignalRuleEvaluationOptions {
+  resolution?: string; // Candle resolution the rule runs on (default daily)
+  quote?: RealtimePrice | null; // Live quote merged into the latest daily bar
+  priority?: RequestPriority; // Scheduling class for candle backfills (default alerts)
+  feature?: string; // Usage ledger attribution, e.g. monitoring or screener
+}
+
+interface CachedHistory {
+  bars: ChartDataPoint[];
+  from: number;
+  loadedAt: number;
+}
+
+const HISTORY_TTL_MS = 5 * 60 * 1000;
+// Recursive indicators (EMA, RSI, ADX) settle only after several warm-up lengths
+const WARMUP_SETTLE_FACTOR = 3;
+const MIN_HISTORY_BARS = 60;
+// Calendar seconds per bar of history: daily bars skip weekends and holidays
+const CALENDAR_FACTOR = 1.5;
+
+export class SignalRuleService {
+  private history = new Map<string, CachedHistory>();
+  private technicalAnalysis = new TechnicalAnalysisService();
+
+  /**
+   * Evaluate a rule for one symbol at its latest bar; throws SignalRuleError for bad rules
+   */
+  async evaluate(
+    symbol: string,
+    rule: string | CompiledSignalRule,
+    options: SignalRuleEvaluationOptions = {}
+  ): Promise<SignalRuleEvaluation> {
+    const compiled = typeof rule === 'string' ? compileSignalRule(rule) : rule;
+    const resolution = options.resolution ?? 'D';
+    const normalizedSymbol = symbol.toUpperCase();
+
+    const count = Math.max(MIN_HISTORY_BARS, (compiled.warmup + 1) * WARMUP_SETTLE_FACTOR);
+    let bars = await this.getHistory(normalizedSymbol, resolution, count, options.priority ?? 'alerts', options.feature ?? 'monitoring');
+    if (resolution === 'D' && options.quote) {
+      bars = this.withLiveQuote(normalizedSymbol, bars, options.quote);
+    }
+
+    return { symbol: normalizedSymbol, ...this.technicalAnalysis.evaluateSignalRule(compiled, bars) };
+  }
+
+  /**
+   * Evaluate one rule for many symbols; symbols whose history cannot be loaded are skipped
+   */
+  async evaluateMany(
+    symbols: string[],
+    rule: string | CompiledSignalRule,
+    options: Omit<SignalRuleEvaluationOptions, 'quote'> & { quotes?: Map<string, RealtimePrice> } = {}
+  ): Promise<SignalRuleEvaluation[]> {
+    const compiled = typeof rule === 'string' ? compileSignalRule(rule) : rule;
+    const results: SignalRuleEvaluation[] = [];
+    for (const symbol of symbols) {
+      try {
+        results.push(await this.evaluate(symbol, compiled, { ...options, quote: options.quotes?.get(symbol.toUpperCase()) }));
+      } catch (error) {
+        console.error(`Signal rule evaluation failed for ${symbol}:`, error);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * At least `sessions` adjusted daily bars from the candle store, without the live quote;
+   * shares the history cache with rule evaluation
+   */
+  async getDailyBars(
+    symbol: string,
+    sessions: number,
+    options: Pick<SignalRuleEvaluationOptions, 'priority' | 'feature'> = {}
+  ): Promise<ChartDataPoint[]> {
+    return this.getHistory(symbol.toUpperCase(), 'D', sessions, options.priority ?? 'alerts', options.feature ?? 'monitoring');
+  }
+
+  clearCache(): void {
+    this.history.clear();
+  }
+
+  private async getHistory(
+    symbol: string,
+    resolution: string,
+    bars: number,
+    priority: RequestPriority,
+    feature: string
+  ): Promise<ChartDataPoint[]> {
+    const provider = getMarketDataProvider(priority, feature);
+    const barSeconds = RESOLUTION_SECONDS[resolution] || RESOLUTION_SECONDS.D;
+    const to = provider.name === 'replay' ? replayClock.nowSeconds() : Math.floor(Date.now() / 1000);
+    const from = to - Math.ceil(bars * barSeconds * CALENDAR_FACTOR);
+
+    const key = `${provider.name}:${symbol}:${resolution}`;
+    const cached = this.history.get(key);
+    if (cached && cached.from <= from && Date.now() - cached.loadedAt < HISTORY_TTL_MS) {
+      return cached.bars;
+    }
+
+    const actions = await corporateActionService.getActions(symbol, provider);
+    const { candles: series } = await candleStore.getResampledCandles(symbol, resolution, from, to, provider, candles =>
+      adjustCandles(candles, actions, { asOf: provider.name === 'replay' ? to : undefined })
+    );
+
+    const history = (series.s === 'ok' ? series.t : []).map((time, index) => ({
+      timestamp: new Date(time * 1000).toISOString(),
+      open: series.o[index],
+      high: series.h[index],
+      low: series.l[index],
+      close: series.c[index],
+      volume: series.v[index]
+    }));
+    this.history.set(key, { bars: history, from, loadedAt: Date.now() });
+    return history;
+  }
+
+  /**
+   * Daily bars with the live quote as the bar for its trading session
+   */
+  private withLiveQuote(symbol: string, bars: ChartDataPoint[], quote: RealtimePrice): ChartDataPoint[] {
+    const exchange = marketCalendar.exchangeForSymbol(symbol);
+    const session = marketCalendar.sessionDateAt(new Date(quote.timestamp), exchange);
+    const last = bars[bars.length - 1];
+    const lastSession = last ? last.timestamp.slice(0, 10) : '';
+    if (last && session < lastSession) return bars;
+
+    const live: ChartDataPoint = {
+      timestamp: new Date(exDateSeconds(session) * 1000).toISOString(),
+      open: quote.open || quote.currentPrice,
+      high: Math.max(quote.high || quote.currentPrice, quote.currentPrice),
+      low: Math.min(quote.low || quote.currentPrice, quote.currentPrice),
+      close: quote.currentPrice,
+      volume: quote.volume ?? (session === lastSession ? last.volume : 0)
+    };
+    return session === lastSession ? [...bars.slice(0, -1), live] : [...bars, live];
+  }
+}
+
+export const signalRuleService = new SignalRuleService();
+export default signalRuleService;
@@ -0,0 +1,767 @@
+/**
+ * Signal Rules
+ * A small expression language for alert and screen conditions over OHLCV bars
+ *
+ * Rules read like `rsi(14) < 30 and close > sma(200) and volume > 2 * avg_volume(20)`:
+ * numbers, price fields, indicator functions with constant arguments, + - * /, comparisons,
+ * `crosses above` / `crosses below`, and `and` / `or` / `not`. Source is tokenized, parsed
+ * and type-checked before anything runs, and every error carries the character range it
+ * refers to. Names resolve only against the fixed tables below, so a rule cannot reach
+ * anything but the bar series it is evaluated on.
+ *
+ * Evaluation is vectorised: each sub-expression becomes one value per bar (null inside an
+ * indicator's warm-up), so the same compiled rule serves the latest bar for alerts and the
+ * whole history for screens. Pure functions only, so rules also check in the browser.
+ */
+
+import { IndicatorId, SignalRuleDiagnostic, SignalRuleEvaluation } from '@/types';
+import {
+  IndicatorInput,
+  INDICATORS,
+  IndicatorSeries,
+  IndicatorSpecError,
+  MAX_INDICATOR_PERIOD,
+  resolveIndicatorParams,
+  sma
+} from './indicatorEngine';
+
+export class SignalRuleError extends Error {
+  constructor(public diagnostics: SignalRuleDiagnostic[]) {
+    super(diagnostics[0]?.message ?? 'Invalid signal rule');
+    this.name = 'SignalRuleError';
+  }
+}
+
+// ===== SYNTAX =====
+
+type ComparisonOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+type ArithmeticOperator = '+' | '-' | '*' | '/';
+type CrossOperator = 'crosses above' | 'crosses below';
+
+interface NodeSpan {
+  start: number; // Character offsets into the rule source, end exclusive
+  end: number;
+}
+
+export type SignalRuleNode = NodeSpan & (
+  | { kind: 'number'; value: number }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'field'; name: string }
+  | { kind: 'call'; name: string; args: SignalRuleNode[] }
+  | { kind: 'negate'; operand: SignalRuleNode }
+  | { kind: 'not'; operand: SignalRuleNode }
+  | { kind: 'arithmetic'; operator: ArithmeticOperator; left: SignalRuleNode; right: SignalRuleNode }
+  | { kind: 'compare'; operator: ComparisonOperator | CrossOperator; left: SignalRuleNode; right: SignalRuleNode }
+  | { kind: 'logical'; operator: 'and' | 'or'; left: SignalRuleNode; right: SignalRuleNode }
+);
+
+export type SignalRuleField = 'open' | 'high' | 'low' | 'close' | 'price' | 'volume';
+
+const FIELDS: Record<SignalRuleField, { description: string; series: (input: IndicatorInput) => number[] }> = {
+  open: { description: 'Opening price', series: input => input.open },
+  high: { description: 'High of the bar', series: input => input.high },
+  low: { description: 'Low of the bar', series: input => input.low },
+  close: { description: 'Closing (latest) price', series: input => input.close },
+  price: { description: 'Same as close', series: input => input.close },
+  volume: { description: 'Volume of the bar', series: input => input.volume }
+};
+
+interface RuleFunction {
+  description: string;
+  defaults: Record<string, number>; // Positional argument order
+  warmup: (params: Record<string, number>) => number;
+  compute: (input: IndicatorInput, params: Record<string, number>) => IndicatorSeries;
+  indicator?: IndicatorId; // Registry indicator whose parameter rules apply
+}
+
+/**
+ * Function backed by one output of an indicator in the engine registry
+ */
+function indicatorOutput(id: IndicatorId, output: string, description: string): RuleFunction {
+  const definition = INDICATORS[id];
+  return {
+    description,
+    defaults: definition.defaults,
+    warmup: definition.warmup,
+    compute: (input, params) => definition.compute(input, params)[output],
+    indicator: id
+  };
+}
+
+const FUNCTIONS: Record<string, RuleFunction> = {
+  sma: indicatorOutput('sma', 'value', 'Simple moving average of close'),
+  ema: indicatorOutput('ema', 'value', 'Exponential moving average of close'),
+  rsi: indicatorOutput('rsi', 'value', 'Relative Strength Index (0-100)'),
+  macd: indicatorOutput('macd', 'line', 'MACD line'),
+  macd_signal: indicatorOutput('macd', 'signal', 'MACD signal line'),
+  macd_hist: indicatorOutput('macd', 'histogram', 'MACD histogram'),
+  bb_upper: indicatorOutput('bollinger', 'upper', 'Upper Bollinger Band'),
+  bb_middle: indicatorOutput('bollinger', 'middle', 'Middle Bollinger Band'),
+  bb_lower: indicatorOutput('bollinger', 'lower', 'Lower Bollinger Band'),
+  atr: indicatorOutput('atr', 'value', 'Average True Range'),
+  stoch_k: indicatorOutput('stochastic', 'k', 'Stochastic %K (0-100)'),
+  stoch_d: indicatorOutput('stochastic', 'd', 'Stochastic %D (0-100)'),
+  adx: indicatorOutput('adx', 'adx', 'Average Directional Index'),
+  plus_di: indicatorOutput('adx', 'plusDI', '+DI line'),
+  minus_di: indicatorOutput('adx', 'minusDI', '-DI line'),
+  obv: indicatorOutput('obv', 'value', 'On-Balance Volume'),
+  vwap: indicatorOutput('vwap', 'value', 'Volume-weighted average price'),
+  keltner_upper: indicatorOutput('keltner', 'upper', 'Upper Keltner Channel'),
+  keltner_lower: indicatorOutput('keltner', 'lower', 'Lower Keltner Channel'),
+  donchian_upper: indicatorOutput('donchian', 'upper', 'Highest high over the period'),
+  donchian_lower: indicatorOutput('donchian', 'lower', 'Lowest low over the period'),
+  cci: indicatorOutput('cci', 'value', 'Commodity Channel Index'),
+  williams_r: indicatorOutput('williamsR', 'value', 'Williams %R (-100-0)'),
+  mfi: indicatorOutput('mfi', 'value', 'Money Flow Index (0-100)'),
+  avg_volume: {
+    description: 'Average volume of the bars before this one',
+    defaults: { period: 20 },
+    warmup: p => p.period,
+    compute: (input, p) => [null, ...sma(input.volume, p.period).slice(0, -1)].slice(0, input.volume.length)
+  },
+  change: {
+    description: 'Percent change of close over the period',
+    defaults: { period: 1 },
+    warmup: p => p.period,
+    compute: (input, p) => input.close.map((close, i) => {
+      const base = input.close[i - p.period];
+      return i >= p.period && base ? ((close - base) / base) * 100 : null;
+    })
+  }
+};
+
+function isField(name: string): name is SignalRuleField {
+  return Object.prototype.hasOwnProperty.call(FIELDS, name);
+}
+
+function isFunction(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(FUNCTIONS, name);
+}
+
+const KEYWORDS = ['and', 'or', 'not', 'crosses', 'above', 'below', 'true', 'false'];
+
+/**
+ * Names a rule can use, for editor hints and error suggestions
+ */
+export const SIGNAL_RULE_VOCABULARY = {
+  fields: Object.entries(FIELDS).map(([name, field]) => ({ name, description: field.description })),
+  functions: Object.entries(FUNCTIONS).map(([name, fn]) => ({
+    name,
+    description: fn.description,
+    params: Object.keys(fn.defaults),
+    example: `${name}(${Object.values(fn.defaults).join(', ')})`
+  }))
+};
+
+// ===== TOKENIZER =====
+
+interface Token extends NodeSpan {
+  type: 'number' | 'name' | 'operator' | 'end';
+  text: string;
+}
+
+function fail(message: string, span: NodeSpan): never {
+  throw new SignalRuleError([{ message, start: span.start, end: span.end }]);
+}
+
+const OPERATORS = ['<=', '>=', '==', '!=', '<', '>', '+', '-', '*', '/', '(', ')', ','];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+(\.\d*)?|\.\d+)/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], start: i, end: i + number[0].length });
+      i += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (name) {
+      tokens.push({ type: 'name', text: name[0].toLowerCase(), start: i, end: i + name[0].length });
+      i += name[0].length;
+      continue;
+    }
+
+    const two = source.slice(i, i + 2);
+    if (two === '&&' || two === '||') {
+      fail(`Use "${two === '&&' ? 'and' : 'or'}" instead of "${two}"`, { start: i, end: i + 2 });
+    }
+    const operator = OPERATORS.find(candidate => source.startsWith(candidate, i));
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator, start: i, end: i + operator.length });
+      i += operator.length;
+      continue;
+    }
+    if (char === '=') {
+      fail('Use "==" to compare for equality', { start: i, end: i + 1 });
+    }
+    if (char === '!') {
+      fail('Use "not" to negate a condition', { start: i, end: i + 1 });
+    }
+    fail(`Unexpected character "${char}"`, { start: i, end: i + 1 });
+  }
+  tokens.push({ type: 'end', text: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// ===== PARSER =====
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): SignalRuleNode {
+    if (this.peek().type === 'end') {
+      fail('Rule is empty; try something like "rsi(14) < 30"', this.peek());
+    }
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      fail(`Unexpected "${next.text}"; join conditions with "and" or "or"`, next);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.position++;
+    return token;
+  }
+
+  private isName(text: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'name' && token.text === text;
+  }
+
+  private isOperator(...texts: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && texts.includes(token.text);
+  }
+
+  private parseOr(): SignalRuleNode {
+    let left = this.parseAnd();
+    while (this.isName('or')) {
+      this.next();
+      const right = this.parseAnd();
+      left = { kind: 'logical', operator: 'or', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseAnd(): SignalRuleNode {
+    let left = this.parseNot();
+    while (this.isName('and')) {
+      this.next();
+      const right = this.parseNot();
+      left = { kind: 'logical', operator: 'and', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseNot(): SignalRuleNode {
+    if (this.isName('not')) {
+      const token = this.next();
+      const operand = this.parseNot();
+      return { kind: 'not', operand, start: token.start, end: operand.end };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): SignalRuleNode {
+    const left = this.parseSum();
+    const operator = this.readComparisonOperator();
+    if (!operator) return left;
+
+    const right = this.parseSum();
+    const node: SignalRuleNode = { kind: 'compare', operator, left, right, start: left.start, end: right.end };
+    const chained = this.peek();
+    if (this.readComparisonOperator()) {
+      fail('Comparisons cannot be chained; join them with "and", e.g. "rsi(14) > 30 and rsi(14) < 70"', chained);
+    }
+    return node;
+  }
+
+  private readComparisonOperator(): ComparisonOperator | CrossOperator | null {
+    if (this.isOperator('<', '<=', '>', '>=', '==', '!=')) {
+      return this.next().text as ComparisonOperator;
+    }
+    if (this.isName('crosses')) {
+      const crosses = this.next();
+      if (this.isName('above') || this.isName('below')) {
+        return `crosses ${this.next().text}` as CrossOperator;
+      }
+      fail('Expected "above" or "below" after "crosses"', { start: crosses.start, end: this.peek().end });
+    }
+    return null;
+  }
+
+  private parseSum(): SignalRuleNode {
+    let left = this.parseProduct();
+    while (this.isOperator('+', '-')) {
+      const operator = this.next().text as ArithmeticOperator;
+      const right = this.parseProduct();
+      left = { kind: 'arithmetic', operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseProduct(): SignalRuleNode {
+    let left = this.parseUnary();
+    while (this.isOperator('*', '/')) {
+      const operator = this.next().text as ArithmeticOperator;
+      const right = this.parseUnary();
+      left = { kind: 'arithmetic', operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseUnary(): SignalRuleNode {
+    if (this.isOperator('-')) {
+      const token = this.next();
+      const operand = this.parseUnary();
+      if (operand.kind === 'number') {
+        return { ...operand, value: -operand.value, start: token.start };
+      }
+      return { kind: 'negate', operand, start: token.start, end: operand.end };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): SignalRuleNode {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { kind: 'number', value: Number(token.text), start: token.start, end: token.end };
+    }
+
+    if (token.type === 'operator' && token.text === '(') {
+      const inner = this.parseOr();
+      const close = this.next();
+      if (close.type !== 'operator' || close.text !== ')') {
+        fail('Missing ")" to close the "(" here', { start: token.start, end: token.end });
+      }
+      return { ...inner, start: token.start, end: close.end };
+    }
+
+    if (token.type === 'name') {
+      if (token.text === 'true' || token.text === 'false') {
+        return { kind: 'boolean', value: token.text === 'true', start: token.start, end: token.end };
+      }
+      if (KEYWORDS.includes(token.text)) {
+        fail(`"${token.text}" needs a value before it`, token);
+      }
+      if (this.isOperator('(')) {
+        return this.parseCall(token);
+      }
+      return { kind: 'field', name: token.text, start: token.start, end: token.end };
+    }
+
+    if (token.type === 'end') {
+      fail('Rule ends too early; a value is missing', token);
+    }
+    fail(`Expected a number, price field or function, found "${token.text}"`, token);
+  }
+
+  private parseCall(name: Token): SignalRuleNode {
+    this.next(); // (
+    const args: SignalRuleNode[] = [];
+    if (!this.isOperator(')')) {
+      args.push(this.parseSum());
+      while (this.isOperator(',')) {
+        this.next();
+        args.push(this.parseSum());
+      }
+    }
+    const close = this.next();
+    if (close.type !== 'operator' || close.text !== ')') {
+      fail(`Missing ")" to close ${name.text}(`, { start: name.start, end: close.end });
+    }
+    return { kind: 'call', name: name.text, args, start: name.start, end: close.end };
+  }
+}
+
+export function parseSignalRule(source: string): SignalRuleNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+// ===== TYPE CHECKER =====
+
+type RuleType = 'number' | 'boolean';
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function suggestName(name: string): string {
+  // "rsi14" → "rsi(14)"
+  const glued = /^([a-z_]+?)_?(\d+)$/.exec(name);
+  if (glued && isFunction(glued[1])) {
+    return ` Did you mean ${glued[1]}(${glued[2]})?`;
+  }
+  const candidates = [...Object.keys(FIELDS), ...Object.keys(FUNCTIONS)]
+    .map(candidate => ({ candidate, distance: editDistance(name, candidate) }))
+    .filter(({ distance }) => distance <= 2)
+    .sort((a, b) => a.distance - b.distance);
+  if (candidates.length === 0) return '';
+  const best = candidates[0].candidate;
+  return ` Did you mean ${isFunction(best) ? `${best}(...)` : best}?`;
+}
+
+function describeType(type: RuleType): string {
+  return type === 'number' ? 'a number' : 'a condition (true/false)';
+}
+
+/**
+ * Resolved parameters of a function call; arguments must be plain numbers
+ */
+function callParams(node: Extract<SignalRuleNode, { kind: 'call' }>, diagnostics: SignalRuleDiagnostic[]): Record<string, number> | null {
+  const fn = FUNCTIONS[node.name];
+  const names = Object.keys(fn.defaults);
+  const example = `${node.name}(${Object.values(fn.defaults).join(', ')})`;
+
+  if (node.args.length > names.length) {
+    diagnostics.push({
+      message: names.length === 0
+        ? `${node.name}() takes no arguments`
+        : `${node.name} takes at most ${names.length} argument(s) (${names.join(', ')}), e.g. ${example}`,
+      start: node.start,
+      end: node.end
+    });
+    return null;
+  }
+
+  const params: Record<string, number> = {};
+  for (const [index, arg] of node.args.entries()) {
+    if (arg.kind !== 'number') {
+      diagnostics.push({ message: `Arguments to ${node.name} must be plain numbers, e.g. ${example}`, start: arg.start, end: arg.end });
+      return null;
+    }
+    params[names[index]] = arg.value;
+  }
+
+  try {
+    if (fn.indicator) {
+      return resolveIndicatorParams({ id: fn.indicator, params });
+    }
+    const resolved = { ...fn.defaults, ...params };
+    const invalid = Object.entries(resolved).find(([, value]) => !(Number.isInteger(value) && value > 0));
+    if (invalid) {
+      throw new IndicatorSpecError(`${node.name} ${invalid[0]} must be a positive whole number`);
+    }
+    const tooLong = Object.entries(resolved).find(([, value]) => value > MAX_INDICATOR_PERIOD);
+    if (tooLong) {
+      throw new IndicatorSpecError(`${node.name} ${tooLong[0]} must be at most ${MAX_INDICATOR_PERIOD}`);
+    }
+    return resolved;
+  } catch (error) {
+    if (!(error instanceof IndicatorSpecError)) throw error;
+    diagnostics.push({ message: error.message, start: node.start, end: node.end });
+    return null;
+  }
+}
+
+function checkNode(node: SignalRuleNode, diagnostics: SignalRuleDiagnostic[]): RuleType | null {
+  const expect = (child: SignalRuleNode, type: RuleType, context: string) => {
+    const actual = checkNode(child, diagnostics);
+    if (actual && actual !== type) {
+      diagnostics.push({
+        message: `${context} needs ${describeType(type)}, but this is ${describeType(actual)}`,
+        start: child.start,
+        end: child.end
+      });
+    }
+  };
+
+  switch (node.kind) {
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'field':
+      if (isField(node.name)) return 'number';
+      if (isFunction(node.name)) {
+        const example = `${node.name}(${Object.values(FUNCTIONS[node.name].defaults).join(', ')})`;
+        diagnostics.push({ message: `${node.name} is a function; call it with parentheses, e.g. ${example}`, start: node.start, end: node.end });
+        return 'number';
+      }
+      diagnostics.push({ message: `Unknown name "${node.name}".${suggestName(node.name)}`, start: node.start, end: node.end });
+      return null;
+    case 'call':
+      if (isField(node.name)) {
+        diagnostics.push({ message: `${node.name} is a price field and takes no arguments`, start: node.start, end: node.end });
+        return 'number';
+      }
+      if (!isFunction(node.name)) {
+        diagnostics.push({ message: `Unknown function "${node.name}".${suggestName(node.name)}`, start: node.start, end: node.end });
+        return null;
+      }
+      callParams(node, diagnostics);
+      return 'number';
+    case 'negate':
+      expect(node.operand, 'number', '"-"');
+      return 'number';
+    case 'not':
+      expect(node.operand, 'boolean', '"not"');
+      return 'boolean';
+    case 'arithmetic':
+      expect(node.left, 'number', `"${node.operator}"`);
+      expect(node.right, 'number', `"${node.operator}"`);
+      return 'number';
+    case 'compare':
+      expect(node.left, 'number', `"${node.operator}"`);
+      expect(node.right, 'number', `"${node.operator}"`);
+      return 'boolean';
+    case 'logical':
+      expect(node.left, 'boolean', `"${node.operator}"`);
+      expect(node.right, 'boolean', `"${node.operator}"`);
+      return 'boolean';
+  }
+}
+
+// ===== COMPILATION =====
+
+interface CompiledCall {
+  key: string; // Canonical label, e.g. "bb_lower(20,2)"
+  fn: RuleFunction;
+  params: Record<string, number>;
+}
+
+export interface CompiledSignalRule {
+  source: string;
+  ast: SignalRuleNode;
+  warmup: number; // Bars of history needed before the rule can be true
+  terms: string[]; // Fields and calls the rule reads, e.g. ["rsi(14)", "close"]
+  calls: Map<SignalRuleNode, CompiledCall>;
+}
+
+function callKey(name: string, params: Record<string, number>): string {
+  const values = Object.values(params);
+  return values.length > 0 ? `${name}(${values.join(',')})` : `${name}()`;
+}
+
+/**
+ * Every problem with a rule, without throwing; an empty list means the rule compiles
+ */
+export function checkSignalRule(source: string): SignalRuleDiagnostic[] {
+  try {
+    compileSignalRule(source);
+    return [];
+  } catch (error) {
+    if (error instanceof SignalRuleError) return error.diagnostics;
+    throw error;
+  }
+}
+
+/**
+ * Parse and type-check a rule; throws SignalRuleError listing every problem found
+ */
+export function compileSignalRule(source: string): CompiledSignalRule {
+  if (typeof source !== 'string') {
+    throw new SignalRuleError([{ message: 'Rule must be a string', start: 0, end: 0 }]);
+  }
+
+  const ast = parseSignalRule(source);
+  const diagnostics: SignalRuleDiagnostic[] = [];
+  const type = checkNode(ast, diagnostics);
+  if (diagnostics.length === 0 && type === 'number') {
+    diagnostics.push({
+      message: 'A rule must be a condition such as "close > sma(50)", not just a number',
+      start: ast.start,
+      end: ast.end
+    });
+  }
+  if (diagnostics.length > 0) {
+    throw new SignalRuleError(diagnostics);
+  }
+
+  const calls = new Map<SignalRuleNode, CompiledCall>();
+  const terms = new Set<string>();
+  let warmup = 0;
+  const visit = (node: SignalRuleNode): void => {
+    switch (node.kind) {
+      case 'field':
+        terms.add(node.name);
+        break;
+      case 'call': {
+        const fn = FUNCTIONS[node.name];
+        const params = callParams(node, [])!;
+        const key = callKey(node.name, params);
+        calls.set(node, { key, fn, params });
+        terms.add(key);
+        warmup = Math.max(warmup, fn.warmup(params));
+        break;
+      }
+      case 'negate':
+      case 'not':
+        visit(node.operand);
+        break;
+      case 'arithmetic':
+      case 'compare':
+      case 'logical':
+        visit(node.left);
+        visit(node.right);
+        break;
+    }
+  };
+  visit(ast);
+
+  // Crosses compare against the previous bar
+  const hasCross = (node: SignalRuleNode): boolean =>
+    node.kind === 'compare' ? node.operator.startsWith('crosses') || hasCross(node.left) || hasCross(node.right)
+      : node.kind === 'logical' ? hasCross(node.left) || hasCross(node.right)
+        : node.kind === 'not' ? hasCross(node.operand)
+          : false;
+
+  return { source, ast, warmup: warmup + (hasCross(ast) ? 1 : 0), terms: [...terms], calls };
+}
+
+/**
+ * Rule source with a caret line under the range a diagnostic refers to
+ */
+export function formatSignalRuleDiagnostic(source: string, diagnostic: SignalRuleDiagnostic): string {
+  const width = Math.max(1, diagnostic.end - diagnostic.start);
+  return `${source}\n${' '.repeat(diagnostic.start)}${'^'.repeat(width)} ${diagnostic.message}`;
+}
+
+// ===== EVALUATION =====
+
+type RuleSeries = (number | boolean | null)[];
+
+function evaluateNode(
+  node: SignalRuleNode,
+  rule: CompiledSignalRule,
+  input: IndicatorInput,
+  cache: Map<string, IndicatorSeries>
+): RuleSeries {
+  const length = input.close.length;
+  const numbers = (child: SignalRuleNode) => evaluateNode(child, rule, input, cache) as (number | null)[];
+  const booleans = (child: SignalRuleNode) => evaluateNode(child, rule, input, cache) as (boolean | null)[];
+
+  switch (node.kind) {
+    case 'number':
+    case 'boolean':
+      return new Array(length).fill(node.value);
+    case 'field':
+      return FIELDS[node.name as SignalRuleField].series(input);
+    case 'call': {
+      const call = rule.calls.get(node)!;
+      if (!cache.has(call.key)) cache.set(call.key, call.fn.compute(input, call.params));
+      return cache.get(call.key)!;
+    }
+    case 'negate':
+      return numbers(node.operand).map(value => (value === null ? null : -value));
+    case 'not':
+      return booleans(node.operand).map(value => (value === null ? null : !value));
+    case 'arithmetic': {
+      const left = numbers(node.left);
+      const right = numbers(node.right);
+      return left.map((a, i) => {
+        const b = right[i];
+        if (a === null || b === null) return null;
+        const value = node.operator === '+' ? a + b : node.operator === '-' ? a - b : node.operator === '*' ? a * b : a / b;
+        return Number.isFinite(value) ? value : null;
+      });
+    }
+    case 'compare': {
+      const left = numbers(node.left);
+      const right = numbers(node.right);
+      return left.map((a, i) => {
+        const b = right[i];
+        if (a === null || b === null) return null;
+        switch (node.operator) {
+          case '<': return a < b;
+          case '<=': return a <= b;
+          case '>': return a > b;
+          case '>=': return a >= b;
+          case '==': return a === b;
+          case '!=': return a !== b;
+          case 'crosses above':
+          case 'crosses below': {
+            const previousA = i > 0 ? left[i - 1] : null;
+            const previousB = i > 0 ? right[i - 1] : null;
+            if (previousA === null || previousB === null) return null;
+            return node.operator === 'crosses above'
+              ? previousA <= previousB && a > b
+              : previousA >= previousB && a < b;
+          }
+        }
+      });
+    }
+    case 'logical': {
+      // Three-valued: unknown (warm-up) only matters when it could change the answer
+      const left = booleans(node.left);
+      const right = booleans(node.right);
+      return left.map((a, i) => {
+        const b = right[i];
+        if (node.operator === 'and') {
+          if (a === false || b === false) return false;
+          return a === null || b === null ? null : true;
+        }
+        if (a === true || b === true) return true;
+        return a === null || b === null ? null : false;
+      });
+    }
+  }
+}
+
+function asRule(rule: string | CompiledSignalRule): CompiledSignalRule {
+  return typeof rule === 'string' ? compileSignalRule(rule) : rule;
+}
+
+/**
+ * Whether the rule holds at every bar; null where an indicator is still warming up
+ */
+export function evaluateSignalRuleSeries(rule: string | CompiledSignalRule, input: IndicatorInput): (boolean | null)[] {
+  const compiled = asRule(rule);
+  return evaluateNode(compiled.ast, compiled, input, new Map()) as (boolean | null)[];
+}
+
+/**
+ * Evaluate the rule at one bar (default: the latest) along with the value of every term
+ */
+export function evaluateSignalRule(
+  rule: string | CompiledSignalRule,
+  input: IndicatorInput,
+  index = input.close.length - 1
+): SignalRuleEvaluation {
+  const compiled = asRule(rule);
+  const cache = new Map<string, IndicatorSeries>();
+  const series = evaluateNode(compiled.ast, compiled, input, cache);
+  const time = input.time?.[index];
+
+  const values: Record<string, number | null> = {};
+  for (const term of compiled.terms) {
+    const source = cache.get(term) ?? (isField(term) ? FIELDS[term].series(input) : []);
+    values[term] = index >= 0 ? source[index] ?? null : null;
+  }
+
+  return {
+    rule: compiled.source,
+    matched: index >= 0 && series[index] === true,
+    timestamp: time !== undefined ? new Date(time * 1000).toISOString() : undefined,
+    values
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * SMTP Client
+ * Sends a single email through an SMTP relay for the notification dispatcher
+ *
+ * Supports implicit TLS (port 465) and STARTTLS when the server offers it, AUTH PLAIN, and
+ * plain-text messages with an optional HTML alternative. Bodies are base64 so long lines and
+ * leading dots need no special handling. One connection per message: notification volume
+ * does not justify pooling.
+ */
+
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { randomBytes } from 'crypto';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS; otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  from: string; // Address or "Name <address>"
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  // 5xx replies are permanent; connection problems and 4xx replies are worth retrying
+  get permanent(): boolean {
+    return this.code !== undefined && this.code >= 500;
+  }
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * SMTP settings from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD and
+ * SMTP_FROM; null when no host or sender is configured
+ */
+export function smtpConfigFromEnv(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM;
+  if (!host || !from) return null;
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from
+  };
+}
+
+/**
+ * Reads SMTP replies from a socket, which is swapped for its TLS wrapper after STARTTLS
+ */
+class SmtpSession {
+  private buffer = '';
+  private pending: string[] = [];
+  private replies: SmtpResponse[] = [];
+  private waiter: { resolve: (reply: SmtpResponse) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+  private socket!: net.Socket;
+
+  constructor(socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new SmtpError('SMTP connection timed out')));
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')));
+    socket.on('error', error => this.fail(error instanceof SmtpError ? error : new SmtpError(error.message)));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+  }
+
+  detach(): net.Socket {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    this.socket.setTimeout(0);
+    return this.socket;
+  }
+
+  /**
+   * Send a command (or nothing, for the greeting) and wait for the reply, which must have
+   * one of the expected codes
+   */
+  async command(line: string | null, expected: number[]): Promise<SmtpResponse> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.next();
+    if (!expected.includes(reply.code)) {
+      const shown = line?.startsWith('AUTH') ? 'AUTH' : line ?? 'greeting';
+      throw new SmtpError(`SMTP ${shown} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private next(): Promise<SmtpResponse> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  private receive(data: string): void {
+    this.buffer += data;
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.pending.push(line.slice(4));
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}( |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.pending };
+        this.pending = [];
+        if (this.waiter) {
+          const { resolve } = this.waiter;
+          this.waiter = null;
+          resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(error);
+    }
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once('error', reject);
+  });
+}
+
+function address(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Body(value: string): string {
+  return (Buffer.from(value, 'utf8').toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
+
+/**
+ * The message in RFC 5322 form, ending without the terminating dot
+ */
+export function formatMessage(from: string, message: MailMessage, now = new Date()): string {
+  const domain = address(from).split('@')[1] || os.hostname();
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${now.getTime()}.${randomBytes(8).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0'
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Body(message.text)
+    ].join('\r\n');
+  }
+
+  const boundary = `alt_${randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`
+  ].join('\r\n');
+}
+
+/**
+ * Send one message; resolves with the server's reply to the message data (often a queue ID)
+ * and throws SmtpError when the server refuses it or the connection fails
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<string> {
+  let socket: net.Socket;
+  try {
+    socket = await connect(config);
+  } catch (error) {
+    throw new SmtpError(`Could not connect to ${config.host}:${config.port}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const session = new SmtpSession(socket, timeoutMs);
+  try {
+    await session.command(null, [220]);
+    const hello = await session.command(`EHLO ${os.hostname()}`, [250]);
+
+    if (!config.secure && hello.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+      await session.command('STARTTLS', [220]);
+      session.attach(await upgrade(session.detach(), config.host));
+      await session.command(`EHLO ${os.hostname()}`, [250]);
+    }
+
+    if (config.user && config.password) {
+      const credentials = Buffer.from(`\u0000${config.user}\u0000${config.password}`, 'utf8').toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await session.command(`MAIL FROM:<${address(config.from)}>`, [250]);
+    await session.command(`RCPT TO:<${address(message.to)}>`, [250, 251]);
+    await session.command('DATA', [354]);
+    session.write(`${formatMessage(config.from, message)}\r\n`);
+    const accepted = await session.command('.', [250]);
+
+    await session.command('QUIT', [221]).catch(() => undefined);
+    return accepted.lines.join(' ');
+  } finally {
+    session.close();
+  }
+}
@@ -1,19 +1,45 @@
 /**
  * Background Scheduler for Automated Stock Price Monitoring
  * Handles periodic price checks, alert triggers, and API quota management
+ *
+ * Price checks only poll tickers whose exchange is trading (per the market calendar),
+ * plus a short grace period after the close to pick up closing prints, so nights,
+ * weekends and holidays spend no quota.
+ *
+ * Tickers of active alerts are polled alongside the users' portfolios, and every price check
+ * ends with an alert engine evaluation, which stores what fired in the users' trigger history.
+ *
+ * Earnings calendars of monitored tickers, positions and the users' reminder tickers are
+ * refreshed a few times a day, and each refresh sends the pre-earnings reminders that are due.
+ *
+ * Service notices go out through the notification dispatcher, whose failed and held
+ * deliveries are retried every minute.
  */
 
 import * as cron from 'node-cron';
 import { finnhubService } from '@/services/finnhubService';
-import { notificationDB } from '@/services/notificationDatabase';
+import { marketCalendar } from '@/services/marketCalendar';
+import { getMarketDataProvider } from '@/services/marketDataProviderConfig';
+import { replayClock } from '@/services/replayClock';
+import { earningsCalendarService } from '@/services/earningsCalendarService';
+import { earningsReminderService } from '@/services/earningsReminderService';
+import { alertEngineService } from '@/services/alertEngineService';
+import { notificationDispatcher } from '@/services/notificationDispatcher';
+import { RealtimePrice } from '@/types';
 
 interface SchedulerConfig {
   priceCheckInterval: string; // Cron expression
   quotaResetInterval: string; // Cron expression
   healthCheckInterval: string; // Cron expression
+  earningsRefreshInterval: string; // Cron expression
+  notificationRetryInterval: string; // Cron expression
   enableScheduling: boolean;
+  extendedHours: boolean; // Also poll during pre-market and after-hours sessions
+  closeGraceMinutes: number; // Keep polling this long after the regular close
 }
 
+const PRICE_CHECK_INTERVAL_MS = 30000;
+
 class StockPriceScheduler {
   private config: SchedulerConfig;
   private tasks: Map<string, cron.ScheduledTask> = new Map();
@@ -25,7 +51,11 @@ class StockPriceScheduler {
       priceCheckInterval: '*/30 * * * * *', // Every 30 seconds
       quotaResetInterval: '0 * * * *', // Every hour
       healthCheckInterval: '*/5 * * * *', // Every 5 minutes
+      earningsRefreshInterval: '15 */6 * * *', // Every 6 hours
+      notificationRetryInterval: '* * * * *', // Every minute
       enableScheduling: true,
+      extendedHours: false,
+      closeGraceMinutes: 5,
       ...config
     };
   }
@@ -68,9 +98,29 @@ class StockPriceScheduler {
       }
     );
 
+    // Earnings calendar refresh task
+    const earningsTask = cron.schedule(
+      this.config.earningsRefreshInterval,
+      () => this.refreshEarningsCalendars(),
+      {
+        name: 'earnings-refresh'
+      }
+    );
+
+    // Notification retries and deliveries held by quiet hours
+    const notificationTask = cron.schedule(
+      this.config.notificationRetryInterval,
+      () => this.processNotifications(),
+      {
+        name: 'notification-retry'
+      }
+    );
+
     this.tasks.set('price-check', priceTask);
     this.tasks.set('health-check', healthTask);
     this.tasks.set('quota-reset', quotaTask);
+    this.tasks.set('earnings-refresh', earningsTask);
+    this.tasks.set('notification-retry', notificationTask);
 
     if (this.config.enableScheduling) {
       // Start all tasks
@@ -139,6 +189,28 @@ class StockPriceScheduler {
     return Array.from(allTickers);
   }
 
+  /**
+   * Market time: the replay clock when replaying fixtures, otherwise the wall clock
+   */
+  private marketNow(): Date {
+    return getMarketDataProvider().name === 'replay' ? new Date(replayClock.now()) : new Date();
+  }
+
+  /**
+   * Whether a ticker's exchange is in a session worth polling
+   */
+  private isTradingNow(ticker: string, now: Date): boolean {
+    const exchange = marketCalendar.exchangeForSymbol(ticker);
+    const session = marketCalendar.getSession(now, exchange);
+    if (session === 'regular') return true;
+    if (this.config.extendedHours && (session === 'pre' || session === 'post')) return true;
+
+    const regular = marketCalendar.getSchedule(now, exchange).regular;
+    return !!regular &&
+      now.getTime() >= regular.close.getTime() &&
+      now.getTime() < regular.close.getTime() + this.config.closeGraceMinutes * 60 * 1000;
+  }
+
   /**
    * Perform periodic price check
    */
@@ -152,27 +224,29 @@ class StockPriceScheduler {
         return;
       }
 
-      const tickers = this.getAllMonitoredTickers();
+      const now = this.marketNow();
+      const alertTickers = await alertEngineService.getActiveTickers();
+      const tickers = Array.from(new Set([...this.getAllMonitoredTickers(), ...alertTickers]))
+        .filter(ticker => this.isTradingNow(ticker, now));
       
       if (tickers.length === 0) {
-        return; // No tickers to monitor
+        return; // No tickers to monitor, or their markets are closed
       }
 
       console.log(`Checking prices for ${tickers.length} tickers...`);
       
       // Fetch prices in batches to respect rate limits
       const batchSize = 5;
-      const currentPrices = new Map<string, number>();
+      const quotes = new Map<string, RealtimePrice>();
       
       for (let i = 0; i < tickers.length; i += batchSize) {
         const batch = tickers.slice(i, i + batchSize);
         
         try {
-          const batchQuotes = await finnhubService.getBatchQuotes(batch);
+          const batchQuotes = await finnhubService.getBatchQuotes(batch, 'alerts');
           
-          // Extract current prices
           batchQuotes.forEach((quote, ticker) => {
-            currentPrices.set(ticker, quote.currentPrice);
+            quotes.set(ticker, quote);
           });
           
           // Small delay between batches
@@ -184,8 +258,7 @@ class StockPriceScheduler {
         }
       }
       
-      // Check position-based alerts
-      await this.checkPositionAlerts(currentPrices);
+      await this.evaluateAlerts(quotes, now);
       
       console.log(`Price check completed for ${tickers.length} tickers`);
       
@@ -195,36 +268,51 @@ class StockPriceScheduler {
   }
 
   /**
-   * Check position-based alerts for all users
+   * Evaluate every user's alerts; positions first absorb any new splits so their thresholds
+   * are in the same share terms as the quotes
    */
-  private async checkPositionAlerts(currentPrices: Map<string, number>): Promise<void> {
+  private async evaluateAlerts(quotes: Map<string, RealtimePrice>, now: Date): Promise<void> {
     try {
       const { historicalPriceService } = await import('./historicalPriceService');
-      
-      // Get all user IDs that have portfolios
-      const userIds = Array.from(this.userPortfolios.keys());
-      
-      for (const userId of userIds) {
-        try {
-          // Get user's positions
-          const positions = historicalPriceService.getUserPositions(userId);
-          
-          if (positions.length === 0) continue;
-          
-          // Check alerts for this user's positions
-          const newAlerts = await historicalPriceService.checkPositionAlerts(positions, currentPrices);
-          
-          if (newAlerts.length > 0) {
-            console.log(`Generated ${newAlerts.length} position alerts for user ${userId}`);
-          }
-          
-        } catch (error) {
-          console.error(`Error checking position alerts for user ${userId}:`, error);
-        }
-      }
-      
+      const positions = historicalPriceService.getAllPositions()
+        .filter(position => position.isMonitoring && quotes.has(position.ticker.toUpperCase()));
+      await historicalPriceService.applyCorporateActions(positions);
+
+      await alertEngineService.evaluate(quotes, now.getTime());
+    } catch (error) {
+      console.error('Error during alert evaluation:', error);
+    }
+  }
+
+  /**
+   * Refresh the earnings calendars of the users' reminder tickers, portfolios and positions,
+   * and send the pre-earnings reminders that are due
+   */
+  private async refreshEarningsCalendars(): Promise<void> {
+    try {
+      const { historicalPriceService } = await import('./historicalPriceService');
+
+      // Each user's reminder tickers, portfolio and monitored positions
+      const userTickers = await earningsReminderService.getAllTickers();
+      this.userPortfolios.forEach((tickers, userId) => {
+        userTickers.set(userId, [...(userTickers.get(userId) ?? []), ...tickers]);
+      });
+      historicalPriceService.getAllPositions().forEach(position => {
+        userTickers.set(position.userId, [...(userTickers.get(position.userId) ?? []), position.ticker.toUpperCase()]);
+      });
+
+      const tickers = new Set<string>();
+      userTickers.forEach(list => list.forEach(ticker => tickers.add(ticker)));
+      if (tickers.size === 0) return;
+
+      const calendar = await earningsCalendarService.getCalendar(Array.from(tickers), {
+        provider: getMarketDataProvider('background', 'earnings')
+      });
+      console.log(`Earnings calendars refreshed for ${tickers.size} tickers: ${calendar.entries.length} reports in the next 30 days`);
+
+      await earningsReminderService.sendDue(calendar, userTickers);
     } catch (error) {
-      console.error('Error during position alert checking:', error);
+      console.error('Error during earnings calendar refresh:', error);
     }
   }
 
@@ -269,6 +357,20 @@ class StockPriceScheduler {
     }
   }
 
+  /**
+   * Attempt notification deliveries that are due
+   */
+  private async processNotifications(): Promise<void> {
+    try {
+      const attempted = await notificationDispatcher.processDue();
+      if (attempted > 0) {
+        console.log(`Attempted ${attempted} pending notification deliveries`);
+      }
+    } catch (error) {
+      console.error('Error during notification retries:', error);
+    }
+  }
+
   /**
    * Notify users of service issues
    */
@@ -277,18 +379,13 @@ class StockPriceScheduler {
       const userIds = Array.from(this.userPortfolios.keys());
       
       for (const userId of userIds) {
-        const notification = {
-          id: `service_issue_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        await notificationDispatcher.dispatch({
           userId,
+          type: 'service',
+          severity: 'warning',
           title: 'Stock Monitoring Service Issue',
-          message: 'Live updates temporarily paused: API usage limit reached, will resume after reset',
-          type: 'WARNING' as const,
-          timestamp: new Date(),
-          isRead: false,
-          isPush: true
-        };
-        
-        await notificationDB.addNotification(notification);
+          message: 'Live updates temporarily paused: API usage limit reached, will resume after reset'
+        });
       }
       
       console.log(`Notified ${userIds.length} users of service issue`);
@@ -306,18 +403,13 @@ class StockPriceScheduler {
       const userIds = Array.from(this.userPortfolios.keys());
       
       for (const userId of userIds) {
-        const notification = {
-          id: `service_resumed_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        await notificationDispatcher.dispatch({
           userId,
+          type: 'service',
+          severity: 'info',
           title: 'Stock Monitoring Service Resumed',
-          message: 'Live stock price updates have resumed. All monitoring features are now active.',
-          type: 'SUCCESS' as const,
-          timestamp: new Date(),
-          isRead: false,
-          isPush: true
-        };
-        
-        await notificationDB.addNotification(notification);
+          message: 'Live stock price updates have resumed. All monitoring features are now active.'
+        });
       }
       
       console.log(`Notified ${userIds.length} users of service resumption`);
@@ -372,7 +464,7 @@ class StockPriceScheduler {
     console.log(`Force checking prices for: ${tickers.join(', ')}`);
     
     try {
-      await finnhubService.getBatchQuotes(tickers);
+      await finnhubService.getBatchQuotes(tickers, 'alerts');
       console.log('Force price check completed');
     } catch (error) {
       console.error('Error during force price check:', error);
@@ -391,13 +483,32 @@ class StockPriceScheduler {
     nextPriceCheck: Date | null;
   } {
     const priceTask = this.tasks.get('price-check');
+    const tickers = this.getAllMonitoredTickers();
+    const now = this.marketNow();
+    let nextPriceCheck: Date | null = null;
+
+    if (priceTask && tickers.length > 0) {
+      if (tickers.some(ticker => this.isTradingNow(ticker, now))) {
+        nextPriceCheck = new Date(Date.now() + PRICE_CHECK_INTERVAL_MS); // Estimated based on 30s interval
+      } else {
+        // Markets closed: polling resumes at the earliest next session open
+        const opens = Array.from(new Set(tickers.map(ticker => marketCalendar.exchangeForSymbol(ticker))))
+          .map(exchange => {
+            const status = marketCalendar.getStatus(now, exchange);
+            const schedule = marketCalendar.getSchedule(status.nextOpen, exchange);
+            return this.config.extendedHours && schedule.pre ? schedule.pre.open : status.nextOpen;
+          });
+        const nextOpenMs = Math.min(...opens.map(open => open.getTime()));
+        nextPriceCheck = new Date(Date.now() + Math.max(0, nextOpenMs - now.getTime()));
+      }
+    }
     
     return {
       totalUsers: this.userPortfolios.size,
-      totalTickers: this.getAllMonitoredTickers().length,
+      totalTickers: tickers.length,
       tickersByUser: new Map(this.userPortfolios),
       lastPriceCheck: priceTask ? new Date() : null, // This would need to be tracked properly
-      nextPriceCheck: priceTask ? new Date(Date.now() + 30000) : null // Estimated based on 30s interval
+      nextPriceCheck
     };
   }
 }
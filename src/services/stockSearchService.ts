@@ -3,6 +3,9 @@
  * Uses Finnhub API to search for stock symbols and company names
  */
 
+import { nlpTickerService } from './nlpTickerService';
+import { normalizeSymbol } from './brokerageImport';
+
 interface FinnhubSearchResult {
   description: string; // Company name
   displaySymbol: string; // Display ticker
@@ -82,8 +85,9 @@ class StockSearchService {
       // Filter and sort results
       const filteredResults = this.filterAndSortResults(results, query);
 
-      // Cache the results
+      // Cache the results and let news ticker linking learn the names
       this.cacheResults(normalizedQuery, filteredResults);
+      nlpTickerService.indexCompanies(filteredResults);
 
       return filteredResults;
 
@@ -129,6 +133,32 @@ class StockSearchService {
     }
   }
 
+  /**
+   * Listed ticker for a symbol or company name as written in a brokerage statement; a symbol
+   * the search does not list is kept as written, and null means nothing matched the name
+   */
+  async resolveTicker(symbol: string, description?: string): Promise<string | null> {
+    const normalized = normalizeSymbol(symbol);
+    // Class shares are written BRK.B, BRK-B or BRKB depending on the source
+    const bare = (value: string) => value.toUpperCase().replace(/[.-]/g, '');
+
+    if (normalized) {
+      const details = await this.getStockDetails(normalized);
+      return details && bare(details.symbol) === bare(normalized) ? normalizeSymbol(details.symbol) || normalized : normalized;
+    }
+
+    if (description?.trim()) {
+      try {
+        const [match] = await this.searchStocks(description.trim());
+        if (match) return normalizeSymbol(match.symbol) || null;
+      } catch (error) {
+        console.error('Ticker lookup error:', error);
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Filter and sort search results for better relevance
    */
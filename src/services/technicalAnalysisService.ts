@@ -1,112 +1,120 @@
 /**
  * Technical Analysis Service
  * Comprehensive technical indicators and market analysis
+ *
+ * Indicator maths lives in indicatorEngine.ts; this service picks the latest values for the
+ * dashboard snapshot, exposes full series for charts and turns them into signals.
+ * User-defined signal rules (signalRules.ts) are evaluated here over the same bars.
  */
 
-export interface TechnicalIndicators {
-  sma20: number;
-  sma50: number;
-  sma200: number;
-  ema12: number;
-  ema26: number;
-  rsi14: number;
-  macd: {
-    line: number;
-    signal: number;
-    histogram: number;
-  };
-  bollingerBands: {
-    upper: number;
-    middle: number;
-    lower: number;
-  };
-  atr14: number; // Average True Range
-}
-
-export interface TradingSignal {
-  type: 'BUY' | 'SELL' | 'HOLD' | 'NEUTRAL';
-  indicator: string;
-  strength: number; // 0-1
-  description: string;
-  expires?: string;
-}
-
-export interface ChartDataPoint {
-  timestamp: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
+import {
+  ChartDataPoint,
+  ExchangeCode,
+  IndicatorRequest,
+  IndicatorResult,
+  SignalRuleEvaluation,
+  TechnicalIndicators,
+  TradingSignal
+} from '@/types';
+import { marketCalendar } from './marketCalendar';
+import {
+  atr,
+  bollinger,
+  computeIndicators,
+  ema,
+  IndicatorSeries,
+  macd,
+  rsi,
+  sma,
+  toIndicatorInput
+} from './indicatorEngine';
+import { CompiledSignalRule, evaluateSignalRule, evaluateSignalRuleSeries } from './signalRules';
+
+export type { ChartDataPoint, TechnicalIndicators, TradingSignal };
+
+// Bars needed before signals are generated
+const MIN_SIGNAL_BARS = 50;
+
+// Indicator series behind the TechnicalIndicators snapshot
+interface SnapshotSeries {
+  sma20: IndicatorSeries;
+  sma50: IndicatorSeries;
+  sma200: IndicatorSeries;
+  ema12: IndicatorSeries;
+  ema26: IndicatorSeries;
+  rsi14: IndicatorSeries;
+  macd: Record<'line' | 'signal' | 'histogram', IndicatorSeries>;
+  bands: Record<'upper' | 'middle' | 'lower', IndicatorSeries>;
+  atr14: IndicatorSeries;
 }
 
 export class TechnicalAnalysisService {
   
   /**
-   * Calculate technical indicators for price data
+   * Calculate the latest technical indicators for price data. Indicators that need more
+   * history than is available (e.g. SMA 200 on a 3-month chart) are reported as 0, and
+   * RSI as a neutral 50.
    */
   calculateTechnicalIndicators(data: ChartDataPoint[]): TechnicalIndicators {
-    if (data.length < 200) {
-      throw new Error('Insufficient data for technical analysis (minimum 200 data points required)');
-    }
-
-    const prices = data.map(d => d.close);
-    const highs = data.map(d => d.high);
-    const lows = data.map(d => d.low);
-    const volumes = data.map(d => d.volume);
+    return this.snapshotAt(this.calculateSnapshotSeries(data), data.length - 1);
+  }
 
-    return {
-      sma20: this.calculateSMA(prices, 20),
-      sma50: this.calculateSMA(prices, 50),
-      sma200: this.calculateSMA(prices, 200),
-      ema12: this.calculateEMA(prices, 12),
-      ema26: this.calculateEMA(prices, 26),
-      rsi14: this.calculateRSI(prices, 14),
-      macd: this.calculateMACD(prices),
-      bollingerBands: this.calculateBollingerBands(prices, 20, 2),
-      atr14: this.calculateATR(highs, lows, prices, 14)
-    };
+  /**
+   * Full indicator series aligned with the input bars, for chart overlays and oscillator panes
+   */
+  calculateIndicatorSeries(data: ChartDataPoint[], requests: IndicatorRequest[]): IndicatorResult[] {
+    return computeIndicators(toIndicatorInput(data), requests);
   }
 
   /**
    * Generate trading signals based on technical analysis
    */
   generateTradingSignals(data: ChartDataPoint[]): TradingSignal[] {
-    const signals: TradingSignal[] = [];
-    
-    if (data.length < 50) return signals;
+    if (data.length < MIN_SIGNAL_BARS) return [];
 
     try {
       const indicators = this.calculateTechnicalIndicators(data);
-      const currentPrice = data[data.length - 1].close;
-      
-      // SMA Crossover Signals
-      const smaSignal = this.analyzeSMACrossover(indicators, currentPrice);
-      if (smaSignal) signals.push(smaSignal);
-
-      // RSI Signals
-      const rsiSignal = this.analyzeRSI(indicators.rsi14);
-      if (rsiSignal) signals.push(rsiSignal);
-
-      // MACD Signals
-      const macdSignal = this.analyzeMACD(indicators.macd);
-      if (macdSignal) signals.push(macdSignal);
-
-      // Bollinger Bands Signals
-      const bbSignal = this.analyzeBollingerBands(indicators.bollingerBands, currentPrice);
-      if (bbSignal) signals.push(bbSignal);
-
+      return this.signalsFor(indicators, data[data.length - 1].close);
     } catch (error) {
       console.error('Error generating trading signals:', error);
+      return [];
     }
+  }
 
-    return signals;
+  /**
+   * The signals generateTradingSignals would have returned at the close of every bar,
+   * computed in one pass over the series (used to backtest them without look-ahead)
+   */
+  generateSignalHistory(data: ChartDataPoint[]): TradingSignal[][] {
+    const series = this.calculateSnapshotSeries(data);
+    return data.map((point, index) =>
+      index + 1 < MIN_SIGNAL_BARS ? [] : this.signalsFor(this.snapshotAt(series, index), point.close)
+    );
+  }
+
+  /**
+   * Evaluate a signal rule (e.g. "rsi(14) < 30 and close > sma(200)") at the latest bar.
+   * Throws SignalRuleError when the rule does not parse or type-check.
+   */
+  evaluateSignalRule(rule: string | CompiledSignalRule, data: ChartDataPoint[]): SignalRuleEvaluation {
+    return evaluateSignalRule(rule, toIndicatorInput(data));
+  }
+
+  /**
+   * Timestamps of every bar at which a signal rule held
+   */
+  findSignalRuleMatches(rule: string | CompiledSignalRule, data: ChartDataPoint[]): string[] {
+    const matches = evaluateSignalRuleSeries(rule, toIndicatorInput(data));
+    return data.filter((_, index) => matches[index] === true).map(point => point.timestamp);
   }
 
   /**
    * Analyze price trend
    */
-  analyzeTrend(data: ChartDataPoint[]): { direction: 'BULLISH' | 'BEARISH' | 'NEUTRAL'; strength: number; duration: string } {
+  analyzeTrend(
+    data: ChartDataPoint[],
+    exchange: ExchangeCode = 'US'
+  ): { direction: 'BULLISH' | 'BEARISH' | 'NEUTRAL'; strength: number; duration: string } {
     if (data.length < 20) {
       return { direction: 'NEUTRAL', strength: 0, duration: '0 days' };
     }
@@ -123,17 +131,25 @@ export class TechnicalAnalysisService {
     else if (trendSlope < -0.02) direction = 'BEARISH';
 
     // Calculate trend duration
-    let duration = 1;
+    let bars = 1;
     const currentTrend = direction;
     for (let i = data.length - 2; i >= 0; i--) {
       const dayTrend = this.getDayTrend(data, i);
       if (dayTrend === currentTrend) {
-        duration++;
+        bars++;
       } else {
         break;
       }
     }
 
+    // Count the trading sessions the run spans, so intraday bars, weekends and holidays
+    // don't distort it; bars without a parseable timestamp are counted one per day
+    const runStart = this.barDate(data[data.length - bars].timestamp);
+    const runEnd = this.barDate(data[data.length - 1].timestamp);
+    const duration = runStart === null || runEnd === null
+      ? bars
+      : Math.max(1, marketCalendar.tradingDaysBetween(runStart, runEnd, exchange));
+
     return {
       direction,
       strength: Math.min(1, trendStrength * 10),
@@ -141,6 +157,16 @@ export class TechnicalAnalysisService {
     };
   }
 
+  /**
+   * A bar's time for the market calendar: daily bars stamped YYYY-MM-DD are already
+   * exchange dates (as Dates they would be UTC midnight, the previous day in New York)
+   */
+  private barDate(timestamp: string): Date | string | null {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(timestamp)) return timestamp;
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
   /**
    * Find support levels
    */
@@ -183,127 +209,30 @@ export class TechnicalAnalysisService {
       .slice(0, 3);
   }
 
-  // ===== TECHNICAL INDICATOR CALCULATIONS =====
-
-  /**
-   * Simple Moving Average
-   */
-  private calculateSMA(prices: number[], period: number): number {
-    if (prices.length < period) return 0;
-    const slice = prices.slice(-period);
-    return slice.reduce((sum, price) => sum + price, 0) / period;
-  }
-
-  /**
-   * Exponential Moving Average
-   */
-  private calculateEMA(prices: number[], period: number): number {
-    if (prices.length < period) return 0;
-    
-    const multiplier = 2 / (period + 1);
-    let ema = prices[0];
-    
-    for (let i = 1; i < prices.length; i++) {
-      ema = (prices[i] * multiplier) + (ema * (1 - multiplier));
-    }
-    
-    return ema;
-  }
-
-  /**
-   * Relative Strength Index
-   */
-  private calculateRSI(prices: number[], period: number = 14): number {
-    if (prices.length < period + 1) return 50;
-
-    let gains = 0;
-    let losses = 0;
-
-    // Calculate initial average gain and loss
-    for (let i = 1; i <= period; i++) {
-      const change = prices[i] - prices[i - 1];
-      if (change > 0) gains += change;
-      else losses -= change;
-    }
-
-    let avgGain = gains / period;
-    let avgLoss = losses / period;
-
-    // Calculate RSI for remaining periods
-    for (let i = period + 1; i < prices.length; i++) {
-      const change = prices[i] - prices[i - 1];
-      const gain = change > 0 ? change : 0;
-      const loss = change < 0 ? -change : 0;
-
-      avgGain = (avgGain * (period - 1) + gain) / period;
-      avgLoss = (avgLoss * (period - 1) + loss) / period;
-    }
-
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
-  }
-
-  /**
-   * MACD (Moving Average Convergence Divergence)
-   */
-  private calculateMACD(prices: number[]): { line: number; signal: number; histogram: number } {
-    const ema12 = this.calculateEMA(prices, 12);
-    const ema26 = this.calculateEMA(prices, 26);
-    const macdLine = ema12 - ema26;
-
-    // Calculate signal line (9-period EMA of MACD line)
-    // For simplicity, using a basic calculation here
-    const signal = macdLine * 0.2; // Simplified signal line
-    const histogram = macdLine - signal;
-
-    return {
-      line: macdLine,
-      signal: signal,
-      histogram: histogram
-    };
-  }
+  // ===== SIGNAL ANALYSIS METHODS =====
 
-  /**
-   * Bollinger Bands
-   */
-  private calculateBollingerBands(prices: number[], period: number = 20, standardDeviations: number = 2): { upper: number; middle: number; lower: number } {
-    const sma = this.calculateSMA(prices, period);
-    const slice = prices.slice(-period);
-    
-    // Calculate standard deviation
-    const variance = slice.reduce((sum, price) => sum + Math.pow(price - sma, 2), 0) / period;
-    const stdDev = Math.sqrt(variance);
+  private signalsFor(indicators: TechnicalIndicators, currentPrice: number): TradingSignal[] {
+    const signals: TradingSignal[] = [];
 
-    return {
-      upper: sma + (stdDev * standardDeviations),
-      middle: sma,
-      lower: sma - (stdDev * standardDeviations)
-    };
-  }
+    // SMA Crossover Signals
+    const smaSignal = this.analyzeSMACrossover(indicators, currentPrice);
+    if (smaSignal) signals.push(smaSignal);
 
-  /**
-   * Average True Range
-   */
-  private calculateATR(highs: number[], lows: number[], closes: number[], period: number = 14): number {
-    if (highs.length < period + 1) return 0;
+    // RSI Signals
+    const rsiSignal = this.analyzeRSI(indicators.rsi14);
+    if (rsiSignal) signals.push(rsiSignal);
 
-    const trueRanges: number[] = [];
+    // MACD Signals
+    const macdSignal = this.analyzeMACD(indicators.macd);
+    if (macdSignal) signals.push(macdSignal);
 
-    for (let i = 1; i < highs.length; i++) {
-      const tr1 = highs[i] - lows[i];
-      const tr2 = Math.abs(highs[i] - closes[i - 1]);
-      const tr3 = Math.abs(lows[i] - closes[i - 1]);
-      trueRanges.push(Math.max(tr1, tr2, tr3));
-    }
+    // Bollinger Bands Signals
+    const bbSignal = this.analyzeBollingerBands(indicators.bollingerBands, currentPrice);
+    if (bbSignal) signals.push(bbSignal);
 
-    // Calculate average of last 'period' true ranges
-    const recent = trueRanges.slice(-period);
-    return recent.reduce((sum, tr) => sum + tr, 0) / recent.length;
+    return signals;
   }
 
-  // ===== SIGNAL ANALYSIS METHODS =====
-
   private analyzeSMACrossover(indicators: TechnicalIndicators, currentPrice: number): TradingSignal | null {
     if (currentPrice > indicators.sma20 && indicators.sma20 > indicators.sma50) {
       return {
@@ -382,6 +311,47 @@ export class TechnicalAnalysisService {
 
   // ===== HELPER METHODS =====
 
+  private calculateSnapshotSeries(data: ChartDataPoint[]): SnapshotSeries {
+    const input = toIndicatorInput(data);
+    return {
+      sma20: sma(input.close, 20),
+      sma50: sma(input.close, 50),
+      sma200: sma(input.close, 200),
+      ema12: ema(input.close, 12),
+      ema26: ema(input.close, 26),
+      rsi14: rsi(input.close, 14),
+      macd: macd(input.close),
+      bands: bollinger(input.close, 20, 2),
+      atr14: atr(input, 14)
+    };
+  }
+
+  /**
+   * Indicator values as of one bar; values still warming up fall back to 0 (RSI to 50)
+   */
+  private snapshotAt(series: SnapshotSeries, index: number): TechnicalIndicators {
+    const at = (values: IndicatorSeries, fallback = 0) => values[index] ?? fallback;
+    return {
+      sma20: at(series.sma20),
+      sma50: at(series.sma50),
+      sma200: at(series.sma200),
+      ema12: at(series.ema12),
+      ema26: at(series.ema26),
+      rsi14: at(series.rsi14, 50),
+      macd: {
+        line: at(series.macd.line),
+        signal: at(series.macd.signal),
+        histogram: at(series.macd.histogram)
+      },
+      bollingerBands: {
+        upper: at(series.bands.upper),
+        middle: at(series.bands.middle),
+        lower: at(series.bands.lower)
+      },
+      atr14: at(series.atr14)
+    };
+  }
+
   private calculateTrendSlope(prices: number[]): number {
     const n = prices.length;
     const x = Array.from({ length: n }, (_, i) => i);
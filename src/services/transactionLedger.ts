@@ -0,0 +1,344 @@
+/**
+ * Transaction Ledger
+ * Lot accounting behind holdings, cost basis and realized and unrealized P&L
+ *
+ * Transactions are replayed in date order (creation order within a day). Buys and transfers
+ * in open a lot each, with purchase fees added to its cost; sales and transfers out close
+ * lots first-in-first-out, last-in-first-out or from the lots the transaction names. A
+ * sale realizes proceeds net of its fees minus the cost of the closed shares; a transfer out
+ * removes the shares at cost without realizing anything. Splits restate open lots so their
+ * cost basis is unchanged. Pure functions only, shared by the API and the dashboard.
+ */
+
+import {
+  LedgerHolding,
+  LedgerSummary,
+  LedgerTransaction,
+  LotMethod,
+  PortfolioTransaction,
+  RealizedLot,
+  TaxLot
+} from '@/types';
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+export interface LedgerOptions {
+  lotMethod?: LotMethod;
+  prices?: Map<string, number> | Record<string, number>; // Latest price per ticker for unrealized P&L
+}
+
+export const DEFAULT_LOT_METHOD: LotMethod = 'FIFO';
+
+const SHARE_TOLERANCE = 1e-9;
+const LONG_TERM_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function heldDays(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Transactions in the order they are applied
+ */
+export function sortTransactions(transactions: LedgerTransaction[]): LedgerTransaction[] {
+  return [...transactions].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+}
+
+interface TickerState {
+  lots: TaxLot[];
+  realizedGain: number;
+  dividends: number;
+  fees: number;
+}
+
+/**
+ * Holdings, lots and P&L derived from the transactions; throws LedgerError when a sale or
+ * transfer out needs shares or lots that are not held at the time
+ */
+export function buildLedger(transactions: LedgerTransaction[], options: LedgerOptions = {}): LedgerSummary {
+  const lotMethod = options.lotMethod ?? DEFAULT_LOT_METHOD;
+  const tickers = new Map<string, TickerState>();
+  const realized: RealizedLot[] = [];
+  let accountFees = 0;
+
+  const stateFor = (ticker: string) => {
+    let state = tickers.get(ticker);
+    if (!state) {
+      state = { lots: [], realizedGain: 0, dividends: 0, fees: 0 };
+      tickers.set(ticker, state);
+    }
+    return state;
+  };
+
+  for (const transaction of sortTransactions(transactions)) {
+    if (transaction.type === 'fee' && !transaction.ticker) {
+      accountFees += transaction.amount ?? 0;
+      continue;
+    }
+
+    const ticker = transaction.ticker!.toUpperCase();
+    const state = stateFor(ticker);
+
+    switch (transaction.type) {
+      case 'buy':
+      case 'transfer': {
+        const quantity = transaction.quantity ?? 0;
+        const fees = transaction.fees ?? 0;
+        if (transaction.type === 'buy' || transaction.direction !== 'out') {
+          const costBasis = quantity * (transaction.price ?? 0) + fees;
+          state.lots.push({
+            id: transaction.id,
+            ticker,
+            openDate: transaction.date,
+            quantity,
+            originalQuantity: quantity,
+            costPerShare: quantity > 0 ? costBasis / quantity : 0,
+            costBasis
+          });
+          state.fees += fees;
+          break;
+        }
+        closeLots(state, transaction, lotMethod, null);
+        break;
+      }
+
+      case 'sell': {
+        const fees = transaction.fees ?? 0;
+        const proceeds = (transaction.quantity ?? 0) * (transaction.price ?? 0) - fees;
+        state.fees += fees;
+        for (const closed of closeLots(state, transaction, lotMethod, proceeds)) {
+          realized.push(closed);
+          state.realizedGain += closed.gain;
+        }
+        break;
+      }
+
+      case 'dividend':
+        state.dividends += transaction.amount ?? 0;
+        break;
+
+      case 'fee':
+        state.fees += transaction.amount ?? 0;
+        break;
+
+      case 'split': {
+        const ratio = transaction.ratio ?? 1;
+        if (ratio <= 0) break;
+        for (const lot of state.lots) {
+          lot.quantity *= ratio;
+          lot.originalQuantity *= ratio;
+          lot.costPerShare /= ratio;
+        }
+        break;
+      }
+    }
+  }
+
+  const holdings: LedgerHolding[] = [];
+  for (const [ticker, state] of tickers) {
+    const lots = state.lots.filter(lot => lot.quantity > SHARE_TOLERANCE);
+    if (lots.length === 0) continue;
+
+    const quantity = lots.reduce((total, lot) => total + lot.quantity, 0);
+    const costBasis = lots.reduce((total, lot) => total + lot.costBasis, 0);
+
+    holdings.push({
+      ticker,
+      quantity: round(quantity, 6),
+      costBasis: round(costBasis),
+      averageCost: round(costBasis / quantity, 4),
+      firstAcquired: lots.reduce((earliest, lot) => (lot.openDate < earliest ? lot.openDate : earliest), lots[0].openDate),
+      lots: lots
+        .map(lot => ({
+          ...lot,
+          quantity: round(lot.quantity, 6),
+          originalQuantity: round(lot.originalQuantity, 6),
+          costPerShare: round(lot.costPerShare, 4),
+          costBasis: round(lot.costBasis)
+        }))
+        .sort((a, b) => a.openDate.localeCompare(b.openDate)),
+      realizedGain: round(state.realizedGain),
+      dividends: round(state.dividends),
+      fees: round(state.fees),
+      price: null,
+      marketValue: null,
+      unrealizedGain: null,
+      unrealizedGainPercent: null
+    });
+  }
+  holdings.sort((a, b) => b.costBasis - a.costBasis);
+
+  const states = Array.from(tickers.values());
+  const costBasis = holdings.reduce((total, holding) => total + holding.costBasis, 0);
+
+  return valueLedger({
+    lotMethod,
+    holdings,
+    realized: realized.map(lot => ({
+      ...lot,
+      quantity: round(lot.quantity, 6),
+      proceeds: round(lot.proceeds),
+      costBasis: round(lot.costBasis),
+      gain: round(lot.gain)
+    })),
+    totals: {
+      costBasis: round(costBasis),
+      marketValue: null,
+      unrealizedGain: null,
+      realizedGain: round(states.reduce((total, state) => total + state.realizedGain, 0)),
+      dividends: round(states.reduce((total, state) => total + state.dividends, 0)),
+      fees: round(states.reduce((total, state) => total + state.fees, 0) + accountFees)
+    }
+  }, options.prices ?? {});
+}
+
+/**
+ * The summary with market value and unrealized P&L for the holdings that have a price;
+ * portfolio totals are only valued when every holding is
+ */
+export function valueLedger(summary: LedgerSummary, prices: LedgerOptions['prices'] = {}): LedgerSummary {
+  const priceMap = prices instanceof Map ? prices : new Map(Object.entries(prices ?? {}));
+
+  const holdings = summary.holdings.map((holding): LedgerHolding => {
+    const price = priceMap.get(holding.ticker);
+    if (price === undefined || !(price > 0)) {
+      return { ...holding, price: null, marketValue: null, unrealizedGain: null, unrealizedGainPercent: null };
+    }
+    const marketValue = holding.quantity * price;
+    const unrealizedGain = marketValue - holding.costBasis;
+    return {
+      ...holding,
+      price,
+      marketValue: round(marketValue),
+      unrealizedGain: round(unrealizedGain),
+      unrealizedGainPercent: holding.costBasis > 0 ? round((unrealizedGain / holding.costBasis) * 100) : null
+    };
+  });
+
+  const priced = holdings.every(holding => holding.marketValue !== null);
+  const marketValue = priced ? holdings.reduce((total, holding) => total + holding.marketValue!, 0) : null;
+
+  return {
+    ...summary,
+    holdings,
+    totals: {
+      ...summary.totals,
+      marketValue: marketValue === null ? null : round(marketValue),
+      unrealizedGain: marketValue === null ? null : round(marketValue - summary.totals.costBasis)
+    }
+  };
+}
+
+/**
+ * Remove the transaction's shares from the open lots. With `proceeds` (a sale) each closed
+ * piece is returned as a realized lot carrying its share of the proceeds.
+ */
+function closeLots(
+  state: TickerState,
+  transaction: LedgerTransaction,
+  defaultMethod: LotMethod,
+  proceeds: number | null
+): RealizedLot[] {
+  const ticker = transaction.ticker!.toUpperCase();
+  const quantity = transaction.quantity ?? 0;
+  const held = state.lots.reduce((total, lot) => total + lot.quantity, 0);
+  if (quantity > held + SHARE_TOLERANCE) {
+    throw new LedgerError(`${transaction.type === 'sell' ? 'Sale' : 'Transfer'} of ${quantity} ${ticker} on ${transaction.date} exceeds the ${round(held, 6)} shares held`);
+  }
+
+  const method = transaction.lotMethod ?? defaultMethod;
+  let picks: { lot: TaxLot; quantity: number }[];
+  if (method === 'SPECIFIC') {
+    const selections = transaction.lots ?? [];
+    if (selections.length === 0) {
+      throw new LedgerError(`Specific-lot ${transaction.type} of ${ticker} on ${transaction.date} names no lots`);
+    }
+    const duplicate = selections.find((selection, index) =>
+      selections.findIndex(other => other.lotId === selection.lotId) !== index);
+    if (duplicate) {
+      throw new LedgerError(`Specific-lot ${transaction.type} of ${ticker} on ${transaction.date} names lot ${duplicate.lotId} more than once`);
+    }
+    picks = selections.map(selection => {
+      const lot = state.lots.find(candidate => candidate.id === selection.lotId);
+      if (!lot || lot.quantity + SHARE_TOLERANCE < selection.quantity) {
+        throw new LedgerError(`Lot ${selection.lotId} does not hold ${selection.quantity} ${ticker} on ${transaction.date}`);
+      }
+      return { lot, quantity: selection.quantity };
+    });
+    const selected = picks.reduce((total, pick) => total + pick.quantity, 0);
+    if (Math.abs(selected - quantity) > SHARE_TOLERANCE) {
+      throw new LedgerError(`Selected lots hold ${selected} ${ticker}, not the ${quantity} in the ${transaction.type}`);
+    }
+  } else {
+    const ordered = state.lots.filter(lot => lot.quantity > SHARE_TOLERANCE);
+    if (method === 'LIFO') ordered.reverse();
+    picks = [];
+    let remaining = quantity;
+    for (const lot of ordered) {
+      if (remaining <= SHARE_TOLERANCE) break;
+      const taken = Math.min(lot.quantity, remaining);
+      picks.push({ lot, quantity: taken });
+      remaining -= taken;
+    }
+  }
+
+  const closed: RealizedLot[] = [];
+  for (const { lot, quantity: taken } of picks) {
+    const cost = lot.costPerShare * taken;
+    lot.quantity -= taken;
+    lot.costBasis = Math.max(0, lot.costBasis - cost);
+    if (lot.quantity <= SHARE_TOLERANCE) {
+      lot.quantity = 0;
+      lot.costBasis = 0;
+    }
+
+    if (proceeds !== null && quantity > 0) {
+      const share = proceeds * (taken / quantity);
+      closed.push({
+        ticker,
+        lotId: lot.id,
+        openDate: lot.openDate,
+        closeDate: transaction.date,
+        quantity: taken,
+        proceeds: share,
+        costBasis: cost,
+        gain: share - cost,
+        term: heldDays(lot.openDate, transaction.date) > LONG_TERM_DAYS ? 'long' : 'short'
+      });
+    }
+  }
+  return closed;
+}
+
+/**
+ * Trades for the performance engine. Ledger splits and dividends are left out: the engine
+ * applies the provider's corporate actions to the shares as traded.
+ */
+export function toPortfolioTransactions(transactions: LedgerTransaction[]): PortfolioTransaction[] {
+  return sortTransactions(transactions).flatMap((transaction): PortfolioTransaction[] => {
+    if (!transaction.ticker || !transaction.quantity || !transaction.price) return [];
+    const type = transaction.type === 'buy' || (transaction.type === 'transfer' && transaction.direction !== 'out')
+      ? 'buy'
+      : transaction.type === 'sell' || transaction.type === 'transfer' ? 'sell' : null;
+    if (!type) return [];
+
+    return [{
+      ticker: transaction.ticker.toUpperCase(),
+      type,
+      date: transaction.date,
+      quantity: transaction.quantity,
+      price: transaction.price,
+      ...(transaction.fees ? { fees: transaction.fees } : {})
+    }];
+  });
+}
@@ -0,0 +1,110 @@
+/**
+ * Transaction Ledger Service
+ * Per-user store of buys, sells, dividends, splits, fees and transfers
+ *
+ * Each user's ledger is kept in LEDGER_DIR (default: data/ledger) as `<userId>.json` with
+ * the lot method used for sales that do not name one. Changes are checked by replaying the
+ * whole ledger before they are written, so a stored ledger never sells shares it does not
+ * hold; changes to one user's ledger are applied one at a time.
+ */
+
+import path from 'path';
+import { LedgerSummary, LedgerTransaction, LotMethod } from '@/types';
+import { buildLedger, DEFAULT_LOT_METHOD, sortTransactions } from './transactionLedger';
+import { UserJsonStore } from './userJsonStore';
+
+export type LedgerTransactionInput = Omit<LedgerTransaction, 'id' | 'createdAt'>;
+
+export interface StoredLedger {
+  version: 1;
+  userId: string;
+  lotMethod: LotMethod;
+  transactions: LedgerTransaction[]; // In the order they are applied
+  updatedAt: number;
+}
+
+const FILE_VERSION = 1;
+
+export class TransactionLedgerService {
+  private store: UserJsonStore<StoredLedger>;
+
+  constructor(baseDir?: string) {
+    this.store = new UserJsonStore<StoredLedger>({
+      dir: path.resolve(baseDir ?? process.env.LEDGER_DIR ?? path.join(process.cwd(), 'data', 'ledger')),
+      label: 'ledger',
+      empty: userId => ({ version: FILE_VERSION, userId, lotMethod: DEFAULT_LOT_METHOD, transactions: [], updatedAt: 0 }),
+      parse: parsed => parsed.version === FILE_VERSION && Array.isArray(parsed.transactions) ? parsed : null
+    });
+  }
+
+  async getLedger(userId: string): Promise<StoredLedger> {
+    return this.store.get(userId);
+  }
+
+  /**
+   * Holdings, lots and P&L; unrealized P&L is filled in for tickers with a price
+   */
+  async getSummary(userId: string, prices?: Record<string, number>): Promise<LedgerSummary> {
+    const ledger = await this.store.get(userId);
+    return buildLedger(ledger.transactions, { lotMethod: ledger.lotMethod, prices });
+  }
+
+  /**
+   * Record transactions; throws LedgerError (and stores nothing) when the ledger would no
+   * longer add up
+   */
+  async addTransactions(userId: string, inputs: LedgerTransactionInput[]): Promise<LedgerTransaction[]> {
+    return this.update(userId, ledger => {
+      const now = Date.now();
+      const added = inputs.map((input, index): LedgerTransaction => ({
+        ...input,
+        ...(input.ticker ? { ticker: input.ticker.toUpperCase() } : {}),
+        id: `txn_${now}_${Math.random().toString(36).substr(2, 9)}`,
+        // Offsets keep a batch in the order it was given
+        createdAt: new Date(now + index).toISOString()
+      }));
+      return { ledger: { ...ledger, transactions: [...ledger.transactions, ...added] }, result: added };
+    });
+  }
+
+  /**
+   * Remove a transaction; false when it does not exist, LedgerError when later sales need it
+   */
+  async removeTransaction(userId: string, transactionId: string): Promise<boolean> {
+    return this.update(userId, ledger => {
+      const transactions = ledger.transactions.filter(transaction => transaction.id !== transactionId);
+      return {
+        ledger: transactions.length === ledger.transactions.length ? null : { ...ledger, transactions },
+        result: transactions.length !== ledger.transactions.length
+      };
+    });
+  }
+
+  /**
+   * Change the default lot method; LedgerError when past sales cannot be matched with it
+   */
+  async setLotMethod(userId: string, lotMethod: LotMethod): Promise<void> {
+    await this.update(userId, ledger => ({ ledger: { ...ledger, lotMethod }, result: undefined }));
+  }
+
+  /**
+   * Store a change to the ledger once it has been replayed, which throws if it does not add up
+   */
+  private update<T>(
+    userId: string,
+    change: (ledger: StoredLedger) => { ledger: StoredLedger | null; result: T }
+  ): Promise<T> {
+    return this.store.update(userId, current => {
+      const { ledger, result } = change(current);
+      if (!ledger) return { stored: null, result };
+
+      const sorted: StoredLedger = { ...ledger, transactions: sortTransactions(ledger.transactions) };
+      buildLedger(sorted.transactions, { lotMethod: sorted.lotMethod });
+      return { stored: sorted, result };
+    });
+  }
+}
+
+// Singleton instance
+export const transactionLedgerService = new TransactionLedgerService();
+export default transactionLedgerService;
@@ -0,0 +1,160 @@
+/**
+ * Twilio Client
+ * WhatsApp messages through Twilio's Messages API, or any server that speaks it
+ *
+ * Sends messages, fetches their status and checks the X-Twilio-Signature of status
+ * callbacks. TWILIO_API_URL points the client at another Twilio-compatible server, such as
+ * the local stand-in in scripts/twilio-mock-server.js, so the whole flow can be exercised
+ * without a Twilio account.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { TwilioConfig, WhatsAppMessage } from '@/types';
+
+export interface TwilioMessageRequest {
+  to: string; // E.164
+  body?: string;
+  contentSid?: string;
+  contentVariables?: Record<string, string>;
+}
+
+// The fields of Twilio's Message resource this app uses
+export interface TwilioMessageResource {
+  sid: string;
+  status: string;
+  to: string;
+  from: string;
+  body?: string;
+  error_code: number | null;
+  error_message: string | null;
+  date_created?: string;
+}
+
+export class TwilioError extends Error {
+  constructor(message: string, public status?: number, public code?: number) {
+    super(message);
+    this.name = 'TwilioError';
+  }
+
+  // Rejected requests (bad number, unapproved template) fail again; throttling and outages may not
+  get permanent(): boolean {
+    return this.status !== undefined && this.status >= 400 && this.status < 500 && this.status !== 429;
+  }
+}
+
+const DEFAULT_API_URL = 'https://api.twilio.com';
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Twilio settings from TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_WHATSAPP_NUMBER,
+ * TWILIO_API_URL and TWILIO_STATUS_CALLBACK_URL (default: NEXT_PUBLIC_APP_URL's
+ * /api/whatsapp/status); null unless the account, token and number are set
+ */
+export function twilioConfigFromEnv(): TwilioConfig | null {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const whatsAppNumber = process.env.TWILIO_WHATSAPP_NUMBER;
+  if (!accountSid || !authToken || !whatsAppNumber) return null;
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  return {
+    accountSid,
+    authToken,
+    whatsAppNumber,
+    apiUrl: process.env.TWILIO_API_URL || DEFAULT_API_URL,
+    statusCallbackUrl: process.env.TWILIO_STATUS_CALLBACK_URL ||
+      (appUrl ? new URL('/api/whatsapp/status', appUrl).toString() : undefined)
+  };
+}
+
+/**
+ * The app's status for a Twilio message status; statuses before delivery count as SENT
+ */
+export function toMessageStatus(twilioStatus: string): WhatsAppMessage['status'] {
+  switch (twilioStatus) {
+    case 'delivered':
+      return 'DELIVERED';
+    case 'read':
+      return 'READ';
+    case 'failed':
+    case 'undelivered':
+    case 'canceled':
+      return 'FAILED';
+    default:
+      return 'SENT'; // queued, accepted, scheduled, sending, sent
+  }
+}
+
+/**
+ * X-Twilio-Signature for a request: base64 HMAC-SHA1 of the URL followed by the form
+ * parameters, sorted by name, as name and value
+ */
+export function twilioSignature(authToken: string, url: string, params: Record<string, string>): string {
+  const data = Object.keys(params).sort().reduce((signed, key) => signed + key + params[key], url);
+  return createHmac('sha1', authToken).update(data, 'utf8').digest('base64');
+}
+
+export function verifyTwilioSignature(authToken: string, url: string, params: Record<string, string>, signature: string): boolean {
+  const expected = Buffer.from(twilioSignature(authToken, url, params));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+function whatsAppAddress(number: string): string {
+  return number.startsWith('whatsapp:') ? number : `whatsapp:${number}`;
+}
+
+async function request(config: TwilioConfig, path: string, init: RequestInit = {}): Promise<TwilioMessageResource> {
+  const url = `${config.apiUrl ?? DEFAULT_API_URL}/2010-04-01/Accounts/${encodeURIComponent(config.accountSid)}${path}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Basic ${Buffer.from(`${config.accountSid}:${config.authToken}`).toString('base64')}`
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+  } catch (error) {
+    throw new TwilioError(`Twilio request failed: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const body = await response.json().catch(() => null) as (TwilioMessageResource & { message?: string; code?: number }) | null;
+  if (!response.ok) {
+    throw new TwilioError(`Twilio returned ${response.status}${body?.message ? `: ${body.message}` : ''}`, response.status, body?.code);
+  }
+  if (!body?.sid) throw new TwilioError('Twilio returned no message');
+  return body;
+}
+
+/**
+ * Queue a WhatsApp message; resolves with the created message, whose later status changes
+ * are posted to the config's status callback
+ */
+export async function sendWhatsAppMessage(config: TwilioConfig, message: TwilioMessageRequest): Promise<TwilioMessageResource> {
+  const form = new URLSearchParams({
+    From: whatsAppAddress(config.whatsAppNumber),
+    To: whatsAppAddress(message.to)
+  });
+  if (message.contentSid) {
+    form.set('ContentSid', message.contentSid);
+    form.set('ContentVariables', JSON.stringify(message.contentVariables ?? {}));
+  } else if (message.body) {
+    form.set('Body', message.body);
+  } else {
+    throw new TwilioError('A message needs a body or a content template');
+  }
+  if (config.statusCallbackUrl) form.set('StatusCallback', config.statusCallbackUrl);
+
+  return request(config, '/Messages.json', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: form
+  });
+}
+
+export async function fetchWhatsAppMessage(config: TwilioConfig, sid: string): Promise<TwilioMessageResource> {
+  return request(config, `/Messages/${encodeURIComponent(sid)}.json`);
+}
@@ -0,0 +1,310 @@
+/**
+ * Usage Ledger
+ * Persistent record of every market data provider call, for attributing quota to features
+ *
+ * Entries are appended as JSON lines to one file per UTC day in USAGE_LEDGER_DIR
+ * (default: data/usage) and kept for USAGE_LEDGER_RETENTION_DAYS (default 400). Cache hits
+ * are recorded too, so reports show how much quota each cache saves. Recording is a no-op
+ * in the browser.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  UsageAggregate,
+  UsageBreakdown,
+  UsageBreakdownRow,
+  UsageDimension,
+  UsageGranularity,
+  UsageLedgerEntry
+} from '@/types';
+import type { MarketDataProvider } from './marketDataProvider';
+
+export interface UsageQuery {
+  from: Date;
+  to: Date;
+  granularity: UsageGranularity;
+  groupBy?: UsageDimension;
+}
+
+export interface UsageSummary {
+  from: string;
+  to: string;
+  calls: number;
+  cacheHits: number;
+  cacheHitRate: number; // Share of lookups answered without an upstream call (0-1)
+  errors: number;
+  rateLimited: number;
+  avgLatencyMs: number;
+  breakdown: UsageBreakdown;
+}
+
+type UsageTotals = Omit<UsageAggregate, 'bucket' | 'key' | 'avgLatencyMs'> & { totalLatencyMs: number };
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const GRANULARITY_MS: Record<UsageGranularity, number> = {
+  minute: MINUTE_MS,
+  hour: 60 * MINUTE_MS,
+  day: DAY_MS
+};
+const FLUSH_DELAY_MS = 2000;
+const MAX_BUFFERED_ENTRIES = 200;
+const isServer = typeof window === 'undefined';
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, cacheHits: 0, errors: 0, rateLimited: 0, totalLatencyMs: 0, maxLatencyMs: 0 };
+}
+
+function addEntry(totals: UsageTotals, entry: UsageLedgerEntry): void {
+  if (entry.cacheHit) {
+    totals.cacheHits++;
+    return;
+  }
+  totals.calls++;
+  totals.totalLatencyMs += entry.latencyMs;
+  totals.maxLatencyMs = Math.max(totals.maxLatencyMs, entry.latencyMs);
+  if (entry.status === 429) totals.rateLimited++;
+  else if (entry.status === 0 || entry.status >= 400) totals.errors++;
+}
+
+function averageLatency(totals: UsageTotals): number {
+  return totals.calls > 0 ? Math.round(totals.totalLatencyMs / totals.calls) : 0;
+}
+
+function dimensionValue(entry: UsageLedgerEntry, dimension: UsageDimension): string {
+  return entry[dimension] || 'unknown';
+}
+
+export class UsageLedger {
+  private baseDir: string;
+  private retentionDays: number;
+  private buffer: UsageLedgerEntry[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private lastPrunedDay = 0;
+
+  constructor(baseDir?: string, retentionDays?: number) {
+    this.baseDir = path.resolve(baseDir ?? process.env.USAGE_LEDGER_DIR ?? path.join(process.cwd(), 'data', 'usage'));
+    const configuredRetention = parseInt(process.env.USAGE_LEDGER_RETENTION_DAYS || '', 10);
+    this.retentionDays = retentionDays ?? (configuredRetention > 0 ? configuredRetention : 400);
+  }
+
+  /**
+   * Queue an entry for the ledger; writes are batched so recording never delays the caller
+   */
+  record(entry: Omit<UsageLedgerEntry, 'timestamp'> & { timestamp?: string }): void {
+    if (!isServer) return;
+
+    this.buffer.push({ ...entry, timestamp: entry.timestamp ?? new Date().toISOString() });
+
+    if (this.buffer.length >= MAX_BUFFERED_ENTRIES) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), FLUSH_DELAY_MS);
+    }
+  }
+
+  /**
+   * Record a lookup answered from a local cache on behalf of a provider view
+   */
+  recordCacheHit(provider: MarketDataProvider, endpoint: string, ticker?: string): void {
+    // Replay fixtures never spend quota
+    if (provider.name === 'replay') return;
+
+    this.record({
+      service: provider.name,
+      feature: provider.context?.feature ?? 'unattributed',
+      priority: provider.context?.priority ?? 'background',
+      endpoint,
+      ticker: ticker?.toUpperCase(),
+      latencyMs: 0,
+      status: 200,
+      cacheHit: true
+    });
+  }
+
+  /**
+   * Write buffered entries to their day files
+   */
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const entries = this.buffer;
+    this.buffer = [];
+    if (entries.length === 0) return this.flushing;
+
+    this.flushing = this.flushing
+      .then(() => this.append(entries))
+      .catch(error => console.error('Failed to write usage ledger entries:', error));
+    return this.flushing;
+  }
+
+  /**
+   * Entries in [from, to], oldest first
+   */
+  async getEntries(from: Date, to: Date): Promise<UsageLedgerEntry[]> {
+    const entries: UsageLedgerEntry[] = [];
+    await this.scan(from, to, entry => entries.push(entry));
+    return entries;
+  }
+
+  /**
+   * Usage per minute, hour or UTC day, optionally split by one dimension. Buckets
+   * without activity are omitted.
+   */
+  async aggregate(query: UsageQuery): Promise<UsageAggregate[]> {
+    const size = GRANULARITY_MS[query.granularity];
+    const buckets = new Map<string, { bucket: number; key?: string; totals: UsageTotals }>();
+
+    await this.scan(query.from, query.to, entry => {
+      const bucket = Math.floor(Date.parse(entry.timestamp) / size) * size;
+      const key = query.groupBy ? dimensionValue(entry, query.groupBy) : undefined;
+      const mapKey = `${bucket}|${key ?? ''}`;
+      const current = buckets.get(mapKey) ?? { bucket, key, totals: emptyTotals() };
+      addEntry(current.totals, entry);
+      buckets.set(mapKey, current);
+    });
+
+    return Array.from(buckets.values())
+      .sort((a, b) => a.bucket - b.bucket || b.totals.calls - a.totals.calls)
+      .map(({ bucket, key, totals }) => ({
+        bucket: new Date(bucket).toISOString(),
+        ...(key !== undefined ? { key } : {}),
+        calls: totals.calls,
+        cacheHits: totals.cacheHits,
+        errors: totals.errors,
+        rateLimited: totals.rateLimited,
+        avgLatencyMs: averageLatency(totals),
+        maxLatencyMs: totals.maxLatencyMs
+      }));
+  }
+
+  /**
+   * Totals for a period with the top consumers per dimension, busiest first
+   */
+  async summarize(
+    from: Date,
+    to: Date,
+    dimensions: UsageDimension[] = ['feature', 'endpoint', 'ticker'],
+    limit = 10
+  ): Promise<UsageSummary> {
+    const totals = emptyTotals();
+    const byDimension = new Map<UsageDimension, Map<string, UsageTotals>>(
+      dimensions.map(dimension => [dimension, new Map()])
+    );
+
+    await this.scan(from, to, entry => {
+      addEntry(totals, entry);
+      byDimension.forEach((groups, dimension) => {
+        const key = dimensionValue(entry, dimension);
+        const group = groups.get(key) ?? emptyTotals();
+        addEntry(group, entry);
+        groups.set(key, group);
+      });
+    });
+
+    const breakdown: UsageBreakdown = {};
+    byDimension.forEach((groups, dimension) => {
+      breakdown[dimension] = Array.from(groups.entries())
+        .map(([key, group]): UsageBreakdownRow => ({
+          key,
+          calls: group.calls,
+          cacheHits: group.cacheHits,
+          errors: group.errors,
+          rateLimited: group.rateLimited,
+          avgLatencyMs: averageLatency(group),
+          share: totals.calls > 0 ? group.calls / totals.calls : 0
+        }))
+        .sort((a, b) => b.calls - a.calls || b.cacheHits - a.cacheHits)
+        .slice(0, limit);
+    });
+
+    const lookups = totals.calls + totals.cacheHits;
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      calls: totals.calls,
+      cacheHits: totals.cacheHits,
+      cacheHitRate: lookups > 0 ? totals.cacheHits / lookups : 0,
+      errors: totals.errors,
+      rateLimited: totals.rateLimited,
+      avgLatencyMs: averageLatency(totals),
+      breakdown
+    };
+  }
+
+  /**
+   * Stream entries in [from, to] day file by day file so long reports stay out of memory
+   */
+  private async scan(from: Date, to: Date, visit: (entry: UsageLedgerEntry) => void): Promise<void> {
+    await this.flush();
+
+    const fromMs = from.getTime();
+    const toMs = to.getTime();
+    for (let day = Math.floor(fromMs / DAY_MS) * DAY_MS; day <= toMs; day += DAY_MS) {
+      let content: string;
+      try {
+        content = await fs.readFile(this.filePath(day), 'utf-8');
+      } catch {
+        continue; // No calls that day
+      }
+
+      for (const line of content.split('\n')) {
+        if (!line) continue;
+        try {
+          const entry = JSON.parse(line) as UsageLedgerEntry;
+          const time = Date.parse(entry.timestamp);
+          if (time >= fromMs && time <= toMs) visit(entry);
+        } catch {
+          // Skip a line torn by a crash mid-write
+        }
+      }
+    }
+  }
+
+  private async append(entries: UsageLedgerEntry[]): Promise<void> {
+    await fs.mkdir(this.baseDir, { recursive: true });
+
+    const byDay = new Map<number, string[]>();
+    for (const entry of entries) {
+      const day = Math.floor(Date.parse(entry.timestamp) / DAY_MS) * DAY_MS;
+      byDay.set(day, [...(byDay.get(day) ?? []), JSON.stringify(entry)]);
+    }
+    for (const [day, lines] of Array.from(byDay.entries())) {
+      await fs.appendFile(this.filePath(day), lines.join('\n') + '\n');
+    }
+
+    await this.prune();
+  }
+
+  /**
+   * Delete day files past the retention window, at most once per day
+   */
+  private async prune(): Promise<void> {
+    const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+    if (this.lastPrunedDay === today) return;
+    this.lastPrunedDay = today;
+
+    const cutoff = this.dayName(today - this.retentionDays * DAY_MS);
+    const files = await fs.readdir(this.baseDir);
+    await Promise.all(files
+      .filter(file => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(file) && file.slice(0, 10) < cutoff)
+      .map(file => fs.rm(path.join(this.baseDir, file), { force: true })));
+  }
+
+  private filePath(dayMs: number): string {
+    return path.join(this.baseDir, `${this.dayName(dayMs)}.jsonl`);
+  }
+
+  private dayName(dayMs: number): string {
+    return new Date(dayMs).toISOString().slice(0, 10);
+  }
+}
+
+// Singleton instance
+export const usageLedger = new UsageLedger();
+export default usageLedger;
@@ -0,0 +1,118 @@
+/**
+ * User JSON Store
+ * One JSON document per user in a directory, cached in memory
+ *
+ * Documents are kept as `<userId>.json` and written to a temporary file first, so a crash
+ * never leaves a half-written one. Changes to one user's document are applied one at a time,
+ * each on the result of the previous one. Unreadable files and files the service does not
+ * recognise are logged and replaced by an empty document on the next change.
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+
+export interface UserDocument {
+  userId: string;
+  updatedAt: number;
+}
+
+export interface UserJsonStoreOptions<T extends UserDocument> {
+  dir: string;
+  label: string; // What the documents hold, for log messages, e.g. "alerts"
+  empty: (userId: string) => T;
+  // The document from a parsed file, or null when it is not one (e.g. an older version)
+  parse: (parsed: T) => T | null;
+  // Called once per document as it enters the cache
+  onLoad?: (stored: T) => void;
+}
+
+// A change returns the new document, or null to keep the current one, and its result
+export type UserDocumentChange<T, R> = (stored: T) => { stored: T | null; result: R };
+
+export class UserJsonStore<T extends UserDocument> {
+  private documents = new Map<string, T>();
+  private updates = new Map<string, Promise<unknown>>();
+  private allLoaded: Promise<void> | null = null;
+
+  constructor(private options: UserJsonStoreOptions<T>) {}
+
+  async get(userId: string): Promise<T> {
+    const cached = this.documents.get(userId);
+    if (cached) return cached;
+
+    const filePath = this.filePath(userId);
+    let stored = this.options.empty(userId);
+
+    if (existsSync(filePath)) {
+      try {
+        stored = this.options.parse(JSON.parse(await fs.readFile(filePath, 'utf-8')) as T) ?? stored;
+      } catch (error) {
+        console.error(`Ignoring unreadable ${this.options.label} file ${filePath}:`, error);
+      }
+    }
+
+    // Another read of the same file may have finished first, and changes may already be applied to it
+    const current = this.documents.get(userId);
+    if (current) return current;
+    this.documents.set(userId, stored);
+    this.options.onLoad?.(stored);
+    return stored;
+  }
+
+  /**
+   * Every user's document, reading the directory the first time
+   */
+  async loadAll(): Promise<T[]> {
+    if (!this.allLoaded) {
+      this.allLoaded = (async () => {
+        if (!existsSync(this.options.dir)) return;
+        const files = await fs.readdir(this.options.dir);
+        await Promise.all(files
+          .filter(file => file.endsWith('.json'))
+          .map(file => this.get(decodeURIComponent(file.slice(0, -'.json'.length)))));
+      })().catch(error => {
+        console.error(`Failed to load ${this.options.label} from ${this.options.dir}:`, error);
+        this.allLoaded = null;
+      });
+    }
+    await this.allLoaded;
+    return Array.from(this.documents.values());
+  }
+
+  /**
+   * Apply a change once the user's earlier ones have finished; a change that throws stores
+   * nothing and does not hold up the ones after it
+   */
+  async update<R>(userId: string, change: UserDocumentChange<T, R>): Promise<R> {
+    const previous = this.updates.get(userId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      const { stored, result } = change(await this.get(userId));
+      if (stored) {
+        const updated: T = { ...stored, updatedAt: Date.now() };
+        await this.save(updated);
+        this.documents.set(userId, updated);
+      }
+      return result;
+    });
+
+    this.updates.set(userId, next);
+    try {
+      return await next;
+    } finally {
+      if (this.updates.get(userId) === next) this.updates.delete(userId);
+    }
+  }
+
+  private async save(stored: T): Promise<void> {
+    const filePath = this.filePath(stored.userId);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(stored));
+    await fs.rename(tempPath, filePath);
+  }
+
+  private filePath(userId: string): string {
+    return path.join(this.options.dir, `${encodeURIComponent(userId)}.json`);
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Web Push
+ * Encrypted messages to browser push services, authenticated with VAPID
+ *
+ * Payloads are encrypted for the subscription's keys with the aes128gcm content coding
+ * (RFC 8291 / RFC 8188) and each request carries an ES256 VAPID token (RFC 8292), all with
+ * node's crypto, so no push library is needed. The server's key pair comes from
+ * VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY as base64url (the uncompressed P-256 point and the
+ * private scalar); generateVapidKeys() makes a new pair.
+ */
+
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign } from 'crypto';
+import { PushSubscriptionRecord } from '@/types';
+
+export interface VapidKeys {
+  publicKey: string; // base64url
+  privateKey: string; // base64url
+  subject: string; // mailto: or https: contact for push services
+}
+
+export class WebPushError extends Error {
+  constructor(message: string, public statusCode?: number) {
+    super(message);
+    this.name = 'WebPushError';
+  }
+
+  // The push service no longer knows the subscription; it should be dropped
+  get expired(): boolean {
+    return this.statusCode === 404 || this.statusCode === 410;
+  }
+
+  // Other client errors will not succeed on a retry; throttling and server errors may
+  get permanent(): boolean {
+    return this.statusCode !== undefined && this.statusCode >= 400 && this.statusCode < 500 && this.statusCode !== 429;
+  }
+}
+
+const RECORD_SIZE = 4096;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const TOKEN_LIFETIME_SECONDS = 12 * 60 * 60;
+
+/**
+ * VAPID keys from VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT; null unless both
+ * keys are set
+ */
+export function vapidKeysFromEnv(): VapidKeys | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+  return { publicKey, privateKey, subject: process.env.VAPID_SUBJECT || 'mailto:alerts@localhost' };
+}
+
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: ecdh.getPrivateKey().toString('base64url')
+  };
+}
+
+function hkdf(secret: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(hkdfSync('sha256', secret, salt, info, length));
+}
+
+/**
+ * Payload encrypted for a subscription as one aes128gcm record, header included. The salt
+ * and server key pair are random unless given.
+ */
+export function encryptPayload(
+  payload: Buffer,
+  keys: PushSubscriptionRecord['keys'],
+  salt: Buffer = randomBytes(16),
+  serverPrivateKey?: Buffer
+): Buffer {
+  const clientPublic = Buffer.from(keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(keys.auth, 'base64url');
+
+  const ecdh = createECDH('prime256v1');
+  if (serverPrivateKey) ecdh.setPrivateKey(serverPrivateKey);
+  else ecdh.generateKeys();
+  const serverPublic = ecdh.getPublicKey();
+  const shared = ecdh.computeSecret(clientPublic);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\u0000'), clientPublic, serverPublic]);
+  const ikm = hkdf(shared, authSecret, keyInfo, 32);
+  const contentKey = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\u0000'), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\u0000'), 12);
+
+  // A single record: the payload, then the last-record delimiter
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  const encrypted = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublic.length, 20);
+  return Buffer.concat([header, serverPublic, encrypted]);
+}
+
+/**
+ * ES256 VAPID token for the push service that hosts the endpoint
+ */
+export function vapidToken(endpoint: string, vapid: VapidKeys, now = Date.now()): string {
+  const publicKey = Buffer.from(vapid.publicKey, 'base64url');
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+      d: vapid.privateKey
+    },
+    format: 'jwk'
+  });
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + TOKEN_LIFETIME_SECONDS,
+    sub: vapid.subject
+  })}`;
+  const signature = sign('sha256', Buffer.from(unsigned), { key, dsaEncoding: 'ieee-p1363' });
+  return `${unsigned}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Deliver a payload to one subscription; throws WebPushError when the push service refuses it
+ */
+export async function sendPush(
+  subscription: PushSubscriptionRecord,
+  payload: string,
+  vapid: VapidKeys,
+  options: { ttlSeconds?: number; urgency?: 'low' | 'normal' | 'high' } = {}
+): Promise<void> {
+  const body = encryptPayload(Buffer.from(payload, 'utf8'), subscription.keys);
+
+  let response: Response;
+  try {
+    response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Encoding': 'aes128gcm',
+        TTL: String(options.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+        Urgency: options.urgency ?? 'normal',
+        Authorization: `vapid t=${vapidToken(subscription.endpoint, vapid)}, k=${vapid.publicKey}`
+      },
+      body: new Uint8Array(body)
+    });
+  } catch (error) {
+    throw new WebPushError(`Push service unreachable: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new WebPushError(`Push service returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`, response.status);
+  }
+}
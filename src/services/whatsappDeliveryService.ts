@@ -0,0 +1,206 @@
+/**
+ * WhatsApp Delivery Service
+ * Sends templated WhatsApp messages through Twilio and keeps their delivery status
+ *
+ * Every message sent, including ones Twilio refused, is kept per user in WHATSAPP_DIR
+ * (default: data/whatsapp) as `<userId>.json` with the last MAX_MESSAGES messages, newest
+ * first. Twilio posts status changes to /api/whatsapp/status, which moves a message from
+ * SENT to DELIVERED, READ or FAILED; callbacks can arrive out of order, so a status never
+ * moves backwards. Messages still SENT can also be refreshed from the API. Changes to one
+ * user's messages are applied one at a time.
+ */
+
+import path from 'path';
+import { WhatsAppMessage, WhatsAppTemplateName } from '@/types';
+import { fetchWhatsAppMessage, sendWhatsAppMessage, toMessageStatus, twilioConfigFromEnv, TwilioError } from './twilioClient';
+import { UserJsonStore } from './userJsonStore';
+import { renderTemplate, templateContentSid, templateVariables } from './whatsappTemplates';
+
+export class WhatsAppError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WhatsAppError';
+  }
+}
+
+export interface WhatsAppSendRequest {
+  userId: string;
+  to: string; // E.164
+  template: WhatsAppTemplateName;
+  variables: Record<string, string>;
+  ticker?: string; // Or the kind of message, e.g. PORTFOLIO
+  recommendation?: WhatsAppMessage['recommendation'];
+}
+
+export interface StoredWhatsAppMessages {
+  version: 1;
+  userId: string;
+  messages: WhatsAppMessage[]; // Newest first
+  updatedAt: number;
+}
+
+const FILE_VERSION = 1;
+const MAX_MESSAGES = 200;
+const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+// Later statuses win; FAILED only replaces SENT
+const STATUS_RANK: Record<WhatsAppMessage['status'], number> = { SENT: 0, FAILED: 1, DELIVERED: 1, READ: 2 };
+
+export class WhatsAppDeliveryService {
+  private store: UserJsonStore<StoredWhatsAppMessages>;
+  private owners = new Map<string, string>(); // Twilio SID -> userId
+
+  constructor(baseDir?: string) {
+    this.store = new UserJsonStore<StoredWhatsAppMessages>({
+      dir: path.resolve(baseDir ?? process.env.WHATSAPP_DIR ?? path.join(process.cwd(), 'data', 'whatsapp')),
+      label: 'WhatsApp messages',
+      empty: userId => ({ version: FILE_VERSION, userId, messages: [], updatedAt: 0 }),
+      parse: parsed => parsed.version === FILE_VERSION && Array.isArray(parsed.messages)
+        ? {
+          ...parsed,
+          messages: parsed.messages.map(message => ({
+            ...message,
+            sentAt: new Date(message.sentAt),
+            ...(message.updatedAt ? { updatedAt: new Date(message.updatedAt) } : {})
+          }))
+        }
+        : null,
+      onLoad: stored => stored.messages.forEach(message => {
+        if (message.twilioMessageId) this.owners.set(message.twilioMessageId, stored.userId);
+      })
+    });
+  }
+
+  isConfigured(): boolean {
+    return twilioConfigFromEnv() !== null;
+  }
+
+  /**
+   * Where messages go: Twilio, another Twilio-compatible API, or nowhere (null)
+   */
+  getApiUrl(): string | null {
+    return twilioConfigFromEnv()?.apiUrl ?? null;
+  }
+
+  async getMessages(userId: string, limit?: number): Promise<WhatsAppMessage[]> {
+    const { messages } = await this.store.get(userId);
+    return limit ? messages.slice(0, limit) : messages;
+  }
+
+  async getMessage(userId: string, messageId: string): Promise<WhatsAppMessage | null> {
+    return (await this.store.get(userId)).messages.find(message => message.id === messageId) ?? null;
+  }
+
+  /**
+   * Send a templated message and record it. Throws WhatsAppError or WhatsAppTemplateError for
+   * bad input, and TwilioError when Twilio refuses or cannot be reached; refused messages are
+   * recorded as FAILED.
+   */
+  async send(request: WhatsAppSendRequest): Promise<WhatsAppMessage> {
+    const config = twilioConfigFromEnv();
+    if (!config) throw new WhatsAppError('WhatsApp is not configured on this server');
+    if (!PHONE_PATTERN.test(request.to)) {
+      throw new WhatsAppError('Phone number must be in international format, e.g. +15551234567');
+    }
+
+    const body = renderTemplate(request.template, request.variables);
+    const contentSid = templateContentSid(request.template);
+    const now = new Date();
+    const message: WhatsAppMessage = {
+      id: `whatsapp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId: request.userId,
+      phoneNumber: request.to,
+      message: body,
+      ticker: request.ticker ?? request.template.toUpperCase(),
+      recommendation: request.recommendation ?? 'HOLD',
+      sentAt: now,
+      twilioMessageId: '',
+      status: 'SENT',
+      template: request.template,
+      updatedAt: now
+    };
+
+    try {
+      const sent = await sendWhatsAppMessage(config, contentSid
+        ? { to: request.to, contentSid, contentVariables: templateVariables(request.template, request.variables) }
+        : { to: request.to, body });
+      message.twilioMessageId = sent.sid;
+      message.status = toMessageStatus(sent.status);
+      if (sent.error_code) message.error = `${sent.error_code}: ${sent.error_message ?? 'Unknown error'}`;
+    } catch (error) {
+      if (!(error instanceof TwilioError) || !error.permanent) throw error;
+      message.status = 'FAILED';
+      message.error = error.message;
+      await this.record(message);
+      throw error;
+    }
+
+    await this.record(message);
+    return message;
+  }
+
+  /**
+   * Apply a Twilio status callback (form fields MessageSid, MessageStatus, ErrorCode);
+   * resolves with the updated message, or null when the SID is unknown
+   */
+  async handleStatusCallback(params: Record<string, string>): Promise<WhatsAppMessage | null> {
+    const sid = params.MessageSid || params.SmsSid;
+    if (!sid || !params.MessageStatus) return null;
+
+    // Messages sent before a restart are only indexed once every user's file is read
+    await this.store.loadAll();
+    const userId = this.owners.get(sid);
+    if (!userId) return null;
+
+    const error = params.ErrorCode ? `${params.ErrorCode}: ${params.ErrorMessage || 'Delivery failed'}` : undefined;
+    return this.applyStatus(userId, sid, toMessageStatus(params.MessageStatus), error);
+  }
+
+  /**
+   * Ask Twilio for the status of a message still SENT, for when callbacks cannot reach the app
+   */
+  async refreshStatus(userId: string, messageId: string): Promise<WhatsAppMessage | null> {
+    const message = await this.getMessage(userId, messageId);
+    const config = twilioConfigFromEnv();
+    if (!message || !config || message.status !== 'SENT' || !message.twilioMessageId) return message;
+
+    const resource = await fetchWhatsAppMessage(config, message.twilioMessageId);
+    const error = resource.error_code ? `${resource.error_code}: ${resource.error_message ?? 'Delivery failed'}` : undefined;
+    return this.applyStatus(userId, message.twilioMessageId, toMessageStatus(resource.status), error);
+  }
+
+  private applyStatus(userId: string, sid: string, status: WhatsAppMessage['status'], error?: string): Promise<WhatsAppMessage | null> {
+    return this.store.update(userId, stored => {
+      const existing = stored.messages.find(message => message.twilioMessageId === sid);
+      if (!existing) return { stored: null, result: null };
+      if (STATUS_RANK[status] <= STATUS_RANK[existing.status]) return { stored: null, result: existing };
+
+      const updated: WhatsAppMessage = {
+        ...existing,
+        status,
+        updatedAt: new Date(),
+        ...(status === 'FAILED' && error ? { error } : {})
+      };
+      return {
+        stored: { ...stored, messages: stored.messages.map(message => message.id === existing.id ? updated : message) },
+        result: updated
+      };
+    });
+  }
+
+  private async record(message: WhatsAppMessage): Promise<void> {
+    await this.store.update(message.userId, stored => ({
+      stored: { ...stored, messages: [message, ...stored.messages].slice(0, MAX_MESSAGES) },
+      result: undefined
+    }));
+    if (message.twilioMessageId) this.owners.set(message.twilioMessageId, message.userId);
+  }
+}
+
+// Global singleton guard: the notification dispatcher and the API routes must share one store cache
+const globalAny = global as any;
+if (!globalAny.__WHATSAPP_DELIVERY_SINGLETON__) {
+  globalAny.__WHATSAPP_DELIVERY_SINGLETON__ = { instance: new WhatsAppDeliveryService() };
+}
+export const whatsAppDeliveryService = globalAny.__WHATSAPP_DELIVERY_SINGLETON__.instance as WhatsAppDeliveryService;
+export default whatsAppDeliveryService;
@@ -1,20 +1,25 @@
 'use client';
 
-import { type Stock, type WhatsAppMessage, type StockAlert } from '@/types';
-import { notificationDB } from './notificationDatabase';
+import { type Stock, type WhatsAppMessage, type StockAlert, type EarningsCalendarEntry } from '@/types';
+
+type SendResult = { success: boolean; messageId?: string; error?: string };
+
+// Dates arrive from the API as ISO strings
+const fromJson = (message: WhatsAppMessage): WhatsAppMessage => ({
+  ...message,
+  sentAt: new Date(message.sentAt),
+  ...(message.updatedAt ? { updatedAt: new Date(message.updatedAt) } : {}),
+});
 
 /**
- * WhatsApp Service - Mock Implementation
- * This service simulates WhatsApp notifications without external API dependencies
+ * WhatsApp Service
+ * Sends WhatsApp messages through the server (/api/whatsapp), which delivers them with Twilio
+ * (or the local mock server in scripts/twilio-mock-server.js) and tracks their delivery status
+ * from Twilio's status callbacks
  */
 class WhatsAppService {
-  constructor() {
-    // No external API configuration needed for mock implementation
-  }
-
   /**
-   * Send WhatsApp notification (Mock Implementation)
-   * Simulates sending a WhatsApp message and stores it in the database
+   * Send WhatsApp notification with the alert template: title, content, price, change and info
    */
   async sendWhatsAppMessage(
     to: string,
@@ -26,40 +31,26 @@ class WhatsAppService {
     userId: string,
     messageType: string = 'ALERT',
     recommendation: 'BUY' | 'HOLD' | 'SELL' = 'HOLD'
-  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  ): Promise<SendResult> {
     try {
-      // Simulate message sending delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // Generate a mock message ID
-      const messageId = `whatsapp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      // Create WhatsApp message record for database
-      const whatsAppMessage: WhatsAppMessage = {
-        id: messageId,
-        userId,
-        phoneNumber: to,
-        message: `${alertType}: ${mainContent}`,
-        ticker: messageType,
-        recommendation,
-        sentAt: new Date(),
-        twilioMessageId: messageId,
-        status: 'SENT',
-      };
-
-      // Store message in database
-      await notificationDB.addWhatsAppMessage(whatsAppMessage);
-
-      console.log('📱 WhatsApp notification simulated:', {
-        to,
-        alertType,
-        messageId,
-        status: 'SENT'
+      const response = await fetch('/api/whatsapp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId,
+          to: this.formatPhoneNumber(to),
+          template: 'alert',
+          variables: { title: alertType, content: mainContent, price, change, info: additionalInfo },
+          ticker: messageType,
+          recommendation,
+        }),
       });
+      const result = await response.json();
+      if (!result.success) return { success: false, error: result.error };
 
-      return { success: true, messageId };
+      return { success: true, messageId: result.data.id };
     } catch (error) {
-      console.error('Error simulating WhatsApp message:', error);
+      console.error('Error sending WhatsApp message:', error);
       return { success: false, error: 'Failed to process WhatsApp notification' };
     }
   }
@@ -72,7 +63,7 @@ class WhatsAppService {
     recommendation: 'BUY' | 'HOLD' | 'SELL',
     userId: string,
     phoneNumber: string
-  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  ): Promise<SendResult> {
     try {
       const alertType = `${stock.ticker} Stock Alert`;
       const mainContent = `${recommendation} recommendation detected!\n\nStock: ${stock.ticker}\nAnalysis suggests ${recommendation.toLowerCase()} action.`;
@@ -111,7 +102,7 @@ class WhatsAppService {
     portfolioSummary: string,
     userId: string,
     phoneNumber: string
-  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  ): Promise<SendResult> {
     try {
       const alertType = "Portfolio Update";
       const mainContent = `Daily portfolio summary:\n\n${portfolioSummary}`;
@@ -144,12 +135,16 @@ class WhatsAppService {
     currentPrice: number,
     userId: string,
     phoneNumber: string
-  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  ): Promise<SendResult> {
     try {
       const alertType = `${alert.ticker} Price Alert`;
-      const mainContent = `Price alert triggered!\n\n${alert.ticker} has reached your target price.\nAlert type: ${alert.type}`;
+      const mainContent = alert.type === 'RULE'
+        ? `Signal alert triggered!\n\n${alert.ticker} matched your rule:\n${alert.condition}`
+        : `Price alert triggered!\n\n${alert.ticker} has reached your target price.\nAlert type: ${alert.type}`;
       const price = currentPrice.toString();
-      const change = `Target: $${alert.targetPrice} (${alert.type === 'ABOVE' ? 'Hit!' : 'Reached!'})`;
+      const change = alert.type === 'RULE'
+        ? 'Rule matched'
+        : `Target: $${alert.targetPrice} (${alert.type === 'ABOVE' ? 'Hit!' : 'Reached!'})`;
       const additionalInfo = `🎯 Consider your trading strategy for ${alert.ticker}`;
 
       return await this.sendWhatsAppMessage(
@@ -169,6 +164,42 @@ class WhatsAppService {
     }
   }
 
+  /**
+   * Send pre-earnings reminder using universal template
+   */
+  async sendEarningsReminder(
+    entry: EarningsCalendarEntry,
+    userId: string,
+    phoneNumber: string
+  ): Promise<SendResult> {
+    try {
+      const when = entry.daysUntil === 0 ? 'today' : entry.daysUntil === 1 ? 'tomorrow' : `on ${entry.date}`;
+      const timing = entry.hour === 'bmo' ? ' before the open' : entry.hour === 'amc' ? ' after the close' : '';
+      const alertType = `${entry.symbol} Earnings Reminder`;
+      const mainContent = `${entry.symbol} reports earnings ${when}${timing}.`
+        + (entry.epsEstimate !== null ? `\nEPS estimate: $${entry.epsEstimate.toFixed(2)}` : '')
+        + (entry.lastSurprisePercent !== null ? `\nLast surprise: ${entry.lastSurprisePercent > 0 ? '+' : ''}${entry.lastSurprisePercent.toFixed(1)}%` : '');
+      const price = entry.epsEstimate !== null ? entry.epsEstimate.toString() : 'N/A';
+      const change = `${entry.tradingDaysUntil} trading day${entry.tradingDaysUntil === 1 ? '' : 's'} away`;
+      const additionalInfo = '📅 Expect a price gap; review your position size and stops';
+
+      return await this.sendWhatsAppMessage(
+        phoneNumber,
+        alertType,
+        mainContent,
+        price,
+        change,
+        additionalInfo,
+        userId,
+        'EARNINGS',
+        'HOLD'
+      );
+    } catch (error) {
+      console.error('Error sending earnings reminder:', error);
+      return { success: false, error: 'Failed to send earnings reminder' };
+    }
+  }
+
   /**
    * Send custom alert using universal template
    */
@@ -177,7 +208,7 @@ class WhatsAppService {
     message: string,
     userId: string,
     phoneNumber: string
-  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  ): Promise<SendResult> {
     try {
       const alertType = title;
       const mainContent = message;
@@ -209,7 +240,7 @@ class WhatsAppService {
     marketData: string,
     userId: string,
     phoneNumber: string
-  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  ): Promise<SendResult> {
     try {
       const alertType = "Market Update";
       const mainContent = `Latest market information:\n\n${marketData}`;
@@ -237,9 +268,8 @@ class WhatsAppService {
   /**
    * Test WhatsApp connection with universal template
    */
-  async testConnection(userId: string): Promise<{ success: boolean; error?: string }> {
+  async testConnection(userId: string, phoneNumber: string): Promise<SendResult> {
     try {
-      const testPhoneNumber = '+919173611252'; // Your phone number
       const alertType = "Connection Test";
       const mainContent = "WhatsApp integration is working perfectly!\n\nYour Stock Advisor Pro notifications are now active.";
       const price = "Connected";
@@ -247,7 +277,7 @@ class WhatsAppService {
       const additionalInfo = "🚀 You'll now receive real-time stock alerts here!";
 
       return await this.sendWhatsAppMessage(
-        testPhoneNumber,
+        phoneNumber,
         alertType,
         mainContent,
         price,
@@ -284,29 +314,33 @@ class WhatsAppService {
   }
 
   /**
-   * Get message status (Mock Implementation)
+   * The user's messages, newest first, with whether the server can send and where to
    */
-  async getMessageStatus(messageSid: string): Promise<string> {
+  async getMessages(userId: string): Promise<{ messages: WhatsAppMessage[]; configured: boolean; apiUrl: string | null }> {
     try {
-      // Simulate checking message status
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      // Return mock status - in real implementation this would be 'delivered' or 'failed'
-      return 'delivered';
+      const response = await fetch(`/api/whatsapp?userId=${encodeURIComponent(userId)}`);
+      const result = await response.json();
+      if (!result.success) return { messages: [], configured: false, apiUrl: null };
+
+      return { messages: (result.data as WhatsAppMessage[]).map(fromJson), configured: result.configured, apiUrl: result.apiUrl };
     } catch (error) {
-      console.error('Error getting message status:', error);
-      return 'error';
+      console.error('Error loading WhatsApp messages:', error);
+      return { messages: [], configured: false, apiUrl: null };
     }
   }
 
   /**
-   * Update message status in database
+   * A message's current status, asking Twilio when no status callback has arrived yet
    */
-  async updateMessageStatus(messageSid: string, status: string): Promise<void> {
+  async getMessageStatus(userId: string, messageId: string): Promise<WhatsAppMessage | null> {
     try {
-      await notificationDB.updateWhatsAppMessageStatus(messageSid, status);
+      const params = new URLSearchParams({ userId, messageId, refresh: 'true' });
+      const response = await fetch(`/api/whatsapp?${params}`);
+      const result = await response.json();
+      return result.success ? fromJson(result.data) : null;
     } catch (error) {
-      console.error('Error updating message status:', error);
+      console.error('Error getting message status:', error);
+      return null;
     }
   }
 }
@@ -0,0 +1,83 @@
+/**
+ * WhatsApp Templates
+ * The message layouts WhatsApp messages are sent with, as Twilio Content templates or as text
+ *
+ * Business-initiated WhatsApp messages outside a 24-hour conversation window must use a
+ * template approved through Twilio's Content API. Each template here mirrors one: when its
+ * Content SID is configured (TWILIO_TEMPLATE_ALERT_SID, TWILIO_TEMPLATE_NOTIFICATION_SID) the
+ * message is sent as ContentSid with numbered ContentVariables, otherwise the same layout is
+ * rendered into a plain body, which the sandbox and the local mock server accept.
+ */
+
+import { WhatsAppTemplateName } from '@/types';
+
+export class WhatsAppTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WhatsAppTemplateError';
+  }
+}
+
+export interface WhatsAppTemplate {
+  name: WhatsAppTemplateName;
+  variables: string[]; // Named in {{1}}, {{2}}, ... order
+  body: string; // The approved layout, with numbered placeholders
+  contentSidEnv: string;
+}
+
+// Twilio's limit for a single content variable
+const MAX_VARIABLE_LENGTH = 1024;
+
+export const WHATSAPP_TEMPLATES: Record<WhatsAppTemplateName, WhatsAppTemplate> = {
+  alert: {
+    name: 'alert',
+    variables: ['title', 'content', 'price', 'change', 'info'],
+    body: '*{{1}}*\n\n{{2}}\n\n💰 Price: {{3}}\n📊 Change: {{4}}\n\n{{5}}',
+    contentSidEnv: 'TWILIO_TEMPLATE_ALERT_SID'
+  },
+  notification: {
+    name: 'notification',
+    variables: ['title', 'message'],
+    body: '*{{1}}*\n{{2}}',
+    contentSidEnv: 'TWILIO_TEMPLATE_NOTIFICATION_SID'
+  }
+};
+
+export function isWhatsAppTemplate(name: unknown): name is WhatsAppTemplateName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(WHATSAPP_TEMPLATES, name);
+}
+
+/**
+ * The template's variables in Twilio's numbered form; throws WhatsAppTemplateError when one
+ * is missing or too long
+ */
+export function templateVariables(name: WhatsAppTemplateName, values: Record<string, string>): Record<string, string> {
+  const template = WHATSAPP_TEMPLATES[name];
+  const numbered: Record<string, string> = {};
+  template.variables.forEach((variable, index) => {
+    const value = values[variable];
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new WhatsAppTemplateError(`The ${name} template needs ${variable}`);
+    }
+    if (value.length > MAX_VARIABLE_LENGTH) {
+      throw new WhatsAppTemplateError(`${variable} is longer than ${MAX_VARIABLE_LENGTH} characters`);
+    }
+    numbered[String(index + 1)] = value;
+  });
+  return numbered;
+}
+
+/**
+ * The message text, as WhatsApp shows it
+ */
+export function renderTemplate(name: WhatsAppTemplateName, values: Record<string, string>): string {
+  const numbered = templateVariables(name, values);
+  return WHATSAPP_TEMPLATES[name].body.replace(/\{\{(\d+)\}\}/g, (_, index: string) => numbered[index] ?? '');
+}
+
+/**
+ * The approved Content SID for the template, or null to send the rendered text
+ */
+export function templateContentSid(name: WhatsAppTemplateName): string | null {
+  return process.env[WHATSAPP_TEMPLATES[name].contentSidEnv] || null;
+}
@@ -4,37 +4,7 @@
  */
 
 import MarketDataRiskService from './marketDataRiskService';
-
-interface StockRecommendation {
-  ticker: string;
-  companyName: string;
-  score: number;
-  confidence: number;
-  reasoning: string;
-  price?: number;
-  change?: number;
-  volume?: number;
-  finalScore: number;
-  explanation: string;
-  analytics: {
-    momentum: string;
-    sentiment: string;
-    mentions: number;
-    avgScore: number;
-    riskFlags: string[];
-  };
-  breakdown: {
-    popularity: number;
-    sentiment: number;
-    momentum: number;
-    diversification: number;
-  };
-  marketData: {
-    c: number;
-    sector: string;
-    changePercent: number;
-  };
-}
+import { MarketRecommendation } from '@/types';
 
 interface ScoringOptions {
   daysBack?: number;
@@ -50,9 +20,9 @@ export class YouTubeRecommendationScorer {
   /**
    * Generate stock recommendations (stub implementation)
    */
-  async generateRecommendations(daysBack?: number, maxRecommendations?: number, diversification?: boolean): Promise<StockRecommendation[]> {
+  async generateRecommendations(daysBack?: number, maxRecommendations?: number, diversification?: boolean): Promise<MarketRecommendation[]> {
     // Return mock recommendations for demo purposes
-    const mockRecommendations: StockRecommendation[] = [
+    const mockRecommendations: MarketRecommendation[] = [
       {
         ticker: 'AAPL',
         companyName: 'Apple Inc.',
@@ -218,7 +188,7 @@ export class YouTubeRecommendationScorer {
   /**
    * Score individual stock
    */
-  async scoreStock(symbol: string): Promise<StockRecommendation | null> {
+  async scoreStock(symbol: string): Promise<MarketRecommendation | null> {
     // Mock scoring for any symbol
     const score = Math.floor(Math.random() * 40) + 60; // 60-100
     const price = Math.random() * 500 + 50;
@@ -1,3 +1,5 @@
+import type { SplitAction } from './market';
+
 export interface User {
   id: string;
   email: string;
@@ -164,8 +166,9 @@ export interface StockAlert {
   id: string;
   userId: string;
   ticker: string;
-  type: 'ABOVE' | 'BELOW';
-  targetPrice: number;
+  type: 'ABOVE' | 'BELOW' | 'RULE';
+  targetPrice: number; // Price threshold for ABOVE/BELOW; 0 for RULE alerts
+  condition?: string; // Signal rule for RULE alerts, e.g. "rsi(14) < 30"
   isActive: boolean;
   createdAt: Date;
   triggeredAt?: Date;
@@ -180,6 +183,73 @@ export interface NotificationSettings {
   buyThreshold: number; // Percentage below buy price
   sellThreshold: number; // Percentage above buy price
   soundEnabled: boolean;
+  enableEarningsReminders?: boolean; // Remind before held and watched tickers report (default on)
+  earningsReminderDays?: number; // Trading days of notice before a report (default 3)
+  // Server-side delivery (services/notificationDispatcher.ts)
+  email?: string;
+  whatsAppNumber?: string; // E.164, e.g. +15551234567
+  webhookUrl?: string;
+  webhookSecret?: string; // Signs webhook bodies (X-Signature-256)
+  routing?: NotificationRoute[]; // Unset: derived from the enable* switches
+  quietHours?: QuietHours;
+}
+
+// Delivery channels of the notification dispatcher
+export type NotificationChannel = 'inApp' | 'push' | 'email' | 'whatsapp' | 'webhook';
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical';
+
+export type NotificationEventType = 'alert' | 'earnings' | 'stories' | 'portfolio' | 'service' | 'test';
+
+// Events of the listed types (all when unset) at or above minSeverity go to the channels;
+// the channels of every matching route are combined
+export interface NotificationRoute {
+  eventTypes?: NotificationEventType[];
+  minSeverity?: NotificationSeverity; // Default info
+  channels: NotificationChannel[];
+}
+
+// Deliveries other than in-app are held until the end of quiet hours
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:mm, local to timeZone
+  end: string; // HH:mm; before start means overnight
+  timeZone: string; // IANA, e.g. America/New_York
+  allowCritical?: boolean; // Critical notifications are not held (default true)
+}
+
+export type NotificationDeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export interface NotificationDelivery {
+  channel: NotificationChannel;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string; // ISO timestamp, while pending
+  sentAt?: string;
+  error?: string; // Last failure, or why it was skipped
+}
+
+// A notification as dispatched server-side, with the state of each channel's delivery
+export interface DispatchedNotification {
+  id: string;
+  userId: string;
+  type: NotificationEventType;
+  severity: NotificationSeverity;
+  title: string;
+  message: string;
+  ticker?: string;
+  url?: string; // Where the notification leads in the app
+  data?: Record<string, unknown>;
+  createdAt: string; // ISO timestamp
+  isRead: boolean;
+  deliveries: NotificationDelivery[];
+}
+
+// Browser push subscription (PushSubscription.toJSON())
+export interface PushSubscriptionRecord {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+  createdAt: string;
 }
 
 // Added WhatsApp specific interfaces
@@ -192,66 +262,25 @@ export interface WhatsAppMessage {
   recommendation: 'BUY' | 'HOLD' | 'SELL';
   sentAt: Date;
   twilioMessageId: string;
-  status: 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
+  status: 'SENT' | 'DELIVERED' | 'READ' | 'FAILED'; // Kept current by Twilio status callbacks
+  template?: WhatsAppTemplateName;
+  error?: string; // Twilio error code and message, when FAILED
+  updatedAt?: Date; // Last status change
 }
 
 export interface TwilioConfig {
   accountSid: string;
   authToken: string;
   whatsAppNumber: string; // Twilio WhatsApp-enabled number
+  apiUrl?: string; // Twilio-compatible API base (default https://api.twilio.com), e.g. the local mock
+  statusCallbackUrl?: string; // Where Twilio posts delivery status changes
 }
 
-// Finnhub API Types
-export interface FinnhubQuote {
-  c: number; // Current price
-  d: number; // Change
-  dp: number; // Percent change
-  h: number; // High price of the day
-  l: number; // Low price of the day
-  o: number; // Open price of the day
-  pc: number; // Previous close price
-  t: number; // Timestamp
-}
-
-export interface FinnhubApiStatus {
-  quotaUsed: number;
-  quotaLimit: number;
-  quotaRemaining: number;
-  resetTime: Date;
-  isLimitReached: boolean;
-  lastUpdated: Date;
-}
-
-export interface PriceAlert {
-  id: string;
-  userId: string;
-  ticker: string;
-  upperThreshold?: number;
-  lowerThreshold?: number;
-  isActive: boolean;
-  createdAt: Date;
-  lastTriggered?: Date;
-}
-
-export interface RealtimePrice {
-  ticker: string;
-  currentPrice: number;
-  change: number;
-  changePercent: number;
-  high: number;
-  low: number;
-  open: number;
-  previousClose: number;
-  timestamp: Date;
-  volume?: number;
-}
+// Message templates (services/whatsappTemplates.ts); each matches an approved Content template
+export type WhatsAppTemplateName = 'alert' | 'notification';
 
-export interface FinnhubServiceHealth {
-  status: 'healthy' | 'degraded' | 'unhealthy';
-  apiQuota: FinnhubApiStatus;
-  websocketConnected: boolean;
-  cacheSize: number;
-}
+// Market domain types (quotes, alerts, chart points, analytics)
+export * from './market';
 
 // Historical Price and Date-Time Based Monitoring
 export interface HistoricalPriceRequest {
@@ -265,7 +294,8 @@ export interface HistoricalPriceData {
   ticker: string;
   requestedDateTime: Date;
   actualDateTime: Date; // Closest available data point
-  price: number;
+  price: number; // As traded on actualDateTime
+  adjustedPrice?: number; // Restated for splits since then
   quantity: number;
   totalValue: number;
   volume?: number;
@@ -280,15 +310,23 @@ export interface StockPosition {
   userId: string;
   ticker: string;
   referenceDate: Date;
-  referencePrice: number;
-  quantity: number;
+  referencePrice: number; // Split-adjusted to today's share terms
+  quantity: number; // Split-adjusted
   totalValue: number;
   upperThreshold?: number;
   lowerThreshold?: number;
+  trailingStopPercent?: number; // Alert on a fall this far (%) from the running high
+  trailingStopAtr?: number; // Alert on a fall of this many daily ATR(14) from the running high
+  moveAlertPercent?: number; // Alert on a move this large (%) either way from the previous close
+  gapAlertPercent?: number; // Alert on an open this far (%) from the previous close
+  yearRangeAlerts?: boolean; // Alert on a new 52-week high or low
   isMonitoring: boolean;
   createdAt: Date;
   lastChecked?: Date;
   alerts: PositionAlert[];
+  originalReferencePrice?: number; // As traded on referenceDate
+  originalQuantity?: number;
+  appliedSplits?: SplitAction[]; // Splits already folded into price, quantity and thresholds
 }
 
 export interface PositionAlert {
@@ -296,7 +334,7 @@ export interface PositionAlert {
   positionId: string;
   userId: string;
   ticker: string;
-  alertType: 'UPPER_BREACH' | 'LOWER_BREACH';
+  alertType: 'UPPER_BREACH' | 'LOWER_BREACH' | 'TRAILING_STOP' | 'DAY_MOVE' | 'GAP' | 'YEAR_HIGH' | 'YEAR_LOW';
   triggerPrice: number;
   referencePrice: number;
   threshold: number;
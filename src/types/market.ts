@@ -0,0 +1,946 @@
+// Market Domain Types
+// Single source of truth for quotes, prices, alerts, chart points and analytics shared by
+// services, API routes and components. Runtime validators live in services/marketSchema.ts.
+
+// Finnhub API Types
+export interface FinnhubQuote {
+  c: number; // Current price
+  d: number; // Change
+  dp: number; // Percent change
+  h: number; // High price of the day
+  l: number; // Low price of the day
+  o: number; // Open price of the day
+  pc: number; // Previous close price
+  t: number; // Timestamp (unix seconds)
+  v?: number; // Volume (not every vendor reports it)
+}
+
+export interface FinnhubApiStatus {
+  quotaUsed: number;
+  quotaLimit: number;
+  quotaRemaining: number;
+  resetTime: Date;
+  isLimitReached: boolean;
+  lastUpdated: Date;
+}
+
+export interface PriceAlert {
+  id: string;
+  userId: string;
+  ticker: string;
+  upperThreshold?: number;
+  lowerThreshold?: number;
+  condition?: string; // Signal rule, e.g. "rsi(14) < 30"; fires when it holds
+  isActive: boolean;
+  createdAt: Date;
+  lastTriggered?: Date;
+}
+
+export interface RealtimePrice {
+  ticker: string;
+  currentPrice: number;
+  change: number;
+  changePercent: number;
+  high: number;
+  low: number;
+  open: number;
+  previousClose: number;
+  timestamp: Date;
+  volume?: number;
+}
+
+// One row of the quota usage report (/api/finnhub/export)
+export interface QuotaHistoryRecord {
+  timestamp: string;
+  quotaUsed: number;
+  quotaLimit: number;
+  quotaRemaining: number;
+  isLimitReached: boolean;
+  apiCalls: number;
+  service: string;
+  group?: string; // Feature, endpoint or ticker when the report is grouped
+  cacheHits?: number;
+  errors?: number;
+  rateLimited?: number;
+  avgLatencyMs?: number;
+}
+
+// Quota Usage Ledger
+// Priority class an outbound call was scheduled in (highest first)
+export type RequestPriority = 'interactive' | 'alerts' | 'background';
+
+export interface UsageLedgerEntry {
+  timestamp: string;
+  service: string; // Upstream API (provider name)
+  feature: string; // App feature that made the call, e.g. charts, monitoring
+  priority: RequestPriority;
+  endpoint: string;
+  ticker?: string;
+  latencyMs: number;
+  status: number; // HTTP status; 0 when no response was received
+  cacheHit: boolean; // Served locally without spending quota
+}
+
+export type UsageGranularity = 'minute' | 'hour' | 'day';
+export type UsageDimension = 'service' | 'feature' | 'endpoint' | 'ticker' | 'priority';
+
+export interface UsageAggregate {
+  bucket: string; // ISO start of the minute, hour or UTC day
+  key?: string; // Value of the grouped dimension
+  calls: number; // Upstream calls (cache misses)
+  cacheHits: number;
+  errors: number;
+  rateLimited: number;
+  avgLatencyMs: number;
+  maxLatencyMs: number;
+}
+
+export interface UsageBreakdownRow {
+  key: string;
+  calls: number;
+  cacheHits: number;
+  errors: number;
+  rateLimited: number;
+  avgLatencyMs: number;
+  share: number; // Fraction of all upstream calls in the period (0-1)
+}
+
+export type UsageBreakdown = Partial<Record<UsageDimension, UsageBreakdownRow[]>>;
+
+export interface FinnhubServiceHealth {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  apiQuota: FinnhubApiStatus;
+  websocketConnected: boolean;
+  cacheSize: number;
+}
+
+// Charting and Technical Analysis
+export interface ChartDataPoint {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// OHLCV point with optional indicator overlays, as served by /api/analytics/prices?format=chart
+export interface PriceChartPoint extends ChartDataPoint {
+  date: string;
+  sma20?: number;
+  sma50?: number;
+  sma200?: number;
+  ema12?: number;
+  ema26?: number;
+  rsi?: number;
+  macd?: number;
+  signal?: number;
+  upperBand?: number;
+  lowerBand?: number;
+}
+
+// Oscillator values for one day, as served by /api/analytics/prices?format=technicals
+export interface TechnicalSeriesPoint {
+  date: string;
+  rsi?: number;
+  macd?: number;
+  signal?: number;
+  histogram?: number;
+  stochK?: number;
+  stochD?: number;
+  atr?: number;
+  adx?: number;
+  plusDI?: number;
+  minusDI?: number;
+  cci?: number;
+  williamsR?: number;
+  mfi?: number;
+  obv?: number;
+  volume?: number;
+}
+
+export interface TechnicalIndicators {
+  sma20: number;
+  sma50: number;
+  sma200: number;
+  ema12: number;
+  ema26: number;
+  rsi14: number;
+  macd: {
+    line: number;
+    signal: number;
+    histogram: number;
+  };
+  bollingerBands: {
+    upper: number;
+    middle: number;
+    lower: number;
+  };
+  atr14: number; // Average True Range
+}
+
+// Indicator Series
+// Parameterised indicators computed by services/indicatorEngine.ts. Each output series is
+// aligned with the input bars; null marks bars inside the indicator's warm-up window.
+export type IndicatorId =
+  | 'sma' | 'ema' | 'rsi' | 'macd' | 'bollinger' | 'atr'
+  | 'stochastic' | 'adx' | 'obv' | 'vwap' | 'ichimoku'
+  | 'keltner' | 'donchian' | 'cci' | 'williamsR' | 'mfi';
+
+// Where a chart draws the indicator: over prices, in an oscillator pane, or with volume
+export type IndicatorPane = 'price' | 'oscillator' | 'volume';
+
+export interface IndicatorRequest {
+  id: IndicatorId;
+  params?: Record<string, number>; // Omitted parameters use the indicator's defaults
+}
+
+export interface IndicatorResult {
+  id: IndicatorId;
+  key: string; // Label with parameters, e.g. "bollinger(20,2)"
+  name: string;
+  pane: IndicatorPane;
+  params: Record<string, number>;
+  series: Record<string, (number | null)[]>; // Output name → value per bar
+}
+
+// Signal Rules
+// Expression-language conditions (services/signalRules.ts), e.g. "rsi(14) < 30 and close > sma(200)"
+export interface SignalRuleDiagnostic {
+  message: string;
+  start: number; // Character range in the rule source, end exclusive
+  end: number;
+}
+
+export interface SignalRuleEvaluation {
+  symbol?: string;
+  rule: string;
+  matched: boolean;
+  timestamp?: string; // Bar the rule was evaluated at
+  values: Record<string, number | null>; // Each field and function the rule reads, e.g. "rsi(14)"
+}
+
+export interface TradingSignal {
+  type: 'BUY' | 'SELL' | 'HOLD' | 'NEUTRAL';
+  indicator: string;
+  strength: number; // 0-1
+  description: string;
+  expires?: string;
+}
+
+// Corporate Actions
+export interface SplitAction {
+  type: 'split';
+  symbol: string;
+  exDate: string; // YYYY-MM-DD
+  ratio: number; // Shares held after the split per share before (4-for-1 → 4)
+}
+
+export interface DividendAction {
+  type: 'dividend';
+  symbol: string;
+  exDate: string; // YYYY-MM-DD
+  amount: number; // Cash per share as declared on the ex-date
+  currency?: string;
+}
+
+export type CorporateAction = SplitAction | DividendAction;
+
+// Raw prices are as traded; adjusted prices are restated in today's share terms
+export type PriceAdjustment = 'raw' | 'adjusted';
+
+// Market Calendar
+export type ExchangeCode = 'US' | 'LSE';
+export type MarketSession = 'pre' | 'regular' | 'post' | 'closed';
+
+export interface SessionWindow {
+  open: Date;
+  close: Date;
+}
+
+export interface TradingDaySchedule {
+  exchange: ExchangeCode;
+  date: string; // Exchange-local date, YYYY-MM-DD
+  isTradingDay: boolean;
+  holiday?: string;
+  earlyClose?: string; // Reason the regular session ends early
+  pre?: SessionWindow;
+  regular?: SessionWindow;
+  post?: SessionWindow;
+}
+
+export interface MarketStatus {
+  exchange: ExchangeCode;
+  timeZone: string;
+  session: MarketSession;
+  isOpen: boolean; // Regular session in progress
+  isTradingDay: boolean;
+  holiday?: string;
+  earlyClose?: string;
+  nextOpen: Date; // Next regular session open
+  nextClose: Date | null; // End of the current regular session, when open
+}
+
+// Backtesting
+// A rule matches a TradingSignal by indicator name (e.g. RSI_OVERSOLD) and type
+export interface BacktestSignalRule {
+  indicator: string;
+  type: 'BUY' | 'SELL';
+  minStrength?: number; // 0-1, defaults to any strength
+}
+
+export interface BacktestStrategy {
+  id?: string;
+  name: string;
+  description?: string;
+  entry: BacktestSignalRule[];
+  exit: BacktestSignalRule[];
+  entryMatch: 'any' | 'all'; // Whether one or every entry rule must fire on the same bar
+  exitMatch: 'any' | 'all';
+  stopLossPercent?: number; // Exit when the low falls this far below the entry price
+  takeProfitPercent?: number; // Exit when the high rises this far above the entry price
+}
+
+export interface BacktestConfig {
+  initialCapital: number;
+  commissionPerTrade: number; // Flat fee per fill
+  commissionPercent: number; // Percent of fill value
+  slippageBps: number; // Adverse price move per fill, in basis points
+  positionSizePercent: number; // Share of equity committed per entry (0-100)
+  riskFreeRate?: number; // Annual rate used by the Sharpe ratio, e.g. 0.04
+}
+
+export interface BacktestTrade {
+  entryTime: string; // ISO timestamp of the entry fill
+  entryPrice: number; // After slippage
+  exitTime: string;
+  exitPrice: number;
+  shares: number;
+  commission: number; // Both fills
+  pnl: number; // Net of commission
+  returnPercent: number; // Net P&L over entry cost
+  barsHeld: number;
+  entryReason: string;
+  exitReason: string;
+}
+
+export interface EquityPoint {
+  timestamp: string;
+  equity: number; // Cash plus open position marked at the close
+  drawdown: number; // Percent below the running peak (0 or negative)
+}
+
+export interface BacktestMetrics {
+  totalReturn: number; // Percent
+  cagr: number; // Percent per year
+  maxDrawdown: number; // Percent (0 or negative)
+  sharpeRatio: number; // Annualized
+  winRate: number; // Percent of closed trades with positive P&L
+  trades: number;
+  profitFactor: number | null; // Gross profit over gross loss; null without losing trades
+  exposure: number; // Percent of bars with an open position
+  buyAndHoldReturn: number; // Percent, for comparison
+}
+
+export interface BacktestResult {
+  symbol: string;
+  resolution: string;
+  from: string;
+  to: string;
+  bars: number;
+  strategy: BacktestStrategy;
+  config: BacktestConfig;
+  metrics: BacktestMetrics;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+}
+
+// Screener
+// Fundamentals and the latest quote for one symbol of the screener universe
+export interface ScreenerRow {
+  ticker: string;
+  name: string;
+  sector: string; // Universe group, e.g. Technology
+  industry?: string; // Provider classification
+  exchange?: string;
+  currentPrice: number;
+  change: number;
+  changePercent: number;
+  volume: number | null; // Today's volume, when the vendor reports it
+  averageVolume: number | null; // 10-day average daily volume
+  volumeRatio: number | null; // Today's volume over the 10-day average
+  marketCap: number | null; // Millions
+  peRatio: number | null;
+  dividendYield: number | null; // Percent
+  beta: number | null;
+  week52High: number | null;
+  week52Low: number | null;
+  percentFromHigh: number | null; // Percent below the 52-week high (0 or negative)
+  shareFloat: number | null; // Shares outstanding, millions
+  quoteUpdatedAt: string;
+  fundamentalsUpdatedAt: string;
+  signals?: Record<string, number | null>; // Terms of the query's signal rule at the latest bar
+}
+
+export type ScreenerField = Exclude<keyof ScreenerRow, 'quoteUpdatedAt' | 'fundamentalsUpdatedAt' | 'signals'>;
+export type ScreenerOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq' | 'between' | 'in';
+
+export interface ScreenerFilter {
+  field: ScreenerField;
+  op: ScreenerOperator;
+  value: number | string | (number | string)[]; // [min, max] for between, a list for in
+}
+
+export interface ScreenerQuery {
+  filters?: ScreenerFilter[]; // All must hold
+  rule?: string; // Signal rule over daily bars, e.g. "volume > avg_volume(20)"
+  sort?: { field: ScreenerField; direction: 'asc' | 'desc' };
+  page?: number; // 1-based
+  pageSize?: number;
+}
+
+export interface ScreenerUniverseEntry {
+  symbol: string;
+  sector?: string; // Group label; the provider's industry is used when absent
+}
+
+export interface ScreenerResult {
+  rows: ScreenerRow[];
+  total: number; // Matches before pagination
+  page: number;
+  pageSize: number;
+  universeSize: number;
+  asOf: string | null; // Oldest quote in the snapshot
+  stale: boolean; // A refresh was started and the next query may differ
+  rule?: string;
+}
+
+// Ticker Extraction
+// Tickers and intents found in free text by services/nlpTickerService.ts
+export interface TickerMention {
+  symbol: string;
+  text: string; // As written, e.g. "$AAPL", "Apple Inc."
+  start: number; // Character offsets into the text, end exclusive
+  end: number;
+  via: 'cashtag' | 'exchange' | 'symbol' | 'name';
+  confidence: number; // 0-1
+}
+
+export type TickerIntentType = 'price' | 'performance' | 'buy' | 'sell' | 'alert' | 'news' | 'watchlist';
+
+export interface TickerIntent {
+  type: TickerIntentType;
+  text: string; // Phrase that signalled it, e.g. "alert me when"
+  start: number;
+  end: number;
+  confidence: number;
+  condition?: { direction?: 'above' | 'below'; price: number }; // Alert threshold when stated; no direction for "hits 200"
+}
+
+export interface TickerQuery {
+  tickers: TickerMention[]; // Most confident first
+  intents: TickerIntent[]; // In order of appearance
+}
+
+// News Sentiment
+// Lexicon scores from services/newsSentiment.ts, linked to tickers by services/nlpTickerService.ts
+export type SentimentLabel = 'positive' | 'negative' | 'neutral';
+
+export interface SentimentScore {
+  score: number; // -1 (bearish) to 1 (bullish)
+  label: SentimentLabel;
+  confidence: number; // 0-1, grows with the number of sentiment terms and how much they agree
+  terms: string[]; // Lexicon terms that contributed; negated ones are prefixed with "not "
+}
+
+export interface ScoredNewsArticle {
+  id: string;
+  symbol: string; // Ticker the article was fetched for
+  headline: string;
+  source?: string;
+  url?: string;
+  publishedAt: string; // ISO
+  sentiment: SentimentScore;
+  mentions: TickerMention[]; // Every ticker linked in the headline and summary
+  relevance: number; // 0-1, how clearly the article is about `symbol`
+}
+
+// Weighted sentiment of one day's articles (UTC date)
+export interface SentimentPoint {
+  date: string; // YYYY-MM-DD
+  score: number;
+  confidence: number;
+  articleCount: number;
+}
+
+export interface TickerSentiment {
+  symbol: string;
+  score: number; // Relevance-, confidence- and recency-weighted mean over the window
+  label: SentimentLabel;
+  confidence: number;
+  articleCount: number;
+  days: number; // Window the score covers
+  series: SentimentPoint[]; // Oldest first, days without articles omitted
+  articles: ScoredNewsArticle[]; // Newest first, inside the window
+  updatedAt: string;
+}
+
+// Earnings Calendar
+// Reports per ticker from services/earningsCalendarService.ts; dates are exchange-local
+export type EarningsHour = 'bmo' | 'amc' | 'dmh' | 'unknown'; // Before open, after close, during market hours
+
+export interface EarningsEvent {
+  symbol: string;
+  date: string; // YYYY-MM-DD
+  hour: EarningsHour;
+  quarter?: number;
+  year?: number;
+  epsEstimate: number | null;
+  epsActual: number | null; // Null until reported
+  epsSurprise: number | null; // Actual minus estimate
+  epsSurprisePercent: number | null; // Relative to the absolute estimate
+  revenueEstimate: number | null;
+  revenueActual: number | null;
+  revenueSurprisePercent: number | null;
+}
+
+export interface TickerEarnings {
+  symbol: string;
+  next: EarningsEvent | null; // Next report on or after today
+  history: EarningsEvent[]; // Reported quarters, newest first
+  beatRate: number | null; // Share of reported quarters with a positive EPS surprise (0-1)
+  averageSurprisePercent: number | null; // Mean absolute EPS surprise of the reported quarters
+  updatedAt: string;
+}
+
+export interface EarningsCalendarEntry extends EarningsEvent {
+  daysUntil: number; // Calendar days from today; 0 reports today
+  tradingDaysUntil: number; // Trading days from today; 0 reports today
+  lastSurprisePercent: number | null; // EPS surprise of the previous report
+  beatRate: number | null;
+}
+
+export interface EarningsCalendar {
+  from: string; // YYYY-MM-DD
+  to: string;
+  entries: EarningsCalendarEntry[]; // Soonest first
+  failed: string[]; // Symbols whose calendar could not be loaded
+}
+
+// Portfolio Risk
+// Computed by services/portfolioRiskService.ts from stored daily candles; money is in the
+// holdings' currency and losses are positive numbers
+export interface PortfolioHolding {
+  ticker: string;
+  quantity: number;
+  price?: number; // Current price; the last stored close when omitted
+}
+
+export interface ValueAtRisk {
+  confidence: number; // e.g. 0.95
+  horizonDays: number;
+  historical: number; // Loss not exceeded on `confidence` of past days (scaled by √horizon)
+  parametric: number; // Normal approximation from the portfolio's mean and volatility
+  historicalCVaR: number; // Mean loss beyond the historical VaR
+  parametricCVaR: number;
+}
+
+export interface PositionRisk {
+  ticker: string;
+  quantity: number;
+  price: number;
+  value: number;
+  weight: number; // Share of the analysed value (0-1)
+  beta: number | null; // Against the benchmark
+  volatility: number; // Annualised, percent
+  riskContribution: number; // Share of portfolio volatility (sums to 1 across positions)
+  componentVaR: number; // Parametric VaR attributable to the position (sums to the portfolio's)
+  scenarioChange: number; // Beta-implied change on the market scenario
+}
+
+export interface CorrelationMatrix {
+  tickers: string[]; // Ordered so correlated tickers sit next to each other
+  values: number[][]; // values[i][j] is the correlation of tickers[i] and tickers[j]
+  clusters: string[][]; // Groups whose average pairwise correlation is at least the threshold
+  threshold: number;
+}
+
+export interface MarketScenario {
+  marketMovePercent: number; // Benchmark move, e.g. -3
+  expectedChange: number; // Beta-implied portfolio change
+  expectedChangePercent: number;
+  historicalChangePercent: number | null; // Mean portfolio return on past days with a similar benchmark move
+  historicalDays: number; // Number of such days
+}
+
+export interface PortfolioRisk {
+  asOf: string; // Date of the last return used (YYYY-MM-DD)
+  benchmark: string;
+  lookbackDays: number; // Requested window in trading days
+  observations: number; // Daily returns every analysed position and the benchmark share
+  totalValue: number; // Value of the analysed positions
+  beta: number | null;
+  volatility: number; // Annualised, percent
+  maxDrawdown: number; // Percent, of the current weights held over the window
+  valueAtRisk: ValueAtRisk[];
+  correlation: CorrelationMatrix;
+  positions: PositionRisk[]; // Largest first
+  scenario: MarketScenario;
+  missing: string[]; // Holdings left out for lack of price history
+}
+
+// Portfolio Performance
+// Computed by services/portfolioPerformanceService.ts from a transaction history and stored
+// daily candles; returns are percentages
+export type TransactionType = 'buy' | 'sell';
+
+export interface PortfolioTransaction {
+  ticker: string;
+  type: TransactionType;
+  date: string; // Trade date (YYYY-MM-DD)
+  quantity: number; // Shares as traded, before any later split
+  price: number; // Per share, as traded
+  fees?: number;
+}
+
+export type PerformancePeriod = '1M' | '3M' | 'YTD' | '1Y' | 'ALL';
+
+export interface PerformancePoint {
+  date: string;
+  value: number; // Holdings at the close plus dividends received
+  netFlow: number; // Purchases minus sale proceeds on the day
+  cumulativeReturn: number; // Time-weighted since the period start
+  benchmarks: Record<string, number | null>; // Cumulative total return of each benchmark
+}
+
+export interface BenchmarkComparison {
+  symbol: string;
+  totalReturn: number;
+  annualizedReturn: number | null; // Null for periods shorter than a year
+  excessReturn: number; // Portfolio time-weighted return minus the benchmark's, in points
+}
+
+export interface PortfolioPerformance {
+  period: PerformancePeriod;
+  from: string; // First valued day
+  to: string;
+  startValue: number; // Value at the close before `from`
+  endValue: number;
+  contributions: number; // Purchases in the period, fees included
+  withdrawals: number; // Sale proceeds in the period, net of fees
+  dividends: number; // Cash dividends received in the period
+  gain: number; // endValue - startValue - contributions + withdrawals
+  timeWeightedReturn: number;
+  annualizedReturn: number | null; // Null for periods shorter than a year
+  moneyWeightedReturn: number | null; // IRR; annualised from a year on, null when it has no solution
+  points: PerformancePoint[];
+  benchmarks: BenchmarkComparison[];
+  missing: string[]; // Tickers and benchmarks left out for lack of price history
+}
+
+// Transaction Ledger
+// Kept per user by services/transactionLedgerService.ts; holdings, lots and P&L are derived
+// by services/transactionLedger.ts and never stored
+export type LedgerTransactionType = 'buy' | 'sell' | 'dividend' | 'split' | 'fee' | 'transfer';
+
+export type LotMethod = 'FIFO' | 'LIFO' | 'SPECIFIC';
+
+export interface LotSelection {
+  lotId: string; // Id of the transaction that opened the lot
+  quantity: number;
+}
+
+export interface LedgerTransaction {
+  id: string;
+  type: LedgerTransactionType;
+  ticker?: string; // Omitted only for account-level fees
+  date: string; // YYYY-MM-DD
+  quantity?: number; // buy, sell, transfer
+  price?: number; // Trade price; for transfers the cost basis (in) or value (out) per share
+  amount?: number; // Dividend cash or fee charged
+  fees?: number; // Commission on a buy or sell
+  ratio?: number; // split: shares after per share before
+  direction?: 'in' | 'out'; // transfer
+  lotMethod?: LotMethod; // Overrides the ledger's method for this sale or transfer out
+  lots?: LotSelection[]; // Lots closed by a SPECIFIC sale or transfer out
+  note?: string;
+  externalId?: string; // Brokerage transaction id of an imported transaction
+  createdAt: string; // ISO timestamp; orders transactions on the same date
+}
+
+export interface TaxLot {
+  id: string;
+  ticker: string;
+  openDate: string;
+  quantity: number; // Remaining, restated for later splits
+  originalQuantity: number;
+  costPerShare: number; // Purchase fees included, restated for later splits
+  costBasis: number;
+}
+
+export interface RealizedLot {
+  ticker: string;
+  lotId: string;
+  openDate: string;
+  closeDate: string;
+  quantity: number;
+  proceeds: number; // Net of the sale's fees
+  costBasis: number;
+  gain: number;
+  term: 'short' | 'long'; // Long when held for more than a year
+}
+
+export interface LedgerHolding {
+  ticker: string;
+  quantity: number;
+  costBasis: number;
+  averageCost: number;
+  firstAcquired: string;
+  lots: TaxLot[]; // Oldest first
+  realizedGain: number;
+  dividends: number;
+  fees: number; // Commissions and fees charged against the ticker
+  price: number | null; // Latest price when one was supplied
+  marketValue: number | null;
+  unrealizedGain: number | null;
+  unrealizedGainPercent: number | null;
+}
+
+export interface LedgerSummary {
+  lotMethod: LotMethod;
+  holdings: LedgerHolding[]; // Open positions, largest cost basis first
+  realized: RealizedLot[]; // In closing order
+  totals: {
+    costBasis: number;
+    marketValue: number | null; // Null unless every holding has a price
+    unrealizedGain: number | null;
+    realizedGain: number;
+    dividends: number;
+    fees: number; // Account fees included
+  };
+}
+
+// Brokerage Import
+// Statements are parsed by services/brokerageImport.ts into ledger transactions and previewed
+// against the ledger before anything is recorded
+export type ImportField =
+  | 'date'
+  | 'action'
+  | 'symbol'
+  | 'description'
+  | 'quantity'
+  | 'price'
+  | 'amount'
+  | 'fees'
+  | 'costBasis'
+  | 'externalId';
+
+export type ImportDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+// What a statement action becomes: a ledger transaction type, a transfer direction or nothing
+export type ImportAction = 'buy' | 'sell' | 'dividend' | 'split' | 'fee' | 'transfer_in' | 'transfer_out' | 'ignore';
+
+export interface BrokerageImportProfile {
+  id: string;
+  name: string;
+  kind: 'transactions' | 'positions'; // Positions statements become transfers in at cost
+  builtIn?: boolean;
+  delimiter?: string; // Default ','
+  dateFormat: ImportDateFormat;
+  // Header names per field; numbers are summed across the listed columns, text takes the first non-empty
+  columns: Partial<Record<ImportField, string[]>>;
+  actions: { match: string; action: ImportAction }[]; // First case-insensitive substring match wins
+}
+
+export type ImportedTransaction = Omit<LedgerTransaction, 'id' | 'createdAt'>;
+
+export interface ParsedStatementRow {
+  line: number; // 1-based line (CSV) or transaction (OFX) in the file
+  transaction: ImportedTransaction | null;
+  symbol?: string; // As written in the statement
+  description?: string;
+  reason?: string; // Why the row was not turned into a transaction
+}
+
+export interface ParsedStatement {
+  format: 'csv' | 'ofx';
+  profileId?: string;
+  rows: ParsedStatementRow[];
+}
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'skipped';
+
+export interface ImportPreviewRow extends ParsedStatementRow {
+  status: ImportRowStatus;
+}
+
+export interface ImportHoldingChange {
+  ticker: string;
+  before: number;
+  after: number;
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  transactions: ImportedTransaction[]; // The new rows, ready to record
+  changes: ImportHoldingChange[]; // Share counts that the import changes
+  error: string | null; // Set when the ledger would not add up with the new rows
+}
+
+// Alerts
+// One definition for watchlist, price and position alerts, evaluated server-side by
+// services/alertEngineService.ts on each scheduler price check
+export type AlertCondition =
+  | { type: 'above'; price: number }
+  | { type: 'below'; price: number }
+  | { type: 'rule'; rule: string } // Signal rule, e.g. "rsi(14) < 30"
+  // Price falls this far from its running high: a percentage, or a multiple of daily ATR(14)
+  | { type: 'trailingStop'; percent?: number; atrMultiple?: number }
+  | { type: 'move'; percent: number; direction?: AlertDirection } // From the previous close
+  | { type: 'gap'; percent: number; direction?: AlertDirection } // Session open against the previous close
+  | { type: 'yearRange'; direction?: AlertDirection }; // New 52-week high (up) or low (down)
+
+// Unset means either way
+export type AlertDirection = 'up' | 'down';
+
+// Where the alert was created: the alert manager, the price alert API or a position's thresholds
+export type AlertSource = 'stock' | 'price' | 'position';
+
+// 'once' deactivates the alert when it fires; 'rearm' lets it fire again under its policy
+export type AlertRepeat = 'once' | 'rearm';
+
+export interface AlertPolicy {
+  // A fired price level re-arms once the price is back this far (%) on the other side of it,
+  // a fired rule once it stops matching; null re-arms on the cooldown alone
+  rearmPercent: number | null;
+  cooldownMinutes: number; // Quiet period after each fire
+  dailyCap?: number; // At most this many fires per exchange day
+  marketHoursOnly?: boolean; // Only fire during the exchange's regular session
+}
+
+// Evaluation state kept with the alert
+export interface AlertState {
+  disarmed: number[]; // Indexes of fired conditions waiting to re-arm
+  day?: string; // Exchange-local date that firedToday counts
+  firedToday: number;
+  runningHigh?: number; // Highest price seen while the alert has a trailing stop
+}
+
+export interface AlertDefinition {
+  id: string;
+  userId: string;
+  ticker: string;
+  conditions: AlertCondition[]; // Fires when any of them holds
+  source: AlertSource;
+  repeat: AlertRepeat;
+  policy?: Partial<AlertPolicy>; // Unset fields take DEFAULT_ALERT_POLICY
+  state?: AlertState;
+  positionId?: string;
+  referencePrice?: number; // Position reference price, for messages
+  isActive: boolean;
+  createdAt: string; // ISO timestamp
+  lastTriggeredAt?: string;
+}
+
+export interface AlertTrigger {
+  id: string;
+  alertId: string;
+  userId: string;
+  ticker: string;
+  source: AlertSource;
+  positionId?: string;
+  condition: AlertCondition; // The condition that held
+  price: number;
+  level?: number; // Price level the condition compared against; unset for rules
+  referencePrice?: number;
+  message: string;
+  triggeredAt: string; // ISO timestamp
+  isRead: boolean;
+}
+
+// Market Analytics
+export interface RiskFlag {
+  type: 'earnings' | 'volatility' | 'float' | 'news' | 'sector';
+  severity: 'low' | 'medium' | 'high';
+  description: string;
+  impact: number; // 0-1 negative impact on recommendation score
+}
+
+export interface PricePerformance {
+  "1h": number;
+  "24h": number;
+  "7d": number;
+  "30d": number;
+  "ytd": number;
+  "1y": number;
+}
+
+export interface VolumeAnalysis {
+  current: number;
+  average20d: number;
+  ratio: number;
+  trend: 'increasing' | 'decreasing' | 'stable';
+}
+
+export interface VolatilityMetrics {
+  current: number;
+  average30d: number;
+  percentile: number;
+  ranking: 'LOW' | 'MEDIUM' | 'HIGH';
+}
+
+export interface MarketTrend {
+  direction: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+  strength: number;
+  duration: string;
+}
+
+export interface MarketAnalytics {
+  currentPrice: number;
+  priceChange: {
+    amount: number;
+    percentage: number;
+    timeframe: string;
+  };
+  performance: PricePerformance;
+  volatility: VolatilityMetrics;
+  volume: VolumeAnalysis;
+  technicals: TechnicalIndicators;
+  chartData: ChartDataPoint[];
+  signals: TradingSignal[];
+  trend: MarketTrend;
+  support: number[];
+  resistance: number[];
+}
+
+// Market-driven stock pick (YouTube scorer and its market data fallback)
+export interface MarketRecommendation {
+  ticker: string;
+  companyName: string;
+  finalScore: number;
+  confidence: number;
+  explanation: string;
+  score?: number;
+  reasoning?: string;
+  price?: number;
+  change?: number;
+  volume?: number;
+  analytics: {
+    momentum: string;
+    sentiment: string;
+    mentions: number;
+    avgScore: number;
+    riskFlags: string[];
+  };
+  breakdown: {
+    popularity: number;
+    sentiment: number;
+    momentum: number;
+    diversification: number;
+  };
+  marketData: {
+    c: number;
+    sector: string;
+    changePercent?: number;
+  };
+}